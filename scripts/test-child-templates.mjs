@@ -0,0 +1,205 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadChildTemplateModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/child-template-core.ts';
+        export { ChildTemplateService } from '../src/services/child-template-service.ts';
+        export { TFile } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'child-template-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'child-template-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'child-template-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class TFile {
+              constructor(path = '') {
+                this.path = path;
+                this.name = path.split('/').pop() || '';
+                this.extension = 'md';
+                this.basename = this.name.replace(/\\.md$/u, '');
+              }
+            }
+            export class Notice {}
+            export class Modal {}
+            export class Setting {}
+            export class FuzzySuggestModal {}
+            export const normalizePath = (value) => String(value).replace(/\\\\/g, '/').replace(/\\/+/g, '/').replace(/^\\/|\\/$/g, '') || '/';
+            // Just enough YAML for flat templates: scalars, quoted strings and [a, b] lists;
+            // plain scalars that real YAML would reject throw.
+            export function parseYaml(text) {
+              const result = {};
+              for (const line of String(text).split('\\n')) {
+                const match = /^([^:]+):\\s*(.*)$/u.exec(line);
+                if (!match) continue;
+                const raw = match[2].trim();
+                if (raw.startsWith('"') && !/^"(?:[^"\\\\]|\\\\.)*"$/u.test(raw)) throw new Error('unclosed quoted scalar');
+                if (!/^["[]/u.test(raw) && (/: | #/u.test(raw) || raw.startsWith('- '))) throw new Error('mapping values are not allowed here');
+                result[match[1].trim()] = raw.startsWith('[')
+                  ? raw.slice(1, -1).split(',').map((item) => item.trim()).filter(Boolean)
+                  : raw.replace(/^"(.*)"$/u, '$1');
+              }
+              return result;
+            }
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const templates = await loadChildTemplateModule();
+
+globalThis.window = { moment: () => ({ format: (format) => (format === 'YYYY-MM-DD' ? '2026-10-19' : `formatted:${format}`) }) };
+
+function createPlugin(childNoteTemplates, files, frontmatter = {}) {
+  const plugin = {
+    settings: {
+      childNoteTemplates,
+      properties: [{ key: 'type', type: 'kind' }],
+    },
+    app: {
+      vault: {
+        getAbstractFileByPath: (path) => (path in files ? new templates.TFile(path) : null),
+        cachedRead: async (file) => files[file.path],
+      },
+      metadataCache: { getFileCache: (file) => ({ frontmatter: frontmatter[file.path] ?? {} }) },
+    },
+  };
+  return plugin;
+}
+
+test('normalization keeps ids unique and drops empty list entries', () => {
+  const normalized = templates.normalizeChildNoteTemplates([
+    { id: 'meeting', name: ' Meeting ', path: 'Templates/Meeting.md', tags: ['#meeting', ''], kinds: [] },
+    { id: 'meeting', path: '' },
+    'nope',
+  ]);
+  assert.deepEqual(normalized, [
+    { id: 'meeting', name: 'Meeting', path: 'Templates/Meeting.md', tags: ['meeting'] },
+    { id: 'meeting-copy', name: 'Untitled template', path: '' },
+  ]);
+});
+
+test('templates match the parent kind or tags and can be found by id, name or path', () => {
+  const list = [
+    { id: 'bug', name: 'Bug', path: 'Templates/Bug.md', kinds: ['Project'] },
+    { id: 'meeting', name: 'Meeting', path: 'Templates/Meeting', tags: ['meeting'] },
+    { id: 'draft', name: 'Draft', path: '', tags: ['meeting'] },
+  ];
+  const match = (frontmatter) => templates.matchChildNoteTemplates(list, templates.readChildTemplateParent(frontmatter, ['type']))
+    .map((template) => template.id);
+  assert.deepEqual(match({ type: 'project' }), ['bug']);
+  assert.deepEqual(match({ tags: ['meeting/weekly'] }), ['meeting']);
+  assert.deepEqual(match({ Type: ['Project'], tags: 'meeting' }), ['bug', 'meeting']);
+  assert.deepEqual(match({ tags: ['meetings'] }), []);
+  assert.equal(templates.findChildNoteTemplate(list, 'bug')?.id, 'bug');
+  assert.equal(templates.findChildNoteTemplate(list, 'meeting')?.id, 'meeting');
+  assert.equal(templates.findChildNoteTemplate(list, 'templates/meeting.md')?.id, 'meeting');
+  assert.equal(templates.findChildNoteTemplate(list, 'Other'), null);
+});
+
+test('variables render parent values, dates and prompt answers and leave other syntax alone', () => {
+  const text = '{{title}} for {{parent.title}} on {{ parent.Scheduled }} ({{date}}, {{date:ddd}}) with {{prompt:Who?}}; {{parent.tags}} {{parent.missing}}{{tp.file.title}}';
+  const rendered = templates.renderChildTemplateText(text, {
+    title: 'Sync',
+    parentTitle: 'Launch',
+    parentFrontmatter: { scheduled: '2026-10-20', tags: ['a', 'b'] },
+    formatDate: (format) => `<${format}>`,
+    prompts: { 'Who?': 'Ana' },
+  });
+  assert.equal(rendered, 'Sync for Launch on 2026-10-20 (<YYYY-MM-DD>, <ddd>) with Ana; a, b {{tp.file.title}}');
+  assert.deepEqual(templates.collectChildTemplatePrompts('{{prompt:Who?}} {{prompt: Where }}', 'x {{prompt:Who?}}'), ['Who?', 'Where']);
+});
+
+test('rendering reads the template note, inherits selected parent properties and fills prompts empty through the API', async () => {
+  const meeting = { id: 'meeting', name: 'Meeting', path: 'Templates/Meeting.md', kinds: ['meeting'], inheritProperties: ['project', 'area', 'missing'] };
+  const plugin = createPlugin([meeting], {
+    'Templates/Meeting.md': '---\nproject: "[[{{parent.title}}]]"\nscheduled: {{parent.scheduled}}\ntags: [meeting]\n---\n# {{title}}\n\nAttendees: {{prompt:Attendees}}\nDate: {{date}}\n',
+  }, {
+    'Projects/Launch.md': { type: 'meeting', title: 'Launch', scheduled: '2026-10-20', project: 'Other', area: 'Work' },
+  });
+  const service = new templates.ChildTemplateService(plugin);
+  const parent = new templates.TFile('Projects/Launch.md');
+
+  assert.equal(service.resolveTemplate('auto', parent)?.id, 'meeting');
+  assert.equal(service.resolveTemplate('Templates/Meeting.md', null)?.id, 'meeting');
+  assert.throws(() => service.resolveTemplate('Templates/Nope.md', parent), /Template "Templates\/Nope.md" not found/);
+
+  const rendered = await service.render(meeting, { title: 'Kickoff', parent, interactive: false });
+  assert.deepEqual(rendered, {
+    frontmatter: { project: '[[Launch]]', scheduled: '2026-10-20', tags: ['meeting'], area: 'Work' },
+    body: '# Kickoff\n\nAttendees: \nDate: 2026-10-19',
+  });
+
+  const options = await service.applyToSubitemOptions(null, parent, 'Kickoff', { initialBody: 'kept' });
+  assert.deepEqual(options, { initialBody: 'kept' });
+});
+
+test('filled-in values with YAML syntax stay single string values', async () => {
+  const note = { id: 'note', name: 'Note', path: 'Templates/Note.md' };
+  const plugin = createPlugin([note], {
+    'Templates/Note.md': '---\ntitle: {{title}}\nsummary: "{{title}} for {{parent.title}}"\naliases: [{{title}}]\n---\n# {{title}}\n',
+  }, {
+    'Projects/Launch.md': { title: 'Launch "v2"' },
+  });
+  const service = new templates.ChildTemplateService(plugin);
+  const title = 'Review: phase 2 #1';
+  const rendered = await service.render(note, { title, parent: new templates.TFile('Projects/Launch.md'), interactive: false });
+  assert.deepEqual(rendered.frontmatter, {
+    title,
+    summary: 'Review: phase 2 #1 for Launch "v2"',
+    aliases: [title],
+  });
+  assert.equal(rendered.body, '# Review: phase 2 #1');
+});
+
+test('a single matching template is used without asking and none means no template', async () => {
+  const service = new templates.ChildTemplateService(createPlugin([], {}));
+  const only = { id: 'a', name: 'A', path: 'A.md' };
+  assert.deepEqual(await service.chooseTemplate([]), { template: null });
+  assert.deepEqual(await service.chooseTemplate([only]), { template: only });
+});
+
+test('the template body goes to the created note that matches the expected name and frontmatter', async () => {
+  const files = {};
+  const plugin = createPlugin([], files);
+  let onCreate = null;
+  Object.assign(plugin.app.vault, {
+    on: (name, handler) => { onCreate = handler; return { name }; },
+    offref: () => { onCreate = null; },
+    process: async (file, update) => { files[file.path] = update(files[file.path]); },
+  });
+  const service = new templates.ChildTemplateService(plugin);
+  const createNote = (path, content) => {
+    files[path] = content;
+    onCreate?.(new templates.TFile(path));
+  };
+
+  await service.withBodyForCreatedNote('## Notes', async () => {
+    createNote('Inbox/Synced.md', '---\nstatus: open\n---\n');
+    createNote('Projects/Untitled 1.md', '---\nstatus: open\n---\n');
+    createNote('Projects/Untitled 2.md', '---\nstatus: open\nproject: Launch\n---\n');
+  }, { baseName: 'Untitled', frontmatter: { status: 'open', project: 'Launch', tags: ['meeting'] } });
+
+  assert.equal(files['Projects/Untitled 2.md'], '---\nstatus: open\nproject: Launch\n---\n## Notes\n');
+  assert.equal(files['Projects/Untitled 1.md'], '---\nstatus: open\n---\n');
+  assert.equal(files['Inbox/Synced.md'], '---\nstatus: open\n---\n');
+});
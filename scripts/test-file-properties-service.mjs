@@ -613,6 +613,30 @@ test('the entire managed catalog rejects non-Markdown sources and reconciliation
   )));
 });
 
+test('reconciling selected companions leaves the other companions where they are', async () => {
+  const harness = createHarness();
+  const photo = harness.addFile('Media/Photo.jpg', 'JPEG bytes');
+  const scan = harness.addFile('Media/Scan.pdf', 'PDF bytes');
+  const service = new FilePropertiesService(harness.plugin);
+  await service.process(photo, (frontmatter) => { frontmatter.status = 'new'; });
+  await service.process(scan, (frontmatter) => { frontmatter.status = 'new'; });
+  const photoPath = service.getCompanionPath(photo);
+  const scanPath = service.getCompanionPath(scan);
+  const photoCompanion = harness.vault.getAbstractFileByPath(photoPath);
+  const scanCompanion = harness.vault.getAbstractFileByPath(scanPath);
+
+  await harness.rename(photoCompanion, 'Moved/Photo properties.md');
+  await service.handleCompanionRename(photoCompanion, photoPath);
+  await harness.rename(scanCompanion, 'Moved/Scan properties.md');
+  await service.handleCompanionRename(scanCompanion, scanPath);
+
+  const report = await service.reconcileCompanions([photoCompanion.path]);
+  assert.equal(report.moved, 1);
+  assert.equal(photoCompanion.path, photoPath);
+  assert.equal(scanCompanion.path, 'Moved/Scan properties.md');
+  assert.equal(service.getCompanionFile(scan), scanCompanion, 'unselected companions stay indexed');
+});
+
 test('moved companions and direct YAML edits refresh sync reads while duplicate mappings fail closed', async () => {
   const harness = createHarness();
   const source = harness.addFile('Media/Photo.jpg', 'JPEG bytes');
@@ -0,0 +1,271 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadIcsExportModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/ics-export-core.ts';
+        export * from '../src/utils/schedule-value.ts';
+        export { IcsExportService, normalizeIcsExportPath } from '../src/services/ics-export-service.ts';
+        export { TFile } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'ics-export-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'ics-export-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'ics-export-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class TFile {
+              constructor(path = '') {
+                this.path = path;
+                this.name = path.split('/').pop() || '';
+                this.extension = this.name.includes('.') ? this.name.split('.').pop() : '';
+                this.basename = this.extension ? this.name.slice(0, -(this.extension.length + 1)) : this.name;
+              }
+            }
+            export class Notice {}
+            export const normalizePath = (value) => String(value).replace(/\\\\/g, '/').replace(/\\/+/g, '/').replace(/^\\/|\\/$/g, '');
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const ics = await loadIcsExportModule();
+
+function unfold(content) {
+  return content.replace(/\r\n /g, '');
+}
+
+function createFixture({ notes = [], tasks = [], existing = [] } = {}) {
+  const files = new Map(existing.map((path) => [path, new ics.TFile(path)]));
+  const writes = [];
+  const folders = [];
+  const plugin = {
+    app: {
+      vault: {
+        getName: () => 'My Vault',
+        getAbstractFileByPath: (path) => files.get(path) ?? (folders.includes(path) ? { path } : null),
+        createFolder: async (path) => { folders.push(path); },
+        create: async (path, content) => {
+          const file = new ics.TFile(path);
+          files.set(path, file);
+          writes.push({ path, content, created: true });
+          return file;
+        },
+        modify: async (file, content) => { writes.push({ path: file.path, content, created: false }); },
+      },
+    },
+    sharedServices: {
+      schedule: {
+        isAllDayValue: (value, fm) => fm?.allDay === true || String(fm?.allDay) === 'true'
+          || /^\d{4}-\d{2}-\d{2}$/.test(String(value ?? '').trim()),
+      },
+    },
+    vaultQueryService: {
+      queryAsync: async (criteria) => {
+        plugin.lastNoteCriteria = criteria;
+        return notes.map(({ path, frontmatter }) => ({ file: new ics.TFile(path), frontmatter, metadata: null }));
+      },
+    },
+    taskApiService: {
+      list: async (filter) => {
+        plugin.lastTaskFilter = filter;
+        return tasks;
+      },
+    },
+  };
+  return { plugin, service: new ics.IcsExportService(plugin), writes, folders };
+}
+
+test('schedule values keep wall-clock parts and reject impossible dates', () => {
+  assert.deepEqual(ics.parseScheduleValue('2026-03-08 02:30'), {
+    year: 2026, month: 3, day: 8, hour: 2, minute: 30, second: 0,
+  });
+  assert.deepEqual(ics.parseScheduleValue('[[2026-05-06]]'), {
+    year: 2026, month: 5, day: 6, hour: 0, minute: 0, second: 0,
+  });
+  assert.equal(ics.parseScheduleValue('2026-05-06 1:15 PM - 2:00 PM').hour, 13);
+  assert.equal(ics.parseScheduleValue('2026-02-30'), null);
+  assert.equal(ics.parseScheduleValue('next tuesday'), null);
+  assert.equal(ics.parseDurationMinutes('1h30m'), 90);
+  assert.equal(ics.parseDurationMinutes(45), 45);
+  assert.equal(ics.parseDurationMinutes('soon'), 0);
+});
+
+test('recurrence rules are normalized and after-completion rules are dropped', () => {
+  assert.equal(ics.normalizeIcsRecurrenceRule('RRULE:freq=weekly;byday=MO,WE'), 'FREQ=WEEKLY;BYDAY=MO,WE');
+  assert.equal(
+    ics.normalizeIcsRecurrenceRule('DTSTART:20260101T090000\nRRULE:FREQ=DAILY;COUNT=3'),
+    'FREQ=DAILY;COUNT=3',
+  );
+  assert.equal(ics.normalizeIcsRecurrenceRule('GCM-AFTER-COMPLETION:P1D'), null);
+  assert.equal(ics.normalizeIcsRecurrenceRule('every day'), null);
+});
+
+test('text is escaped and long lines fold at 75 octets without splitting characters', () => {
+  assert.equal(ics.escapeIcsText('a,b;c\\d\ne'), 'a\\,b\\;c\\\\d\\ne');
+  const folded = ics.foldIcsLine(`SUMMARY:${'é'.repeat(80)}`);
+  const encoder = new TextEncoder();
+  for (const line of folded.split('\r\n')) assert.ok(encoder.encode(line).length <= 75);
+  assert.equal(unfold(folded), `SUMMARY:${'é'.repeat(80)}`);
+});
+
+test('calendar documents emit all-day and timed events with stable UIDs', () => {
+  const content = ics.buildIcsCalendar([
+    {
+      stableId: 'item_launch',
+      fallbackKey: 'Projects/Launch.md',
+      summary: 'Launch, v2',
+      start: ics.parseScheduleValue('2026-05-06'),
+      allDay: true,
+      durationMinutes: 0,
+      rrule: null,
+    },
+    {
+      stableId: null,
+      fallbackKey: 'Daily/2026-05-06.md\nStandup',
+      summary: 'Standup',
+      start: ics.parseScheduleValue('2026-05-06 23:30'),
+      allDay: false,
+      durationMinutes: 45,
+      rrule: 'FREQ=DAILY',
+    },
+  ], { name: 'Vault', stamp: new Date(Date.UTC(2026, 4, 1, 12, 0, 0)) });
+
+  assert.ok(content.endsWith('END:VCALENDAR\r\n'));
+  assert.doesNotMatch(content.replace(/\r\n/g, ''), /\n/);
+  const lines = unfold(content).split('\r\n');
+  assert.deepEqual(lines.slice(0, 3), ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//TPS//Global Context Menu//EN']);
+  assert.ok(lines.includes('UID:item_launch@tps-global-context-menu'));
+  assert.ok(lines.includes('DTSTART;VALUE=DATE:20260506'));
+  assert.ok(lines.includes('DTEND;VALUE=DATE:20260507'));
+  assert.ok(lines.includes('SUMMARY:Launch\\, v2'));
+  assert.ok(lines.includes('DTSTART:20260506T233000'));
+  assert.ok(lines.includes('DTEND:20260507T001500'));
+  assert.ok(lines.includes('RRULE:FREQ=DAILY'));
+  assert.equal(lines.filter((line) => line === 'DTSTAMP:20260501T120000Z').length, 2);
+  assert.equal(
+    ics.buildIcsUid(null, 'Daily/2026-05-06.md\nStandup'),
+    ics.buildIcsUid(null, 'Daily/2026-05-06.md\nStandup'),
+  );
+});
+
+test('exportIcs writes scheduled notes and task lines into the vault', async () => {
+  const fixture = createFixture({
+    notes: [
+      {
+        path: 'Projects/Launch.md',
+        frontmatter: { title: 'Launch', scheduled: '2026-05-06 09:00', timeEstimate: 60, tpsId: 'item_launch', recurrenceRule: 'FREQ=WEEKLY', tags: ['work'] },
+      },
+      { path: 'Projects/Broken.md', frontmatter: { scheduled: 'someday' } },
+    ],
+    tasks: [
+      {
+        path: 'Daily/2026-05-06.md',
+        title: 'Call Sam',
+        stableId: 'item_call',
+        tags: [],
+        fields: { scheduled: '2026-05-07', tpsId: 'item_call' },
+      },
+      { path: 'Daily/2026-05-06.md', title: 'Unscheduled', stableId: null, tags: [], fields: {} },
+    ],
+  });
+
+  const result = await fixture.service.exportIcs({ path: 'Exports/schedule' });
+  assert.deepEqual(result, {
+    ok: true, path: 'Exports/schedule.ics', events: 2, skipped: 1, withoutStableId: 0, taskLimitReached: false,
+  });
+  assert.equal(fixture.plugin.lastTaskFilter.maxResults, 5000);
+  assert.deepEqual(fixture.folders, ['Exports']);
+  assert.deepEqual(fixture.plugin.lastNoteCriteria.properties, [{ key: 'scheduled', operator: 'exists' }]);
+  assert.equal(fixture.writes.length, 1);
+  const lines = unfold(fixture.writes[0].content).split('\r\n');
+  assert.ok(lines.includes('UID:item_launch@tps-global-context-menu'));
+  assert.ok(lines.includes('DTEND:20260506T100000'));
+  assert.ok(lines.includes('RRULE:FREQ=WEEKLY'));
+  assert.ok(lines.includes('CATEGORIES:work'));
+  assert.ok(lines.includes('URL:obsidian://open?vault=My%20Vault&file=Projects%2FLaunch.md'));
+  assert.ok(lines.includes('UID:item_call@tps-global-context-menu'));
+  assert.ok(lines.includes('DTSTART;VALUE=DATE:20260507'));
+  assert.ok(lines.includes('X-WR-CALNAME:My Vault'));
+});
+
+test('recurring notes and tasks export their exceptions and start from the recurrence anchor', async () => {
+  const fixture = createFixture({
+    notes: [{
+      path: 'Projects/Standup.md',
+      frontmatter: {
+        scheduled: '2026-05-13 16:00',
+        recurrenceAnchor: '2026-05-13 15:00:00',
+        recurrenceRule: 'FREQ=WEEKLY',
+        exdate: ['2026-05-13', '2026-05-20'],
+        rdate: ['2026-05-13 16:00'],
+        tpsId: 'item_standup',
+      },
+    }],
+    tasks: [{
+      path: 'Daily/2026-05-06.md',
+      title: 'Water plants',
+      stableId: 'item_water',
+      tags: [],
+      fields: { scheduled: '2026-05-06', recurrence: 'FREQ=DAILY', exdate: '2026-05-08', rdate: '2026-05-09T00:00, 2026-05-30' },
+    }],
+  });
+
+  await fixture.service.exportIcs();
+  const events = unfold(fixture.writes[0].content).split('BEGIN:VEVENT').slice(1).map((event) => event.split('\r\n'));
+  const [standup, water] = events;
+  assert.ok(standup.includes('DTSTART:20260513T150000'));
+  assert.ok(standup.includes('EXDATE:20260513T150000,20260520T150000'));
+  assert.ok(standup.includes('RDATE:20260513T160000'));
+  assert.ok(water.includes('DTSTART;VALUE=DATE:20260506'));
+  assert.ok(water.includes('EXDATE;VALUE=DATE:20260508'));
+  assert.ok(water.includes('RDATE;VALUE=DATE:20260509,20260530'));
+});
+
+test('exportIcs counts only written events and reports a task list cut off at its limit', async () => {
+  const task = (title) => ({ path: 'Daily/2026-05-06.md', title, stableId: 'item_copy', tags: [], fields: { scheduled: '2026-05-07', tpsId: 'item_copy' } });
+  const fixture = createFixture({
+    notes: [{ path: 'A.md', frontmatter: { scheduled: '2026-05-06', tpsId: 'item_copy' } }],
+    tasks: [task('Copy one'), task('Copy two')],
+  });
+
+  const result = await fixture.service.exportIcs({ tasks: { maxResults: 2 } });
+  assert.equal(result.events, 1);
+  assert.equal(result.taskLimitReached, true);
+  assert.equal(fixture.writes[0].content.split('BEGIN:VEVENT').length - 1, 1);
+
+  const roomy = await fixture.service.exportIcs({ tasks: { maxResults: 3 } });
+  assert.equal(roomy.taskLimitReached, false);
+});
+
+test('exportIcs overwrites an existing export and honours disabled sources', async () => {
+  const fixture = createFixture({
+    existing: ['TPS Schedule.ics'],
+    notes: [{ path: 'A.md', frontmatter: { scheduled: '2026-05-06' } }],
+  });
+  const result = await fixture.service.exportIcs({ tasks: false });
+  assert.equal(result.ok, true);
+  assert.equal(result.events, 1);
+  assert.equal(result.withoutStableId, 1);
+  assert.equal(fixture.plugin.lastTaskFilter, undefined);
+  assert.equal(fixture.writes[0].created, false);
+  assert.equal(fixture.writes[0].path, 'TPS Schedule.ics');
+});
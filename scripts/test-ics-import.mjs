@@ -0,0 +1,304 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadIcsImportModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/ics-import-core.ts';
+        export { buildIcsCalendar } from '../src/services/ics-export-core.ts';
+        export { IcsImportService } from '../src/services/ics-import-service.ts';
+        export { TFile } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'ics-import-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'ics-import-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'ics-import-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class TFile {
+              constructor(path = '') {
+                this.path = path;
+                this.name = path.split('/').pop() || '';
+                this.extension = this.name.includes('.') ? this.name.split('.').pop() : '';
+                this.basename = this.extension ? this.name.slice(0, -(this.extension.length + 1)) : this.name;
+              }
+            }
+            export class TFolder {}
+            export class Notice {}
+            export class Modal {}
+            export class Setting {}
+            export const parseYaml = () => ({});
+            export const normalizePath = (value) => String(value).replace(/\\\\/g, '/').replace(/\\/+/g, '/').replace(/^\\/|\\/$/g, '');
+            export const stringifyYaml = (value) => Object.entries(value).map(([key, entry]) => key + ': ' + entry).join('\\n') + '\\n';
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const ics = await loadIcsImportModule();
+
+/** Local `YYYY-MM-DD HH:mm:ss` for a UTC instant, so expectations hold in any host time zone. */
+function localStamp(utcMs) {
+  const date = new Date(utcMs);
+  const pad = (value) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// 15:00 Europe/Berlin (CEST) and 13:00Z.
+const STANDUP_LOCAL = localStamp(Date.UTC(2026, 4, 6, 13, 0));
+const LAUNCH_LOCAL = localStamp(Date.UTC(2026, 4, 8, 13, 0));
+
+const CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VTIMEZONE',
+  'TZID:Europe/Berlin',
+  'BEGIN:STANDARD',
+  'DTSTART:19701025T030000',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:standup-1@example.com',
+  'DTSTART;TZID=Europe/Berlin:20260506T150000',
+  'DTEND;TZID=Europe/Berlin:20260506T153000',
+  'RRULE:FREQ=WEEKLY;BYDAY=WE',
+  'SUMMARY:Team\\, standup',
+  'DESCRIPTION:Line one\\nLine two that is long enough to be',
+  '  folded onto the next line',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:offsite@example.com',
+  'DTSTART;VALUE=DATE:20260510',
+  'DTEND;VALUE=DATE:20260512',
+  'SUMMARY:Offsite',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:standup-1@example.com',
+  'RECURRENCE-ID;TZID=Europe/Berlin:20260513T150000',
+  'DTSTART;TZID=Europe/Berlin:20260513T160000',
+  'SUMMARY:Moved standup',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:cancelled@example.com',
+  'DTSTART:20260507T120000Z',
+  'STATUS:CANCELLED',
+  'SUMMARY:Gone',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:item_launch@tps-global-context-menu',
+  'DTSTART:20260508T130000Z',
+  'DURATION:PT1H15M',
+  'SUMMARY:Launch',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+function createFixture({ notes = [], tasks = [], ics: content = CALENDAR } = {}) {
+  const files = new Map([['Inbox/cal.ics', new ics.TFile('Inbox/cal.ics')]]);
+  const created = [];
+  const folders = [];
+  const processed = [];
+  const taskCreates = [];
+  const taskUpdates = [];
+  const noteRecords = notes.map(({ path, frontmatter }) => ({ file: new ics.TFile(path), frontmatter }));
+  const plugin = {
+    settings: { properties: [{ id: 'recurrence', key: 'recurrenceRule', type: 'recurrence' }] },
+    app: {
+      vault: {
+        getAbstractFileByPath: (path) => files.get(path) ?? (folders.includes(path) ? { path } : null),
+        read: async () => content,
+        createFolder: async (path) => { folders.push(path); },
+        create: async (path, text) => {
+          const file = new ics.TFile(path);
+          files.set(path, file);
+          created.push({ path, text });
+          return file;
+        },
+      },
+      metadataCache: { getFirstLinkpathDest: () => null },
+    },
+    vaultQueryService: { query: () => noteRecords },
+    identityService: {
+      getInternalId: (fm) => fm?.tpsId ?? null,
+      getExternalId: (fm) => fm?.externalId ?? null,
+      createInternalId: () => 'item_new',
+    },
+    frontmatterMutationService: {
+      process: async (file, mutator, cause) => {
+        const record = noteRecords.find((note) => note.file.path === file.path);
+        mutator(record.frontmatter);
+        processed.push({ path: file.path, frontmatter: { ...record.frontmatter }, cause });
+        return true;
+      },
+    },
+    fileNamingService: { updateFilenameIfNeeded: async () => {} },
+    noteOperationService: { ensureDailyNote: async (date) => new ics.TFile(`Daily/${date.slice(0, 10)}.md`) },
+    taskApiService: {
+      list: async () => tasks,
+      create: async (input, cause) => {
+        taskCreates.push({ input, cause });
+        return { ok: true, changed: true, task: null };
+      },
+      update: async (ref, input, cause) => {
+        taskUpdates.push({ ref, input, cause });
+        return { ok: true, changed: true, task: null };
+      },
+    },
+  };
+  return { plugin, service: new ics.IcsImportService(plugin), created, folders, processed, taskCreates, taskUpdates };
+}
+
+test('parseIcsCalendar reads VEVENTs into local schedule values', () => {
+  const { events, skipped } = ics.parseIcsCalendar(CALENDAR);
+  assert.equal(skipped, 2);
+  assert.equal(events.length, 3);
+  const [standup, offsite, launch] = events;
+  assert.deepEqual(standup, {
+    uid: 'standup-1@example.com',
+    summary: 'Team, standup',
+    description: 'Line one\nLine two that is long enough to be folded onto the next line',
+    scheduled: STANDUP_LOCAL,
+    allDay: false,
+    durationMinutes: 30,
+    rrule: 'FREQ=WEEKLY;BYDAY=WE',
+  });
+  assert.equal(offsite.scheduled, '2026-05-10');
+  assert.equal(offsite.allDay, true);
+  assert.equal(offsite.durationMinutes, 2 * 24 * 60);
+  assert.equal(launch.scheduled, LAUNCH_LOCAL);
+  assert.equal(launch.durationMinutes, 75);
+});
+
+test('import identities are stable and recognise exported UIDs', () => {
+  assert.equal(ics.buildIcsImportExternalId('standup-1@example.com'), 'ics:standup-1@example.com');
+  assert.match(ics.buildIcsImportExternalId('has space\nand newline'), /^ics:h[0-9a-f]{8}$/);
+  assert.equal(ics.tpsIdFromIcsUid('item_launch@tps-global-context-menu'), 'item_launch');
+  assert.equal(ics.tpsIdFromIcsUid('path-1a2b3c4d@tps-global-context-menu'), null);
+  assert.equal(ics.tpsIdFromIcsUid('item_launch@example.com'), null);
+});
+
+test('importIcs creates notes and updates items it imported before', async () => {
+  const fixture = createFixture({
+    notes: [
+      { path: 'Projects/Launch.md', frontmatter: { title: 'Launch', scheduled: LAUNCH_LOCAL, timeEstimate: 75, tpsId: 'item_launch' } },
+      { path: 'Events/Offsite.md', frontmatter: { title: 'Offsite', scheduled: '2026-05-09', externalId: 'ics:offsite@example.com' } },
+    ],
+  });
+  const result = await fixture.service.importIcs('Inbox/cal.ics', { folder: 'Events' });
+  assert.deepEqual(result, {
+    ok: true, path: 'Inbox/cal.ics', created: 1, updated: 1, unchanged: 1, skipped: 2, failed: 0,
+  });
+  assert.deepEqual(fixture.folders, ['Events']);
+  assert.equal(fixture.created.length, 1);
+  assert.equal(fixture.created[0].path, 'Events/Team, standup.md');
+  assert.match(fixture.created[0].text, /recurrenceRule: FREQ=WEEKLY;BYDAY=WE/);
+  assert.match(fixture.created[0].text, /externalId: ics:standup-1@example.com/);
+  assert.match(fixture.created[0].text, /tpsId: item_new/);
+  assert.match(fixture.created[0].text, /\n---\n\nLine one\nLine two/);
+
+  const offsite = fixture.processed.find((entry) => entry.path === 'Events/Offsite.md');
+  assert.equal(offsite.frontmatter.scheduled, '2026-05-10');
+  assert.equal(offsite.frontmatter.timeEstimate, 2880);
+  assert.equal(offsite.cause.surface, 'ics-import');
+  assert.ok(offsite.cause.interactionId);
+});
+
+test('importIcs as tasks appends to Daily Notes and updates matching task lines', async () => {
+  const fixture = createFixture({
+    tasks: [{
+      path: 'Daily/2026-05-01.md',
+      lineNumber: 4,
+      rawLine: '- [ ] Offsite [scheduled:: 2026-05-10] [externalId:: ics:offsite@example.com]',
+      title: 'Offsite',
+      stableId: null,
+      fields: {},
+    }],
+  });
+  const result = await fixture.service.importIcs(new ics.TFile('Inbox/cal.ics'), { as: 'task' });
+  assert.equal(result.created, 2);
+  assert.equal(result.updated, 1);
+  const standup = fixture.taskCreates.find((entry) => entry.input.title === 'Team, standup');
+  assert.equal(standup.input.targetFile.path, `Daily/${STANDUP_LOCAL.slice(0, 10)}.md`);
+  assert.deepEqual(standup.input.fields, {
+    scheduled: STANDUP_LOCAL,
+    timeEstimate: '30',
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=WE',
+    externalId: 'ics:standup-1@example.com',
+  });
+  const launch = fixture.taskCreates.find((entry) => entry.input.title === 'Launch');
+  assert.equal(launch.input.fields.tpsId, 'item_launch');
+  assert.deepEqual(fixture.taskUpdates[0].input, { fields: { timeEstimate: '2880' } });
+});
+
+test('exported items round-trip onto themselves whatever the import target is', async () => {
+  const exported = ics.buildIcsCalendar([
+    {
+      stableId: 'item_review',
+      fallbackKey: 'Daily/2026-05-06.md\nReview',
+      summary: 'Review',
+      start: { year: 2026, month: 5, day: 6, hour: 9, minute: 0, second: 0 },
+      allDay: false,
+      durationMinutes: 45,
+      rrule: null,
+    },
+    {
+      stableId: 'item_plan',
+      fallbackKey: 'Projects/Plan.md',
+      summary: 'Plan',
+      start: { year: 2026, month: 5, day: 7, hour: 0, minute: 0, second: 0 },
+      allDay: true,
+      durationMinutes: 0,
+      rrule: null,
+    },
+  ], { stamp: new Date(Date.UTC(2026, 4, 1)) });
+  const sources = {
+    notes: [{ path: 'Projects/Plan.md', frontmatter: { title: 'Plan', scheduled: '2026-05-07', tpsId: 'item_plan' } }],
+    tasks: [{
+      path: 'Daily/2026-05-06.md',
+      lineNumber: 2,
+      rawLine: '- [ ] Review [scheduled:: 2026-05-06 09:00:00] [timeEstimate:: 45] [tpsId:: item_review]',
+      title: 'Review',
+      stableId: 'item_review',
+      fields: {},
+    }],
+    ics: exported,
+  };
+
+  for (const as of ['note', 'task']) {
+    const fixture = createFixture(sources);
+    const result = await fixture.service.importIcs('Inbox/cal.ics', { as });
+    assert.deepEqual(
+      { created: result.created, updated: result.updated, unchanged: result.unchanged },
+      { created: 0, updated: 0, unchanged: 2 },
+      `import as ${as}`,
+    );
+    assert.equal(fixture.created.length, 0);
+    assert.equal(fixture.taskCreates.length, 0);
+    assert.equal(fixture.taskUpdates.length, 0);
+  }
+});
+
+test('importIcs reports a missing calendar file', async () => {
+  const fixture = createFixture();
+  const result = await fixture.service.importIcs('Nowhere.ics');
+  assert.equal(result.ok, false);
+  assert.equal(result.error, 'Calendar file was not found.');
+});
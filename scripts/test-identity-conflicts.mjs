@@ -0,0 +1,247 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadIdentityConflictModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/identity-conflict-core.ts';
+        export { IdentityConflictService } from '../src/services/identity-conflict-service.ts';
+        export { MemoryItemHistoryStore } from '../src/services/item-history-store.ts';
+        export { readInlineFieldValue, setInlineFieldValueOnTaskLine } from '../src/utils/task-line-metadata.ts';
+        export { TFile, notices } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'identity-conflict-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'identity-conflict-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'identity-conflict-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export const notices = [];
+            export class TFile {
+              constructor(path = '', ctime = 0) {
+                this.path = path;
+                this.stat = { ctime };
+              }
+            }
+            export class Notice {
+              constructor(message) { notices.push(message); }
+            }
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const identity = await loadIdentityConflictModule();
+
+function historyEvent(eventId, entityId, path, lineNumber, occurredAt) {
+  return {
+    schemaVersion: 1,
+    eventId,
+    operationId: eventId,
+    entityId,
+    entityKind: 'task',
+    action: 'update',
+    occurredAt,
+    committedAt: occurredAt,
+    cause: { kind: 'user', sourcePluginId: 'test', surface: 'test' },
+    changes: [],
+    locatorBefore: { path, lineNumber },
+    outcome: 'committed',
+  };
+}
+
+function createVault(entries) {
+  const files = new Map();
+  const contents = new Map();
+  const frontmatter = new Map();
+  for (const entry of entries) {
+    files.set(entry.path, new identity.TFile(entry.path, entry.ctime ?? 0));
+    contents.set(entry.path, entry.content ?? '');
+    frontmatter.set(entry.path, entry.frontmatter ?? null);
+  }
+  const records = () => {
+    const output = [];
+    for (const [path, content] of contents) {
+      output.push({ entityType: 'note', path, sourcePath: path });
+      content.split('\n').forEach((line, index) => {
+        const match = /\[tpsId:: ([^\]]+)\]/u.exec(line);
+        if (match) {
+          output.push({ entityType: 'block', path: `${path}#L${index + 1}`, sourcePath: path, lineNumber: index + 1, lineProperties: { tpsId: [match[1]] } });
+        }
+      });
+    }
+    return output;
+  };
+  const store = new identity.MemoryItemHistoryStore();
+  const retargeted = [];
+  const handlers = new Map();
+  const on = (name, handler) => {
+    handlers.set(name, handler);
+    return { name };
+  };
+  const index = {
+    fullScans: 0,
+    queryAsync: async () => {
+      index.fullScans += 1;
+      return records();
+    },
+    ensureReady: async () => {},
+    getBySourcePath: (path) => records().filter((record) => record.sourcePath === path),
+    onChanged: () => () => {},
+  };
+  let minted = 0;
+  const plugin = {
+    manifest: { id: 'test' },
+    app: {
+      vault: {
+        getAbstractFileByPath: (path) => files.get(path) ?? null,
+        cachedRead: async (file) => contents.get(file.path),
+        process: async (file, update) => { contents.set(file.path, update(contents.get(file.path))); },
+        on,
+      },
+      metadataCache: { getFileCache: (file) => ({ frontmatter: frontmatter.get(file.path) }), on },
+      workspace: { onLayoutReady: () => {} },
+    },
+    register: () => {},
+    registerEvent: () => {},
+    entityIndexService: index,
+    taskApiService: {
+      setField: async (ref, key, value) => {
+        const lines = contents.get(ref.path).split('\n');
+        if (lines[ref.lineNumber] !== ref.rawLine) return { ok: false, changed: false, task: null, error: 'stale' };
+        lines[ref.lineNumber] = identity.setInlineFieldValueOnTaskLine(ref.rawLine, key, value);
+        contents.set(ref.path, lines.join('\n'));
+        return { ok: true, changed: true, task: null };
+      },
+    },
+    identityService: {
+      getInternalId: (fm) => (fm?.tpsId ? String(fm.tpsId) : null),
+      setInternalId: (fm, id) => { fm.tpsId = id; return id; },
+      createInternalId: () => `minted-${++minted}`,
+    },
+    frontmatterMutationService: { process: async (file, update) => update(frontmatter.get(file.path)) },
+    itemHistoryService: {
+      getOriginLocator: async (id) => {
+        const events = await store.query(id, 200);
+        return events[events.length - 1]?.locatorBefore ?? null;
+      },
+      reassignEvents: (id, nextId, path) => store.reassignEvents(id, nextId, path),
+    },
+    timeTrackingService: {
+      retargetSessions: async (fromId, sourcePath, toId) => {
+        retargeted.push([fromId, sourcePath, toId]);
+        return 1;
+      },
+    },
+    eventService: { emitFilesUpdated: () => {} },
+  };
+  const addFile = (entry) => {
+    files.set(entry.path, new identity.TFile(entry.path, entry.ctime ?? 0));
+    contents.set(entry.path, entry.content ?? '');
+    frontmatter.set(entry.path, entry.frontmatter ?? null);
+    handlers.get('create')?.(files.get(entry.path));
+  };
+  return { plugin, contents, frontmatter, store, retargeted, index, addFile };
+}
+
+test('history decides the original before file age and locator', () => {
+  const group = [
+    { id: 'a', path: 'Old.md', line: 4, createdAt: 1 },
+    { id: 'a', path: 'New.md', line: 2, createdAt: 9 },
+    { id: 'a', path: 'New.md', line: 8, createdAt: 9 },
+  ];
+  assert.deepEqual(identity.pickIdentityOriginal(group).original, group[0]);
+  const fromHistory = identity.pickIdentityOriginal(group, { path: 'New.md', lineNumber: 7 });
+  assert.deepEqual(fromHistory.original, group[2]);
+  assert.deepEqual(fromHistory.copies.map((copy) => [copy.path, copy.line]), [['Old.md', 4], ['New.md', 2]]);
+});
+
+test('a note own id wins over the same id on one of its lines', () => {
+  const { original, copies } = identity.pickIdentityOriginal([
+    { id: 'a', path: 'Note.md', line: 0, createdAt: 1 },
+    { id: 'a', path: 'Note.md', createdAt: 1 },
+  ]);
+  assert.equal(original.line, undefined);
+  assert.equal(copies[0].line, 0);
+});
+
+test('a copied note gets new ids and takes its history, time and blockers along', async () => {
+  const { plugin, contents, frontmatter, store, retargeted } = createVault([
+    { path: 'Original.md', ctime: 1, frontmatter: { tpsId: 'note-1' }, content: '- [ ] Draft [tpsId:: task-1]\n- [ ] Send [blockedBy:: task-1]' },
+    { path: 'Copy.md', ctime: 2, frontmatter: { tpsId: 'note-1' }, content: '- [ ] Draft [tpsId:: task-1]\n- [ ] Send [blockedBy:: task-1]' },
+  ]);
+  store.events.set('e1', historyEvent('e1', 'task-1', 'Original.md', 0, 10));
+  store.events.set('e2', historyEvent('e2', 'task-1', 'Copy.md', 0, 20));
+
+  const service = new identity.IdentityConflictService(plugin);
+  const handled = await service.checkNow();
+
+  assert.deepEqual(handled.map((conflict) => [conflict.id, conflict.copy.path, conflict.copy.line, conflict.nextId]), [
+    ['task-1', 'Copy.md', 0, 'minted-1'],
+    ['note-1', 'Copy.md', undefined, 'minted-2'],
+  ]);
+  assert.equal(contents.get('Copy.md'), '- [ ] Draft [tpsId:: minted-1]\n- [ ] Send [blockedBy:: minted-1]');
+  assert.equal(contents.get('Original.md'), '- [ ] Draft [tpsId:: task-1]\n- [ ] Send [blockedBy:: task-1]');
+  assert.equal(frontmatter.get('Copy.md').tpsId, 'minted-2');
+  assert.equal(frontmatter.get('Original.md').tpsId, 'note-1');
+  assert.equal(store.events.get('e1').entityId, 'task-1');
+  assert.equal(store.events.get('e2').entityId, 'minted-1');
+  assert.equal(store.entities.get('minted-1').currentLocator.path, 'Copy.md');
+  assert.deepEqual(retargeted, [['task-1', 'Copy.md', 'minted-1'], ['note-1', 'Copy.md', 'minted-2']]);
+  assert.equal(handled[0].updatedReferences, 1);
+  assert.match(identity.notices.at(-1), /Gave 2 copied items a new tpsId: Copy\.md line 1, Copy\.md\./);
+  assert.deepEqual(service.getConflicts().map((conflict) => conflict.nextId), ['minted-1', 'minted-2']);
+  assert.deepEqual(await service.checkNow(), []);
+});
+
+test('a line copied within its own note keeps the recorded history with the original', async () => {
+  const { plugin, contents, store, retargeted } = createVault([
+    { path: 'Tasks.md', content: '- [ ] Call [tpsId:: task-1]\n- [ ] Call [tpsId:: task-1]' },
+  ]);
+  store.events.set('e1', historyEvent('e1', 'task-1', 'Tasks.md', 1, 10));
+
+  const handled = await new identity.IdentityConflictService(plugin).checkNow();
+
+  assert.deepEqual(handled.map((conflict) => [conflict.copy.line, conflict.original.line]), [[0, 1]]);
+  assert.equal(contents.get('Tasks.md'), '- [ ] Call [tpsId:: minted-1]\n- [ ] Call [tpsId:: task-1]');
+  assert.equal(store.events.get('e1').entityId, 'task-1');
+  assert.deepEqual(retargeted, []);
+});
+
+test('after the first scan only ids from changed files are checked again', async () => {
+  const { plugin, contents, index, addFile } = createVault([
+    { path: 'Tasks.md', ctime: 1, content: '- [ ] Call [tpsId:: task-1]' },
+    { path: 'Notes.md', ctime: 1, frontmatter: { tpsId: 'note-1' } },
+  ]);
+  const service = new identity.IdentityConflictService(plugin);
+  service.setup();
+  assert.deepEqual(await service.checkNow(), []);
+  assert.deepEqual(await service.checkNow(), []);
+
+  addFile({ path: 'Pasted.md', ctime: 5, content: '- [ ] Call [tpsId:: task-1]' });
+  const handled = await service.checkNow();
+
+  assert.equal(index.fullScans, 1);
+  assert.deepEqual(handled.map((conflict) => [conflict.id, conflict.original.path, conflict.copy.path, conflict.nextId]), [
+    ['task-1', 'Tasks.md', 'Pasted.md', 'minted-1'],
+  ]);
+  assert.equal(contents.get('Pasted.md'), '- [ ] Call [tpsId:: minted-1]');
+  assert.deepEqual(await service.checkNow(), []);
+});
@@ -0,0 +1,261 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const contextMenuSource = readFileSync(
+  new URL('../src/services/task-line-context-menu-service.ts', import.meta.url),
+  'utf8',
+);
+const pluginApiSource = readFileSync(new URL('../src/plugin-api.ts', import.meta.url), 'utf8');
+
+async function loadEntry(relativePath) {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL(relativePath, import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'item-history-revert-obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/ }, () => ({ path: 'obsidian', namespace: 'revert-obsidian' }));
+        builder.onLoad({ filter: /.*/, namespace: 'revert-obsidian' }, () => ({
+          loader: 'js',
+          contents: 'export class Notice {} export class TFile {} export class Modal {}',
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const [core, historyModule, storeModule, revertModule] = await Promise.all([
+  loadEntry('../src/services/item-history-core.ts'),
+  loadEntry('../src/services/item-history-service.ts'),
+  loadEntry('../src/services/item-history-store.ts'),
+  loadEntry('../src/services/item-history-revert-service.ts'),
+]);
+
+const cause = {
+  kind: 'user',
+  sourcePluginId: 'tps-global-context-menu',
+  surface: 'task-line-context-menu',
+};
+
+function event(overrides) {
+  return {
+    schemaVersion: 1,
+    eventId: 'op_1',
+    operationId: 'op_1',
+    entityId: 'item_task',
+    entityKind: 'task',
+    action: 'task.update',
+    occurredAt: 1000,
+    committedAt: 1001,
+    cause,
+    changes: [],
+    locatorBefore: { path: 'Daily/2026-08-14.md', lineNumber: 0 },
+    locatorAfter: { path: 'Daily/2026-08-14.md', lineNumber: 0 },
+    outcome: 'committed',
+    ...overrides,
+  };
+}
+
+function createFixture(initialLines) {
+  const files = new Map(Object.entries(initialLines).map(([path, lines]) => [path, [...lines]]));
+  const localStorage = new Map();
+  const updates = [];
+  const moves = [];
+  const plugin = {
+    manifest: { id: 'tps-global-context-menu' },
+    settings: { enableItemHistory: true, properties: [] },
+    app: {
+      appId: 'revert-test',
+      loadLocalStorage: (key) => localStorage.get(key) ?? null,
+      saveLocalStorage: (key, value) => {
+        if (value == null) localStorage.delete(key);
+        else localStorage.set(key, value);
+      },
+      vault: {
+        adapter: { getBasePath: () => '/vault' },
+        getName: () => 'Vault',
+        getFileByPath: (path) => files.has(path) ? { path } : null,
+        cachedRead: async (file) => files.get(file.path).join('\n'),
+        read: async (file) => files.get(file.path).join('\n'),
+      },
+    },
+    taskApiService: {
+      update: async (ref, input, updateCause) => {
+        updates.push({ ref, input, cause: updateCause });
+        return { ok: true, changed: true, task: { ...ref, line: ref.lineNumber + 1 } };
+      },
+      move: async (ref, target, moveCause) => {
+        moves.push({ ref, target, cause: moveCause });
+        return { ok: true, changed: true, task: null };
+      },
+      get: async () => null,
+    },
+  };
+  const store = new storeModule.MemoryItemHistoryStore();
+  plugin.itemHistoryService = new historyModule.ItemHistoryService(plugin, store);
+  const service = new revertModule.ItemHistoryRevertService(plugin);
+  return { plugin, store, service, updates, moves, files };
+}
+
+test('revert planning walks events newest-first and restores prior field, checkbox, and tag values', () => {
+  const plan = core.planTaskHistoryRevert([
+    event({
+      eventId: 'op_old',
+      occurredAt: 1000,
+      changes: [{ field: 'status', before: { state: 'absent' }, after: { state: 'value', value: 'working' } }],
+    }),
+    event({
+      eventId: 'op_new',
+      occurredAt: 2000,
+      changes: [
+        { field: 'checkbox', before: { state: 'value', value: '[ ]' }, after: { state: 'value', value: '[x]' } },
+        { field: 'tags', before: { state: 'value', value: ['a'] }, after: { state: 'value', value: ['a', 'b'] } },
+      ],
+    }),
+  ], { checkbox: '[x]', fields: { status: 'working' }, tags: ['a', 'b', 'c'] });
+
+  assert.deepEqual(plan.conflicts, []);
+  assert.deepEqual(plan.revertedEventIds, ['op_new', 'op_old']);
+  assert.deepEqual(plan.target, { checkbox: '[ ]', fields: {}, tags: ['a', 'c'] });
+});
+
+test('revert planning refuses diverged, redacted, opaque, and lifecycle changes', () => {
+  const plan = core.planTaskHistoryRevert([
+    event({
+      eventId: 'op_diverged',
+      changes: [{ field: 'priority', before: { state: 'value', value: 'low' }, after: { state: 'value', value: 'high' } }],
+    }),
+    event({
+      eventId: 'op_redacted',
+      occurredAt: 900,
+      changes: [{ field: 'status', before: { state: 'value', value: '[redacted-link]' }, after: { state: 'absent' } }],
+    }),
+    event({
+      eventId: 'op_content',
+      occurredAt: 800,
+      changes: [{ field: 'content', before: { state: 'value', value: '[changed]' }, after: { state: 'value', value: '[changed]' } }],
+    }),
+    event({ eventId: 'op_delete', occurredAt: 700, action: 'task.delete' }),
+  ], { checkbox: '[ ]', fields: { priority: 'medium' }, tags: [] });
+
+  assert.deepEqual(plan.conflicts.map((conflict) => [conflict.eventId, conflict.reason]), [
+    ['op_diverged', 'diverged'],
+    ['op_redacted', 'redacted'],
+    ['op_content', 'unrestorable'],
+    ['op_delete', 'unsupported-action'],
+  ]);
+  assert.deepEqual(plan.target.fields, { priority: 'medium' });
+});
+
+test('revert planning restores the original location of moved tasks', () => {
+  const plan = core.planTaskHistoryRevert([
+    event({
+      action: 'task.move',
+      locatorBefore: { path: 'Inbox.md', lineNumber: 4 },
+      locatorAfter: { path: 'Projects/Launch.md', lineNumber: 9 },
+    }),
+  ], { checkbox: '[ ]', fields: {}, tags: [] });
+  assert.deepEqual(plan.location, { path: 'Inbox.md', lineNumber: 4 });
+});
+
+test('field keys resolve to the alias already written on the task line', () => {
+  const aliases = new Map([['state', 'status']]);
+  assert.equal(core.resolveTaskHistoryFieldKey('- [ ] Task [state:: todo]', 'status', aliases), 'state');
+  assert.equal(core.resolveTaskHistoryFieldKey('- [ ] Task', 'status', aliases), 'state');
+  assert.equal(core.resolveTaskHistoryFieldKey('- [ ] Task', 'priority', aliases), 'priority');
+});
+
+test('revert writes the prior values back through the task API as a journaled user action', async () => {
+  const path = 'Daily/2026-08-14.md';
+  const fixture = createFixture({ [path]: ['- [ ] Ship [status:: working] [tpsId:: item_ship]'] });
+  const history = fixture.plugin.itemHistoryService;
+  const handle = await history.beginTaskMutation({
+    action: 'task.update',
+    cause,
+    before: { path, lineNumber: 0, rawLine: '- [ ] Ship [tpsId:: item_ship]' },
+  });
+  await history.commitTaskMutation(handle, {
+    after: { path, lineNumber: 0, rawLine: '- [ ] Ship [status:: working] [tpsId:: item_ship]' },
+    sourceDisposition: 'retained',
+  });
+
+  const result = await fixture.service.revert(handle.operationId);
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.revertedEventIds, [handle.operationId]);
+  assert.equal(fixture.updates.length, 1);
+  assert.deepEqual(fixture.updates[0].input, { fields: { status: null } });
+  assert.equal(fixture.updates[0].ref.rawLine, '- [ ] Ship [status:: working] [tpsId:: item_ship]');
+  assert.equal(fixture.updates[0].cause.surface, 'item-history');
+});
+
+test('revert refuses a diverged task unless a partial revert is requested', async () => {
+  const path = 'Daily/2026-08-14.md';
+  const fixture = createFixture({ [path]: ['- [ ] Ship [priority:: low] [status:: working] [tpsId:: item_ship]'] });
+  const history = fixture.plugin.itemHistoryService;
+  const handle = await history.beginTaskMutation({
+    action: 'task.update',
+    cause,
+    before: { path, lineNumber: 0, rawLine: '- [ ] Ship [priority:: medium] [tpsId:: item_ship]' },
+  });
+  await history.commitTaskMutation(handle, {
+    after: { path, lineNumber: 0, rawLine: '- [ ] Ship [priority:: high] [status:: working] [tpsId:: item_ship]' },
+    sourceDisposition: 'retained',
+  });
+
+  const refused = await fixture.service.revert(handle.operationId);
+  assert.equal(refused.ok, false);
+  assert.match(refused.error, /priority/u);
+  assert.equal(fixture.updates.length, 0);
+
+  const partial = await fixture.service.revert(handle.operationId, { allowPartial: true });
+  assert.equal(partial.ok, true);
+  assert.deepEqual(fixture.updates[0].input, { fields: { status: null } });
+});
+
+test('reverting one task of a batch reverts every task sharing the interaction', async () => {
+  const path = 'Daily/2026-08-14.md';
+  const fixture = createFixture({
+    [path]: [
+      '- [ ] One [status:: holding] [tpsId:: item_one]',
+      '- [ ] Two [status:: holding] [tpsId:: item_two]',
+    ],
+  });
+  const history = fixture.plugin.itemHistoryService;
+  const batchCause = { ...cause, interactionId: 'batch_shared' };
+  const handles = [];
+  for (const [index, id] of ['item_one', 'item_two'].entries()) {
+    const handle = await history.beginTaskMutation({
+      action: 'task.update',
+      cause: batchCause,
+      before: { path, lineNumber: index, rawLine: `- [ ] ${index ? 'Two' : 'One'} [status:: todo] [tpsId:: ${id}]` },
+    });
+    await history.commitTaskMutation(handle, {
+      after: { path, lineNumber: index, rawLine: fixture.files.get(path)[index] },
+      sourceDisposition: 'retained',
+    });
+    handles.push(handle);
+  }
+
+  const result = await fixture.service.revertOperation(handles[0].operationId);
+  assert.equal(result.ok, true);
+  assert.equal(result.reverted, 2);
+  assert.deepEqual(
+    fixture.updates.map((update) => update.input).sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))),
+    [{ fields: { status: 'todo' } }, { fields: { status: 'todo' } }],
+  );
+});
+
+test('task menus expose history and batch writes share one interaction id', () => {
+  assert.match(contextMenuSource, /setTitle\('History\.\.\.'\)/u);
+  assert.match(contextMenuSource, /historyInteractionId: createItemHistoryInteractionId\(\)/u);
+  assert.match(pluginApiSource, /revertOperation: \(operationId: string/u);
+});
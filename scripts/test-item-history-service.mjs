@@ -1463,3 +1463,113 @@ test('a pinned history namespace survives a vault folder move and rename', async
 
   assert.equal(after, before);
 });
+
+test('note frontmatter history records safe field changes under a minted tpsId', async () => {
+  const [{ ItemHistoryService }, { MemoryItemHistoryStore }] = await Promise.all([loadModule(), loadStoreModule()]);
+  const fixture = createPlugin();
+  fixture.plugin.settings.parentLinkFrontmatterKey = 'parent';
+  const store = new MemoryItemHistoryStore();
+  const service = new ItemHistoryService(fixture.plugin, store);
+  await service.setup();
+
+  const before = { status: 'todo', tags: ['project'], title: 'Secret launch plan' };
+  const after = {
+    status: 'working',
+    tags: ['project', 'q3'],
+    parent: ['[[Projects/Launch.md|Launch]]'],
+    title: 'Secret launch plan',
+  };
+  const handle = await service.beginNoteMutation({
+    action: 'note.update',
+    cause: { ...cause, surface: 'bulk-edit' },
+    path: 'Projects/Plan.md',
+    before,
+    after,
+    allowNewIdentity: true,
+  });
+  assert.ok(handle);
+  assert.equal(handle.identityWasPresent, false);
+  service.ensureNoteIdentity(handle, after);
+  assert.equal(after.tpsId, handle.entityId);
+  await service.commitNoteMutation(handle, { path: 'Projects/Plan.md', frontmatter: after });
+
+  const [event] = await service.query(handle.entityId);
+  assert.equal(event.entityKind, 'note');
+  assert.equal(event.action, 'note.update');
+  assert.equal(event.cause.surface, 'bulk-edit');
+  assert.deepEqual(event.changes, [
+    { field: 'parent', before: { state: 'absent' }, after: { state: 'value', value: ['Projects/Launch'] } },
+    { field: 'status', before: { state: 'value', value: 'todo' }, after: { state: 'value', value: 'working' } },
+    { field: 'tags', before: { state: 'value', value: ['project'] }, after: { state: 'value', value: ['project', 'q3'] } },
+  ]);
+  assert.doesNotMatch(JSON.stringify(event), /Secret launch plan/u, 'untracked frontmatter must not be journaled');
+});
+
+test('note history skips automation, unchanged tracked fields, and identity rewrites', async () => {
+  const [{ ItemHistoryService }, { MemoryItemHistoryStore }] = await Promise.all([loadModule(), loadStoreModule()]);
+  const fixture = createPlugin();
+  const store = new MemoryItemHistoryStore();
+  const service = new ItemHistoryService(fixture.plugin, store);
+  await service.setup();
+
+  assert.equal(await service.beginNoteMutation({
+    action: 'note.update',
+    cause: null,
+    path: 'Note.md',
+    before: { status: 'todo' },
+    after: { status: 'complete' },
+    allowNewIdentity: true,
+  }), null);
+  assert.equal(await service.beginNoteMutation({
+    action: 'note.update',
+    cause,
+    path: 'Note.md',
+    before: { status: 'todo', tpsId: 'item_note' },
+    after: { status: 'todo', tpsId: 'item_note', summary: 'edited' },
+  }), null);
+  assert.equal(await service.beginNoteMutation({
+    action: 'note.update',
+    cause,
+    path: 'Note.md',
+    before: { status: 'todo', tpsId: 'item_note' },
+    after: { status: 'complete', tpsId: 'item_other' },
+  }), null);
+  assert.equal(store.pending.size, 0);
+});
+
+test('archive moves record the note location change without field changes', async () => {
+  const [{ ItemHistoryService }, { MemoryItemHistoryStore }] = await Promise.all([loadModule(), loadStoreModule()]);
+  const fixture = createPlugin();
+  const store = new MemoryItemHistoryStore();
+  const service = new ItemHistoryService(fixture.plugin, store);
+  await service.setup();
+
+  const frontmatter = { status: 'complete', tags: ['archived'], tpsId: 'item_note' };
+  const handle = await service.beginNoteMutation({
+    action: 'note.archive',
+    cause: { ...cause, surface: 'native-context-menu' },
+    path: 'Projects/Plan.md',
+    before: frontmatter,
+    targetPath: 'Archive/Projects/Plan.md',
+  });
+  await service.commitNoteMutation(handle, { path: 'Archive/Projects/Plan.md', frontmatter });
+
+  const [event] = await service.query('item_note');
+  assert.equal(event.action, 'note.archive');
+  assert.deepEqual(event.changes, []);
+  assert.deepEqual(event.locatorBefore, { path: 'Projects/Plan.md', lineNumber: 0 });
+  assert.deepEqual(event.locatorAfter, { path: 'Archive/Projects/Plan.md', lineNumber: 0 });
+});
+
+test('frontmatter and file-property writes route user changes through note history', async () => {
+  const [frontmatterSource, filePropertiesSource, archiveSource] = await Promise.all([
+    readFile(fileURLToPath(new URL('../src/services/frontmatter-mutation-service.ts', import.meta.url)), 'utf8'),
+    readFile(fileURLToPath(new URL('../src/services/file-properties-service.ts', import.meta.url)), 'utf8'),
+    readFile(fileURLToPath(new URL('../src/services/archive-file-service.ts', import.meta.url)), 'utf8'),
+  ]);
+  assert.match(frontmatterSource, /itemHistoryService\?\.beginNoteMutation\(/u);
+  assert.match(frontmatterSource, /await this\.writeContent\(file, nextContent\);\s+await this\.plugin\.itemHistoryService\?\.commitNoteMutation\(/u);
+  assert.match(filePropertiesSource, /entityId: this\.readReservedString\(ensured\.raw, FILE_PROPERTY_KEYS\.id\)/u);
+  assert.match(archiveSource, /beginMoveHistory\(liveFile, targetPath, 'note\.archive'/u);
+  assert.match(archiveSource, /beginMoveHistory\(liveFile, targetPath, 'note\.unarchive'/u);
+});
@@ -50,3 +50,59 @@ test('TPS Table totals reject mixed data and metadata-like numeric columns', asy
   ]);
   assert.deepEqual(Object.fromEntries(result.values), { qty: '3' });
 });
+
+test('TPS Table column aggregates override the automatic sum per column', async () => {
+  const { calculateTpsTableTotals } = await loadModule();
+  const result = calculateTpsTableTotals([
+    { key: 'exercise', values: ['Squat', 'Squat', 'Bench', ''] },
+    { key: 'cal', values: ['131', '90', '', '40'], aggregate: 'average' },
+    { key: 'weight', values: ['100', '62.5', '80', ''], aggregate: 'max' },
+    { key: 'reps', values: ['5', '8', 'n/a', '3'], aggregate: 'min' },
+    { key: 'sets', values: ['3', '3', '4', ''], aggregate: 'count' },
+    { key: 'foodId', values: ['a', 'A', 'b', ''], aggregate: 'count-distinct' },
+    { key: 'done', values: ['true', 'false', 'x', ''], aggregate: 'percent-checked' },
+    { key: 'completedDate', values: ['2026-07-13', '2026-07-02 09:30', 'soon', '2026-07-20'], aggregate: 'earliest' },
+    { key: 'loggedAt', values: ['2026-07-13', '2026-07-20T08:00', ''], aggregate: 'latest' },
+    { key: 'duration', values: ['1h 30m', '45', '0:15', 'later'], aggregate: 'duration-sum' },
+    { key: 'qty', values: ['1', '2'], aggregate: 'none' },
+  ]);
+  assert.equal(result.labelKey, 'exercise');
+  assert.deepEqual(Object.fromEntries(result.values), {
+    cal: '87',
+    weight: '100',
+    reps: '3',
+    sets: '3',
+    foodId: '2',
+    done: '50%',
+    completedDate: '2026-07-02 09:30',
+    loggedAt: '2026-07-20T08:00',
+    duration: '2h 30m',
+  });
+});
+
+test('TPS Table average per group averages group sums for grouped totals', async () => {
+  const { calculateTpsTableTotals } = await loadModule();
+  const days = [['500', '700'], ['400'], ['']];
+  const total = calculateTpsTableTotals([
+    { key: 'cal', values: days.flat(), aggregate: 'average-per-group', groupValues: days },
+  ]);
+  assert.equal(total.values.get('cal'), '800');
+  const subtotal = calculateTpsTableTotals([{ key: 'cal', values: days[0], aggregate: 'average-per-group' }]);
+  assert.equal(subtotal.values.get('cal'), '1200');
+});
+
+test('TPS Table column aggregate config parses lists, strings, aliases, and prefixes', async () => {
+  const {
+    getTpsTableColumnAggregate,
+    parseTpsTableColumnAggregates,
+    serializeTpsTableColumnAggregates,
+  } = await loadModule();
+  const fromList = parseTpsTableColumnAggregates(['note.cal: avg', 'Sets: count', 'bogus: median', 'nocolon']);
+  assert.equal(getTpsTableColumnAggregate(fromList, 'cal'), 'average');
+  assert.equal(getTpsTableColumnAggregate(fromList, 'log.sets'), 'count');
+  assert.equal(getTpsTableColumnAggregate(fromList, 'bogus'), 'auto');
+  const fromString = parseTpsTableColumnAggregates('duration: duration sum, date: latest');
+  assert.deepEqual(Object.fromEntries(fromString), { duration: 'duration-sum', date: 'latest' });
+  fromString.set('qty', 'auto');
+  assert.deepEqual(serializeTpsTableColumnAggregates(fromString), ['duration: duration-sum', 'date: latest']);
+});
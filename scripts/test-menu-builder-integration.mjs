@@ -10,6 +10,7 @@ async function loadMenuBuilderModule() {
     ["../modals/text-input-modal", "export class TextInputModal { open() {} }"],
     ["../modals/FileSuggestModal", "export class FileSuggestModal { constructor(_app, choose, options) { globalThis.__tpsLatestFileSuggestChoose = choose; globalThis.__tpsLatestFileSuggestOptions = options; } open() {} }"],
     ["../modals/MultiFileSelectModal", "export class MultiFileSelectModal { constructor(_app, _choose, options) { globalThis.__tpsLatestMultiFileOptions = options; } open() {} }"],
+    ["../modals/item-history-modal", "export class ItemHistoryModal { open() {} }"],
     ["../modals/file-properties-relink-modal", "export const promptFilePropertiesRelink = () => {};"],
     ["../logger", "export const warn = () => {};"],
     ["../resolve-profiles", "export const resolveCustomProperties = (properties) => properties.filter((property) => !property.hidden);"],
@@ -183,6 +184,7 @@ function createBuilderHarness(MenuBuilder, TFile) {
     openScheduledModal: () => {},
     openRecurrenceModalNative: () => {},
     openSnoozeModal: () => {},
+    openRescheduleOccurrenceModal: () => {},
     getRecurrenceValue: () => "",
     moveFiles: async () => {},
     getTypeFolderOptions: () => [],
@@ -78,6 +78,9 @@ const { NotebookNavigatorRuleService } = await importBundled('../src/services/no
 const { sanitizeNotebookNavigatorRuleSettings } = await importBundled(
   '../src/services/notebook-navigator-rule-settings.ts',
 );
+const { SharedStatusService } = await importBundled('../src/services/shared/status-service.ts');
+const ruleSchedule = await importBundled('../src/services/rule-schedule-core.ts');
+const ruleDryRun = await importBundled('../src/services/rule-dry-run-core.ts');
 
 const app = {
   plugins: { plugins: {} },
@@ -390,3 +393,234 @@ test('adding or duplicating a bucket does not sweep the vault before configurati
   assert.doesNotMatch(addBlock, /applyRulesToAllFiles/u);
   assert.doesNotMatch(duplicateBlock, /applyRulesToAllFiles/u);
 });
+
+test('action rules accumulate actions from every enabled matching rule in order', () => {
+  const todo = { source: 'frontmatter', field: 'status', operator: 'is', value: 'todo' };
+  const actionRule = (id, conditions, actions, enabled = true) => ({ id, name: id, enabled, match: 'all', conditions, actions });
+  const rules = [
+    actionRule('overdue', [todo], [{ type: 'add-tag', tag: 'overdue' }]),
+    actionRule('disabled', [todo], [{ type: 'clear-property', key: 'snoozed' }], false),
+    actionRule('no-conditions', [], [{ type: 'set-status', status: 'complete' }]),
+    actionRule('done', [{ ...todo, value: 'complete' }], [{ type: 'remove-tag', tag: 'overdue' }]),
+    actionRule('priority', [markdownCatchAll], [{ type: 'set-property', key: 'priority', value: 'high' }]),
+  ];
+
+  assert.deepEqual(engine.resolveActions(rules, context({ status: 'todo' })), {
+    actions: [{ type: 'add-tag', tag: 'overdue' }, { type: 'set-property', key: 'priority', value: 'high' }],
+    ruleIds: ['overdue', 'priority'],
+  });
+  assert.deepEqual(engine.resolveActions(rules, context({ status: 'complete' })).ruleIds, ['done', 'priority']);
+});
+
+test('action rule settings keep known actions and drop protected or unknown ones', () => {
+  const sanitized = sanitizeNotebookNavigatorRuleSettings({
+    actionRules: [{
+      id: 'a',
+      conditions: [markdownCatchAll],
+      actions: [
+        { type: 'add-tag', tag: '#overdue' },
+        { type: 'set-property', key: 'tpsCalendarUid', value: 'x' },
+        { type: 'move-to-folder', folder: '/Archive/' },
+        { type: 'move-to-folder', folder: '/' },
+        { type: 'run-shell', command: 'rm' },
+        { type: 'set-property', key: 'due date', value: '' },
+      ],
+    }],
+  });
+
+  assert.deepEqual(sanitizeNotebookNavigatorRuleSettings({}).actionRules, []);
+  assert.deepEqual(sanitized.actionRules[0].actions, [
+    { type: 'add-tag', tag: 'overdue' },
+    { type: 'move-to-folder', folder: 'Archive' },
+    { type: 'move-to-folder', folder: '/' },
+    { type: 'set-property', key: 'duedate', value: '' },
+  ]);
+  assert.equal(sanitized.actionRules[0].enabled, true);
+});
+
+test('frontmatter actions write in order and leave moves and parent links for afterwards', () => {
+  const service = new NotebookNavigatorRuleService({
+    app,
+    sharedServices: { status: new SharedStatusService({ settings: { properties: [] } }) },
+  });
+  const frontmatter = { Status: 'todo', tags: ['work', 'overdue'], snoozed: '2026-10-20', tpsCalendarUid: 'keep' };
+  const fileActions = service.applyFrontmatterActions([
+    { type: 'add-tag', tag: 'Flagged' },
+    { type: 'remove-tag', tag: '#overdue' },
+    { type: 'add-tag', tag: '' },
+    { type: 'set-property', key: 'priority', value: 'high' },
+    { type: 'clear-property', key: 'snoozed' },
+    { type: 'clear-property', key: 'tpsCalendarUid' },
+    { type: 'set-status', status: ' Working ' },
+    { type: 'move-to-folder', folder: 'Archive' },
+    { type: 'link-parent', parent: '[[Inbox]]' },
+  ], frontmatter);
+
+  assert.deepEqual(frontmatter, { status: 'working', tags: ['work', 'flagged'], tpsCalendarUid: 'keep', priority: 'high' });
+  assert.deepEqual(fileActions.map((action) => action.type), ['move-to-folder', 'link-parent']);
+
+  const alreadyApplied = structuredClone(frontmatter);
+  service.applyFrontmatterActions([{ type: 'add-tag', tag: 'flagged' }, { type: 'remove-tag', tag: 'overdue' }], alreadyApplied);
+  assert.deepEqual(alreadyApplied, frontmatter, 'applying the same actions again changes nothing');
+});
+
+test('a set-status action stamps and clears completedDate like a status set by hand', (t) => {
+  const previousWindow = globalThis.window;
+  globalThis.window = { ...previousWindow, moment: () => ({ format: () => '2026-10-19T08:00:00' }) };
+  t.after(() => { globalThis.window = previousWindow; });
+  const service = new NotebookNavigatorRuleService({
+    app,
+    sharedServices: { status: new SharedStatusService({ settings: { properties: [] } }) },
+  });
+
+  const frontmatter = { status: 'todo' };
+  service.applyFrontmatterActions([{ type: 'set-status', status: 'Done' }], frontmatter);
+  assert.deepEqual(frontmatter, { status: 'complete', completedDate: '2026-10-19T08:00:00' });
+
+  const completedEarlier = { status: 'complete', completedDate: '2026-10-01T09:30:00' };
+  service.applyFrontmatterActions([{ type: 'set-status', status: 'complete' }], completedEarlier);
+  assert.deepEqual(completedEarlier, { status: 'complete', completedDate: '2026-10-01T09:30:00' }, 'a rule re-applying done keeps the date');
+
+  service.applyFrontmatterActions([{ type: 'set-status', status: 'todo' }], completedEarlier);
+  assert.deepEqual(completedEarlier, { status: 'todo' });
+});
+
+test('action rules run after sort and hide writes and on note open only where background automation runs', () => {
+  const applyBlock = sourceBlock(serviceSource, 'async applyRulesToFile(', 'markUserEdited(');
+
+  assert.match(applyBlock, /applyHideTagMutations[\s\S]*resolveActions\(settings\.actionRules/u);
+  assert.match(applyBlock, /applyFileActions\(file, fileActions\)/u);
+  assert.match(serviceSource, /options\.reason !== 'file-open' \|\| this\.plugin\.canRunBackgroundAutomation\(\)/u);
+});
+
+test('scheduled sweeps only revisit notes a date condition could flip', () => {
+  const overdue = { source: 'frontmatter', field: 'Due', operator: 'is-before-today', value: '' };
+  const settings = sanitizeNotebookNavigatorRuleSettings({
+    rules: [rule('overdue', 'lucide-alarm-clock', 'red', [overdue]), rule('plain', 'star', '', [dailyCondition])],
+    hideRules: [{ id: 'old', enabled: false, conditions: [{ source: 'date-modified', field: '', operator: 'is-before-today', value: '' }] }],
+  });
+
+  assert.deepEqual(ruleSchedule.collectDateRuleScope(settings), { fields: ['due'], allFiles: false });
+  assert.equal(ruleSchedule.fileNeedsDateSweep({ fields: ['due'], allFiles: false }, { due: '2026-10-18' }), true);
+  assert.equal(ruleSchedule.fileNeedsDateSweep({ fields: ['due'], allFiles: false }, { kind: 'dailynote' }), false);
+  assert.equal(ruleSchedule.collectDateRuleScope({ ...settings, rules: [settings.rules[1]] }), null);
+
+  settings.hideRules[0].enabled = true;
+  assert.equal(ruleSchedule.collectDateRuleScope(settings).allFiles, true);
+});
+
+test('sweep times parse loosely and the next slot includes the day rollover', () => {
+  assert.deepEqual(ruleSchedule.parseRuleSweepTimes('13:00, 8:30 25:00 nope;08:30'), ['08:30', '13:00']);
+  assert.equal(sanitizeNotebookNavigatorRuleSettings({ scheduledSweepTimes: '17:45,9:05' }).scheduledSweepTimes, '09:05, 17:45');
+
+  const slot = (hour, minute) => {
+    const next = ruleSchedule.getNextRuleSweepSlot(new Date(2026, 9, 19, hour, minute), ['08:30', '13:00']);
+    return [next.at.getDate(), next.time, next.configured];
+  };
+  assert.deepEqual(slot(7, 0), [19, '08:30', true]);
+  assert.deepEqual(slot(8, 30), [19, '13:00', true]);
+  assert.deepEqual(slot(13, 0), [20, '00:00', false]);
+  assert.deepEqual(ruleSchedule.getNextRuleSweepSlot(new Date(2026, 9, 19, 0, 0), []).time, '00:00');
+});
+
+test('the date sweep applies rules only to notes carrying the compared keys', async () => {
+  const files = ['Due.md', 'Plain.md', 'Done.md'].map((path) => ({ path, extension: 'md', basename: path.slice(0, -3) }));
+  const frontmatter = { 'Due.md': { due: '2026-10-18' }, 'Plain.md': { kind: 'note' }, 'Done.md': { Due: '2026-10-01' } };
+  const service = new NotebookNavigatorRuleService({
+    app: {
+      ...app,
+      vault: { getFiles: () => files },
+      metadataCache: { getFileCache: (file) => ({ frontmatter: frontmatter[file.path] }) },
+    },
+    settings: {
+      notebookNavigatorRules: sanitizeNotebookNavigatorRuleSettings({
+        enabled: true,
+        scheduledSweepEnabled: true,
+        rules: [rule('overdue', 'alarm', '', [{ source: 'frontmatter', field: 'due', operator: 'is-before-today', value: '' }])],
+      }),
+    },
+  });
+  const applied = [];
+  service.applyRulesToFile = async (file, options) => {
+    applied.push([file.path, options.reason, options.force === true]);
+    return file.path === 'Due.md';
+  };
+
+  assert.deepEqual(await service.applyDateSensitiveRules('rollover'), { scanned: 2, changed: 1 });
+  // Not forced: the sweep is automatic, so notes the user is editing are skipped.
+  assert.deepEqual(applied, [['Due.md', 'scheduled-sweep', false], ['Done.md', 'scheduled-sweep', false]]);
+  assert.equal(service.isAutomaticReason('scheduled-sweep'), true);
+});
+
+test('the dry run reports would-be writes and exclusions without touching any note', async () => {
+  const files = ['Tasks/Late.md', 'Tasks/Fine.md', 'Archive/Old.md', 'Templates/Task.md'].map((path) => ({
+    path,
+    name: path.split('/').pop(),
+    basename: path.split('/').pop().slice(0, -3),
+    extension: 'md',
+    parent: { path: path.split('/')[0] },
+    stat: { ctime: 0, mtime: 0 },
+  }));
+  const frontmatter = {
+    'Tasks/Late.md': { status: 'late', icon: 'star', tags: ['work'] },
+    'Tasks/Fine.md': { status: 'todo' },
+    'Archive/Old.md': { status: 'late', icon: 'alarm', tags: ['work', 'hide'] },
+    'Templates/Task.md': { status: 'late' },
+  };
+  const created = [];
+  const late = { source: 'frontmatter', field: 'status', operator: 'is', value: 'late' };
+  const plugin = {
+    app: {
+      ...app,
+      vault: {
+        getFiles: () => files,
+        cachedRead: async () => 'body',
+        getAbstractFileByPath: (path) => files.find((file) => file.path === path) ?? (path === 'Rule Reports' ? {} : null),
+        create: async (path, content) => created.push([path, content]),
+      },
+      metadataCache: { getFileCache: (file) => ({ frontmatter: frontmatter[file.path] }) },
+    },
+    parentLinkResolutionService: { getParentsForChild: () => [] },
+    frontmatterMutationService: { process: async () => assert.fail('the dry run must not write') },
+    settings: {
+      notebookNavigatorRules: sanitizeNotebookNavigatorRuleSettings({
+        enabled: true,
+        frontmatterWriteExclusions: 'Templates',
+        rules: [rule('late', 'alarm', '', [late])],
+        hideRules: [{ id: 'hide', enabled: true, match: 'all', conditions: [late], mode: 'add', tagName: 'hide' }],
+        actionRules: [{ id: 'file', enabled: true, match: 'all', conditions: [late], actions: [{ type: 'move-to-folder', folder: 'Archive' }] }],
+      }),
+    },
+  };
+  const service = new NotebookNavigatorRuleService(plugin);
+
+  const report = await service.buildDryRunReport();
+  assert.equal(report.scanned, 4);
+  assert.deepEqual(report.excluded, ['Templates/Task.md']);
+  assert.deepEqual(report.files, [{
+    path: 'Tasks/Late.md',
+    changes: [
+      { key: 'icon', before: 'star', after: 'alarm' },
+      { key: 'tags', before: ['work'], after: ['work', 'hide'] },
+    ],
+    fileActions: [{ type: 'move-to-folder', folder: 'Archive' }],
+  }]);
+  assert.deepEqual(frontmatter['Tasks/Late.md'], { status: 'late', icon: 'star', tags: ['work'] });
+
+  const markdown = ruleDryRun.formatRuleDryRunReport({ ...report, ranAt: new Date(2026, 9, 19, 9, 5) });
+  assert.match(markdown, /^Rule dry run: 2026-10-19 09:05\n\nScanned 4 notes\. 1 would change and 1 is excluded from rule writes\./u);
+  assert.match(markdown, /\| \[\[Tasks\/Late\.md\]\] \| tags \| work \| work, hide \|/u);
+  assert.match(markdown, /\| \[\[Tasks\/Late\.md\]\] \| Move to Archive \| \| \|/u);
+  assert.match(markdown, /## Excluded from rule writes\n\n- \[\[Templates\/Task\.md\]\]/u);
+
+  const path = await service.exportDryRunReport({ ...report, ranAt: new Date(2026, 9, 19, 9, 5) });
+  assert.equal(path, 'Rule Reports/Rule dry run 2026-10-19 0905.md');
+  assert.deepEqual(created, [[path, markdown]]);
+});
+
+test('dry-run values render lists and blanks readably', () => {
+  assert.deepEqual(ruleDryRun.diffRuleOutputs({ a: 1, b: [1], position: 1 }, { a: 1, b: [1, 2], c: 'x' }).map((change) => change.key), ['b', 'c']);
+  assert.equal(ruleDryRun.formatRuleDryRunValue(undefined), '(none)');
+  assert.equal(ruleDryRun.formatRuleDryRunValue([]), '(none)');
+  assert.equal(ruleDryRun.formatRuleDryRunValue(['a', 'b']), 'a, b');
+});
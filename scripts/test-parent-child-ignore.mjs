@@ -355,6 +355,7 @@ test('ignored relationships are hidden and blocked without rewriting persisted l
   ]);
   let mutationCount = 0;
   const plugin = {
+    manifest: { id: 'tps-global-context-menu' },
     settings: {
       parentLinkFrontmatterKey: 'childOf',
       autoSelfLinkParentInParentKey: false,
@@ -442,6 +443,7 @@ test('PDF and Base relationship writes round-trip through logical companion fron
     return files.get(target) ?? files.get(`${target}.md`) ?? null;
   };
   const plugin = {
+    manifest: { id: 'tps-global-context-menu' },
     settings: {
       parentLinkFrontmatterKey: 'childOf',
       autoSelfLinkParentInParentKey: false,
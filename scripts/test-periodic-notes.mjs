@@ -0,0 +1,92 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import moment from 'moment';
+
+globalThis.window = { moment };
+
+async function loadModule() {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL('../src/utils/periodic-notes.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/ }, () => ({ path: 'obsidian-stub', namespace: 'obsidian-stub' }));
+        builder.onLoad({ filter: /.*/, namespace: 'obsidian-stub' }, () => ({
+          contents: `
+            export const normalizePath = (value) => String(value || '').replace(/\\\\/g, '/').replace(/\\/+/g, '/');
+          `,
+          loader: 'js',
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+function enabledSettings(normalize, overrides = {}) {
+  return normalize({
+    weekly: { enabled: true },
+    monthly: { enabled: true },
+    quarterly: { enabled: false },
+    yearly: { enabled: true },
+    ...overrides,
+  });
+}
+
+test('settings normalize to defaults for every periodic note type', async () => {
+  const { normalizePeriodicNoteSettings } = await loadModule();
+  const settings = normalizePeriodicNoteSettings({ monthly: { enabled: true, folder: '/Reviews/', format: '  ', inheritUnscheduledTasks: false } });
+  assert.deepEqual(settings.monthly, {
+    enabled: true,
+    folder: 'Reviews',
+    format: 'YYYY-MM',
+    template: '',
+    inheritUnscheduledTasks: false,
+  });
+  assert.equal(settings.weekly.enabled, false);
+  assert.equal(settings.weekly.format, 'GGGG-[W]WW');
+  assert.equal(settings.yearly.inheritUnscheduledTasks, true);
+});
+
+test('paths use the period start and the configured folder and format', async () => {
+  const { normalizePeriodicNoteSettings, getPeriodicNotePath, getPeriodStart } = await loadModule();
+  const settings = enabledSettings(normalizePeriodicNoteSettings);
+  assert.equal(getPeriodStart('weekly', '2026-01-01'), '2025-12-29');
+  assert.equal(getPeriodicNotePath(settings, 'weekly', '2026-01-01'), 'System/Weeklynotes/2026-W01.md');
+  assert.equal(getPeriodicNotePath(settings, 'monthly', '2026-03-18'), 'System/Monthlynotes/2026-03.md');
+  assert.equal(getPeriodicNotePath(settings, 'quarterly', '2026-08-02'), 'System/Quarterlynotes/2026-Q3.md');
+  assert.equal(getPeriodicNotePath(settings, 'yearly', '2026-08-02'), 'System/Yearlynotes/2026.md');
+});
+
+test('only enabled types in their own folder are recognized as periodic notes', async () => {
+  const { normalizePeriodicNoteSettings, parsePeriodicNotePath } = await loadModule();
+  const settings = enabledSettings(normalizePeriodicNoteSettings);
+  assert.deepEqual(parsePeriodicNotePath(settings, 'System/Weeklynotes/2026-W01.md'), { kind: 'weekly', start: '2025-12-29' });
+  assert.deepEqual(parsePeriodicNotePath(settings, 'System/Monthlynotes/2026-03.md'), { kind: 'monthly', start: '2026-03-01' });
+  assert.equal(parsePeriodicNotePath(settings, 'System/Quarterlynotes/2026-Q3.md'), null);
+  assert.equal(parsePeriodicNotePath(settings, 'Projects/2026-03.md'), null);
+  assert.equal(parsePeriodicNotePath(settings, 'System/Monthlynotes/2026-03 review.md'), null);
+});
+
+test('navigation steps between periods and climbs to the next enabled larger period', async () => {
+  const { normalizePeriodicNoteSettings, shiftPeriod, getParentPeriodicNoteKind, getPeriodAnchorDate, formatPeriodLabel } = await loadModule();
+  const settings = enabledSettings(normalizePeriodicNoteSettings);
+  assert.equal(shiftPeriod('weekly', '2025-12-31', 1), '2026-01-05');
+  assert.equal(shiftPeriod('monthly', '2026-01-31', 1), '2026-02-01');
+  assert.equal(shiftPeriod('quarterly', '2026-02-10', -1), '2025-10-01');
+  assert.equal(getParentPeriodicNoteKind(settings, 'daily'), 'weekly');
+  assert.equal(getParentPeriodicNoteKind(settings, 'monthly'), 'yearly');
+  assert.equal(getParentPeriodicNoteKind(settings, 'yearly'), null);
+  // ISO week 1 of 2026 starts in December 2025 but belongs to January.
+  assert.equal(getPeriodAnchorDate('weekly', '2025-12-29'), '2026-01-01');
+  assert.equal(formatPeriodLabel('weekly', '2025-12-29'), 'W01 2026');
+  assert.equal(formatPeriodLabel('quarterly', '2026-07-01'), 'Q3 2026');
+});
@@ -0,0 +1,105 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from './src/utils/task-recurrence.ts';
+        export * from './src/utils/recurrence-exceptions.ts';
+      `,
+      resolveDir: fileURLToPath(new URL('..', import.meta.url)),
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const WEEKLY = '- [ ] Review [scheduled:: 2026-01-12 09:00:00] [recurrence:: RRULE:FREQ=WEEKLY]';
+
+test('exception lists read from comma text or arrays and stay sorted and unique', async () => {
+  const { readRecurrenceExceptions } = await loadModule();
+  const fields = { exdate: '2026-10-26, 2026-10-19,2026-10-26', rdate: ['2026-10-21T15:00', 'soon'] };
+  assert.deepEqual(readRecurrenceExceptions((key) => fields[key]), {
+    exdates: ['2026-10-19', '2026-10-26'],
+    rdates: ['2026-10-21 15:00'],
+  });
+});
+
+test('next occurrences step over EXDATEs and pick up RDATEs', async () => {
+  const { calculateNextTaskScheduledValue } = await loadModule();
+  const options = { scheduledValue: '2026-01-12 09:00:00', completedAt: new Date(2026, 0, 12, 10) };
+  assert.equal(calculateNextTaskScheduledValue('RRULE:FREQ=WEEKLY', {
+    ...options,
+    exceptions: { exdates: ['2026-01-19'], rdates: [] },
+  }), '2026-01-26 09:00:00');
+  assert.equal(calculateNextTaskScheduledValue('RRULE:FREQ=WEEKLY', {
+    ...options,
+    exceptions: { exdates: [], rdates: ['2026-01-15 14:00'] },
+  }), '2026-01-15 14:00:00');
+});
+
+test('the Easter rule honors exceptions like any other rule', async () => {
+  const { calculateNextTaskScheduledValue } = await loadModule();
+  assert.equal(calculateNextTaskScheduledValue('GCM-HOLIDAY:EASTER', {
+    scheduledValue: '2026-04-05 09:00:00',
+    completedAt: new Date(2026, 3, 5, 10),
+  }), '2027-03-28 09:00:00');
+  assert.equal(calculateNextTaskScheduledValue('GCM-HOLIDAY:EASTER', {
+    scheduledValue: '2026-04-05 09:00:00',
+    completedAt: new Date(2026, 3, 5, 10),
+    exceptions: { exdates: ['2027-03-28'], rdates: [] },
+  }), '2028-04-16 09:00:00');
+});
+
+test('skipping an occurrence records an EXDATE and moves the task to the next one', async () => {
+  const { skipTaskRecurrenceOccurrence } = await loadModule();
+  const skipped = skipTaskRecurrenceOccurrence(WEEKLY);
+  assert.match(skipped, /\[scheduled:: 2026-01-19 09:00:00\]/);
+  assert.match(skipped, /\[exdate:: 2026-01-12\]/);
+  assert.equal(skipTaskRecurrenceOccurrence('- [ ] Water [scheduled:: 2026-10-19] [recurrence:: GCM-AFTER-COMPLETION:P1D]'), null);
+});
+
+test('rescheduling one occurrence leaves the rest of the series on its original days', async () => {
+  const { rescheduleTaskRecurrenceOccurrence, calculateNextTaskOccurrence, readTaskRecurrenceExceptions } = await loadModule();
+  const moved = rescheduleTaskRecurrenceOccurrence(WEEKLY, '2026-01-14 15:00');
+  assert.match(moved, /\[scheduled:: 2026-01-14 15:00\]/);
+  assert.match(moved, /\[recurrenceAnchor:: 2026-01-12 09:00:00\]/);
+  assert.deepEqual(readTaskRecurrenceExceptions(moved), { exdates: ['2026-01-12'], rdates: ['2026-01-14 15:00'] });
+
+  // A plain weekly rule would otherwise re-anchor on the moved Wednesday.
+  const next = calculateNextTaskOccurrence('RRULE:FREQ=WEEKLY', {
+    scheduledValue: '2026-01-14 15:00',
+    completedAt: new Date(2026, 0, 14, 16),
+    exceptions: readTaskRecurrenceExceptions(moved),
+    anchorValue: '2026-01-12 09:00:00',
+  });
+  assert.deepEqual(next, { scheduledValue: '2026-01-19 09:00:00', anchorValue: null });
+});
+
+test('moving an already moved occurrence swaps its RDATE instead of excluding another day', async () => {
+  const { rescheduleTaskRecurrenceOccurrence, readTaskRecurrenceExceptions } = await loadModule();
+  const daily = '- [ ] Stretch [scheduled:: 2026-01-12 09:00:00] [recurrence:: RRULE:FREQ=DAILY]';
+  const once = rescheduleTaskRecurrenceOccurrence(daily, '2026-01-13 18:00');
+  const twice = rescheduleTaskRecurrenceOccurrence(once, '2026-01-13 20:00');
+  assert.deepEqual(readTaskRecurrenceExceptions(twice), { exdates: ['2026-01-12'], rdates: ['2026-01-13 20:00'] });
+  assert.match(twice, /\[recurrenceAnchor:: 2026-01-12 09:00:00\]/);
+});
+
+test('previews list rule occurrences and extra dates in order', async () => {
+  const { listRecurrenceOccurrences, createTaskRecurrenceStep, formatRecurrenceDateKey } = await loadModule();
+  const start = new Date(2026, 0, 12, 9);
+  const dates = listRecurrenceOccurrences(start, createTaskRecurrenceStep('RRULE:FREQ=WEEKLY', start), {
+    exdates: ['2026-01-19'],
+    rdates: ['2026-01-21 09:00'],
+  }, 4);
+  assert.deepEqual(dates.map(formatRecurrenceDateKey), ['2026-01-12', '2026-01-21', '2026-01-26', '2026-02-02']);
+});
@@ -0,0 +1,43 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadModule() {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL('../src/utils/task-recurrence.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+test('malformed rules report why instead of silently producing nothing', async () => {
+  const { getTaskRecurrenceRuleError } = await loadModule();
+  assert.match(getTaskRecurrenceRuleError('FREQ=DAILLY'), /FREQ/);
+  assert.match(getTaskRecurrenceRuleError('RRULE:FREQ=DAILY;INTERVAL=abc'), /INTERVAL/);
+  assert.match(getTaskRecurrenceRuleError('FREQ=WEEKLY;BYDAY=XX'), /BYDAY/);
+  assert.match(getTaskRecurrenceRuleError('FOO=1'), /FOO/);
+  assert.match(getTaskRecurrenceRuleError('GCM-AFTER-COMPLETION:tomorrow'), /ISO 8601/);
+});
+
+test('valid rules, the Easter rule and empty values pass validation', async () => {
+  const { getTaskRecurrenceRuleError } = await loadModule();
+  for (const rule of ['', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU', 'FREQ=MONTHLY;BYDAY=2TU', 'GCM-HOLIDAY:EASTER', 'GCM-AFTER-COMPLETION:PT6H']) {
+    assert.equal(getTaskRecurrenceRuleError(rule), null, rule);
+  }
+});
+
+test('rules are summarized in plain language', async () => {
+  const { describeTaskRecurrenceRule } = await loadModule();
+  assert.equal(describeTaskRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'), 'every 2 weeks on Tuesday');
+  assert.equal(describeTaskRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU'), 'every month on the 2nd Tuesday');
+  assert.equal(describeTaskRecurrenceRule('GCM-AFTER-COMPLETION:P1D'), '1 day after each completion');
+  assert.equal(describeTaskRecurrenceRule('GCM-AFTER-COMPLETION:PT90M'), '90 minutes after each completion');
+  assert.equal(describeTaskRecurrenceRule('GCM-HOLIDAY:EASTER'), 'every year on Easter Sunday');
+  assert.equal(describeTaskRecurrenceRule('FREQ=DAILLY'), '');
+});
@@ -0,0 +1,202 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadRelationshipGraphModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/relationship-graph-core.ts';
+        export { RelationshipGraphService } from '../src/services/relationship-graph-service.ts';
+        export { TFile } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'relationship-graph-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'relationship-graph-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'relationship-graph-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class TFile {
+              constructor(path = '') {
+                this.path = path;
+                this.name = path.split('/').pop() || '';
+                this.extension = 'md';
+                this.basename = this.name.replace(/\\.md$/u, '');
+              }
+            }
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const graphModule = await loadRelationshipGraphModule();
+
+function createSource({ parents = {}, children = {}, linked = {}, statuses = {} }) {
+  return {
+    getParents: async (path) => parents[path] ?? [],
+    getChildren: async (path) => children[path] ?? [],
+    getLinkedSources: async (path) => linked[path] ?? [],
+    describe: (path) => ({
+      title: path.replace(/\.md$/u, ''),
+      status: statuses[path] ?? '',
+      statusState: statuses[path] === 'complete' ? 'done' : statuses[path] ? 'active' : 'none',
+    }),
+  };
+}
+
+const relations = (graph) => Object.fromEntries(graph.nodes.map((node) => [node.path, node.relation]));
+
+test('the graph collects ancestors, siblings, children and linking notes once each', async () => {
+  const graph = await graphModule.collectRelationshipGraph('Task.md', createSource({
+    parents: {
+      'Task.md': [{ path: 'Project.md', via: 'parent-key' }, { path: 'Project.md', via: 'body-link' }],
+      'Project.md': [{ path: 'Area.md', via: 'parent-key' }],
+      'Area.md': [{ path: 'Life.md', via: 'parent-key' }],
+    },
+    children: {
+      'Task.md': [{ path: 'Step.md', via: 'body-link' }],
+      'Project.md': [
+        { path: 'Task.md', via: 'parent-key' },
+        { path: 'Other.md', via: 'parent-key' },
+        { path: 'Step.md', via: 'parent-key' },
+      ],
+    },
+    linked: { 'Task.md': ['Journal.md', 'Project.md', 'Journal.md'] },
+    statuses: { 'Step.md': 'complete', 'Other.md': 'todo' },
+  }));
+
+  assert.deepEqual(relations(graph), {
+    'Task.md': 'root',
+    'Project.md': 'ancestor',
+    'Area.md': 'ancestor',
+    'Step.md': 'child',
+    'Other.md': 'sibling',
+    'Journal.md': 'linked',
+  });
+  assert.equal(graph.nodes.find((node) => node.path === 'Area.md').depth, 2);
+  assert.equal(graph.nodes.find((node) => node.path === 'Step.md').statusState, 'done');
+  assert.deepEqual(graph.edges.find((edge) => edge.from === 'Project.md' && edge.to === 'Task.md').via, ['parent-key', 'body-link']);
+  assert.ok(graph.edges.some((edge) => edge.from === 'Journal.md' && edge.to === 'Task.md'));
+  assert.ok(!graph.edges.some((edge) => edge.to === 'Life.md' || edge.from === 'Life.md'));
+});
+
+test('large groups are capped and cycles do not loop', async () => {
+  const graph = await graphModule.collectRelationshipGraph('A.md', createSource({
+    parents: { 'A.md': [{ path: 'B.md', via: 'parent-key' }], 'B.md': [{ path: 'A.md', via: 'parent-key' }] },
+    children: { 'A.md': ['1', '2', '3', '4'].map((name) => ({ path: `${name}.md`, via: 'parent-key' })) },
+  }), { maxPerGroup: 2, includeLinked: false });
+
+  assert.deepEqual(graph.nodes.map((node) => node.path), ['A.md', 'B.md', '1.md', '2.md']);
+  assert.deepEqual(graph.hidden, { child: 2 });
+});
+
+test('the layout puts ancestors above the note, centers it among siblings and children below', async () => {
+  const graph = await graphModule.collectRelationshipGraph('B.md', createSource({
+    parents: { 'B.md': [{ path: 'P.md', via: 'parent-key' }] },
+    children: {
+      'P.md': ['A', 'B', 'C', 'D'].map((name) => ({ path: `${name}.md`, via: 'parent-key' })),
+      'B.md': [{ path: 'Kid.md', via: 'parent-key' }],
+    },
+  }));
+  const layout = graphModule.layoutRelationshipGraph(graph, { column: 10, row: 20, margin: 5 });
+  const at = Object.fromEntries(layout.nodes.map((entry) => [entry.node.path, [entry.x, entry.y]]));
+
+  assert.deepEqual(at['P.md'], [20, 5]);
+  assert.deepEqual(['A.md', 'C.md', 'B.md', 'D.md'].map((path) => at[path]), [[5, 25], [15, 25], [25, 25], [35, 25]]);
+  assert.deepEqual(at['Kid.md'], [20, 45]);
+  assert.deepEqual([layout.width, layout.height], [40, 50]);
+});
+
+test('the service reads frontmatter parents, body subitem links and backlinks from the vault', async () => {
+  const { TFile, RelationshipGraphService } = graphModule;
+  const files = Object.fromEntries(['Project.md', 'Task.md', 'Sibling.md', 'Checklist.md', 'Journal.md', 'Hidden.md']
+    .map((path) => [path, new TFile(path)]));
+  const frontmatter = {
+    'Task.md': { parent: 'Project', status: 'todo', title: 'The task' },
+    'Sibling.md': { parent: 'Project', status: 'complete' },
+    'Hidden.md': { parent: 'Project', ignored: true },
+  };
+  const bodyLinks = { 'Checklist.md': ['Task.md'], 'Task.md': ['Sibling.md'] };
+  const scanned = [];
+  let linkReads = 0;
+  const plugin = {
+    app: {
+      vault: {
+        getAbstractFileByPath: (path) => files[path] ?? null,
+        getMarkdownFiles: () => Object.values(files),
+      },
+      metadataCache: {
+        get resolvedLinks() {
+          linkReads += 1;
+          return {
+            'Checklist.md': { 'Task.md': 1 },
+            'Journal.md': { 'Task.md': 2 },
+            'Task.md': { 'Sibling.md': 1 },
+          };
+        },
+      },
+    },
+    parentLinkResolutionService: {
+      getLogicalFrontmatter: (file) => frontmatter[file.path] ?? {},
+      getRelationshipCandidates: () => Object.values(files).filter((file) => !frontmatter[file.path]?.ignored),
+      getParentsForChild: (file) => (frontmatter[file.path]?.parent && !frontmatter[file.path]?.ignored
+        ? [{ file: files[`${frontmatter[file.path].parent}.md`] }]
+        : []),
+      isIgnoredFile: (file) => frontmatter[file.path]?.ignored === true,
+    },
+    bodySubitemLinkService: {
+      scanFile: async (file) => {
+        scanned.push(file.path);
+        return (bodyLinks[file.path] ?? []).map((childPath) => ({ parentPath: file.path, childPath, childFile: files[childPath] }));
+      },
+    },
+    sharedServices: {
+      status: {
+        getStatuses: (fm) => (fm.status ? [fm.status] : []),
+        isDoneStatus: (status) => status === 'complete',
+        isActiveStatus: (status) => status === 'todo',
+      },
+    },
+  };
+  plugin.subitemReferenceIndexService = {
+    getReferencesForChild: async (child, sources) => {
+      const links = [];
+      for (const source of sources) {
+        links.push(...(await plugin.bodySubitemLinkService.scanFile(source)).filter((link) => link.childPath === child.path));
+      }
+      return links;
+    },
+  };
+
+  const graph = await new RelationshipGraphService(plugin).build(files['Task.md']);
+  assert.deepEqual(relations(graph), {
+    'Task.md': 'root',
+    'Checklist.md': 'ancestor',
+    'Project.md': 'ancestor',
+    'Sibling.md': 'child',
+    'Journal.md': 'linked',
+  });
+  assert.deepEqual(
+    graph.nodes.map((node) => [node.path, node.title, node.statusState]).filter(([path]) => path === 'Task.md' || path === 'Sibling.md'),
+    [['Task.md', 'The task', 'active'], ['Sibling.md', 'Sibling', 'done']],
+  );
+  // Body parents come from the note's backlinks, not a scan of the whole vault.
+  assert.deepEqual(scanned.slice(0, 2), ['Checklist.md', 'Journal.md']);
+  assert.ok(!scanned.includes('Hidden.md'));
+  assert.equal(linkReads, 1, 'backlinks are indexed once per build');
+});
@@ -23,6 +23,7 @@ const notebookOperatorsSource = readFileSync(new URL('../src/notebook-navigator-
 const notebookRulesSectionSource = readFileSync(new URL('../src/notebook-navigator-settings/rules-section.ts', import.meta.url), 'utf8');
 const notebookBucketSectionSource = readFileSync(new URL('../src/notebook-navigator-settings/bucket-section.ts', import.meta.url), 'utf8');
 const notebookHideSectionSource = readFileSync(new URL('../src/notebook-navigator-settings/hide-section.ts', import.meta.url), 'utf8');
+const notebookConditionEditorSource = readFileSync(new URL('../src/notebook-navigator-settings/condition-editor.ts', import.meta.url), 'utf8');
 const fileNamingServiceSource = readFileSync(new URL('../src/services/file-naming-service.ts', import.meta.url), 'utf8');
 const settingsPersistenceSource = readFileSync(new URL('../src/settings-persistence.ts', import.meta.url), 'utf8');
 const timeTrackingSource = readFileSync(new URL('../src/services/time-tracking-service.ts', import.meta.url), 'utf8');
@@ -842,7 +843,8 @@ test('Notebook Navigator rules expose checkbox state as a first-class source', a
   assert.match(notebookUiCommonSource, /open, x, -, \//);
   assert.match(notebookOperatorsSource, /source === "checkbox-state"[\s\S]*"is", "!is"[\s\S]*"exists", "!exists"/);
   assert.match(notebookRulesSectionSource, /conditionSourceHasField\(liveCondition\.source\)/);
-  assert.match(notebookHideSectionSource, /conditionSourceHasField\(liveCondition\.source\)/);
+  assert.match(notebookConditionEditorSource, /conditionSourceHasField\(liveCondition\.source\)/);
+  assert.match(notebookHideSectionSource, /renderConditionEditor\(/);
   assert.match(notebookBucketSectionSource, /criterion\.source === "checkbox-state"/);
   assert.doesNotMatch(notebookRuleEngineSource, /checkbox-state[\s\S]{0,800}linkedSubitem|checkbox-state[\s\S]{0,800}mapping/i);
 });
@@ -1006,6 +1008,7 @@ test('frontmatter-rule settings CSS stays GCM-owned and cannot style Notebook Na
     notebookRulesSectionSource,
     notebookBucketSectionSource,
     notebookHideSectionSource,
+    notebookConditionEditorSource,
   ];
 
   for (const source of frontmatterRuleSources) {
@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadModule() {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL('../src/services/snooze-core.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+// Wednesday, 10:00 local time.
+const NOW = new Date(2026, 2, 11, 10, 0, 0);
+
+test('minutes and short durations snooze relative to now', async () => {
+  const { parseSnoozeExpression, formatSnoozeValue } = await loadModule();
+  assert.equal(formatSnoozeValue(parseSnoozeExpression('30', NOW)), '2026-03-11T10:30:00');
+  assert.equal(formatSnoozeValue(parseSnoozeExpression('in 2h', NOW)), '2026-03-11T12:00:00');
+  assert.equal(formatSnoozeValue(parseSnoozeExpression('3 days', NOW)), '2026-03-14T10:00:00');
+  assert.equal(parseSnoozeExpression('0', NOW), null);
+  assert.equal(parseSnoozeExpression('', NOW), null);
+});
+
+test('named anchors wake at the next occurrence of their time', async () => {
+  const { parseSnoozeAnchors, parseSnoozeExpression, formatSnoozeValue } = await loadModule();
+  const anchors = parseSnoozeAnchors(['standup=09:30', 'Lunch: 12:15', 'broken', 'late=25:00']);
+  assert.deepEqual(anchors, [{ name: 'standup', minutes: 570 }, { name: 'lunch', minutes: 735 }]);
+  assert.equal(formatSnoozeValue(parseSnoozeExpression('after standup', NOW, anchors)), '2026-03-12T09:30:00');
+  assert.equal(formatSnoozeValue(parseSnoozeExpression('after lunch', NOW, anchors)), '2026-03-11T12:15:00');
+});
+
+test('natural language expressions are parsed forward from now', async () => {
+  const { parseSnoozeExpression, formatSnoozeValue } = await loadModule();
+  assert.equal(formatSnoozeValue(parseSnoozeExpression('next Monday 9am', NOW)), '2026-03-16T09:00:00');
+  assert.equal(formatSnoozeValue(parseSnoozeExpression('tomorrow 8am', NOW)), '2026-03-12T08:00:00');
+  assert.equal(parseSnoozeExpression('yesterday', NOW), null);
+  assert.equal(parseSnoozeExpression('not a time', NOW), null);
+});
+
+test('stored values decide whether an item is still snoozed or due to wake', async () => {
+  const { isSnoozeActive, isSnoozeDue, parseSnoozeValue } = await loadModule();
+  assert.equal(isSnoozeActive('2026-03-11T10:30:00', NOW), true);
+  assert.equal(isSnoozeDue('2026-03-11T10:30:00', NOW), false);
+  assert.equal(isSnoozeDue('2026-03-11 09:59', NOW), true);
+  assert.equal(isSnoozeDue('2026-03-11', NOW), true);
+  assert.equal(isSnoozeActive(['2026-03-12'], NOW), true);
+  assert.equal(isSnoozeActive('', NOW), false);
+  assert.equal(isSnoozeDue(null, NOW), false);
+  assert.equal(parseSnoozeValue('soon'), null);
+});
@@ -1532,6 +1532,42 @@ test('task creation uses the configured primary todo marker instead of an unchec
   assert.doesNotMatch(created.task?.rawLine || '', /^- \[ \]/u);
 });
 
+test('task creation folds a child template into line fields and tags with explicit input winning', async () => {
+  const { TaskApiService } = await loadTaskApiModule();
+  const fixture = createTaskApiFixture(TaskApiService);
+  const renders = [];
+  fixture.plugin.childTemplateService = {
+    resolveTemplate: (reference, parent) => (reference === 'missing'
+      ? (() => { throw new Error('Template "missing" not found.'); })()
+      : { id: reference, parentPath: parent?.path }),
+    render: async (template, input) => {
+      renders.push([template.id, template.parentPath, input.title, input.interactive]);
+      return { frontmatter: { priority: 'high', area: 'Work', context: ['home', 'phone'], tags: ['meeting'] }, body: 'ignored' };
+    },
+  };
+
+  const created = await fixture.service.create({
+    title: 'Call supplier',
+    targetPath: fixture.taskPath,
+    template: 'auto',
+    fields: { area: 'Ops' },
+    tags: ['vendor'],
+    notice: false,
+  });
+
+  assert.equal(created.ok, true);
+  assert.deepEqual(renders, [['auto', fixture.taskPath, 'Call supplier', false]]);
+  const line = created.task?.rawLine || '';
+  assert.match(line, /\[priority:: high\]/u);
+  assert.match(line, /\[area:: Ops\]/u);
+  assert.match(line, /\[context:: home, phone\]/u);
+  assert.match(line, /#meeting/u);
+  assert.match(line, /#vendor/u);
+
+  const failed = await fixture.service.create({ title: 'Nope', targetPath: fixture.taskPath, template: 'missing', notice: false });
+  assert.deepEqual(failed, { ok: false, changed: false, task: null, error: 'Template "missing" not found.' });
+});
+
 test('task creation preflights every checkbox/status input route before target resolution or writes', async () => {
   const { TaskApiService } = await loadTaskApiModule();
   const fixture = createTaskApiFixture(TaskApiService);
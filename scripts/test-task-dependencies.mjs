@@ -0,0 +1,52 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadModule() {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL('../src/services/task-dependency-core.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+test('blockedBy values accept wikilinks, block links, and bare tpsIds', async () => {
+  const { parseBlockerReferences, serializeBlockerReferences } = await loadModule();
+  const references = parseBlockerReferences([
+    '[[Projects/Launch|Launch]]',
+    '[[Inbox#^task-1]], tps-42',
+    '[[Projects/Launch]]',
+  ]);
+  assert.deepEqual(references.map((reference) => reference.kind), ['link', 'link', 'id']);
+  assert.equal(references[0].linkpath, 'Projects/Launch');
+  assert.equal(references[1].blockId, 'task-1');
+  assert.equal(references[2].id, 'tps-42');
+  assert.deepEqual(serializeBlockerReferences(references), ['[[Projects/Launch|Launch]]', '[[Inbox#^task-1]]', 'tps-42']);
+  assert.deepEqual(parseBlockerReferences('[[#^local]]')[0], { kind: 'link', raw: '[[#^local]]', linkpath: '', blockId: 'local' });
+  assert.deepEqual(parseBlockerReferences(null), []);
+});
+
+test('adding a blocker that already depends on the item is reported as a cycle', async () => {
+  const { findDependencyCycle } = await loadModule();
+  const edges = new Map([
+    ['b.md', ['c.md']],
+    ['c.md', ['a.md']],
+  ]);
+  assert.deepEqual(findDependencyCycle(edges, 'a.md', 'b.md'), ['a.md', 'b.md', 'c.md', 'a.md']);
+  assert.equal(findDependencyCycle(edges, 'c.md', 'd.md'), null);
+  assert.deepEqual(findDependencyCycle(edges, 'a.md', 'a.md'), ['a.md', 'a.md']);
+});
+
+test('holding items are released only when every blocker is done', async () => {
+  const { shouldReleaseDependent } = await loadModule();
+  assert.equal(shouldReleaseDependent('holding', [true, true]), true);
+  assert.equal(shouldReleaseDependent('holding', [true, false]), false);
+  assert.equal(shouldReleaseDependent('working', [true]), false);
+  assert.equal(shouldReleaseDependent('holding', []), false);
+});
@@ -331,7 +331,7 @@ test('quick-editor source keeps property commits atomic and provides mobile-safe
   assert.match(serviceSource, /changedPropertyKeys/u, 'logs should identify changed keys without logging their values');
   assert.match(serviceSource, /maybePromptMoveScheduledDailyNoteTask\(/u);
   assert.match(serviceSource, /inputmode: descriptor\.type === 'number' \? 'decimal' : 'text'/u);
-  assert.match(serviceSource, /\{ showEndsOn: false \}/u);
+  assert.match(serviceSource, /\{ showEndsOn: false[ ,]/u);
   assert.match(recurrenceModalSource, /if \(this\.options\.showEndsOn\)/u);
 
   assert.match(stylesSource, /\.tps-gcm-task-editor-properties\s*\{/u);
@@ -1727,6 +1727,48 @@ test('create task command parses natural language schedule into task metadata',
   );
 });
 
+test('create task quick-add grammar fills priority, estimate, target, properties, and recurrence', async () => {
+  const { parseCreateTaskInput, buildCreatedTaskLine, getQuickAddPropertyKeys } = await importCreateTaskUtility();
+  const inlinePropertyKeys = getQuickAddPropertyKeys([
+    { id: 'status', key: 'status', type: 'selector', allowInlineSet: true },
+    { id: 'owner', key: 'owner', type: 'text' },
+    { id: 'kind', key: 'kind', type: 'kind' },
+    { id: 'secret', key: 'secret', type: 'text', allowInlineSet: false },
+  ]);
+  assert.deepEqual(inlinePropertyKeys, ['status', 'owner']);
+
+  const parsed = parseCreateTaskInput(
+    'Review launch plan #work !1 ~1h30m >[[Projects/Launch|Launch]] @@Owner:"Sam Lee" @@secret:x friday 3pm',
+    new Date(2026, 5, 1, 12, 0, 0),
+    { inlinePropertyKeys },
+  );
+  assert.equal(parsed.title, 'Review launch plan #work @@secret:x');
+  assert.deepEqual(parsed.tags, ['work']);
+  assert.equal(parsed.priority, 'high');
+  assert.equal(parsed.timeEstimate, 90);
+  assert.equal(parsed.targetLinkpath, 'Projects/Launch');
+  assert.deepEqual(parsed.properties, { owner: 'Sam Lee' });
+  assert.equal(parsed.scheduledValue, '2026-06-05 15:00:00');
+  assert.deepEqual(parsed.tokens.map((token) => token.kind), ['tag', 'priority', 'estimate', 'target', 'property', 'date']);
+
+  const recurring = parseCreateTaskInput('standup notes every weekday ~15', new Date(2026, 5, 1, 12, 0, 0));
+  assert.equal(recurring.title, 'standup notes');
+  assert.equal(recurring.detectedDateText, '');
+  assert.equal(recurring.recurrence, 'RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+  assert.equal(parseCreateTaskInput('gym every other monday and thursday').recurrence, 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+  assert.equal(
+    buildCreatedTaskLine({
+      title: recurring.title,
+      checkboxMarker: ' ',
+      timeEstimate: recurring.timeEstimate,
+      keepTimeEstimate: true,
+      recurrence: recurring.recurrence,
+      properties: { owner: 'Sam Lee' },
+    }),
+    '- [ ] standup notes [timeEstimate:: 15] [recurrence:: RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR] [owner:: Sam Lee]',
+  );
+});
+
 test('create task command appends to today daily note and does not create task status keys', () => {
   assert.match(commandsSource, /id: 'create-task'/);
   assert.match(commandsSource, /name: 'Create task'/);
@@ -1742,7 +1784,7 @@ test('create task command appends to today daily note and does not create task s
   assert.match(createTaskServiceSource, /ensureDirectTaskHistoryIdentity\(/);
   assert.match(createTaskServiceSource, /openCreateTaskModalWithCanonicalTarget/);
   assert.match(createTaskModalSource, /Natural language schedule text is parsed into the Scheduled field/);
-  assert.match(createTaskModalSource, /parseCreateTaskInput\(this\.titleInput\?\.getValue\?\.\(\) \|\| ''\)/);
+  assert.match(createTaskModalSource, /parseCreateTaskInput\(this\.titleInput\?\.getValue\?\.\(\) \|\| '', new Date\(\), \{\s*inlinePropertyKeys: this\.options\.inlinePropertyKeys,/);
   assert.match(createTaskModalSource, /this\.previewEl\.createEl\('mark'/);
   assert.doesNotMatch(createTaskModalSource, /status::/i);
 });
@@ -0,0 +1,170 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadTimeReportModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/time-report-core.ts';
+        export { TimeReportService, resolveTimeReportRange } from '../src/services/time-report-service.ts';
+        export { TFile } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'time-report-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'time-report-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'time-report-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class TFile {
+              constructor(path = '') {
+                this.path = path;
+                this.name = path.split('/').pop() || '';
+                this.extension = this.name.includes('.') ? this.name.split('.').pop() : '';
+                this.basename = this.extension ? this.name.slice(0, -(this.extension.length + 1)) : this.name;
+              }
+            }
+            export class Notice {}
+            export const normalizePath = (value) => String(value).replace(/\\\\/g, '/').replace(/\\/+/g, '/').replace(/^\\/|\\/$/g, '');
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const report = await loadTimeReportModule();
+
+const RANGE = { start: new Date(2026, 4, 4), end: new Date(2026, 4, 11) };
+
+function session(overrides) {
+  return {
+    title: 'Write spec',
+    targetPath: 'Projects/Spec.md',
+    targetType: 'note',
+    start: new Date(2026, 4, 5, 9, 0),
+    end: new Date(2026, 4, 5, 10, 30),
+    project: 'Acme',
+    tags: ['client'],
+    ...overrides,
+  };
+}
+
+test('sessions are clipped to the range and totalled per project', () => {
+  const result = report.buildTimeReport([
+    session({}),
+    session({ title: 'Call', targetPath: 'Daily/2026-05-06.md', targetType: 'task', start: new Date(2026, 4, 6, 14, 0), end: new Date(2026, 4, 6, 14, 45), project: null, tags: [] }),
+    session({ start: new Date(2026, 4, 3, 23, 0), end: new Date(2026, 4, 4, 1, 0) }),
+    session({ start: new Date(2026, 4, 1, 9, 0), end: new Date(2026, 4, 1, 10, 0) }),
+  ], 'project', RANGE);
+
+  assert.equal(result.sessionCount, 3);
+  assert.equal(result.totalMinutes, 90 + 45 + 60);
+  assert.deepEqual(result.rows, [
+    { key: 'Acme', label: 'Acme', minutes: 150, sessions: 2 },
+    { key: '(no project)', label: '(no project)', minutes: 45, sessions: 1 },
+  ]);
+});
+
+test('running sessions count up to now and day grouping splits at midnight', () => {
+  const result = report.buildTimeReport([
+    session({ start: new Date(2026, 4, 5, 23, 30), end: new Date(2026, 4, 6, 0, 15) }),
+    session({ start: new Date(2026, 4, 6, 8, 0), end: null }),
+  ], 'day', RANGE, { now: new Date(2026, 4, 6, 8, 20) });
+
+  assert.deepEqual(result.rows.map((row) => [row.label, row.minutes]), [
+    ['2026-05-05', 30],
+    ['2026-05-06', 35],
+  ]);
+  const weekly = report.buildTimeReport([session({})], 'week', RANGE);
+  assert.equal(weekly.rows[0].label, 'Week of 2026-05-04');
+});
+
+test('tag grouping counts a session under every tag', () => {
+  const result = report.buildTimeReport([
+    session({ tags: ['client', 'billable'] }),
+    session({ tags: [], start: new Date(2026, 4, 7, 9, 0), end: new Date(2026, 4, 7, 9, 30) }),
+  ], 'tag', RANGE);
+  assert.deepEqual(result.rows.map((row) => [row.label, row.minutes]), [
+    ['#billable', 90],
+    ['#client', 90],
+    ['(untagged)', 30],
+  ]);
+  assert.equal(result.totalMinutes, 120);
+});
+
+test('target rows use the note title and keep session titles for task lines', () => {
+  const result = report.buildTimeReport([
+    session({ title: 'Draft intro', noteTitle: 'Spec' }),
+    session({ title: 'Edit outline', noteTitle: 'Spec', start: new Date(2026, 4, 6, 9, 0), end: new Date(2026, 4, 6, 10, 0) }),
+    session({ title: 'Inbox review', targetPath: 'Areas/Inbox.md', start: new Date(2026, 4, 7, 9, 0), end: new Date(2026, 4, 7, 9, 10) }),
+    session({ title: 'Call client', targetPath: 'Daily/2026-05-06.md', targetType: 'task', targetId: 'abc', noteTitle: '2026-05-06', start: new Date(2026, 4, 6, 14, 0), end: new Date(2026, 4, 6, 14, 45) }),
+    session({ title: 'Call client again', targetPath: 'Daily/2026-05-06.md', targetType: 'task', targetId: 'abc', noteTitle: '2026-05-06', start: new Date(2026, 4, 6, 16, 0), end: new Date(2026, 4, 6, 16, 15) }),
+  ], 'target', RANGE);
+
+  assert.deepEqual(result.rows.map((row) => [row.label, row.minutes, row.sessions]), [
+    ['Spec', 150, 2],
+    ['Call client', 60, 2],
+    ['Inbox', 10, 1],
+  ]);
+});
+
+test('CSV and Markdown exports quote labels and include a total', () => {
+  const result = report.buildTimeReport([
+    session({ noteTitle: 'Spec, "v2"' }),
+    session({ noteTitle: 'A | B', targetPath: 'B.md', start: new Date(2026, 4, 6, 9, 0), end: new Date(2026, 4, 6, 9, 20) }),
+  ], 'target', RANGE);
+
+  assert.equal(report.formatTimeReportCsv(result), [
+    'Target note,Sessions,Minutes,Hours',
+    '"Spec, ""v2""",1,90,1.50',
+    'A | B,1,20,0.33',
+    'Total,2,110,1.83',
+    '',
+  ].join('\r\n'));
+  const markdown = report.formatTimeReportMarkdown(result);
+  assert.match(markdown, /^Time report: 2026-05-04 to 2026-05-10\n/);
+  assert.match(markdown, /\| A \\\| B \| 1 \| 0:20 \| 0\.33 \|/);
+  assert.match(markdown, /\| \*\*Total\*\* \| 2 \| 1:50 \| 1\.83 \|/);
+});
+
+test('report ranges cover whole local days and default to the last week', () => {
+  const range = report.resolveTimeReportRange('2026-05-10', '2026-05-04');
+  assert.equal(range.start.getTime(), new Date(2026, 4, 4).getTime());
+  assert.equal(range.end.getTime(), new Date(2026, 4, 11).getTime());
+  const fallback = report.resolveTimeReportRange(undefined, '2026-05-10');
+  assert.equal(fallback.start.getTime(), new Date(2026, 4, 4).getTime());
+});
+
+test('exportReport writes the report into the Time Reports folder', async () => {
+  const writes = [];
+  const folders = [];
+  const plugin = {
+    app: {
+      vault: {
+        getAbstractFileByPath: (path) => (folders.includes(path) ? { path } : null),
+        createFolder: async (path) => { folders.push(path); },
+        create: async (path, content) => { writes.push({ path, content }); return new report.TFile(path); },
+      },
+    },
+  };
+  const service = new report.TimeReportService(plugin);
+  const built = report.buildTimeReport([session({})], 'project', RANGE);
+  const result = await service.exportReport(built, 'csv');
+  assert.deepEqual(result, { ok: true, path: 'Time Reports/Time report 2026-05-04 to 2026-05-10 by project.csv' });
+  assert.deepEqual(folders, ['Time Reports']);
+  assert.match(writes[0].content, /^Project,Sessions,Minutes,Hours\r\nAcme,1,90,1\.50\r\n/);
+});
@@ -0,0 +1,168 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadFocusService() {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL('../src/services/time-tracking-focus-service.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'focus-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'focus-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export const notices = [];
+            export class Notice { constructor(message) { notices.push(message); } }
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const { TimeTrackingFocusService } = await loadFocusService();
+
+function createHarness(settings = {}) {
+  const calls = [];
+  let nextId = 1;
+  let service;
+  const plugin = {
+    settings: {
+      enableTimeTracking: true,
+      timeTrackingFocusWorkMinutes: 25,
+      timeTrackingFocusShortBreakMinutes: 5,
+      timeTrackingFocusLongBreakMinutes: 15,
+      timeTrackingFocusCycles: 2,
+      timeTrackingFocusState: null,
+      ...settings,
+    },
+    persisted: 0,
+    async persistRuntimeSettingsState() { plugin.persisted += 1; },
+    registerInterval() {},
+    timeTrackingStatusBarService: { refresh() {} },
+    timeTrackingService: {
+      async resolveActiveTarget() {
+        return { file: { path: 'Daily/2026-05-06.md' }, type: 'task', lineNumber: 7, title: 'Write report' };
+      },
+      async startTimer(input, notes, options) {
+        const id = `tt-${nextId++}`;
+        calls.push({ kind: 'start', id, input, notes, options });
+        return {
+          id,
+          targetPath: input?.file?.path ?? input?.filePath,
+          targetLineNumber: input?.lineNumber,
+          targetType: input?.type,
+          title: input?.title,
+          notesMode: 'workspace',
+          notesPath: 'Daily/2026-05-06.md',
+          notesHeading: 'Write report 09:00',
+          notesBlockId: 'tt-notes',
+        };
+      },
+      async stopTimerById(id, end) {
+        calls.push({ kind: 'stop', id, end });
+        service.handleTimerStopped(id);
+        return { id };
+      },
+      async clearPausedTimer() {
+        calls.push({ kind: 'clear-paused' });
+        return true;
+      },
+    },
+  };
+  globalThis.window = { setInterval: () => 1 };
+  service = new TimeTrackingFocusService(plugin);
+  return { plugin, service, calls };
+}
+
+test('focus mode runs work blocks as stamped timer sessions until the long break ends', async () => {
+  const { plugin, service, calls } = createHarness();
+
+  assert.equal(await service.start(), true);
+  assert.deepEqual(calls[0].options, { notesMode: 'workspace', focusCycle: 1 });
+  assert.equal(service.getStatus().phase, 'work');
+  assert.equal(Math.round(service.getStatus().remainingMs / 60_000), 25);
+
+  await service.skip();
+  assert.equal(calls[1].kind, 'stop');
+  assert.equal(calls[1].id, 'tt-1');
+  assert.equal(service.getStatus().phase, 'short-break', 'the focus service\'s own stop must not end focus mode');
+
+  await service.skip();
+  assert.equal(calls[2].kind, 'start');
+  assert.deepEqual(calls[2].input, { filePath: 'Daily/2026-05-06.md', lineNumber: 7, type: 'task', title: 'Write report' });
+  assert.deepEqual(calls[2].notes, { notesPath: 'Daily/2026-05-06.md', notesHeading: 'Write report 09:00', notesBlockId: 'tt-notes' });
+  assert.equal(calls[2].options.focusCycle, 2);
+  assert.equal(service.getStatus().cycle, 2);
+
+  await service.skip();
+  assert.equal(service.getStatus().phase, 'long-break');
+  assert.equal(Math.round(service.getStatus().remainingMs / 60_000), 15);
+
+  await service.skip();
+  assert.equal(service.getStatus(), null);
+  assert.equal(plugin.settings.timeTrackingFocusState, null);
+  assert.ok(plugin.persisted >= 4);
+});
+
+test('pausing a focus block freezes the countdown and resuming continues it', async () => {
+  const { service } = createHarness();
+  await service.start();
+  const before = service.getStatus();
+
+  service.handleTimerPaused('tt-1', new Date(Date.now() + 5 * 60_000));
+  const paused = service.getStatus();
+  assert.equal(paused.paused, true);
+  assert.equal(Math.round(paused.remainingMs / 60_000), 20);
+
+  service.handleTimerResumed('tt-1', { id: 'tt-9' });
+  const resumed = service.getStatus();
+  assert.equal(resumed.paused, false);
+  assert.equal(resumed.sessionId, 'tt-9');
+  assert.ok(resumed.remainingMs < before.remainingMs);
+});
+
+test('stopping the focus timer by hand ends focus mode', async () => {
+  const { service, calls } = createHarness();
+  await service.start();
+  service.handleTimerStopped('some-other-session');
+  assert.notEqual(service.getStatus(), null);
+  service.handleTimerStopped('tt-1');
+  assert.equal(service.getStatus(), null);
+
+  await service.start();
+  await service.stop();
+  assert.equal(calls.at(-1).kind, 'stop');
+  assert.equal(service.getStatus(), null);
+});
+
+test('discarding idle time moves the focus block to the continued session', async () => {
+  const { plugin, service } = createHarness();
+  await service.start();
+  const before = service.getStatus();
+
+  const continued = await service.followSession('tt-1', async () => {
+    await plugin.timeTrackingService.stopTimerById('tt-1', new Date());
+    return plugin.timeTrackingService.startTimer({ filePath: 'Daily/2026-05-06.md' }, undefined, { focusCycle: 1 });
+  });
+  assert.equal(continued.id, 'tt-2');
+  const status = service.getStatus();
+  assert.equal(status.phase, 'work');
+  assert.equal(status.sessionId, 'tt-2');
+  assert.ok(Math.abs(status.remainingMs - before.remainingMs) < 5_000, 'the countdown carries on');
+
+  await service.followSession('tt-2', async () => {
+    await plugin.timeTrackingService.stopTimerById('tt-2', new Date());
+    return null;
+  });
+  assert.equal(service.getStatus(), null);
+});
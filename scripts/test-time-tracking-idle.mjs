@@ -0,0 +1,134 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadTimeTrackingService() {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL('../src/services/time-tracking-service.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'idle-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'idle-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class Modal {
+              constructor(app) { this.app = app; this.modalEl = { addClass() {} }; this.contentEl = { empty() {} }; }
+              open() { globalThis.__idleModals.push(this); }
+              close() { this.onClose(); }
+            }
+            export class MarkdownView {}
+            export class Notice {}
+            export class Setting {}
+            export class TFile {}
+            export class TFolder {}
+            export const normalizePath = (value) => String(value);
+            export const parseYaml = () => ({});
+            export const stringifyYaml = () => '';
+          `,
+        }));
+      },
+    }],
+  });
+  if (result.errors.length) throw new Error(result.errors.map((error) => error.text).join('\n'));
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const { TimeTrackingService } = await loadTimeTrackingService();
+
+function createHarness(settings = {}) {
+  const calls = [];
+  const storage = new Map();
+  globalThis.__idleModals = [];
+  const plugin = {
+    settings: { enableTimeTracking: true, timeTrackingIdleThresholdMinutes: 15, ...settings },
+    app: {
+      loadLocalStorage: (key) => storage.get(key) ?? null,
+      saveLocalStorage: (key, value) => storage.set(key, value),
+    },
+  };
+  const service = new TimeTrackingService(plugin);
+  service.stopTimerById = async (id, end) => {
+    calls.push({ kind: 'stop', id, end });
+    return {
+      id,
+      title: 'Write report',
+      targetPath: 'Projects/Report.md',
+      targetLineNumber: 4,
+      targetType: 'task',
+      notesMode: 'workspace',
+      notesPath: 'Daily/2026-05-06.md',
+      notesHeading: 'Write report 09:00',
+      notesBlockId: 'tt-notes',
+      focusCycle: 2,
+    };
+  };
+  service.startTimer = async (input, notes, options) => {
+    calls.push({ kind: 'start', input, notes, options });
+    return { id: 'tt-next' };
+  };
+  return { plugin, service, calls, storage };
+}
+
+const IDLE_START = new Date(2026, 4, 6, 10, 0);
+const IDLE_END = new Date(2026, 4, 6, 10, 40);
+
+test('discarding idle time ends the session at the last activity and continues it from the return', async () => {
+  const { service, calls } = createHarness();
+  const result = await service.resolveIdleTime('tt-1', IDLE_START, IDLE_END, 'discard');
+
+  assert.equal(result.id, 'tt-next');
+  assert.deepEqual(calls[0], { kind: 'stop', id: 'tt-1', end: IDLE_START });
+  assert.deepEqual(calls[1].input, { filePath: 'Projects/Report.md', lineNumber: 4, type: 'task', title: 'Write report' });
+  assert.deepEqual(calls[1].notes, { notesPath: 'Daily/2026-05-06.md', notesHeading: 'Write report 09:00', notesBlockId: 'tt-notes' });
+  assert.deepEqual(calls[1].options, { notesMode: 'workspace', start: IDLE_END, focusCycle: 2 });
+});
+
+test('stopping at the last activity trims the session and keeping leaves it untouched', async () => {
+  const { service, calls } = createHarness();
+  assert.equal(await service.resolveIdleTime('tt-1', IDLE_START, IDLE_END, 'keep'), null);
+  assert.deepEqual(calls, []);
+
+  await service.resolveIdleTime('tt-1', IDLE_START, IDLE_END, 'stop');
+  assert.deepEqual(calls.map((call) => call.kind), ['stop']);
+  assert.equal(calls[0].end, IDLE_START);
+});
+
+test('activity after the threshold prompts only for timers that were running before the idle gap', async () => {
+  const { service, calls, storage } = createHarness();
+  const now = Date.now();
+  service.lastActivityAt = now - 20 * 60_000;
+  service.getActiveTimers = async () => [
+    { id: 'tt-old', title: 'Old', start: new Date(now - 60 * 60_000) },
+    { id: 'tt-new', title: 'New', start: new Date(now - 5 * 60_000) },
+  ];
+
+  service.recordActivity();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(globalThis.__idleModals.length, 1);
+  assert.deepEqual(globalThis.__idleModals[0].options.titles, ['Old']);
+  assert.ok(Number(storage.get('tps-gcm-time-tracking-last-activity')) >= now);
+
+  service.recordActivity();
+  globalThis.__idleModals[0].choice = 'stop';
+  globalThis.__idleModals[0].close();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(globalThis.__idleModals.length, 1, 'activity inside the threshold must not prompt again');
+  assert.deepEqual(calls.map((call) => [call.kind, call.id]), [['stop', 'tt-old']]);
+});
+
+test('a zero threshold turns idle detection off', async () => {
+  const { service } = createHarness({ timeTrackingIdleThresholdMinutes: 0 });
+  service.lastActivityAt = Date.now() - 24 * 60 * 60_000;
+  service.getActiveTimers = async () => [{ id: 'tt-1', title: 'Old', start: new Date(0) }];
+  service.recordActivity();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(globalThis.__idleModals.length, 0);
+});
@@ -498,3 +498,25 @@ test('mobile timer CSS is namespaced, in-flow, and keeps usable touch targets',
   assert.match(css, /safe-area-inset-left/);
   assert.doesNotMatch(css, /position: fixed/);
 });
+
+test('focus mode shows its countdown and renders breaks without a session scan', async () => {
+  const harness = createHarness([activeStatus('Focus target')]);
+  let focus = { phase: 'work', cycle: 2, cycles: 4, remainingMs: 600_000, paused: false, sessionId: 'session-1', title: 'Focus target' };
+  harness.plugin.timeTrackingService.formatElapsed = (ms) => `${Math.round(ms / 60_000)}m`;
+  harness.plugin.timeTrackingFocusService = {
+    getStatus: () => focus,
+    getPhaseLabel: (phase) => ({ work: 'Focus', 'short-break': 'Short break', 'long-break': 'Long break' })[phase],
+  };
+  const service = new TimeTrackingStatusBarService(harness.plugin);
+
+  service.setup();
+  await settle();
+  assert.match(harness.statusItems[0].visibleText, /Focus 2\/4 10m left \| Focus target/);
+  assert.ok(harness.statusItems[0].classes.has('is-focus'));
+
+  focus = { ...focus, phase: 'short-break', remainingMs: 240_000 };
+  service.refresh();
+  await settle();
+  assert.equal(harness.statusReadCount, 1, 'break countdowns should not scan stored sessions');
+  assert.match(harness.statusItems[0].visibleText, /Short break 4m \| Focus target/);
+});
@@ -112,6 +112,20 @@ test('row properties win bare lookup while note namespace stays source-only', as
   assert.equal(value(session, 'spaced'), 'works');
 });
 
+test('tracked time on the containing note reads through the file namespace', async () => {
+  const { tpsBaseFormulaService } = await loadModule();
+  const compiled = tpsBaseFormulaService.compile({
+    tracked: 'file.trackedMinutes',
+    left: 'file.remainingEstimate',
+  }, 'tracked-time-test');
+  const session = tpsBaseFormulaService.createSession(compiled, {
+    ...context,
+    file: { ...context.file, trackedMinutes: 45, remainingEstimate: -15 },
+  });
+  assert.equal(value(session, 'tracked'), 45);
+  assert.equal(value(session, 'left'), -15);
+});
+
 test('operator precedence, comparisons, booleans, ternaries, and lazy if match the supported contract', async () => {
   const { tpsBaseFormulaService } = await loadModule();
   const compiled = tpsBaseFormulaService.compile({
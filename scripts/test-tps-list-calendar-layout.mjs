@@ -0,0 +1,72 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadModule() {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL('../src/tps-list/calendar-layout.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+test('TPS List calendar ranges cover whole Monday-first weeks', async () => {
+  const { getTpsListCalendarDays, toTpsListDateKey, shiftTpsListCalendarAnchor, normalizeTpsListLayout } = await loadModule();
+  const month = getTpsListCalendarDays(new Date(2026, 6, 15), 'month').map(toTpsListDateKey);
+  assert.equal(month[0], '2026-06-29');
+  assert.equal(month[month.length - 1], '2026-08-02');
+  assert.equal(month.length % 7, 0);
+  const week = getTpsListCalendarDays(new Date(2026, 6, 15), 'week').map(toTpsListDateKey);
+  assert.deepEqual([week[0], week[6]], ['2026-07-13', '2026-07-19']);
+  assert.deepEqual(getTpsListCalendarDays(new Date(2026, 6, 15, 14), 'day').map(toTpsListDateKey), ['2026-07-15']);
+  assert.equal(toTpsListDateKey(shiftTpsListCalendarAnchor(new Date(2026, 0, 31), 'month', 1)), '2026-02-01');
+  assert.equal(normalizeTpsListLayout('Timeline'), 'timeline');
+  assert.equal(normalizeTpsListLayout('board'), 'list');
+});
+
+test('TPS List schedules parse dates, times, links, and estimates', async () => {
+  const { parseTpsListSchedule, parseTpsListDurationMinutes } = await loadModule();
+  const allDay = parseTpsListSchedule('[[2026-07-15]]');
+  assert.equal(allDay.allDay, true);
+  const timed = parseTpsListSchedule('2026-07-15 09:30');
+  assert.equal(timed.allDay, false);
+  assert.equal(timed.start.getHours(), 9);
+  assert.equal(timed.start.getMinutes(), 30);
+  assert.equal(parseTpsListSchedule('someday'), null);
+  assert.equal(parseTpsListDurationMinutes('1h30m'), 90);
+  assert.equal(parseTpsListDurationMinutes(['45']), 45);
+});
+
+test('TPS List rescheduling keeps the original time and link shape', async () => {
+  const { formatTpsListRescheduledValue } = await loadModule();
+  assert.equal(formatTpsListRescheduledValue('2026-07-15 09:30', '2026-07-20'), '2026-07-20 09:30');
+  assert.equal(formatTpsListRescheduledValue('[[2026-07-15]]', '2026-07-20'), '[[2026-07-20]]');
+  assert.equal(formatTpsListRescheduledValue('', '2026-07-20'), '2026-07-20');
+  assert.equal(formatTpsListRescheduledValue('2026-07-15', '2026-07-20', 14 * 60 + 15), '2026-07-20 14:15');
+});
+
+test('TPS List timeline spans estimates and packs overlapping bars into rows', async () => {
+  const { layoutTpsListTimeline } = await loadModule();
+  const rangeStart = new Date(2026, 6, 13);
+  const rangeEnd = new Date(2026, 6, 20);
+  const placements = layoutTpsListTimeline([
+    { start: new Date(2026, 6, 13), allDay: true, durationMinutes: 0 },
+    { start: new Date(2026, 6, 13, 12), allDay: false, durationMinutes: 24 * 60 },
+    { start: new Date(2026, 6, 15, 9), allDay: false, durationMinutes: 0 },
+    { start: new Date(2026, 6, 1), allDay: true, durationMinutes: 0 },
+  ], rangeStart, rangeEnd);
+  assert.equal(placements.length, 3);
+  const [first, second, third] = placements;
+  assert.deepEqual([first.index, first.row], [0, 0]);
+  assert.ok(Math.abs(first.width - 100 / 7) < 1e-9);
+  assert.deepEqual([second.index, second.row], [1, 1]);
+  assert.ok(Math.abs(second.left - 50 / 7) < 1e-9);
+  assert.deepEqual([third.index, third.row], [2, 0]);
+  assert.ok(third.width > 0 && third.width < 1);
+});
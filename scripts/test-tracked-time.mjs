@@ -0,0 +1,137 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadTrackedTimeModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/tracked-time-core.ts';
+        export { TimeTrackingService } from '../src/services/time-tracking-service.ts';
+        export { TFile } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'tracked-time-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'tracked-time-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'tracked-time-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class TFile {
+              constructor(path = '') { this.path = path; }
+            }
+            export class Modal {}
+            export class MarkdownView {}
+            export class Notice {}
+            export class Setting {}
+            export class TFolder {}
+            export const normalizePath = (value) => String(value);
+            export const parseYaml = () => ({});
+            export const stringifyYaml = () => '';
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const tracked = await loadTrackedTimeModule();
+
+test('summaries compare tracked minutes with the estimate and flag overruns', () => {
+  const index = new Map();
+  tracked.addTrackedSession(index, 'item-1', new Date(2026, 4, 6, 9, 0), new Date(2026, 4, 6, 9, 30));
+  tracked.addTrackedSession(index, 'item-1', new Date(2026, 4, 6, 14, 0), new Date(2026, 4, 6, 14, 15));
+
+  const underBudget = tracked.summarizeTrackedTime(index.get('item-1'), '60');
+  assert.deepEqual(underBudget, {
+    trackedMinutes: 45,
+    estimateMinutes: 60,
+    remainingMinutes: 15,
+    overBudget: false,
+    running: false,
+  });
+  assert.equal(tracked.formatTrackedTime(underBudget), '45m / 1h');
+  assert.equal(tracked.describeTrackedTime(underBudget), 'Tracked 45m / 1h, 15m left');
+
+  const overBudget = tracked.summarizeTrackedTime(index.get('item-1'), 30);
+  assert.equal(overBudget.overBudget, true);
+  assert.equal(overBudget.remainingMinutes, -15);
+  assert.equal(tracked.describeTrackedTime(overBudget), 'Tracked 45m / 30m, 15m over estimate');
+
+  assert.equal(tracked.formatTrackedTime(tracked.summarizeTrackedTime(index.get('item-1'), null)), '45m');
+  assert.equal(tracked.formatTrackedTime(tracked.summarizeTrackedTime(undefined, 90)), '0m / 1h 30m');
+  assert.equal(tracked.summarizeTrackedTime(undefined, ''), null);
+});
+
+test('running sessions count up to the time the summary is read', () => {
+  const index = new Map();
+  const start = new Date(2026, 4, 6, 9, 0);
+  tracked.addTrackedSession(index, 'item-1', start, null);
+  const summary = tracked.summarizeTrackedTime(index.get('item-1'), 25, start.getTime() + 40 * 60_000);
+  assert.equal(summary.running, true);
+  assert.equal(summary.trackedMinutes, 40);
+  assert.equal(summary.overBudget, true);
+});
+
+test('the service totals stored sessions per target and refreshes after session frontmatter changes', () => {
+  const daily = new tracked.TFile('Daily/2026-05-06.md');
+  const project = new tracked.TFile('Projects/Report.md');
+  const frontmatter = new Map([
+    [daily.path, {
+      timeTracking: [
+        { id: 'tt-1', targetId: 'item-report', targetType: 'note', start: '2026-05-06T09:00:00', end: '2026-05-06T09:50:00' },
+        { id: 'tt-2', targetId: 'task-call', targetType: 'task', start: '2026-05-06T10:00:00', end: '2026-05-06T10:20:00' },
+      ],
+    }],
+    [project.path, { tpsId: 'item-report', timeEstimate: 45 }],
+  ]);
+  const listeners = {};
+  const plugin = {
+    settings: { enableTimeTracking: true, timeTrackingPropertyKey: 'timeTracking' },
+    app: {
+      vault: {
+        getMarkdownFiles: () => [daily, project],
+        on: (name, callback) => { listeners[`vault:${name}`] = callback; },
+      },
+      metadataCache: {
+        getFileCache: (file) => ({ frontmatter: frontmatter.get(file.path) }),
+        on: (name, callback) => { listeners[`metadata:${name}`] = callback; },
+      },
+      workspace: { onLayoutReady() {}, on() {} },
+      loadLocalStorage: () => null,
+      saveLocalStorage() {},
+    },
+    registerEvent() {},
+    registerInterval() {},
+    registerDomEvent() {},
+  };
+  globalThis.window = { setInterval: () => 1, setTimeout: () => 1 };
+  globalThis.document = {};
+  const service = new tracked.TimeTrackingService(plugin);
+  service.setup();
+
+  const note = service.getTrackedTimeForNote(project);
+  assert.equal(tracked.formatTrackedTime(note), '50m / 45m');
+  assert.equal(note.overBudget, true);
+  const line = service.getTrackedTimeForLine('- [ ] Call the client [tpsId:: task-call] [timeEstimate:: 30]');
+  assert.equal(tracked.formatTrackedTime(line), '20m / 30m');
+
+  frontmatter.get(daily.path).timeTracking.push(
+    { id: 'tt-3', targetId: 'task-call', targetType: 'task', start: '2026-05-06T11:00:00', end: '2026-05-06T11:20:00' },
+  );
+  assert.equal(service.getTrackedTimeForLine('- [ ] Call [tpsId:: task-call] [timeEstimate:: 30]').trackedMinutes, 20, 'index is cached');
+  listeners['metadata:changed'](daily);
+  assert.equal(service.getTrackedTimeForLine('- [ ] Call [tpsId:: task-call] [timeEstimate:: 30]').trackedMinutes, 40);
+});
@@ -0,0 +1,187 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadModule(entry) {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL(entry, import.meta.url))],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian-stub', namespace: 'obsidian-stub' }));
+        builder.onLoad({ filter: /.*/u, namespace: 'obsidian-stub' }, () => ({
+          contents: `
+            export class TFile {
+              constructor(path) {
+                this.path = path;
+                this.extension = path.split('.').pop();
+                this.basename = path.split('/').pop().replace(/\\.[^.]+$/, '');
+              }
+              static [Symbol.hasInstance](value) {
+                return Boolean(value && typeof value.path === 'string' && typeof value.extension === 'string');
+              }
+            }
+            export class Notice {
+              constructor(message) {
+                globalThis.__uriNotices = [...(globalThis.__uriNotices || []), message];
+              }
+            }
+            export function normalizePath(path) { return String(path || '').replace(/\\\\/g, '/'); }
+          `,
+          loader: 'js',
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const core = await loadModule('../src/services/uri-action-core.ts');
+const { UriActionService } = await loadModule('../src/services/uri-action-service.ts');
+
+function validate(type, params) {
+  return core.validateUriActionParams(type, { action: core.URI_ACTION_NAMES[type], vault: 'Vault', ...params });
+}
+
+test('each action accepts only its own parameters', () => {
+  assert.deepEqual(validate('capture', { text: ' Call Sam\r\nabout the quote ', task: 'true', date: '2026-10-19' }), {
+    ok: true,
+    value: { type: 'capture', text: 'Call Sam\nabout the quote', task: true, date: '2026-10-19' },
+  });
+  assert.deepEqual(validate('create-task', {
+    title: 'Renew passport', id: 'abc123', status: 'todo', tags: '#errand, admin', 'field.due': '2026-11-01',
+  }).value, {
+    type: 'create-task',
+    title: 'Renew passport',
+    note: { id: 'abc123' },
+    status: 'todo',
+    fields: { due: '2026-11-01' },
+    tags: ['errand', 'admin'],
+    template: '',
+  });
+  assert.deepEqual(validate('timer', { command: 'Start', path: '/Projects/Site' }).value, {
+    type: 'timer', command: 'start', note: { path: 'Projects/Site' },
+  });
+  assert.deepEqual(validate('open-home', { date: 'today' }).value, { type: 'open-home', date: null });
+  assert.deepEqual(validate('set-property', { path: 'Inbox.md', key: 'priority', value: '' }).value, {
+    type: 'set-property', note: { path: 'Inbox.md' }, key: 'priority', value: '',
+  });
+
+  const reasons = [
+    validate('capture', { text: 'x', key: 'status' }),
+    validate('capture', { text: '   ' }),
+    validate('capture', { text: 'x', task: 'yes' }),
+    validate('open-home', { date: '2026-02-30' }),
+    validate('create-task', { title: 'x', path: 'A.md', id: 'abc' }),
+    validate('create-task', { title: 'x', 'field.bad key': 'y' }),
+    validate('create-task', { title: 'x', 'field.tpsId': 'y' }),
+    validate('create-task', { title: 'x', 'field.ExternalEventId': 'y' }),
+    validate('timer', { command: 'stop', path: 'A.md' }),
+    validate('timer', { command: 'restart' }),
+    validate('set-property', { path: '../Secrets.md', key: 'a', value: 'b' }),
+    validate('set-property', { path: 'A.md', key: 'tpsId', value: 'b' }),
+    validate('set-property', { id: 'abc', key: 'a' }),
+    validate('set-property', { id: 'abc', key: 'a', value: 'b\u0000' }),
+  ].map((result) => result.reason);
+  assert.deepEqual(reasons, [
+    'invalid-keys', 'invalid-text', 'invalid-task', 'invalid-date', 'invalid-note', 'invalid-field',
+    'protected-key', 'protected-key', 'invalid-note', 'invalid-command', 'invalid-note', 'protected-key', 'invalid-value', 'invalid-value',
+  ]);
+  assert.equal(core.getUriActionType('tps-gcm-edit-base-line'), null);
+});
+
+function createHarness({ enabled = true } = {}) {
+  const calls = [];
+  const files = {
+    'Inbox.md': { path: 'Inbox.md', extension: 'md', basename: 'Inbox' },
+    'Projects/Site.md': { path: 'Projects/Site.md', extension: 'md', basename: 'Site' },
+  };
+  const plugin = {
+    settings: { enableUriActions: enabled },
+    registerObsidianProtocolHandler: (action) => calls.push(['register', action]),
+    app: {
+      vault: {
+        getName: () => 'Vault',
+        getAbstractFileByPath: (path) => files[path] ?? null,
+      },
+    },
+    vaultQueryService: {
+      query: () => [
+        { file: files['Inbox.md'], frontmatter: {} },
+        { file: files['Projects/Site.md'], frontmatter: { tpsId: 'site-1' } },
+      ],
+    },
+    identityService: { getInternalId: (frontmatter) => frontmatter.tpsId ?? null },
+    homeCaptureService: {
+      capture: async (text, date, options) => {
+        calls.push(['capture', text, date.format(), options]);
+        return files['Inbox.md'];
+      },
+    },
+    taskApiService: {
+      create: async (input) => {
+        calls.push(['create', input.title, input.targetFile?.path ?? null, input.fields, input.tags]);
+        return { ok: true };
+      },
+    },
+    timeTrackingService: {
+      startTimer: async (input) => { calls.push(['start', input?.file?.path ?? null]); return {}; },
+      stopActiveTimer: async () => { calls.push(['stop']); return null; },
+      pauseActiveTimer: async () => { calls.push(['pause']); return {}; },
+      resumePausedTimer: async () => { calls.push(['resume']); return {}; },
+    },
+    openHomeView: async () => calls.push(['home', null]),
+    openHomeViewOnDate: async (date) => calls.push(['home', date]),
+    bulkEditService: {
+      updateFrontmatter: async (targets, updates) => {
+        calls.push(['set', targets.map((file) => file.path), updates]);
+        return targets.length;
+      },
+    },
+  };
+  return { plugin, calls, service: new UriActionService(plugin) };
+}
+
+test('URI actions route to capture, tasks, timers, Home and properties', async () => {
+  globalThis.window = { moment: (value) => ({ format: () => value ?? 'now' }) };
+  const { service, calls } = createHarness();
+  service.register();
+  assert.equal(calls.filter(([kind]) => kind === 'register').length, 5);
+  calls.length = 0;
+  globalThis.__uriNotices = [];
+
+  const send = (action, params) => service.handleProtocolData({ action, vault: 'Vault', ...params });
+  assert.equal(await send('tps-gcm-capture', { text: 'Idea', date: '2026-10-19' }), true);
+  assert.equal(await send('tps-gcm-create-task', { title: 'Fix footer', id: 'site-1', 'field.due': '2026-10-20' }), true);
+  assert.equal(await send('tps-gcm-timer', { command: 'pause' }), true);
+  assert.equal(await send('tps-gcm-open-home', { date: '2026-10-21' }), true);
+  assert.equal(await send('tps-gcm-set-property', { path: 'Inbox', key: 'flagged', value: 'true' }), true);
+  assert.equal(await send('tps-gcm-set-property', { id: 'missing', key: 'flagged', value: 'true' }), false);
+
+  assert.deepEqual(calls, [
+    ['capture', 'Idea', '2026-10-19', { task: false }],
+    ['create', 'Fix footer', 'Projects/Site.md', { due: '2026-10-20' }, []],
+    ['pause'],
+    ['home', '2026-10-21'],
+    ['set', ['Inbox.md'], { flagged: true }],
+  ]);
+  assert.match(globalThis.__uriNotices.at(-1), /No note matches tpsId missing/u);
+});
+
+test('URI actions do nothing while disabled, for another vault or with bad parameters', async () => {
+  const { service, calls } = createHarness({ enabled: false });
+  assert.equal(await service.handleProtocolData({ action: 'tps-gcm-capture', vault: 'Vault', text: 'x' }), false);
+
+  const enabled = createHarness();
+  assert.equal(await enabled.service.handleProtocolData({ action: 'tps-gcm-capture', vault: 'Other', text: 'x' }), false);
+  assert.equal(await enabled.service.handleProtocolData({ action: 'tps-gcm-capture', vault: 'Vault', text: 'x', path: 'A.md' }), false);
+  assert.equal(await enabled.service.handleProtocolData({ action: 'tps-gcm-delete', vault: 'Vault' }), false);
+  assert.deepEqual([...calls, ...enabled.calls], []);
+});
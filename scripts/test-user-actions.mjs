@@ -0,0 +1,205 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadUserActionModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/user-action-core.ts';
+        export { UserActionService } from '../src/services/user-action-service.ts';
+        export { CommandQueueService } from '../src/core/command-queue-service.ts';
+        export { TFile, notices } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'user-action-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'user-action-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'user-action-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export const notices = [];
+            export class TFile {
+              constructor(path = '') {
+                this.path = path;
+                this.name = path.split('/').pop() || '';
+                this.extension = 'md';
+                this.basename = this.name.replace(/\\.md$/u, '');
+              }
+            }
+            export class TFolder {}
+            export class Notice {
+              constructor(message) { notices.push(message); }
+            }
+            export class Modal {}
+            export class Setting {}
+            export class App {}
+            export class MenuItem {}
+            export class WorkspaceLeaf {}
+            export const parseYaml = () => ({});
+            export const stringifyYaml = () => '';
+            export const normalizePath = (value) => String(value).replace(/\\\\/g, '/').replace(/\\/+/g, '/').replace(/^\\/|\\/$/g, '') || '/';
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const actions = await loadUserActionModule();
+
+function userAction(overrides = {}) {
+  return {
+    id: 'review',
+    label: 'Send to review',
+    appliesToNotes: true,
+    appliesToTaskLines: true,
+    appliesToMultiple: true,
+    steps: [{ type: 'add-tag', tag: 'review' }],
+    ...overrides,
+  };
+}
+
+function createPlugin(userActions, frontmatter = {}) {
+  const calls = [];
+  const plugin = {
+    manifest: { id: 'tps-global-context-menu' },
+    settings: { userActions },
+    commandQueueService: new actions.CommandQueueService(),
+    app: {
+      metadataCache: { getFileCache: (file) => ({ frontmatter: frontmatter[file.path] ?? {} }) },
+      commands: { executeCommandById: (id) => { calls.push(['command', id]); return id !== 'missing'; } },
+      vault: { getAbstractFileByPath: () => null, createFolder: async (path) => { calls.push(['folder', path]); } },
+      fileManager: { renameFile: async (file, path) => { calls.push(['rename', file.path, path]); file.path = path; } },
+    },
+    bulkEditService: {
+      updateFrontmatter: async (files, updates) => { calls.push(['frontmatter', files.map((file) => file.path), updates]); return files.length; },
+      addTag: async (files, tag) => { calls.push(['add-tag', files.map((file) => file.path), tag]); return files.length; },
+      removeTag: async (files, tag) => { calls.push(['remove-tag', files.map((file) => file.path), tag]); return files.length; },
+    },
+    taskApiService: {
+      update: async (ref, input, cause) => {
+        calls.push(['task', ref.path, ref.lineNumber, ref.rawLine, input, cause.surface]);
+        const rawLine = input.addTags ? `${ref.rawLine} #${input.addTags[0]}` : ref.rawLine;
+        return { ok: true, changed: true, task: { rawLine, lineNumber: ref.lineNumber } };
+      },
+    },
+    timeTrackingService: { startTimer: async (input) => { calls.push(['timer', input.file.path, input.type, input.lineNumber]); } },
+    runQueuedMove: async (files, performMove) => { await performMove(); return true; },
+  };
+  return { plugin, calls };
+}
+
+test('step text round-trips and reports lines it cannot read', () => {
+  const text = 'set status=done\nadd-tag #review\nremove-tag inbox\nmove Archive/2026/\nchild Follow-up | Templates/Follow-up.md\ncommand daily-notes\ntimer';
+  const { steps, invalidLines } = actions.parseUserActionSteps(`${text}\nfly away\nset =x`);
+  assert.deepEqual(invalidLines, ['fly away', 'set =x']);
+  assert.deepEqual(steps[1], { type: 'add-tag', tag: 'review' });
+  assert.deepEqual(steps[4], { type: 'create-child', title: 'Follow-up', template: 'Templates/Follow-up.md' });
+  assert.equal(actions.serializeUserActionSteps(steps), text.replace('#review', 'review').replace('2026/', '2026'));
+});
+
+test('normalization keeps ids unique and drops malformed steps', () => {
+  const normalized = actions.normalizeUserActions([
+    { id: 'a', label: ' One ', steps: [{ type: 'set-property', key: '' }, { type: 'start-timer' }] },
+    { id: 'a', scopeTags: ['#x', ''], steps: 'nope' },
+    null,
+  ]);
+  assert.deepEqual(normalized.map((action) => [action.id, action.label, action.steps.length]), [['a', 'One', 1], ['a-copy', 'Untitled action', 0]]);
+  assert.equal(normalized[0].appliesToNotes, true);
+  assert.equal(normalized[0].appliesToTaskLines, false);
+  assert.deepEqual(normalized[1].scopeTags, ['#x']);
+});
+
+test('actions are offered only where their target kind, selection size and scope match', () => {
+  const list = [
+    userAction({ id: 'scoped', scopeTags: ['project'], excludePaths: ['Archive'] }),
+    userAction({ id: 'single', appliesToMultiple: false }),
+    userAction({ id: 'notes-only', appliesToTaskLines: false }),
+    userAction({ id: 'move', steps: [{ type: 'move-to-folder', folder: 'Done' }] }),
+    userAction({ id: 'off', disabled: true }),
+  ];
+  const project = { file: { path: 'Projects/A.md' }, frontmatter: { tags: ['project'] } };
+  const archived = { file: { path: 'Archive/B.md' }, frontmatter: { tags: ['project'] } };
+  const ids = (kind, entries) => actions.selectUserActions(list, kind, entries).map((action) => action.id);
+  assert.deepEqual(ids('note', [project]), ['scoped', 'single', 'notes-only', 'move']);
+  assert.deepEqual(ids('note', [project, archived]), ['notes-only', 'move']);
+  assert.deepEqual(ids('task', [{ file: { path: 'Daily.md' }, frontmatter: { tags: ['project'] } }]), ['scoped', 'single']);
+  assert.deepEqual(ids('note', []), []);
+});
+
+test('note runs apply each step to every note before the next step', async () => {
+  const action = userAction({
+    steps: [
+      { type: 'set-property', key: 'reviewed', value: 'true' },
+      { type: 'add-tag', tag: 'review' },
+      { type: 'move-to-folder', folder: 'Review' },
+      { type: 'run-command', commandId: 'daily-notes' },
+    ],
+  });
+  const { plugin, calls } = createPlugin([action]);
+  const service = new actions.UserActionService(plugin);
+  const files = [new actions.TFile('A.md'), new actions.TFile('Inbox/B.md')];
+  assert.equal(await service.runForNotes(action, files), true);
+  assert.deepEqual(calls, [
+    ['frontmatter', ['A.md', 'Inbox/B.md'], { reviewed: true }],
+    ['add-tag', ['A.md', 'Inbox/B.md'], 'review'],
+    ['folder', 'Review'],
+    ['rename', 'A.md', 'Review/A.md'],
+    ['rename', 'Inbox/B.md', 'Review/B.md'],
+    ['command', 'daily-notes'],
+  ]);
+});
+
+test('task runs follow the rewritten line and skip note-only steps', async () => {
+  const action = userAction({
+    steps: [
+      { type: 'add-tag', tag: 'review' },
+      { type: 'move-to-folder', folder: 'Review' },
+      { type: 'set-property', key: 'status', value: 'doing' },
+      { type: 'start-timer' },
+    ],
+  });
+  const { plugin, calls } = createPlugin([action]);
+  const service = new actions.UserActionService(plugin);
+  const file = new actions.TFile('Daily.md');
+  assert.equal(await service.runForTasks(action, [{ file, lineIndex: 3, rawLine: '- [ ] Draft' }]), true);
+  assert.deepEqual(calls, [
+    ['task', 'Daily.md', 3, '- [ ] Draft', { addTags: ['review'] }, 'user-action'],
+    ['task', 'Daily.md', 3, '- [ ] Draft #review', { fields: { status: 'doing' } }, 'user-action'],
+    ['timer', 'Daily.md', 'task', 3],
+  ]);
+});
+
+test('runs are serialized through the command queue and failures stop the action', async () => {
+  const order = [];
+  const queue = new actions.CommandQueueService();
+  let release;
+  const first = queue.executeUserAction('a', () => new Promise((resolve) => { release = resolve; }).then(() => order.push('a')));
+  const second = queue.executeUserAction('b', async () => order.push('b'));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assert.equal(queue.hasActiveOperation('user-action'), true);
+  assert.deepEqual(order, []);
+  release();
+  await Promise.all([first, second]);
+  assert.deepEqual(order, ['a', 'b']);
+  assert.equal(queue.hasActiveOperation('user-action'), false);
+
+  const action = userAction({ steps: [{ type: 'run-command', commandId: 'missing' }, { type: 'add-tag', tag: 'never' }] });
+  const { plugin, calls } = createPlugin([action]);
+  assert.equal(await new actions.UserActionService(plugin).runForNotes(action, [new actions.TFile('A.md')]), false);
+  assert.deepEqual(calls, [['command', 'missing']]);
+  assert.match(actions.notices.at(-1), /Send to review failed: Command "missing" is not available\./);
+});
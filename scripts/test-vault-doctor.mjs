@@ -0,0 +1,231 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+async function loadVaultDoctorModule() {
+  const result = await build({
+    stdin: {
+      contents: `
+        export * from '../src/services/vault-doctor-core.ts';
+        export { VaultDoctorService } from '../src/services/vault-doctor-service.ts';
+        export { IdentityConflictService } from '../src/services/identity-conflict-service.ts';
+        export { TFile } from 'obsidian';
+      `,
+      resolveDir: fileURLToPath(new URL('.', import.meta.url)),
+      sourcefile: 'vault-doctor-harness.ts',
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'esm',
+    logLevel: 'silent',
+    plugins: [{
+      name: 'obsidian-stub',
+      setup(builder) {
+        builder.onResolve({ filter: /^obsidian$/u }, () => ({ path: 'obsidian', namespace: 'vault-doctor-test' }));
+        builder.onLoad({ filter: /.*/, namespace: 'vault-doctor-test' }, () => ({
+          loader: 'js',
+          contents: `
+            export class TFile {
+              constructor(path = '', ctime = 0) {
+                this.path = path;
+                this.name = path.split('/').pop() || '';
+                this.extension = this.name.includes('.') ? this.name.split('.').pop() : '';
+                this.basename = this.extension ? this.name.slice(0, -(this.extension.length + 1)) : this.name;
+                this.stat = { ctime };
+              }
+            }
+            export class Notice {}
+            export const normalizePath = (value) => String(value).replace(/\\\\/g, '/').replace(/\\/+/g, '/').replace(/^\\/|\\/$/g, '');
+          `,
+        }));
+      },
+    }],
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+}
+
+const doctor = await loadVaultDoctorModule();
+
+function createVault(entries) {
+  const files = new Map();
+  const contents = new Map();
+  const frontmatter = new Map();
+  const folders = [];
+  for (const entry of entries) {
+    files.set(entry.path, new doctor.TFile(entry.path, entry.ctime ?? 0));
+    contents.set(entry.path, entry.content ?? '');
+    frontmatter.set(entry.path, entry.frontmatter ?? null);
+  }
+  let minted = 0;
+  const plugin = {
+    manifest: { id: 'test' },
+    app: {
+      vault: {
+        getMarkdownFiles: () => Array.from(files.values()),
+        getAbstractFileByPath: (path) => files.get(path) ?? (folders.includes(path) ? { path } : null),
+        read: async (file) => contents.get(file.path),
+        cachedRead: async (file) => contents.get(file.path),
+        process: async (file, update) => { contents.set(file.path, update(contents.get(file.path))); },
+        createFolder: async (path) => { folders.push(path); },
+        create: async (path, content) => {
+          files.set(path, new doctor.TFile(path));
+          contents.set(path, content);
+          return files.get(path);
+        },
+      },
+      metadataCache: { getFileCache: (file) => ({ frontmatter: frontmatter.get(file.path) }) },
+    },
+    identityService: {
+      getInternalId: (fm) => (fm?.tpsId ? String(fm.tpsId) : null),
+      setInternalId: (fm, id) => { fm.tpsId = id; return id; },
+      createInternalId: () => `minted-${++minted}`,
+    },
+    frontmatterMutationService: { process: async (file, update) => update(frontmatter.get(file.path)) },
+    bulkEditService: { isMissingRecurrenceTemplate: async () => false },
+    parentLinkResolutionService: {
+      isIgnoredFile: () => false,
+      getRelationshipCandidates: () => [],
+      getUnresolvedParentValues: () => [],
+      getStoredParentsForChild: () => [],
+    },
+    bodySubitemLinkService: { scanText: () => [] },
+    eventService: { emitFilesUpdated: () => {} },
+  };
+  plugin.identityConflictService = new doctor.IdentityConflictService(plugin);
+  return { plugin, files, contents, frontmatter };
+}
+
+test('the oldest file keeps a shared id and every other occurrence is a copy', () => {
+  const copies = doctor.findDuplicateIdCopies([
+    { id: 'a', path: 'Copy.md', createdAt: 20 },
+    { id: 'a', path: 'Original.md', createdAt: 10 },
+    { id: 'b', path: 'Tasks.md', line: 7, createdAt: 5 },
+    { id: 'b', path: 'Tasks.md', line: 2, createdAt: 5 },
+    { id: 'c', path: 'Alone.md', createdAt: 1 },
+  ]);
+  assert.deepEqual(copies.map(({ original, copy }) => [original.path, original.line, copy.path, copy.line]), [
+    ['Original.md', undefined, 'Copy.md', undefined],
+    ['Tasks.md', 2, 'Tasks.md', 7],
+  ]);
+});
+
+test('the report groups fix outcomes by category with one-based lines', () => {
+  const issue = (input) => doctor.createVaultDoctorIssue(input);
+  const report = doctor.formatVaultDoctorReport([
+    { issue: issue({ category: 'broken-parent-link', path: 'Child.md', summary: 'Parent "Gone" does not resolve to a file' }), ok: true },
+    { issue: issue({ category: 'duplicate-id', path: 'Tasks.md', line: 3, target: 'x', summary: 'Task id x is also used by Inbox.md' }), ok: false, detail: 'The task id changed since the scan.' },
+  ], new Date(2026, 9, 19, 8, 5));
+  assert.equal(report, [
+    'Vault doctor report: 2026-10-19 08:05',
+    '',
+    'Fixed 1 of 2 selected issues.',
+    '',
+    'Fixes are applied together, so one failure undoes the others; the detail of each failed issue says why.',
+    '',
+    '## Duplicate tpsIds',
+    '',
+    '- Failed: [[Tasks.md]] line 4: Task id x is also used by Inbox.md (The task id changed since the scan.)',
+    '',
+    '## Broken parent links',
+    '',
+    '- Fixed: [[Child.md]]: Parent "Gone" does not resolve to a file',
+    '',
+  ].join('\n'));
+});
+
+test('a scan reports duplicated note and task ids without writing', async () => {
+  const { plugin, contents } = createVault([
+    { path: 'Original.md', ctime: 1, frontmatter: { tpsId: 'note-1' }, content: '- [ ] Call [tpsId:: task-1]' },
+    { path: 'Copy.md', ctime: 2, frontmatter: { tpsId: 'note-1' }, content: 'Intro\n- [ ] Call [tpsId:: task-1]' },
+  ]);
+  const service = new doctor.VaultDoctorService(plugin);
+  const scan = await service.scan();
+  assert.equal(scan.scannedFiles, 2);
+  assert.deepEqual(scan.issues.map((issue) => [issue.category, issue.path, issue.line, issue.target]), [
+    ['duplicate-id', 'Copy.md', undefined, 'note-1'],
+    ['duplicate-id', 'Copy.md', 1, 'task-1'],
+  ]);
+  assert.equal(contents.get('Copy.md'), 'Intro\n- [ ] Call [tpsId:: task-1]');
+});
+
+test('fixing selected issues re-mints only those copies and writes a report note', async () => {
+  const { plugin, contents, frontmatter } = createVault([
+    { path: 'Original.md', ctime: 1, frontmatter: { tpsId: 'note-1' }, content: '- [ ] Call [tpsId:: task-1]' },
+    { path: 'Copy.md', ctime: 2, frontmatter: { tpsId: 'note-1' }, content: 'Intro\n- [ ] Call [tpsId:: task-1]' },
+  ]);
+  const service = new doctor.VaultDoctorService(plugin);
+  const { issues } = await service.scan();
+  const lineCopy = issues.find((issue) => issue.line === 1);
+  const result = await service.fix([lineCopy], new Date(2026, 9, 19, 8, 5));
+
+  assert.deepEqual(result.outcomes.map((outcome) => [outcome.ok, outcome.detail]), [[true, 'new id minted-1']]);
+  assert.equal(contents.get('Copy.md'), 'Intro\n- [ ] Call [tpsId:: minted-1]');
+  assert.equal(contents.get('Original.md'), '- [ ] Call [tpsId:: task-1]');
+  assert.equal(frontmatter.get('Copy.md').tpsId, 'note-1');
+  assert.deepEqual(plugin.identityConflictService.getConflicts().map((conflict) => [conflict.copy, conflict.nextId]), [
+    [{ path: 'Copy.md', line: 1 }, 'minted-1'],
+  ]);
+  assert.equal(result.reportPath, 'Vault Doctor/Vault doctor report 2026-10-19 0805.md');
+  assert.match(contents.get(result.reportPath), /- Fixed: \[\[Copy\.md\]\] line 2: Task id task-1 is also used by Original\.md line 1 \(new id minted-1\)/);
+});
+
+test('a failing fix rolls back the fixes applied before it', async () => {
+  const { plugin, contents } = createVault([
+    { path: 'Original.md', ctime: 1, content: '- [ ] Call [tpsId:: task-1]' },
+    { path: 'Copy.md', ctime: 2, content: 'Intro\n- [ ] Call [tpsId:: task-1]' },
+    { path: 'Child.md', ctime: 3, frontmatter: { childOf: '[[Gone]]' } },
+  ]);
+  const retargeted = [];
+  plugin.timeTrackingService = {
+    retargetSessions: async (fromId, path, toId) => { retargeted.push([fromId, path, toId]); return 0; },
+  };
+  const child = plugin.app.vault.getAbstractFileByPath('Child.md');
+  Object.assign(plugin.parentLinkResolutionService, {
+    getRelationshipCandidates: () => [child],
+    getUnresolvedParentValues: () => ['[[Gone]]'],
+    removeUnresolvedParentValues: async () => { throw new Error('Child.md is locked.'); },
+  });
+  const service = new doctor.VaultDoctorService(plugin);
+  const { issues } = await service.scan();
+  const result = await service.fix(issues, new Date(2026, 9, 19, 8, 5));
+
+  assert.deepEqual(result.outcomes.map((outcome) => [outcome.issue.category, outcome.ok, outcome.detail]), [
+    ['duplicate-id', false, 'rolled back'],
+    ['broken-parent-link', false, 'Child.md is locked.'],
+  ]);
+  assert.equal(contents.get('Copy.md'), 'Intro\n- [ ] Call [tpsId:: task-1]');
+  assert.deepEqual(retargeted, [['task-1', 'Copy.md', 'minted-1'], ['minted-1', 'Copy.md', 'task-1']]);
+  assert.deepEqual(plugin.identityConflictService.getConflicts(), []);
+  assert.match(contents.get(result.reportPath), /one failure undoes the others/);
+});
+
+test('only the selected stale companions are reconciled', async () => {
+  const { plugin, files } = createVault([
+    { path: 'Properties/Photo.md' },
+    { path: 'Properties/Scan.md' },
+  ]);
+  const reconciled = [];
+  plugin.filePropertiesService = {
+    isCompanionFile: () => false,
+    findStaleCompanions: () => ['Photo', 'Scan'].map((name) => ({
+      companion: files.get(`Properties/${name}.md`),
+      sourcePath: `Media/${name}.jpg`,
+      reason: 'companion is not at its expected path',
+    })),
+    reconcileCompanions: async (paths) => {
+      reconciled.push(paths);
+      return { collisions: [] };
+    },
+  };
+  const service = new doctor.VaultDoctorService(plugin);
+  const { issues } = await service.scan();
+  const photo = issues.find((issue) => issue.path === 'Properties/Photo.md');
+  const result = await service.fix([photo]);
+
+  assert.deepEqual(result.outcomes.map((outcome) => outcome.ok), [true]);
+  assert.deepEqual(reconciled, [['Properties/Photo.md']]);
+});
@@ -228,6 +228,16 @@ export const BASE_QUERY_GUIDE_SECTIONS: BaseQueryGuideSection[] = [
         appliesTo: 'TPS List task + bullet rows; TPS Table task rows',
         description: 'Task-row aliases combine raw #tags with [tag:: …] and [tags:: …]. Prefixes and a leading # are optional; matching uses exact tag membership. Use file.tags for the containing note.',
       },
+      {
+        expression: 'task.trackedMinutes / task.remainingEstimate',
+        appliesTo: 'TPS List checkbox tasks; TPS Table task rows',
+        description: 'Minutes tracked by the timer against this task, and its timeEstimate minus those minutes (negative once over budget, null without an estimate). Useful as a formula sort key.',
+      },
+      {
+        expression: 'file.trackedMinutes / file.remainingEstimate',
+        appliesTo: 'TPS List + TPS Table rows',
+        description: 'The same values for the containing note, from sessions targeting its tpsId and its timeEstimate property.',
+      },
       {
         expression: 'task.file.ext / task.file.extension',
         appliesTo: 'TPS List synthesized rows',
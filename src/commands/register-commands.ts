@@ -1,6 +1,11 @@
 import { MarkdownView, Notice, TFile } from 'obsidian';
 import type TPSGlobalContextMenuPlugin from '../main';
 import { promptFilePropertiesRelink } from '../modals/file-properties-relink-modal';
+import { FileSuggestModal } from '../modals/FileSuggestModal';
+import { RuleDryRunModal } from '../modals/rule-dry-run-modal';
+import { TimeReportModal } from '../modals/time-report-modal';
+import { VaultDoctorModal } from '../modals/vault-doctor-modal';
+import { ICS_EXPORT_TASK_LIMIT } from '../services/ics-export-service';
 
 /**
  * Registers all plugin commands on the given plugin instance.
@@ -15,6 +20,14 @@ export function registerGcmCommands(plugin: TPSGlobalContextMenuPlugin): void {
         },
     });
 
+    plugin.addCommand({
+        id: 'open-relationship-graph',
+        name: 'Open relationship graph',
+        callback: async () => {
+            await plugin.openRelationshipGraphView();
+        },
+    });
+
     plugin.addCommand({
         id: 'home-quick-capture',
         name: "Capture: Today's Daily Note",
@@ -163,6 +176,36 @@ export function registerGcmCommands(plugin: TPSGlobalContextMenuPlugin): void {
         },
     });
 
+    plugin.addCommand({
+        id: 'export-schedule-ics',
+        name: 'Calendar: Export scheduled notes and tasks to iCalendar file',
+        callback: async () => {
+            const result = await plugin.icsExportService.exportIcs();
+            new Notice(result.ok
+                ? `TPS GCM: Exported ${result.events} scheduled item(s) to ${result.path}.${result.taskLimitReached
+                    ? ` Only the first ${ICS_EXPORT_TASK_LIMIT} task lines were read, so some scheduled tasks may be missing.`
+                    : ''}`
+                : `TPS GCM: Could not export ${result.path}: ${result.error || 'unknown error'}`);
+        },
+    });
+
+    for (const target of ['note', 'task'] as const) {
+        plugin.addCommand({
+            id: target === 'note' ? 'import-ics-as-notes' : 'import-ics-as-tasks',
+            name: target === 'note'
+                ? 'Calendar: Import iCalendar file as notes'
+                : 'Calendar: Import iCalendar file as tasks in Daily Notes',
+            callback: () => {
+                new FileSuggestModal(plugin.app, async (file) => {
+                    const result = await plugin.icsImportService.importIcs(file, { as: target });
+                    new Notice(result.ok
+                        ? `TPS GCM: Imported ${file.name}: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged.`
+                        : `TPS GCM: Could not fully import ${file.name}: ${result.error || `${result.failed} event(s) failed`}`);
+                }, { extensions: ['ics'] }).open();
+            },
+        });
+    }
+
     plugin.addCommand({
         id: 'time-tracking-start-active-target',
         name: 'Time tracking: Start work session for current task or note',
@@ -192,6 +235,54 @@ export function registerGcmCommands(plugin: TPSGlobalContextMenuPlugin): void {
         },
     });
 
+    plugin.addCommand({
+        id: 'time-tracking-start-focus',
+        name: 'Time tracking: Start focus session for current task or note',
+        callback: async () => {
+            await plugin.timeTrackingFocusService.start();
+        },
+    });
+
+    plugin.addCommand({
+        id: 'time-tracking-skip-focus-phase',
+        name: 'Time tracking: Skip to next focus phase',
+        callback: async () => {
+            await plugin.timeTrackingFocusService.skip();
+        },
+    });
+
+    plugin.addCommand({
+        id: 'time-tracking-stop-focus',
+        name: 'Time tracking: Stop focus mode',
+        callback: async () => {
+            await plugin.timeTrackingFocusService.stop();
+        },
+    });
+
+    plugin.addCommand({
+        id: 'time-tracking-open-report',
+        name: 'Time tracking: Open time report',
+        callback: () => {
+            new TimeReportModal(plugin.app, plugin.timeReportService).open();
+        },
+    });
+
+    plugin.addCommand({
+        id: 'rules-dry-run',
+        name: 'Frontmatter rules: Dry run across the vault',
+        callback: () => {
+            new RuleDryRunModal(plugin.app, plugin.notebookNavigatorRuleService).open();
+        },
+    });
+
+    plugin.addCommand({
+        id: 'vault-doctor-open',
+        name: 'Vault doctor: Check vault health',
+        callback: () => {
+            new VaultDoctorModal(plugin.app, plugin.vaultDoctorService).open();
+        },
+    });
+
 }
 
 function getActiveMarkdownEditor(plugin: TPSGlobalContextMenuPlugin): MarkdownView | null {
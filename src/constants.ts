@@ -1,4 +1,4 @@
-import { DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS, TPSGlobalContextMenuSettings } from './types';
+import { DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS, PeriodicNoteKind, PeriodicNoteTypeSettings, TPSGlobalContextMenuSettings } from './types';
 import { MIGRATED_TASK_STATUS } from './constants/task-migration';
 import { DEFAULT_LINKED_SUBITEM_MAPPINGS } from './utils/linked-subitem-mapping';
 
@@ -24,9 +24,17 @@ views:
       - title
 `;
 
+export const DEFAULT_PERIODIC_NOTE_SETTINGS: Record<PeriodicNoteKind, PeriodicNoteTypeSettings> = {
+  weekly: { enabled: false, folder: 'System/Weeklynotes', format: 'GGGG-[W]WW', template: '', inheritUnscheduledTasks: true },
+  monthly: { enabled: false, folder: 'System/Monthlynotes', format: 'YYYY-MM', template: '', inheritUnscheduledTasks: true },
+  quarterly: { enabled: false, folder: 'System/Quarterlynotes', format: 'YYYY-[Q]Q', template: '', inheritUnscheduledTasks: true },
+  yearly: { enabled: false, folder: 'System/Yearlynotes', format: 'YYYY', template: '', inheritUnscheduledTasks: true },
+};
+
 export const DEFAULT_SETTINGS: TPSGlobalContextMenuSettings = {
   enableLogging: false,
   logOpenerDecisions: false,
+  enableUriActions: false,
   enableInlinePersistentMenus: false,
   enableInLivePreview: false,
   enableInPreview: false,
@@ -85,6 +93,8 @@ export const DEFAULT_SETTINGS: TPSGlobalContextMenuSettings = {
     { key: 'gcmBaseHover', placement: 'hover' },
   ],
   showCustomPropertiesInContextMenu: false,
+  userActions: [],
+  childNoteTemplates: [],
   inheritNotebookNavigatorTagColors: false,
   notebookNavigatorRules: DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS,
 
@@ -97,7 +107,13 @@ export const DEFAULT_SETTINGS: TPSGlobalContextMenuSettings = {
   timeTrackingDailyNotePlacement: 'top',
   timeTrackingSingleActiveSession: true,
   timeTrackingIgnoreArchivedFiles: true,
+  timeTrackingIdleThresholdMinutes: 15,
   timeTrackingPausedSession: null,
+  timeTrackingFocusWorkMinutes: 25,
+  timeTrackingFocusShortBreakMinutes: 5,
+  timeTrackingFocusLongBreakMinutes: 15,
+  timeTrackingFocusCycles: 4,
+  timeTrackingFocusState: null,
 
   // Recurrence settings
   enableRecurrence: true,
@@ -107,6 +123,8 @@ export const DEFAULT_SETTINGS: TPSGlobalContextMenuSettings = {
   recurrenceCompletionStatuses: ['complete', 'wont-do'],
   recurrenceDefaultStatus: 'todo', // Default status for new recurrence instances
   recurringTemplateFolder: 'Recurring Templates', // Folder to store recurring event templates
+  snoozeWakeStatus: '',
+  snoozeAnchors: ['standup=09:30'],
 
   // File naming settings
   enableAutoRename: true,
@@ -160,6 +178,7 @@ export const DEFAULT_SETTINGS: TPSGlobalContextMenuSettings = {
   archiveFolderPath: 'System/Archive',
   archiveUseDailyFolder: false,
   lastArchiveTagSweepDate: '',
+  lastRuleSweepDate: '',
 
   workspaceRibbonButtons: false,
   workspaceRibbonIcons: {},
@@ -177,6 +196,7 @@ export const DEFAULT_SETTINGS: TPSGlobalContextMenuSettings = {
   dailyNavShowToday: true,
   enableAutoPopulateDailyNotes: true,
   inheritUnscheduledTasksFromDailyNotes: true,
+  periodicNotes: DEFAULT_PERIODIC_NOTE_SETTINGS,
 
   // Overlay ignore rules
   ignoredBacklinksFrontmatterKeys: ['dateModified'],
@@ -7,6 +7,7 @@ export enum OperationType {
   DELETE_FILES = "delete-files",
   OPEN_IN_NEW_CONTEXT = "open-in-new-context",
   OPEN_ACTIVE_FILE = "open-active-file",
+  USER_ACTION = "user-action",
 }
 
 export interface CommandResult<T = unknown> {
@@ -41,11 +42,17 @@ interface DeleteFilesOperation extends BaseOperation {
   files: TFile[];
 }
 
+interface UserActionOperation extends BaseOperation {
+  type: OperationType.USER_ACTION;
+  actionId: string;
+}
+
 type Operation =
   | OpenActiveFileOperation
   | OpenInNewContextOperation
   | MoveFileOperation
-  | DeleteFilesOperation;
+  | DeleteFilesOperation
+  | UserActionOperation;
 
 type OperationListener = (type: OperationType, active: boolean) => void;
 
@@ -59,6 +66,9 @@ export class CommandQueueService {
   private openActiveFileQueue: Promise<void> = Promise.resolve();
   private latestOpenActiveFileOperationId: string | null = null;
 
+  // User actions run one at a time so a second click waits for the first batch.
+  private userActionQueue: Promise<void> = Promise.resolve();
+
   onOperationChange(listener: OperationListener): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
@@ -166,6 +176,32 @@ export class CommandQueueService {
     return task;
   }
 
+  async executeUserAction<T>(actionId: string, runAction: () => Promise<T>): Promise<CommandResult<T>> {
+    const operation: UserActionOperation = {
+      id: this.generateOperationId(),
+      type: OperationType.USER_ACTION,
+      actionId,
+    };
+
+    const run = async (): Promise<CommandResult<T>> => {
+      this.beginOperation(operation);
+      try {
+        return { success: true, data: await runAction() };
+      } catch (error) {
+        return { success: false, error: error as Error };
+      } finally {
+        this.endOperation(operation);
+      }
+    };
+
+    const task = this.userActionQueue.then(run, run);
+    this.userActionQueue = task.then(
+      () => undefined,
+      () => undefined,
+    );
+    return task;
+  }
+
   private generateOperationId(): string {
     this.counter += 1;
     return `op-${Date.now()}-${this.counter}`;
@@ -2,11 +2,23 @@ import { App, Component, MarkdownView, Modal, TFile, WorkspaceLeaf, setIcon, nor
 import TPSGlobalContextMenuPlugin from "../main";
 import * as logger from "../logger";
 import { isStrictSourceMode } from "../services/leaf-resolver";
+import type { PeriodicNoteKind } from "../types";
+import {
+    PERIODIC_NOTE_LABELS,
+    formatPeriodLabel,
+    getParentPeriodicNoteKind,
+    getPeriodAnchorDate,
+    getPeriodStart,
+    getPeriodicNotePath,
+    parsePeriodicNotePath,
+    shiftPeriod,
+} from "../utils/periodic-notes";
 
 type DailyNavTarget = {
     leaf: WorkspaceLeaf;
     isoDate: string;
-    kind: "daily-note" | "scheduled-note";
+    kind: "daily-note" | "scheduled-note" | "periodic-note";
+    period?: PeriodicNoteKind;
 };
 
 export class DailyNoteNavManager extends Component {
@@ -19,6 +31,7 @@ export class DailyNoteNavManager extends Component {
     private _currentLeaf: WorkspaceLeaf | null = null;
     private _currentIsoDate: string | null = null;
     private _currentKind: DailyNavTarget["kind"] | null = null;
+    private _currentPeriod: PeriodicNoteKind | null = null;
 
     constructor(plugin: TPSGlobalContextMenuPlugin) {
         super();
@@ -126,7 +139,8 @@ export class DailyNoteNavManager extends Component {
             this.currentNav?.isConnected &&
             this._currentLeaf === target.leaf &&
             this._currentIsoDate === target.isoDate &&
-            this._currentKind === target.kind
+            this._currentKind === target.kind &&
+            this._currentPeriod === (target.period ?? null)
         ) {
             return;
         }
@@ -135,8 +149,11 @@ export class DailyNoteNavManager extends Component {
         this._currentLeaf = target.leaf;
         this._currentIsoDate = target.isoDate;
         this._currentKind = target.kind;
+        this._currentPeriod = target.period ?? null;
         if (target.kind === "daily-note") {
             this.injectNav(target.leaf, target.isoDate);
+        } else if (target.kind === "periodic-note" && target.period) {
+            this.injectPeriodicNav(target.leaf, target.period, target.isoDate);
         } else {
             this.injectScheduledDailyNoteButton(target.leaf, target.isoDate);
         }
@@ -161,18 +178,19 @@ export class DailyNoteNavManager extends Component {
         this._currentLeaf = null;
         this._currentIsoDate = null;
         this._currentKind = null;
+        this._currentPeriod = null;
     }
 
     private getTargetLeaf(): DailyNavTarget | null {
         const activeLeaf = this.plugin.app.workspace.activeLeaf;
-        const activeTarget = this.getDailyNoteLeafInfo(activeLeaf);
+        const activeTarget = this.getDailyNoteLeafInfo(activeLeaf) ?? this.getPeriodicNoteLeafInfo(activeLeaf);
         if (activeTarget) return activeTarget;
 
         const scheduledTarget = this.getScheduledNoteLeafInfo(activeLeaf);
         if (scheduledTarget) return scheduledTarget;
 
         if (!this.isMobileLayout()) {
-            const currentTarget = this.getDailyNoteLeafInfo(this._currentLeaf);
+            const currentTarget = this.getDailyNoteLeafInfo(this._currentLeaf) ?? this.getPeriodicNoteLeafInfo(this._currentLeaf);
             if (currentTarget && this.isLeafVisible(currentTarget.leaf)) {
                 return currentTarget;
             }
@@ -202,6 +220,14 @@ export class DailyNoteNavManager extends Component {
         return { leaf, isoDate: date.format("YYYY-MM-DD"), kind: "daily-note" };
     }
 
+    private getPeriodicNoteLeafInfo(leaf: WorkspaceLeaf | null | undefined): DailyNavTarget | null {
+        if (!leaf?.view || leaf.getViewState().type !== "markdown") return null;
+        const file = (leaf.view as any).file;
+        if (!(file instanceof TFile)) return null;
+        const match = parsePeriodicNotePath(this.plugin.settings.periodicNotes, file.path);
+        return match ? { leaf, isoDate: match.start, kind: "periodic-note", period: match.kind } : null;
+    }
+
     private getScheduledNoteLeafInfo(leaf: WorkspaceLeaf | null | undefined): DailyNavTarget | null {
         if (!leaf?.view || leaf.getViewState().type !== "markdown") return null;
         const file = (leaf.view as any).file;
@@ -290,22 +316,7 @@ export class DailyNoteNavManager extends Component {
         const nav = document.createElement("div");
         nav.className = "tps-daily-note-nav";
         this.hardenNavControl(nav);
-        if (mobilePlacement) {
-            nav.addClass("tps-daily-note-nav--mobile-bottom");
-            mobilePlacement.host.addClass("tps-daily-note-nav-mobile-host");
-            mobilePlacement.host.insertBefore(nav, mobilePlacement.before);
-        } else if (headerHost) {
-            nav.addClass("tps-daily-note-nav--header");
-            headerHost.addClass("tps-daily-note-nav-header-host");
-            headerHost.appendChild(nav);
-        } else if (titleAnchor) {
-            nav.addClass("tps-daily-note-nav--under-title");
-            host.addClass("tps-daily-note-nav-anchor");
-            titleAnchor.insertAdjacentElement("beforebegin", nav);
-        } else {
-            nav.addClass("tps-daily-note-nav--floating");
-            host.appendChild(nav);
-        }
+        this.placeNav(nav, host, mobilePlacement, headerHost, titleAnchor);
         this.currentNav = nav;
 
         // Mark as always-interactive when rest opacity > 0
@@ -377,6 +388,118 @@ export class DailyNoteNavManager extends Component {
             this.suppressNavEvent(e);
             this.goToDate(isoDateStr, 1, leaf);
         });
+
+        this.addPeriodUpButton(controls, "daily", isoDateStr, leaf);
+    }
+
+    /** Prev / current / next / up controls for a weekly, monthly, quarterly or yearly note. */
+    private injectPeriodicNav(leaf: WorkspaceLeaf, kind: PeriodicNoteKind, start: string): void {
+        const view = leaf.view as any;
+        const container = view?.contentEl as HTMLElement | undefined;
+        if (!container) return;
+
+        this._navAbortController = new AbortController();
+
+        const mobilePlacement = this.resolveMobileBottomNavPlacement(leaf);
+        const headerHost = mobilePlacement ? null : this.resolveHeaderNavHost(leaf);
+        const titleAnchor = this.resolveTitleAnchor(leaf);
+        const host = mobilePlacement?.host ?? headerHost ?? container;
+        this.currentHost = host;
+
+        const nav = document.createElement("div");
+        nav.className = "tps-daily-note-nav tps-periodic-note-nav";
+        this.hardenNavControl(nav);
+        this.placeNav(nav, host, mobilePlacement, headerHost, titleAnchor);
+        this.currentNav = nav;
+        if ((this.plugin.settings.dailyNavRestOpacity ?? 0) > 0) {
+            nav.dataset.restVisible = "true";
+        }
+
+        const { noun } = PERIODIC_NOTE_LABELS[kind];
+        const controls = nav.createDiv({ cls: "tps-daily-nav-controls" });
+        this.hardenNavControl(controls);
+
+        const prevBtn = controls.createEl("button", { cls: "tps-daily-nav-btn" });
+        prevBtn.type = "button";
+        prevBtn.setAttribute("aria-label", `Previous ${noun}`);
+        setIcon(prevBtn, "chevron-left");
+        this.hardenNavControl(prevBtn);
+        this.attachTapNavigation(prevBtn, (e) => {
+            this.suppressNavEvent(e);
+            void this.goToPeriod(kind, shiftPeriod(kind, start, -1), leaf);
+        });
+
+        const currentStart = getPeriodStart(kind, (window as any).moment().format("YYYY-MM-DD"));
+        const isCurrent = currentStart === start;
+        const currentBtn = controls.createEl("button", {
+            cls: "tps-daily-nav-today",
+            text: formatPeriodLabel(kind, start),
+        });
+        currentBtn.type = "button";
+        currentBtn.toggleClass("is-active", isCurrent);
+        currentBtn.setAttribute("aria-label", `Open this ${noun}`);
+        this.hardenNavControl(currentBtn);
+        this.attachTapNavigation(currentBtn, (e) => {
+            this.suppressNavEvent(e);
+            void this.goToPeriod(kind, currentStart, leaf);
+        });
+
+        const nextBtn = controls.createEl("button", { cls: "tps-daily-nav-btn" });
+        nextBtn.type = "button";
+        nextBtn.setAttribute("aria-label", `Next ${noun}`);
+        setIcon(nextBtn, "chevron-right");
+        this.hardenNavControl(nextBtn);
+        this.attachTapNavigation(nextBtn, (e) => {
+            this.suppressNavEvent(e);
+            void this.goToPeriod(kind, shiftPeriod(kind, start, 1), leaf);
+        });
+
+        this.addPeriodUpButton(controls, kind, getPeriodAnchorDate(kind, start), leaf);
+    }
+
+    /** Adds a button to the next enabled larger period (day → week → month …), if any. */
+    private addPeriodUpButton(
+        controls: HTMLElement,
+        from: PeriodicNoteKind | "daily",
+        anchorDate: string,
+        leaf: WorkspaceLeaf,
+    ): void {
+        const parent = getParentPeriodicNoteKind(this.plugin.settings.periodicNotes, from);
+        if (!parent) return;
+        const upBtn = controls.createEl("button", { cls: "tps-daily-nav-btn tps-daily-nav-up" });
+        upBtn.type = "button";
+        upBtn.setAttribute("aria-label", `Open ${formatPeriodLabel(parent, anchorDate)}`);
+        setIcon(upBtn, "chevron-up");
+        this.hardenNavControl(upBtn);
+        this.attachTapNavigation(upBtn, (e) => {
+            this.suppressNavEvent(e);
+            void this.goToPeriod(parent, anchorDate, leaf);
+        });
+    }
+
+    private placeNav(
+        nav: HTMLElement,
+        host: HTMLElement,
+        mobilePlacement: { host: HTMLElement; before: ChildNode | null } | null,
+        headerHost: HTMLElement | null,
+        titleAnchor: HTMLElement | null,
+    ): void {
+        if (mobilePlacement) {
+            nav.addClass("tps-daily-note-nav--mobile-bottom");
+            mobilePlacement.host.addClass("tps-daily-note-nav-mobile-host");
+            mobilePlacement.host.insertBefore(nav, mobilePlacement.before);
+        } else if (headerHost) {
+            nav.addClass("tps-daily-note-nav--header");
+            headerHost.addClass("tps-daily-note-nav-header-host");
+            headerHost.appendChild(nav);
+        } else if (titleAnchor) {
+            nav.addClass("tps-daily-note-nav--under-title");
+            host.addClass("tps-daily-note-nav-anchor");
+            titleAnchor.insertAdjacentElement("beforebegin", nav);
+        } else {
+            nav.addClass("tps-daily-note-nav--floating");
+            host.appendChild(nav);
+        }
     }
 
     private injectScheduledDailyNoteButton(leaf: WorkspaceLeaf, isoDateStr: string): void {
@@ -756,11 +879,38 @@ export class DailyNoteNavManager extends Component {
         }
     }
 
-    private async confirmCreateDailyNote(title: string, path: string): Promise<boolean> {
+    private async confirmCreateDailyNote(title: string, path: string, noun = "daily note"): Promise<boolean> {
         return await new Promise<boolean>((resolve) => {
-            new CreateDailyNoteConfirmModal(this.plugin.app, title, path, resolve).open();
+            new CreateDailyNoteConfirmModal(this.plugin.app, title, path, resolve, noun).open();
         });
     }
+
+    async goToPeriod(kind: PeriodicNoteKind, isoDate: string, sourceLeaf?: WorkspaceLeaf | null): Promise<void> {
+        try {
+            const path = getPeriodicNotePath(this.plugin.settings.periodicNotes, kind, isoDate);
+            let file = this.plugin.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                const title = path.split("/").pop()?.replace(/\.md$/i, "") || isoDate;
+                const shouldCreate = await this.confirmCreateDailyNote(title, path, `${PERIODIC_NOTE_LABELS[kind].noun} note`);
+                if (!shouldCreate) return;
+                file = await this.plugin.noteOperationService.ensurePeriodicNote(kind, isoDate);
+            }
+            if (!(file instanceof TFile)) {
+                new Notice(`Failed to open ${PERIODIC_NOTE_LABELS[kind].noun} note: ${path}`);
+                return;
+            }
+            const targetLeaf = sourceLeaf ?? this.getTargetLeaf()?.leaf ?? this._currentLeaf;
+            await this.plugin.openFileInLeaf(
+                file,
+                false,
+                () => targetLeaf ?? this.plugin.app.workspace.getLeaf(false),
+                { revealLeaf: true, active: true, reuseLeafIfNoExisting: true },
+            );
+        } catch (err) {
+            logger.error("goToPeriod failed", err);
+            new Notice(`Failed to navigate to ${PERIODIC_NOTE_LABELS[kind].noun} note.`);
+        }
+    }
 }
 
 class CreateDailyNoteConfirmModal extends Modal {
@@ -771,6 +921,7 @@ class CreateDailyNoteConfirmModal extends Modal {
         private readonly titleValue: string,
         private readonly path: string,
         private readonly resolve: (value: boolean) => void,
+        private readonly noun = "daily note",
     ) {
         super(app);
     }
@@ -779,7 +930,7 @@ class CreateDailyNoteConfirmModal extends Modal {
         this.modalEl.addClass("mod-tps-gcm");
         const { contentEl } = this;
         contentEl.empty();
-        contentEl.createEl("h3", { text: "Create daily note?" });
+        contentEl.createEl("h3", { text: `Create ${this.noun}?` });
         contentEl.createEl("p", {
             text: `"${this.titleValue}" does not exist yet. Create it now?`,
         });
@@ -1,9 +1,11 @@
 import { BasesView, Plugin, QueryController, TFile, WorkspaceLeaf, Menu, Notice, normalizePath, Platform, type BasesViewConfig, type ViewOption } from 'obsidian';
 import {
+  ActionRule,
   BuildPanelOptions,
   HideRule,
   IconColorRule,
   TPSGlobalContextMenuSettings,
+  createDefaultActionRule,
   createDefaultHideRule,
   createDefaultRule,
   createDefaultSortBucket,
@@ -40,6 +42,18 @@ import { BodySubitemLinkService } from './services/body-subitem-link-service';
 import { SubitemRelationshipSyncService } from './services/subitem-relationship-sync-service';
 import { SubitemReferenceIndexService } from './services/subitem-reference-index-service';
 import { TimeTrackingService } from './services/time-tracking-service';
+import { TimeReportService } from './services/time-report-service';
+import { VaultDoctorService } from './services/vault-doctor-service';
+import { IdentityConflictService } from './services/identity-conflict-service';
+import { UserActionService } from './services/user-action-service';
+import { normalizeUserActions } from './services/user-action-core';
+import { ChildTemplateService } from './services/child-template-service';
+import { RelationshipGraphService } from './services/relationship-graph-service';
+import { getNextRuleSweepSlot } from './services/rule-schedule-core';
+import { normalizeChildNoteTemplates } from './services/child-template-core';
+import { TimeTrackingFocusService } from './services/time-tracking-focus-service';
+import { TaskDependencyService } from './services/task-dependency-service';
+import { SnoozeService } from './services/snooze-service';
 import { TimeTrackingStatusBarService } from './services/time-tracking-status-bar-service';
 import { NotebookNavigatorRuleService } from './services/notebook-navigator-rule-service';
 import { OverlayRenderingService } from './services/overlay-rendering-service';
@@ -66,6 +80,7 @@ import { HeadingCollapseOnOpenService } from './services/heading-collapse-on-ope
 import { FoldExpansionContextMenuService } from './services/fold-expansion-context-menu-service';
 import { HomeCaptureService } from './services/home-capture-service';
 import { BaseLineEditProtocolService } from './services/base-line-edit-protocol-service';
+import { UriActionService } from './services/uri-action-service';
 import {
   HOME_ADD_TASK_COMMAND_ID,
   HOME_CAPTURE_COMMAND_ID,
@@ -73,6 +88,7 @@ import {
 } from './services/home-component-action-service';
 import { normalizeHomeComponentActions } from './services/home-component-action-core';
 import { TPS_HOME_VIEW_TYPE, TpsHomeView } from './views/home-view';
+import { RelationshipGraphView, TPS_RELATIONSHIP_GRAPH_VIEW_TYPE } from './views/relationship-graph-view';
 import { TPS_TABLE_VIEW_TYPE, TpsTableView } from './views/log-base-view';
 import { TPS_LIST_VIEW_TYPE, createTpsListView, createTpsListViewOptions } from './views/tps-list-bridge-view';
 import { BaseRowIndexService } from './services/base-row-index-service';
@@ -107,6 +123,7 @@ import {
   type TpsBaseWriteTargetResolution,
 } from './services/tps-base-write-target-service';
 import { normalizePropertyOptionSources } from './utils/property-option-source';
+import { normalizePeriodicNoteSettings } from './utils/periodic-notes';
 import { normalizeAcceptedKindSetting } from './utils/property-option-setting';
 import {
   collectPropertyKeyDiagnostics,
@@ -116,6 +133,9 @@ import { ArchiveFileService } from './services/archive-file-service';
 import { TpsNotebookNavigatorMenuBridge } from './services/tps-notebook-navigator-menu-bridge';
 import { shouldReuseCustomPropertyPreviewPanel } from './services/custom-property-visibility';
 import { ItemHistoryService } from './services/item-history-service';
+import { ItemHistoryRevertService } from './services/item-history-revert-service';
+import { IcsExportService } from './services/ics-export-service';
+import { IcsImportService } from './services/ics-import-service';
 import { createLivePreviewBodySelectionExtension } from './services/live-preview-body-selection-service';
 
 const NATIVE_PROPERTIES_ALWAYS_HIDDEN = new Set(['allday', 'color', 'folderpath', 'icon', 'sort']);
@@ -138,6 +158,7 @@ const CUSTOM_PROPERTY_TYPES = new Set([
   'folder',
   'snooze',
   'kind',
+  'tracked',
 ]);
 const LEGACY_HEALTH_CUSTOM_PROPERTY_IDS = new Set([
   'nutrition-food',
@@ -219,6 +240,18 @@ function createTpsTableViewOptions(plugin: TPSGlobalContextMenuPlugin): ViewOpti
             bottom: 'Bottom',
           },
         },
+        {
+          key: 'columnAggregates',
+          type: 'multitext',
+          displayName: 'Column totals (column: aggregate)',
+          default: [],
+        },
+        {
+          key: 'groupSubtotals',
+          type: 'toggle',
+          displayName: 'Group subtotals',
+          default: false,
+        },
         {
           key: 'ungroupedPosition',
           type: 'dropdown',
@@ -335,6 +368,13 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
   subitemRelationshipSyncService: SubitemRelationshipSyncService;
   subitemReferenceIndexService: SubitemReferenceIndexService;
   timeTrackingService: TimeTrackingService;
+  timeReportService: TimeReportService;
+  vaultDoctorService: VaultDoctorService;
+  identityConflictService: IdentityConflictService;
+  userActionService: UserActionService;
+  childTemplateService: ChildTemplateService;
+  relationshipGraphService: RelationshipGraphService;
+  timeTrackingFocusService: TimeTrackingFocusService;
   timeTrackingStatusBarService: TimeTrackingStatusBarService;
   notebookNavigatorRuleService: NotebookNavigatorRuleService;
   overlayRenderingService: OverlayRenderingService;
@@ -347,8 +387,13 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
   createTaskService: CreateTaskService;
   aiAssistedTaskService: AiAssistedTaskService;
   taskRecurrenceService: TaskRecurrenceService;
+  taskDependencyService: TaskDependencyService;
+  snoozeService: SnoozeService;
   taskApiService: TaskApiService;
   itemHistoryService: ItemHistoryService;
+  itemHistoryRevertService: ItemHistoryRevertService;
+  icsExportService: IcsExportService;
+  icsImportService: IcsImportService;
   eventService: GcmEventService;
   identityService: TpsIdentityService;
   cardContentService: CardContentService;
@@ -362,6 +407,7 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
   foldExpansionContextMenuService: FoldExpansionContextMenuService;
   homeCaptureService: HomeCaptureService;
   baseLineEditProtocolService: BaseLineEditProtocolService;
+  uriActionService: UriActionService;
   homeComponentActionService: HomeComponentActionService;
   archiveFileService: ArchiveFileService;
   tpsNotebookNavigatorMenuBridge: TpsNotebookNavigatorMenuBridge;
@@ -370,6 +416,11 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
   ignoreNextContext = false;
   keyboardVisible = false;
   private archiveSweepTimerId: number | null = null;
+  private ruleSweepTimerId: number | null = null;
+  /** Bumped on stop, so a sweep still running when the timer stops does not re-arm it. */
+  private ruleSweepGeneration = 0;
+  /** Every settings save restarts the sweeps; this keeps their catch-up runs from overlapping. */
+  private ruleSweepRunning = false;
   private restoreMenuPatch: (() => void) | null = null;
   private restoreCanvasOpenGuard: (() => void) | null = null;
   private basesPreviewPropertiesObserver: MutationObserver | null = null;
@@ -438,7 +489,7 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
   }
 
   getExternalActions(): GcmExternalActionRegistration[] {
-    return Array.from(this.externalActionRegistrations.values())
+    return [...this.externalActionRegistrations.values(), ...(this.userActionService?.getExternalActions() ?? [])]
       .sort((left, right) => (left.order ?? 100) - (right.order ?? 100));
   }
 
@@ -467,6 +518,25 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     });
   }
 
+  /** Opens TPS Home and moves it to `dateIso` (YYYY-MM-DD). */
+  async openHomeViewOnDate(dateIso: string): Promise<void> {
+    await this.openHomeView();
+    const view = this.app.workspace.getActiveViewOfType(TpsHomeView);
+    if (view) await view.setState({ dateIso });
+  }
+
+  async openRelationshipGraphView(): Promise<void> {
+    let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(TPS_RELATIONSHIP_GRAPH_VIEW_TYPE)[0] ?? null;
+    const created = !leaf;
+    if (!leaf) {
+      leaf = this.app.workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: TPS_RELATIONSHIP_GRAPH_VIEW_TYPE, active: true });
+    }
+    await this.app.workspace.revealLeaf(leaf);
+    logger.flow('RelationshipGraph', 'open-command', { route: created ? 'created' : 'reused' });
+  }
+
   private emitGcmApiChanged(available: boolean): void {
     const api = available ? (this as any).api ?? null : null;
     this.app.workspace.trigger(TPS_EVENTS.GCM_API_CHANGED, {
@@ -503,6 +573,7 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     this.register(installVisibleViewportContract());
     this.homeComponentActionService = new HomeComponentActionService(this);
     this.registerView(TPS_HOME_VIEW_TYPE, (leaf) => new TpsHomeView(leaf, this));
+    this.registerView(TPS_RELATIONSHIP_GRAPH_VIEW_TYPE, (leaf) => new RelationshipGraphView(leaf, this));
     this.registerBasesView(TPS_TABLE_VIEW_TYPE, {
       name: 'TPS Table',
       icon: 'table',
@@ -538,6 +609,13 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     this.subitemRelationshipSyncService = new SubitemRelationshipSyncService(this);
     this.subitemReferenceIndexService = new SubitemReferenceIndexService(this);
     this.timeTrackingService = new TimeTrackingService(this);
+    this.timeReportService = new TimeReportService(this);
+    this.vaultDoctorService = new VaultDoctorService(this);
+    this.identityConflictService = new IdentityConflictService(this);
+    this.userActionService = new UserActionService(this);
+    this.childTemplateService = new ChildTemplateService(this);
+    this.relationshipGraphService = new RelationshipGraphService(this);
+    this.timeTrackingFocusService = new TimeTrackingFocusService(this);
     this.timeTrackingStatusBarService = new TimeTrackingStatusBarService(this);
     this.notebookNavigatorRuleService = new NotebookNavigatorRuleService(this);
     this.overlayRenderingService = new OverlayRenderingService(this);
@@ -552,11 +630,16 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     this.createTaskService = new CreateTaskService(this);
     this.aiAssistedTaskService = new AiAssistedTaskService(this);
     this.taskRecurrenceService = new TaskRecurrenceService(this);
+    this.taskDependencyService = new TaskDependencyService(this);
+    this.snoozeService = new SnoozeService(this);
     this.eventService = new GcmEventService(this);
     this.identityService = new TpsIdentityService(this);
     this.itemHistoryService = new ItemHistoryService(this);
     await this.itemHistoryService.setup();
     this.taskApiService = new TaskApiService(this);
+    this.itemHistoryRevertService = new ItemHistoryRevertService(this);
+    this.icsExportService = new IcsExportService(this);
+    this.icsImportService = new IcsImportService(this);
     this.cardContentService = new CardContentService();
     this.identityMigrationService = new IdentityMigrationService(this);
     this.filePropertiesService = new FilePropertiesService(this);
@@ -590,6 +673,8 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     this.homeCaptureService = new HomeCaptureService(this);
     this.baseLineEditProtocolService = new BaseLineEditProtocolService(this);
     this.baseLineEditProtocolService.register();
+    this.uriActionService = new UriActionService(this);
+    this.uriActionService.register();
     this.archiveFileService = new ArchiveFileService(this);
     this.register(this.homeComponentActionService.register(HOME_CAPTURE_COMMAND_ID, (context) => (
       this.homeCaptureService.openCaptureModalForContext(context)
@@ -674,6 +759,10 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     if (this.canRunBackgroundAutomation()) {
       this.startArchiveTagAutomation();
     }
+    // Catch-up reads cached frontmatter, so wait for the workspace to load.
+    this.app.workspace.onLayoutReady(() => {
+      this.startScheduledRuleSweeps();
+    });
 
     // Expose inter-plugin API
     setupPluginApi(this);
@@ -683,7 +772,11 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     }));
     this.emitGcmApiChanged(true);
     this.timeTrackingService.setup();
+    this.timeTrackingFocusService.setup();
     this.timeTrackingStatusBarService.setup();
+    this.taskDependencyService.setup();
+    this.identityConflictService.setup();
+    this.snoozeService.setup();
     this.registerEvent(this.app.metadataCache.on('resolved', () => {
       this.virtualBaseEmbedService.scheduleRefresh(0);
     }));
@@ -1948,6 +2041,7 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     this.hideCompletedCheckboxesService?.detach();
     this.notebookNavigatorRuleService?.dispose();
     this.stopArchiveTagAutomation();
+    this.stopScheduledRuleSweeps();
     document.body?.classList?.remove('tps-context-hidden-for-keyboard');
   }
 
@@ -2132,6 +2226,29 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
       this.settings.timeTrackingDailyNotePlacement === 'bottom' ? 'bottom' : 'top';
     this.settings.timeTrackingSingleActiveSession = this.settings.timeTrackingSingleActiveSession !== false;
     this.settings.timeTrackingIgnoreArchivedFiles = this.settings.timeTrackingIgnoreArchivedFiles !== false;
+    const clampFocusSetting = (value: unknown, fallback: number, max: number): number => {
+      const parsed = Math.round(Number(value));
+      return Number.isFinite(parsed) && parsed >= 1 ? Math.min(parsed, max) : fallback;
+    };
+    this.settings.timeTrackingFocusWorkMinutes =
+      clampFocusSetting(this.settings.timeTrackingFocusWorkMinutes, DEFAULT_SETTINGS.timeTrackingFocusWorkMinutes, 240);
+    this.settings.timeTrackingFocusShortBreakMinutes =
+      clampFocusSetting(this.settings.timeTrackingFocusShortBreakMinutes, DEFAULT_SETTINGS.timeTrackingFocusShortBreakMinutes, 120);
+    this.settings.timeTrackingFocusLongBreakMinutes =
+      clampFocusSetting(this.settings.timeTrackingFocusLongBreakMinutes, DEFAULT_SETTINGS.timeTrackingFocusLongBreakMinutes, 240);
+    this.settings.timeTrackingFocusCycles =
+      clampFocusSetting(this.settings.timeTrackingFocusCycles, DEFAULT_SETTINGS.timeTrackingFocusCycles, 12);
+    const idleThreshold = Math.round(Number(this.settings.timeTrackingIdleThresholdMinutes));
+    this.settings.timeTrackingIdleThresholdMinutes = Number.isFinite(idleThreshold)
+      ? Math.max(0, Math.min(idleThreshold, 24 * 60))
+      : DEFAULT_SETTINGS.timeTrackingIdleThresholdMinutes;
+    this.settings.snoozeWakeStatus = String(this.settings.snoozeWakeStatus ?? '').trim();
+    this.settings.snoozeAnchors = Array.isArray(this.settings.snoozeAnchors)
+      ? this.settings.snoozeAnchors.map((value) => String(value || '').trim()).filter(Boolean)
+      : [...DEFAULT_SETTINGS.snoozeAnchors];
+    this.settings.periodicNotes = normalizePeriodicNoteSettings(this.settings.periodicNotes);
+    this.settings.userActions = normalizeUserActions(this.settings.userActions);
+    this.settings.childNoteTemplates = normalizeChildNoteTemplates(this.settings.childNoteTemplates);
     this.settings.activityLogPropertyKey = String(this.settings.activityLogPropertyKey || 'activity').trim() || 'activity';
     this.settings.activityLogTrackedProperties = String(
       this.settings.activityLogTrackedProperties ?? DEFAULT_SETTINGS.activityLogTrackedProperties,
@@ -2369,6 +2486,10 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
       if (normalized.type === 'kind') {
         delete normalized.acceptsKind;
         normalized.allowInlineSet = false;
+      } else if (normalized.type === 'tracked') {
+        // Tracked time is derived from timer sessions and has no stored value.
+        delete normalized.acceptsKind;
+        normalized.allowInlineSet = false;
       } else if (acceptsKind) {
         normalized.acceptsKind = acceptsKind;
       } else {
@@ -2568,6 +2689,10 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     return createDefaultHideRule();
   }
 
+  createDefaultActionRule(): ActionRule {
+    return createDefaultActionRule();
+  }
+
   async applyRulesToActiveFile(showNotice = false): Promise<boolean> {
     const file = this.app.workspace.getActiveFile();
     if (!this.notebookNavigatorRuleService.canApplyToFile(file)) {
@@ -2742,6 +2867,9 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     } else {
       this.stopArchiveTagAutomation();
     }
+    if (this.app.workspace.layoutReady) {
+      this.startScheduledRuleSweeps();
+    }
     await this.persistSettingsSnapshot();
     this.tpsNotebookNavigatorMenuBridge?.refresh();
     this.overlayRenderingService?.invalidate({
@@ -3144,6 +3272,73 @@ export default class TPSGlobalContextMenuPlugin extends Plugin {
     logger.log(`[TPS GCM] Archive tag sweep complete (${reason})`, result);
   }
 
+  private stopScheduledRuleSweeps(): void {
+    this.ruleSweepGeneration += 1;
+    if (this.ruleSweepTimerId !== null) {
+      window.clearTimeout(this.ruleSweepTimerId);
+      this.ruleSweepTimerId = null;
+    }
+  }
+
+  private startScheduledRuleSweeps(): void {
+    this.stopScheduledRuleSweeps();
+    if (!this.notebookNavigatorRuleService?.shouldRunScheduledSweeps()) {
+      return;
+    }
+    void this.runScheduledRuleSweep('startup-catchup');
+    this.scheduleNextRuleSweep();
+  }
+
+  private scheduleNextRuleSweep(): void {
+    if (!this.notebookNavigatorRuleService.shouldRunScheduledSweeps()) {
+      return;
+    }
+    const now = new Date();
+    const slot = getNextRuleSweepSlot(now, this.notebookNavigatorRuleService.getScheduledSweepTimes());
+    const delayMs = Math.max(1000, slot.at.getTime() - now.getTime());
+    const generation = this.ruleSweepGeneration;
+    this.ruleSweepTimerId = window.setTimeout(() => {
+      this.ruleSweepTimerId = null;
+      void this.runScheduledRuleSweep(slot.configured ? 'scheduled' : 'rollover').finally(() => {
+        if (generation === this.ruleSweepGeneration && this.ruleSweepTimerId === null) this.scheduleNextRuleSweep();
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Date conditions such as "is before today" change outcome without any
+   * edit, so these sweeps keep overdue colors, tags and actions current. At
+   * configured times the archive tag sweep runs too; the rollover one has its
+   * own 00:05 timer.
+   */
+  private async runScheduledRuleSweep(reason: 'startup-catchup' | 'rollover' | 'scheduled'): Promise<void> {
+    if (!this.notebookNavigatorRuleService.shouldRunScheduledSweeps()) {
+      return;
+    }
+    const todayKey = window.moment().format('YYYY-MM-DD');
+    if (reason === 'startup-catchup' && this.settings.lastRuleSweepDate === todayKey) {
+      return;
+    }
+    if (this.ruleSweepRunning) {
+      return;
+    }
+
+    this.ruleSweepRunning = true;
+    try {
+      const result = await this.notebookNavigatorRuleService.applyDateSensitiveRules(reason);
+      if (reason === 'scheduled' && this.settings.enableArchiveTagMove) {
+        await this.noteOperationService.sweepArchiveTaggedFiles('scheduled');
+      }
+      this.settings.lastRuleSweepDate = todayKey;
+      await this.persistSettingsSnapshot();
+      logger.log(`[TPS GCM] Scheduled rule sweep complete (${reason})`, result);
+    } catch (error) {
+      logger.flowError('NotebookRules', 'scheduled-sweep:failed', error, { reason });
+    } finally {
+      this.ruleSweepRunning = false;
+    }
+  }
+
   injectStyles(): void {
     if (this.styleEl) return;
     const style = document.createElement('style');
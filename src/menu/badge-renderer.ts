@@ -15,6 +15,7 @@ import { getEffectivePropertyOptions } from '../utils/property-options';
 import { getPlainDisplayTitle } from '../utils/display-title';
 import { isEntityReferenceProperty } from '../utils/entity-property';
 import { openPropertyValueSuggestModal } from '../modals/PropertyValueSuggestModal';
+import { describeTrackedTime, formatTrackedTime } from '../services/tracked-time-core';
 
 /**
  * Generate a consistent hue (0-360) from a string using a simple hash.
@@ -402,9 +403,33 @@ export class BadgeRenderer {
           e.stopPropagation();
           this.delegates.openTypeSubmenu(e, entries);
         }));
+      } else if (prop.type === 'tracked') {
+        const tracked = this.plugin.timeTrackingService?.getTrackedTimeForNote(file);
+        if (tracked) {
+          const badge = createBadge(
+            formatTrackedTime(tracked),
+            tracked.overBudget ? 'tracked is-over-budget' : 'tracked',
+            null,
+            (e) => e.stopPropagation(),
+          );
+          badge.title = describeTrackedTime(tracked);
+          nonTagBadges.push(badge);
+        }
       }
     });
 
+    const { openBlockers } = this.plugin.taskDependencyService?.getNoteSummary(file) ?? { openBlockers: [] };
+    if (openBlockers.length > 0) {
+      const badge = createBadge(
+        openBlockers.length === 1 ? 'Blocked' : `Blocked (${openBlockers.length})`,
+        'blocked',
+        null,
+        (e) => e.stopPropagation(),
+      );
+      badge.title = `Blocked by ${openBlockers.map((item) => item.title).join(', ')}`;
+      nonTagBadges.unshift(badge);
+    }
+
     // Append non-tag badges first
     nonTagBadges.forEach(badge => right.appendChild(badge));
 
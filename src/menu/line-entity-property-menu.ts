@@ -92,6 +92,7 @@ export function resolveLineEntityContextProperties(
     && !property.hidden
     && property.showInContextMenu !== false
     && property.type !== 'folder'
+    && property.type !== 'tracked'
   ));
 }
 
@@ -103,6 +104,7 @@ export function getConfiguredLineContextPropertyKeys(
     if (
       !property
       || property.type === 'folder'
+      || property.type === 'tracked'
       || property.disabled
       || property.hidden
       || property.showInContextMenu === false
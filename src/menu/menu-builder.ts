@@ -4,6 +4,7 @@ import { TextInputModal } from '../modals/text-input-modal';
 import { FileSuggestModal } from '../modals/FileSuggestModal';
 import { MultiFileSelectModal } from '../modals/MultiFileSelectModal';
 import { promptFilePropertiesRelink } from '../modals/file-properties-relink-modal';
+import { ItemHistoryModal } from '../modals/item-history-modal';
 import { normalizeTagList, normalizeTagValue } from '../utils/tag-utils';
 import {
   getWikilinkDisplayText,
@@ -24,6 +25,7 @@ import { addPropertyValueChoiceMenuItems } from './property-value-choice-menu';
 import { propertyUsesEntityOptions } from '../utils/property-option-source';
 import { isPathInArchiveFolder } from '../services/archive-file-service';
 import { createCustomPropertyMenuExclusionPredicate } from '../services/custom-property-menu-filter';
+import { formatTrackedTime } from '../services/tracked-time-core';
 
 export interface NativeMenuLabelOptions {
   archiveLabel?: string;
@@ -51,6 +53,7 @@ export class MenuBuilder {
     openScheduledModal: (entries: any[], key?: string) => void;
     openRecurrenceModalNative: (entries: any[]) => void;
     openSnoozeModal: (entries: any[], key?: string) => void;
+    openRescheduleOccurrenceModal: (entries: any[]) => void;
     getRecurrenceValue: (fm: any) => string;
     moveFiles: (entries: any[], folderPath: string) => Promise<void>;
     getTypeFolderOptions: () => { path: string; label: string }[];
@@ -347,6 +350,51 @@ export class MenuBuilder {
     });
   }
 
+  private populateBlockerSubmenu(menu: Menu, file: TFile): void {
+    const dependencies = this.plugin.taskDependencyService;
+    menu.addItem((sub) => {
+      sub.setTitle('Add blocker…')
+        .setIcon('plus')
+        .onClick(() => dependencies.promptAddNoteBlocker(file));
+    });
+
+    menu.addSeparator();
+
+    const { blockers } = dependencies.getNoteSummary(file);
+    if (blockers.length === 0) {
+      menu.addItem((sub) => {
+        sub.setTitle('No blockers')
+          .setIcon('info')
+          .setDisabled(true);
+      });
+      return;
+    }
+
+    blockers.forEach(({ reference, item }) => {
+      menu.addItem((sub) => {
+        sub.setTitle(dependencies.describeItem(item, reference))
+          .setIcon(item?.done ? 'check' : item ? 'octagon-pause' : 'unlink')
+          .setDisabled(!item)
+          .onClick(() => {
+            if (!item) return;
+            void this.plugin.openFileInLeaf(item.file, false, () => this.app.workspace.getLeaf(false), {
+              revealLeaf: true,
+              ignoreCanvasDragGuard: true,
+            });
+          });
+      });
+
+      menu.addItem((sub) => {
+        sub.setTitle(dependencies.describeItem(item, reference))
+          .setIcon('x')
+          .onClick(async () => {
+            await dependencies.removeNoteBlocker(file, reference);
+            new Notice(`Removed blocker: ${dependencies.describeItem(item, reference)}`);
+          });
+      });
+    });
+  }
+
   private populateBatchParentRelationSubmenu(menu: Menu, files: TFile[]): void {
     const selectedPaths = new Set(files.map((file) => file.path));
     menu.addItem((sub) => {
@@ -679,6 +727,8 @@ export class MenuBuilder {
           this.addRecurrenceToMenu(menu, propertyEntries, prop, 'tps-props');
         } else if (prop.type === 'folder') {
           this.addFolderToMenu(menu, propertyEntries, prop, 'tps-props');
+        } else if (prop.type === 'tracked') {
+          this.addTrackedTimeToMenu(menu, propertyEntries, prop, 'tps-props');
         }
         else if (prop.type === 'text' || prop.type === 'number') {
           menu.addItem((item) => {
@@ -745,6 +795,10 @@ export class MenuBuilder {
       }, 'tps-props');
     }
 
+    if (allEntriesAreMarkdown) {
+      this.plugin.userActionService?.addNoteActionsToMenu(menu, markdownFiles, 'tps-actions');
+    }
+
     // Parent links can be applied to one or many logical files. Child creation
     // and unlink/navigation remain single-target actions because their meaning
     // would be ambiguous across a mixed selection.
@@ -873,6 +927,33 @@ export class MenuBuilder {
       }
     }
 
+    if (allEntriesAreMarkdown && includeSingleTargetActions && this.plugin.taskDependencyService) {
+      const openBlockers = this.plugin.taskDependencyService.getNoteSummary(file).openBlockers.length;
+      menu.addItem((item) => {
+        item.setTitle(openBlockers > 0 ? `Blocked by (${openBlockers})` : 'Blocked by')
+          .setIcon('octagon-pause')
+          .setSection('tps-props');
+
+        const subMenu = (item as any).setSubmenu();
+        this.populateBlockerSubmenu(subMenu, file);
+      });
+    }
+
+    if (entries.length === 1 && this.plugin.settings.enableItemHistory !== false) {
+      const historyFile = entries[0].file;
+      menu.addItem((item) => {
+        item.setTitle('History...')
+          .setIcon('history')
+          .setSection('tps-props')
+          .onClick(() => {
+            new ItemHistoryModal(this.app, {
+              title: this.getFileDisplayTitle(historyFile),
+              load: () => this.plugin.itemHistoryService.query({ path: historyFile.path }, { limit: 50 }),
+            }).open();
+          });
+      });
+    }
+
     // Archive / Unarchive
     {
       const archiveFiles = entries.map((entry) => entry.file);
@@ -1130,6 +1211,38 @@ export class MenuBuilder {
         .setSection(sectionId)
         .setDisabled(true);
     });
+
+    // The rule stays read-only; single occurrences can still be skipped or moved.
+    const file = entries.length === 1 ? entries[0]?.file : null;
+    const frontmatter = entries[0]?.frontmatter;
+    const rule = this.getValueCaseInsensitive(frontmatter, 'recurrenceRule') || this.getValueCaseInsensitive(frontmatter, 'recurrence');
+    const scheduled = String(this.getValueCaseInsensitive(frontmatter, 'scheduled') ?? '').trim();
+    if (!(file instanceof TFile) || !rule || !scheduled || !this.plugin.bulkEditService?.skipRecurrenceOccurrence) return;
+    menu.addItem((item) => {
+      item.setTitle('Skip this occurrence')
+        .setIcon('skip-forward')
+        .setSection(sectionId)
+        .onClick(async () => {
+          await this.plugin.bulkEditService.skipRecurrenceOccurrence(file);
+        });
+    });
+    menu.addItem((item) => {
+      item.setTitle('Reschedule this occurrence…')
+        .setIcon('calendar-clock')
+        .setSection(sectionId)
+        .onClick(() => this.delegates.openRescheduleOccurrenceModal(entries));
+    });
+  }
+
+  addTrackedTimeToMenu(menu: GcmMenuSink, entries: any[], prop: any, sectionId: string) {
+    if (entries.length !== 1 || !(entries[0]?.file instanceof TFile)) return;
+    const tracked = this.plugin.timeTrackingService?.getTrackedTimeForNote(entries[0].file);
+    if (!tracked) return;
+    menu.addItem((item) => {
+      item.setTitle(`${prop.label}: ${formatTrackedTime(tracked)}${tracked.overBudget ? ' (over estimate)' : ''}`)
+        .setIcon(prop.icon || 'timer')
+        .setSection(sectionId);
+    });
   }
 
   addFolderToMenu(menu: GcmMenuSink, entries: any[], prop: any, sectionId: string) {
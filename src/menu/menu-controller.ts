@@ -3,7 +3,6 @@ import TPSGlobalContextMenuPlugin from '../main';
 import { AddTagModal } from '../modals/add-tag-modal';
 import { FileSuggestModal } from '../modals/FileSuggestModal';
 import { ScheduledModal } from '../modals/scheduled-modal';
-import { SnoozeModal } from '../modals/snooze-modal';
 import { BuildPanelOptions } from '../types';
 import { STATUSES, PRIORITIES } from '../constants';
 import * as logger from "../logger";
@@ -90,6 +89,7 @@ export class MenuController {
       openScheduledModal: this.openScheduledModal.bind(this),
       openRecurrenceModalNative: this.openRecurrenceModalNative.bind(this),
       openSnoozeModal: this.openSnoozeModal.bind(this),
+      openRescheduleOccurrenceModal: this.openRescheduleOccurrenceModal.bind(this),
       getRecurrenceValue: this.getRecurrenceValue.bind(this),
       moveFiles: this.moveFiles.bind(this),
       getTypeFolderOptions: this.getTypeFolderOptions.bind(this),
@@ -669,26 +669,32 @@ export class MenuController {
     ).open();
   }
 
+  openRescheduleOccurrenceModal(entries: any[]) {
+    const file = entries[0]?.file;
+    if (!(file instanceof TFile)) return;
+    new ScheduledModal(this.app, entries[0].frontmatter?.scheduled || '', 0, false, async (result) => {
+      if (!result.date) return;
+      if (await this.plugin.bulkEditService.rescheduleRecurrenceOccurrence(file, result.date)) {
+        await this.afterWholeNotePropertyEdit([file], ['scheduled']);
+      }
+    }, {
+      title: 'Reschedule this occurrence',
+      fieldLabel: 'Scheduled',
+      showTimeDetails: false,
+    }).open();
+  }
+
   openSnoozeModal(entries: any[], key = 'snooze') {
-    const controller: any = (this.app as any)?.plugins?.plugins?.['tps-controller']
-      || (this.app as any)?.plugins?.plugins?.['TPS-Controller (Dev)'];
-    const controllerSettings = controller?.settings || controller?.api?.getSettings?.() || {};
-    const options = Array.isArray(controllerSettings.snoozeOptions) ? controllerSettings.snoozeOptions : [];
-    const resolvedKey = typeof controllerSettings.snoozeProperty === 'string' && controllerSettings.snoozeProperty.trim()
-      ? controllerSettings.snoozeProperty.trim()
-      : (key || 'reminderSnooze');
-    new SnoozeModal(
-      this.app,
-      this.filesFromEntries(entries),
-      options,
-      async (minutes) => {
-        const files = this.filesFromEntries(entries);
-        const snoozeDate = window.moment().add(minutes, 'minutes').format('YYYY-MM-DDTHH:mm:ss');
+    const snooze = this.plugin.snoozeService;
+    const resolvedKey = snooze.getControllerSnoozeKey() || key || 'reminderSnooze';
+    const files = this.filesFromEntries(entries);
+    snooze.openSnoozeModal(
+      `Snooze (${files.length} ${files.length === 1 ? 'note' : 'notes'})`,
+      async (snoozeDate) => {
         await this.plugin.bulkEditService.updateFrontmatter(files, { [resolvedKey]: snoozeDate });
-        new Notice(`Snoozed for ${minutes} minutes`);
         await this.afterWholeNotePropertyEdit(files, [resolvedKey]);
-      }
-    ).open();
+      },
+    );
   }
 
   // --- Tag utilities ---
@@ -42,6 +42,7 @@ import {
   removeMixedEntityReferenceListValues,
 } from '../utils/entity-property';
 import { openPropertyValueSuggestModal } from '../modals/PropertyValueSuggestModal';
+import { describeTrackedTime, formatTrackedTime } from '../services/tracked-time-core';
 import {
   addPropertyValueChoiceMenuItems,
   showPropertyValueChoiceMenuAtElement,
@@ -987,6 +988,7 @@ export class PanelBuilder {
   }
 
   private isStackedPropertyEditable(prop: any): boolean {
+    if (prop?.type === 'tracked') return false;
     const key = String(prop?.key || '').trim();
     return !!key || prop?.type === 'folder' || prop?.type === 'recurrence';
   }
@@ -1417,6 +1419,19 @@ export class PanelBuilder {
       return;
     }
 
+    if (prop.type === 'tracked') {
+      const file = entries?.length === 1 ? entries[0]?.file : null;
+      const tracked = file instanceof TFile ? this.plugin.timeTrackingService?.getTrackedTimeForNote(file) : null;
+      const value = document.createElement('span');
+      value.className = tracked
+        ? `tps-gcm-top-property-text${tracked.overBudget ? ' is-over-budget' : ''}`
+        : 'tps-gcm-top-property-empty';
+      value.textContent = tracked ? formatTrackedTime(tracked) : 'Empty';
+      if (tracked) value.title = describeTrackedTime(tracked);
+      target.appendChild(value);
+      return;
+    }
+
     if (propId === 'status' || propKeyLower === 'status') {
       target.appendChild(this.createStatusChip(entries, prop));
       return;
@@ -1664,6 +1679,7 @@ export class PanelBuilder {
     if (propId === 'tags' || propKey === 'tags' || propKey === 'tag') return 'tags';
     if (prop?.type === 'list' && (isLinkListProperty(prop) || isEntityReferenceProperty(prop))) return 'link';
     if (prop?.type === 'folder') return 'folder';
+    if (prop?.type === 'tracked') return 'timer';
     if (isBooleanPropertyType(prop?.type)) return 'square-check';
     if (prop?.type === 'recurrence') return 'repeat';
     return 'list';
@@ -100,7 +100,6 @@ export class PersistentMenuManager {
   menus: Map<MarkdownView, MenuInstances> = new Map();
   private inlineSubitemsPanels: Map<MarkdownView, HTMLElement> = new Map();
   private noteReferencesPanels: Map<MarkdownView, HTMLElement> = new Map();
-  private noteGraphPanels: Map<MarkdownView, HTMLElement> = new Map();
   private titleIcons: Map<MarkdownView, HTMLElement> = new Map();
   private topSurfaceHosts: Map<MarkdownView, HTMLElement> = new Map();
   private topParentNavs: Map<MarkdownView, HTMLElement> = new Map();
@@ -553,9 +552,6 @@ export class PersistentMenuManager {
     }
 
     // Also hide/show floating overlay elements that aren't tracked in `menus`.
-    for (const el of this.noteGraphPanels.values()) {
-      if (el.isConnected) this.applyAuxElementVisibility(el, shouldHide);
-    }
     for (const [view, topNav] of this.topParentNavs.entries()) {
       if (!topNav.isConnected) continue;
       const propertiesPanel = topNav.querySelector<HTMLElement>('.tps-gcm-top-properties-panel');
@@ -589,9 +585,6 @@ export class PersistentMenuManager {
       for (const view of Array.from(this.noteReferencesPanels.keys())) {
         this.removeNoteReferencesPanel(view);
       }
-      for (const view of Array.from(this.noteGraphPanels.keys())) {
-        this.removeNoteGraphPanel(view);
-      }
       for (const view of Array.from(this.titleIcons.keys())) {
         this.removeInlineTitleIcon(view);
       }
@@ -672,12 +665,6 @@ export class PersistentMenuManager {
       }
     }
 
-    for (const view of Array.from(this.noteGraphPanels.keys())) {
-      if (!activeViews.has(view)) {
-        this.removeNoteGraphPanel(view);
-      }
-    }
-
     for (const view of Array.from(this.titleIcons.keys())) {
       if (!activeViews.has(view)) {
         this.removeInlineTitleIcon(view);
@@ -4735,7 +4722,7 @@ export class PersistentMenuManager {
     const updates: Record<string, unknown> = {};
     for (const property of applicableProperties) {
       const key = String(property?.key || '').trim();
-      if (!key || property?.type === 'folder') continue;
+      if (!key || property?.type === 'folder' || property?.type === 'tracked') continue;
       if (this.hasFrontmatterKey(frontmatter, key)) continue;
       updates[key] = this.getNativePropertyDefaultValue(property);
     }
@@ -6742,9 +6729,6 @@ export class PersistentMenuManager {
     for (const panel of this.noteReferencesPanels.values()) {
       if (panel.isConnected) this.applyInlinePanelVisibility(panel);
     }
-    for (const panel of this.noteGraphPanels.values()) {
-      if (panel.isConnected) this.applyAuxElementVisibility(panel, overlaysHidden);
-    }
     for (const [view, nav] of this.topParentNavs.entries()) {
       if (!nav.isConnected) continue;
       const propertiesPanel = nav.querySelector<HTMLElement>('.tps-gcm-top-properties-panel');
@@ -6926,12 +6910,6 @@ export class PersistentMenuManager {
   }
 
   private removeNoteGraphPanel(view: MarkdownView): void {
-    const panel = this.noteGraphPanels.get(view);
-    if (panel) {
-      panel.remove();
-      this.noteGraphPanels.delete(view);
-    }
-
     this.resolveNoteGraphHost(view)?.classList.remove('tps-gcm-note-graph-host');
     view.contentEl?.querySelectorAll('.tps-gcm-note-graph').forEach((node) => node.remove());
     this.syncInlineNotePanelLayout(view);
@@ -7454,9 +7432,6 @@ export class PersistentMenuManager {
     for (const view of Array.from(this.noteReferencesPanels.keys())) {
       this.removeNoteReferencesPanel(view);
     }
-    for (const view of Array.from(this.noteGraphPanels.keys())) {
-      this.removeNoteGraphPanel(view);
-    }
     for (const view of Array.from(this.titleIcons.keys())) {
       this.removeInlineTitleIcon(view);
     }
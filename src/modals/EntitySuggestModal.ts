@@ -25,6 +25,9 @@ export interface EntitySuggestModalOptions {
   placeholder?: string;
   emptyStateText?: string;
   noticeOnUnavailable?: boolean;
+  /** Offer every indexed note and line instead of requiring an accepted Kind. */
+  allowAnyKind?: boolean;
+  filter?: (entity: EntityIndexRecordLike) => boolean;
 }
 
 type AcceptsKindSource = unknown | Pick<CustomProperty, 'acceptsKind'>;
@@ -43,13 +46,15 @@ export class EntitySuggestModal extends FuzzySuggestModal<EntityReferenceChoice>
     private readonly entityIndex: EntityIndexQueryable,
     private readonly acceptedKinds: readonly string[],
     private readonly onChoose: (choice: EntityReferenceChoice) => void | Promise<void>,
-    options: EntitySuggestModalOptions = {},
+    private readonly options: EntitySuggestModalOptions = {},
   ) {
     super(app);
     const kinds = acceptedKinds.join(', ');
     this.setPlaceholder(options.placeholder || `Search ${kinds || 'matching'} entities…`);
     this.noMatchesText = options.emptyStateText
-      || `No notes or lines match Kind ${formatKindList(acceptedKinds)}.`;
+      || (acceptedKinds.length === 0
+        ? 'No indexed notes or lines found.'
+        : `No notes or lines match Kind ${formatKindList(acceptedKinds)}.`);
     this.emptyStateText = 'Loading matching entities…';
     this.setInstructions([{ command: '↵', purpose: 'select entity' }]);
     this.limit = 500;
@@ -113,7 +118,8 @@ export class EntitySuggestModal extends FuzzySuggestModal<EntityReferenceChoice>
   }
 
   private async queryAcceptedEntities(): Promise<readonly EntityIndexRecordLike[]> {
-    return queryAcceptedEntityRecords(this.entityIndex, this.acceptedKinds);
+    const entities = await queryAcceptedEntityRecords(this.entityIndex, this.acceptedKinds);
+    return this.options.filter ? entities.filter(this.options.filter) : entities;
   }
 
   private refreshSuggestions(): void {
@@ -126,7 +132,7 @@ export async function queryAcceptedEntityRecords(
   entityIndex: EntityIndexQueryable,
   acceptedKinds: readonly string[],
 ): Promise<readonly EntityIndexRecordLike[]> {
-  const query = {
+  const query = acceptedKinds.length === 0 ? {} : {
     dimensions: {
       kind: {
         anyOf: [...acceptedKinds],
@@ -175,7 +181,7 @@ export async function resolveCurrentEntityReferenceChoice(
       resolvedEntity = materialized;
     }
   }
-  if (!entityMatchesAcceptedKinds(resolvedEntity, acceptedKinds)) {
+  if (acceptedKinds.length > 0 && !entityMatchesAcceptedKinds(resolvedEntity, acceptedKinds)) {
     new Notice('That entity no longer matches this property’s accepted Kind. Nothing was updated.');
     return null;
   }
@@ -201,7 +207,7 @@ export function openEntitySuggestModal(
       ? (propertyOrKinds as Pick<CustomProperty, 'acceptsKind'>).acceptsKind
       : propertyOrKinds,
   );
-  if (acceptedKinds.length === 0) {
+  if (acceptedKinds.length === 0 && options.allowAnyKind !== true) {
     if (options.noticeOnUnavailable !== false) {
       new Notice('Choose an accepted Kind for this property first.');
     }
@@ -0,0 +1,56 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/** Asks every `{{prompt:…}}` question of a child template in one form. */
+export class ChildTemplatePromptModal extends Modal {
+  private readonly answers: Record<string, string> = {};
+  private resolved = false;
+
+  constructor(
+    app: App,
+    private readonly templateName: string,
+    private readonly questions: readonly string[],
+    private readonly onResolve: (answers: Record<string, string> | null) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('mod-tps-gcm');
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: this.templateName });
+
+    this.questions.forEach((question, index) => {
+      this.answers[question] = '';
+      new Setting(contentEl)
+        .setName(question)
+        .addText((text) => {
+          text.onChange((value) => {
+            this.answers[question] = value;
+          });
+          text.inputEl.addEventListener('keydown', (event) => {
+            event.stopPropagation();
+            if (event.key === 'Enter') this.submit();
+          });
+          if (index === 0) setTimeout(() => text.inputEl.focus(), 10);
+        });
+    });
+
+    const actions = contentEl.createDiv('tps-gcm-subitem-create-actions');
+    const cancel = actions.createEl('button', { text: 'Cancel' });
+    cancel.addEventListener('click', () => this.close());
+    const create = actions.createEl('button', { text: 'Create', cls: 'mod-cta' });
+    create.addEventListener('click', () => this.submit());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.resolved) this.onResolve(null);
+  }
+
+  private submit(): void {
+    this.resolved = true;
+    this.onResolve({ ...this.answers });
+    this.close();
+  }
+}
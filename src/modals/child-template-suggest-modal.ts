@@ -0,0 +1,46 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import type { ChildNoteTemplate } from '../types';
+
+type ChildTemplateChoice = ChildNoteTemplate | null;
+
+/**
+ * Picks one of several matching child templates. "No template" is always
+ * offered; closing the picker resolves `undefined` so callers can cancel.
+ */
+export class ChildTemplateSuggestModal extends FuzzySuggestModal<ChildTemplateChoice> {
+  private settled = false;
+
+  constructor(
+    app: App,
+    private readonly templates: readonly ChildNoteTemplate[],
+    private readonly onResolve: (template: ChildTemplateChoice | undefined) => void,
+  ) {
+    super(app);
+    this.modalEl.addClass('mod-tps-gcm');
+    this.setPlaceholder('Choose a template…');
+  }
+
+  getItems(): ChildTemplateChoice[] {
+    return [...this.templates, null];
+  }
+
+  getItemText(item: ChildTemplateChoice): string {
+    return item ? item.name : 'No template';
+  }
+
+  onChooseItem(item: ChildTemplateChoice): void {
+    this.finish(item);
+  }
+
+  onClose(): void {
+    super.onClose();
+    // Obsidian closes the picker before reporting the chosen item.
+    window.setTimeout(() => this.finish(undefined), 0);
+  }
+
+  private finish(template: ChildTemplateChoice | undefined): void {
+    if (this.settled) return;
+    this.settled = true;
+    this.onResolve(template);
+  }
+}
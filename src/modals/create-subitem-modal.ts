@@ -1,25 +1,45 @@
 import { App, Modal, Notice, Setting } from 'obsidian';
+import type { ChildNoteTemplate } from '../types';
+
+export interface CreateSubitemSelection {
+  title: string;
+  folderPath: string;
+  /** Empty when no template was chosen. */
+  templateId: string;
+}
+
+export interface CreateSubitemModalOptions {
+  templates?: readonly ChildNoteTemplate[];
+  defaultTemplateId?: string;
+}
 
 export class CreateSubitemModal extends Modal {
   private readonly folderPaths: string[];
   private readonly defaultFolderPath: string;
-  private readonly onResolve: (value: { title: string; folderPath: string } | null) => void;
+  private readonly onResolve: (value: CreateSubitemSelection | null) => void;
+  private readonly templates: readonly ChildNoteTemplate[];
   private resolved = false;
   private title = '';
   private folderPath = '/';
+  private templateId = '';
   private showFolderPicker = false;
 
   constructor(
     app: App,
     folderPaths: string[],
     defaultFolderPath: string,
-    onResolve: (value: { title: string; folderPath: string } | null) => void
+    onResolve: (value: CreateSubitemSelection | null) => void,
+    options: CreateSubitemModalOptions = {},
   ) {
     super(app);
     this.folderPaths = folderPaths.length ? folderPaths : ['/'];
     this.defaultFolderPath = this.folderPaths.includes(defaultFolderPath) ? defaultFolderPath : this.folderPaths[0];
     this.folderPath = this.defaultFolderPath;
     this.onResolve = onResolve;
+    this.templates = options.templates ?? [];
+    this.templateId = this.templates.some((template) => template.id === options.defaultTemplateId)
+      ? options.defaultTemplateId!
+      : '';
   }
 
   onOpen(): void {
@@ -46,6 +66,22 @@ export class CreateSubitemModal extends Modal {
         setTimeout(() => text.inputEl.focus(), 10);
       });
 
+    if (this.templates.length > 0) {
+      new Setting(contentEl)
+        .setName('Template')
+        .setDesc('Preselected from the parent\'s kind and tags.')
+        .addDropdown((dropdown) => {
+          dropdown.addOption('', 'No template');
+          this.templates.forEach((template) => {
+            dropdown.addOption(template.id, template.name);
+          });
+          dropdown.setValue(this.templateId);
+          dropdown.onChange((value) => {
+            this.templateId = value;
+          });
+        });
+    }
+
     const locationSetting = new Setting(contentEl)
       .setName('Location')
       .setDesc(this.folderPath || '/');
@@ -111,6 +147,7 @@ export class CreateSubitemModal extends Modal {
     this.onResolve({
       title: nextTitle,
       folderPath: this.folderPath || '/',
+      templateId: this.templateId,
     });
     this.close();
   }
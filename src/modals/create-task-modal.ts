@@ -16,6 +16,9 @@ export interface CreateTaskModalResult {
   scheduledValue: string;
   allDay: boolean;
   timeEstimate: number;
+  keepTimeEstimate: boolean;
+  recurrence: string;
+  properties: Record<string, string>;
   taskLine: string;
 }
 
@@ -40,6 +43,10 @@ export class CreateTaskModal extends Modal {
   private scheduledHintEl!: HTMLElement;
   private targetEl!: HTMLElement;
   private lastAutoScheduledValue = '';
+  private lastAutoPriority = '';
+  private lastAutoTimeEstimate = '';
+  private lastAutoCheckboxMarker = '';
+  private autoTarget = false;
 
   constructor(
     app: App,
@@ -49,6 +56,11 @@ export class CreateTaskModal extends Modal {
       defaultTimeEstimate: number;
       checkboxOptions: readonly CreateTaskCheckboxOption[];
       defaultCheckboxMarker: string;
+      /** Keys accepted in `@@key:value` quick-add tokens. */
+      inlinePropertyKeys?: readonly string[];
+      /** `@@<key>:<status>` picks the checkbox mapped to that status instead of writing a field. */
+      statusPropertyKey?: string;
+      resolveTargetLink?: (linkpath: string) => TFile | null;
       onSubmit: (result: CreateTaskModalResult) => void | Promise<void>;
     },
   ) {
@@ -64,10 +76,10 @@ export class CreateTaskModal extends Modal {
 
     new Setting(contentEl)
       .setName('Task')
-      .setDesc('Natural language schedule text is parsed into the Scheduled field.')
+      .setDesc('Natural language schedule text is parsed into the Scheduled field. Also understands #tag, !high, ~30m, >[[Note]], @@key:value, and every weekday.')
       .addText((text) => {
         this.titleInput = text;
-        text.setPlaceholder('go for a run tomorrow at 5pm #health');
+        text.setPlaceholder('go for a run tomorrow at 5pm #health ~45m');
         text.inputEl.addClass('tps-gcm-create-task-title');
         text.inputEl.addEventListener('keydown', (evt) => {
           evt.stopPropagation();
@@ -80,7 +92,7 @@ export class CreateTaskModal extends Modal {
       });
 
     const previewWrap = contentEl.createDiv({ cls: 'tps-gcm-create-task-preview-wrap' });
-    previewWrap.createDiv({ cls: 'tps-gcm-create-task-label', text: 'Detected schedule' });
+    previewWrap.createDiv({ cls: 'tps-gcm-create-task-label', text: 'Detected' });
     this.previewEl = previewWrap.createDiv({ cls: 'tps-gcm-create-task-detected' });
     this.scheduledHintEl = previewWrap.createDiv({ cls: 'tps-gcm-create-task-scheduled-hint' });
 
@@ -93,6 +105,7 @@ export class CreateTaskModal extends Modal {
         button.onClick(() => {
           new FileSuggestModal(this.app, (file) => {
             this.targetFile = file;
+            this.autoTarget = false;
             this.renderTargetButton();
           }, { extensions: ['md'] }).open();
         });
@@ -141,7 +154,7 @@ export class CreateTaskModal extends Modal {
 
     new Setting(contentEl)
       .setName('Time estimate')
-      .setDesc('Minutes; only written for timed tasks.')
+      .setDesc('Minutes; only written for timed tasks unless typed as ~30m.')
       .addText((text) => {
         this.timeEstimateInput = text;
         text.inputEl.type = 'number';
@@ -172,7 +185,9 @@ export class CreateTaskModal extends Modal {
 
   private reparseFromTitle(): void {
     const previousScheduled = this.scheduledInput?.getValue?.() || '';
-    this.parsed = parseCreateTaskInput(this.titleInput?.getValue?.() || '');
+    this.parsed = parseCreateTaskInput(this.titleInput?.getValue?.() || '', new Date(), {
+      inlinePropertyKeys: this.options.inlinePropertyKeys,
+    });
     if (this.parsed.scheduledValue && (!previousScheduled || previousScheduled === this.lastAutoScheduledValue)) {
       this.scheduledInput?.setValue(this.parsed.scheduledValue);
       this.allDayToggle?.setValue(this.parsed.allDay);
@@ -182,23 +197,100 @@ export class CreateTaskModal extends Modal {
       this.allDayToggle?.setValue(false);
       this.lastAutoScheduledValue = '';
     }
+    this.applyParsedTokens();
     this.renderDetectedPreview();
     this.updateTaskLinePreview();
   }
 
+  /**
+   * Copies quick-add tokens into their fields. A field the user changed by
+   * hand is left alone, the same way the Scheduled field is.
+   */
+  private applyParsedTokens(): void {
+    const priority = this.parsed.priority;
+    if (this.priorityInput && (!this.priorityInput.value || this.priorityInput.value === this.lastAutoPriority)) {
+      if (priority && !Array.from(this.priorityInput.options).some((option) => option.value === priority)) {
+        this.priorityInput.add(new Option(priority, priority));
+      }
+      this.priorityInput.value = priority;
+      this.lastAutoPriority = priority;
+    }
+
+    const estimate = this.parsed.timeEstimate > 0 ? String(this.parsed.timeEstimate) : '';
+    const defaultEstimate = String(this.options.defaultTimeEstimate || 30);
+    if (this.timeEstimateInput && this.timeEstimateInput.getValue() === (this.lastAutoTimeEstimate || defaultEstimate)) {
+      this.timeEstimateInput.setValue(estimate || defaultEstimate);
+      this.lastAutoTimeEstimate = estimate;
+    }
+
+    const target = this.parsed.targetLinkpath ? this.options.resolveTargetLink?.(this.parsed.targetLinkpath) ?? null : null;
+    if (target) {
+      this.targetFile = target;
+      this.autoTarget = true;
+    } else if (this.autoTarget) {
+      this.targetFile = this.options.defaultTargetFile;
+      this.autoTarget = false;
+    }
+    this.renderTargetButton();
+
+    const marker = this.getParsedCheckboxMarker();
+    if (this.checkboxInput && marker != null) {
+      this.checkboxInput.value = marker;
+      this.lastAutoCheckboxMarker = marker;
+    } else if (this.checkboxInput && this.lastAutoCheckboxMarker && this.checkboxInput.value === this.lastAutoCheckboxMarker) {
+      this.checkboxInput.value = this.options.defaultCheckboxMarker;
+      this.lastAutoCheckboxMarker = '';
+    }
+  }
+
+  private getParsedStatus(): string {
+    const key = String(this.options.statusPropertyKey || '').toLowerCase();
+    const entry = key ? Object.entries(this.parsed.properties).find(([candidate]) => candidate.toLowerCase() === key) : null;
+    return entry ? entry[1].trim().toLowerCase() : '';
+  }
+
+  private getParsedCheckboxMarker(): string | null {
+    const status = this.getParsedStatus();
+    if (!status) return null;
+    const option = this.options.checkboxOptions.find((candidate) => (
+      candidate.status.toLowerCase() === status
+      || candidate.statuses.some((value) => value.toLowerCase() === status)
+    ));
+    return option ? option.checkboxMarker : null;
+  }
+
+  private getParsedProperties(): Record<string, string> {
+    const key = String(this.options.statusPropertyKey || '').toLowerCase();
+    return Object.fromEntries(Object.entries(this.parsed.properties).filter(([candidate]) => candidate.toLowerCase() !== key));
+  }
+
   private renderDetectedPreview(): void {
     if (!this.previewEl || !this.scheduledHintEl) return;
     this.previewEl.empty();
     const raw = this.parsed.rawInput;
-    if (this.parsed.detectedDateStart >= 0 && this.parsed.detectedDateEnd > this.parsed.detectedDateStart) {
-      this.previewEl.appendText(raw.slice(0, this.parsed.detectedDateStart));
-      this.previewEl.createEl('mark', { text: raw.slice(this.parsed.detectedDateStart, this.parsed.detectedDateEnd) });
-      this.previewEl.appendText(raw.slice(this.parsed.detectedDateEnd));
-      this.scheduledHintEl.setText(`Scheduled: ${this.parsed.scheduledValue}`);
+    if (this.parsed.tokens.length > 0) {
+      let cursor = 0;
+      for (const token of this.parsed.tokens) {
+        this.previewEl.appendText(raw.slice(cursor, token.start));
+        this.previewEl.createEl('mark', {
+          cls: `tps-gcm-create-task-token tps-gcm-create-task-token--${token.kind}`,
+          text: raw.slice(token.start, token.end),
+        });
+        cursor = token.end;
+      }
+      this.previewEl.appendText(raw.slice(cursor));
     } else {
-      this.previewEl.setText(raw || 'No schedule phrase detected');
-      this.scheduledHintEl.setText('Scheduled: not set');
+      this.previewEl.setText(raw || 'Nothing detected');
+    }
+
+    const hints = [`Scheduled: ${this.parsed.scheduledValue || 'not set'}`];
+    if (this.parsed.recurrence) hints.push(`Repeats: ${this.parsed.recurrence.replace(/^RRULE:/i, '')}`);
+    if (this.parsed.targetLinkpath) {
+      hints.push(this.autoTarget ? `Into: ${this.targetFile?.path}` : `Note not found: ${this.parsed.targetLinkpath}`);
     }
+    const status = this.getParsedStatus();
+    if (status && this.getParsedCheckboxMarker() == null) hints.push(`No checkbox for status "${status}"`);
+    this.scheduledHintEl.setText(hints.join(' · '));
   }
 
   private updateTaskLinePreview(): void {
@@ -214,6 +306,9 @@ export class CreateTaskModal extends Modal {
       scheduledValue: this.scheduledInput?.getValue?.() || '',
       allDay: this.allDayToggle?.getValue?.() || false,
       timeEstimate: Number(this.timeEstimateInput?.getValue?.() || 0),
+      keepTimeEstimate: this.parsed.timeEstimate > 0,
+      recurrence: this.parsed.recurrence,
+      properties: this.getParsedProperties(),
     });
   }
 
@@ -237,6 +332,9 @@ export class CreateTaskModal extends Modal {
       scheduledValue: this.scheduledInput?.getValue?.() || '',
       allDay: this.allDayToggle?.getValue?.() || false,
       timeEstimate: Number(this.timeEstimateInput?.getValue?.() || 0),
+      keepTimeEstimate: this.parsed.timeEstimate > 0,
+      recurrence: this.parsed.recurrence,
+      properties: this.getParsedProperties(),
       taskLine,
     };
     this.close();
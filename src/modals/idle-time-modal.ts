@@ -0,0 +1,64 @@
+import { App, Modal } from 'obsidian';
+
+export type IdleTimeChoice = 'keep' | 'discard' | 'stop';
+
+export interface IdleTimeModalOptions {
+  idleStart: Date;
+  idleEnd: Date;
+  /** Titles of the running timers the choice applies to. */
+  titles: string[];
+}
+
+/** Asks what to do with time recorded while the user was away. Closing the modal keeps it. */
+export function promptIdleTime(app: App, options: IdleTimeModalOptions): Promise<IdleTimeChoice> {
+  return new Promise((resolve) => {
+    new IdleTimeModal(app, options, resolve).open();
+  });
+}
+
+export class IdleTimeModal extends Modal {
+  private choice: IdleTimeChoice = 'keep';
+
+  constructor(
+    app: App,
+    private readonly options: IdleTimeModalOptions,
+    private readonly onChoose: (choice: IdleTimeChoice) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('mod-tps-gcm');
+    const { contentEl } = this;
+    contentEl.empty();
+    const minutes = Math.max(1, Math.round((this.options.idleEnd.getTime() - this.options.idleStart.getTime()) / 60_000));
+    contentEl.createEl('h3', { text: 'You were away' });
+    contentEl.createEl('p', {
+      text: `No activity for ${formatIdleMinutes(minutes)} (since ${this.options.idleStart.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}) while this timer was running: ${this.options.titles.join(', ')}.`,
+    });
+
+    const buttonRow = contentEl.createDiv({ cls: 'tps-gcm-confirm-buttons' });
+    const addButton = (text: string, choice: IdleTimeChoice, cls?: string) => {
+      const button = buttonRow.createEl('button', { text, cls });
+      button.addEventListener('click', () => {
+        this.choice = choice;
+        this.close();
+      });
+    };
+    addButton('Keep', 'keep');
+    addButton('Discard idle time', 'discard', 'mod-cta');
+    addButton('Stop at last activity', 'stop');
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.onChoose(this.choice);
+  }
+}
+
+function formatIdleMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
@@ -0,0 +1,123 @@
+import { App, Modal, Notice } from 'obsidian';
+import type { ItemHistoryEvent, ItemHistoryValueState } from '../services/item-history-service';
+
+export interface ItemHistoryModalActionResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface ItemHistoryModalOptions {
+  title: string;
+  load: () => Promise<ItemHistoryEvent[]>;
+  /** Revert actions are offered for task entries only. */
+  revert?: (event: ItemHistoryEvent) => Promise<ItemHistoryModalActionResult>;
+  restoreBefore?: (event: ItemHistoryEvent) => Promise<ItemHistoryModalActionResult>;
+  revertOperation?: (event: ItemHistoryEvent) => Promise<ItemHistoryModalActionResult>;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'task.create': 'Created',
+  'task.update': 'Updated',
+  'task.checkbox': 'Checkbox changed',
+  'task.move': 'Moved',
+  'task.migrate': 'Migrated',
+  'task.delete': 'Deleted',
+  'note.update': 'Properties changed',
+  'note.archive': 'Archived',
+  'note.unarchive': 'Unarchived',
+};
+
+export class ItemHistoryModal extends Modal {
+  private busy = false;
+
+  constructor(app: App, private readonly options: ItemHistoryModalOptions) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('mod-tps-gcm');
+    this.modalEl.addClass('tps-gcm-item-history-modal');
+    void this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async render(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: `History: ${this.options.title || '(untitled)'}` });
+    const listEl = contentEl.createDiv({ cls: 'tps-gcm-item-history-list' });
+    listEl.createEl('p', { text: 'Loading…', cls: 'tps-gcm-item-history-empty' });
+
+    const events = await this.options.load();
+    listEl.empty();
+    if (events.length === 0) {
+      listEl.createEl('p', {
+        text: 'No history has been recorded for this item yet.',
+        cls: 'tps-gcm-item-history-empty',
+      });
+      return;
+    }
+
+    for (const event of events) {
+      const rowEl = listEl.createDiv({ cls: 'tps-gcm-item-history-row' });
+      const headerEl = rowEl.createDiv({ cls: 'tps-gcm-item-history-header' });
+      headerEl.createSpan({
+        text: ACTION_LABELS[event.action] || event.action,
+        cls: 'tps-gcm-item-history-action',
+      });
+      headerEl.createSpan({
+        text: `${new Date(event.occurredAt).toLocaleString()} · ${event.cause.surface}`,
+        cls: 'tps-gcm-item-history-meta',
+      });
+
+      const changesEl = rowEl.createEl('ul', { cls: 'tps-gcm-item-history-changes' });
+      for (const change of event.changes) {
+        changesEl.createEl('li', {
+          text: `${change.field}: ${formatValueState(change.before)} → ${formatValueState(change.after)}`,
+        });
+      }
+      if (event.locatorAfter && event.locatorAfter.path !== event.locatorBefore.path) {
+        changesEl.createEl('li', { text: `location: ${event.locatorBefore.path} → ${event.locatorAfter.path}` });
+      }
+
+      if (event.entityKind !== 'task') continue;
+      const { revert, restoreBefore, revertOperation } = this.options;
+      const buttonsEl = rowEl.createDiv({ cls: 'tps-gcm-item-history-buttons' });
+      if (revert) this.addActionButton(buttonsEl, 'Revert', () => revert(event));
+      if (restoreBefore) this.addActionButton(buttonsEl, 'Restore to before this', () => restoreBefore(event));
+      if (revertOperation && event.cause.interactionId) {
+        this.addActionButton(buttonsEl, 'Revert batch', () => revertOperation(event));
+      }
+    }
+  }
+
+  private addActionButton(
+    container: HTMLElement,
+    label: string,
+    run: () => Promise<ItemHistoryModalActionResult>,
+  ): void {
+    const button = container.createEl('button', { text: label });
+    button.addEventListener('click', async () => {
+      if (this.busy) return;
+      this.busy = true;
+      button.disabled = true;
+      try {
+        const result = await run();
+        new Notice(result.ok ? 'History change reverted.' : `Could not revert: ${result.error || 'unknown error'}`);
+        if (result.ok) await this.render();
+      } finally {
+        this.busy = false;
+        button.disabled = false;
+      }
+    });
+  }
+}
+
+function formatValueState(state: ItemHistoryValueState): string {
+  if (state.state === 'absent') return '—';
+  if (state.state === 'empty') return '(empty)';
+  return Array.isArray(state.value) ? state.value.join(', ') : state.value;
+}
@@ -1,34 +1,60 @@
 import { App, Modal, Notice, Setting, TextComponent } from 'obsidian';
 import { RECURRENCE_OPTIONS, TRACKER_RECURRENCE_RULE } from '../constants';
-import { RRule } from 'rrule';
 import {
     calculateNextTaskScheduledValue,
+    createTaskRecurrenceStep,
+    describeTaskRecurrenceRule,
+    getTaskRecurrenceRuleError,
     isAfterCompletionRecurrenceRule,
     parseTaskRecurrenceRule,
     parseTaskDate,
 } from '../utils/task-recurrence';
+import {
+    EMPTY_RECURRENCE_EXCEPTIONS,
+    hasRecurrenceExceptions,
+    listRecurrenceOccurrences,
+    type RecurrenceExceptions,
+} from '../utils/recurrence-exceptions';
 import * as logger from '../logger';
 
 export interface RecurrenceModalOptions {
     showEndsOn?: boolean;
+    /** How many upcoming occurrences the preview lists (default 5). */
+    previewCount?: number;
+    /** EXDATE/RDATE exceptions already stored with the rule; the preview honors them. */
+    exceptions?: RecurrenceExceptions;
+    /** Actions for the single occurrence the modal was opened from. */
+    occurrence?: {
+        onSkip: () => void | Promise<void>;
+        onReschedule: () => void | Promise<void>;
+    };
+    /** Offer "Apply to all future instances"; the choice is passed to onSubmit. */
+    seriesScope?: boolean;
+}
+
+export interface RecurrenceSubmitScope {
+    applyToFuture: boolean;
 }
 
+type RecurrenceSubmitHandler = (rule: string, endsOn: string | null, scope: RecurrenceSubmitScope) => void | Promise<void>;
+
 export class RecurrenceModal extends Modal {
     currentRule: string;
-    onSubmit: (rule: string, endsOn: string | null) => void | Promise<void>;
+    onSubmit: RecurrenceSubmitHandler;
     previewEl: HTMLElement | null = null;
     startDate: Date;
     private currentEndsOn: string;
     private endsOnValue: string;
     private submitting = false;
-    private readonly options: Required<RecurrenceModalOptions>;
+    private applyToFuture = true;
+    private readonly options: RecurrenceModalOptions & { showEndsOn: boolean; previewCount: number; exceptions: RecurrenceExceptions };
 
     constructor(
         app: App,
         currentRule: string,
         startDate: Date,
         currentEndsOn: string,
-        onSubmit: (rule: string, endsOn: string | null) => void | Promise<void>,
+        onSubmit: RecurrenceSubmitHandler,
         options: RecurrenceModalOptions = {},
     ) {
         super(app);
@@ -38,41 +64,13 @@ export class RecurrenceModal extends Modal {
         this.endsOnValue = currentEndsOn;
         this.onSubmit = onSubmit;
         this.options = {
+            ...options,
             showEndsOn: options.showEndsOn !== false,
+            previewCount: Math.max(1, Math.floor(options.previewCount ?? 5)),
+            exceptions: options.exceptions ?? EMPTY_RECURRENCE_EXCEPTIONS,
         };
     }
 
-    private getEasterDate(year: number, timeSource: Date): Date {
-        const a = year % 19;
-        const b = Math.floor(year / 100);
-        const c = year % 100;
-        const d = Math.floor(b / 4);
-        const e = b % 4;
-        const f = Math.floor((b + 8) / 25);
-        const g = Math.floor((b - f + 1) / 3);
-        const h = (19 * a + b - d - g + 15) % 30;
-        const i = Math.floor(c / 4);
-        const k = c % 4;
-        const l = (32 + 2 * e + 2 * i - h - k) % 7;
-        const m = Math.floor((a + 11 * h + 22 * l) / 451);
-        const month = Math.floor((h + l - 7 * m + 114) / 31);
-        const day = ((h + l - 7 * m + 114) % 31) + 1;
-        return new Date(year, month - 1, day, timeSource.getHours(), timeSource.getMinutes(), timeSource.getSeconds(), timeSource.getMilliseconds());
-    }
-
-    private getHolidayOccurrences(ruleStr: string, count: number): Date[] | null {
-        if (ruleStr.trim().toUpperCase() !== 'GCM-HOLIDAY:EASTER') return null;
-
-        const occurrences: Date[] = [];
-        let year = this.startDate.getFullYear();
-        while (occurrences.length < count && year < this.startDate.getFullYear() + 20) {
-            const date = this.getEasterDate(year, this.startDate);
-            if (date >= this.startDate) occurrences.push(date);
-            year += 1;
-        }
-        return occurrences;
-    }
-
     private updatePreview(ruleStr: string): void {
         if (!this.previewEl) return;
         this.previewEl.empty();
@@ -92,15 +90,27 @@ export class RecurrenceModal extends Modal {
             return;
         }
 
+        const error = getTaskRecurrenceRuleError(ruleStr);
+        if (error) {
+            this.previewEl.style.display = 'block';
+            const titleEl = this.previewEl.createDiv({ cls: 'tps-gcm-recurrence-preview-title' });
+            titleEl.textContent = 'Invalid Rule';
+            this.previewEl.createDiv({ cls: 'tps-gcm-recurrence-preview-error', text: error });
+            return;
+        }
+
+        const count = this.options.previewCount;
         try {
             const afterCompletion = isAfterCompletionRecurrenceRule(ruleStr);
             const afterCompletionRule = afterCompletion ? parseTaskRecurrenceRule(ruleStr) : null;
-            const holidayOccurrences = this.getHolidayOccurrences(ruleStr, 5);
-            const nextDates = holidayOccurrences ?? (() => {
+            // Anchor the rule at the event's start date rather than "now"; skipped and
+            // added occurrences are applied on top of the rule's own dates.
+            const step = afterCompletion ? null : createTaskRecurrenceStep(ruleStr, this.startDate);
+            const nextDates = (() => {
                 if (afterCompletion && afterCompletionRule?.kind === 'after-completion') {
                     const dates: Date[] = [];
                     let cursor = this.startDate;
-                    for (let index = 0; index < 5; index += 1) {
+                    for (let index = 0; index < count; index += 1) {
                         const next = calculateNextTaskScheduledValue(ruleStr, { completedAt: cursor });
                         const parsed = parseTaskDate(next || '');
                         if (!parsed) break;
@@ -109,22 +119,36 @@ export class RecurrenceModal extends Modal {
                     }
                     return dates;
                 }
-                // Parse the rule string into options, then override dtstart with the event's start date
-                // This ensures the recurrence calculation is based on the event's date, not "now"
-                const options = RRule.parseString(ruleStr.replace(/^RRULE:/i, ''));
-                options.dtstart = this.startDate;
-                const rule = new RRule(options);
-
-                const start = this.startDate;
-                return rule.between(start, new Date(start.getTime() + 5 * 365 * 24 * 60 * 60 * 1000), true, (_, len) => len < 5);
+                if (!step) throw new Error('Invalid recurrence rule');
+                return listRecurrenceOccurrences(this.startDate, step, this.options.exceptions, count);
             })();
 
+            this.previewEl.style.display = 'block';
+            const summary = describeTaskRecurrenceRule(ruleStr);
+            if (summary) {
+                this.previewEl.createDiv({
+                    cls: 'tps-gcm-recurrence-preview-summary',
+                    text: summary.charAt(0).toUpperCase() + summary.slice(1),
+                });
+            }
+
             if (nextDates.length === 0) {
-                this.previewEl.style.display = 'none';
+                this.previewEl.createDiv({
+                    cls: 'tps-gcm-recurrence-preview-warning',
+                    text: `No occurrences on or after ${this.startDate.toLocaleDateString()}. This rule will never fire again.`,
+                });
                 return;
             }
+            // The preview lists occurrences from the start date, which may be long past;
+            // the series has ended when nothing is left from today on.
+            const upcomingFrom = new Date(Math.max(this.startDate.getTime(), Date.now()));
+            if (step && listRecurrenceOccurrences(upcomingFrom, step, this.options.exceptions, 1).length === 0) {
+                this.previewEl.createDiv({
+                    cls: 'tps-gcm-recurrence-preview-warning',
+                    text: `No occurrences after ${upcomingFrom.toLocaleDateString()}. This rule will never fire again.`,
+                });
+            }
 
-            this.previewEl.style.display = 'block';
             const titleEl = this.previewEl.createDiv({ cls: 'tps-gcm-recurrence-preview-title' });
             titleEl.textContent = afterCompletion ? 'Next Occurrences From Completion Time' : 'Next Occurrences';
 
@@ -138,6 +162,15 @@ export class RecurrenceModal extends Modal {
                     day: 'numeric'
                 });
             });
+
+            if (!afterCompletion && hasRecurrenceExceptions(this.options.exceptions)) {
+                const { exdates, rdates } = this.options.exceptions;
+                const noteEl = this.previewEl.createDiv({ cls: 'tps-gcm-recurrence-preview-exceptions' });
+                noteEl.textContent = [
+                    exdates.length > 0 ? `Skipped: ${exdates.join(', ')}` : '',
+                    rdates.length > 0 ? `Added: ${rdates.join(', ')}` : '',
+                ].filter(Boolean).join(' · ');
+            }
         } catch (e) {
             // Invalid rule, hide preview
             this.previewEl.style.display = 'none';
@@ -205,6 +238,33 @@ export class RecurrenceModal extends Modal {
                 });
         }
 
+        const occurrence = this.options.occurrence;
+        if (occurrence) {
+            new Setting(contentEl)
+                .setName('This occurrence')
+                .setDesc('Skip or move only this occurrence. The rule and other occurrences stay as they are.')
+                .addButton((btn) => {
+                    btn.setButtonText('Skip').onClick(() => {
+                        void this.runOccurrenceAction('skip', occurrence.onSkip);
+                    });
+                })
+                .addButton((btn) => {
+                    btn.setButtonText('Reschedule…').onClick(() => {
+                        void this.runOccurrenceAction('reschedule', occurrence.onReschedule);
+                    });
+                });
+        }
+
+        if (this.options.seriesScope) {
+            new Setting(contentEl)
+                .setName('Apply to all future instances')
+                .setDesc('Off: change only this instance. On: future instances use the new rule as well.')
+                .addToggle((toggle) => {
+                    toggle.setValue(this.applyToFuture);
+                    toggle.onChange((value) => { this.applyToFuture = value; });
+                });
+        }
+
         new Setting(contentEl)
             .addButton((btn) => {
                 btn.setButtonText('Clear')
@@ -224,9 +284,14 @@ export class RecurrenceModal extends Modal {
 
     private async submit(rule: string, endsOn: string | null): Promise<void> {
         if (this.submitting) return;
+        const error = rule.trim().toUpperCase() === TRACKER_RECURRENCE_RULE ? null : getTaskRecurrenceRuleError(rule);
+        if (error) {
+            new Notice(`Invalid recurrence rule: ${error}`);
+            return;
+        }
         this.submitting = true;
         try {
-            await this.onSubmit(rule, endsOn);
+            await this.onSubmit(rule, endsOn, { applyToFuture: this.applyToFuture });
             this.close();
         } catch (error) {
             logger.flowError('RecurrenceModal', 'submit:failed', error, {
@@ -238,6 +303,18 @@ export class RecurrenceModal extends Modal {
         }
     }
 
+    private async runOccurrenceAction(action: string, run: () => void | Promise<void>): Promise<void> {
+        if (this.submitting) return;
+        this.submitting = true;
+        this.close();
+        try {
+            await run();
+        } catch (error) {
+            logger.flowError('RecurrenceModal', `${action}:failed`, error);
+            new Notice('Could not update this occurrence.');
+        }
+    }
+
     onClose() {
         this.contentEl.empty();
         this.previewEl = null;
@@ -0,0 +1,189 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import {
+  describeRuleFileAction,
+  formatRuleDryRunValue,
+  type RuleDryRunReport,
+} from '../services/rule-dry-run-core';
+import type { NotebookNavigatorRuleService } from '../services/notebook-navigator-rule-service';
+import * as logger from '../logger';
+import { getErrorMessage } from '../core';
+
+/** Rows rendered per list; the exported note always has the full report. */
+const MAX_RENDERED_ROWS = 300;
+
+export class RuleDryRunModal extends Modal {
+  private report: RuleDryRunReport | null = null;
+  private readonly selected = new Set<string>();
+  private resultsEl: HTMLElement | null = null;
+  private applyButtonEl: HTMLButtonElement | null = null;
+  private busy = false;
+  private renderToken = 0;
+
+  constructor(app: App, private readonly service: NotebookNavigatorRuleService) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('mod-tps-gcm');
+    this.modalEl.addClass('tps-gcm-rule-dry-run-modal');
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Rule dry run' });
+
+    new Setting(contentEl)
+      .setDesc('Evaluates every note against the current frontmatter rules without writing. Apply the rules to the selected notes, or export the report as a note for review.')
+      .addButton((button) => button.setButtonText('Rescan').onClick(() => void this.refresh()))
+      .addButton((button) => button.setButtonText('Export report').onClick(() => void this.exportReport()))
+      .addButton((button) => {
+        this.applyButtonEl = button.buttonEl;
+        button.setButtonText('Apply selected').setCta().onClick(() => void this.applySelected());
+      });
+
+    this.resultsEl = contentEl.createDiv({ cls: 'tps-gcm-rule-dry-run-results' });
+    void this.refresh();
+  }
+
+  onClose(): void {
+    this.renderToken += 1;
+    this.contentEl.empty();
+  }
+
+  private async refresh(): Promise<void> {
+    const token = ++this.renderToken;
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) return;
+    this.report = null;
+    this.updateApplyButton();
+    resultsEl.empty();
+    resultsEl.createEl('p', { text: 'Evaluating rules…', cls: 'tps-gcm-rule-dry-run-empty' });
+
+    let report: RuleDryRunReport;
+    try {
+      report = await this.service.buildDryRunReport();
+    } catch (error) {
+      if (token !== this.renderToken) return;
+      logger.flowError('NotebookRules', 'dry-run:failed', error);
+      resultsEl.empty();
+      resultsEl.createEl('p', { text: `Could not evaluate the rules: ${getErrorMessage(error)}`, cls: 'tps-gcm-rule-dry-run-empty' });
+      return;
+    }
+    if (token !== this.renderToken) return;
+    this.report = report;
+    const paths = new Set(report.files.map((file) => file.path));
+    for (const path of Array.from(this.selected)) {
+      if (!paths.has(path)) this.selected.delete(path);
+    }
+    this.render(report);
+  }
+
+  private render(report: RuleDryRunReport): void {
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) return;
+    resultsEl.empty();
+    resultsEl.createEl('p', {
+      text: `Scanned ${report.scanned} notes: ${report.files.length} would change, ${report.excluded.length} excluded from rule writes.`,
+      cls: 'tps-gcm-rule-dry-run-summary',
+    });
+
+    if (report.files.length > 0) {
+      const heading = resultsEl.createEl('h3');
+      const allToggle = heading.createEl('input', { type: 'checkbox' });
+      heading.createSpan({ text: `Would change (${report.files.length})` });
+      const fileToggles: HTMLInputElement[] = [];
+      const syncAllToggle = () => {
+        allToggle.checked = this.selected.size === report.files.length;
+        allToggle.indeterminate = this.selected.size > 0 && this.selected.size < report.files.length;
+      };
+
+      for (const file of report.files.slice(0, MAX_RENDERED_ROWS)) {
+        const row = resultsEl.createEl('label', { cls: 'tps-gcm-rule-dry-run-file' });
+        const toggle = row.createEl('input', { type: 'checkbox' });
+        toggle.checked = this.selected.has(file.path);
+        toggle.addEventListener('change', () => {
+          if (toggle.checked) this.selected.add(file.path);
+          else this.selected.delete(file.path);
+          syncAllToggle();
+          this.updateApplyButton();
+        });
+        fileToggles.push(toggle);
+        const details = row.createDiv();
+        this.renderLink(details, file.path);
+        const list = details.createEl('ul', { cls: 'tps-gcm-rule-dry-run-changes' });
+        for (const change of file.changes) {
+          list.createEl('li', {
+            text: `${change.key}: ${formatRuleDryRunValue(change.before)} → ${formatRuleDryRunValue(change.after)}`,
+          });
+        }
+        for (const action of file.fileActions) list.createEl('li', { text: describeRuleFileAction(action) });
+      }
+      if (report.files.length > MAX_RENDERED_ROWS) {
+        resultsEl.createEl('p', {
+          text: `Showing ${MAX_RENDERED_ROWS} of ${report.files.length}. The checkbox above selects all of them; export the report for the full list.`,
+          cls: 'tps-gcm-rule-dry-run-empty',
+        });
+      }
+
+      allToggle.addEventListener('change', () => {
+        for (const file of report.files) {
+          if (allToggle.checked) this.selected.add(file.path);
+          else this.selected.delete(file.path);
+        }
+        fileToggles.forEach((toggle) => { toggle.checked = allToggle.checked; });
+        syncAllToggle();
+        this.updateApplyButton();
+      });
+      syncAllToggle();
+    } else {
+      resultsEl.createEl('p', { text: 'No note would change.', cls: 'tps-gcm-rule-dry-run-empty' });
+    }
+
+    if (report.excluded.length > 0) {
+      const excluded = resultsEl.createEl('details', { cls: 'tps-gcm-rule-dry-run-excluded' });
+      excluded.createEl('summary', { text: `Excluded by write exclusions (${report.excluded.length})` });
+      for (const path of report.excluded.slice(0, MAX_RENDERED_ROWS)) this.renderLink(excluded.createDiv(), path);
+    }
+    this.updateApplyButton();
+  }
+
+  private renderLink(parent: HTMLElement, path: string): void {
+    const link = parent.createEl('a', { text: path, href: '#' });
+    link.addEventListener('click', (event) => {
+      event.preventDefault();
+      void this.app.workspace.openLinkText(path, '', false);
+    });
+  }
+
+  private updateApplyButton(): void {
+    if (!this.applyButtonEl) return;
+    this.applyButtonEl.disabled = this.busy || !this.report || this.selected.size === 0;
+    this.applyButtonEl.setText(this.selected.size > 0 ? `Apply selected (${this.selected.size})` : 'Apply selected');
+  }
+
+  private async exportReport(): Promise<void> {
+    if (!this.report) return;
+    try {
+      const path = await this.service.exportDryRunReport(this.report);
+      new Notice(`TPS GCM: Saved rule dry run to ${path}.`);
+    } catch (error) {
+      new Notice(`TPS GCM: Could not save the rule dry run: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private async applySelected(): Promise<void> {
+    const paths = this.report?.files.map((file) => file.path).filter((path) => this.selected.has(path)) ?? [];
+    if (paths.length === 0 || this.busy) return;
+    this.busy = true;
+    this.updateApplyButton();
+    try {
+      const changed = await this.service.applyRulesToPaths(paths);
+      new Notice(`TPS GCM: Applied rules to ${paths.length} notes; ${changed} changed.`);
+      this.selected.clear();
+    } catch (error) {
+      logger.flowError('NotebookRules', 'dry-run:apply-failed', error, { paths: paths.length });
+      new Notice(`TPS GCM: Could not apply the rules: ${getErrorMessage(error)}`);
+    } finally {
+      this.busy = false;
+    }
+    await this.refresh();
+  }
+}
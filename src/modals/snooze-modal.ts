@@ -1,4 +1,4 @@
-import { App, Modal, TFile } from 'obsidian';
+import { App, Modal } from 'obsidian';
 
 interface SnoozeOption {
     label: string;
@@ -6,15 +6,23 @@ interface SnoozeOption {
 }
 
 export class SnoozeModal extends Modal {
-    private files: TFile[];
-    private onSnooze: (minutes: number) => Promise<void>;
+    private heading: string;
+    private onSnooze: (until: Date) => Promise<void>;
     private customOptions: SnoozeOption[];
+    private parseExpression: (input: string) => Date | null;
 
-    constructor(app: App, files: TFile[], options: SnoozeOption[], onSnooze: (minutes: number) => Promise<void>) {
+    constructor(
+        app: App,
+        heading: string,
+        options: SnoozeOption[],
+        onSnooze: (until: Date) => Promise<void>,
+        parseExpression: (input: string) => Date | null,
+    ) {
         super(app);
-        this.files = files;
+        this.heading = heading;
         this.customOptions = options;
         this.onSnooze = onSnooze;
+        this.parseExpression = parseExpression;
     }
 
     onOpen() {
@@ -23,7 +31,7 @@ export class SnoozeModal extends Modal {
         contentEl.addClass('tps-context-modal');
 
         // Add custom class for styling consistent with other modals
-        contentEl.createEl('h2', { text: `Snooze (${this.files.length} notes)` });
+        contentEl.createEl('h2', { text: this.heading });
 
         const grid = contentEl.createDiv({ cls: 'tps-context-grid' });
         grid.style.display = 'grid';
@@ -40,7 +48,7 @@ export class SnoozeModal extends Modal {
             btn.style.height = '40px';
 
             btn.addEventListener('click', async () => {
-                await this.onSnooze(opt.minutes);
+                await this.onSnooze(new Date(Date.now() + opt.minutes * 60_000));
                 this.close();
             });
         });
@@ -50,28 +58,39 @@ export class SnoozeModal extends Modal {
         customDiv.style.borderTop = '1px solid var(--background-modifier-border)';
         customDiv.style.paddingTop = '15px';
 
-        customDiv.createEl('span', { text: 'Custom (minutes): ' });
-        const input = customDiv.createEl('input', { type: 'number' });
-        input.placeholder = '30';
+        customDiv.createEl('span', { text: 'Until: ' });
+        const input = customDiv.createEl('input', { type: 'text' });
+        input.placeholder = 'next Monday 9am, after standup, 2h, 30';
 
         const applyBtn = customDiv.createEl('button', { text: 'Apply' });
-        applyBtn.addEventListener('click', async () => {
-            const val = parseInt(input.value);
-            if (!isNaN(val) && val > 0) {
-                await this.onSnooze(val);
-                this.close();
-            }
-        });
+        const preview = contentEl.createDiv({ cls: 'setting-item-description tps-gcm-snooze-preview' });
+
+        const readInput = (): Date | null => {
+            const until = this.parseExpression(input.value);
+            preview.setText(
+                !input.value.trim()
+                    ? ''
+                    : until
+                        ? `Wakes ${until.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+                        : 'Could not read a future time.'
+            );
+            return until;
+        };
+        const apply = async () => {
+            const until = readInput();
+            if (!until) return;
+            await this.onSnooze(until);
+            this.close();
+        };
+
+        input.addEventListener('input', () => readInput());
+        applyBtn.addEventListener('click', () => void apply());
 
         // Enter key support
         input.addEventListener('keydown', (e) => {
-            if (e.key === 'Enter') {
-                const val = parseInt(input.value);
-                if (!isNaN(val) && val > 0) {
-                    this.onSnooze(val).then(() => this.close());
-                }
-            }
+            if (e.key === 'Enter') void apply();
         });
+        window.setTimeout(() => input.focus(), 0);
     }
 
     onClose() {
@@ -0,0 +1,151 @@
+import { App, Modal, Notice, Setting, type ButtonComponent } from 'obsidian';
+import * as logger from '../logger';
+import { getErrorMessage } from '../core';
+import {
+  TIME_REPORT_GROUP_LABELS,
+  formatReportDate,
+  formatTimeReportDuration,
+  type TimeReport,
+  type TimeReportGroupBy,
+} from '../services/time-report-core';
+import type { TimeReportExportFormat, TimeReportService } from '../services/time-report-service';
+
+export class TimeReportModal extends Modal {
+  private start: string;
+  private end: string;
+  private groupBy: TimeReportGroupBy = 'project';
+  private report: TimeReport | null = null;
+  private resultsEl: HTMLElement | null = null;
+  private exportButtons: ButtonComponent[] = [];
+  private renderToken = 0;
+
+  constructor(app: App, private readonly service: TimeReportService) {
+    super(app);
+    const today = new Date();
+    this.end = formatReportDate(today);
+    this.start = formatReportDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6));
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('mod-tps-gcm');
+    this.modalEl.addClass('tps-gcm-time-report-modal');
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Time report' });
+
+    new Setting(contentEl)
+      .setName('From')
+      .addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.start);
+        text.onChange((value) => {
+          this.start = value;
+          void this.refresh();
+        });
+      });
+    new Setting(contentEl)
+      .setName('To')
+      .addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.end);
+        text.onChange((value) => {
+          this.end = value;
+          void this.refresh();
+        });
+      });
+    new Setting(contentEl)
+      .setName('Group by')
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(TIME_REPORT_GROUP_LABELS)) dropdown.addOption(value, label);
+        dropdown.setValue(this.groupBy);
+        dropdown.onChange((value) => {
+          this.groupBy = value as TimeReportGroupBy;
+          void this.refresh();
+        });
+      });
+    new Setting(contentEl)
+      .setName('Export')
+      .setDesc('Writes the report into the vault under "Time Reports".')
+      .addButton((button) => {
+        this.exportButtons.push(button.setButtonText('CSV').onClick(() => void this.exportReport('csv')));
+      })
+      .addButton((button) => {
+        this.exportButtons.push(button.setButtonText('Markdown table').onClick(() => void this.exportReport('markdown')));
+      });
+
+    this.resultsEl = contentEl.createDiv({ cls: 'tps-gcm-time-report-results' });
+    void this.refresh();
+  }
+
+  onClose(): void {
+    this.renderToken += 1;
+    this.exportButtons = [];
+    this.contentEl.empty();
+  }
+
+  private async refresh(): Promise<void> {
+    const token = ++this.renderToken;
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) return;
+    this.setReport(null);
+    resultsEl.empty();
+    resultsEl.createEl('p', { text: 'Loading…', cls: 'tps-gcm-time-report-empty' });
+
+    let report: TimeReport;
+    try {
+      report = await this.service.buildReport({ start: this.start, end: this.end, groupBy: this.groupBy });
+    } catch (error) {
+      if (token !== this.renderToken) return;
+      logger.flowError('TimeReport', 'report:failed', error, { start: this.start, end: this.end, groupBy: this.groupBy });
+      resultsEl.empty();
+      resultsEl.createEl('p', { text: `Could not build the report: ${getErrorMessage(error)}`, cls: 'tps-gcm-time-report-empty' });
+      return;
+    }
+    if (token !== this.renderToken) return;
+    this.setReport(report);
+    resultsEl.empty();
+    if (report.rows.length === 0) {
+      resultsEl.createEl('p', { text: 'No tracked time in this range.', cls: 'tps-gcm-time-report-empty' });
+      return;
+    }
+
+    const table = resultsEl.createEl('table', { cls: 'tps-gcm-time-report-table' });
+    const headerRow = table.createEl('thead').createEl('tr');
+    for (const label of [TIME_REPORT_GROUP_LABELS[report.groupBy], 'Sessions', 'Time']) headerRow.createEl('th', { text: label });
+    const body = table.createEl('tbody');
+    for (const row of report.rows) {
+      const rowEl = body.createEl('tr');
+      rowEl.createEl('td', { text: row.label });
+      rowEl.createEl('td', { text: String(row.sessions) });
+      rowEl.createEl('td', { text: formatTimeReportDuration(row.minutes) });
+    }
+    const totalRow = table.createEl('tfoot').createEl('tr');
+    totalRow.createEl('td', { text: 'Total' });
+    totalRow.createEl('td', { text: String(report.sessionCount) });
+    totalRow.createEl('td', { text: formatTimeReportDuration(report.totalMinutes) });
+    if (report.groupBy === 'tag') {
+      resultsEl.createEl('p', {
+        text: 'Sessions with several tags count toward each of them, so rows can add up to more than the total.',
+        cls: 'tps-gcm-time-report-note',
+      });
+    }
+  }
+
+  /** Export stays disabled until a report with rows has loaded. */
+  private setReport(report: TimeReport | null): void {
+    this.report = report;
+    const disabled = !report || report.rows.length === 0;
+    for (const button of this.exportButtons) button.setDisabled(disabled);
+  }
+
+  private async exportReport(format: TimeReportExportFormat): Promise<void> {
+    if (!this.report || this.report.rows.length === 0) {
+      new Notice('TPS GCM: Nothing to export for this range.');
+      return;
+    }
+    const result = await this.service.exportReport(this.report, format);
+    new Notice(result.ok
+      ? `TPS GCM: Saved time report to ${result.path}.`
+      : `TPS GCM: Could not save time report: ${result.error || 'unknown error'}`);
+  }
+}
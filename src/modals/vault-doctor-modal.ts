@@ -0,0 +1,141 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import {
+  VAULT_DOCTOR_CATEGORY_LABELS,
+  groupVaultDoctorIssues,
+  type VaultDoctorIssue,
+} from '../services/vault-doctor-core';
+import type { VaultDoctorService } from '../services/vault-doctor-service';
+
+export class VaultDoctorModal extends Modal {
+  private issues: VaultDoctorIssue[] = [];
+  private readonly selected = new Set<string>();
+  private resultsEl: HTMLElement | null = null;
+  private fixButtonEl: HTMLButtonElement | null = null;
+  private busy = false;
+  private renderToken = 0;
+
+  constructor(app: App, private readonly service: VaultDoctorService) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('mod-tps-gcm');
+    this.modalEl.addClass('tps-gcm-vault-doctor-modal');
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Vault doctor' });
+
+    new Setting(contentEl)
+      .setDesc('Checks the vault without changing anything. Selected issues are fixed together and the outcome is saved as a report note. If any fix fails, the others are undone.')
+      .addButton((button) => button.setButtonText('Rescan').onClick(() => void this.refresh()))
+      .addButton((button) => {
+        this.fixButtonEl = button.buttonEl;
+        button.setButtonText('Fix selected').setCta().onClick(() => void this.fixSelected());
+      });
+
+    this.resultsEl = contentEl.createDiv({ cls: 'tps-gcm-vault-doctor-results' });
+    void this.refresh();
+  }
+
+  onClose(): void {
+    this.renderToken += 1;
+    this.contentEl.empty();
+  }
+
+  private async refresh(): Promise<void> {
+    const token = ++this.renderToken;
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) return;
+    resultsEl.empty();
+    resultsEl.createEl('p', { text: 'Scanning…', cls: 'tps-gcm-vault-doctor-empty' });
+
+    const scan = await this.service.scan();
+    if (token !== this.renderToken) return;
+    this.issues = scan.issues;
+    const keys = new Set(scan.issues.map((issue) => issue.key));
+    for (const key of Array.from(this.selected)) {
+      if (!keys.has(key)) this.selected.delete(key);
+    }
+    this.render(scan.scannedFiles);
+  }
+
+  private render(scannedFiles: number): void {
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) return;
+    resultsEl.empty();
+    const groups = groupVaultDoctorIssues(this.issues);
+    if (groups.length === 0) {
+      resultsEl.createEl('p', { text: `No issues found in ${scannedFiles} notes.`, cls: 'tps-gcm-vault-doctor-empty' });
+      this.updateFixButton();
+      return;
+    }
+
+    for (const group of groups) {
+      const groupEl = resultsEl.createDiv({ cls: 'tps-gcm-vault-doctor-group' });
+      const heading = groupEl.createEl('h3');
+      const groupToggle = heading.createEl('input', { type: 'checkbox' });
+      heading.createSpan({ text: `${group.title} (${group.issues.length})` });
+      groupEl.createEl('p', { text: `Fix: ${VAULT_DOCTOR_CATEGORY_LABELS[group.category].fix}.`, cls: 'tps-gcm-vault-doctor-fix' });
+
+      const issueToggles: HTMLInputElement[] = [];
+      const syncGroupToggle = () => {
+        const count = group.issues.filter((issue) => this.selected.has(issue.key)).length;
+        groupToggle.checked = count === group.issues.length;
+        groupToggle.indeterminate = count > 0 && count < group.issues.length;
+      };
+      for (const issue of group.issues) {
+        const row = groupEl.createEl('label', { cls: 'tps-gcm-vault-doctor-issue' });
+        const toggle = row.createEl('input', { type: 'checkbox' });
+        toggle.checked = this.selected.has(issue.key);
+        toggle.addEventListener('change', () => {
+          if (toggle.checked) this.selected.add(issue.key);
+          else this.selected.delete(issue.key);
+          syncGroupToggle();
+          this.updateFixButton();
+        });
+        issueToggles.push(toggle);
+        const link = row.createEl('a', { text: issue.line === undefined ? issue.path : `${issue.path}:${issue.line + 1}`, href: '#' });
+        link.addEventListener('click', (event) => {
+          event.preventDefault();
+          void this.app.workspace.openLinkText(issue.path, '', false);
+        });
+        row.createSpan({ text: issue.summary });
+      }
+      groupToggle.addEventListener('change', () => {
+        for (const issue of group.issues) {
+          if (groupToggle.checked) this.selected.add(issue.key);
+          else this.selected.delete(issue.key);
+        }
+        issueToggles.forEach((toggle) => { toggle.checked = groupToggle.checked; });
+        syncGroupToggle();
+        this.updateFixButton();
+      });
+      syncGroupToggle();
+    }
+    this.updateFixButton();
+  }
+
+  private updateFixButton(): void {
+    if (!this.fixButtonEl) return;
+    this.fixButtonEl.disabled = this.busy || this.selected.size === 0;
+    this.fixButtonEl.setText(this.selected.size > 0 ? `Fix selected (${this.selected.size})` : 'Fix selected');
+  }
+
+  private async fixSelected(): Promise<void> {
+    const selected = this.issues.filter((issue) => this.selected.has(issue.key));
+    if (selected.length === 0 || this.busy) return;
+    this.busy = true;
+    this.updateFixButton();
+    try {
+      const result = await this.service.fix(selected);
+      const fixed = result.outcomes.filter((outcome) => outcome.ok).length;
+      new Notice(result.reportPath
+        ? `TPS GCM: Fixed ${fixed} of ${result.outcomes.length} issues. Report saved to ${result.reportPath}.`
+        : `TPS GCM: Fixed ${fixed} of ${result.outcomes.length} issues. Could not save the report: ${result.error || 'unknown error'}`);
+      this.selected.clear();
+    } finally {
+      this.busy = false;
+    }
+    await this.refresh();
+  }
+}
@@ -0,0 +1,504 @@
+import { Menu, Setting, setIcon } from "obsidian";
+import { ActionRule, RuleAction, RuleCondition } from "../types";
+import { renderConditionEditor } from "./condition-editor";
+import { SettingsSectionContext } from "./ui-common";
+
+let selectedRuleId: string | null = null;
+let ruleFilterQuery = "";
+
+const ACTION_TYPE_OPTIONS: Array<{ value: RuleAction["type"]; label: string }> = [
+    { value: "set-property", label: "Set property" },
+    { value: "clear-property", label: "Clear property" },
+    { value: "add-tag", label: "Add tag" },
+    { value: "remove-tag", label: "Remove tag" },
+    { value: "set-status", label: "Set status" },
+    { value: "link-parent", label: "Link to parent" },
+    { value: "move-to-folder", label: "Move to folder" }
+];
+
+function createAction(type: RuleAction["type"]): RuleAction {
+    switch (type) {
+        case "set-property": return { type, key: "", value: "" };
+        case "clear-property": return { type, key: "" };
+        case "add-tag":
+        case "remove-tag": return { type, tag: "" };
+        case "set-status": return { type, status: "" };
+        case "link-parent": return { type, parent: "" };
+        case "move-to-folder": return { type, folder: "" };
+    }
+}
+
+function describeAction(action: RuleAction): string {
+    switch (action.type) {
+        case "set-property": return `Set ${action.key || "?"} = ${action.value || "(empty)"}`;
+        case "clear-property": return `Clear ${action.key || "?"}`;
+        case "add-tag": return `Add #${action.tag || "?"}`;
+        case "remove-tag": return `Remove #${action.tag || "?"}`;
+        case "set-status": return `Status → ${action.status || "?"}`;
+        case "link-parent": return `Parent → ${action.parent || "?"}`;
+        case "move-to-folder": return `Move → ${action.folder || "?"}`;
+    }
+}
+
+export class ActionSectionRenderer {
+    private readonly context: SettingsSectionContext;
+
+    constructor(context: SettingsSectionContext) {
+        this.context = context;
+    }
+
+    render(container: HTMLElement): void {
+        const { plugin, refresh, persistRuleChange } = this.context;
+        const section = container.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-section" });
+        section.id = "tps-gcm-settings-frontmatter-rules-action-rules";
+
+        section.createEl("h3", { text: "Action Rules" });
+        section.createEl("p", {
+            cls: "setting-item-description",
+            text: "Set or clear properties, add or remove tags, set the status, link a parent or move the note when the conditions match. " +
+                "Every matching rule runs, top to bottom, on the same triggers as the other rules. " +
+                "Actions are not undone when a note stops matching; add a second rule for that."
+        });
+
+        const toolbar = section.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-toolbar" });
+        this.createActionButton(toolbar, "+ Add action rule", async () => {
+            const rule = plugin.createDefaultActionRule();
+            plugin.settings.notebookNavigatorRules.actionRules.push(rule);
+            selectedRuleId = rule.id;
+            await persistRuleChange(false);
+            refresh();
+        }, true);
+        this.createActionButton(toolbar, "Apply active note", async () => {
+            await plugin.applyRulesToActiveFile(true);
+        });
+
+        if (plugin.settings.notebookNavigatorRules.actionRules.length === 0) {
+            section.createEl("p", {
+                cls: "setting-item-description",
+                text: "No action rules configured."
+            });
+            return;
+        }
+
+        const selected = this.getSelectedRule(plugin.settings.notebookNavigatorRules.actionRules);
+        if (!selected) {
+            return;
+        }
+
+        const shell = section.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-split" });
+        const listPane = shell.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-list-pane" });
+        const editorPane = shell.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-editor-pane" });
+
+        const filterRow = listPane.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-toolbar" });
+        const filterInput = filterRow.createEl("input", {
+            cls: "tps-gcm-settings-frontmatter-rules-filter-input",
+            attr: {
+                type: "search",
+                placeholder: "Filter rules..."
+            }
+        });
+        filterInput.value = ruleFilterQuery;
+        filterInput.addEventListener("input", () => {
+            ruleFilterQuery = filterInput.value.trim().toLowerCase();
+            refresh();
+        });
+
+        const visibleRules = plugin.settings.notebookNavigatorRules.actionRules
+            .map((rule, index) => ({ rule, index }))
+            .filter(({ rule, index }) => this.matchesFilter(rule, index + 1, ruleFilterQuery));
+
+        if (visibleRules.length === 0) {
+            listPane.createEl("p", {
+                cls: "setting-item-description",
+                text: "No rules match the current filter."
+            });
+        } else {
+            visibleRules.forEach(({ rule, index }) => {
+                this.renderRuleListItem(listPane, rule, index, selected.id);
+            });
+        }
+
+        this.renderRuleEditor(editorPane, selected.rule, selected.index);
+    }
+
+    private renderRuleListItem(listPane: HTMLElement, rule: ActionRule, index: number, activeId: string): void {
+        const row = listPane.createEl("button", { cls: "tps-gcm-settings-frontmatter-rules-list-item" });
+        row.type = "button";
+        if (rule.id === activeId) {
+            row.addClass("is-active");
+        }
+        row.addEventListener("click", () => {
+            selectedRuleId = rule.id;
+            this.context.refresh();
+        });
+
+        const title = row.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-list-item-title", text: `${index + 1}. ${rule.name || "Untitled Rule"}` });
+        if (!rule.enabled) {
+            title.addClass("is-muted");
+        }
+
+        row.createDiv({
+            cls: "tps-gcm-settings-frontmatter-rules-list-item-summary",
+            text: rule.actions.length > 0 ? rule.actions.map(describeAction).join(", ") : "No actions"
+        });
+
+        const meta = row.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-list-item-meta" });
+        this.renderMiniChip(meta, rule.enabled ? "Enabled" : "Disabled");
+        this.renderMiniChip(meta, `${rule.actions.length} actions`);
+        this.renderMiniChip(meta, `${rule.conditions?.length ?? 0} conditions`);
+    }
+
+    private renderRuleEditor(editorPane: HTMLElement, rule: ActionRule, index: number): void {
+        const { plugin, bindCommittedText, refresh, persistRuleChange } = this.context;
+        const ruleId = rule.id;
+
+        editorPane.createEl("h4", { text: `Editing Rule ${index + 1}` });
+
+        const topBar = editorPane.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-toolbar" });
+        this.createActionButton(topBar, "Previous", async () => {
+            const previous = plugin.settings.notebookNavigatorRules.actionRules[Math.max(0, index - 1)];
+            if (!previous) {
+                return;
+            }
+            selectedRuleId = previous.id;
+            refresh();
+        }, false, index === 0);
+        this.createActionButton(topBar, "Next", async () => {
+            const rules = plugin.settings.notebookNavigatorRules.actionRules;
+            const next = rules[Math.min(rules.length - 1, index + 1)];
+            if (!next) {
+                return;
+            }
+            selectedRuleId = next.id;
+            refresh();
+        }, false, index >= plugin.settings.notebookNavigatorRules.actionRules.length - 1);
+        this.createMenuButton(topBar, "Rule actions", (triggerEl) => {
+            this.openRuleActionsMenu(triggerEl, ruleId, index);
+        });
+
+        new Setting(editorPane)
+            .setName("Rule name")
+            .setDesc("Descriptive name for this rule.")
+            .addText((text) => {
+                text.setPlaceholder("Tag overdue tasks");
+                bindCommittedText(text, rule.name, async (value) => {
+                    const live = this.getLiveRule(ruleId);
+                    if (!live) {
+                        return;
+                    }
+                    live.name = value.trim();
+                }, true);
+            });
+
+        new Setting(editorPane)
+            .setName("Enabled")
+            .setDesc("Disable without deleting the rule.")
+            .addToggle((toggle) => {
+                toggle
+                    .setValue(rule.enabled)
+                    .onChange(async (value) => {
+                        const live = this.getLiveRule(ruleId);
+                        if (!live) {
+                            return;
+                        }
+                        live.enabled = value;
+                        await persistRuleChange(true);
+                        refresh();
+                    });
+            });
+
+        const actionsPanel = editorPane.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-sub-collapsible" });
+        actionsPanel.createEl("h5", { text: "Actions" });
+        this.renderActions(actionsPanel.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-sub-body" }), ruleId, rule);
+
+        const criteriaPanel = editorPane.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-sub-collapsible" });
+        criteriaPanel.createEl("h5", { text: "Match Criteria" });
+        const criteriaContent = criteriaPanel.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-sub-body" });
+
+        renderConditionEditor(
+            criteriaContent,
+            this.context,
+            rule,
+            () => this.getLiveRule(ruleId),
+            "No conditions configured. The rule does not run until it has at least one."
+        );
+    }
+
+    private renderActions(card: HTMLElement, ruleId: string, rule: ActionRule): void {
+        const { persistRuleChange, refresh } = this.context;
+
+        rule.actions.forEach((action, actionIndex) => {
+            const actionCard = card.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-card" });
+            const grid = actionCard.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-grid" });
+
+            const typeWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
+            typeWrap.createEl("label", { text: "Action" });
+            const typeSelect = typeWrap.createEl("select");
+            for (const option of ACTION_TYPE_OPTIONS) {
+                typeSelect.createEl("option", { value: option.value, text: option.label });
+            }
+            typeSelect.value = action.type;
+            typeSelect.addEventListener("change", () => {
+                const live = this.getLiveRule(ruleId);
+                if (!live || !live.actions[actionIndex]) {
+                    return;
+                }
+                live.actions[actionIndex] = createAction(typeSelect.value as RuleAction["type"]);
+                void persistRuleChange(false).then(() => refresh());
+            });
+
+            for (const input of this.getActionInputs(action)) {
+                const wrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field tps-gcm-settings-frontmatter-rules-condition-field-value" });
+                wrap.createEl("label", { text: input.label });
+                const field = wrap.createEl("input", { attr: { type: "text", placeholder: input.placeholder } });
+                field.value = input.value;
+                field.addEventListener("blur", () => {
+                    const live = this.getLiveRule(ruleId);
+                    const liveAction = live?.actions[actionIndex];
+                    if (!liveAction || liveAction.type !== action.type) {
+                        return;
+                    }
+                    input.commit(liveAction, field.value.trim());
+                    void persistRuleChange(true);
+                });
+            }
+
+            const deleteWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
+            const deleteButton = deleteWrap.createEl("button", { text: "✕", cls: "tps-gcm-settings-frontmatter-rules-compact-btn mod-warning" });
+            deleteButton.type = "button";
+            deleteButton.style.minHeight = "30px";
+            deleteButton.style.padding = "0 8px";
+            deleteButton.addEventListener("click", () => {
+                const live = this.getLiveRule(ruleId);
+                if (!live) {
+                    return;
+                }
+                live.actions = live.actions.filter((_, idx) => idx !== actionIndex);
+                void persistRuleChange(false).then(() => refresh());
+            });
+        });
+
+        new Setting(card)
+            .setName("Add action")
+            .addButton((button) => {
+                button
+                    .setButtonText("+ Add action")
+                    .onClick(async () => {
+                        const live = this.getLiveRule(ruleId);
+                        if (!live) {
+                            return;
+                        }
+                        live.actions.push(createAction("set-property"));
+                        await persistRuleChange(false);
+                        refresh();
+                    });
+            });
+    }
+
+    private getActionInputs(action: RuleAction): Array<{
+        label: string;
+        placeholder: string;
+        value: string;
+        commit: (live: RuleAction, value: string) => void;
+    }> {
+        switch (action.type) {
+            case "set-property":
+                return [
+                    { label: "Property", placeholder: "priority", value: action.key, commit: (live, value) => { if (live.type === "set-property") live.key = value.replace(/\s+/g, ""); } },
+                    { label: "Value", placeholder: "high", value: action.value, commit: (live, value) => { if (live.type === "set-property") live.value = value; } }
+                ];
+            case "clear-property":
+                return [{ label: "Property", placeholder: "snoozed", value: action.key, commit: (live, value) => { if (live.type === "clear-property") live.key = value.replace(/\s+/g, ""); } }];
+            case "add-tag":
+            case "remove-tag":
+                return [{ label: "Tag", placeholder: "overdue", value: action.tag, commit: (live, value) => { if (live.type === "add-tag" || live.type === "remove-tag") live.tag = value.replace(/^#+/, ""); } }];
+            case "set-status":
+                return [{ label: "Status", placeholder: "working", value: action.status, commit: (live, value) => { if (live.type === "set-status") live.status = value; } }];
+            case "link-parent":
+                return [{ label: "Parent note", placeholder: "[[Projects/Inbox]]", value: action.parent, commit: (live, value) => { if (live.type === "link-parent") live.parent = value; } }];
+            case "move-to-folder":
+                return [{ label: "Folder", placeholder: "Archive", value: action.folder, commit: (live, value) => { if (live.type === "move-to-folder") live.folder = value; } }];
+        }
+    }
+
+    private openRuleActionsMenu(triggerEl: HTMLElement, ruleId: string, index: number): void {
+        const { plugin, refresh, persistRuleChange } = this.context;
+        const rule = this.getLiveRule(ruleId);
+        if (!rule) {
+            return;
+        }
+        const menu = new Menu();
+
+        menu.addItem((item) => {
+            item
+                .setTitle(rule.enabled ? "Disable rule" : "Enable rule")
+                .setIcon(rule.enabled ? "toggle-right" : "toggle-left")
+                .onClick(() => {
+                    void (async () => {
+                        const live = this.getLiveRule(ruleId);
+                        if (!live) {
+                            return;
+                        }
+                        live.enabled = !live.enabled;
+                        await persistRuleChange(true);
+                        refresh();
+                    })();
+                });
+        });
+        menu.addSeparator();
+        menu.addItem((item) => {
+            item
+                .setTitle("Move up")
+                .setIcon("arrow-up")
+                .setDisabled(index === 0)
+                .onClick(() => {
+                    void (async () => {
+                        if (index === 0) return;
+                        const rules = plugin.settings.notebookNavigatorRules.actionRules;
+                        [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+                        await persistRuleChange(false);
+                        refresh();
+                    })();
+                });
+        });
+        menu.addItem((item) => {
+            item
+                .setTitle("Move down")
+                .setIcon("arrow-down")
+                .setDisabled(index >= plugin.settings.notebookNavigatorRules.actionRules.length - 1)
+                .onClick(() => {
+                    void (async () => {
+                        const rules = plugin.settings.notebookNavigatorRules.actionRules;
+                        if (index >= rules.length - 1) return;
+                        [rules[index + 1], rules[index]] = [rules[index], rules[index + 1]];
+                        await persistRuleChange(false);
+                        refresh();
+                    })();
+                });
+        });
+        menu.addItem((item) => {
+            item
+                .setTitle("Duplicate")
+                .setIcon("copy")
+                .onClick(() => {
+                    void (async () => {
+                        const live = this.getLiveRule(ruleId);
+                        if (!live) {
+                            return;
+                        }
+                        const clone = plugin.createDefaultActionRule();
+                        clone.name = live.name + " (Copy)";
+                        clone.enabled = live.enabled;
+                        clone.match = live.match;
+                        clone.conditions = this.ensureRuleConditions(live).map((condition) => ({ ...condition }));
+                        clone.actions = live.actions.map((action) => ({ ...action }));
+                        plugin.settings.notebookNavigatorRules.actionRules.splice(index + 1, 0, clone);
+                        selectedRuleId = clone.id;
+                        await persistRuleChange(false);
+                        refresh();
+                    })();
+                });
+        });
+        menu.addSeparator();
+        menu.addItem((item) => {
+            item
+                .setTitle("Delete")
+                .setIcon("trash")
+                .onClick(() => {
+                    void (async () => {
+                        plugin.settings.notebookNavigatorRules.actionRules = plugin.settings.notebookNavigatorRules.actionRules.filter((existing) => existing.id !== ruleId);
+                        if (selectedRuleId === ruleId) {
+                            selectedRuleId = plugin.settings.notebookNavigatorRules.actionRules[0]?.id ?? null;
+                        }
+                        await persistRuleChange(false);
+                        refresh();
+                    })();
+                });
+        });
+
+        this.showMenuBelowElement(menu, triggerEl);
+    }
+
+    private getSelectedRule(rules: ActionRule[]): { id: string; rule: ActionRule; index: number } | null {
+        if (rules.length === 0) {
+            selectedRuleId = null;
+            return null;
+        }
+        if (!selectedRuleId || !rules.some((rule) => rule.id === selectedRuleId)) {
+            selectedRuleId = rules[0].id;
+        }
+        const index = rules.findIndex((rule) => rule.id === selectedRuleId);
+        if (index < 0) {
+            return null;
+        }
+        return {
+            id: selectedRuleId,
+            rule: rules[index],
+            index
+        };
+    }
+
+    private createActionButton(
+        container: HTMLElement,
+        label: string,
+        onClick: () => Promise<void>,
+        isPrimary = false,
+        isDisabled = false
+    ): HTMLButtonElement {
+        const button = container.createEl("button", { text: label });
+        button.type = "button";
+        button.disabled = isDisabled;
+        if (isPrimary) {
+            button.addClass("mod-cta");
+        }
+        button.addEventListener("click", () => {
+            void onClick();
+        });
+        return button;
+    }
+
+    private renderMiniChip(container: HTMLElement, label: string): void {
+        container.createSpan({ cls: "tps-gcm-settings-frontmatter-rules-mini-chip", text: label });
+    }
+
+    private createMenuButton(
+        container: HTMLElement,
+        label: string,
+        onOpen: (el: HTMLElement) => void
+    ): HTMLButtonElement {
+        const button = container.createEl("button", { cls: "clickable-icon" });
+        button.type = "button";
+        button.ariaLabel = label;
+        setIcon(button, "more-horizontal");
+        button.addEventListener("click", (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onOpen(button);
+        });
+        return button;
+    }
+
+    private showMenuBelowElement(menu: Menu, el: HTMLElement): void {
+        const rect = el.getBoundingClientRect();
+        menu.showAtPosition({ x: rect.left, y: rect.bottom + 4 });
+    }
+
+    private getLiveRule(id: string): ActionRule | null {
+        return this.context.plugin.settings.notebookNavigatorRules.actionRules.find((rule) => rule.id === id) ?? null;
+    }
+
+    private ensureRuleConditions(rule: ActionRule): RuleCondition[] {
+        if (!rule.conditions) {
+            rule.conditions = [];
+        }
+        return rule.conditions;
+    }
+
+    private matchesFilter(rule: ActionRule, index: number, query: string): boolean {
+        if (!query) {
+            return true;
+        }
+        const target = `${index} ${rule.name} ${rule.actions.map(describeAction).join(" ")}`.toLowerCase();
+        return target.includes(query);
+    }
+}
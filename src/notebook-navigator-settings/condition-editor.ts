@@ -0,0 +1,174 @@
+import { Setting } from "obsidian";
+import { RuleCondition, RuleMatchMode } from "../types";
+import { getValidOperators } from "./operators";
+import {
+  CONDITION_SOURCE_OPTIONS,
+  conditionSourceHasField,
+  createDefaultCondition,
+  getConditionValuePlaceholder,
+  getOperatorLabel,
+  normalizeConditionSource,
+  normalizeRuleMatchMode,
+  normalizeSmartOperator,
+  SettingsSectionContext,
+  smartOperatorNeedsValue
+} from "./ui-common";
+
+/** A rule whose conditions are edited with renderConditionEditor. */
+export interface ConditionRule {
+  match: RuleMatchMode;
+  conditions: RuleCondition[];
+}
+
+/**
+ * Match mode, condition rows and "Add condition" for one rule. `getLiveRule`
+ * re-reads the rule from settings on every edit, so a rule deleted or replaced
+ * while the editor is open is left alone.
+ */
+export function renderConditionEditor(
+  card: HTMLElement,
+  context: SettingsSectionContext,
+  rule: ConditionRule,
+  getLiveRule: () => ConditionRule | null,
+  emptyText: string
+): void {
+  const { persistRuleChange, refresh } = context;
+  const ensureConditions = (target: ConditionRule): RuleCondition[] => {
+    if (!target.conditions) {
+      target.conditions = [];
+    }
+    return target.conditions;
+  };
+  const getLiveCondition = (index: number): RuleCondition | null => {
+    const live = getLiveRule();
+    return live ? ensureConditions(live)[index] ?? null : null;
+  };
+  const conditions = ensureConditions(rule);
+  rule.match = normalizeRuleMatchMode(rule.match);
+
+  new Setting(card)
+    .setName("Match mode")
+    .addDropdown((dropdown) => {
+      dropdown
+        .addOption("all", "All conditions")
+        .addOption("any", "Any condition")
+        .setValue(rule.match)
+        .onChange(async (value) => {
+          const live = getLiveRule();
+          if (!live) {
+            return;
+          }
+          live.match = normalizeRuleMatchMode(value);
+          await persistRuleChange(true);
+        });
+    });
+
+  if (conditions.length === 0) {
+    card.createEl("p", { cls: "setting-item-description", text: emptyText });
+  }
+
+  conditions.forEach((condition, conditionIndex) => {
+    const conditionCard = card.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-card" });
+    const grid = conditionCard.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-grid" });
+
+    const sourceWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
+    sourceWrap.createEl("label", { text: "Source" });
+    const sourceSelect = sourceWrap.createEl("select");
+    for (const source of CONDITION_SOURCE_OPTIONS) {
+      sourceSelect.createEl("option", { value: source.value, text: source.label });
+    }
+    sourceSelect.value = condition.source;
+    sourceSelect.addEventListener("change", () => {
+      const liveCondition = getLiveCondition(conditionIndex);
+      if (!liveCondition) {
+        return;
+      }
+      liveCondition.source = normalizeConditionSource(sourceSelect.value);
+      if (!conditionSourceHasField(liveCondition.source)) {
+        liveCondition.field = "";
+      }
+      void persistRuleChange(false).then(() => refresh());
+    });
+
+    const operatorWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
+    operatorWrap.createEl("label", { text: "Operator" });
+    const operatorSelect = operatorWrap.createEl("select");
+    for (const operator of getValidOperators(condition.source)) {
+      operatorSelect.createEl("option", { value: operator, text: getOperatorLabel(operator) });
+    }
+    operatorSelect.value = condition.operator;
+    operatorSelect.addEventListener("change", () => {
+      const liveCondition = getLiveCondition(conditionIndex);
+      if (!liveCondition) {
+        return;
+      }
+      liveCondition.operator = normalizeSmartOperator(operatorSelect.value);
+      if (!smartOperatorNeedsValue(liveCondition.operator)) {
+        liveCondition.value = "";
+      }
+      void persistRuleChange(true).then(() => refresh());
+    });
+
+    if (conditionSourceHasField(condition.source)) {
+      const fieldWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
+      fieldWrap.createEl("label", { text: "Field" });
+      const fieldInput = fieldWrap.createEl("input", { attr: { type: "text", placeholder: "status" } });
+      fieldInput.value = String(condition.field || "");
+      fieldInput.addEventListener("blur", () => {
+        const liveCondition = getLiveCondition(conditionIndex);
+        if (!liveCondition) {
+          return;
+        }
+        liveCondition.field = fieldInput.value.trim();
+        void persistRuleChange(false);
+      });
+    }
+
+    if (smartOperatorNeedsValue(condition.operator)) {
+      const valueWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field tps-gcm-settings-frontmatter-rules-condition-field-value" });
+      valueWrap.createEl("label", { text: "Value" });
+      const valueInput = valueWrap.createEl("input", {
+        attr: { type: "text", placeholder: getConditionValuePlaceholder(condition) }
+      });
+      valueInput.value = String(condition.value || "");
+      valueInput.addEventListener("blur", () => {
+        const liveCondition = getLiveCondition(conditionIndex);
+        if (!liveCondition) {
+          return;
+        }
+        liveCondition.value = valueInput.value;
+        void persistRuleChange(false);
+      });
+    }
+
+    const deleteWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
+    const deleteButton = deleteWrap.createEl("button", { text: "✕", cls: "tps-gcm-settings-frontmatter-rules-compact-btn mod-warning" });
+    deleteButton.type = "button";
+    deleteButton.style.minHeight = "30px";
+    deleteButton.style.padding = "0 8px";
+    deleteButton.addEventListener("click", () => {
+      const live = getLiveRule();
+      if (!live) {
+        return;
+      }
+      live.conditions = ensureConditions(live).filter((_, idx) => idx !== conditionIndex);
+      void persistRuleChange(false).then(() => refresh());
+    });
+  });
+
+  new Setting(card)
+    .setName("Add condition")
+    .addButton((button) => {
+      button
+        .setButtonText("+ Add condition")
+        .onClick(async () => {
+          const live = getLiveRule();
+          if (!live) {
+            return;
+          }
+          ensureConditions(live).push(createDefaultCondition());
+          await persistRuleChange(false);
+          refresh();
+        });
+    });
+}
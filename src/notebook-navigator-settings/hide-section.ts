@@ -1,18 +1,7 @@
 import { Menu, Setting, setIcon } from "obsidian";
 import { HideRule, RuleCondition } from "../types";
-import {
-    CONDITION_SOURCE_OPTIONS,
-    conditionSourceHasField,
-    createDefaultCondition,
-    getConditionValuePlaceholder,
-    getOperatorLabel,
-    normalizeConditionSource,
-    normalizeRuleMatchMode,
-    normalizeSmartOperator,
-    smartOperatorNeedsValue,
-    SettingsSectionContext
-} from "./ui-common";
-import { getValidOperators } from "./operators";
+import { renderConditionEditor } from "./condition-editor";
+import { SettingsSectionContext } from "./ui-common";
 
 let selectedRuleId: string | null = null;
 let ruleFilterQuery = "";
@@ -240,179 +229,7 @@ export class HideSectionRenderer {
         criteriaPanel.createEl("h5", { text: "Match Criteria" });
         const criteriaContent = criteriaPanel.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-sub-body" });
 
-        this.renderConditionCriteria(criteriaContent, ruleId, rule);
-    }
-
-    private renderConditionCriteria(card: HTMLElement, ruleId: string, rule: HideRule): void {
-        const { persistRuleChange, refresh } = this.context;
-        const conditions = this.ensureRuleConditions(rule);
-        rule.match = normalizeRuleMatchMode(rule.match);
-
-        new Setting(card)
-            .setName("Match mode")
-            .addDropdown((dropdown) => {
-                dropdown
-                    .addOption("all", "All conditions")
-                    .addOption("any", "Any condition")
-                    .setValue(rule.match)
-                    .onChange(async (value) => {
-                        const live = this.getLiveRule(ruleId);
-                        if (!live) {
-                            return;
-                        }
-                        live.match = normalizeRuleMatchMode(value);
-                        await persistRuleChange(true);
-                    });
-            });
-
-        if (conditions.length === 0) {
-            card.createEl("p", {
-                cls: "setting-item-description",
-                text: "No conditions configured (matches all files)."
-            });
-        }
-
-        conditions.forEach((condition, conditionIndex) => {
-            const conditionCard = card.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-card" });
-
-            const grid = conditionCard.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-grid" });
-
-            const sourceWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
-            sourceWrap.createEl("label", { text: "Source" });
-            const sourceSelect = sourceWrap.createEl("select");
-            for (const source of CONDITION_SOURCE_OPTIONS) {
-                sourceSelect.createEl("option", { value: source.value, text: source.label });
-            }
-            sourceSelect.value = condition.source;
-            sourceSelect.addEventListener("change", () => {
-                const live = this.getLiveRule(ruleId);
-                if (!live) {
-                    return;
-                }
-                const liveCondition = this.ensureRuleConditions(live)[conditionIndex];
-                if (!liveCondition) {
-                    return;
-                }
-                liveCondition.source = normalizeConditionSource(sourceSelect.value);
-                if (!conditionSourceHasField(liveCondition.source)) {
-                    liveCondition.field = "";
-                }
-                void persistRuleChange(false).then(() => refresh());
-            });
-
-            const operatorWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
-            operatorWrap.createEl("label", { text: "Operator" });
-            const operatorSelect = operatorWrap.createEl("select");
-            for (const operator of getValidOperators(condition.source)) {
-                operatorSelect.createEl("option", { value: operator, text: getOperatorLabel(operator) });
-            }
-            operatorSelect.value = condition.operator;
-            operatorSelect.addEventListener("change", () => {
-                const live = this.getLiveRule(ruleId);
-                if (!live) {
-                    return;
-                }
-                const liveCondition = this.ensureRuleConditions(live)[conditionIndex];
-                if (!liveCondition) {
-                    return;
-                }
-                const newOp = normalizeSmartOperator(operatorSelect.value);
-                liveCondition.operator = newOp;
-
-                // Clear value if operator is unary
-                if (
-                    newOp === "exists" ||
-                    newOp === "!exists" ||
-                    newOp === "is-not-empty" ||
-                    newOp === "has-open-checkboxes" ||
-                    newOp === "!has-open-checkboxes" ||
-                    newOp === "is-today" ||
-                    newOp === "!is-today"
-                ) {
-                    liveCondition.value = "";
-                }
-
-                void persistRuleChange(true).then(() => refresh());
-            });
-
-            if (conditionSourceHasField(condition.source)) {
-                const fieldWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
-                fieldWrap.createEl("label", { text: "Field" });
-                const fieldInput = fieldWrap.createEl("input", {
-                    attr: {
-                        type: "text",
-                        placeholder: "status"
-                    }
-                });
-                fieldInput.value = String(condition.field || "");
-                fieldInput.addEventListener("blur", () => {
-                    const live = this.getLiveRule(ruleId);
-                    if (!live) {
-                        return;
-                    }
-                    const liveCondition = this.ensureRuleConditions(live)[conditionIndex];
-                    if (!liveCondition) {
-                        return;
-                    }
-                    liveCondition.field = fieldInput.value.trim();
-                    void persistRuleChange(false);
-                });
-            }
-
-            if (smartOperatorNeedsValue(condition.operator)) {
-                const valueWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field tps-gcm-settings-frontmatter-rules-condition-field-value" });
-                valueWrap.createEl("label", { text: "Value" });
-                const valueInput = valueWrap.createEl("input", {
-                    attr: {
-                        type: "text",
-                        placeholder: getConditionValuePlaceholder(condition)
-                    }
-                });
-                valueInput.value = String(condition.value || "");
-                valueInput.addEventListener("blur", () => {
-                    const live = this.getLiveRule(ruleId);
-                    if (!live) {
-                        return;
-                    }
-                    const liveCondition = this.ensureRuleConditions(live)[conditionIndex];
-                    if (!liveCondition) {
-                        return;
-                    }
-                    liveCondition.value = valueInput.value;
-                    void persistRuleChange(false);
-                });
-            }
-
-            const deleteWrap = grid.createDiv({ cls: "tps-gcm-settings-frontmatter-rules-condition-field" });
-            const deleteButton = deleteWrap.createEl("button", { text: "✕", cls: "tps-gcm-settings-frontmatter-rules-compact-btn mod-warning" });
-            deleteButton.type = "button";
-            deleteButton.style.minHeight = "30px";
-            deleteButton.style.padding = "0 8px";
-            deleteButton.addEventListener("click", () => {
-                const live = this.getLiveRule(ruleId);
-                if (!live) {
-                    return;
-                }
-                live.conditions = this.ensureRuleConditions(live).filter((_, idx) => idx !== conditionIndex);
-                void persistRuleChange(false).then(() => refresh());
-            });
-        });
-
-        new Setting(card)
-            .setName("Add condition")
-            .addButton((button) => {
-                button
-                    .setButtonText("+ Add condition")
-                    .onClick(async () => {
-                        const live = this.getLiveRule(ruleId);
-                        if (!live) {
-                            return;
-                        }
-                        this.ensureRuleConditions(live).push(createDefaultCondition());
-                        await persistRuleChange(false);
-                        refresh();
-                    });
-            });
+        renderConditionEditor(criteriaContent, this.context, rule, () => this.getLiveRule(ruleId), "No conditions configured (matches all files).");
     }
 
     private openRuleActionsMenu(triggerEl: HTMLElement, ruleId: string, index: number): void {
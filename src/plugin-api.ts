@@ -18,6 +18,8 @@ import {
     getDailyNotePathForIsoDate,
     parseDailyNoteFileDate,
 } from './utils/daily-note-task-schedule';
+import { getEnabledPeriodicNoteKinds, getPeriodicNotePath, parsePeriodicNotePath } from './utils/periodic-notes';
+import type { PeriodicNoteKind } from './types';
 import { tpsBaseFormulaService } from './services/tps-base-formula-service';
 import {
     parseTaskTagValues,
@@ -32,7 +34,10 @@ import type {
     ItemHistoryQueryOptions,
     ItemHistoryTaskReference,
 } from './services/item-history-service';
+import type { ItemHistoryRevertOptions } from './services/item-history-revert-service';
 import type { FilePropertiesMutationCause } from './services/file-properties-service';
+import type { IcsExportCriteria } from './services/ics-export-service';
+import type { IcsImportOptions } from './services/ics-import-service';
 
 type ChecklistTaskState = string;
 
@@ -876,6 +881,13 @@ export function setupPluginApi(plugin: TPSGlobalContextMenuPlugin): void {
                 inheritUnscheduled: dailyNoteTaskScheduleInheritanceEnabled(plugin.settings),
             }),
         },
+        periodicNotes: {
+            version: 1,
+            enabledKinds: () => getEnabledPeriodicNoteKinds(plugin.settings.periodicNotes),
+            pathFor: (kind: PeriodicNoteKind, isoDate: string) => getPeriodicNotePath(plugin.settings.periodicNotes, kind, isoDate),
+            ensureFor: (kind: PeriodicNoteKind, isoDate: string) => plugin.noteOperationService.ensurePeriodicNote(kind, isoDate),
+            parsePath: (path: string) => parsePeriodicNotePath(plugin.settings.periodicNotes, path),
+        },
         configuration: {
             version: 1,
             isInlinePropertyAllowed: (key: unknown): boolean => {
@@ -952,6 +964,8 @@ export function setupPluginApi(plugin: TPSGlobalContextMenuPlugin): void {
         identityMigration: plugin.identityMigrationService,
         cardContent: plugin.cardContentService,
         timeTracking: plugin.timeTrackingService,
+        timeReports: plugin.timeReportService,
+        timeTrackingFocus: plugin.timeTrackingFocusService,
         menus: {
             version: 1,
             addToNativeMenu: (
@@ -985,16 +999,29 @@ export function setupPluginApi(plugin: TPSGlobalContextMenuPlugin): void {
                 plugin.itemHistoryService.resolveEntity(reference),
             query: (reference: string | ItemHistoryTaskReference, options?: ItemHistoryQueryOptions) =>
                 plugin.itemHistoryService.query(reference, options),
+            revert: (eventId: string, options?: ItemHistoryRevertOptions) =>
+                plugin.itemHistoryRevertService.revert(eventId, options),
+            restoreBefore: (eventId: string, options?: ItemHistoryRevertOptions) =>
+                plugin.itemHistoryRevertService.restoreBefore(eventId, options),
+            revertOperation: (operationId: string, options?: ItemHistoryRevertOptions) =>
+                plugin.itemHistoryRevertService.revertOperation(operationId, options),
             stats: () => plugin.itemHistoryService.stats(),
             prune: () => plugin.itemHistoryService.prune(),
             clear: () => plugin.itemHistoryService.clear(),
         },
+        calendar: {
+            version: 1,
+            exportIcs: (criteria?: IcsExportCriteria) => plugin.icsExportService.exportIcs(criteria),
+            importIcs: (file: TFile | string, options?: IcsImportOptions) => plugin.icsImportService.importIcs(file, options),
+        },
         ui: {
             shouldForceBaseLinkPreview: () => plugin.settings.enableBasesForcedLinkPreview === true,
         },
         diagnostics: {
             version: 1,
             getOpenerDecision: (targetPath?: string | null) => plugin.getOpenerDiagnostic(targetPath),
+            getIdentityConflicts: () => plugin.identityConflictService.getConflicts(),
+            checkIdentityConflicts: () => plugin.identityConflictService.checkNow(),
         },
         completedCheckboxes: {
             revealForFile: (filePath: string, lineNumber?: number) =>
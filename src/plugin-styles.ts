@@ -302,6 +302,23 @@ export const PLUGIN_STYLES = `
         cursor: pointer;
       }
 
+      .tps-list-native-blocked {
+        margin-left: 6px;
+        padding: 0 6px;
+        border-radius: 999px;
+        background: var(--background-modifier-error);
+        color: var(--text-error);
+        font-size: var(--font-ui-smaller);
+        white-space: nowrap;
+      }
+
+      .tps-list-native-property--tracked-over-budget,
+      .tps-log-base-cell.is-over-budget,
+      .tps-gcm-badge-tracked.is-over-budget,
+      .tps-gcm-top-property-text.is-over-budget {
+        color: var(--text-error);
+      }
+
       .tps-list-native-property-checkbox {
         width: 1em;
         height: 1em;
@@ -379,6 +396,177 @@ export const PLUGIN_STYLES = `
         font-size: var(--font-ui-small);
       }
 
+      .tps-list-calendar {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        padding: 8px 12px 16px;
+        font-size: var(--font-ui-small);
+      }
+
+      .tps-list-calendar-toolbar {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        flex-wrap: wrap;
+      }
+
+      .tps-list-calendar-nav,
+      .tps-list-calendar-ranges {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .tps-list-calendar-title {
+        flex: 1 1 auto;
+        font-weight: 600;
+        color: var(--text-normal);
+      }
+
+      .tps-list-calendar-range.is-active {
+        background: var(--interactive-accent);
+        color: var(--text-on-accent);
+      }
+
+      .tps-list-calendar-grid {
+        display: grid;
+        grid-template-columns: repeat(7, minmax(0, 1fr));
+        border-top: 1px solid var(--background-modifier-border);
+        border-left: 1px solid var(--background-modifier-border);
+      }
+
+      .tps-list-calendar-weekday {
+        padding: 4px 6px;
+        color: var(--text-muted);
+        border-right: 1px solid var(--background-modifier-border);
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+
+      .tps-list-calendar-grid .tps-list-calendar-day {
+        min-height: 96px;
+        padding: 4px;
+        border-right: 1px solid var(--background-modifier-border);
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+
+      .tps-list-calendar-grid--week .tps-list-calendar-day {
+        min-height: 240px;
+      }
+
+      .tps-list-calendar-day.is-outside {
+        background: var(--background-secondary);
+        color: var(--text-faint);
+      }
+
+      .tps-list-calendar-day.is-today .tps-list-calendar-day-number {
+        color: var(--text-accent);
+        font-weight: 700;
+      }
+
+      .tps-list-calendar-day-items {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+        min-width: 0;
+      }
+
+      .tps-list-calendar-day-view .tps-list-calendar-day {
+        display: grid;
+        grid-template-columns: 64px minmax(0, 1fr);
+        gap: 8px;
+        min-height: 32px;
+        padding: 2px 4px;
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+
+      .tps-list-calendar-slot-label {
+        color: var(--text-muted);
+        font-variant-numeric: tabular-nums;
+      }
+
+      .tps-list-calendar-item {
+        display: flex;
+        gap: 4px;
+        min-width: 0;
+        padding: 1px 6px;
+        border-radius: 4px;
+        background: color-mix(in srgb, var(--interactive-accent) 16%, transparent);
+        color: var(--text-normal);
+        cursor: pointer;
+        touch-action: pan-y;
+      }
+
+      .tps-list-calendar-item--note {
+        background: color-mix(in srgb, var(--color-blue) 16%, transparent);
+      }
+
+      .tps-list-calendar-item.is-done .tps-list-calendar-item-title {
+        color: var(--text-muted);
+        text-decoration: line-through;
+      }
+
+      .tps-list-calendar-item-time {
+        color: var(--text-muted);
+        font-variant-numeric: tabular-nums;
+      }
+
+      .tps-list-calendar-item-title {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .tps-list-calendar-unscheduled {
+        padding: 8px;
+        border: 1px dashed var(--background-modifier-border);
+        border-radius: 6px;
+      }
+
+      .tps-list-calendar-unscheduled-label {
+        margin-bottom: 4px;
+        color: var(--text-muted);
+      }
+
+      .tps-list-timeline-scale,
+      .tps-list-timeline-track {
+        display: grid;
+        grid-template-columns: repeat(var(--tps-list-timeline-columns, 7), minmax(0, 1fr));
+      }
+
+      .tps-list-timeline-tick {
+        padding: 2px 4px;
+        color: var(--text-muted);
+        border-left: 1px solid var(--background-modifier-border);
+        font-variant-numeric: tabular-nums;
+      }
+
+      .tps-list-timeline-tick.is-today {
+        color: var(--text-accent);
+        font-weight: 700;
+      }
+
+      .tps-list-timeline-track {
+        position: relative;
+        min-height: calc(var(--tps-list-timeline-rows, 1) * 26px + 8px);
+        background-image: linear-gradient(to right, var(--background-modifier-border) 1px, transparent 1px);
+        background-size: calc(100% / var(--tps-list-timeline-columns, 7)) 100%;
+      }
+
+      .tps-list-timeline-bar {
+        position: absolute;
+        top: calc(var(--tps-list-timeline-row, 0) * 26px + 4px);
+        height: 22px;
+        align-items: center;
+        box-sizing: border-box;
+      }
+
+      .tps-list-timeline-empty {
+        grid-column: 1 / -1;
+        padding: 12px;
+        color: var(--text-muted);
+      }
+
       .tps-log-base {
         display: flex;
         flex-direction: column;
@@ -567,6 +755,13 @@ export const PLUGIN_STYLES = `
         box-shadow: inset 0 1px color-mix(in srgb, var(--interactive-accent) 35%, var(--background-modifier-border));
       }
 
+      .tps-log-base-row--subtotal .tps-log-base-cell {
+        background: transparent;
+        color: var(--text-muted);
+        font-weight: 650;
+        box-shadow: inset 0 1px var(--background-modifier-border);
+      }
+
       .tps-log-base-group-row .tps-log-base-cell--group {
         background: color-mix(in srgb, var(--background-secondary) 88%, var(--background-primary));
         color: var(--text-normal);
@@ -1260,6 +1455,140 @@ export const PLUGIN_STYLES = `
         width: min(640px, calc(100vw - 32px));
       }
 
+      .tps-gcm-time-report-modal {
+        width: min(640px, calc(100vw - 32px));
+      }
+
+      .tps-gcm-time-report-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin-top: 8px;
+      }
+
+      .tps-gcm-time-report-table th,
+      .tps-gcm-time-report-table td {
+        padding: 4px 8px;
+        border-bottom: 1px solid var(--background-modifier-border);
+        text-align: left;
+      }
+
+      .tps-gcm-time-report-table th:not(:first-child),
+      .tps-gcm-time-report-table td:not(:first-child) {
+        text-align: right;
+        font-variant-numeric: tabular-nums;
+      }
+
+      .tps-gcm-time-report-table tfoot td {
+        font-weight: var(--font-semibold);
+        border-bottom: none;
+      }
+
+      .tps-gcm-time-report-empty,
+      .tps-gcm-time-report-note {
+        color: var(--text-muted);
+        font-size: var(--font-ui-small);
+      }
+
+      .tps-gcm-vault-doctor-modal {
+        width: min(720px, calc(100vw - 32px));
+      }
+
+      .tps-gcm-vault-doctor-group h3 {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin: 16px 0 4px;
+        font-size: var(--font-ui-medium);
+      }
+
+      .tps-gcm-vault-doctor-fix {
+        color: var(--text-muted);
+        font-size: var(--font-ui-small);
+        margin: 0 0 6px;
+      }
+
+      .tps-gcm-vault-doctor-issue {
+        display: flex;
+        align-items: flex-start;
+        gap: 8px;
+        padding: 3px 0;
+      }
+
+      .tps-gcm-vault-doctor-issue a {
+        font-family: var(--font-monospace);
+        font-size: var(--font-ui-small);
+        white-space: nowrap;
+      }
+
+      .tps-gcm-vault-doctor-empty {
+        color: var(--text-muted);
+        font-size: var(--font-ui-small);
+      }
+
+      .tps-gcm-rule-dry-run-modal {
+        width: min(720px, calc(100vw - 32px));
+      }
+
+      .tps-gcm-rule-dry-run-results h3 {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin: 16px 0 4px;
+        font-size: var(--font-ui-medium);
+      }
+
+      .tps-gcm-rule-dry-run-file {
+        display: flex;
+        align-items: flex-start;
+        gap: 8px;
+        padding: 3px 0;
+      }
+
+      .tps-gcm-rule-dry-run-file a,
+      .tps-gcm-rule-dry-run-excluded a {
+        font-family: var(--font-monospace);
+        font-size: var(--font-ui-small);
+      }
+
+      .tps-gcm-rule-dry-run-changes {
+        margin: 2px 0 0;
+        padding-left: 18px;
+        color: var(--text-muted);
+        font-size: var(--font-ui-small);
+      }
+
+      .tps-gcm-rule-dry-run-excluded {
+        margin-top: 12px;
+      }
+
+      .tps-gcm-rule-dry-run-summary,
+      .tps-gcm-rule-dry-run-empty {
+        color: var(--text-muted);
+        font-size: var(--font-ui-small);
+      }
+
+      .tps-gcm-user-action,
+      .tps-gcm-child-template {
+        margin-bottom: 10px;
+        border: 1px solid var(--background-modifier-border);
+        border-radius: 6px;
+      }
+
+      .tps-gcm-user-action-body,
+      .tps-gcm-child-template-body {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        padding: 10px;
+      }
+
+      .tps-gcm-user-action-controls,
+      .tps-gcm-child-template-controls {
+        display: flex;
+        justify-content: flex-end;
+        gap: 6px;
+      }
+
       .tps-gcm-ai-task-modal {
         width: min(720px, calc(100vw - 32px));
       }
@@ -1310,6 +1639,25 @@ export const PLUGIN_STYLES = `
         background: var(--interactive-accent);
       }
 
+      .tps-gcm-create-task-detected mark.tps-gcm-create-task-token--tag {
+        color: var(--tag-color);
+        background: var(--tag-background);
+      }
+
+      .tps-gcm-create-task-detected mark.tps-gcm-create-task-token--priority {
+        background: var(--color-red);
+      }
+
+      .tps-gcm-create-task-detected mark.tps-gcm-create-task-token--estimate,
+      .tps-gcm-create-task-detected mark.tps-gcm-create-task-token--recurrence {
+        background: var(--color-purple);
+      }
+
+      .tps-gcm-create-task-detected mark.tps-gcm-create-task-token--target,
+      .tps-gcm-create-task-detected mark.tps-gcm-create-task-token--property {
+        background: var(--color-green);
+      }
+
       .tps-gcm-create-task-scheduled-hint {
         margin-top: 6px;
         color: var(--text-muted);
@@ -4127,6 +4475,108 @@ export const PLUGIN_STYLES = `
         font-weight: 550;
       }
 
+      .tps-relationship-graph-view {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        padding: 12px;
+      }
+
+      .tps-relationship-graph-title {
+        font-weight: 600;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .tps-relationship-graph-empty,
+      .tps-relationship-graph-hidden {
+        color: var(--text-muted);
+        font-size: var(--font-ui-small);
+      }
+
+      .tps-relationship-graph-svg {
+        width: 100%;
+        height: auto;
+        overflow: visible;
+      }
+
+      .tps-relationship-graph-edge {
+        fill: none;
+        stroke: var(--background-modifier-border-hover);
+        stroke-width: 1.5;
+      }
+
+      .tps-relationship-graph-edge.via-body-link {
+        stroke-dasharray: 4 3;
+      }
+
+      .tps-relationship-graph-edge.via-linked-context {
+        stroke: var(--background-modifier-border);
+        stroke-dasharray: 1 3;
+      }
+
+      .tps-relationship-graph-node {
+        cursor: pointer;
+      }
+
+      .tps-relationship-graph-node circle {
+        fill: var(--background-secondary-alt);
+        stroke: var(--text-faint);
+        stroke-width: 1.5;
+      }
+
+      .tps-relationship-graph-node.is-active circle { fill: var(--color-blue); stroke: var(--color-blue); }
+      .tps-relationship-graph-node.is-done circle { fill: var(--color-green); stroke: var(--color-green); }
+      .tps-relationship-graph-node.is-other circle { fill: var(--color-orange); stroke: var(--color-orange); }
+      .tps-relationship-graph-node.is-root circle { stroke: var(--text-accent); stroke-width: 3; }
+      .tps-relationship-graph-node.is-linked { opacity: 0.75; }
+
+      .tps-relationship-graph-node:hover circle,
+      .tps-relationship-graph-node:focus-visible circle {
+        stroke: var(--text-accent);
+      }
+
+      .tps-relationship-graph-node:focus {
+        outline: none;
+      }
+
+      .tps-relationship-graph-node text {
+        fill: var(--text-normal);
+        font-size: 10px;
+        paint-order: stroke;
+        stroke: var(--background-primary);
+        stroke-width: 3px;
+        stroke-linejoin: round;
+      }
+
+      .tps-relationship-graph-legend {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 10px;
+        color: var(--text-muted);
+        font-size: var(--font-ui-smaller);
+      }
+
+      .tps-relationship-graph-legend-item {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .tps-relationship-graph-swatch {
+        display: inline-block;
+        width: 10px;
+        height: 10px;
+        border: 1.5px solid var(--text-faint);
+        border-radius: 50%;
+        background: var(--background-secondary-alt);
+      }
+
+      .tps-relationship-graph-swatch.is-active { background: var(--color-blue); border-color: var(--color-blue); }
+      .tps-relationship-graph-swatch.is-done { background: var(--color-green); border-color: var(--color-green); }
+      .tps-relationship-graph-swatch.is-other { background: var(--color-orange); border-color: var(--color-orange); }
+
       .tps-gcm-note-references {
         display: flex;
         flex-direction: column;
@@ -5104,6 +5554,49 @@ export const PLUGIN_STYLES = `
       body.is-phone .modal:is(.mod-tps-gcm, .tps-keyboard-aware-modal) select {
         font-size: max(16px, calc(13px * var(--tps-gcm-text-scale) * var(--tps-gcm-control-scale)));
       }
+
+      /* Item history timeline */
+      .tps-gcm-item-history-list {
+        display: flex;
+        flex-direction: column;
+        gap: calc(8px * var(--tps-gcm-density));
+      }
+
+      .tps-gcm-item-history-row {
+        padding: calc(8px * var(--tps-gcm-density));
+        border: 1px solid var(--background-modifier-border);
+        border-radius: calc(6px * var(--tps-gcm-radius-scale));
+      }
+
+      .tps-gcm-item-history-header {
+        display: flex;
+        flex-wrap: wrap;
+        justify-content: space-between;
+        gap: 6px;
+      }
+
+      .tps-gcm-item-history-action {
+        font-weight: 600;
+        color: var(--text-normal);
+      }
+
+      .tps-gcm-item-history-meta,
+      .tps-gcm-item-history-empty {
+        font-size: calc(12px * var(--tps-gcm-text-scale));
+        color: var(--text-muted);
+      }
+
+      .tps-gcm-item-history-changes {
+        margin: 6px 0;
+        padding-left: 18px;
+        font-size: calc(12px * var(--tps-gcm-text-scale));
+      }
+
+      .tps-gcm-item-history-buttons {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+      }
       
       /* Recurrence preview section */
       .tps-gcm-recurrence-preview {
@@ -5133,6 +5626,31 @@ export const PLUGIN_STYLES = `
         color: var(--text-normal);
         padding: 2px 0;
       }
+
+      .tps-gcm-recurrence-preview-summary {
+        font-size: calc(13px * var(--tps-gcm-text-scale));
+        color: var(--text-normal);
+        margin-bottom: 8px;
+      }
+
+      .tps-gcm-recurrence-preview-error,
+      .tps-gcm-recurrence-preview-warning {
+        font-size: calc(12px * var(--tps-gcm-text-scale));
+      }
+
+      .tps-gcm-recurrence-preview-error {
+        color: var(--text-error);
+      }
+
+      .tps-gcm-recurrence-preview-warning {
+        color: var(--text-warning);
+      }
+
+      .tps-gcm-recurrence-preview-exceptions {
+        font-size: calc(11px * var(--tps-gcm-text-scale));
+        color: var(--text-muted);
+        margin-top: 6px;
+      }
       
 
       .tps-gcm-badge {
@@ -5176,6 +5694,10 @@ export const PLUGIN_STYLES = `
         padding: calc(1px * var(--tps-gcm-control-scale)) calc(6px * var(--tps-gcm-control-scale));
       }
 
+      .tps-gcm-badge-blocked {
+        color: var(--text-error);
+      }
+
       /* Collapsed header: make tag pills smaller */
       .tps-global-context-menu--collapsed .tps-gcm-badge-tag,
       .tps-global-context-menu--collapsed .tps-gcm-badge-tag-more,
@@ -7000,6 +7522,10 @@ export const PLUGIN_STYLES = `
         color: var(--text-faint);
       }
 
+      .tps-gcm-time-tracker-status-item.is-focus:not(.is-paused) .tps-gcm-time-tracker-icon {
+        color: var(--interactive-accent);
+      }
+
       body.is-mobile .tps-gcm-time-tracker-mobile-dock,
       body.is-phone .tps-gcm-time-tracker-mobile-dock {
         position: relative;
@@ -1,4 +1,4 @@
-import { CustomProperty } from './types';
+import { CustomProperty, PropertyScope } from './types';
 import { ViewModeService } from './services/view-mode-service';
 import { normalizeTagValue } from './utils/tag-utils';
 import {
@@ -16,49 +16,11 @@ export function resolveCustomProperties(
     surface: CustomPropertySurface = 'any',
 ): (CustomProperty & { disabled?: boolean; hidden?: boolean })[] {
     void viewModeService;
-    const entryContexts = (entries || []).map((entry) => ({
-        entry,
-        tags: collectEntryTags(entry),
-        path: normalizePathValue(entry?.file?.path || ''),
-        frontmatter: entry?.frontmatter || {},
-    }));
+    const entryContexts = createEntryScopeContexts(entries);
     return properties.filter((property) => {
         if (property.hidden) return false;
         if (entryContexts.length === 0) return true;
-
-        const excluded = normalizeScopeTags(property.excludeTags || []);
-        if (excluded.length > 0 && entryContexts.some((context) => excluded.some((tag) => context.tags.has(tag)))) {
-            return false;
-        }
-
-        const excludedPaths = normalizeScopeList(property.excludePaths || []);
-        if (excludedPaths.length > 0 && entryContexts.some((context) => matchesAnyPathScope(context.path, excludedPaths))) {
-            return false;
-        }
-
-        const required = normalizeScopeTags(property.scopeTags || []);
-        const requiredPaths = normalizeScopeList(property.scopePaths || []);
-        const requiredProperties = normalizePropertyConditions(property.scopeProperties || []);
-        const mode = property.scopeMode === 'all' ? 'all' : 'any';
-        const scopeMatches = required.length === 0 && requiredPaths.length === 0 && requiredProperties.length === 0
-            ? true
-            : entryContexts.every((context) => {
-                const checks: boolean[] = [];
-                if (required.length > 0) {
-                    checks.push(mode === 'all'
-                        ? required.every((tag) => context.tags.has(tag))
-                        : required.some((tag) => context.tags.has(tag)));
-                }
-                if (requiredPaths.length > 0) {
-                    checks.push(matchesAnyPathScope(context.path, requiredPaths));
-                }
-                if (requiredProperties.length > 0) {
-                    checks.push(requiredProperties.every((condition) => matchesPropertyCondition(context.frontmatter, condition)));
-                }
-                if (checks.length === 0) return true;
-                return mode === 'all' ? checks.every(Boolean) : checks.some(Boolean);
-            });
-        if (!scopeMatches) return false;
+        if (!matchesScopeContexts(property, entryContexts)) return false;
 
         return matchesVisibilityMode(
             property,
@@ -68,6 +30,65 @@ export function resolveCustomProperties(
     });
 }
 
+/**
+ * True when every entry falls inside the tag, path and property scope. An
+ * empty entry list matches, as it does for custom fields.
+ */
+export function matchesPropertyScope(scope: PropertyScope, entries: any[]): boolean {
+    const entryContexts = createEntryScopeContexts(entries);
+    return entryContexts.length === 0 || matchesScopeContexts(scope, entryContexts);
+}
+
+type EntryScopeContext = {
+    entry: any;
+    tags: Set<string>;
+    path: string;
+    frontmatter: Record<string, unknown>;
+};
+
+function createEntryScopeContexts(entries: any[]): EntryScopeContext[] {
+    return (entries || []).map((entry) => ({
+        entry,
+        tags: collectEntryTags(entry),
+        path: normalizePathValue(entry?.file?.path || ''),
+        frontmatter: entry?.frontmatter || {},
+    }));
+}
+
+function matchesScopeContexts(scope: PropertyScope, entryContexts: EntryScopeContext[]): boolean {
+    const excluded = normalizeScopeTags(scope.excludeTags || []);
+    if (excluded.length > 0 && entryContexts.some((context) => excluded.some((tag) => context.tags.has(tag)))) {
+        return false;
+    }
+
+    const excludedPaths = normalizeScopeList(scope.excludePaths || []);
+    if (excludedPaths.length > 0 && entryContexts.some((context) => matchesAnyPathScope(context.path, excludedPaths))) {
+        return false;
+    }
+
+    const required = normalizeScopeTags(scope.scopeTags || []);
+    const requiredPaths = normalizeScopeList(scope.scopePaths || []);
+    const requiredProperties = normalizePropertyConditions(scope.scopeProperties || []);
+    const mode = scope.scopeMode === 'all' ? 'all' : 'any';
+    if (required.length === 0 && requiredPaths.length === 0 && requiredProperties.length === 0) return true;
+    return entryContexts.every((context) => {
+        const checks: boolean[] = [];
+        if (required.length > 0) {
+            checks.push(mode === 'all'
+                ? required.every((tag) => context.tags.has(tag))
+                : required.some((tag) => context.tags.has(tag)));
+        }
+        if (requiredPaths.length > 0) {
+            checks.push(matchesAnyPathScope(context.path, requiredPaths));
+        }
+        if (requiredProperties.length > 0) {
+            checks.push(requiredProperties.every((condition) => matchesPropertyCondition(context.frontmatter, condition)));
+        }
+        if (checks.length === 0) return true;
+        return mode === 'all' ? checks.every(Boolean) : checks.some(Boolean);
+    });
+}
+
 function matchesVisibilityMode(
     property: CustomProperty,
     entryContexts: Array<{ frontmatter: Record<string, unknown> }>,
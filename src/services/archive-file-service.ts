@@ -5,6 +5,13 @@ import {
   normalizeTagList,
   normalizeTagValue,
 } from '../utils/tag-utils';
+import { createItemHistoryInteractionId, itemHistoryCauseFromMutation } from './item-history-core';
+import type { FilePropertiesMutationCause } from './file-properties-service';
+import type {
+  ItemHistoryNoteAction,
+  ItemHistoryNoteMutationHandle,
+  ItemHistoryService,
+} from './item-history-service';
 
 export interface ArchiveFileServiceHost {
   app: App;
@@ -12,8 +19,10 @@ export interface ArchiveFileServiceHost {
     process(
       file: TFile,
       mutator: (frontmatter: Record<string, unknown>) => void | Promise<void>,
+      cause?: FilePropertiesMutationCause,
     ): Promise<boolean>;
   };
+  itemHistoryService?: Pick<ItemHistoryService, 'beginNoteMutation' | 'commitNoteMutation' | 'abortNoteMutation'>;
   settings: {
     archiveTag?: string;
     activityLogPropertyKey?: string;
@@ -22,6 +31,11 @@ export interface ArchiveFileServiceHost {
   runQueuedMove(files: TFile[], performMove: () => Promise<void>): Promise<boolean>;
 }
 
+interface ArchiveMoveHistory {
+  handle: ItemHistoryNoteMutationHandle;
+  frontmatter: Record<string, unknown>;
+}
+
 export interface ArchiveFilesResult {
   archiveFolder: string;
   requested: number;
@@ -107,6 +121,7 @@ export class ArchiveFileService {
     }
 
     const archiveTag = normalizeTagValue(this.plugin.settings.archiveTag || '');
+    const cause = this.createMutationCause(uniqueFiles, trigger);
     const queued = await this.plugin.runQueuedMove(uniqueFiles, async () => {
       for (const originalFile of uniqueFiles) {
         const current = this.plugin.app.vault.getAbstractFileByPath(originalFile.path);
@@ -126,12 +141,15 @@ export class ArchiveFileService {
         }
 
         const originalFolder = liveFile.parent?.path === '/' ? '' : liveFile.parent?.path ?? '';
+        // The mutation service adds the history identity to this same record.
+        let writtenFrontmatter: Record<string, unknown> | null = null;
         if (liveFile.extension?.toLowerCase() === 'md' && archiveTag) {
           try {
             await this.plugin.frontmatterMutationService.process(liveFile, (frontmatter: Record<string, unknown>) => {
               frontmatter.tags = mergeNormalizedTags(frontmatter.tags, archiveTag);
               frontmatter.archiveOriginalFolder = originalFolder;
-            });
+              writtenFrontmatter = frontmatter;
+            }, cause);
             result.tagged += 1;
           } catch (error) {
             result.metadataFailures += 1;
@@ -143,6 +161,7 @@ export class ArchiveFileService {
           }
         }
 
+        let moveHistory: ArchiveMoveHistory | null = null;
         try {
           const targetPath = this.getUniqueArchiveTargetPath(liveFile, archiveFolder);
           const targetFolder = targetPath.includes('/')
@@ -151,9 +170,12 @@ export class ArchiveFileService {
           if (targetFolder) {
             await this.ensureFolderPath(targetFolder);
           }
+          moveHistory = await this.beginMoveHistory(liveFile, targetPath, 'note.archive', cause, writtenFrontmatter);
           await this.plugin.app.fileManager.renameFile(liveFile, targetPath);
+          await this.finishMoveHistory(moveHistory, targetPath);
           result.moved += 1;
         } catch (error) {
+          await this.finishMoveHistory(moveHistory, null);
           result.failed += 1;
           logger.error('[TPS GCM] Failed moving file into archive', {
             trigger,
@@ -214,6 +236,7 @@ export class ArchiveFileService {
     }
 
     const archiveTag = normalizeTagValue(this.plugin.settings.archiveTag || '');
+    const cause = this.createMutationCause(uniqueFiles, trigger);
     const queued = await this.plugin.runQueuedMove(uniqueFiles, async () => {
       for (const originalFile of uniqueFiles) {
         const current = this.plugin.app.vault.getAbstractFileByPath(originalFile.path);
@@ -237,9 +260,11 @@ export class ArchiveFileService {
         const targetFolder = await this.getRestoreFolder(originalFolder, archiveFolder, trigger);
         const targetPath = this.getUniqueRestoreTargetPath(liveFile, targetFolder);
 
+        const moveHistory = await this.beginMoveHistory(liveFile, targetPath, 'note.unarchive', cause, null);
         try {
           await this.plugin.app.fileManager.renameFile(liveFile, targetPath);
         } catch (error) {
+          await this.finishMoveHistory(moveHistory, null);
           result.failed += 1;
           logger.error('[TPS GCM] Failed moving file out of archive', {
             trigger,
@@ -262,12 +287,13 @@ export class ArchiveFileService {
                   frontmatter.tags = normalizeTagList(frontmatter.tags)
                     .filter((tag) => normalizeTagValue(tag) !== archiveTag);
                 }
-              }) as Promise<unknown>
+              }, cause) as Promise<unknown>
             );
             if (cleanupResult === false && (cleanupRequiredFromCache || cleanupRequiredByMutation)) {
               throw new Error('Archive metadata cleanup was refused.');
             }
           } catch (error) {
+            await this.finishMoveHistory(moveHistory, null);
             result.metadataFailures += 1;
             const rolledBack = await this.rollbackFailedUnarchive(liveFile, archivedPath, trigger);
             result.failed += 1;
@@ -284,6 +310,7 @@ export class ArchiveFileService {
             continue;
           }
         }
+        await this.finishMoveHistory(moveHistory, targetPath);
         result.moved += 1;
       }
     });
@@ -308,6 +335,54 @@ export class ArchiveFileService {
     return result;
   }
 
+  private createMutationCause(files: TFile[], trigger: string): FilePropertiesMutationCause {
+    return {
+      kind: 'user',
+      sourcePluginId: 'tps-global-context-menu',
+      surface: trigger,
+      ...(files.length > 1 ? { interactionId: createItemHistoryInteractionId() } : {}),
+    };
+  }
+
+  /**
+   * Opens a history entry for moving `file`. `frontmatter` is the record just
+   * written for the note, when there was one; otherwise the metadata cache
+   * still describes the note being moved.
+   */
+  private async beginMoveHistory(
+    file: TFile,
+    targetPath: string,
+    action: ItemHistoryNoteAction,
+    cause: FilePropertiesMutationCause,
+    frontmatter: Record<string, unknown> | null,
+  ): Promise<ArchiveMoveHistory | null> {
+    const history = this.plugin.itemHistoryService;
+    const recorded = frontmatter
+      ?? (file.extension?.toLowerCase() === 'md'
+        ? this.plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? null
+        : null);
+    if (!history || !recorded) return null;
+    const handle = await history.beginNoteMutation({
+      action,
+      cause: itemHistoryCauseFromMutation(cause, 'tps-global-context-menu', 'archive'),
+      path: file.path,
+      before: recorded,
+      targetPath,
+    });
+    return handle ? { handle, frontmatter: recorded } : null;
+  }
+
+  /** Commits the move at `targetPath`, or discards it when `targetPath` is null. */
+  private async finishMoveHistory(move: ArchiveMoveHistory | null, targetPath: string | null): Promise<void> {
+    const history = this.plugin.itemHistoryService;
+    if (!move || !history) return;
+    if (targetPath == null) {
+      await history.abortNoteMutation(move.handle);
+    } else {
+      await history.commitNoteMutation(move.handle, { path: targetPath, frontmatter: move.frontmatter });
+    }
+  }
+
   private getUniqueFiles(files: TFile[]): TFile[] {
     const unique = new Map<string, TFile>();
     for (const file of files || []) {
@@ -3,6 +3,7 @@ import TPSGlobalContextMenuPlugin from '../main';
 import { RRule } from 'rrule';
 import * as logger from "../logger";
 import { TRACKER_RECURRENCE_RULE } from '../constants';
+import type { FilePropertiesMutationCause } from './file-properties-service';
 import { normalizeTagValue, normalizeTagList, parseTagInput, mergeNormalizedTags } from '../utils/tag-utils';
 import {
     mergeLinkList,
@@ -28,6 +29,22 @@ import { ParentLinkHandler } from '../handlers/parent-link-handler';
 import { buildParentFrontmatterLinkValue, buildParentLinkValue, linkValueMatchesFile, extractLinkTarget, resolveLinkValueToFile } from '../handlers/parent-link-format';
 import { findExistingDailyNoteForIsoDate } from '../utils/daily-note-task-schedule';
 import { parseDateFromFilename } from '../utils/daily-file-date';
+import {
+    EMPTY_RECURRENCE_EXCEPTIONS,
+    RECURRENCE_ANCHOR_KEY,
+    RECURRENCE_EXDATE_KEY,
+    RECURRENCE_RDATE_KEY,
+    findNextRecurrenceOccurrence,
+    getNextEasterOccurrence,
+    isEasterRecurrenceRule,
+    parseRecurrenceDateValue,
+    pruneRecurrenceExceptions,
+    readRecurrenceExceptions,
+    releaseRecurrenceOccurrence,
+    withRecurrenceRdate,
+    type RecurrenceExceptions,
+    type RecurrenceOccurrence,
+} from '../utils/recurrence-exceptions';
 import {
     classifyDeletedMarkdownLink,
     createDeletedMarkdownLinkContext,
@@ -97,42 +114,11 @@ export class BulkEditService {
         this.deleteFrontmatterValueCaseInsensitive(frontmatter, this.getWorkflowStatusKey());
     }
 
-    private isEasterRecurrenceRule(recurrenceRule: string): boolean {
-        return String(recurrenceRule || '').trim().toUpperCase() === 'GCM-HOLIDAY:EASTER';
-    }
-
     private normalizeRecurrenceRuleValue(recurrenceRule: unknown): string {
         const value = String(recurrenceRule ?? '').trim();
         return value.toLowerCase() === 'dailynote' ? this.dailyRecurrenceRule : value;
     }
 
-    private getEasterDate(year: number, timeSource: Date): Date {
-        const a = year % 19;
-        const b = Math.floor(year / 100);
-        const c = year % 100;
-        const d = Math.floor(b / 4);
-        const e = b % 4;
-        const f = Math.floor((b + 8) / 25);
-        const g = Math.floor((b - f + 1) / 3);
-        const h = (19 * a + b - d - g + 15) % 30;
-        const i = Math.floor(c / 4);
-        const k = c % 4;
-        const l = (32 + 2 * e + 2 * i - h - k) % 7;
-        const m = Math.floor((a + 11 * h + 22 * l) / 451);
-        const month = Math.floor((h + l - 7 * m + 114) / 31);
-        const day = ((h + l - 7 * m + 114) % 31) + 1;
-        return new Date(year, month - 1, day, timeSource.getHours(), timeSource.getMinutes(), timeSource.getSeconds(), timeSource.getMilliseconds());
-    }
-
-    private getNextEasterOccurrence(seedDate: Date, inclusive: boolean): Date {
-        let year = seedDate.getFullYear();
-        let occurrence = this.getEasterDate(year, seedDate);
-        if (inclusive ? occurrence < seedDate : occurrence <= seedDate) {
-            occurrence = this.getEasterDate(year + 1, seedDate);
-        }
-        return occurrence;
-    }
-
     private async getDailyNoteSettings(): Promise<{ format: string; folder: string; template: string }> {
         let format = "YYYY-MM-DD";
         let folder = "";
@@ -413,7 +399,7 @@ export class BulkEditService {
                         delete fm[key];
                     }
                 }
-            });
+            }, this.getRecurrenceMutationCause());
 
             await this.completeRecurrenceOp(recurrenceOpKey, newFilePath);
             await this.markRecurrenceGenerated(file, newScheduled);
@@ -1717,7 +1703,7 @@ export class BulkEditService {
                 // so all instances of the same recurring event share one template.
                 const seriesBaseName = stripDateSuffix(file.basename).trim();
                 const destFolderPath = normalizePath(templateFolder);
-                const destFilePath = normalizePath(`${destFolderPath}/${seriesBaseName}.md`);
+                const destFilePath = this.getSeriesTemplatePath(file);
 
                 // Create folder if needed
                 const folderExists = await this.plugin.app.vault.adapter.exists(destFolderPath);
@@ -1797,6 +1783,31 @@ export class BulkEditService {
         }
     }
 
+    /** Where `ensureRecurrenceTemplate` puts the series template of an instance. */
+    getSeriesTemplatePath(file: TFile): string {
+        const templateFolder = normalizePath((this.plugin.settings.recurringTemplateFolder || '').trim());
+        return normalizePath(`${templateFolder}/${stripDateSuffix(file.basename).trim()}.md`);
+    }
+
+    /**
+     * True when a recurring instance has no series template that
+     * `ensureRecurrenceTemplate` would create. Always false while the
+     * recurring template folder is not configured.
+     */
+    async isMissingRecurrenceTemplate(file: TFile): Promise<boolean> {
+        if (!(this.plugin.settings.recurringTemplateFolder || '').trim()) return false;
+        if (this.plugin.filePropertiesService?.isCompanionFile(file)) return false;
+        const fm = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!fm || this.isRecurrenceTemplateFrontmatter(fm)) return false;
+        const rule = this.normalizeRecurrenceRuleValue(
+            this.getFrontmatterValueCaseInsensitive(fm, 'recurrenceRule')
+            ?? this.getFrontmatterValueCaseInsensitive(fm, 'recurrence')
+            ?? '',
+        );
+        if (!rule || this.resolveRecurrenceTemplateFile(file, fm)) return false;
+        return !await this.isDailyNoteRecurrenceDirectFile(file, fm.scheduled);
+    }
+
     async setScheduled(files: TFile[], date: string | null): Promise<number> {
         return this.applyToFiles(files, (fm) => {
             const normalized = normalizeObsidianDateTimeValue(date);
@@ -1845,7 +1856,21 @@ export class BulkEditService {
 
     // --- Recurrence ---
 
-    getNextOccurrence(recurrenceRule: string, currentDate?: string): Date | null {
+    getNextOccurrence(
+        recurrenceRule: string,
+        currentDate?: string,
+        exceptions: RecurrenceExceptions = EMPTY_RECURRENCE_EXCEPTIONS,
+        anchorDate?: string,
+    ): Date | null {
+        return this.findNextOccurrence(recurrenceRule, currentDate, exceptions, anchorDate)?.date ?? null;
+    }
+
+    private findNextOccurrence(
+        recurrenceRule: string,
+        currentDate: string | undefined,
+        exceptions: RecurrenceExceptions,
+        anchorDate?: string,
+    ): RecurrenceOccurrence | null {
         try {
             // Use moment to parse so date-only strings (e.g. "2026-03-02") are
             // interpreted as local midnight rather than UTC midnight. Without this,
@@ -1854,24 +1879,31 @@ export class BulkEditService {
             const startDate = currentDate
                 ? window.moment(currentDate).toDate()
                 : new Date();
+            const anchor = anchorDate ? window.moment(anchorDate).toDate() : null;
 
-            if (this.isEasterRecurrenceRule(recurrenceRule)) {
-                return this.getNextEasterOccurrence(startDate, false);
+            if (isEasterRecurrenceRule(recurrenceRule)) {
+                return findNextRecurrenceOccurrence(startDate, (cursor) => getNextEasterOccurrence(cursor, false), exceptions, anchor);
             }
 
             const options = RRule.parseString(recurrenceRule);
-            options.dtstart = startDate;
+            options.dtstart = anchor ?? startDate;
 
             const rule = new RRule(options);
-            const nextDate = rule.after(startDate, false);
-
-            return nextDate;
+            return findNextRecurrenceOccurrence(startDate, (cursor) => rule.after(cursor, false), exceptions, anchor);
         } catch (error) {
             logger.error('[TPS GCM] Failed to calculate next recurrence:', error);
             return null;
         }
     }
 
+    /**
+     * New series instances are written by GCM, not by the user: they stay out
+     * of item history and do not get a tpsId minted for them.
+     */
+    private getRecurrenceMutationCause(): FilePropertiesMutationCause {
+        return { kind: 'automation', sourcePluginId: this.plugin.manifest.id, surface: 'recurrence' };
+    }
+
     private isFileInRecurrenceTemplateFolder(file: TFile): boolean {
         const templateFolder = normalizePath((this.plugin.settings.recurringTemplateFolder || '').trim());
         if (!templateFolder) return false;
@@ -1879,16 +1911,28 @@ export class BulkEditService {
         return filePath === templateFolder || filePath.startsWith(`${templateFolder}/`);
     }
 
-    private getFirstOccurrenceFromToday(recurrenceRule: string): Date | null {
+    /**
+     * First occurrence on or after the start of today, skipping EXDATEs and
+     * picking up RDATEs. An RDATE occurrence is anchored at the start of today,
+     * which is where the rule itself starts for this series.
+     */
+    private getFirstOccurrenceFromToday(
+        recurrenceRule: string,
+        exceptions: RecurrenceExceptions = EMPTY_RECURRENCE_EXCEPTIONS,
+    ): RecurrenceOccurrence | null {
         try {
             const todayStart = window.moment().startOf('day').toDate();
-            if (this.isEasterRecurrenceRule(recurrenceRule)) {
-                return this.getNextEasterOccurrence(todayStart, true);
+            const beforeToday = new Date(todayStart.getTime() - 1);
+            let first: RecurrenceOccurrence | null;
+            if (isEasterRecurrenceRule(recurrenceRule)) {
+                first = findNextRecurrenceOccurrence(beforeToday, (cursor) => getNextEasterOccurrence(cursor, false), exceptions);
+            } else {
+                const options = RRule.parseString(recurrenceRule);
+                options.dtstart = todayStart;
+                const rule = new RRule(options);
+                first = findNextRecurrenceOccurrence(beforeToday, (cursor) => rule.after(cursor, false), exceptions);
             }
-            const options = RRule.parseString(recurrenceRule);
-            options.dtstart = todayStart;
-            const rule = new RRule(options);
-            return rule.after(todayStart, true);
+            return first?.anchor ? { date: first.date, anchor: todayStart } : first;
         } catch (error) {
             logger.error('[TPS GCM] Failed to calculate first occurrence from today:', error);
             return null;
@@ -1916,8 +1960,10 @@ export class BulkEditService {
             return false;
         }
 
-        const firstOccurrence = this.getFirstOccurrenceFromToday(recurrenceRule);
-        if (!firstOccurrence) return false;
+        const exceptions = this.getRecurrenceExceptions(frontmatter);
+        const first = this.getFirstOccurrenceFromToday(recurrenceRule, exceptions);
+        if (!first) return false;
+        const firstOccurrence = first.date;
 
         const dateStr = window.moment(firstOccurrence).format(this.getDailyNoteDateFormat());
         const newFileName = `${seriesBaseName} ${dateStr}.md`;
@@ -1941,26 +1987,36 @@ export class BulkEditService {
                 'recurrenceTemplate',
                 this.buildRecurrenceTemplateLink(templateFile, created, seriesBaseName),
             );
+            this.writeRecurrenceExceptions(
+                fmw,
+                pruneRecurrenceExceptions(exceptions, first.anchor ?? firstOccurrence),
+                first.anchor,
+            );
             this.clearLegacyRecurrenceTemplateMarker(fmw);
             this.deleteFrontmatterValueCaseInsensitive(fmw, 'completedDate');
             this.deleteWorkflowStatusValue(fmw);
-        });
+        }, this.getRecurrenceMutationCause());
 
         logger.log(`[TPS GCM] Bootstrapped recurring series from template ${templateFile.path} -> ${created.path}`);
         return true;
     }
 
-    private advanceOccurrenceToFuture(recurrenceRule: string, seedDate: string | undefined): Date | null {
+    private advanceOccurrenceToFuture(
+        recurrenceRule: string,
+        seedDate: string | undefined,
+        exceptions: RecurrenceExceptions = EMPTY_RECURRENCE_EXCEPTIONS,
+        anchorDate?: string,
+    ): RecurrenceOccurrence | null {
         const now = new Date();
-        let nextDate = this.getNextOccurrence(recurrenceRule, seedDate);
-        if (!nextDate) return null;
+        let next = this.findNextOccurrence(recurrenceRule, seedDate, exceptions, anchorDate);
+        if (!next) return null;
 
         // If the next computed recurrence is still in the past, keep advancing until
         // we land on a future instance. This prevents startup/device-open scans from
         // creating historical "open" notes that can retrigger reminders.
         let guard = 0;
-        while (nextDate && nextDate <= now && guard < 500) {
-            nextDate = this.getNextOccurrence(recurrenceRule, nextDate.toISOString());
+        while (next && next.date <= now && guard < 500) {
+            next = this.findNextOccurrence(recurrenceRule, next.date.toISOString(), exceptions, next.anchor?.toISOString());
             guard += 1;
         }
 
@@ -1968,11 +2024,133 @@ export class BulkEditService {
             logger.warn('[TPS GCM] Recurrence advance guard reached while seeking future occurrence');
         }
 
-        return nextDate;
+        return next;
+    }
+
+    getNextRecurrenceOccurrence(
+        recurrenceRule: string,
+        seedDate?: string,
+        exceptions: RecurrenceExceptions = EMPTY_RECURRENCE_EXCEPTIONS,
+    ): Date | null {
+        return this.advanceOccurrenceToFuture(recurrenceRule, seedDate, exceptions)?.date ?? null;
+    }
+
+    /** EXDATE/RDATE lists stored next to a note's recurrence rule. */
+    getRecurrenceExceptions(frontmatter: Record<string, any> | null | undefined): RecurrenceExceptions {
+        return readRecurrenceExceptions((key) => this.getFrontmatterValueCaseInsensitive(frontmatter, key));
+    }
+
+    /**
+     * Skips the occurrence a recurring note stands for: records an EXDATE and
+     * moves the note to the series' next remaining occurrence.
+     */
+    async skipRecurrenceOccurrence(file: TFile): Promise<boolean> {
+        const target = this.resolveOccurrenceTarget(file);
+        if (!target) return false;
+        const exceptions = releaseRecurrenceOccurrence(target.exceptions, target.scheduled, target.anchor);
+        const next = this.findNextOccurrence(target.rule, target.scheduledValue, exceptions, target.anchorValue);
+        if (!next) {
+            new Notice('This series has no later occurrence to move to.');
+            return false;
+        }
+        await this.moveRecurrenceOccurrence(file, target, next, exceptions);
+        new Notice(`Occurrence skipped. Next: ${window.moment(next.date).format('YYYY-MM-DD')}`);
+        return true;
+    }
+
+    /**
+     * Moves only this occurrence of a recurring note: an EXDATE for the old day
+     * and an RDATE for the new value keep the rest of the series in place.
+     */
+    async rescheduleRecurrenceOccurrence(file: TFile, scheduledValue: string): Promise<boolean> {
+        const target = this.resolveOccurrenceTarget(file);
+        if (!target) return false;
+        const nextDate = parseRecurrenceDateValue(String(scheduledValue || '').trim(), target.scheduled);
+        if (!nextDate) {
+            new Notice('Enter a date as YYYY-MM-DD or YYYY-MM-DD HH:mm.');
+            return false;
+        }
+        const exceptions = withRecurrenceRdate(
+            releaseRecurrenceOccurrence(target.exceptions, target.scheduled, target.anchor),
+            window.moment(nextDate).format('YYYY-MM-DD HH:mm'),
+        );
+        await this.moveRecurrenceOccurrence(file, target, { date: nextDate, anchor: target.anchor ?? target.scheduled }, exceptions);
+        new Notice(`Occurrence moved to ${window.moment(nextDate).format('YYYY-MM-DD HH:mm')}. The rest of the series is unchanged.`);
+        return true;
+    }
+
+    private resolveOccurrenceTarget(file: TFile): {
+        rule: string;
+        scheduledValue: string;
+        scheduled: Date;
+        anchorValue: string;
+        anchor: Date | null;
+        exceptions: RecurrenceExceptions;
+        seriesBaseName: string;
+    } | null {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        const info = frontmatter ? this.resolveRecurrenceInfo(file, frontmatter) : null;
+        const scheduledValue = String(frontmatter?.scheduled ?? '').trim();
+        const scheduled = scheduledValue ? window.moment(scheduledValue).toDate() : null;
+        if (!info?.rule || this.isTrackerRecurrenceRule(info.rule) || !scheduled || Number.isNaN(scheduled.getTime())) {
+            new Notice('This note has no scheduled recurrence.');
+            return null;
+        }
+        const anchorValue = String(this.getFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_ANCHOR_KEY) ?? '').trim();
+        return {
+            rule: info.rule,
+            scheduledValue,
+            scheduled,
+            anchorValue,
+            anchor: anchorValue ? window.moment(anchorValue).toDate() : null,
+            exceptions: this.getRecurrenceExceptions(frontmatter),
+            seriesBaseName: info.seriesBaseName,
+        };
+    }
+
+    private async moveRecurrenceOccurrence(
+        file: TFile,
+        target: { scheduled: Date; seriesBaseName: string },
+        next: RecurrenceOccurrence,
+        exceptions: RecurrenceExceptions,
+    ): Promise<void> {
+        const nextDate = next.date;
+        await this.plugin.frontmatterMutationService.process(file, (fm) => {
+            this.setFrontmatterValueCaseInsensitive(fm, 'scheduled', window.moment(nextDate).format('YYYY-MM-DD HH:mm:ss'));
+            this.writeRecurrenceExceptions(fm, exceptions, next.anchor);
+        });
+
+        // Instances are named "<series> <date>"; keep the name in step with the new date.
+        const format = this.getDailyNoteDateFormat();
+        const base = target.seriesBaseName;
+        if (!base || file.basename !== `${base} ${window.moment(target.scheduled).format(format)}`) return;
+        const parentPath = file.parent?.path || '';
+        const fileName = `${base} ${window.moment(nextDate).format(format)}.md`;
+        const nextPath = normalizePath(parentPath ? `${parentPath}/${fileName}` : fileName);
+        if (nextPath === file.path || await this.plugin.app.vault.adapter.exists(nextPath)) return;
+        await this.plugin.app.fileManager.renameFile(file, nextPath);
     }
 
-    getNextRecurrenceOccurrence(recurrenceRule: string, seedDate?: string): Date | null {
-        return this.advanceOccurrenceToFuture(recurrenceRule, seedDate);
+    private writeRecurrenceExceptions(
+        frontmatter: Record<string, any>,
+        exceptions: RecurrenceExceptions,
+        anchor: Date | null,
+    ): void {
+        if (anchor) {
+            this.setFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_ANCHOR_KEY, window.moment(anchor).format('YYYY-MM-DD HH:mm:ss'));
+        } else {
+            this.deleteFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_ANCHOR_KEY);
+        }
+        if (exceptions.exdates.length > 0) {
+            this.setFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_EXDATE_KEY, [...exceptions.exdates]);
+        } else {
+            this.deleteFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_EXDATE_KEY);
+        }
+        if (exceptions.rdates.length > 0) {
+            this.setFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_RDATE_KEY, [...exceptions.rdates]);
+        } else {
+            this.deleteFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_RDATE_KEY);
+        }
     }
 
     async createNextRecurrenceInstance(file: TFile, frontmatter: any, carryStatus?: string | null): Promise<boolean> {
@@ -2002,9 +2180,16 @@ export class BulkEditService {
             }
 
             const isTrackerRecurrence = this.isTrackerRecurrenceRule(recurrenceRule);
-            const nextDate = isTrackerRecurrence
+            const exceptions = this.getRecurrenceExceptions(frontmatter);
+            const nextOccurrence = isTrackerRecurrence
                 ? null
-                : this.advanceOccurrenceToFuture(recurrenceRule, currentScheduled);
+                : this.advanceOccurrenceToFuture(
+                    recurrenceRule,
+                    currentScheduled,
+                    exceptions,
+                    this.getFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_ANCHOR_KEY) || undefined,
+                );
+            const nextDate = nextOccurrence?.date ?? null;
 
             if (!isTrackerRecurrence && !nextDate) {
                 logger.warn('[TPS GCM] Could not calculate next recurrence date for', file.path, '- rule:', recurrenceRule, 'scheduled:', currentScheduled);
@@ -2112,6 +2297,16 @@ export class BulkEditService {
                 } else {
                     this.setFrontmatterValueCaseInsensitive(fm, 'scheduled', newScheduled);
                 }
+                // Exceptions travel with the series; ones before the new instance (or the
+                // rule occurrence it steps on from) are done with.
+                const keepFrom = nextOccurrence?.anchor && nextOccurrence.anchor < nextOccurrence.date
+                    ? nextOccurrence.anchor
+                    : nextDate;
+                this.writeRecurrenceExceptions(
+                    fm,
+                    keepFrom ? pruneRecurrenceExceptions(exceptions, keepFrom) : exceptions,
+                    nextOccurrence?.anchor ?? null,
+                );
                 // Only write status if a default was explicitly configured
                 if (newStatus) {
                     this.setWorkflowStatusValue(fm, newStatus);
@@ -2153,7 +2348,7 @@ export class BulkEditService {
                         delete fm[key];
                     }
                 }
-            });
+            }, this.getRecurrenceMutationCause());
 
             await this.completeRecurrenceOp(recurrenceOpKey, newFilePath);
             await this.markRecurrenceGenerated(file, newScheduled);
@@ -2164,7 +2359,14 @@ export class BulkEditService {
             const recurrenceInfo = this.resolveRecurrenceInfo(file, frontmatter);
             const recurrenceRule = recurrenceInfo.rule;
             const currentScheduled = frontmatter?.scheduled;
-            const nextDate = recurrenceRule ? this.advanceOccurrenceToFuture(recurrenceRule, currentScheduled) : null;
+            const nextDate = recurrenceRule
+                ? this.advanceOccurrenceToFuture(
+                    recurrenceRule,
+                    currentScheduled,
+                    this.getRecurrenceExceptions(frontmatter),
+                    this.getFrontmatterValueCaseInsensitive(frontmatter, RECURRENCE_ANCHOR_KEY) || undefined,
+                )?.date ?? null
+                : null;
             if (nextDate && recurrenceRule) {
                 const chainId = this.resolveRecurrenceChainId(file, frontmatter, recurrenceRule);
                 const newScheduled = window.moment(nextDate).format('YYYY-MM-DD HH:mm:ss');
@@ -0,0 +1,218 @@
+import type { ChildNoteTemplate } from '../types';
+import { parseTagInput } from '../utils/tag-utils';
+
+/**
+ * Child note templates. A template is an ordinary note; its frontmatter and
+ * body seed the new child after these variables are filled in:
+ *
+ *   {{title}}               the child's title
+ *   {{parent.title}}        the parent's title, or its file name
+ *   {{parent.scheduled}}    any parent property, lists joined with ", "
+ *   {{date}}                today as YYYY-MM-DD
+ *   {{date:dddd D MMMM}}    today in a moment.js format
+ *   {{prompt:Attendees?}}   asked when the child is created
+ *
+ * Anything else inside `{{ }}` is left alone so other template plugins still
+ * see their own syntax.
+ */
+
+export interface ChildTemplateContext {
+  title: string;
+  parentTitle: string;
+  parentFrontmatter: Readonly<Record<string, unknown>>;
+  formatDate: (format: string) => string;
+  /** Answers keyed by the question text. Unanswered prompts render empty. */
+  prompts: Readonly<Record<string, string>>;
+}
+
+export interface ChildTemplateParent {
+  kinds: readonly string[];
+  tags: readonly string[];
+}
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n?---(?:\r?\n|$)/;
+const VARIABLE_RE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const PROMPT_RE = /\{\{\s*prompt:\s*([^{}]+?)\s*\}\}/g;
+const PLACEHOLDER_RE = /__gcm_template_var_(\d+)__/g;
+const LIST_KEYS = ['kinds', 'tags', 'inheritProperties'] as const;
+
+export function normalizeChildNoteTemplates(value: unknown): ChildNoteTemplate[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const templates: ChildNoteTemplate[] = [];
+  value.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') return;
+    const entry = raw as Record<string, any>;
+    let id = String(entry.id ?? '').trim() || `template-${index + 1}`;
+    while (seen.has(id)) id = `${id}-copy`;
+    seen.add(id);
+    const template: ChildNoteTemplate = {
+      id,
+      name: String(entry.name ?? '').trim() || 'Untitled template',
+      path: String(entry.path ?? '').trim(),
+    };
+    for (const key of LIST_KEYS) {
+      if (!Array.isArray(entry[key])) continue;
+      const items = entry[key]
+        .map((item: unknown) => String(item ?? '').trim())
+        .map((item: string) => (key === 'tags' ? item.replace(/^#/, '') : item))
+        .filter(Boolean);
+      if (items.length > 0) template[key] = items;
+    }
+    templates.push(template);
+  });
+  return templates;
+}
+
+/** Finds a template by id, then by name, then by note path (with or without `.md`). */
+export function findChildNoteTemplate(
+  templates: readonly ChildNoteTemplate[],
+  reference: string,
+): ChildNoteTemplate | null {
+  const wanted = String(reference || '').trim();
+  if (!wanted) return null;
+  const lower = wanted.toLowerCase();
+  const withExtension = lower.endsWith('.md') ? lower : `${lower}.md`;
+  return templates.find((template) => template.id === wanted)
+    ?? templates.find((template) => template.name.toLowerCase() === lower)
+    ?? templates.find((template) => {
+      const path = template.path.toLowerCase();
+      return !!path && (path.endsWith('.md') ? path : `${path}.md`) === withExtension;
+    })
+    ?? null;
+}
+
+/**
+ * Templates chosen automatically for a parent, in settings order. A template
+ * matches when the parent has one of its kinds or one of its tags (a nested
+ * tag such as `meeting/weekly` matches `meeting`).
+ */
+export function matchChildNoteTemplates(
+  templates: readonly ChildNoteTemplate[],
+  parent: ChildTemplateParent,
+): ChildNoteTemplate[] {
+  const kinds = new Set(parent.kinds.map((kind) => kind.trim().toLowerCase()).filter(Boolean));
+  const tags = parent.tags.map((tag) => tag.replace(/^#/, '').toLowerCase()).filter(Boolean);
+  return templates.filter((template) => {
+    if (!template.path) return false;
+    if ((template.kinds || []).some((kind) => kinds.has(kind.toLowerCase()))) return true;
+    return (template.tags || []).some((wanted) => {
+      const tag = wanted.replace(/^#/, '').toLowerCase();
+      return tags.some((candidate) => candidate === tag || candidate.startsWith(`${tag}/`));
+    });
+  });
+}
+
+/** Kind values read from the frontmatter keys configured as kind properties. */
+export function readChildTemplateParent(
+  frontmatter: Readonly<Record<string, unknown>> | null | undefined,
+  kindKeys: readonly string[],
+): ChildTemplateParent {
+  const kinds: string[] = [];
+  for (const key of kindKeys) {
+    const value = readFrontmatterValue(frontmatter, key);
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const kind = String(item ?? '').trim();
+      if (kind && !kinds.includes(kind)) kinds.push(kind);
+    }
+  }
+  const tags = parseTagInput([readFrontmatterValue(frontmatter, 'tags'), readFrontmatterValue(frontmatter, 'tag')]);
+  return { kinds, tags };
+}
+
+export function splitChildTemplateContent(content: string): { frontmatter: string; body: string } {
+  const text = String(content || '');
+  const match = FRONTMATTER_RE.exec(text);
+  if (!match) return { frontmatter: '', body: text };
+  return { frontmatter: match[1], body: text.slice(match[0].length) };
+}
+
+/** Prompt questions in the order they first appear. */
+export function collectChildTemplatePrompts(...texts: string[]): string[] {
+  const questions: string[] = [];
+  for (const text of texts) {
+    for (const match of String(text || '').matchAll(PROMPT_RE)) {
+      if (!questions.includes(match[1])) questions.push(match[1]);
+    }
+  }
+  return questions;
+}
+
+export function renderChildTemplateText(text: string, context: ChildTemplateContext): string {
+  return String(text || '').replace(VARIABLE_RE, (whole, expression: string) => {
+    const name = expression.trim();
+    if (name === 'title') return context.title;
+    if (name === 'date') return context.formatDate('YYYY-MM-DD');
+    if (name.startsWith('date:')) return context.formatDate(name.slice(5).trim() || 'YYYY-MM-DD');
+    if (name.startsWith('prompt:')) return context.prompts[name.slice(7).trim()] ?? '';
+    if (name === 'parent.title') return context.parentTitle;
+    if (name.startsWith('parent.')) return formatTemplateValue(readFrontmatterValue(context.parentFrontmatter, name.slice(7).trim()));
+    return whole;
+  });
+}
+
+/**
+ * Renders template frontmatter without letting filled-in values change its
+ * YAML. Variables are swapped for plain placeholders before `parse` runs and
+ * filled into the parsed strings afterwards, so a title with a colon, `#`,
+ * quotes or a leading `-` stays one string value.
+ */
+export function renderChildTemplateFrontmatter(
+  yaml: string,
+  context: ChildTemplateContext,
+  parse: (yaml: string) => unknown,
+): Record<string, unknown> {
+  const variables: string[] = [];
+  const masked = String(yaml || '').replace(VARIABLE_RE, (whole) => `__gcm_template_var_${variables.push(whole) - 1}__`);
+  if (!masked.trim()) return {};
+  const fill = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(PLACEHOLDER_RE, (_, index: string) => renderChildTemplateText(variables[Number(index)], context));
+    }
+    if (Array.isArray(value)) return value.map(fill);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [fill(key), fill(entry)]));
+    }
+    return value;
+  };
+  const parsed = fill(parse(masked));
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+}
+
+/** Copies the listed parent properties the template did not set itself. */
+export function inheritChildTemplateProperties(
+  frontmatter: Record<string, unknown>,
+  parentFrontmatter: Readonly<Record<string, unknown>>,
+  keys: readonly string[],
+): Record<string, unknown> {
+  const result = { ...frontmatter };
+  for (const key of keys) {
+    if (findFrontmatterKey(result, key) !== undefined) continue;
+    const parentKey = findFrontmatterKey(parentFrontmatter, key);
+    if (parentKey === undefined) continue;
+    const value = parentFrontmatter[parentKey];
+    if (value === null || value === undefined || value === '') continue;
+    result[parentKey] = Array.isArray(value) ? [...value] : value;
+  }
+  return result;
+}
+
+function formatTemplateValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatTemplateValue).filter(Boolean).join(', ');
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function findFrontmatterKey(frontmatter: Readonly<Record<string, unknown>> | null | undefined, key: string): string | undefined {
+  if (!frontmatter || !key) return undefined;
+  if (Object.prototype.hasOwnProperty.call(frontmatter, key)) return key;
+  const lower = key.toLowerCase();
+  return Object.keys(frontmatter).find((candidate) => candidate.toLowerCase() === lower);
+}
+
+function readFrontmatterValue(frontmatter: Readonly<Record<string, unknown>> | null | undefined, key: string): unknown {
+  const actual = findFrontmatterKey(frontmatter, key);
+  return actual === undefined ? undefined : frontmatter![actual];
+}
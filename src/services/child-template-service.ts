@@ -0,0 +1,231 @@
+import { Notice, TFile, normalizePath, parseYaml } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import type { ChildNoteTemplate } from '../types';
+import * as logger from '../logger';
+import { findKeyCaseInsensitive, getErrorMessage } from '../core';
+import { ChildTemplatePromptModal } from '../modals/child-template-prompt-modal';
+import { ChildTemplateSuggestModal } from '../modals/child-template-suggest-modal';
+import type { CreateSubitemOptions } from './subitem-creation-service';
+import {
+  collectChildTemplatePrompts,
+  findChildNoteTemplate,
+  inheritChildTemplateProperties,
+  matchChildNoteTemplates,
+  readChildTemplateParent,
+  renderChildTemplateFrontmatter,
+  renderChildTemplateText,
+  splitChildTemplateContent,
+} from './child-template-core';
+
+export interface RenderedChildTemplate {
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+export interface ChildTemplateRenderInput {
+  /** Title of the note or task being created; fills `{{title}}`. */
+  title: string;
+  parent: TFile | null;
+  /** Ask `{{prompt:…}}` questions. API callers render them empty instead. */
+  interactive: boolean;
+}
+
+/**
+ * Resolves, renders and applies the child note templates configured under
+ * Settings → Workflow → Child notes. The context menu, the TPS List create
+ * button, user actions and `tasks.create` all go through here so a template
+ * behaves the same wherever a child is created.
+ */
+export class ChildTemplateService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  getTemplates(): ChildNoteTemplate[] {
+    return (this.plugin.settings.childNoteTemplates || []).filter((template) => !!template.path);
+  }
+
+  /**
+   * Templates matching the parent's kind or tags. `extraFrontmatter` adds the
+   * properties a new note is about to receive, such as TPS List filter defaults.
+   */
+  getTemplatesForParent(parent: TFile | null, extraFrontmatter?: Record<string, unknown>): ChildNoteTemplate[] {
+    const kindKeys = (this.plugin.settings.properties || [])
+      .filter((property) => property?.type === 'kind')
+      .map((property) => String(property.key || '').trim())
+      .filter(Boolean);
+    const sources = [parent ? this.readFrontmatter(parent) : {}, extraFrontmatter || {}]
+      .map((frontmatter) => readChildTemplateParent(frontmatter, kindKeys));
+    return matchChildNoteTemplates(this.getTemplates(), {
+      kinds: sources.flatMap((source) => source.kinds),
+      tags: sources.flatMap((source) => source.tags),
+    });
+  }
+
+  /**
+   * `auto` (or nothing) picks the first template matching the parent. Other
+   * references name a configured template by id, name or path, or point at
+   * any template note in the vault.
+   */
+  resolveTemplate(reference: string | undefined, parent: TFile | null): ChildNoteTemplate | null {
+    const wanted = String(reference || '').trim();
+    if (!wanted || wanted.toLowerCase() === 'auto') return this.getTemplatesForParent(parent)[0] ?? null;
+    const configured = findChildNoteTemplate(this.getTemplates(), wanted);
+    if (configured) return configured;
+    const file = this.getTemplateFile(wanted);
+    if (!file) throw new Error(`Template "${wanted}" not found.`);
+    return { id: file.path, name: file.basename, path: file.path };
+  }
+
+  /**
+   * Lets the user choose when several templates match. Resolves
+   * `{ template: null }` when none apply and `null` when the picker is closed.
+   */
+  chooseTemplate(candidates: readonly ChildNoteTemplate[]): Promise<{ template: ChildNoteTemplate | null } | null> {
+    if (candidates.length === 0) return Promise.resolve({ template: null });
+    if (candidates.length === 1) return Promise.resolve({ template: candidates[0] });
+    return new Promise((resolve) => {
+      new ChildTemplateSuggestModal(this.plugin.app, candidates, (template) => {
+        resolve(template === undefined ? null : { template });
+      }).open();
+    });
+  }
+
+  /** Resolves `null` when the user cancels a prompt. */
+  async render(template: ChildNoteTemplate, input: ChildTemplateRenderInput): Promise<RenderedChildTemplate | null> {
+    const file = this.getTemplateFile(template.path);
+    if (!file) throw new Error(`Template note ${template.path} not found.`);
+    const parts = splitChildTemplateContent(await this.plugin.app.vault.cachedRead(file));
+    const questions = collectChildTemplatePrompts(parts.frontmatter, parts.body);
+    const prompts = questions.length > 0 && input.interactive
+      ? await this.askPrompts(template, questions)
+      : {};
+    if (!prompts) return null;
+
+    const parentFrontmatter = input.parent ? this.readFrontmatter(input.parent) : {};
+    const context = {
+      title: input.title,
+      parentTitle: input.parent ? String(parentFrontmatter.title || '').trim() || input.parent.basename : '',
+      parentFrontmatter,
+      formatDate: (format: string) => window.moment().format(format),
+      prompts,
+    };
+    let frontmatter: Record<string, unknown>;
+    try {
+      frontmatter = renderChildTemplateFrontmatter(parts.frontmatter, context, parseYaml);
+    } catch (error) {
+      throw new Error(`Template ${template.name} does not have valid frontmatter: ${getErrorMessage(error)}`);
+    }
+    frontmatter = inheritChildTemplateProperties(frontmatter, parentFrontmatter, template.inheritProperties || []);
+    logger.flow('ChildTemplate', 'render', {
+      template: template.id,
+      parentPath: input.parent?.path || '',
+      keys: Object.keys(frontmatter),
+      prompts: questions.length,
+    });
+    return { frontmatter, body: renderChildTemplateText(parts.body, context).trim() };
+  }
+
+  /**
+   * Subitem options with the template applied. The template body goes above
+   * any body the caller already had. Resolves `null` when a prompt is
+   * cancelled or the template cannot be read.
+   */
+  async applyToSubitemOptions(
+    template: ChildNoteTemplate | null,
+    parent: TFile,
+    title: string,
+    options?: CreateSubitemOptions,
+  ): Promise<CreateSubitemOptions | null> {
+    if (!template) return options ?? {};
+    let rendered: RenderedChildTemplate | null;
+    try {
+      rendered = await this.render(template, { title, parent, interactive: true });
+    } catch (error) {
+      logger.flowError('ChildTemplate', 'render:failed', error, { template: template.id, parentPath: parent.path });
+      new Notice(getErrorMessage(error));
+      return null;
+    }
+    if (!rendered) return null;
+    const initialBody = [rendered.body, String(options?.initialBody || '').trim()].filter(Boolean).join('\n\n');
+    return {
+      ...options,
+      templateFrontmatter: { ...rendered.frontmatter, ...options?.templateFrontmatter },
+      ...(initialBody ? { initialBody } : {}),
+    };
+  }
+
+  /**
+   * Runs `create` and appends `body` to the Markdown note it created: the one
+   * note created meanwhile whose name starts with `expected.baseName` and whose
+   * frontmatter holds the plain values of `expected.frontmatter`. Used where
+   * Obsidian creates the note and only exposes its frontmatter, as with the
+   * Bases new-item button. Nothing is appended when no single note matches.
+   */
+  async withBodyForCreatedNote(
+    body: string,
+    create: () => Promise<void>,
+    expected: { baseName?: string; frontmatter: Record<string, unknown> },
+  ): Promise<void> {
+    if (!body.trim()) {
+      await create();
+      return;
+    }
+    const created: TFile[] = [];
+    const ref = this.plugin.app.vault.on('create', (file) => {
+      if (file instanceof TFile && file.extension === 'md') created.push(file);
+    });
+    try {
+      await create();
+    } finally {
+      this.plugin.app.vault.offref(ref);
+    }
+    const baseName = String(expected.baseName || '').trim().toLowerCase();
+    const matches: TFile[] = [];
+    for (const file of created) {
+      if (baseName && !file.basename.toLowerCase().startsWith(baseName)) continue;
+      if (await this.hasFrontmatterValues(file, expected.frontmatter)) matches.push(file);
+    }
+    if (matches.length !== 1) {
+      logger.flowWarn('ChildTemplate', 'body:created-note-unmatched', { created: created.length, matches: matches.length });
+      return;
+    }
+    await this.plugin.app.vault.process(matches[0], (content) => {
+      const separator = content.length === 0 || content.endsWith('\n') ? '' : '\n';
+      return `${content}${separator}${body.trim()}\n`;
+    });
+  }
+
+  private async hasFrontmatterValues(file: TFile, expected: Record<string, unknown>): Promise<boolean> {
+    const { frontmatter: yaml } = splitChildTemplateContent(await this.plugin.app.vault.cachedRead(file));
+    let frontmatter: Record<string, unknown> = {};
+    try {
+      const parsed = yaml ? parseYaml(yaml) : null;
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) frontmatter = parsed as Record<string, unknown>;
+    } catch {
+      return false;
+    }
+    return Object.entries(expected).every(([key, value]) => {
+      if (value === null || value === undefined || typeof value === 'object') return true;
+      const actualKey = findKeyCaseInsensitive(frontmatter, key);
+      return !!actualKey && String(frontmatter[actualKey]) === String(value);
+    });
+  }
+
+  private askPrompts(template: ChildNoteTemplate, questions: string[]): Promise<Record<string, string> | null> {
+    return new Promise((resolve) => {
+      new ChildTemplatePromptModal(this.plugin.app, template.name, questions, resolve).open();
+    });
+  }
+
+  private getTemplateFile(path: string): TFile | null {
+    const trimmed = String(path || '').trim();
+    if (!trimmed) return null;
+    const normalized = normalizePath(trimmed.toLowerCase().endsWith('.md') ? trimmed : `${trimmed}.md`);
+    const file = this.plugin.app.vault.getAbstractFileByPath(normalized);
+    return file instanceof TFile ? file : null;
+  }
+
+  private readFrontmatter(file: TFile): Record<string, unknown> {
+    return this.plugin.parentLinkResolutionService?.getLogicalFrontmatter(file)
+      ?? (this.plugin.app.metadataCache.getFileCache(file)?.frontmatter || {});
+  }
+}
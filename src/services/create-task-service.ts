@@ -5,7 +5,7 @@ import {
   type CreateTaskCheckboxOption,
   type CreateTaskModalResult,
 } from '../modals/create-task-modal';
-import { buildCreatedTaskLine } from '../utils/create-task-parser';
+import { buildCreatedTaskLine, getQuickAddPropertyKeys } from '../utils/create-task-parser';
 import { insertLineAfterFrontmatter, updateTaskLineTimestamps } from '../utils/task-line-metadata';
 import {
   abortDirectTaskHistory,
@@ -46,6 +46,12 @@ export class CreateTaskService {
       defaultTimeEstimate: 30,
       checkboxOptions,
       defaultCheckboxMarker,
+      inlinePropertyKeys: getQuickAddPropertyKeys(this.plugin.settings.properties),
+      statusPropertyKey: this.plugin.sharedServices.status.getStatusPropertyKey(),
+      resolveTargetLink: (linkpath) => {
+        const file = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, defaultTarget?.path ?? '');
+        return file instanceof TFile && file.extension === 'md' ? file : null;
+      },
       onSubmit: async (result) => {
         await this.createTask(result);
       },
@@ -93,6 +99,9 @@ export class CreateTaskService {
       scheduledValue: result.scheduledValue,
       allDay: result.allDay,
       timeEstimate: result.timeEstimate,
+      keepTimeEstimate: result.keepTimeEstimate,
+      recurrence: result.recurrence,
+      properties: result.properties,
     });
 
     let historyHandle: DirectTaskHistoryHandle | null = null;
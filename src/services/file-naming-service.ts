@@ -3,6 +3,7 @@ import TPSGlobalContextMenuPlugin from '../main';
 import * as logger from "../logger";
 import { extractDatePrefix, extractDateSuffix, stripDatePrefix, stripDateSuffix, FULL_DATE_REGEX } from '../utils/date-suffix-utils';
 import { getDailyNotePathDateCandidate } from '../utils/daily-note-creation';
+import { parsePeriodicNotePath } from '../utils/periodic-notes';
 
 /**
  * Handles automatic file naming based on title and scheduled date
@@ -102,6 +103,11 @@ export class FileNamingService {
         return this.isConfiguredDailyNotePath(file);
     }
 
+    /** Weekly/monthly/quarterly/yearly notes are named by their period, like daily notes. */
+    private isPeriodicNotePath(file: TFile): boolean {
+        return !!parsePeriodicNotePath((this.plugin as any)?.settings?.periodicNotes, file.path);
+    }
+
     private isConfiguredDailyNotePath(file: TFile): boolean {
         const coreOptions = this.getCoreDailyNoteOptions();
         const periodicOptions = this.getPeriodicDailyNoteOptions();
@@ -257,7 +263,7 @@ export class FileNamingService {
                 if (currentIso === expectedDate && currentRaw === expectedScheduled) return;
                 frontmatter.scheduled = expectedScheduled;
                 changed = true;
-            });
+            }, { kind: 'automation', sourcePluginId: this.plugin.manifest.id, surface: 'daily-note-scheduled' });
         });
         return changed;
     }
@@ -733,7 +739,7 @@ export class FileNamingService {
             // Date-only files (daily notes) are owned by the Companion
             // plugin for title sync. Skip them here to avoid fighting over title values.
             const isProcessRun = this.isProcessRunFrontmatter(fm);
-            if ((this.isDateOnlyBasename(rawBasename) || this.isConfiguredDailyNotePath(liveFile)) && !isProcessRun) return "skipped";
+            if ((this.isDateOnlyBasename(rawBasename) || this.isConfiguredDailyNotePath(liveFile) || this.isPeriodicNotePath(liveFile)) && !isProcessRun) return "skipped";
             if (this.isDailyNoteFrontmatter(fm) && !isProcessRun) return "skipped";
             if (await this.plugin.bulkEditService.shouldSkipNoteLevelRecurrence(liveFile, scheduled)) return "skipped";
 
@@ -861,6 +867,7 @@ export class FileNamingService {
             (
                 this.isDateOnlyBasename(String(liveFile.basename).trim())
                 || this.isConfiguredDailyNotePath(liveFile)
+                || this.isPeriodicNotePath(liveFile)
             )
             && !isProcessRun
         ) return;
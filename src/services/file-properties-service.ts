@@ -15,6 +15,7 @@ import {
   setValueCaseInsensitive,
 } from '../core';
 import { normalizeTagList } from '../utils/tag-utils';
+import { createItemHistoryInteractionId, itemHistoryCauseFromMutation } from './item-history-core';
 
 export const FILE_PROPERTIES_ROOT = normalizePath('_assets/TPS File Properties');
 export const FILE_PROPERTIES_BY_ID_ROOT = normalizePath(`${FILE_PROPERTIES_ROOT}/_by-id`);
@@ -64,6 +65,8 @@ export interface FilePropertiesMutationCause {
   kind: 'user' | 'automation';
   sourcePluginId?: string;
   surface?: string;
+  /** Groups the item history entries of one multi-file user action. */
+  interactionId?: string;
 }
 
 export interface FilePropertiesBulkMutationFailure {
@@ -130,6 +133,12 @@ export interface FilePropertiesReconcileReport {
   collisions: string[];
 }
 
+export interface FilePropertiesStaleCompanion {
+  companion: TFile;
+  sourcePath: string;
+  reason: string;
+}
+
 export interface FilePropertiesFolderLifecycleReport {
   matched: number;
   moved: number;
@@ -324,6 +333,13 @@ export class FilePropertiesService {
     return this.getUniqueIndexedCompanion(file.path);
   }
 
+  /** Stable companion identity for `file`, or an empty string without a companion. */
+  getFileId(file: TFile): string {
+    const companion = this.getCompanionFile(file);
+    const raw = companion ? this.readRawFrontmatterSync(companion) : null;
+    return raw ? this.readReservedString(raw, FILE_PROPERTY_KEYS.id) : '';
+  }
+
   /**
    * Returns a unique missing companion that still names this exact path.
    * This is intentionally separate from getCompanionFile: a replacement file
@@ -694,32 +710,53 @@ export class FilePropertiesService {
       await mutator(next);
       const normalized = this.sortUserProperties(this.sanitizeUserProperties(next));
       const propertyChanged = !this.recordsEqual(before, normalized);
-      return this.serialize(async () => {
-        this.assertLiveSourceAtPath(file, expectedSourcePath);
-        if (propertyChanged) {
-          const raw = this.buildReservedRecord(file, ensured.raw, normalized);
-          ensured.raw = await this.writeRawFrontmatter(ensured.companion, raw, ensured.raw);
-          ensured.user = this.extractUserProperties(ensured.raw);
-        }
+      const history = propertyChanged
+        ? await this.plugin.itemHistoryService?.beginNoteMutation({
+          action: 'note.update',
+          cause: itemHistoryCauseFromMutation(normalizedCause, this.plugin.manifest.id, 'file-properties'),
+          path: expectedSourcePath,
+          entityId: this.readReservedString(ensured.raw, FILE_PROPERTY_KEYS.id),
+          before,
+          after: normalized,
+        })
+        : null;
+      try {
+        const result = await this.serialize(async () => {
+          this.assertLiveSourceAtPath(file, expectedSourcePath);
+          if (propertyChanged) {
+            const raw = this.buildReservedRecord(file, ensured.raw, normalized);
+            ensured.raw = await this.writeRawFrontmatter(ensured.companion, raw, ensured.raw);
+            ensured.user = this.extractUserProperties(ensured.raw);
+          }
 
-        const changed = ensured.changed || propertyChanged;
-        if (changed) {
-          await this.notifyChanged({
-            action: ensured.created ? 'created' : 'updated',
-            sourceFile: file,
-            sourcePath: expectedSourcePath,
-            companionFile: ensured.companion,
-            companionPath: ensured.companion.path,
-            frontmatter: ensured.user,
-          }, {
-            cause: normalizedCause,
-            changedKeys: ensured.created
-              ? Object.keys(ensured.user)
-              : this.changedUserPropertyKeys(before, ensured.user),
-          });
-        }
-        return changed;
-      });
+          const changed = ensured.changed || propertyChanged;
+          if (changed) {
+            await this.notifyChanged({
+              action: ensured.created ? 'created' : 'updated',
+              sourceFile: file,
+              sourcePath: expectedSourcePath,
+              companionFile: ensured.companion,
+              companionPath: ensured.companion.path,
+              frontmatter: ensured.user,
+            }, {
+              cause: normalizedCause,
+              changedKeys: ensured.created
+                ? Object.keys(ensured.user)
+                : this.changedUserPropertyKeys(before, ensured.user),
+            });
+          }
+          return changed;
+        });
+        await this.plugin.itemHistoryService?.commitNoteMutation(history, {
+          path: expectedSourcePath,
+          frontmatter: ensured.user,
+          entityId: this.readReservedString(ensured.raw, FILE_PROPERTY_KEYS.id),
+        });
+        return result;
+      } catch (error) {
+        await this.plugin.itemHistoryService?.abortNoteMutation(history);
+        throw error;
+      }
     });
   }
 
@@ -993,8 +1030,13 @@ export class FilePropertiesService {
     mutator: FilePropertyMutator,
     cause: FilePropertiesMutationCause = { kind: 'user' },
   ): Promise<FilePropertiesBulkMutationResult> {
-    const normalizedCause = this.normalizeMutationCause(cause, 'user');
     const targets = (files || []).filter((file): file is TFile => this.isPropertyTarget(file));
+    const normalizedCause = this.normalizeMutationCause(
+      targets.length > 1 && !cause?.interactionId
+        ? { ...cause, interactionId: createItemHistoryInteractionId() }
+        : cause,
+      'user',
+    );
     const updated: TFile[] = [];
     const failures: FilePropertiesBulkMutationFailure[] = [];
     for (const file of targets) {
@@ -1654,7 +1696,13 @@ export class FilePropertiesService {
     });
   }
 
-  async reconcileCompanions(): Promise<FilePropertiesReconcileReport> {
+  /**
+   * Rebuilds the companion index and repairs companions in place. With
+   * `companionPaths`, every companion is still read to rebuild the index, but
+   * only the listed ones are rewritten or moved.
+   */
+  async reconcileCompanions(companionPaths?: readonly string[]): Promise<FilePropertiesReconcileReport> {
+    const selected = companionPaths ? new Set(companionPaths.map((path) => this.pathKey(path))) : null;
     await this.awaitMetadataResolvedIndex();
     return this.serialize(async () => {
       const report: FilePropertiesReconcileReport = {
@@ -1708,6 +1756,7 @@ export class FilePropertiesService {
       }
 
       for (const records of bySource.values()) {
+        if (selected && !records.some((record) => selected.has(this.pathKey(record.companion.path)))) continue;
         if (records.length !== 1) {
           report.collisions.push(`Multiple GCM file-property companions map to ${records[0].sourcePath}`);
           continue;
@@ -1764,6 +1813,35 @@ export class FilePropertiesService {
     });
   }
 
+  /**
+   * Read-only counterpart of `reconcileCompanions()`: companions whose source
+   * disappeared without being marked missing, whose source came back while still
+   * marked missing, or that no longer sit at their source's companion path.
+   */
+  findStaleCompanions(): FilePropertiesStaleCompanion[] {
+    const stale: FilePropertiesStaleCompanion[] = [];
+    for (const companion of this.getAllCompanionFiles()) {
+      const raw = this.readRawFrontmatterSync(companion);
+      if (!raw || this.readReservedString(raw, FILE_PROPERTY_KEYS.tombstonedAt)) continue;
+      const sourcePath = this.readReservedString(raw, FILE_PROPERTY_KEYS.sourcePath);
+      if (!sourcePath) {
+        stale.push({ companion, sourcePath, reason: 'missing source metadata' });
+        continue;
+      }
+      const source = this.plugin.app.vault.getAbstractFileByPath(this.normalizeVaultPath(sourcePath));
+      const sourceFile = source instanceof TFile && this.isPropertyTarget(source) ? source : null;
+      const markedMissing = this.readReservedBoolean(raw, FILE_PROPERTY_KEYS.sourceMissing);
+      if (!sourceFile) {
+        if (!markedMissing) stale.push({ companion, sourcePath, reason: 'source file is gone' });
+      } else if (markedMissing) {
+        stale.push({ companion, sourcePath, reason: 'source file is back but still marked missing' });
+      } else if (companion.path !== this.getCompanionPath(sourceFile, this.readReservedString(raw, FILE_PROPERTY_KEYS.id))) {
+        stale.push({ companion, sourcePath, reason: 'companion is not at its expected path' });
+      }
+    }
+    return stale;
+  }
+
   async listKnownPropertyNames(): Promise<string[]> {
     await this.awaitMetadataResolvedIndex();
     return this.serialize(async () => {
@@ -1922,10 +2000,12 @@ export class FilePropertiesService {
     const sourcePluginId = String(cause?.sourcePluginId || this.plugin.manifest.id).trim().slice(0, 160)
       || this.plugin.manifest.id;
     const surface = String(cause?.surface || '').trim().slice(0, 160);
+    const interactionId = String(cause?.interactionId || '').trim().slice(0, 160);
     return {
       kind,
       sourcePluginId,
       ...(surface ? { surface } : {}),
+      ...(interactionId ? { interactionId } : {}),
     };
   }
 
@@ -6,6 +6,8 @@ import { getCompatibleMarkdownViewFromLeaf, getViewMode, pickBestMarkdownLeaf }
 import { normalizeTagList } from '../utils/tag-utils';
 import { normalizeCompletedDateValue } from '../utils/completed-date-utils';
 import type { FilePropertiesMutationCause } from './file-properties-service';
+import { createItemHistoryInteractionId, itemHistoryCauseFromMutation } from './item-history-core';
+import type { ItemHistoryNoteAction, ItemHistoryNoteMutationHandle } from './item-history-core';
 
 type FrontmatterRecord = Record<string, unknown>;
 type FrontmatterMutator = (frontmatter: FrontmatterRecord) => void | Promise<void>;
@@ -28,6 +30,7 @@ export class FrontmatterMutationService {
     file: TFile,
     mutator: FrontmatterMutator,
     cause: FilePropertiesMutationCause = { kind: 'user' },
+    historyAction: ItemHistoryNoteAction = 'note.update',
   ): Promise<boolean> {
     if (!(file instanceof TFile)) return false;
     if (this.plugin.filePropertiesService?.isCompanionFile(file)) return false;
@@ -40,70 +43,91 @@ export class FrontmatterMutationService {
     let changed = false;
     let nextTitle: string | null = null;
     let indexedFrontmatter: FrontmatterRecord | null = null;
+    let history: ItemHistoryNoteMutationHandle | null = null;
     const started = performance.now();
-    await this.runSerialized(file, async () => {
-      const attempt = await this.readParsedWithRetries(file);
-      if (!attempt) return;
-
-      const { normalized, parsed } = attempt;
-      if (!parsed.ok) {
-        const { reason, error } = parsed as { ok: false; reason: string; error?: unknown };
-        this.warnMalformed(file, reason, error);
-        return;
-      }
-
-      const frontmatter = parsed.frontmatter;
-      const originalFrontmatter = { ...frontmatter };
-      const originalTitle = readFrontmatterString(originalFrontmatter, 'title').trim();
-      const before = stringifyYaml(this.sortFrontmatter(frontmatter)).trimEnd();
-      await mutator(frontmatter);
-      this.normalizeTagValues(frontmatter);
-      this.normalizeDateTimeValues(frontmatter);
-      this.removeEmptyValuesChangedByMutation(frontmatter, originalFrontmatter);
-      this.appendActivityEntryIfNeeded(frontmatter, originalFrontmatter);
-      const mutatedTitle = readFrontmatterString(frontmatter, 'title').trim();
-      if (mutatedTitle && mutatedTitle !== originalTitle) {
-        nextTitle = mutatedTitle;
-      }
-      const sorted = this.sortFrontmatter(frontmatter);
-      const after = stringifyYaml(sorted).trimEnd();
-
-      const nextContent = after
-        ? `${normalized.bom}---\n${after}\n---${parsed.body ? `\n${parsed.body}` : '\n'}`
-        : `${normalized.bom}${parsed.body}`;
-
-      if (nextContent !== normalized.fullContent || before !== after) {
-        const validation = this.validateNextContent(nextContent);
-        if (validation.ok !== true) {
-          this.warnMalformed(file, validation.reason, validation.error);
-          logger.warn('[TPS GCM] Refusing frontmatter write that failed post-write validation', {
-            file: file.path,
-            reason: validation.reason,
-            stack: new Error().stack,
-          });
+    try {
+      await this.runSerialized(file, async () => {
+        const attempt = await this.readParsedWithRetries(file);
+        if (!attempt) return;
+
+        const { normalized, parsed } = attempt;
+        if (!parsed.ok) {
+          const { reason, error } = parsed as { ok: false; reason: string; error?: unknown };
+          this.warnMalformed(file, reason, error);
           return;
         }
-        if (!this.hasSuspiciousBrokenSubitemLine(normalized.fullContent) && this.hasSuspiciousBrokenSubitemLine(nextContent)) {
-          this.warnMalformed(file, 'suspicious-broken-subitem-line');
-          logger.warn('[TPS GCM] Refusing frontmatter write that would introduce a broken subitem line', {
-            file: file.path,
-            stack: new Error().stack,
-          });
-          return;
+
+        const frontmatter = parsed.frontmatter;
+        const originalFrontmatter = { ...frontmatter };
+        const historyBefore = cloneFrontmatterRecord(frontmatter);
+        const originalTitle = readFrontmatterString(originalFrontmatter, 'title').trim();
+        const before = stringifyYaml(this.sortFrontmatter(frontmatter)).trimEnd();
+        await mutator(frontmatter);
+        this.normalizeTagValues(frontmatter);
+        this.normalizeDateTimeValues(frontmatter);
+        this.removeEmptyValuesChangedByMutation(frontmatter, originalFrontmatter);
+        this.appendActivityEntryIfNeeded(frontmatter, originalFrontmatter);
+        const mutatedTitle = readFrontmatterString(frontmatter, 'title').trim();
+        if (mutatedTitle && mutatedTitle !== originalTitle) {
+          nextTitle = mutatedTitle;
         }
-        await this.writeContent(file, nextContent);
-        const sourcePluginId = String(cause.sourcePluginId || this.plugin.manifest.id);
-        this.plugin.eventService.emitFilesUpdated([file.path], { sourcePluginId });
-        if (cause.kind !== 'automation') {
-          this.plugin.eventService.emitExplicitAction([file.path], {
-            sourcePluginId,
-            source: String(cause.surface || 'frontmatter'),
+        history = await this.plugin.itemHistoryService?.beginNoteMutation({
+          action: historyAction,
+          cause: itemHistoryCauseFromMutation(cause, this.plugin.manifest.id, 'frontmatter'),
+          path: file.path,
+          before: historyBefore,
+          after: frontmatter,
+          allowNewIdentity: true,
+        }) ?? null;
+        this.plugin.itemHistoryService?.ensureNoteIdentity(history, frontmatter);
+        const sorted = this.sortFrontmatter(frontmatter);
+        const after = stringifyYaml(sorted).trimEnd();
+
+        const nextContent = after
+          ? `${normalized.bom}---\n${after}\n---${parsed.body ? `\n${parsed.body}` : '\n'}`
+          : `${normalized.bom}${parsed.body}`;
+
+        if (nextContent !== normalized.fullContent || before !== after) {
+          const validation = this.validateNextContent(nextContent);
+          if (validation.ok !== true) {
+            this.warnMalformed(file, validation.reason, validation.error);
+            logger.warn('[TPS GCM] Refusing frontmatter write that failed post-write validation', {
+              file: file.path,
+              reason: validation.reason,
+              stack: new Error().stack,
+            });
+            return;
+          }
+          if (!this.hasSuspiciousBrokenSubitemLine(normalized.fullContent) && this.hasSuspiciousBrokenSubitemLine(nextContent)) {
+            this.warnMalformed(file, 'suspicious-broken-subitem-line');
+            logger.warn('[TPS GCM] Refusing frontmatter write that would introduce a broken subitem line', {
+              file: file.path,
+              stack: new Error().stack,
+            });
+            return;
+          }
+          await this.writeContent(file, nextContent);
+          await this.plugin.itemHistoryService?.commitNoteMutation(history, {
+            path: file.path,
+            frontmatter: sorted,
           });
+          history = null;
+          const sourcePluginId = String(cause.sourcePluginId || this.plugin.manifest.id);
+          this.plugin.eventService.emitFilesUpdated([file.path], { sourcePluginId });
+          if (cause.kind !== 'automation') {
+            this.plugin.eventService.emitExplicitAction([file.path], {
+              sourcePluginId,
+              source: String(cause.surface || 'frontmatter'),
+            });
+          }
+          indexedFrontmatter = { ...sorted };
+          changed = true;
         }
-        indexedFrontmatter = { ...sorted };
-        changed = true;
-      }
-    });
+      });
+    } finally {
+      // Refused or failed writes leave nothing to record.
+      await this.plugin.itemHistoryService?.abortNoteMutation(history);
+    }
 
     logger.perf('frontmatterMutation.process', {
       file: file.path,
@@ -132,6 +156,7 @@ export class FrontmatterMutationService {
     cause: FilePropertiesMutationCause = { kind: 'user' },
   ): Promise<TFile[]> {
     const { markdownFiles, nonMarkdownFiles } = this.partitionByStorageType(files);
+    cause = withBatchInteraction(files, cause);
     await this.warnIfSchedulingMultiDateTaskContainer(markdownFiles, updates);
     const updatedNonMarkdown = await this.plugin.filePropertiesService?.updateValues(nonMarkdownFiles, updates, cause) ?? [];
     const updatedMarkdown = await this.applyToFiles(markdownFiles, async (frontmatter) => {
@@ -148,6 +173,7 @@ export class FrontmatterMutationService {
 
   async setListValues(files: TFile[], key: string, values: unknown[], cause: FilePropertiesMutationCause = { kind: 'user' }): Promise<TFile[]> {
     const { markdownFiles, nonMarkdownFiles } = this.partitionByStorageType(files);
+    cause = withBatchInteraction(files, cause);
     const updatedNonMarkdown = await this.plugin.filePropertiesService?.setListValues(nonMarkdownFiles, key, values, cause) ?? [];
     const updatedMarkdown = await this.applyToFiles(markdownFiles, async (frontmatter) => {
       const normalized = this.normalizeList(values);
@@ -164,6 +190,7 @@ export class FrontmatterMutationService {
     const additions = this.normalizeList(values);
     if (additions.length === 0) return [];
     const { markdownFiles, nonMarkdownFiles } = this.partitionByStorageType(files);
+    cause = withBatchInteraction(files, cause);
     const updatedNonMarkdown = await this.plugin.filePropertiesService?.addValuesToList(nonMarkdownFiles, key, additions, cause) ?? [];
     const updatedMarkdown = await this.applyToFiles(markdownFiles, async (frontmatter) => {
       const existingKey = findKeyCaseInsensitive(frontmatter, key) || key;
@@ -185,6 +212,7 @@ export class FrontmatterMutationService {
     const removals = new Set(this.normalizeList(values).map((value) => casefold(String(value))));
     if (removals.size === 0) return [];
     const { markdownFiles, nonMarkdownFiles } = this.partitionByStorageType(files);
+    cause = withBatchInteraction(files, cause);
     const updatedNonMarkdown = await this.plugin.filePropertiesService?.removeValuesFromList(nonMarkdownFiles, key, values, cause) ?? [];
     const updatedMarkdown = await this.applyToFiles(markdownFiles, async (frontmatter) => {
       const existingKey = findKeyCaseInsensitive(frontmatter, key);
@@ -202,6 +230,7 @@ export class FrontmatterMutationService {
 
   async setDateValue(files: TFile[], key: string, value: string | null, cause: FilePropertiesMutationCause = { kind: 'user' }): Promise<TFile[]> {
     const { markdownFiles, nonMarkdownFiles } = this.partitionByStorageType(files);
+    cause = withBatchInteraction(files, cause);
     const normalized = normalizeObsidianDateTimeValue(value);
     await this.warnIfSchedulingMultiDateTaskContainer(markdownFiles, { [key]: normalized || null });
     const updatedNonMarkdown = await this.plugin.filePropertiesService?.updateValues(nonMarkdownFiles, {
@@ -221,6 +250,7 @@ export class FrontmatterMutationService {
     const normalizedKeys = keys.map((key) => String(key || '').trim()).filter(Boolean);
     if (normalizedKeys.length === 0) return [];
     const { markdownFiles, nonMarkdownFiles } = this.partitionByStorageType(files);
+    cause = withBatchInteraction(files, cause);
     const updatedNonMarkdown = await this.plugin.filePropertiesService?.deleteKeys(nonMarkdownFiles, normalizedKeys, cause) ?? [];
     const updatedMarkdown = await this.applyToFiles(markdownFiles, async (frontmatter) => {
       for (const key of normalizedKeys) {
@@ -923,6 +953,21 @@ function stableActivityString(value: unknown): string {
   return String(value);
 }
 
+/** Shares one history interaction across the files of a multi-file edit. */
+function withBatchInteraction(files: TFile[], cause: FilePropertiesMutationCause): FilePropertiesMutationCause {
+  return files.length > 1 && !cause.interactionId
+    ? { ...cause, interactionId: createItemHistoryInteractionId() }
+    : cause;
+}
+
+function cloneFrontmatterRecord(frontmatter: FrontmatterRecord): FrontmatterRecord {
+  try {
+    return JSON.parse(JSON.stringify(frontmatter ?? {})) as FrontmatterRecord;
+  } catch {
+    return { ...frontmatter };
+  }
+}
+
 function readFrontmatterString(frontmatter: FrontmatterRecord, key: string): string {
   const normalized = key.trim().toLowerCase();
   const existingKey = Object.keys(frontmatter || {}).find((candidate) => candidate.trim().toLowerCase() === normalized);
@@ -36,6 +36,16 @@ export class GcmEventService {
     return payload;
   }
 
+  emitRemindersUpdated(paths: unknown, options?: { sourcePluginId?: string; source?: string }): GcmEventPayload {
+    const payload = {
+      ...this.makePayload(paths, options?.sourcePluginId),
+      source: options?.source || 'api',
+    };
+    if (!payload.paths.length) return payload;
+    this.plugin.app.workspace.trigger(TPS_EVENTS.REMINDERS_UPDATED as any, payload);
+    return payload;
+  }
+
   onFilesUpdated(callback: (paths: string[], payload: GcmEventPayload | Record<string, unknown>) => void): () => void {
     const legacyRef = this.plugin.app.workspace.on(TPS_LEGACY_EVENTS.GCM_FILES_UPDATED as any, ((paths: string[] | undefined) => {
       const normalized = this.normalizePaths(paths);
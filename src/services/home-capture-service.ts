@@ -17,8 +17,15 @@ import { formatFileWikilink } from '../utils/list-utils';
 import {
   parseTaskLine,
   preserveTpsInlinePropsMetadata,
+  setTaskCheckboxToken,
   stripTaskInlinePropsMetadata,
 } from '../utils/task-line-metadata';
+import {
+  buildCreatedTaskFields,
+  getQuickAddPropertyKeys,
+  parseCreateTaskInput,
+  type ParsedCreateTaskInput,
+} from '../utils/create-task-parser';
 import {
   MAX_BASE_LINE_SOURCE_BYTES,
   isWithinUtf8ByteLimit,
@@ -238,7 +245,51 @@ export class HomeCaptureService {
   }
 
   formatCaptureValue(text: string, task = false): string {
-    return formatHomeCaptureBlock(text, getMoment()().format('YYYY-MM-DD HH:mm:ss'), { task }).trimEnd();
+    const timestamp = getMoment()().format('YYYY-MM-DD HH:mm:ss');
+    return (this.formatQuickAddTaskBlock(text, timestamp, task) ?? formatHomeCaptureBlock(text, timestamp, { task })).trimEnd();
+  }
+
+  /** The note named by a `>[[Note]]` quick-add token in a single-line task capture. */
+  resolveQuickAddTarget(text: string): TFile | null {
+    const parsed = this.parseQuickAddTask(text);
+    if (!parsed?.targetLinkpath) return null;
+    const file = this.plugin.app.metadataCache.getFirstLinkpathDest(parsed.targetLinkpath, '');
+    return file instanceof TFile && file.extension === 'md' ? file : null;
+  }
+
+  /**
+   * Single-line task captures use the Create task quick-add grammar; the
+   * tokens become inline fields and `@@status:` picks the checkbox. Returns
+   * null when there is nothing to rewrite.
+   */
+  private formatQuickAddTaskBlock(text: string, timestamp: string, task: boolean): string | null {
+    const parsed = task ? this.parseQuickAddTask(text) : null;
+    if (!parsed || parsed.tokens.every((token) => token.kind === 'tag')) return null;
+    const status = this.plugin.sharedServices.status;
+    const statusKey = status.getStatusPropertyKey().toLowerCase();
+    const properties = { ...parsed.properties };
+    const statusEntry = Object.keys(properties).find((key) => key.toLowerCase() === statusKey);
+    const checkboxState = statusEntry ? status.statusToCheckboxState(properties[statusEntry]) : '';
+    if (statusEntry) delete properties[statusEntry];
+    const body = [parsed.title || 'Untitled task', ...buildCreatedTaskFields({
+      scheduledValue: parsed.scheduledValue,
+      allDay: parsed.allDay,
+      timeEstimate: parsed.timeEstimate,
+      keepTimeEstimate: true,
+      priority: parsed.priority,
+      recurrence: parsed.recurrence,
+      properties,
+    })].join(' ');
+    const block = formatHomeCaptureBlock(body, timestamp, { task: true });
+    return checkboxState ? setTaskCheckboxToken(block.trimEnd(), `[${checkboxState}]`) + '\n' : block;
+  }
+
+  private parseQuickAddTask(text: string): ParsedCreateTaskInput | null {
+    const value = String(text || '').trim();
+    if (!value || value.includes('\n')) return null;
+    return parseCreateTaskInput(value, new Date(), {
+      inlinePropertyKeys: getQuickAddPropertyKeys(this.plugin.settings.properties),
+    });
   }
 
   validateCaptureValue(text: string, date = getMoment()(), options: HomeCaptureOptions = {}): boolean {
@@ -391,9 +442,12 @@ export class HomeCaptureService {
       new Notice('The capture target no longer exists. Nothing was written.', 8000);
       return null;
     }
+    const quickAddTarget = options.task === true && !requestedPath && !options.headingTarget
+      ? this.resolveQuickAddTarget(value)
+      : null;
     let file: TFile;
     try {
-      file = requestedFile instanceof TFile ? requestedFile : await this.ensureDailyNote(date);
+      file = requestedFile instanceof TFile ? requestedFile : quickAddTarget ?? await this.ensureDailyNote(date);
     } catch (error) {
       logger.flowError('HomeCapture', 'capture:daily-note-unavailable', error, {
         date: date.format?.('YYYY-MM-DD') ?? null,
@@ -404,7 +458,8 @@ export class HomeCaptureService {
     const timestamp = getMoment()().format('YYYY-MM-DD HH:mm:ss');
     const block = options.preserveMarkdown === true
       ? formatCaptureMarkdownForWrite(value, timestamp)
-      : formatHomeCaptureBlock(value, timestamp, { task: options.task === true });
+      : this.formatQuickAddTaskBlock(value, timestamp, options.task === true)
+        ?? formatHomeCaptureBlock(value, timestamp, { task: options.task === true });
     const historyIntents = await this.beginCaptureTaskHistory(file, block, options.historyCause);
     let headingConflict = false;
     let resolvedHeadingLine: number | null = null;
@@ -462,7 +517,7 @@ export class HomeCaptureService {
       headingLevel: options.headingTarget?.level ?? null,
       headingLine: resolvedHeadingLine === null ? null : resolvedHeadingLine + 1,
     });
-    const destination = requestedPath ? file.basename : date.format('YYYY-MM-DD');
+    const destination = requestedPath || quickAddTarget ? file.basename : date.format('YYYY-MM-DD');
     new Notice(`${options.task === true ? 'Added task' : 'Added'} to ${destination}.`);
     return file;
   }
@@ -0,0 +1,221 @@
+import { RRule } from 'rrule';
+import { parseTaskRecurrenceRule } from '../utils/task-recurrence';
+import { parseScheduleValue, type ScheduleDateParts } from '../utils/schedule-value';
+
+/**
+ * Pure RFC 5545 serialization for the iCalendar export. Schedule values stay
+ * floating (no TZID, no UTC suffix) so calendar clients show them at the same
+ * wall-clock time the vault does, including across DST changes in RRULEs.
+ */
+
+export const ICS_PRODUCT_ID = '-//TPS//Global Context Menu//EN';
+export const ICS_UID_DOMAIN = 'tps-global-context-menu';
+
+export type IcsDateParts = ScheduleDateParts;
+
+export interface IcsEventInput {
+  /** Stable identity used for the UID; falls back to a hash of `fallbackKey`. */
+  stableId: string | null;
+  fallbackKey: string;
+  summary: string;
+  start: IcsDateParts;
+  allDay: boolean;
+  durationMinutes: number;
+  rrule: string | null;
+  /**
+   * Exceptions to `rrule`, as stored on the item: `YYYY-MM-DD` days and
+   * `YYYY-MM-DD HH:mm[:ss]` values. Date-only values of a timed event take
+   * its start time. Ignored without a rule.
+   */
+  exdates?: readonly string[];
+  rdates?: readonly string[];
+  description?: string;
+  /** Link back into the vault, written as-is (callers encode it). */
+  url?: string;
+  categories?: string[];
+}
+
+export interface IcsCalendarOptions {
+  name?: string;
+  /** DTSTAMP for every event. */
+  stamp: Date;
+}
+
+const MAX_LINE_OCTETS = 75;
+const HAS_TIME_RE = /\d{1,2}:\d{2}/;
+
+/**
+ * Returns the bare `FREQ=...` rule for an RRULE string, or null for empty,
+ * invalid, or GCM after-completion rules (which have no calendar equivalent).
+ */
+export function normalizeIcsRecurrenceRule(raw: unknown): string | null {
+  const value = String(raw ?? '').trim();
+  if (!value) return null;
+  const parsed = parseTaskRecurrenceRule(value);
+  if (!parsed || parsed.kind !== 'rrule') return null;
+  const ruleLine = parsed.rule
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => /^(RRULE:)?FREQ=/i.test(line) || /^RRULE:/i.test(line));
+  if (!ruleLine) return null;
+  const rule = ruleLine.replace(/^RRULE:/i, '').trim().toUpperCase();
+  try {
+    const options = RRule.parseString(rule);
+    if (options.freq == null) return null;
+  } catch {
+    return null;
+  }
+  return rule;
+}
+
+export function buildIcsUid(stableId: string | null, fallbackKey: string): string {
+  const id = String(stableId || '').trim();
+  if (id) return `${id}@${ICS_UID_DOMAIN}`;
+  return `path-${hashIcsKey(fallbackKey)}@${ICS_UID_DOMAIN}`;
+}
+
+export function escapeIcsText(value: string): string {
+  return String(value ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/** Folds a content line to 75 octets without splitting a UTF-8 sequence. */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const segments: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      segments.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  segments.push(current);
+  return segments.join('\r\n ');
+}
+
+/** Keeps the first event for each UID; a calendar may not hold two events with the same UID. */
+export function dedupeIcsEvents(events: IcsEventInput[]): IcsEventInput[] {
+  const seen = new Set<string>();
+  return events.filter((event) => {
+    const uid = buildIcsUid(event.stableId, event.fallbackKey);
+    if (seen.has(uid)) return false;
+    seen.add(uid);
+    return true;
+  });
+}
+
+export function buildIcsCalendar(events: IcsEventInput[], options: IcsCalendarOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  const name = String(options.name || '').trim();
+  if (name) lines.push(`X-WR-CALNAME:${escapeIcsText(name)}`);
+
+  const stamp = formatUtcStamp(options.stamp);
+  for (const event of dedupeIcsEvents(events)) {
+    const uid = buildIcsUid(event.stableId, event.fallbackKey);
+    lines.push('BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${stamp}`);
+    if (event.allDay) {
+      const days = Math.max(1, Math.ceil(event.durationMinutes / (24 * 60)));
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${formatDate(addMinutes(event.start, days * 24 * 60))}`);
+    } else {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`);
+      if (event.durationMinutes > 0) {
+        lines.push(`DTEND:${formatDateTime(addMinutes(event.start, event.durationMinutes))}`);
+      }
+    }
+    if (event.rrule) {
+      lines.push(`RRULE:${event.rrule}`);
+      const exdates = formatIcsDateValues(event.exdates, event);
+      if (exdates) lines.push(`EXDATE${exdates}`);
+      const rdates = formatIcsDateValues(event.rdates, event);
+      if (rdates) lines.push(`RDATE${rdates}`);
+    }
+    lines.push(`SUMMARY:${escapeIcsText(event.summary || 'Untitled')}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    const categories = (event.categories || []).map((category) => escapeIcsText(category)).filter(Boolean);
+    if (categories.length > 0) lines.push(`CATEGORIES:${categories.join(',')}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
+
+/** EXDATE/RDATE parameters and values in the form of the event's DTSTART. */
+function formatIcsDateValues(values: readonly string[] | undefined, event: IcsEventInput): string | null {
+  const formatted = new Set<string>();
+  for (const value of values ?? []) {
+    const parts = parseScheduleValue(value);
+    if (!parts) continue;
+    if (event.allDay) {
+      formatted.add(formatDate(parts));
+    } else {
+      const { hour, minute, second } = HAS_TIME_RE.test(value) ? parts : event.start;
+      formatted.add(formatDateTime({ ...parts, hour, minute, second }));
+    }
+  }
+  if (formatted.size === 0) return null;
+  return `${event.allDay ? ';VALUE=DATE' : ''}:${Array.from(formatted).join(',')}`;
+}
+
+function addMinutes(parts: IcsDateParts, minutes: number): IcsDateParts {
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+  date.setUTCMinutes(date.getUTCMinutes() + minutes);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+function formatDate(parts: IcsDateParts): string {
+  return `${String(parts.year).padStart(4, '0')}${pad(parts.month)}${pad(parts.day)}`;
+}
+
+function formatDateTime(parts: IcsDateParts): string {
+  return `${formatDate(parts)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+}
+
+function formatUtcStamp(date: Date): string {
+  return `${formatDateTime({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  })}Z`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** FNV-1a; only needs to be stable across exports, not collision-proof. */
+export function hashIcsKey(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
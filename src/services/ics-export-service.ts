@@ -0,0 +1,196 @@
+import { TFile, normalizePath } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { getErrorMessage } from '../core';
+import { getPlainDisplayTitle } from '../utils/display-title';
+import { parseDurationMinutes, parseScheduleValue } from '../utils/schedule-value';
+import { RECURRENCE_ANCHOR_KEY, parseRecurrenceDateList, readRecurrenceExceptions } from '../utils/recurrence-exceptions';
+import { normalizeTagList } from '../utils/tag-utils';
+import {
+  buildIcsCalendar,
+  dedupeIcsEvents,
+  normalizeIcsRecurrenceRule,
+  type IcsEventInput,
+} from './ics-export-core';
+import type { GcmTaskListFilter, GcmTaskRecord } from './task-api-service';
+import type { QueryResult, VaultQueryCriteria } from './vault-query-service';
+
+export const DEFAULT_ICS_EXPORT_PATH = 'TPS Schedule.ics';
+/** Task lines read per export unless the task filter sets its own `maxResults`. */
+export const ICS_EXPORT_TASK_LIMIT = 5000;
+
+export interface IcsExportCriteria {
+  /** Vault query for scheduled notes. `false` leaves notes out. */
+  notes?: VaultQueryCriteria | false;
+  /** Task list filter for scheduled task lines. `false` leaves tasks out. */
+  tasks?: GcmTaskListFilter | false;
+  /** Vault path of the `.ics` file. Default: `TPS Schedule.ics`. */
+  path?: string;
+  calendarName?: string;
+}
+
+export interface IcsExportResult {
+  ok: boolean;
+  path: string;
+  events: number;
+  /** Scheduled items whose value could not be read as a date. */
+  skipped: number;
+  /** Exported items without a `tpsId`, whose UID follows their path instead. */
+  withoutStableId: number;
+  /** The task list stopped at its `maxResults` limit, so later scheduled tasks may be missing. */
+  taskLimitReached: boolean;
+  error?: string;
+}
+
+const RECURRENCE_KEYS = ['recurrenceRule', 'recurrence'];
+
+/**
+ * Writes scheduled notes and task lines to an iCalendar file in the vault so
+ * any calendar client can subscribe to the schedule without a live service.
+ */
+export class IcsExportService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  async exportIcs(criteria: IcsExportCriteria = {}): Promise<IcsExportResult> {
+    const path = normalizeIcsExportPath(criteria.path);
+    let events: IcsEventInput[] = [];
+    let skipped = 0;
+    let taskLimitReached = false;
+
+    try {
+      if (criteria.notes !== false) {
+        const notes = await this.plugin.vaultQueryService.queryAsync({
+          ...(criteria.notes ?? {}),
+          properties: [
+            ...(criteria.notes?.properties ?? []),
+            { key: 'scheduled', operator: 'exists' },
+          ],
+        });
+        for (const note of notes) {
+          const event = this.eventFromNote(note);
+          if (event) events.push(event);
+          else skipped += 1;
+        }
+      }
+
+      if (criteria.tasks !== false) {
+        const filter: GcmTaskListFilter = { maxResults: ICS_EXPORT_TASK_LIMIT, ...(criteria.tasks ?? {}) };
+        const tasks = await this.plugin.taskApiService.list(filter);
+        if (typeof filter.maxResults === 'number' && tasks.length >= filter.maxResults) {
+          taskLimitReached = true;
+          logger.flowWarn('IcsExport', 'export:task-limit', { path, maxResults: filter.maxResults });
+        }
+        for (const task of tasks) {
+          if (!readField(task.fields, 'scheduled')) continue;
+          const event = this.eventFromTask(task);
+          if (event) events.push(event);
+          else skipped += 1;
+        }
+      }
+
+      events = dedupeIcsEvents(events);
+      const content = buildIcsCalendar(events, {
+        name: criteria.calendarName ?? this.plugin.app.vault.getName(),
+        stamp: new Date(),
+      });
+      await this.writeCalendar(path, content);
+    } catch (error) {
+      logger.flowError('IcsExport', 'export:failed', error, { path });
+      return { ok: false, path, events: 0, skipped, withoutStableId: 0, taskLimitReached, error: getErrorMessage(error) };
+    }
+
+    const withoutStableId = events.filter((event) => !event.stableId).length;
+    logger.flow('IcsExport', 'export:done', { path, events: events.length, skipped, withoutStableId, taskLimitReached });
+    return { ok: true, path, events: events.length, skipped, withoutStableId, taskLimitReached };
+  }
+
+  private eventFromNote(note: QueryResult): IcsEventInput | null {
+    const fm = note.frontmatter;
+    const scheduled = readField(fm, 'scheduled');
+    const start = parseScheduleValue(scheduled);
+    if (!start) return null;
+    return withRecurrenceExceptions({
+      stableId: String(readField(fm, 'tpsId') ?? '').trim() || null,
+      fallbackKey: note.file.path,
+      summary: getPlainDisplayTitle(readField(fm, 'title'), note.file.basename),
+      start,
+      allDay: this.plugin.sharedServices.schedule.isAllDayValue(scheduled, fm),
+      durationMinutes: parseDurationMinutes(readField(fm, 'timeEstimate')),
+      rrule: normalizeIcsRecurrenceRule(RECURRENCE_KEYS.map((key) => readField(fm, key)).find(Boolean)),
+      description: note.file.path,
+      url: this.buildOpenUrl(note.file.path),
+      categories: normalizeTagList(readField(fm, 'tags')),
+    }, (key) => readField(fm, key));
+  }
+
+  private eventFromTask(task: GcmTaskRecord): IcsEventInput | null {
+    const scheduled = readField(task.fields, 'scheduled');
+    const start = parseScheduleValue(scheduled);
+    if (!start) return null;
+    const allDayFlag = readField(task.fields, 'allDay');
+    return withRecurrenceExceptions({
+      stableId: task.stableId,
+      fallbackKey: `${task.path}\n${task.title}`,
+      summary: task.title,
+      start,
+      allDay: this.plugin.sharedServices.schedule.isAllDayValue(scheduled, { allDay: allDayFlag }),
+      durationMinutes: parseDurationMinutes(readField(task.fields, 'timeEstimate')),
+      rrule: normalizeIcsRecurrenceRule(RECURRENCE_KEYS.map((key) => readField(task.fields, key)).find(Boolean)),
+      description: task.path,
+      url: this.buildOpenUrl(task.path),
+      categories: task.tags,
+    }, (key) => readField(task.fields, key));
+  }
+
+  private buildOpenUrl(path: string): string {
+    const vault = encodeURIComponent(this.plugin.app.vault.getName());
+    return `obsidian://open?vault=${vault}&file=${encodeURIComponent(path)}`;
+  }
+
+  private async writeCalendar(path: string, content: string): Promise<void> {
+    const vault = this.plugin.app.vault;
+    const existing = vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await vault.modify(existing, content);
+      return;
+    }
+    if (existing) throw new Error(`${path} is a folder.`);
+    const segments = path.split('/').slice(0, -1);
+    let current = '';
+    for (const segment of segments) {
+      current = current ? `${current}/${segment}` : segment;
+      if (!vault.getAbstractFileByPath(current)) await vault.createFolder(current);
+    }
+    await vault.create(path, content);
+  }
+}
+
+export function normalizeIcsExportPath(raw: unknown): string {
+  const path = normalizePath(String(raw ?? '').trim() || DEFAULT_ICS_EXPORT_PATH);
+  return path.toLowerCase().endsWith('.ics') ? path : `${path}.ics`;
+}
+
+/**
+ * Adds the item's EXDATE/RDATE lists to a recurring event. An instance moved
+ * off the rule keeps the occurrence it replaced in `recurrenceAnchor`; the
+ * series starts there, and the instance's own date is one of its RDATEs.
+ */
+function withRecurrenceExceptions(event: IcsEventInput, read: (key: string) => unknown): IcsEventInput {
+  if (!event.rrule) return event;
+  const { exdates, rdates } = readRecurrenceExceptions(read);
+  const anchor = parseScheduleValue(read(RECURRENCE_ANCHOR_KEY));
+  if (!anchor) return { ...event, exdates, rdates };
+  return {
+    ...event,
+    start: anchor,
+    exdates,
+    rdates: parseRecurrenceDateList([...rdates, String(read('scheduled') ?? '')]),
+  };
+}
+
+function readField(record: Record<string, unknown>, key: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(record, key)) return record[key];
+  const lower = key.toLowerCase();
+  const match = Object.keys(record).find((candidate) => candidate.toLowerCase() === lower);
+  return match ? record[match] : undefined;
+}
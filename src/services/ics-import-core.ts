@@ -0,0 +1,217 @@
+import { ICS_UID_DOMAIN, hashIcsKey, normalizeIcsRecurrenceRule } from './ics-export-core';
+
+/**
+ * Pure RFC 5545 parsing for the iCalendar import. Only VEVENT components are
+ * read; times are converted to the vault's local wall-clock format, which is
+ * how `scheduled` values are stored everywhere else.
+ */
+
+export interface IcsImportedEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  /** `YYYY-MM-DD` for all-day events, otherwise `YYYY-MM-DD HH:mm:ss` local time. */
+  scheduled: string;
+  allDay: boolean;
+  durationMinutes: number;
+  rrule: string | null;
+}
+
+export interface IcsParseResult {
+  events: IcsImportedEvent[];
+  /** VEVENTs that were cancelled, lacked a UID or start, or override one recurrence instance. */
+  skipped: number;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DATE_VALUE_RE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE_RE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const DURATION_RE = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+const SAFE_EXTERNAL_UID_RE = /^[A-Za-z0-9@._:+=/-]{1,200}$/;
+
+export function parseIcsCalendar(content: string): IcsParseResult {
+  const events: IcsImportedEvent[] = [];
+  let skipped = 0;
+  const stack: string[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of unfoldIcsLines(content)) {
+    const property = parseIcsProperty(line);
+    if (!property) continue;
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') current = [];
+      continue;
+    }
+    if (property.name === 'END') {
+      const ended = stack.pop();
+      if (ended === 'VEVENT' && current) {
+        const event = buildImportedEvent(current);
+        if (event) events.push(event);
+        else skipped += 1;
+        current = null;
+      }
+      continue;
+    }
+    if (current && stack[stack.length - 1] === 'VEVENT') current.push(property);
+  }
+
+  return { events, skipped };
+}
+
+/** External identity written on imported items so a re-import updates them. */
+export function buildIcsImportExternalId(uid: string): string {
+  const clean = String(uid || '').trim();
+  return SAFE_EXTERNAL_UID_RE.test(clean) ? `ics:${clean}` : `ics:h${hashIcsKey(clean)}`;
+}
+
+/** Recovers the `tpsId` from a UID this plugin exported, so a round trip updates the source item. */
+export function tpsIdFromIcsUid(uid: string): string | null {
+  const suffix = `@${ICS_UID_DOMAIN}`;
+  const clean = String(uid || '').trim();
+  if (!clean.endsWith(suffix)) return null;
+  const id = clean.slice(0, -suffix.length);
+  return /^[A-Za-z0-9_-]+$/.test(id) && !id.startsWith('path-') ? id : null;
+}
+
+export function unescapeIcsText(value: string): string {
+  return String(value ?? '').replace(/\\([\\;,nN])/g, (_match, char: string) => (
+    char === 'n' || char === 'N' ? '\n' : char
+  ));
+}
+
+function unfoldIcsLines(content: string): string[] {
+  return String(content || '')
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseIcsProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ':' && !inQuotes) {
+      colon = index;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf('=');
+    if (equals <= 0) continue;
+    params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+  }
+  return { name: rawName.trim().toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function buildImportedEvent(properties: IcsProperty[]): IcsImportedEvent | null {
+  const get = (name: string) => properties.find((property) => property.name === name) ?? null;
+  const uid = String(get('UID')?.value || '').trim();
+  const dtstart = get('DTSTART');
+  if (!uid || !dtstart) return null;
+  if (get('RECURRENCE-ID')) return null;
+  if (String(get('STATUS')?.value || '').trim().toUpperCase() === 'CANCELLED') return null;
+
+  const start = parseIcsDateValue(dtstart);
+  if (!start) return null;
+
+  let durationMinutes = 0;
+  const dtend = get('DTEND');
+  const end = dtend ? parseIcsDateValue(dtend) : null;
+  if (end && end.allDay === start.allDay) {
+    const elapsed = Math.max(0, end.millis - start.millis);
+    durationMinutes = start.allDay
+      ? Math.round(elapsed / 86400000) * 24 * 60
+      : Math.round(elapsed / 60000);
+  } else {
+    durationMinutes = parseIcsDurationValue(get('DURATION')?.value);
+  }
+
+  return {
+    uid,
+    summary: unescapeIcsText(get('SUMMARY')?.value || '').replace(/\s+/g, ' ').trim(),
+    description: unescapeIcsText(get('DESCRIPTION')?.value || '').trim(),
+    scheduled: start.allDay ? formatLocalDate(new Date(start.millis)) : formatLocalDateTime(new Date(start.millis)),
+    allDay: start.allDay,
+    durationMinutes,
+    rrule: normalizeIcsRecurrenceRule(get('RRULE')?.value),
+  };
+}
+
+/**
+ * Dates become local midnight; UTC times convert to local; TZID times convert
+ * through `Intl` and fall back to floating time for zones it does not know.
+ */
+function parseIcsDateValue(property: IcsProperty): { millis: number; allDay: boolean } | null {
+  const value = property.value.trim();
+  const dateMatch = value.match(DATE_VALUE_RE);
+  if (dateMatch) {
+    const date = new Date(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]));
+    return Number.isNaN(date.getTime()) ? null : { millis: date.getTime(), allDay: true };
+  }
+  const match = value.match(DATE_TIME_VALUE_RE);
+  if (!match) return null;
+  const parts = [1, 2, 3, 4, 5, 6].map((index) => Number(match[index]));
+  const wallClockUtc = Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+  if (match[7] === 'Z') return { millis: wallClockUtc, allDay: false };
+  const zoned = property.params.TZID ? zonedWallClockToMillis(wallClockUtc, property.params.TZID) : null;
+  if (zoned != null) return { millis: zoned, allDay: false };
+  const local = new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+  return Number.isNaN(local.getTime()) ? null : { millis: local.getTime(), allDay: false };
+}
+
+function zonedWallClockToMillis(wallClockUtc: number, timeZone: string): number | null {
+  try {
+    const firstOffset = timeZoneOffsetMillis(wallClockUtc, timeZone);
+    const candidate = wallClockUtc - firstOffset;
+    const secondOffset = timeZoneOffsetMillis(candidate, timeZone);
+    return secondOffset === firstOffset ? candidate : wallClockUtc - secondOffset;
+  } catch {
+    return null;
+  }
+}
+
+function timeZoneOffsetMillis(instant: number, timeZone: string): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) values[part.type] = Number(part.value);
+  const asUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour % 24, values.minute, values.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function parseIcsDurationValue(raw: unknown): number {
+  const match = String(raw ?? '').trim().toUpperCase().match(DURATION_RE);
+  if (!match || match[1] === '-') return 0;
+  const [weeks, days, hours, minutes, seconds] = [2, 3, 4, 5, 6].map((index) => Number(match[index] || 0));
+  return Math.round(((weeks * 7 + days) * 24 + hours) * 60 + minutes + seconds / 60);
+}
+
+function formatLocalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatLocalDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${formatLocalDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
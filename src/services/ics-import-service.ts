@@ -0,0 +1,282 @@
+import { TFile, normalizePath, stringifyYaml } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { findKeyCaseInsensitive, getErrorMessage, setValueCaseInsensitive } from '../core';
+import { readInlineFieldValue } from '../utils/task-line-metadata';
+import {
+  buildIcsImportExternalId,
+  parseIcsCalendar,
+  tpsIdFromIcsUid,
+  type IcsImportedEvent,
+} from './ics-import-core';
+import { createItemHistoryInteractionId } from './item-history-core';
+import type { ItemHistoryUserCause } from './item-history-service';
+import type { FilePropertiesMutationCause } from './file-properties-service';
+import { getUniqueMarkdownPath, sanitizeSubitemTitle } from './subitem-creation-service';
+import type { GcmTaskRecord } from './task-api-service';
+
+export type IcsImportTarget = 'note' | 'task';
+
+export interface IcsImportOptions {
+  /** Create new events as notes (default) or as task lines in the event's Daily Note. */
+  as?: IcsImportTarget;
+  /** Folder for new notes. Default: vault root. */
+  folder?: string;
+}
+
+export interface IcsImportResult {
+  ok: boolean;
+  path: string;
+  created: number;
+  updated: number;
+  unchanged: number;
+  /** VEVENTs that were cancelled, incomplete, or recurrence-instance overrides. */
+  skipped: number;
+  failed: number;
+  error?: string;
+}
+
+type IcsImportOutcome = 'created' | 'updated' | 'unchanged' | 'failed';
+
+interface IcsImportIndex {
+  notesByExternalId: Map<string, TFile>;
+  notesById: Map<string, TFile>;
+  tasksByExternalId: Map<string, GcmTaskRecord>;
+  tasksById: Map<string, GcmTaskRecord>;
+}
+
+/**
+ * Materializes the VEVENTs of a local `.ics` file as notes or Daily Note task
+ * lines. Imported items carry `externalId: ics:<uid>`, so re-importing the same
+ * calendar updates them instead of creating duplicates; UIDs produced by the
+ * iCalendar export resolve straight back to the `tpsId` they came from.
+ */
+export class IcsImportService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  async importIcs(fileOrPath: TFile | string, options: IcsImportOptions = {}): Promise<IcsImportResult> {
+    const file = typeof fileOrPath === 'string'
+      ? this.plugin.app.vault.getAbstractFileByPath(normalizePath(fileOrPath))
+      : fileOrPath;
+    const path = typeof fileOrPath === 'string' ? fileOrPath : fileOrPath.path;
+    const result: IcsImportResult = { ok: false, path, created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+    if (!(file instanceof TFile)) return { ...result, error: 'Calendar file was not found.' };
+
+    let parsed: ReturnType<typeof parseIcsCalendar>;
+    try {
+      parsed = parseIcsCalendar(await this.plugin.app.vault.read(file));
+    } catch (error) {
+      logger.flowError('IcsImport', 'import:read-failed', error, { path });
+      return { ...result, error: getErrorMessage(error) };
+    }
+    result.skipped = parsed.skipped;
+
+    const target: IcsImportTarget = options.as === 'task' ? 'task' : 'note';
+    const index = await this.buildIndex();
+    const interactionId = parsed.events.length > 1 ? createItemHistoryInteractionId() : undefined;
+    const cause = {
+      kind: 'user' as const,
+      sourcePluginId: 'tps-global-context-menu',
+      surface: 'ics-import',
+      ...(interactionId ? { interactionId } : {}),
+    };
+
+    for (const event of parsed.events) {
+      let outcome: IcsImportOutcome;
+      try {
+        outcome = await this.importEvent(event, target, options, index, cause);
+      } catch (error) {
+        logger.flowError('IcsImport', 'event:failed', error, { path });
+        outcome = 'failed';
+      }
+      result[outcome] += 1;
+    }
+
+    result.ok = result.failed === 0;
+    logger.flow('IcsImport', 'import:done', {
+      path,
+      target,
+      created: result.created,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      skipped: result.skipped,
+      failed: result.failed,
+    });
+    return result;
+  }
+
+  private async importEvent(
+    event: IcsImportedEvent,
+    target: IcsImportTarget,
+    options: IcsImportOptions,
+    index: IcsImportIndex,
+    cause: ItemHistoryUserCause & FilePropertiesMutationCause,
+  ): Promise<IcsImportOutcome> {
+    const externalId = buildIcsImportExternalId(event.uid);
+    const tpsId = tpsIdFromIcsUid(event.uid);
+    const note = (tpsId ? index.notesById.get(tpsId) : null) ?? index.notesByExternalId.get(externalId);
+    if (note) return this.updateNote(note, event, cause);
+    const task = (tpsId ? index.tasksById.get(tpsId) : null) ?? index.tasksByExternalId.get(externalId);
+    if (task) return this.updateTask(task, event, cause);
+
+    const identity = tpsId ? { tpsId } : { externalId };
+    return target === 'task'
+      ? this.createTask(event, identity, cause)
+      : this.createNote(event, identity, options.folder, index);
+  }
+
+  private async createNote(
+    event: IcsImportedEvent,
+    identity: Record<string, string>,
+    folderInput: string | undefined,
+    index: IcsImportIndex,
+  ): Promise<IcsImportOutcome> {
+    const title = event.summary || 'Untitled event';
+    const folder = normalizePath(String(folderInput || '').trim() || '/').replace(/^\/+|\/+$/g, '');
+    if (folder) await this.ensureFolder(folder);
+    const path = getUniqueMarkdownPath(this.plugin.app, folder, sanitizeSubitemTitle(title) || 'Untitled event');
+    const frontmatter: Record<string, unknown> = {
+      title,
+      ...this.buildScheduleFields(event),
+      ...identity,
+    };
+    if (!identity.tpsId) frontmatter.tpsId = this.plugin.identityService.createInternalId();
+    const body = event.description ? `${event.description}\n` : '';
+    const created = await this.plugin.app.vault.create(path, `---\n${stringifyYaml(frontmatter).trimEnd()}\n---\n\n${body}`);
+    index.notesByExternalId.set(buildIcsImportExternalId(event.uid), created);
+    await this.plugin.fileNamingService.updateFilenameIfNeeded(created, { bypassCreationGrace: true });
+    return 'created';
+  }
+
+  private async updateNote(
+    file: TFile,
+    event: IcsImportedEvent,
+    cause: FilePropertiesMutationCause,
+  ): Promise<IcsImportOutcome> {
+    let changed = false;
+    const recurrenceKey = this.getRecurrenceKey();
+    const written = await this.plugin.frontmatterMutationService.process(file, (frontmatter) => {
+      const fields: Record<string, unknown> = { title: event.summary || undefined, ...this.buildScheduleFields(event) };
+      if (!event.rrule) fields[recurrenceKey] = null;
+      if (event.allDay && event.durationMinutes <= 24 * 60) fields.timeEstimate = null;
+      for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) continue;
+        const existingKey = findKeyCaseInsensitive(frontmatter, key);
+        const existing = existingKey ? frontmatter[existingKey] : undefined;
+        if (value === null) {
+          if (existingKey) {
+            delete frontmatter[existingKey];
+            changed = true;
+          }
+          continue;
+        }
+        if (String(existing ?? '') === String(value)) continue;
+        setValueCaseInsensitive(frontmatter, key, value);
+        changed = true;
+      }
+    }, cause);
+    if (!written) return 'failed';
+    if (!changed) return 'unchanged';
+    await this.plugin.fileNamingService.updateFilenameIfNeeded(file, { bypassCreationGrace: true });
+    return 'updated';
+  }
+
+  private async createTask(
+    event: IcsImportedEvent,
+    identity: Record<string, string>,
+    cause: ItemHistoryUserCause,
+  ): Promise<IcsImportOutcome> {
+    const dailyNote = await this.plugin.noteOperationService.ensureDailyNote(event.scheduled);
+    if (!dailyNote) return 'failed';
+    const created = await this.plugin.taskApiService.create({
+      title: event.summary || 'Untitled event',
+      targetFile: dailyNote,
+      fields: { ...this.buildTaskScheduleFields(event), ...identity },
+      placement: 'end',
+      notice: false,
+    }, cause);
+    return created.ok ? 'created' : 'failed';
+  }
+
+  private async updateTask(
+    task: GcmTaskRecord,
+    event: IcsImportedEvent,
+    cause: ItemHistoryUserCause,
+  ): Promise<IcsImportOutcome> {
+    const recurrenceKey = this.getRecurrenceKey();
+    const next: Record<string, string | null> = { ...this.buildTaskScheduleFields(event) };
+    if (!event.rrule) next[recurrenceKey] = null;
+    if (event.allDay && event.durationMinutes <= 24 * 60) next.timeEstimate = null;
+    const fields: Record<string, string | null> = {};
+    for (const [key, value] of Object.entries(next)) {
+      if ((readInlineFieldValue(task.rawLine, key) || null) !== value) fields[key] = value;
+    }
+    const title = event.summary && event.summary !== task.title ? event.summary : undefined;
+    if (!title && Object.keys(fields).length === 0) return 'unchanged';
+    const updated = await this.plugin.taskApiService.update(
+      { path: task.path, lineNumber: task.lineNumber, rawLine: task.rawLine },
+      { ...(title ? { title } : {}), ...(Object.keys(fields).length > 0 ? { fields } : {}) },
+      cause,
+    );
+    return updated.ok ? 'updated' : 'failed';
+  }
+
+  /**
+   * `scheduled`, `timeEstimate` and the configured recurrence property for an event.
+   * `timeEstimate` stays a number of minutes, as note frontmatter stores it.
+   */
+  private buildScheduleFields(event: IcsImportedEvent): Record<string, string | number> {
+    const fields: Record<string, string | number> = { scheduled: event.scheduled };
+    const keepsDuration = event.allDay ? event.durationMinutes > 24 * 60 : event.durationMinutes > 0;
+    if (keepsDuration) fields.timeEstimate = event.durationMinutes;
+    if (event.rrule) fields[this.getRecurrenceKey()] = event.rrule;
+    return fields;
+  }
+
+  /** Schedule fields as inline task field text. */
+  private buildTaskScheduleFields(event: IcsImportedEvent): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(this.buildScheduleFields(event)).map(([key, value]) => [key, String(value)]),
+    );
+  }
+
+  private getRecurrenceKey(): string {
+    const property = (this.plugin.settings.properties || [])
+      .find((candidate) => candidate.type === 'recurrence' && !candidate.disabled);
+    return String(property?.key || '').trim() || 'recurrence';
+  }
+
+  /**
+   * Notes and task lines are both indexed whatever the import target is, so an
+   * event that was exported from a task still updates that task when it is
+   * re-imported as a note, and the other way round.
+   */
+  private async buildIndex(): Promise<IcsImportIndex> {
+    const index: IcsImportIndex = {
+      notesByExternalId: new Map(),
+      notesById: new Map(),
+      tasksByExternalId: new Map(),
+      tasksById: new Map(),
+    };
+    for (const { file, frontmatter } of this.plugin.vaultQueryService.query({})) {
+      const externalId = this.plugin.identityService.getExternalId(frontmatter);
+      const id = this.plugin.identityService.getInternalId(frontmatter);
+      if (externalId?.startsWith('ics:')) index.notesByExternalId.set(externalId, file);
+      if (id) index.notesById.set(id, file);
+    }
+    for (const task of await this.plugin.taskApiService.list({ maxResults: 100000 })) {
+      const externalId = readInlineFieldValue(task.rawLine, 'externalId');
+      if (externalId.startsWith('ics:')) index.tasksByExternalId.set(externalId, task);
+      if (task.stableId) index.tasksById.set(task.stableId, task);
+    }
+    return index;
+  }
+
+  private async ensureFolder(path: string): Promise<void> {
+    let current = '';
+    for (const segment of path.split('/').filter(Boolean)) {
+      current = current ? `${current}/${segment}` : segment;
+      if (!this.plugin.app.vault.getAbstractFileByPath(current)) await this.plugin.app.vault.createFolder(current);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Notes and task lines that share one `tpsId`. Copying a task line or
+ * duplicating a note copies its id verbatim; one occurrence is the original and
+ * every other one is a copy that needs a freshly minted id.
+ */
+
+export interface IdentityOccurrence {
+  id: string;
+  path: string;
+  /** Zero-based line for a task line id; absent for a note id. */
+  line?: number;
+  /** File creation time, used to tell the original from its copies. */
+  createdAt: number;
+}
+
+/** Where item history first saw an id, as a zero-based locator. */
+export interface IdentityOrigin {
+  path: string;
+  lineNumber: number;
+}
+
+/** Occurrences grouped by id, keeping only ids used more than once. */
+export function groupSharedIdentities<T extends IdentityOccurrence>(occurrences: readonly T[]): Map<string, T[]> {
+  const byId = new Map<string, T[]>();
+  for (const occurrence of occurrences) {
+    const id = String(occurrence.id || '').trim();
+    if (!id) continue;
+    const group = byId.get(id) ?? [];
+    group.push(occurrence);
+    byId.set(id, group);
+  }
+  for (const [id, group] of byId) {
+    if (group.length < 2) byId.delete(id);
+  }
+  return byId;
+}
+
+/**
+ * Splits one shared id into its original and copies. The original is the
+ * occurrence in the note where item history first recorded the id (nearest to
+ * the recorded line), otherwise the one in the oldest file; ties go to a
+ * note's own id before ids on its lines, then the earliest line.
+ */
+export function pickIdentityOriginal<T extends IdentityOccurrence>(
+  group: readonly T[],
+  origin?: IdentityOrigin | null,
+): { original: T; copies: T[] } {
+  const ordered = [...group].sort(compareIdentityOccurrences);
+  const recorded = origin
+    ? ordered
+        .filter((occurrence) => occurrence.path === origin.path)
+        .sort((a, b) => Math.abs((a.line ?? 0) - origin.lineNumber) - Math.abs((b.line ?? 0) - origin.lineNumber))[0]
+    : undefined;
+  const original = recorded ?? ordered[0];
+  return { original, copies: ordered.filter((occurrence) => occurrence !== original) };
+}
+
+export function compareIdentityOccurrences(a: IdentityOccurrence, b: IdentityOccurrence): number {
+  return (a.createdAt - b.createdAt)
+    || a.path.localeCompare(b.path)
+    || (a.line ?? -1) - (b.line ?? -1);
+}
+
+export function describeIdentityOccurrence(occurrence: Pick<IdentityOccurrence, 'path' | 'line'>): string {
+  return occurrence.line === undefined ? occurrence.path : `${occurrence.path} line ${occurrence.line + 1}`;
+}
@@ -0,0 +1,407 @@
+import { Notice, TFile, type TAbstractFile } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { findKeyCaseInsensitive, getErrorMessage, setValueCaseInsensitive } from '../core';
+import type { EntityIndexRecord } from './entity-index-core';
+import { createItemHistoryInteractionId, type ItemHistoryUserCause } from './item-history-core';
+import {
+  describeIdentityOccurrence,
+  groupSharedIdentities,
+  pickIdentityOriginal,
+  type IdentityOccurrence,
+} from './identity-conflict-core';
+import { BLOCKED_BY_KEY, parseBlockerReferences, renameBlockerId, serializeBlockerReferences } from './task-dependency-core';
+import { readInlineFieldValue, setInlineFieldValueOnTaskLine } from '../utils/task-line-metadata';
+import {
+  abortDirectTaskHistory,
+  beginDirectTaskHistory,
+  commitDirectTaskHistory,
+  ensureDirectTaskHistoryIdentity,
+  type DirectTaskHistoryLogContext,
+} from '../utils/direct-task-history';
+
+const CHECK_DELAY_MS = 2000;
+const MAX_RECORDED_CONFLICTS = 50;
+
+export interface IdentityConflict {
+  id: string;
+  original: { path: string; line?: number };
+  copy: { path: string; line?: number };
+  /** The id minted for the copy, or null when the repair failed. */
+  nextId: string | null;
+  error?: string;
+  movedSessions: number;
+  movedHistoryEvents: number;
+  updatedReferences: number;
+  detectedAt: number;
+}
+
+/**
+ * Background check for notes and task lines that share one `tpsId`, usually
+ * after a task line was copied or a note duplicated. The whole index is read
+ * once; after that only the ids found in changed files are checked again, and
+ * their copies are given new ids. When a copy lives in another note, its
+ * tracked time, history and same-note `blockedBy` references follow it.
+ * `blockedBy` references in other notes keep pointing at the original, and
+ * parent links are path-based, so neither needs updating.
+ */
+export class IdentityConflictService {
+  private conflicts: IdentityConflict[] = [];
+  private timer: number | null = null;
+  private running = false;
+  private rerun = false;
+  /** Failures already announced, so a copy that keeps failing is not re-announced on every change. */
+  private readonly reportedFailures = new Set<string>();
+  private indexed = false;
+  private readonly occurrencesByPath = new Map<string, IdentityOccurrence[]>();
+  private readonly pathsById = new Map<string, Set<string>>();
+  /** Files changed since the last check; only the ids they hold are checked again. */
+  private readonly dirtyPaths = new Set<string>();
+
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  setup(): void {
+    const { metadataCache, vault } = this.plugin.app;
+    const markDirty = (file: TAbstractFile) => this.dirtyPaths.add(file.path);
+    this.plugin.registerEvent(metadataCache.on('changed', markDirty));
+    this.plugin.registerEvent(vault.on('create', markDirty));
+    this.plugin.registerEvent(vault.on('delete', markDirty));
+    this.plugin.registerEvent(vault.on('rename', (file, oldPath) => {
+      this.dirtyPaths.add(oldPath);
+      markDirty(file);
+    }));
+    // Line records settle after the metadata event, so the check waits for the index.
+    this.plugin.register(this.plugin.entityIndexService.onChanged(() => {
+      if (this.indexed && this.dirtyPaths.size > 0) this.schedule();
+    }));
+    this.plugin.register(() => {
+      if (this.timer !== null) window.clearTimeout(this.timer);
+      this.timer = null;
+    });
+    this.plugin.app.workspace.onLayoutReady(() => this.schedule());
+  }
+
+  /** Recently repaired conflicts, newest first. */
+  getConflicts(): IdentityConflict[] {
+    return this.conflicts.map((conflict) => ({ ...conflict }));
+  }
+
+  /**
+   * Re-mints one known copy the same way the background check does, moving
+   * its sessions, history and references, and records it with the other
+   * repaired conflicts. Throws when the repair fails.
+   */
+  async repairCopy(
+    id: string,
+    original: Pick<IdentityOccurrence, 'path' | 'line'>,
+    copy: Pick<IdentityOccurrence, 'path' | 'line'>,
+  ): Promise<IdentityConflict> {
+    const conflict = createConflict(id, original, copy);
+    try {
+      await this.repair(conflict);
+    } catch (error) {
+      logger.flowError('IdentityConflict', 'repair:failed', error, { id, path: copy.path, line: copy.line });
+      throw error;
+    }
+    this.conflicts = [conflict, ...this.conflicts].slice(0, MAX_RECORDED_CONFLICTS);
+    return { ...conflict };
+  }
+
+  /**
+   * Moves a repaired copy's sessions and history back to the shared id and
+   * forgets the repair. The copy's own text is left to the caller, which
+   * restores it from the snapshot it took before `repairCopy`.
+   */
+  async revertRepair(conflict: IdentityConflict): Promise<void> {
+    const { id, copy, nextId } = conflict;
+    if (!nextId) return;
+    if (copy.path !== conflict.original.path) {
+      await this.plugin.timeTrackingService?.retargetSessions(nextId, copy.path, id);
+      await this.plugin.itemHistoryService?.reassignEvents(nextId, id, copy.path);
+    }
+    this.conflicts = this.conflicts.filter((entry) => entry.nextId !== nextId);
+    logger.flow('IdentityConflict', 'repair:reverted', { id, nextId, copy: describeIdentityOccurrence(copy) });
+  }
+
+  /** Finds and repairs shared ids now; returns the conflicts handled in this pass. */
+  async checkNow(): Promise<IdentityConflict[]> {
+    if (this.running) {
+      this.rerun = true;
+      return [];
+    }
+    this.running = true;
+    try {
+      const handled = await this.repairAll(await this.collectOccurrences());
+      if (handled.length > 0) {
+        this.conflicts = [...handled, ...this.conflicts].slice(0, MAX_RECORDED_CONFLICTS);
+        const unannounced = handled.filter((conflict) => conflict.nextId || !this.reportedFailures.has(getFailureKey(conflict)));
+        for (const conflict of handled) {
+          if (!conflict.nextId) this.reportedFailures.add(getFailureKey(conflict));
+        }
+        if (unannounced.length > 0) this.notify(unannounced);
+      }
+      return handled;
+    } catch (error) {
+      logger.flowError('IdentityConflict', 'check:failed', error);
+      return [];
+    } finally {
+      this.running = false;
+      if (this.rerun) {
+        this.rerun = false;
+        this.schedule();
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      void this.checkNow();
+    }, CHECK_DELAY_MS);
+  }
+
+  /**
+   * Every occurrence on the first run; afterwards only the occurrences of ids
+   * found in files changed since the previous run.
+   */
+  private async collectOccurrences(): Promise<IdentityOccurrence[]> {
+    const index = this.plugin.entityIndexService;
+    if (!this.indexed) {
+      this.dirtyPaths.clear();
+      const recordsByPath = new Map<string, EntityIndexRecord[]>();
+      for (const record of await index.queryAsync({})) {
+        const path = record.sourcePath || record.path;
+        recordsByPath.set(path, [...recordsByPath.get(path) ?? [], record]);
+      }
+      this.occurrencesByPath.clear();
+      this.pathsById.clear();
+      for (const [path, records] of recordsByPath) this.setPathOccurrences(path, this.readOccurrences(records));
+      this.indexed = true;
+      return Array.from(this.occurrencesByPath.values()).flat();
+    }
+
+    if (this.dirtyPaths.size === 0) return [];
+    await index.ensureReady();
+    const ids = new Set<string>();
+    for (const path of Array.from(this.dirtyPaths)) {
+      this.dirtyPaths.delete(path);
+      const occurrences = this.readOccurrences(index.getBySourcePath(path));
+      this.setPathOccurrences(path, occurrences);
+      for (const occurrence of occurrences) ids.add(occurrence.id);
+    }
+    return Array.from(ids).flatMap((id) => Array.from(this.pathsById.get(id) ?? [])
+      .flatMap((path) => (this.occurrencesByPath.get(path) ?? []).filter((occurrence) => occurrence.id === id)));
+  }
+
+  private readOccurrences(records: readonly EntityIndexRecord[]): IdentityOccurrence[] {
+    const occurrences: IdentityOccurrence[] = [];
+    for (const record of records) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(record.sourcePath || record.path);
+      if (!(file instanceof TFile)) continue;
+      const createdAt = file.stat?.ctime ?? 0;
+      if (record.entityType === 'note') {
+        const id = this.plugin.identityService.getInternalId(this.plugin.app.metadataCache.getFileCache(file)?.frontmatter);
+        if (id) occurrences.push({ id, path: file.path, createdAt });
+      } else if (record.entityType === 'block' && typeof record.lineNumber === 'number') {
+        const id = readLineProperty(record, 'tpsId');
+        if (id) occurrences.push({ id, path: file.path, line: record.lineNumber - 1, createdAt });
+      }
+    }
+    return occurrences;
+  }
+
+  private setPathOccurrences(path: string, occurrences: IdentityOccurrence[]): void {
+    for (const previous of this.occurrencesByPath.get(path) ?? []) {
+      const paths = this.pathsById.get(previous.id);
+      paths?.delete(path);
+      if (paths?.size === 0) this.pathsById.delete(previous.id);
+    }
+    if (occurrences.length === 0) {
+      this.occurrencesByPath.delete(path);
+      return;
+    }
+    this.occurrencesByPath.set(path, occurrences);
+    for (const occurrence of occurrences) {
+      const paths = this.pathsById.get(occurrence.id) ?? new Set<string>();
+      paths.add(path);
+      this.pathsById.set(occurrence.id, paths);
+    }
+  }
+
+  private async repairAll(occurrences: readonly IdentityOccurrence[]): Promise<IdentityConflict[]> {
+    const pairs: Array<{ id: string; original: IdentityOccurrence; copy: IdentityOccurrence }> = [];
+    for (const [id, group] of groupSharedIdentities(occurrences)) {
+      const origin = await this.plugin.itemHistoryService?.getOriginLocator(id);
+      const { original, copies } = pickIdentityOriginal(group, origin);
+      for (const copy of copies) pairs.push({ id, original, copy });
+    }
+    // Line ids first: a frontmatter write can shift the indexed line numbers.
+    pairs.sort((a, b) => Number(a.copy.line === undefined) - Number(b.copy.line === undefined));
+
+    const handled: IdentityConflict[] = [];
+    const touched = new Set<string>();
+    for (const { id, original, copy } of pairs) {
+      const conflict = createConflict(id, original, copy);
+      try {
+        await this.repair(conflict);
+        touched.add(copy.path);
+        this.dirtyPaths.add(copy.path);
+      } catch (error) {
+        conflict.error = getErrorMessage(error);
+        logger.flowError('IdentityConflict', 'repair:failed', error, { id, path: copy.path, line: copy.line });
+      }
+      handled.push(conflict);
+    }
+    if (touched.size > 0) this.plugin.eventService.emitFilesUpdated(Array.from(touched));
+    return handled;
+  }
+
+  private async repair(conflict: IdentityConflict): Promise<void> {
+    const { id, original, copy } = conflict;
+    const file = this.plugin.app.vault.getAbstractFileByPath(copy.path);
+    if (!(file instanceof TFile)) throw new Error(`${copy.path} not found.`);
+    const identity = this.plugin.identityService;
+    const cause: ItemHistoryUserCause = {
+      kind: 'user',
+      sourcePluginId: this.plugin.manifest.id,
+      surface: 'identity-repair',
+      interactionId: createItemHistoryInteractionId(),
+    };
+
+    let nextId: string;
+    if (copy.line === undefined) {
+      const mintedId = identity.createInternalId();
+      await this.plugin.frontmatterMutationService.process(file, (frontmatter) => {
+        if (identity.getInternalId(frontmatter) !== id) throw new Error('The note id changed before it was repaired.');
+        identity.setInternalId(frontmatter, mintedId);
+      }, cause);
+      nextId = mintedId;
+    } else {
+      nextId = await this.remintLine(file, id, copy.line, cause);
+    }
+    conflict.nextId = nextId;
+    logger.flow('IdentityConflict', 'repair:reminted', { id, nextId, original: describeIdentityOccurrence(original), copy: describeIdentityOccurrence(copy) });
+
+    // A copy inside the original's own note has no records of its own yet;
+    // everything recorded there still belongs to the original.
+    if (copy.path === original.path) return;
+    conflict.movedSessions = await this.plugin.timeTrackingService?.retargetSessions(id, copy.path, nextId) ?? 0;
+    conflict.movedHistoryEvents = await this.plugin.itemHistoryService?.reassignEvents(id, nextId, copy.path) ?? 0;
+    conflict.updatedReferences = await this.renameReferences(file, id, nextId, cause);
+  }
+
+  /**
+   * Gives a copied task line a new id. The copy is recorded in item history as
+   * a new item, so the new id is the one history mints; without history the
+   * identity service mints it. Copies in the original's note are indistinct
+   * to the task API, so the line is written here by its exact position.
+   */
+  private async remintLine(file: TFile, id: string, line: number, cause: ItemHistoryUserCause): Promise<string> {
+    const rawLine = (await this.plugin.app.vault.cachedRead(file)).split(/\r?\n/)[line] ?? '';
+    if (readInlineFieldValue(rawLine, 'tpsId').trim() !== id) throw new Error('The task id changed before it was repaired.');
+    const unidentified = setInlineFieldValueOnTaskLine(rawLine, 'tpsId', null);
+    const history = this.plugin.itemHistoryService;
+    const context: DirectTaskHistoryLogContext = { action: 'task.update', surface: cause.surface, path: file.path, lineNumber: line };
+    let handle = await beginDirectTaskHistory(history, {
+      action: 'task.update',
+      cause,
+      before: { path: file.path, lineNumber: line, rawLine: unidentified },
+    });
+    const ensured = ensureDirectTaskHistoryIdentity(history, handle, unidentified, context);
+    if (handle && (!ensured.ready || !readInlineFieldValue(ensured.line, 'tpsId'))) {
+      await abortDirectTaskHistory(history, handle, context);
+      handle = null;
+    }
+    const nextLine = handle
+      ? ensured.line
+      : setInlineFieldValueOnTaskLine(unidentified, 'tpsId', this.plugin.identityService.createInternalId());
+
+    try {
+      await this.plugin.app.vault.process(file, (content) => {
+        const newline = content.includes('\r\n') ? '\r\n' : '\n';
+        const lines = content.split(/\r?\n/);
+        if (lines[line] !== rawLine) throw new Error('The task line changed before it was repaired.');
+        lines[line] = nextLine;
+        return lines.join(newline);
+      });
+    } catch (error) {
+      await abortDirectTaskHistory(history, handle, context);
+      throw error;
+    }
+    await commitDirectTaskHistory(history, handle, {
+      after: { path: file.path, lineNumber: line, rawLine: nextLine },
+      outcome: 'committed',
+    }, context);
+    return readInlineFieldValue(nextLine, 'tpsId').trim();
+  }
+
+  /** Points `blockedBy` id references inside the copy's note at the copy's new id. */
+  private async renameReferences(file: TFile, id: string, nextId: string, cause: ItemHistoryUserCause): Promise<number> {
+    let renamed = 0;
+    const lines = (await this.plugin.app.vault.cachedRead(file)).split(/\r?\n/);
+    for (const [lineNumber, rawLine] of lines.entries()) {
+      const next = renameBlockerId(parseBlockerReferences(readInlineFieldValue(rawLine, BLOCKED_BY_KEY)), id, nextId);
+      if (!next) continue;
+      const result = await this.plugin.taskApiService.setField(
+        { path: file.path, lineNumber, rawLine },
+        BLOCKED_BY_KEY,
+        serializeBlockerReferences(next).join(', '),
+        cause,
+      );
+      if (result.ok && result.changed) renamed += 1;
+      else logger.flowWarn('IdentityConflict', 'repair:reference-skipped', { path: file.path, line: lineNumber, error: result.error });
+    }
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    const key = frontmatter ? findKeyCaseInsensitive(frontmatter, BLOCKED_BY_KEY) : null;
+    if (key && renameBlockerId(parseBlockerReferences(frontmatter?.[key]), id, nextId)) {
+      await this.plugin.frontmatterMutationService.process(file, (current) => {
+        const currentKey = findKeyCaseInsensitive(current, BLOCKED_BY_KEY);
+        const next = currentKey ? renameBlockerId(parseBlockerReferences(current[currentKey]), id, nextId) : null;
+        if (next) setValueCaseInsensitive(current, BLOCKED_BY_KEY, serializeBlockerReferences(next));
+      }, cause);
+      renamed += 1;
+    }
+    return renamed;
+  }
+
+  private notify(handled: readonly IdentityConflict[]): void {
+    const repaired = handled.filter((conflict) => conflict.nextId);
+    const failed = handled.length - repaired.length;
+    const parts: string[] = [];
+    if (repaired.length > 0) {
+      const sample = repaired.slice(0, 3).map((conflict) => describeIdentityOccurrence(conflict.copy)).join(', ');
+      const more = repaired.length > 3 ? ` and ${repaired.length - 3} more` : '';
+      parts.push(`Gave ${repaired.length} copied ${repaired.length === 1 ? 'item' : 'items'} a new tpsId: ${sample}${more}.`);
+    }
+    if (failed > 0) parts.push(`Could not repair ${failed} shared ${failed === 1 ? 'id' : 'ids'}; see the console.`);
+    new Notice(`TPS GCM: ${parts.join(' ')}`);
+  }
+}
+
+function createConflict(
+  id: string,
+  original: Pick<IdentityOccurrence, 'path' | 'line'>,
+  copy: Pick<IdentityOccurrence, 'path' | 'line'>,
+): IdentityConflict {
+  return {
+    id,
+    original: { path: original.path, line: original.line },
+    copy: { path: copy.path, line: copy.line },
+    nextId: null,
+    movedSessions: 0,
+    movedHistoryEvents: 0,
+    updatedReferences: 0,
+    detectedAt: Date.now(),
+  };
+}
+
+function getFailureKey(conflict: IdentityConflict): string {
+  return [conflict.id, conflict.copy.path, conflict.copy.line ?? ''].join('\u0000');
+}
+
+function readLineProperty(record: EntityIndexRecord, key: string): string {
+  const properties = record.lineProperties ?? {};
+  const match = Object.keys(properties).find((candidate) => candidate.toLowerCase() === key.toLowerCase());
+  return String((match ? properties[match][0] : '') ?? '').trim();
+}
@@ -15,6 +15,13 @@ export type ItemHistoryTaskAction =
   | 'task.move'
   | 'task.migrate'
   | 'task.delete';
+export type ItemHistoryNoteAction =
+  | 'note.update'
+  | 'note.archive'
+  | 'note.unarchive';
+export type ItemHistoryAction = ItemHistoryTaskAction | ItemHistoryNoteAction;
+/** Canonical frontmatter fields recorded for notes. */
+export type ItemHistoryNoteField = 'status' | 'priority' | 'scheduled' | 'due' | 'tags' | 'parent';
 
 export interface ItemHistoryUserCause {
   kind: 'user';
@@ -46,7 +53,11 @@ export interface ItemHistoryTaskSnapshot {
   tags: string[];
 }
 
-export interface ItemHistoryPendingRecord {
+export interface ItemHistoryNoteSnapshot {
+  fields: Record<string, string | string[]>;
+}
+
+export interface ItemHistoryTaskPendingRecord {
   schemaVersion: 1;
   operationId: string;
   entityId: string;
@@ -60,13 +71,29 @@ export interface ItemHistoryPendingRecord {
   startedAt: number;
 }
 
+export interface ItemHistoryNotePendingRecord {
+  schemaVersion: 1;
+  operationId: string;
+  entityId: string;
+  entityKind: 'note';
+  action: ItemHistoryNoteAction;
+  cause: ItemHistoryUserCause;
+  locatorBefore: ItemHistoryLocator;
+  targetPath?: string;
+  before: ItemHistoryNoteSnapshot;
+  identityWasPresent: boolean;
+  startedAt: number;
+}
+
+export type ItemHistoryPendingRecord = ItemHistoryTaskPendingRecord | ItemHistoryNotePendingRecord;
+
 export interface ItemHistoryEvent {
   schemaVersion: 1;
   eventId: string;
   operationId: string;
   entityId: string;
-  entityKind: 'task';
-  action: ItemHistoryTaskAction;
+  entityKind: ItemHistoryEntityKind;
+  action: ItemHistoryAction;
   occurredAt: number;
   committedAt: number;
   cause: ItemHistoryUserCause;
@@ -79,12 +106,33 @@ export interface ItemHistoryEvent {
 
 export interface ItemHistoryEntityRecord {
   entityId: string;
-  entityKind: 'task';
+  entityKind: ItemHistoryEntityKind;
   currentLocator?: ItemHistoryLocator;
   deletedAt?: number;
   lastSeenAt: number;
 }
 
+export type ItemHistoryRevertConflictReason =
+  | 'diverged'
+  | 'redacted'
+  | 'unrestorable'
+  | 'unsupported-action';
+
+export interface ItemHistoryRevertConflict {
+  eventId: string;
+  field: string;
+  reason: ItemHistoryRevertConflictReason;
+}
+
+export interface ItemHistoryTaskRevertPlan {
+  /** Snapshot the live task should hold once every listed event is undone. */
+  target: ItemHistoryTaskSnapshot;
+  /** Original location when an undone event moved the task. */
+  location?: ItemHistoryLocator;
+  conflicts: ItemHistoryRevertConflict[];
+  revertedEventIds: string[];
+}
+
 export interface ItemHistoryTaskMutationHandle {
   operationId: string;
   entityId: string;
@@ -97,6 +145,18 @@ export interface ItemHistoryTaskMutationHandle {
   startedAt: number;
 }
 
+export interface ItemHistoryNoteMutationHandle {
+  operationId: string;
+  entityId: string;
+  action: ItemHistoryNoteAction;
+  cause: ItemHistoryUserCause;
+  before: ItemHistoryNoteSnapshot;
+  locatorBefore: ItemHistoryLocator;
+  targetPath?: string;
+  identityWasPresent: boolean;
+  startedAt: number;
+}
+
 const SAFE_TASK_FIELD_KEYS = new Map<string, string>([
   ['priority', 'priority'],
   ['status', 'status'],
@@ -124,6 +184,14 @@ export function normalizeItemHistoryCause(cause: ItemHistoryUserCause | null | u
   };
 }
 
+/** Groups the events of one multi-item user action for history and revert. */
+export function createItemHistoryInteractionId(): string {
+  const random = typeof globalThis.crypto?.randomUUID === 'function'
+    ? globalThis.crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+  return `batch_${random.replace(/[^a-zA-Z0-9_-]/gu, '')}`;
+}
+
 export function getTaskHistoryIdentity(line: string): string {
   const tpsId = normalizeTaskHistoryIdentity(readInlineFieldValue(line, 'tpsId'));
   if (tpsId) return tpsId;
@@ -217,6 +285,253 @@ export function diffTaskHistorySnapshots(
   return changes;
 }
 
+const SAFE_NOTE_FIELD_KEYS = new Map<string, ItemHistoryNoteField>([
+  ['status', 'status'],
+  ['priority', 'priority'],
+  ['scheduled', 'scheduled'],
+  ['due', 'due'],
+  ['tag', 'tags'],
+  ['tags', 'tags'],
+  ['parent', 'parent'],
+]);
+const NOTE_IDENTITY_KEY = 'tpsId';
+
+/**
+ * Converts a frontmatter mutation cause into a history cause. Automation
+ * writes are never journaled.
+ */
+export function itemHistoryCauseFromMutation(
+  cause: { kind: 'user' | 'automation'; sourcePluginId?: string; surface?: string; interactionId?: string } | null | undefined,
+  fallbackPluginId: string,
+  fallbackSurface: string,
+): ItemHistoryUserCause | null {
+  if (cause?.kind !== 'user') return null;
+  return normalizeItemHistoryCause({
+    kind: 'user',
+    sourcePluginId: String(cause.sourcePluginId || fallbackPluginId),
+    surface: String(cause.surface || fallbackSurface),
+    ...(cause.interactionId ? { interactionId: cause.interactionId } : {}),
+  });
+}
+
+export function getNoteHistoryIdentity(frontmatter: Record<string, unknown> | null | undefined): string {
+  const key = Object.keys(frontmatter || {}).find((candidate) => candidate.trim().toLowerCase() === 'tpsid');
+  return key ? normalizeTaskHistoryIdentity(frontmatter?.[key]) : '';
+}
+
+/** Writes `entityId` as the note's `tpsId` unless the note already has one. */
+export function ensureNoteHistoryIdentity(frontmatter: Record<string, unknown>, entityId: string): void {
+  const expected = normalizeTaskHistoryIdentity(entityId);
+  if (!expected) throw new Error('Note history identity is missing.');
+  const existing = getNoteHistoryIdentity(frontmatter);
+  if (existing && existing !== expected) {
+    throw new Error('Note history identity changed before the mutation was written.');
+  }
+  if (!existing) frontmatter[NOTE_IDENTITY_KEY] = expected;
+}
+
+export function snapshotNoteForHistory(
+  frontmatter: Record<string, unknown> | null | undefined,
+  configuredAliases: ReadonlyMap<string, ItemHistoryNoteField> = SAFE_NOTE_FIELD_KEYS,
+): ItemHistoryNoteSnapshot {
+  const safeAliases = new Map<string, ItemHistoryNoteField>(SAFE_NOTE_FIELD_KEYS);
+  for (const [key, value] of configuredAliases) {
+    const normalized = String(key || '').trim().toLowerCase();
+    if (normalized && SAFE_NOTE_FIELD_KEYS.has(value)) safeAliases.set(normalized, value);
+  }
+  const fields: Record<string, string | string[]> = {};
+  for (const [key, raw] of Object.entries(frontmatter || {})) {
+    const field = safeAliases.get(key.trim().toLowerCase());
+    if (!field || Object.prototype.hasOwnProperty.call(fields, field)) continue;
+    const values = noteValueList(raw);
+    if (field === 'tags') {
+      fields.tags = [...new Set(values.map((tag) => tag.replace(/^#/u, '')).filter(Boolean))]
+        .slice(0, 50)
+        .map((tag) => sanitizeHistoryValue(tag));
+    } else if (field === 'parent') {
+      // Parent links are recorded by target name; the note path is already
+      // part of every locator, so this discloses nothing new.
+      fields.parent = values.map((value) => sanitizeHistoryValue(noteLinkTarget(value))).filter(Boolean).slice(0, 50);
+    } else {
+      fields[field] = sanitizeHistoryValue(values.join(', '));
+    }
+  }
+  return { fields };
+}
+
+export function diffNoteHistorySnapshots(
+  before: ItemHistoryNoteSnapshot | null | undefined,
+  after: ItemHistoryNoteSnapshot | null | undefined,
+): ItemHistoryChange[] {
+  const changes: ItemHistoryChange[] = [];
+  const keys = new Set([...Object.keys(before?.fields || {}), ...Object.keys(after?.fields || {})]);
+  for (const key of [...keys].sort()) {
+    pushChange(changes, key, noteFieldState(before?.fields, key), noteFieldState(after?.fields, key));
+  }
+  return changes;
+}
+
+/**
+ * Walks `events` newest-first from the live snapshot back to the state before
+ * the oldest listed event. Every change must still match the running state;
+ * redacted, clipped or opaque values are reported instead of guessed.
+ */
+export function planTaskHistoryRevert(
+  events: readonly ItemHistoryEvent[],
+  current: ItemHistoryTaskSnapshot,
+): ItemHistoryTaskRevertPlan {
+  const target: ItemHistoryTaskSnapshot = {
+    checkbox: current.checkbox,
+    fields: { ...current.fields },
+    tags: [...current.tags],
+  };
+  const conflicts: ItemHistoryRevertConflict[] = [];
+  const revertedEventIds: string[] = [];
+  let location: ItemHistoryLocator | undefined;
+  const ordered = [...events].sort((left, right) => (
+    right.occurredAt - left.occurredAt || right.eventId.localeCompare(left.eventId)
+  ));
+
+  for (const event of ordered) {
+    if (
+      event.entityKind !== 'task'
+      || event.action === 'task.create'
+      || event.action === 'task.delete'
+      || event.action === 'task.migrate'
+    ) {
+      conflicts.push({ eventId: event.eventId, field: event.action, reason: 'unsupported-action' });
+      continue;
+    }
+    for (const change of event.changes) {
+      const reason = revertChangeInto(target, change);
+      if (reason) conflicts.push({ eventId: event.eventId, field: change.field, reason });
+    }
+    if (
+      event.action === 'task.move'
+      && event.locatorAfter
+      && (
+        event.locatorAfter.path !== event.locatorBefore.path
+        || event.locatorAfter.lineNumber !== event.locatorBefore.lineNumber
+      )
+    ) {
+      location = { ...event.locatorBefore };
+    }
+    revertedEventIds.push(event.eventId);
+  }
+
+  return {
+    target,
+    ...(location ? { location } : {}),
+    conflicts,
+    revertedEventIds,
+  };
+}
+
+/**
+ * Resolves the inline field key a canonical history field is written under on
+ * `line`, preferring the alias already present on the task.
+ */
+export function resolveTaskHistoryFieldKey(
+  line: string,
+  field: string,
+  aliases: ReadonlyMap<string, 'status' | 'priority' | 'tags'>,
+): string {
+  const canonical = String(field || '').trim().toLowerCase();
+  for (const entry of readTaskInlineFields(line)) {
+    const key = String(entry.key || '').trim();
+    const folded = key.toLowerCase();
+    if (folded === canonical || aliases.get(folded) === canonical) return key;
+  }
+  for (const [alias, value] of aliases) {
+    if (value === canonical && alias !== canonical) return alias;
+  }
+  return String(field || '').trim();
+}
+
+function revertChangeInto(
+  target: ItemHistoryTaskSnapshot,
+  change: ItemHistoryChange,
+): ItemHistoryRevertConflictReason | null {
+  if (change.field === 'content') return 'unrestorable';
+  if (!isRestorableState(change.before) || !isRestorableState(change.after)) return 'redacted';
+
+  if (change.field === 'checkbox') {
+    if (change.before.state !== 'value' || typeof change.before.value !== 'string') return 'unrestorable';
+    if (!valueStatesEqual(scalarState(target.checkbox), change.after)) return 'diverged';
+    target.checkbox = change.before.value;
+    return null;
+  }
+
+  if (change.field === 'tags') {
+    const before = stateToList(change.before);
+    const after = stateToList(change.after);
+    const added = after.filter((tag) => !before.some((entry) => sameTag(entry, tag)));
+    const removed = before.filter((tag) => !after.some((entry) => sameTag(entry, tag)));
+    const remaining = target.tags.filter((tag) => !added.some((entry) => sameTag(entry, tag)));
+    for (const tag of removed) {
+      if (!remaining.some((entry) => sameTag(entry, tag))) remaining.push(tag);
+    }
+    target.tags = remaining;
+    return null;
+  }
+
+  const folded = change.field.trim().toLowerCase();
+  const liveKey = Object.keys(target.fields).find((key) => key.trim().toLowerCase() === folded);
+  const live = liveKey != null ? scalarState(target.fields[liveKey]) : { state: 'absent' } as ItemHistoryValueState;
+  if (!valueStatesEqual(live, change.after)) return 'diverged';
+  if (liveKey != null) delete target.fields[liveKey];
+  if (change.before.state === 'value') target.fields[liveKey ?? change.field] = String(change.before.value);
+  else if (change.before.state === 'empty') target.fields[liveKey ?? change.field] = '';
+  return null;
+}
+
+function isRestorableState(state: ItemHistoryValueState): boolean {
+  if (state.state !== 'value') return true;
+  const values = Array.isArray(state.value) ? state.value : [state.value];
+  return values.every((value) => (
+    !/^\[redacted-(?:link|url)\]$/u.test(value)
+    && !(value.length >= 240 && value.endsWith('…'))
+  ));
+}
+
+function stateToList(state: ItemHistoryValueState): string[] {
+  if (state.state !== 'value') return [];
+  return Array.isArray(state.value) ? state.value : [state.value];
+}
+
+function sameTag(left: string, right: string): boolean {
+  return left.replace(/^#/u, '').toLowerCase() === right.replace(/^#/u, '').toLowerCase();
+}
+
+function valueStatesEqual(left: ItemHistoryValueState, right: ItemHistoryValueState): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function noteValueList(value: unknown): string[] {
+  if (value == null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((entry) => entry != null && typeof entry !== 'object')
+    .map((entry) => String(entry).trim())
+    .filter(Boolean);
+}
+
+function noteLinkTarget(value: string): string {
+  const wiki = /^\[\[([^\]|#]+)[^\]]*\]\]$/u.exec(value.trim());
+  const markdown = /^\[[^\]]*\]\(([^)#]+)[^)]*\)$/u.exec(value.trim());
+  const target = (wiki?.[1] ?? markdown?.[1] ?? value).trim();
+  return target.replace(/\.md$/iu, '');
+}
+
+function noteFieldState(
+  fields: Record<string, string | string[]> | null | undefined,
+  key: string,
+): ItemHistoryValueState {
+  if (!fields || !Object.prototype.hasOwnProperty.call(fields, key)) return { state: 'absent' };
+  const value = fields[key];
+  return Array.isArray(value) ? listState(value) : scalarState(value);
+}
+
 function foldFields(fields: Record<string, string> | null | undefined): Map<string, { key: string; value: string }> {
   const result = new Map<string, { key: string; value: string }>();
   for (const [key, value] of Object.entries(fields || {})) {
@@ -0,0 +1,280 @@
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { getErrorMessage } from '../core';
+import { parseTaskLine } from '../utils/task-line-metadata';
+import {
+  getTaskHistoryIdentity,
+  normalizeItemHistoryCause,
+  planTaskHistoryRevert,
+  resolveTaskHistoryFieldKey,
+  type ItemHistoryEvent,
+  type ItemHistoryRevertConflict,
+  type ItemHistoryTaskSnapshot,
+  type ItemHistoryUserCause,
+} from './item-history-core';
+import type { GcmTaskRecord, GcmTaskUpdateInput } from './task-api-service';
+
+export interface ItemHistoryRevertOptions {
+  cause?: ItemHistoryUserCause | null;
+  /** Apply the restorable part of a revert when some fields cannot be restored. */
+  allowPartial?: boolean;
+}
+
+export interface ItemHistoryRevertResult {
+  ok: boolean;
+  changed: boolean;
+  entityId: string | null;
+  revertedEventIds: string[];
+  conflicts: ItemHistoryRevertConflict[];
+  task: GcmTaskRecord | null;
+  error?: string;
+}
+
+export interface ItemHistoryOperationRevertResult {
+  ok: boolean;
+  requested: number;
+  reverted: number;
+  results: ItemHistoryRevertResult[];
+  error?: string;
+}
+
+interface LiveHistoryTask {
+  path: string;
+  lineNumber: number;
+  rawLine: string;
+  snapshot: ItemHistoryTaskSnapshot;
+}
+
+const DEFAULT_REVERT_CAUSE: ItemHistoryUserCause = {
+  kind: 'user',
+  sourcePluginId: 'tps-global-context-menu',
+  surface: 'item-history',
+};
+
+/**
+ * Undoes recorded task history by writing the prior values back through the
+ * task API, so every revert is itself a journaled, revertible user action.
+ *
+ * Reverts are refused when the live task no longer matches the recorded
+ * "after" state unless the caller explicitly accepts a partial revert.
+ */
+export class ItemHistoryRevertService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  /** Undo a single history event. */
+  async revert(eventId: string, options: ItemHistoryRevertOptions = {}): Promise<ItemHistoryRevertResult> {
+    const event = await this.plugin.itemHistoryService.getEvent(eventId);
+    if (!event) return failedResult(null, 'History entry was not found.');
+    return this.revertEntityEvents(event.entityId, [event], options);
+  }
+
+  /** Restore the task to the snapshot it held before `eventId`. */
+  async restoreBefore(eventId: string, options: ItemHistoryRevertOptions = {}): Promise<ItemHistoryRevertResult> {
+    const event = await this.plugin.itemHistoryService.getEvent(eventId);
+    if (!event) return failedResult(null, 'History entry was not found.');
+    const timeline = await this.plugin.itemHistoryService.query(event.entityId, { limit: 200 });
+    const later = timeline.filter((candidate) => (
+      candidate.occurredAt > event.occurredAt
+      || (candidate.occurredAt === event.occurredAt && candidate.eventId.localeCompare(event.eventId) >= 0)
+    ));
+    if (!later.some((candidate) => candidate.eventId === event.eventId)) later.push(event);
+    return this.revertEntityEvents(event.entityId, later, options);
+  }
+
+  /**
+   * Undo every event committed by one operation. Batch menus share a
+   * `cause.interactionId`, so reverting one task of a batch reverts the batch.
+   */
+  async revertOperation(
+    operationId: string,
+    options: ItemHistoryRevertOptions = {},
+  ): Promise<ItemHistoryOperationRevertResult> {
+    const event = await this.plugin.itemHistoryService.getEvent(operationId);
+    if (!event) {
+      return { ok: false, requested: 0, reverted: 0, results: [], error: 'History operation was not found.' };
+    }
+    const interactionId = String(event.cause?.interactionId || '').trim();
+    const events = interactionId
+      ? await this.plugin.itemHistoryService.queryInteraction(interactionId)
+      : [event];
+    const byEntity = new Map<string, ItemHistoryEvent[]>();
+    for (const candidate of events) {
+      const bucket = byEntity.get(candidate.entityId) ?? [];
+      bucket.push(candidate);
+      byEntity.set(candidate.entityId, bucket);
+    }
+    const results: ItemHistoryRevertResult[] = [];
+    for (const [entityId, entityEvents] of byEntity) {
+      results.push(await this.revertEntityEvents(entityId, entityEvents, options));
+    }
+    const reverted = results.filter((result) => result.ok).length;
+    logger.flow('ItemHistory', 'revert:operation', {
+      requested: results.length,
+      reverted,
+      grouped: Boolean(interactionId),
+    });
+    return {
+      ok: reverted === results.length,
+      requested: results.length,
+      reverted,
+      results,
+      ...(reverted === results.length ? {} : { error: `${results.length - reverted} task(s) could not be reverted.` }),
+    };
+  }
+
+  private async revertEntityEvents(
+    entityId: string,
+    events: ItemHistoryEvent[],
+    options: ItemHistoryRevertOptions,
+  ): Promise<ItemHistoryRevertResult> {
+    if (events.some((event) => event.entityKind !== 'task')) {
+      return failedResult(entityId, 'Note history entries cannot be reverted.');
+    }
+    const cause = normalizeItemHistoryCause(options.cause ?? DEFAULT_REVERT_CAUSE) ?? DEFAULT_REVERT_CAUSE;
+    const live = await this.locateTask(entityId);
+    if (!live) return failedResult(entityId, 'The task for this history entry could not be found.');
+
+    const plan = planTaskHistoryRevert(events, live.snapshot);
+    if (plan.conflicts.length > 0 && options.allowPartial !== true) {
+      logger.flowWarn('ItemHistory', 'revert:conflicted', {
+        events: events.length,
+        conflicts: plan.conflicts.map((conflict) => `${conflict.field}:${conflict.reason}`),
+      });
+      return {
+        ...failedResult(entityId, describeConflicts(plan.conflicts)),
+        conflicts: plan.conflicts,
+      };
+    }
+
+    const input = buildRevertUpdateInput(
+      live,
+      plan.target,
+      this.plugin.itemHistoryService.getTaskFieldAliases(),
+    );
+    let task: GcmTaskRecord | null = null;
+    let changed = false;
+    let ref = { path: live.path, lineNumber: live.lineNumber, rawLine: live.rawLine };
+    try {
+      if (input) {
+        const updated = await this.plugin.taskApiService.update(ref, input, cause);
+        if (!updated.ok) return { ...failedResult(entityId, updated.error || 'The task could not be updated.'), conflicts: plan.conflicts };
+        changed = changed || updated.changed;
+        task = updated.task;
+        if (task) ref = { path: task.path, lineNumber: task.lineNumber, rawLine: task.rawLine };
+      }
+      if (plan.location && (plan.location.path !== ref.path || plan.location.lineNumber !== ref.lineNumber)) {
+        const moved = await this.plugin.taskApiService.move(ref, {
+          targetPath: plan.location.path,
+          lineNumber: plan.location.lineNumber,
+          placement: 'line',
+          sourcePolicy: 'remove',
+          resolution: 'exact-or-identity',
+        }, cause);
+        if (!moved.ok) {
+          return {
+            ok: false,
+            changed,
+            entityId,
+            revertedEventIds: [],
+            conflicts: plan.conflicts,
+            task,
+            error: moved.error || 'The task could not be moved back.',
+          };
+        }
+        changed = changed || moved.changed;
+        task = moved.task;
+      }
+    } catch (error) {
+      logger.flowError('ItemHistory', 'revert:failed', error, { events: events.length });
+      return { ...failedResult(entityId, getErrorMessage(error)), changed, conflicts: plan.conflicts };
+    }
+
+    logger.flow('ItemHistory', 'revert:done', {
+      events: plan.revertedEventIds.length,
+      changed,
+      conflicts: plan.conflicts.length,
+    });
+    return {
+      ok: true,
+      changed,
+      entityId,
+      revertedEventIds: plan.revertedEventIds,
+      conflicts: plan.conflicts,
+      task: task ?? await this.plugin.taskApiService.get(ref),
+    };
+  }
+
+  private async locateTask(entityId: string): Promise<LiveHistoryTask | null> {
+    const [latest] = await this.plugin.itemHistoryService.query(entityId, { limit: 1 });
+    const locator = latest?.locatorAfter ?? latest?.locatorBefore;
+    if (!locator) return null;
+    const file = this.plugin.app.vault.getFileByPath(locator.path);
+    if (!file) return null;
+    const lines = (await this.plugin.app.vault.read(file)).split(/\r?\n/u);
+    const matches: number[] = [];
+    for (let index = 0; index < lines.length; index += 1) {
+      if (getTaskHistoryIdentity(lines[index] || '') === entityId && parseTaskLine(lines[index] || '')) {
+        matches.push(index);
+      }
+    }
+    const lineNumber = matches.includes(locator.lineNumber)
+      ? locator.lineNumber
+      : matches.length === 1 ? matches[0] : -1;
+    if (lineNumber < 0) return null;
+    const rawLine = lines[lineNumber] || '';
+    const snapshot = this.plugin.itemHistoryService.snapshotTaskLine(rawLine);
+    return snapshot ? { path: locator.path, lineNumber, rawLine, snapshot } : null;
+  }
+}
+
+function buildRevertUpdateInput(
+  live: LiveHistoryTask,
+  target: ItemHistoryTaskSnapshot,
+  aliases: ReadonlyMap<string, 'status' | 'priority' | 'tags'>,
+): GcmTaskUpdateInput | null {
+  const input: GcmTaskUpdateInput = {};
+  if (target.checkbox !== live.snapshot.checkbox) input.checkbox = target.checkbox;
+
+  const fields: Record<string, string | null> = {};
+  const keys = new Set([...Object.keys(live.snapshot.fields), ...Object.keys(target.fields)]);
+  for (const key of keys) {
+    const next = Object.prototype.hasOwnProperty.call(target.fields, key) ? target.fields[key] : null;
+    const previous = Object.prototype.hasOwnProperty.call(live.snapshot.fields, key) ? live.snapshot.fields[key] : null;
+    if (next === previous) continue;
+    fields[resolveTaskHistoryFieldKey(live.rawLine, key, aliases)] = next;
+  }
+  if (Object.keys(fields).length > 0) input.fields = fields;
+
+  const fold = (tag: string) => tag.replace(/^#/u, '').toLowerCase();
+  const liveTags = new Set(live.snapshot.tags.map(fold));
+  const targetTags = new Set(target.tags.map(fold));
+  const addTags = target.tags.filter((tag) => !liveTags.has(fold(tag)));
+  const removeTags = live.snapshot.tags.filter((tag) => !targetTags.has(fold(tag)));
+  if (addTags.length > 0) input.addTags = addTags;
+  if (removeTags.length > 0) input.removeTags = removeTags;
+
+  return Object.keys(input).length > 0 ? input : null;
+}
+
+function describeConflicts(conflicts: ItemHistoryRevertConflict[]): string {
+  const reasons = new Set(conflicts.map((conflict) => conflict.reason));
+  if (reasons.has('unsupported-action')) return 'Created, deleted, or migrated tasks cannot be reverted from history.';
+  if (reasons.has('diverged')) {
+    const fields = [...new Set(conflicts.filter((conflict) => conflict.reason === 'diverged').map((conflict) => conflict.field))];
+    return `The task changed since this entry (${fields.join(', ')}); nothing was reverted.`;
+  }
+  if (reasons.has('redacted')) return 'This entry contains links or URLs that history does not store; nothing was reverted.';
+  return 'This entry records a content change that cannot be restored from history.';
+}
+
+function failedResult(entityId: string | null, error: string): ItemHistoryRevertResult {
+  return {
+    ok: false,
+    changed: false,
+    entityId,
+    revertedEventIds: [],
+    conflicts: [],
+    task: null,
+    error,
+  };
+}
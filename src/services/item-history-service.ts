@@ -1,14 +1,25 @@
 import type TPSGlobalContextMenuPlugin from '../main';
 import * as logger from '../logger';
 import {
+  diffNoteHistorySnapshots,
   diffTaskHistorySnapshots,
+  ensureNoteHistoryIdentity,
   ensureTaskHistoryIdentity,
+  getNoteHistoryIdentity,
   getTaskHistoryIdentity,
   normalizeItemHistoryCause,
+  snapshotNoteForHistory,
   snapshotTaskForHistory,
   type ItemHistoryEntityRecord,
   type ItemHistoryEvent,
+  type ItemHistoryLocator,
+  type ItemHistoryNoteAction,
+  type ItemHistoryNoteField,
+  type ItemHistoryNoteMutationHandle,
+  type ItemHistoryNotePendingRecord,
+  type ItemHistoryNoteSnapshot,
   type ItemHistoryPendingRecord,
+  type ItemHistoryTaskPendingRecord,
   type ItemHistoryTaskSnapshot,
   type ItemHistoryTaskAction,
   type ItemHistoryTaskMutationHandle,
@@ -21,10 +32,15 @@ import {
 } from './item-history-store';
 
 export type {
+  ItemHistoryAction,
   ItemHistoryChange,
   ItemHistoryEntityRecord,
   ItemHistoryEvent,
   ItemHistoryLocator,
+  ItemHistoryNoteAction,
+  ItemHistoryNoteMutationHandle,
+  ItemHistoryRevertConflict,
+  ItemHistoryRevertConflictReason,
   ItemHistoryTaskAction,
   ItemHistoryTaskMutationHandle,
   ItemHistoryUserCause,
@@ -58,6 +74,30 @@ export interface CommitTaskHistoryMutationInput {
   outcome?: 'committed' | 'partial';
 }
 
+export interface BeginNoteHistoryMutationInput {
+  action: ItemHistoryNoteAction;
+  cause?: ItemHistoryUserCause | null;
+  path: string;
+  before: Record<string, unknown> | null | undefined;
+  /**
+   * Frontmatter the caller is about to write. When given, the mutation is
+   * skipped unless a recorded field actually changes.
+   */
+  after?: Record<string, unknown> | null;
+  /** Identity kept outside the frontmatter, such as a property companion id. */
+  entityId?: string;
+  targetPath?: string;
+  /** Mint a `tpsId` the caller writes with `ensureNoteIdentity`. */
+  allowNewIdentity?: boolean;
+}
+
+export interface CommitNoteHistoryMutationInput {
+  path: string;
+  frontmatter: Record<string, unknown> | null | undefined;
+  entityId?: string;
+  outcome?: 'committed' | 'partial';
+}
+
 export interface ItemHistoryQueryOptions {
   limit?: number;
   before?: number;
@@ -65,6 +105,7 @@ export interface ItemHistoryQueryOptions {
   beforeEventId?: string;
 }
 
+/** A task line, or a whole note when only `path` is given. */
 export interface ItemHistoryTaskReference {
   path?: string;
   lineNumber?: number;
@@ -393,38 +434,184 @@ export class ItemHistoryService {
       lastSeenAt: committedAt,
     };
 
+    await this.persistEvent(store, event, entity);
+  }
+
+  private async persistEvent(
+    store: ItemHistoryStore,
+    event: ItemHistoryEvent,
+    entity: ItemHistoryEntityRecord,
+  ): Promise<void> {
     try {
-      const result = await store.commit(handle.operationId, event, entity);
-      if (result === 'missing-pending') {
-        this.operationEpochs.delete(handle.operationId);
-        return;
-      }
-      this.operationEpochs.delete(handle.operationId);
+      const result = await store.commit(event.operationId, event, entity);
+      this.operationEpochs.delete(event.operationId);
+      if (result === 'missing-pending') return;
       if (result === 'committed') {
         logger.flow('ItemHistory', 'event:committed', {
+          entityKind: event.entityKind,
           action: event.action,
           sourcePluginId: event.cause.sourcePluginId,
           surface: event.cause.surface,
-          changedFields: changes.map((change) => change.field),
+          changedFields: event.changes.map((change) => change.field),
           outcome: event.outcome,
         });
       }
     } catch (error) {
-      this.operationEpochs.delete(handle.operationId);
+      this.operationEpochs.delete(event.operationId);
       this.warnUnavailable(error, 'commit-failed');
       return;
     }
     this.schedulePruneAfterCommit();
   }
 
+  private async abortOperation(
+    operationId: string | null | undefined,
+    store: ItemHistoryStore | null = this.store,
+  ): Promise<void> {
+    if (!operationId || !store) return;
+    this.operationEpochs.delete(operationId);
+    try {
+      await store.abort(operationId);
+    } catch (error) {
+      this.warnUnavailable(error, 'abort-failed');
+    }
+  }
+
   async abortTaskMutation(handle: ItemHistoryTaskMutationHandle | null | undefined): Promise<void> {
+    await this.abortOperation(handle?.operationId);
+  }
+
+  async beginNoteMutation(
+    input: BeginNoteHistoryMutationInput,
+  ): Promise<ItemHistoryNoteMutationHandle | null> {
+    if (this.activationMaintenance) await this.activationMaintenance;
+    const cause = normalizeItemHistoryCause(input.cause);
+    const path = String(input.path || '').trim();
+    if (this.plugin.settings.enableItemHistory === false || !cause || !path) return null;
+    const before = this.snapshotNote(input.before);
+    if (input.after !== undefined && diffNoteHistorySnapshots(before, this.snapshotNote(input.after)).length === 0) {
+      return null;
+    }
+
+    const previousEntityId = getNoteHistoryIdentity({ tpsId: input.entityId })
+      || getNoteHistoryIdentity(input.before);
+    const nextEntityId = input.after ? getNoteHistoryIdentity(input.after) : '';
+    // A mutation that rewrites the note's own identity is not attributable.
+    if (previousEntityId && nextEntityId && previousEntityId !== nextEntityId && !input.entityId) return null;
+    const existingEntityId = previousEntityId || nextEntityId;
+    if (!existingEntityId && input.allowNewIdentity !== true) return null;
+    if (!(await this.ensureReady()) || !this.store) return null;
+
+    const operationId = createItemHistoryId('op');
+    const mutationEpoch = this.mutationEpoch;
+    const handle: ItemHistoryNoteMutationHandle = {
+      operationId,
+      entityId: existingEntityId || createItemHistoryId('item'),
+      action: input.action,
+      cause,
+      before,
+      locatorBefore: normalizeLocator(path, 0),
+      ...(String(input.targetPath || '').trim() ? { targetPath: String(input.targetPath).trim() } : {}),
+      identityWasPresent: Boolean(existingEntityId),
+      startedAt: Date.now(),
+    };
+
+    try {
+      await this.store.putPending({ schemaVersion: 1, entityKind: 'note', ...handle });
+      if (!isItemHistoryEnabled(this.plugin) || mutationEpoch !== this.mutationEpoch) {
+        await this.store.abort(operationId);
+        return null;
+      }
+      this.operationEpochs.set(operationId, mutationEpoch);
+      return handle;
+    } catch (error) {
+      this.warnUnavailable(error, 'pending-write-failed');
+      return null;
+    }
+  }
+
+  /** Adds the minted `tpsId` to frontmatter that is about to be written. */
+  ensureNoteIdentity(
+    handle: ItemHistoryNoteMutationHandle | null | undefined,
+    frontmatter: Record<string, unknown>,
+  ): void {
+    if (!handle || handle.identityWasPresent) return;
+    ensureNoteHistoryIdentity(frontmatter, handle.entityId);
+  }
+
+  async commitNoteMutation(
+    handle: ItemHistoryNoteMutationHandle | null | undefined,
+    input: CommitNoteHistoryMutationInput,
+  ): Promise<void> {
     if (!handle || !this.store) return;
-    this.operationEpochs.delete(handle.operationId);
+    const store = this.store;
+    const commitEpoch = this.mutationEpoch;
+    if (
+      this.plugin.settings.enableItemHistory === false
+      || this.operationEpochs.get(handle.operationId) !== commitEpoch
+    ) {
+      return;
+    }
+    let pending: ItemHistoryPendingRecord | null;
     try {
-      await this.store.abort(handle.operationId);
+      pending = await store.getPending(handle.operationId);
     } catch (error) {
-      this.warnUnavailable(error, 'abort-failed');
+      this.operationEpochs.delete(handle.operationId);
+      this.warnUnavailable(error, 'pending-read-failed');
+      return;
+    }
+    if (this.store !== store || !isItemHistoryEnabled(this.plugin) || commitEpoch !== this.mutationEpoch) {
+      await this.abortOperation(handle.operationId, store);
+      return;
+    }
+    if (!pending || !noteHandleMatchesPending(handle, pending)) {
+      this.operationEpochs.delete(handle.operationId);
+      return;
+    }
+    const liveIdentity = getNoteHistoryIdentity({ tpsId: input.entityId })
+      || getNoteHistoryIdentity(input.frontmatter);
+    if (liveIdentity && liveIdentity !== pending.entityId) {
+      await this.abortOperation(handle.operationId, store);
+      logger.flow('ItemHistory', 'event:identity-mismatch', {
+        action: pending.action,
+        consequence: 'history-event-skipped',
+      });
+      return;
     }
+
+    const changes = diffNoteHistorySnapshots(pending.before, this.snapshotNote(input.frontmatter));
+    const locatorAfter = normalizeLocator(input.path, 0);
+    const isLocatorChange = locatorAfter.path !== pending.locatorBefore.path;
+    if (!changes.length && !isLocatorChange && input.outcome !== 'partial') {
+      await this.abortOperation(handle.operationId, store);
+      return;
+    }
+
+    const committedAt = Date.now();
+    await this.persistEvent(store, {
+      schemaVersion: 1,
+      eventId: pending.operationId,
+      operationId: pending.operationId,
+      entityId: pending.entityId,
+      entityKind: 'note',
+      action: pending.action,
+      occurredAt: pending.startedAt,
+      committedAt,
+      cause: pending.cause,
+      changes,
+      locatorBefore: pending.locatorBefore,
+      locatorAfter,
+      outcome: input.outcome ?? 'committed',
+    }, {
+      entityId: pending.entityId,
+      entityKind: 'note',
+      currentLocator: locatorAfter,
+      lastSeenAt: committedAt,
+    });
+  }
+
+  async abortNoteMutation(handle: ItemHistoryNoteMutationHandle | null | undefined): Promise<void> {
+    await this.abortOperation(handle?.operationId);
   }
 
   async resolveEntity(reference: string | ItemHistoryTaskReference): Promise<string | null> {
@@ -436,6 +623,7 @@ export class ItemHistoryService {
     if (direct) return direct;
 
     const path = String(reference.path || '').trim();
+    if (path && reference.lineNumber == null && !rawLine) return this.resolveNoteEntity(path);
     const lineNumber = Number(reference.lineNumber);
     if (!path || !Number.isFinite(lineNumber)) return null;
     const file = this.plugin.app.vault.getFileByPath(path);
@@ -449,6 +637,16 @@ export class ItemHistoryService {
     }
   }
 
+  private resolveNoteEntity(path: string): string | null {
+    const file = this.plugin.app.vault.getFileByPath(path);
+    if (!file) return null;
+    if (file.extension.toLowerCase() !== 'md') {
+      const fileId = this.plugin.filePropertiesService?.getFileId(file) || '';
+      return getNoteHistoryIdentity({ tpsId: fileId }) || null;
+    }
+    return getNoteHistoryIdentity(this.plugin.app.metadataCache.getFileCache(file)?.frontmatter) || null;
+  }
+
   async query(
     reference: string | ItemHistoryTaskReference,
     options: ItemHistoryQueryOptions = {},
@@ -465,6 +663,108 @@ export class ItemHistoryService {
     }
   }
 
+  /** Where the oldest retained event of `entityId` found the item, or null without history. */
+  async getOriginLocator(entityId: string): Promise<ItemHistoryLocator | null> {
+    if (!(await this.ensureReady(true)) || !this.store) return null;
+    try {
+      const events = await this.store.query(entityId, 200);
+      return events[events.length - 1]?.locatorBefore ?? null;
+    } catch (error) {
+      this.warnUnavailable(error, 'query-failed');
+      return null;
+    }
+  }
+
+  /**
+   * Moves the events recorded against `entityId` in `path` to `nextEntityId`
+   * once a copy in that note was given a new id.
+   */
+  async reassignEvents(entityId: string, nextEntityId: string, path: string): Promise<number> {
+    if (!(await this.ensureReady(true)) || !this.store) return 0;
+    try {
+      return await this.store.reassignEvents(entityId, nextEntityId, path);
+    } catch (error) {
+      this.warnUnavailable(error, 'reassign-failed');
+      return 0;
+    }
+  }
+
+  async getEvent(eventId: string): Promise<ItemHistoryEvent | null> {
+    const id = String(eventId || '').trim();
+    if (!id || !(await this.ensureReady(true)) || !this.store) return null;
+    try {
+      return await this.store.getEvent(id);
+    } catch (error) {
+      this.warnUnavailable(error, 'query-failed');
+      return null;
+    }
+  }
+
+  async queryInteraction(interactionId: string): Promise<ItemHistoryEvent[]> {
+    const id = String(interactionId || '').trim();
+    if (!id || !(await this.ensureReady(true)) || !this.store) return [];
+    try {
+      return await this.store.queryInteraction(id);
+    } catch (error) {
+      this.warnUnavailable(error, 'query-failed');
+      return [];
+    }
+  }
+
+  /** Redacted snapshot of a live task line using the configured field aliases. */
+  snapshotTaskLine(rawLine: string): ItemHistoryTaskSnapshot | null {
+    return this.snapshotTask(rawLine);
+  }
+
+  getTaskFieldAliases(): Map<string, 'status' | 'priority' | 'tags'> {
+    const aliases = new Map<string, 'status' | 'priority' | 'tags'>();
+    const configured = Array.isArray(this.plugin.settings.properties)
+      ? this.plugin.settings.properties
+      : [];
+    for (const property of configured) {
+      const id = String(property?.id || '').trim().toLowerCase();
+      const key = String(property?.key || '').trim().toLowerCase();
+      const canonical = id === 'status'
+        ? 'status'
+        : id === 'priority'
+          ? 'priority'
+          : id === 'tag' || id === 'tags'
+            ? 'tags'
+            : null;
+      if (key && canonical) aliases.set(key, canonical);
+    }
+    const workflowStatusKey = String(
+      this.plugin.sharedServices?.status?.getStatusPropertyKey?.() || '',
+    ).trim().toLowerCase();
+    if (workflowStatusKey) aliases.set(workflowStatusKey, 'status');
+    return aliases;
+  }
+
+  getNoteFieldAliases(): Map<string, ItemHistoryNoteField> {
+    const aliases = new Map<string, ItemHistoryNoteField>();
+    const configured = Array.isArray(this.plugin.settings.properties)
+      ? this.plugin.settings.properties
+      : [];
+    for (const property of configured) {
+      const id = String(property?.id || '').trim().toLowerCase();
+      const key = String(property?.key || '').trim().toLowerCase();
+      const canonical = id === 'tag' ? 'tags' : id;
+      if (key && (canonical === 'status' || canonical === 'priority' || canonical === 'scheduled'
+        || canonical === 'due' || canonical === 'tags')) {
+        aliases.set(key, canonical);
+      }
+    }
+    const workflowStatusKey = String(
+      this.plugin.sharedServices?.status?.getStatusPropertyKey?.() || '',
+    ).trim().toLowerCase();
+    if (workflowStatusKey) aliases.set(workflowStatusKey, 'status');
+    const parentKey = String(this.plugin.settings.parentLinkFrontmatterKey || '').trim().toLowerCase();
+    for (const key of [parentKey, 'parents', 'childof']) {
+      if (key) aliases.set(key, 'parent');
+    }
+    return aliases;
+  }
+
   async prune(): Promise<void> {
     if (!(await this.ensureReady(true)) || !this.store) return;
     await this.pruneReadyStore();
@@ -663,6 +963,18 @@ export class ItemHistoryService {
     for (const record of pending) {
       if (this.store !== store || !this.isCurrentRecordingEpoch(expectedEpoch)) return;
       try {
+        if (record.entityKind === 'note') {
+          if (this.pendingNoteIsUnchanged(record)) {
+            await store.abort(record.operationId);
+            logger.flow('ItemHistory', 'pending:reconciled', {
+              action: record.action,
+              resolution: 'aborted',
+            });
+          }
+          // Changed notes stay uncertain: frontmatter carries no revision that
+          // proves which writer produced the live values.
+          continue;
+        }
         const resolution = await this.resolvePendingRecord(record);
         if (this.store !== store || !this.isCurrentRecordingEpoch(expectedEpoch)) return;
         if (resolution.state === 'aborted') {
@@ -699,7 +1011,15 @@ export class ItemHistoryService {
     }
   }
 
-  private async resolvePendingRecord(record: ItemHistoryPendingRecord): Promise<PendingTaskResolution> {
+  private pendingNoteIsUnchanged(record: ItemHistoryNotePendingRecord): boolean {
+    const file = this.plugin.app.vault.getFileByPath(record.locatorBefore.path);
+    if (!file) return false;
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter) return false;
+    return JSON.stringify(this.snapshotNote(frontmatter)) === JSON.stringify(record.before);
+  }
+
+  private async resolvePendingRecord(record: ItemHistoryTaskPendingRecord): Promise<PendingTaskResolution> {
     const source = await this.observePendingTask(record.locatorBefore.path, record.entityId);
     const target = record.targetPath && record.targetPath !== record.locatorBefore.path
       ? await this.observePendingTask(record.targetPath, record.entityId)
@@ -837,27 +1157,11 @@ export class ItemHistoryService {
   }
 
   private snapshotTask(rawLine: string): ItemHistoryTaskSnapshot | null {
-    const aliases = new Map<string, 'status' | 'priority' | 'tags'>();
-    const configured = Array.isArray(this.plugin.settings.properties)
-      ? this.plugin.settings.properties
-      : [];
-    for (const property of configured) {
-      const id = String(property?.id || '').trim().toLowerCase();
-      const key = String(property?.key || '').trim().toLowerCase();
-      const canonical = id === 'status'
-        ? 'status'
-        : id === 'priority'
-          ? 'priority'
-          : id === 'tag' || id === 'tags'
-            ? 'tags'
-            : null;
-      if (key && canonical) aliases.set(key, canonical);
-    }
-    const workflowStatusKey = String(
-      this.plugin.sharedServices?.status?.getStatusPropertyKey?.() || '',
-    ).trim().toLowerCase();
-    if (workflowStatusKey) aliases.set(workflowStatusKey, 'status');
-    return snapshotTaskForHistory(rawLine, aliases);
+    return snapshotTaskForHistory(rawLine, this.getTaskFieldAliases());
+  }
+
+  private snapshotNote(frontmatter: Record<string, unknown> | null | undefined): ItemHistoryNoteSnapshot {
+    return snapshotNoteForHistory(frontmatter, this.getNoteFieldAliases());
   }
 
   private isCurrentRecordingEpoch(expectedEpoch: number): boolean {
@@ -907,8 +1211,9 @@ function taskSnapshotsEqual(
 function mutationHandleMatchesPending(
   handle: ItemHistoryTaskMutationHandle,
   pending: ItemHistoryPendingRecord,
-): boolean {
-  return handle.operationId === pending.operationId
+): pending is ItemHistoryTaskPendingRecord {
+  return pending.entityKind === 'task'
+    && handle.operationId === pending.operationId
     && handle.entityId === pending.entityId
     && handle.action === pending.action
     && handle.startedAt === pending.startedAt
@@ -919,6 +1224,20 @@ function mutationHandleMatchesPending(
     && JSON.stringify(handle.locatorBefore) === JSON.stringify(pending.locatorBefore);
 }
 
+function noteHandleMatchesPending(
+  handle: ItemHistoryNoteMutationHandle,
+  pending: ItemHistoryPendingRecord,
+): pending is ItemHistoryNotePendingRecord {
+  return pending.entityKind === 'note'
+    && handle.operationId === pending.operationId
+    && handle.entityId === pending.entityId
+    && handle.action === pending.action
+    && handle.startedAt === pending.startedAt
+    && JSON.stringify(handle.cause) === JSON.stringify(pending.cause)
+    && JSON.stringify(handle.before) === JSON.stringify(pending.before)
+    && JSON.stringify(handle.locatorBefore) === JSON.stringify(pending.locatorBefore);
+}
+
 function clampNumber(value: unknown, fallback: number, min: number, max: number): number {
   const parsed = Number(value);
   return Number.isFinite(parsed) ? Math.min(max, Math.max(min, Math.floor(parsed))) : fallback;
@@ -31,6 +31,14 @@ export interface ItemHistoryStore {
     entity: ItemHistoryEntityRecord,
   ): Promise<ItemHistoryCommitResult>;
   query(entityId: string, limit: number, before?: number, beforeEventId?: string): Promise<ItemHistoryEvent[]>;
+  getEvent(eventId: string): Promise<ItemHistoryEvent | null>;
+  /** Events committed under one user interaction, newest first. */
+  queryInteraction(interactionId: string): Promise<ItemHistoryEvent[]>;
+  /**
+   * Moves the events of `entityId` last located in `path` to `nextEntityId`,
+   * for a copy that was given a new id. Returns the number of moved events.
+   */
+  reassignEvents(entityId: string, nextEntityId: string, path: string): Promise<number>;
   prune(options: ItemHistoryPruneOptions): Promise<void>;
   stats(): Promise<ItemHistoryStoreStats>;
   clearPending(): Promise<void>;
@@ -193,6 +201,47 @@ export class IndexedDbItemHistoryStore implements ItemHistoryStore {
       .slice(0, Math.max(1, Math.min(200, Math.floor(limit || 50))));
   }
 
+  async getEvent(eventId: string): Promise<ItemHistoryEvent | null> {
+    const transaction = this.transaction([EVENTS_STORE], 'readonly');
+    const event = await requestResult<ItemHistoryEvent | undefined>(
+      transaction.objectStore(EVENTS_STORE).get(eventId),
+    );
+    await transactionDone(transaction);
+    return event ?? null;
+  }
+
+  async queryInteraction(interactionId: string): Promise<ItemHistoryEvent[]> {
+    // Interactions are rare, bounded by the global entry cap, and only read on
+    // an explicit revert, so a scan avoids a schema upgrade for a new index.
+    const transaction = this.transaction([EVENTS_STORE], 'readonly');
+    const rows = await requestResult<ItemHistoryEvent[]>(
+      transaction.objectStore(EVENTS_STORE).getAll(),
+    );
+    await transactionDone(transaction);
+    return rows
+      .filter((event) => event.cause?.interactionId === interactionId)
+      .sort(compareEventsNewestFirst);
+  }
+
+  async reassignEvents(entityId: string, nextEntityId: string, path: string): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      const transaction = this.transaction([EVENTS_STORE, ENTITIES_STORE], 'readwrite');
+      const eventsStore = transaction.objectStore(EVENTS_STORE);
+      const request = eventsStore.index('entityId').getAll(entityId);
+      let moved = 0;
+      request.onsuccess = () => {
+        const events = (request.result as ItemHistoryEvent[]).filter((event) => eventLocatedIn(event, path));
+        for (const event of events) eventsStore.put({ ...event, entityId: nextEntityId });
+        const entity = entityForReassignedEvents(events, nextEntityId);
+        if (entity) transaction.objectStore(ENTITIES_STORE).put(entity);
+        moved = events.length;
+      };
+      transaction.oncomplete = () => resolve(moved);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Item history transaction failed.'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Item history transaction was aborted.'));
+    });
+  }
+
   async prune(options: ItemHistoryPruneOptions): Promise<void> {
     const bounded = normalizePruneOptions(options);
     return new Promise<void>((resolve, reject) => {
@@ -370,6 +419,27 @@ export class MemoryItemHistoryStore implements ItemHistoryStore {
       .map(structuredCloneSafe);
   }
 
+  async getEvent(eventId: string): Promise<ItemHistoryEvent | null> {
+    const event = this.events.get(eventId);
+    return event ? structuredCloneSafe(event) : null;
+  }
+
+  async queryInteraction(interactionId: string): Promise<ItemHistoryEvent[]> {
+    return [...this.events.values()]
+      .filter((event) => event.cause?.interactionId === interactionId)
+      .sort(compareEventsNewestFirst)
+      .map(structuredCloneSafe);
+  }
+
+  async reassignEvents(entityId: string, nextEntityId: string, path: string): Promise<number> {
+    const events = [...this.events.values()]
+      .filter((event) => event.entityId === entityId && eventLocatedIn(event, path));
+    for (const event of events) this.events.set(event.eventId, { ...event, entityId: nextEntityId });
+    const entity = entityForReassignedEvents(events, nextEntityId);
+    if (entity) this.entities.set(entity.entityId, entity);
+    return events.length;
+  }
+
   async prune(options: ItemHistoryPruneOptions): Promise<void> {
     const bounded = normalizePruneOptions(options);
     const retained = [...this.events.values()]
@@ -427,6 +497,24 @@ function eventPrecedesCursor(
   return cursorId ? event.eventId.localeCompare(cursorId) < 0 : false;
 }
 
+function eventLocatedIn(event: ItemHistoryEvent, path: string): boolean {
+  return (event.locatorAfter ?? event.locatorBefore).path === path;
+}
+
+function entityForReassignedEvents(
+  events: readonly ItemHistoryEvent[],
+  entityId: string,
+): ItemHistoryEntityRecord | null {
+  const latest = [...events].sort(compareEventsNewestFirst)[0];
+  if (!latest) return null;
+  return {
+    entityId,
+    entityKind: latest.entityKind,
+    currentLocator: latest.locatorAfter ?? latest.locatorBefore,
+    lastSeenAt: latest.committedAt,
+  };
+}
+
 function normalizePruneOptions(options: ItemHistoryPruneOptions): ItemHistoryPruneOptions {
   const now = Date.now();
   const oldestAllowed = now - HARD_MAX_RETENTION_DAYS * DAY_MS;
@@ -458,7 +546,7 @@ function pendingMatchesCommit(
   return pending.operationId === operationId
     && event.eventId === operationId
     && event.operationId === operationId
-    && pending.entityKind === 'task'
+    && (pending.entityKind === 'task' || pending.entityKind === 'note')
     && event.entityKind === pending.entityKind
     && entity.entityKind === pending.entityKind
     && event.entityId === pending.entityId
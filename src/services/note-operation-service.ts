@@ -3,7 +3,8 @@ import type TPSGlobalContextMenuPlugin from "../main";
 import * as logger from "../logger";
 import { mergeNormalizedTags, normalizeTagValue } from "../utils/tag-utils";
 import { findExistingDailyNoteForIsoDate, getDailyNoteScheduledValueForIsoDate, getIsoDateFromScheduledValue } from "../utils/daily-note-task-schedule";
-import type { CustomProperty } from "../types";
+import type { CustomProperty, PeriodicNoteKind } from "../types";
+import { PERIODIC_NOTE_LABELS, getPeriodStart, getPeriodicNotePath } from "../utils/periodic-notes";
 import { propertyUsesEntityOptions } from "../utils/property-option-source";
 import { applyCoreDailyNoteTemplateVariables, ensureDailyNoteTitleFallback } from "../utils/daily-note-creation";
 
@@ -1012,6 +1013,58 @@ export class NoteOperationService {
         return created;
     }
 
+    /**
+     * Returns the weekly/monthly/quarterly/yearly note for the period holding
+     * `isoDate`, creating it from that type's template when missing. Periodic
+     * notes get a title and tag but no `scheduled` value.
+     */
+    async ensurePeriodicNote(kind: PeriodicNoteKind, isoDate: string): Promise<TFile | null> {
+        const config = this.plugin.settings.periodicNotes?.[kind];
+        if (!config?.enabled) return null;
+        const path = getPeriodicNotePath(this.plugin.settings.periodicNotes, kind, isoDate);
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) return existing;
+
+        const templatePath = String(config.template || '').trim();
+        const templateFile = templatePath ? this.resolveDailyNoteTemplateFile(templatePath) : null;
+        if (templatePath && !(templateFile instanceof TFile)) {
+            new Notice(`TPS GCM: ${PERIODIC_NOTE_LABELS[kind].title} note template not found: ${templatePath}`);
+            return null;
+        }
+
+        const title = path.split('/').pop()?.replace(/\.md$/i, '') || isoDate;
+        const start = (window as any).moment(getPeriodStart(kind, isoDate), 'YYYY-MM-DD', true);
+        let content = '';
+        try {
+            if (templateFile instanceof TFile) {
+                content = applyCoreDailyNoteTemplateVariables(
+                    await this.app.vault.read(templateFile),
+                    start,
+                    title,
+                    (window as any).moment(),
+                );
+            }
+            if (!content.trimStart().startsWith('---')) {
+                content = `---\ntitle: ${JSON.stringify(title)}\ntags: [${kind}note]\n---\n\n${content}`;
+            }
+            const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+            if (folder) await this.ensureFolderPath(folder);
+            const createStartedAt = Date.now();
+            const created = await this.app.vault.create(path, content);
+            if (!(await this.finishPendingTemplaterTemplate(created, { awaitAutoCreateHook: true, createStartedAt }))) {
+                return null;
+            }
+            logger.flow('PeriodicNote', 'ensure:created', { path: created.path, kind, start: getPeriodStart(kind, isoDate) });
+            return created;
+        } catch (error) {
+            const raced = this.app.vault.getAbstractFileByPath(path);
+            if (raced instanceof TFile) return raced;
+            logger.flowError('PeriodicNote', 'ensure:failed', error, { path, kind });
+            new Notice(`TPS GCM: The ${PERIODIC_NOTE_LABELS[kind].noun} note could not be created.`);
+            return null;
+        }
+    }
+
     private async normalizeCreatedDailyNote(file: TFile, titleValue: string, folder: string, isoDate: string | null = getIsoDateFromScheduledValue(titleValue)): Promise<void> {
         const targetFolder = String(folder || file.parent?.path || '/').trim() || '/';
         const scheduledValue = isoDate ? getDailyNoteScheduledValueForIsoDate(isoDate) : `${titleValue} 00:00:00`;
@@ -2,6 +2,7 @@ import { App } from "obsidian";
 import { parseDateFromFilename } from "../utils/daily-file-date";
 import { getInheritedDailyNoteTaskScheduledValue } from "../utils/daily-note-task-schedule";
 import {
+  ActionRule,
   HideRule,
   IconColorRule,
   RuleCondition,
@@ -15,6 +16,7 @@ import {
   SortCriteria,
   ConditionGroup,
   RelationshipLineageNode,
+  RuleAction,
 } from "../types";
 
 export interface RuleFieldResult {
@@ -149,6 +151,23 @@ export class RuleEngine {
     return { icon, color };
   }
 
+  /** Unlike icon and color, actions accumulate: every enabled matching rule contributes, in order. */
+  resolveActions(rules: ActionRule[], context: RuleEvaluationContext): { actions: RuleAction[]; ruleIds: string[] } {
+    const actions: RuleAction[] = [];
+    const ruleIds: string[] = [];
+    for (const rule of rules) {
+      if (!rule.enabled || !Array.isArray(rule.actions) || rule.actions.length === 0) {
+        continue;
+      }
+      if (!this.matchesRule(rule, context)) {
+        continue;
+      }
+      ruleIds.push(rule.id);
+      actions.push(...rule.actions);
+    }
+    return { actions, ruleIds };
+  }
+
   composeSortKey(settings: SmartSortSettings, context: RuleEvaluationContext): string {
     return this.composeSortKeyResult(settings, context).key;
   }
@@ -476,7 +495,7 @@ export class RuleEngine {
     }).join("");
   }
 
-  matchesRule(rule: IconColorRule | HideRule, context: RuleEvaluationContext): boolean {
+  matchesRule(rule: IconColorRule | HideRule | ActionRule, context: RuleEvaluationContext): boolean {
     if (Array.isArray(rule.conditions) && rule.conditions.length > 0) {
       return this.matchesConditionGroup(rule.conditions, rule.match, context);
     }
@@ -1,8 +1,19 @@
 import { TFile, normalizePath, setIcon } from 'obsidian';
 import type TPSGlobalContextMenuPlugin from '../main';
 import * as logger from '../logger';
-import { deleteValueCaseInsensitive, findKeyCaseInsensitive, setValueCaseInsensitive } from '../core';
+import { deleteValueCaseInsensitive, findKeyCaseInsensitive, getErrorMessage, setValueCaseInsensitive } from '../core';
+import { resolveLinkValueToFile } from '../handlers/parent-link-format';
+import type { NotebookNavigatorRuleSettings, RuleAction } from '../types';
 import { RuleEngine } from './notebook-navigator-rule-engine';
+import {
+  diffRuleOutputs,
+  formatRuleDryRunReport,
+  formatRuleDryRunTimestamp,
+  type RuleDryRunReport,
+} from './rule-dry-run-core';
+import { collectDateRuleScope, fileNeedsDateSweep, parseRuleSweepTimes } from './rule-schedule-core';
+
+export const DEFAULT_RULE_REPORT_FOLDER = 'Rule Reports';
 
 type ApplyOptions = {
   reason?: string;
@@ -44,7 +55,7 @@ type RelationshipLineageNode = {
  * GCM-owned writer for Notebook Navigator rule outputs.
  *
  * Rule configuration, evaluation, and note/frontmatter mutations for icon,
- * color, sort, and hide tags happen here.
+ * color, sort, hide tags and action rules happen here.
  */
 export class NotebookNavigatorRuleService {
   private readonly timers = new Map<string, number>();
@@ -72,6 +83,16 @@ export class NotebookNavigatorRuleService {
     return !!settings?.enabled && settings.applyOnStartup !== false;
   }
 
+  shouldRunScheduledSweeps(): boolean {
+    if (!this.plugin.canRunBackgroundAutomation()) return false;
+    const settings = this.getSettings();
+    return !!settings?.enabled && settings.scheduledSweepEnabled === true;
+  }
+
+  getScheduledSweepTimes(): string[] {
+    return parseRuleSweepTimes(this.getSettings()?.scheduledSweepTimes);
+  }
+
   getMetadataDebounceMs(): number {
     const raw = Number(this.getSettings()?.metadataDebounceMs ?? 150);
     return Number.isFinite(raw) ? Math.max(0, Math.min(raw, 5000)) : 150;
@@ -129,6 +150,38 @@ export class NotebookNavigatorRuleService {
     return changed;
   }
 
+  /**
+   * Re-applies rules to the notes a date condition could flip since the last
+   * pass, e.g. a due date that became overdue at midnight. Notes without the
+   * compared keys are skipped, and applyRulesToFile only writes changed output.
+   * Like other automatic passes it leaves alone a note the user is editing.
+   */
+  async applyDateSensitiveRules(reason: string): Promise<{ scanned: number; changed: number }> {
+    if (!this.isReady()) return { scanned: 0, changed: 0 };
+    const scope = collectDateRuleScope(this.getSettings());
+    if (!scope) return { scanned: 0, changed: 0 };
+    const started = performance.now();
+    let scanned = 0;
+    let changed = 0;
+    for (const file of this.getRuleCandidateFiles()) {
+      if (!fileNeedsDateSweep(scope, this.getFrontmatterForFile(file))) continue;
+      scanned += 1;
+      if (await this.applyRulesToFile(file, {
+        reason: 'scheduled-sweep',
+        bypassCreationGrace: true,
+      })) {
+        changed += 1;
+      }
+    }
+    logger.flow('NotebookRules', 'scheduled-sweep', {
+      reason,
+      scanned,
+      changed,
+      durationMs: Math.round(performance.now() - started),
+    });
+    return { scanned, changed };
+  }
+
   async applyRulesToFile(file: TFile, options: ApplyOptions = {}): Promise<boolean> {
     if (!this.canApplyToFile(file)) return false;
     if (!this.canUseExistingPropertyStorage(file)) return false;
@@ -142,41 +195,18 @@ export class NotebookNavigatorRuleService {
 
     const started = performance.now();
     const body = await this.readBody(file);
-    const changed = await this.plugin.frontmatterMutationService.process(file, (frontmatter) => {
-      const context = this.buildRuleContext(file, frontmatter, body);
-      this.removeGeneratedBlankNoteTitle(file, frontmatter, body, options);
-      const visualOutputs = ruleEngine.resolveVisualOutputs(settings.rules || [], context);
-      const desiredIcon = visualOutputs?.icon?.matched
-        ? String(visualOutputs.icon.value || '').trim()
-        : settings.clearIconWhenNoMatch ? null : undefined;
-      const desiredColor = visualOutputs?.color?.matched
-        ? this.normalizeNoteColorValue(String(visualOutputs.color.value || '').trim())
-        : settings.clearColorWhenNoMatch ? null : undefined;
-      const iconField = this.getIconField(settings);
-      const colorField = this.getColorField(settings);
-
-      if (iconField.toLowerCase() === colorField.toLowerCase()) {
-        this.applyScalarMutation(frontmatter, iconField, desiredIcon !== undefined ? desiredIcon : desiredColor);
-      } else {
-        this.applyScalarMutation(frontmatter, iconField, desiredIcon);
-        this.applyScalarMutation(frontmatter, colorField, desiredColor);
-      }
-
-      // Opening a note is a latency-sensitive, device-local visual refresh.
-      // Controller-owned sweeps and metadata automation retain sort/hide writes.
-      if (options.reason !== 'file-open') {
-        const sortKey = this.computeSortKey(ruleEngine, settings, context);
-        if (sortKey !== undefined) {
-          this.applyScalarMutation(frontmatter, settings.smartSort?.field || 'sort', sortKey);
-        }
-
-        this.applyHideTagMutations(ruleEngine, settings, context, frontmatter);
-      }
+    const runActions = this.canRunActionRules(options);
+    let fileActions: RuleAction[] = [];
+    const frontmatterChanged = await this.plugin.frontmatterMutationService.process(file, (frontmatter) => {
+      fileActions = this.applyRuleOutputs(ruleEngine, settings, file, frontmatter, body, options, runActions);
     }, {
       kind: 'automation',
       sourcePluginId: this.plugin.manifest.id,
       surface: 'notebook-navigator-rules',
     });
+    // Parent links and moves write outside this note's frontmatter pass.
+    const fileActionsChanged = fileActions.length > 0 ? await this.applyFileActions(file, fileActions) : false;
+    const changed = frontmatterChanged || fileActionsChanged;
     logger.perf('notebookRules:applyRulesToFile', {
       file: file.path,
       reason: options.reason || 'gcm-rule-apply',
@@ -193,6 +223,58 @@ export class NotebookNavigatorRuleService {
     return changed;
   }
 
+  /**
+   * Writes every rule output into `frontmatter` and returns the actions that
+   * act on the file itself. The dry run calls this on a copy, so its report
+   * matches what applyRulesToFile writes.
+   */
+  private applyRuleOutputs(
+    ruleEngine: RuleEngine,
+    settings: NotebookNavigatorRuleSettings,
+    file: TFile,
+    frontmatter: Record<string, unknown>,
+    body: string,
+    options: ApplyOptions,
+    runActions: boolean,
+  ): RuleAction[] {
+    const context = this.buildRuleContext(file, frontmatter, body);
+    this.removeGeneratedBlankNoteTitle(file, frontmatter, body, options);
+    const visualOutputs = ruleEngine.resolveVisualOutputs(settings.rules || [], context);
+    const desiredIcon = visualOutputs?.icon?.matched
+      ? String(visualOutputs.icon.value || '').trim()
+      : settings.clearIconWhenNoMatch ? null : undefined;
+    const desiredColor = visualOutputs?.color?.matched
+      ? this.normalizeNoteColorValue(String(visualOutputs.color.value || '').trim())
+      : settings.clearColorWhenNoMatch ? null : undefined;
+    const iconField = this.getIconField(settings);
+    const colorField = this.getColorField(settings);
+
+    if (iconField.toLowerCase() === colorField.toLowerCase()) {
+      this.applyScalarMutation(frontmatter, iconField, desiredIcon !== undefined ? desiredIcon : desiredColor);
+    } else {
+      this.applyScalarMutation(frontmatter, iconField, desiredIcon);
+      this.applyScalarMutation(frontmatter, colorField, desiredColor);
+    }
+
+    // Opening a note is a latency-sensitive, device-local visual refresh.
+    // Controller-owned sweeps and metadata automation retain sort/hide writes.
+    if (options.reason !== 'file-open') {
+      const sortKey = this.computeSortKey(ruleEngine, settings, context);
+      if (sortKey !== undefined) {
+        this.applyScalarMutation(frontmatter, settings.smartSort?.field || 'sort', sortKey);
+      }
+
+      this.applyHideTagMutations(ruleEngine, settings, context, frontmatter);
+    }
+
+    if (!runActions) return [];
+    const resolved = ruleEngine.resolveActions(settings.actionRules || [], context);
+    if (resolved.ruleIds.length > 0) {
+      logger.flow('NotebookRules', 'actions:matched', { file: file.path, ruleIds: resolved.ruleIds });
+    }
+    return this.applyFrontmatterActions(resolved.actions, frontmatter);
+  }
+
   markUserEdited(file: TFile): void {
     if (!this.canApplyToFile(file)) return;
     this.recentUserEditAtByPath.set(file.path, Date.now());
@@ -240,6 +322,77 @@ export class NotebookNavigatorRuleService {
     };
   }
 
+  /**
+   * Evaluates every candidate note the way applyRulesToPaths would, on a
+   * copy of its frontmatter, and reports what would change without writing.
+   * Notes applyRulesToFile would skip with the same options are listed as
+   * excluded.
+   */
+  async buildDryRunReport(): Promise<RuleDryRunReport> {
+    const report: RuleDryRunReport = { ranAt: new Date(), scanned: 0, files: [], excluded: [] };
+    const settings = this.getSettings();
+    const ruleEngine = this.getRuleEngine();
+    if (!this.isReady() || !ruleEngine) return report;
+
+    const options: ApplyOptions = { reason: 'gcm-dry-run', force: true, bypassCreationGrace: true };
+    const runActions = this.canRunActionRules(options);
+    const started = performance.now();
+    for (const file of this.getRuleCandidateFiles()) {
+      if (!this.canApplyToFile(file) || !this.canUseExistingPropertyStorage(file)) continue;
+      report.scanned += 1;
+      if (this.shouldIgnore(file, options)) {
+        report.excluded.push(file.path);
+        continue;
+      }
+      const before = this.getFrontmatterForFile(file) ?? {};
+      const after = JSON.parse(JSON.stringify(before)) as Record<string, unknown>;
+      const body = await this.readBody(file);
+      const fileActions = this.applyRuleOutputs(ruleEngine, settings, file, after, body, options, runActions)
+        .filter((action) => this.isPendingFileAction(file, action));
+      const changes = diffRuleOutputs(before, after);
+      if (changes.length > 0 || fileActions.length > 0) {
+        report.files.push({ path: file.path, changes, fileActions });
+      }
+    }
+    logger.flow('NotebookRules', 'dry-run', {
+      scanned: report.scanned,
+      changed: report.files.length,
+      excluded: report.excluded.length,
+      durationMs: Math.round(performance.now() - started),
+    });
+    return report;
+  }
+
+  /** Applies rules to the notes picked from a dry-run report. */
+  async applyRulesToPaths(paths: readonly string[]): Promise<number> {
+    if (!this.isReady()) return 0;
+    let changed = 0;
+    for (const path of paths) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      if (await this.applyRulesToFile(file, {
+        reason: 'gcm-dry-run-apply',
+        force: true,
+        bypassCreationGrace: true,
+      })) {
+        changed += 1;
+      }
+    }
+    return changed;
+  }
+
+  /** Saves the report as a note under "Rule Reports" and returns its path. */
+  async exportDryRunReport(report: RuleDryRunReport): Promise<string> {
+    const vault = this.plugin.app.vault;
+    if (!vault.getAbstractFileByPath(DEFAULT_RULE_REPORT_FOLDER)) await vault.createFolder(DEFAULT_RULE_REPORT_FOLDER);
+    const base = `${DEFAULT_RULE_REPORT_FOLDER}/Rule dry run ${formatRuleDryRunTimestamp(report.ranAt).replace(':', '')}`;
+    let path = normalizePath(`${base}.md`);
+    for (let attempt = 2; vault.getAbstractFileByPath(path); attempt += 1) path = normalizePath(`${base} ${attempt}.md`);
+    await vault.create(path, formatRuleDryRunReport(report));
+    logger.flow('NotebookRules', 'dry-run:exported', { path });
+    return path;
+  }
+
   getRuleMatchForFile(file: TFile, rule: any): boolean | null {
     if (!this.canApplyToFile(file) || !rule) return null;
     const frontmatter = this.getFrontmatterForFile(file);
@@ -319,6 +472,10 @@ export class NotebookNavigatorRuleService {
       });
       return true;
     }
+    return this.isExcludedFromWrites(file);
+  }
+
+  private isExcludedFromWrites(file: TFile): boolean {
     const patterns = this.getExclusionPatterns();
     if (patterns.length === 0) return false;
     const path = this.normalizeComparablePath(file.path);
@@ -330,8 +487,9 @@ export class NotebookNavigatorRuleService {
     return this.plugin.app.workspace.getActiveFile()?.path === file.path;
   }
 
+  /** Automatic passes skip notes the user is editing; explicit commands do not. */
   private isAutomaticReason(reason: string | undefined): boolean {
-    return reason === 'file-open' || reason === 'metadata-change' || !reason;
+    return reason === 'file-open' || reason === 'metadata-change' || reason === 'scheduled-sweep' || !reason;
   }
 
   private requiresControllerAutomation(reason: string | undefined): boolean {
@@ -561,6 +719,116 @@ export class NotebookNavigatorRuleService {
     return undefined;
   }
 
+  /**
+   * Action rules write beyond visuals, so on note open they run only on the
+   * device that owns background automation, like sort and hide writes.
+   */
+  private canRunActionRules(options: ApplyOptions): boolean {
+    return options.reason !== 'file-open' || this.plugin.canRunBackgroundAutomation();
+  }
+
+  /** Applies the frontmatter actions in order and returns the ones that act on the file itself. */
+  private applyFrontmatterActions(actions: RuleAction[], frontmatter: Record<string, unknown>): RuleAction[] {
+    const fileActions: RuleAction[] = [];
+    for (const action of actions) {
+      switch (action.type) {
+        case 'set-property':
+          if (action.key) this.applyScalarMutation(frontmatter, action.key, action.value);
+          break;
+        case 'clear-property':
+          if (action.key) this.applyScalarMutation(frontmatter, action.key, null);
+          break;
+        case 'add-tag':
+        case 'remove-tag': {
+          const tag = this.normalizeTag(action.tag);
+          if (!tag) break;
+          const current = new Set(this.normalizeTagList(this.getValue(frontmatter, 'tags')));
+          if (action.type === 'add-tag' ? current.has(tag) : !current.has(tag)) break;
+          if (action.type === 'add-tag') current.add(tag);
+          else current.delete(tag);
+          if (current.size === 0) deleteValueCaseInsensitive(frontmatter, 'tags');
+          else setValueCaseInsensitive(frontmatter, 'tags', Array.from(current));
+          break;
+        }
+        case 'set-status': {
+          // Through the status service, so completedDate follows as it does for a status set by hand.
+          const status = this.plugin.sharedServices.status;
+          if (status.normalize(action.status)) status.applyStatusToFrontmatter(frontmatter, action.status);
+          break;
+        }
+        case 'move-to-folder':
+        case 'link-parent':
+          fileActions.push(action);
+          break;
+      }
+    }
+    return fileActions;
+  }
+
+  private async applyFileActions(file: TFile, actions: RuleAction[]): Promise<boolean> {
+    let changed = false;
+    for (const action of actions) {
+      try {
+        if (action.type === 'link-parent') {
+          changed = await this.linkParent(file, action.parent) || changed;
+        } else if (action.type === 'move-to-folder') {
+          changed = await this.moveToFolder(file, action.folder) || changed;
+        }
+      } catch (error) {
+        logger.flowWarn('NotebookRules', 'actions:file-action-failed', {
+          file: file.path,
+          action: action.type,
+          error: getErrorMessage(error),
+        });
+      }
+    }
+    return changed;
+  }
+
+  /** Mirrors the no-op checks in linkParent and moveToFolder for the dry run. */
+  private isPendingFileAction(file: TFile, action: RuleAction): boolean {
+    if (action.type === 'move-to-folder') {
+      return !!action.folder.trim() && normalizePath(file.parent?.path || '/') !== normalizePath(action.folder);
+    }
+    if (action.type === 'link-parent') {
+      if (!action.parent.trim()) return false;
+      const parent = resolveLinkValueToFile(this.plugin.app, action.parent, file.path);
+      return !(parent instanceof TFile) || !this.plugin.parentLinkResolutionService.hasParent(file, parent);
+    }
+    return false;
+  }
+
+  private async linkParent(file: TFile, parentRef: string): Promise<boolean> {
+    const resolution = this.plugin.parentLinkResolutionService;
+    if (!parentRef.trim()) return false;
+    const parent = resolveLinkValueToFile(this.plugin.app, parentRef, file.path);
+    if (!(parent instanceof TFile) || parent.path === file.path) {
+      throw new Error(`Parent ${parentRef} not found.`);
+    }
+    if (resolution.hasParent(file, parent)) return false;
+    return resolution.addParentToChild(file, parent);
+  }
+
+  /** A blank folder is an unfinished action; `/` is the vault root. */
+  private async moveToFolder(file: TFile, folder: string): Promise<boolean> {
+    if (!folder.trim()) return false;
+    const folderPath = normalizePath(folder);
+    const currentFolder = file.parent?.path || '/';
+    if (normalizePath(currentFolder) === folderPath) return false;
+    const nextPath = folderPath === '/' ? file.name : `${folderPath}/${file.name}`;
+    if (this.plugin.app.vault.getAbstractFileByPath(nextPath)) {
+      throw new Error(`${nextPath} already exists.`);
+    }
+    const result = await this.plugin.commandQueueService.executeMoveFiles([file], async () => {
+      if (folderPath !== '/' && !this.plugin.app.vault.getAbstractFileByPath(folderPath)) {
+        await this.plugin.app.vault.createFolder(folderPath);
+      }
+      await this.plugin.app.fileManager.renameFile(file, nextPath);
+    });
+    if (!result.success) throw result.error ?? new Error(`Could not move to ${folderPath}.`);
+    return true;
+  }
+
   private getIconField(settings: any): string {
     return String(
       this.plugin.sharedServices?.visualMetadata?.getIconField?.()
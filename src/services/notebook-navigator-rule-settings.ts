@@ -1,5 +1,6 @@
 import {
   DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS,
+  ActionRule,
   ConditionGroup,
   HideRule,
   IconColorRule,
@@ -8,6 +9,7 @@ import {
   NotebookNavigatorRuleOperator,
   NotebookNavigatorRuleSettings,
   NotebookNavigatorSmartRuleOperator,
+  RuleAction,
   RuleCondition,
   SmartSortSettings,
   SortBucket,
@@ -21,6 +23,7 @@ import {
   createSortSegmentId,
 } from '../types';
 import * as logger from '../logger';
+import { parseRuleSweepTimes } from './rule-schedule-core';
 
 const PROTECTED_FRONTMATTER_KEYS = new Set(['externaleventid', 'tpscalendaruid']);
 
@@ -46,6 +49,8 @@ export function sanitizeNotebookNavigatorRuleSettings(raw: unknown): NotebookNav
     autoApplyOnMetadataChange: asBoolean(record.autoApplyOnMetadataChange, DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS.autoApplyOnMetadataChange),
     applyOnStartup: asBoolean(record.applyOnStartup, DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS.applyOnStartup),
     startupDelayMs: asNumber(record.startupDelayMs, DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS.startupDelayMs, 0, 30000),
+    scheduledSweepEnabled: asBoolean(record.scheduledSweepEnabled, DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS.scheduledSweepEnabled),
+    scheduledSweepTimes: parseRuleSweepTimes(record.scheduledSweepTimes).join(', '),
     metadataDebounceMs: asNumber(record.metadataDebounceMs, DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS.metadataDebounceMs, 0, 5000),
     frontmatterIconField: normalizeSafeFrontmatterField(
       record.frontmatterIconField,
@@ -68,6 +73,7 @@ export function sanitizeNotebookNavigatorRuleSettings(raw: unknown): NotebookNav
     rules: sanitizeRules(record.rules),
     smartSort: sanitizeSmartSort(migratedSmartSort),
     hideRules: sanitizeHideRules(record.hideRules),
+    actionRules: sanitizeActionRules(record.actionRules),
   };
 }
 
@@ -87,6 +93,63 @@ function sanitizeHideRules(rawRules: unknown): HideRule[] {
   });
 }
 
+function sanitizeActionRules(rawRules: unknown): ActionRule[] {
+  if (!Array.isArray(rawRules)) return [];
+  return rawRules.map((rawRule): ActionRule => {
+    const record = asRecord(rawRule);
+    return {
+      id: normalizeString(record.id, createRuleId()),
+      name: normalizeOptionalString(record.name),
+      enabled: asBoolean(record.enabled, true),
+      match: normalizeMatchMode(record.match),
+      conditions: sanitizeConditions(record.conditions),
+      actions: sanitizeRuleActions(record.actions),
+    };
+  });
+}
+
+// Blank values are kept so a half-filled action survives a reload; the rule
+// service skips them when applying.
+function sanitizeRuleActions(rawActions: unknown): RuleAction[] {
+  if (!Array.isArray(rawActions)) return [];
+  const actions: RuleAction[] = [];
+  for (const rawAction of rawActions) {
+    const record = asRecord(rawAction);
+    switch (record.type) {
+      case 'set-property':
+      case 'clear-property': {
+        const key = normalizeFrontmatterField(record.key, '');
+        if (PROTECTED_FRONTMATTER_KEYS.has(key.toLowerCase())) {
+          logger.warn('[TPS GCM] Dropped action rule write to protected frontmatter field', { key });
+          continue;
+        }
+        actions.push(record.type === 'set-property'
+          ? { type: 'set-property', key, value: String(record.value ?? '') }
+          : { type: 'clear-property', key });
+        break;
+      }
+      case 'add-tag':
+      case 'remove-tag':
+        actions.push({ type: record.type, tag: normalizeOptionalString(record.tag).replace(/^#+/, '') });
+        break;
+      case 'move-to-folder': {
+        const folder = normalizeOptionalString(record.folder);
+        actions.push({ type: 'move-to-folder', folder: folder === '/' ? '/' : normalizePathPrefix(folder) });
+        break;
+      }
+      case 'set-status':
+        actions.push({ type: 'set-status', status: normalizeOptionalString(record.status) });
+        break;
+      case 'link-parent':
+        actions.push({ type: 'link-parent', parent: normalizeOptionalString(record.parent) });
+        break;
+      default:
+        break;
+    }
+  }
+  return actions;
+}
+
 function sanitizeRules(rawRules: unknown): IconColorRule[] {
   if (!Array.isArray(rawRules)) return [];
   return rawRules.map((rawRule): IconColorRule => {
@@ -1,6 +1,7 @@
 import { TFile, normalizePath } from 'obsidian';
 import type TPSGlobalContextMenuPlugin from '../main';
 import { buildParentFrontmatterLinkValue, resolveLinkValueToFile } from '../handlers/parent-link-format';
+import type { FilePropertiesMutationCause } from './file-properties-service';
 import type { ParentLinkKind, ResolvedParentLink } from './subitem-types';
 import {
   matchesParentChildIgnoreRule,
@@ -89,11 +90,36 @@ export class ParentLinkResolutionService {
     return Array.from(results.values());
   }
 
+  /** Stored parent values that no longer resolve to a file. */
+  getUnresolvedParentValues(childFile: TFile): string[] {
+    const values = this.getParentValuesFromFrontmatter(this.getLogicalFrontmatter(childFile));
+    return values.filter((value) => !(resolveLinkValueToFile(this.plugin.app, value, childFile.path) instanceof TFile));
+  }
+
+  /** Drops parent values that no longer resolve, keeping every working link. Returns how many were removed. */
+  async removeUnresolvedParentValues(childFile: TFile, cause?: FilePropertiesMutationCause): Promise<number> {
+    let removed = 0;
+    await this.plugin.frontmatterMutationService.process(childFile, (fm) => {
+      const frontmatter = fm as Record<string, unknown>;
+      for (const alias of this.getParentKeyAliases()) {
+        const existingKey = Object.keys(frontmatter).find((candidate) => candidate.toLowerCase() === alias.toLowerCase());
+        if (!existingKey) continue;
+        const values = this.normalizeFrontmatterValues(frontmatter[existingKey]);
+        const kept = values.filter((value) => resolveLinkValueToFile(this.plugin.app, value, childFile.path) instanceof TFile);
+        if (kept.length === values.length) continue;
+        removed += values.length - kept.length;
+        if (kept.length === 0) delete frontmatter[existingKey];
+        else frontmatter[existingKey] = Array.isArray(frontmatter[existingKey]) || kept.length > 1 ? kept : kept[0];
+      }
+    }, cause ?? this.getSyncCause());
+    return removed;
+  }
+
   hasParent(childFile: TFile, parentFile: TFile): boolean {
     return this.getParentsForChild(childFile).some((entry) => entry.file.path === parentFile.path);
   }
 
-  async addParentToChild(childFile: TFile, parentFile: TFile): Promise<boolean> {
+  async addParentToChild(childFile: TFile, parentFile: TFile, cause?: FilePropertiesMutationCause): Promise<boolean> {
     if (this.isIgnoredFile(childFile) || this.isIgnoredFile(parentFile)) return false;
     const key = this.getParentKey();
     const linkValue = buildParentFrontmatterLinkValue(this.plugin.app, parentFile, childFile.path);
@@ -132,13 +158,13 @@ export class ParentLinkResolutionService {
       this.deleteParentAliasKeys(fm as Record<string, unknown>);
       this.setCaseInsensitive(fm as Record<string, unknown>, key, deduped);
       changed = true;
-    });
+    }, cause ?? this.getSyncCause());
 
-    const selfChanged = await this.ensureSelfLinkForParent(parentFile);
+    const selfChanged = await this.ensureSelfLinkForParent(parentFile, cause);
     return changed || selfChanged;
   }
 
-  async ensureSelfLinkForParent(parentFile: TFile): Promise<boolean> {
+  async ensureSelfLinkForParent(parentFile: TFile, cause?: FilePropertiesMutationCause): Promise<boolean> {
     if (!this.plugin.settings.autoSelfLinkParentInParentKey) return false;
     if (!(parentFile instanceof TFile) || parentFile.extension?.toLowerCase() !== 'md') return false;
     if (this.isIgnoredFile(parentFile)) return false;
@@ -176,12 +202,12 @@ export class ParentLinkResolutionService {
       this.deleteParentAliasKeys(fm as Record<string, unknown>);
       this.setCaseInsensitive(fm as Record<string, unknown>, key, deduped);
       changed = true;
-    });
+    }, cause ?? this.getSyncCause());
 
     return changed;
   }
 
-  async removeParentFromChild(childFile: TFile, parentFile: TFile): Promise<boolean> {
+  async removeParentFromChild(childFile: TFile, parentFile: TFile, cause?: FilePropertiesMutationCause): Promise<boolean> {
     const key = this.getParentKey();
     let changed = false;
 
@@ -197,11 +223,20 @@ export class ParentLinkResolutionService {
       } else {
         (fm as Record<string, unknown>)[key] = filtered;
       }
-    });
+    }, cause ?? this.getSyncCause());
 
     return changed;
   }
 
+  /**
+   * Parent links are kept in step with body links and other plugins by GCM
+   * itself, so writes without an explicit cause are automation: they stay out
+   * of item history and never mint a tpsId.
+   */
+  private getSyncCause(): FilePropertiesMutationCause {
+    return { kind: 'automation', sourcePluginId: this.plugin.manifest.id, surface: 'parent-link-sync' };
+  }
+
   resolveFilesFromFrontmatterValue(value: unknown, sourcePath: string): TFile[] {
     const values = this.normalizeFrontmatterValues(value);
     const files = new Map<string, TFile>();
@@ -0,0 +1,190 @@
+/**
+ * Relationship graph around one note: its ancestors (parent chain), siblings
+ * (other children of its direct parents), children and the notes that link to
+ * it. The core walks an async source so it stays free of Obsidian APIs.
+ */
+
+export type RelationshipGraphRelation = 'root' | 'ancestor' | 'sibling' | 'child' | 'linked';
+
+/** Where a relationship was found. */
+export type RelationshipGraphVia = 'parent-key' | 'body-link' | 'linked-context';
+
+/** Status bucket used for node colors. */
+export type RelationshipGraphStatusState = 'done' | 'active' | 'other' | 'none';
+
+export interface RelationshipGraphLink {
+  path: string;
+  via: RelationshipGraphVia;
+}
+
+export interface RelationshipGraphNodeInfo {
+  title: string;
+  status: string;
+  statusState: RelationshipGraphStatusState;
+}
+
+export interface RelationshipGraphSource {
+  getParents(path: string): Promise<RelationshipGraphLink[]>;
+  getChildren(path: string): Promise<RelationshipGraphLink[]>;
+  /** Notes whose body links to `path`. */
+  getLinkedSources(path: string): Promise<string[]>;
+  describe(path: string): RelationshipGraphNodeInfo;
+}
+
+export interface RelationshipGraphNode extends RelationshipGraphNodeInfo {
+  path: string;
+  relation: RelationshipGraphRelation;
+  /** Ancestor level: 1 for a parent, 2 for a grandparent. 0 for every other node. */
+  depth: number;
+}
+
+export interface RelationshipGraphEdge {
+  from: string;
+  to: string;
+  via: RelationshipGraphVia[];
+}
+
+export interface RelationshipGraph {
+  root: RelationshipGraphNode;
+  nodes: RelationshipGraphNode[];
+  edges: RelationshipGraphEdge[];
+  /** Nodes left out per relation because of `maxPerGroup`. */
+  hidden: Partial<Record<RelationshipGraphRelation, number>>;
+}
+
+export interface RelationshipGraphOptions {
+  ancestorDepth?: number;
+  maxPerGroup?: number;
+  includeLinked?: boolean;
+}
+
+export interface RelationshipGraphLayoutNode {
+  node: RelationshipGraphNode;
+  x: number;
+  y: number;
+}
+
+export interface RelationshipGraphLayout {
+  width: number;
+  height: number;
+  nodes: RelationshipGraphLayoutNode[];
+}
+
+export async function collectRelationshipGraph(
+  rootPath: string,
+  source: RelationshipGraphSource,
+  options: RelationshipGraphOptions = {},
+): Promise<RelationshipGraph> {
+  const ancestorDepth = Math.max(0, options.ancestorDepth ?? 2);
+  const maxPerGroup = Math.max(1, options.maxPerGroup ?? 12);
+  const nodes = new Map<string, RelationshipGraphNode>();
+  const edges = new Map<string, RelationshipGraphEdge>();
+  const hidden: Partial<Record<RelationshipGraphRelation, number>> = {};
+  const counts = new Map<RelationshipGraphRelation, number>();
+
+  const addNode = (path: string, relation: RelationshipGraphRelation, depth = 0): boolean => {
+    if (nodes.has(path)) return true;
+    const count = counts.get(relation) ?? 0;
+    if (relation !== 'root' && count >= maxPerGroup) {
+      hidden[relation] = (hidden[relation] ?? 0) + 1;
+      return false;
+    }
+    counts.set(relation, count + 1);
+    nodes.set(path, { path, relation, depth, ...source.describe(path) });
+    return true;
+  };
+  const addEdge = (from: string, to: string, via: RelationshipGraphVia) => {
+    const key = `${from}\n${to}`;
+    const edge = edges.get(key);
+    if (!edge) edges.set(key, { from, to, via: [via] });
+    else if (!edge.via.includes(via)) edge.via.push(via);
+  };
+
+  addNode(rootPath, 'root');
+  const directParents: string[] = [];
+  let frontier = [rootPath];
+  for (let level = 1; level <= ancestorDepth && frontier.length > 0; level += 1) {
+    const next: string[] = [];
+    for (const childPath of frontier) {
+      for (const parent of sortLinks(await source.getParents(childPath))) {
+        if (parent.path === childPath) continue;
+        const known = nodes.has(parent.path);
+        if (!addNode(parent.path, 'ancestor', level)) continue;
+        addEdge(parent.path, childPath, parent.via);
+        if (level === 1 && !directParents.includes(parent.path)) directParents.push(parent.path);
+        if (!known) next.push(parent.path);
+      }
+    }
+    frontier = next;
+  }
+
+  for (const child of sortLinks(await source.getChildren(rootPath))) {
+    if (child.path === rootPath) continue;
+    if (addNode(child.path, 'child')) addEdge(rootPath, child.path, child.via);
+  }
+
+  for (const parentPath of directParents) {
+    for (const sibling of sortLinks(await source.getChildren(parentPath))) {
+      if (sibling.path === rootPath || sibling.path === parentPath) continue;
+      const existing = nodes.get(sibling.path);
+      // A sibling that is also a child or ancestor keeps its closer relation.
+      if (existing && existing.relation !== 'sibling') continue;
+      if (addNode(sibling.path, 'sibling')) addEdge(parentPath, sibling.path, sibling.via);
+    }
+  }
+
+  if (options.includeLinked !== false) {
+    for (const sourcePath of [...new Set(await source.getLinkedSources(rootPath))].sort()) {
+      if (nodes.has(sourcePath)) continue;
+      if (addNode(sourcePath, 'linked')) addEdge(sourcePath, rootPath, 'linked-context');
+    }
+  }
+
+  const root = nodes.get(rootPath)!;
+  return {
+    root,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()].filter((edge) => nodes.has(edge.from) && nodes.has(edge.to)),
+    hidden,
+  };
+}
+
+/**
+ * Places nodes in rows: the oldest ancestors on top, then parents, the note
+ * between its siblings, its children, and linking notes at the bottom.
+ */
+export function layoutRelationshipGraph(
+  graph: RelationshipGraph,
+  spacing: { column: number; row: number; margin: number } = { column: 96, row: 72, margin: 48 },
+): RelationshipGraphLayout {
+  const byTitle = (left: RelationshipGraphNode, right: RelationshipGraphNode) =>
+    left.title.localeCompare(right.title, undefined, { sensitivity: 'base' }) || left.path.localeCompare(right.path);
+  const rows: RelationshipGraphNode[][] = [];
+  const maxDepth = graph.nodes.reduce((max, node) => (node.relation === 'ancestor' ? Math.max(max, node.depth) : max), 0);
+  for (let depth = maxDepth; depth >= 1; depth -= 1) {
+    rows.push(graph.nodes.filter((node) => node.relation === 'ancestor' && node.depth === depth).sort(byTitle));
+  }
+  const siblings = graph.nodes.filter((node) => node.relation === 'sibling').sort(byTitle);
+  const half = Math.ceil(siblings.length / 2);
+  rows.push([...siblings.slice(0, half), graph.root, ...siblings.slice(half)]);
+  for (const relation of ['child', 'linked'] as const) {
+    const row = graph.nodes.filter((node) => node.relation === relation).sort(byTitle);
+    if (row.length > 0) rows.push(row);
+  }
+
+  const columns = Math.max(1, ...rows.map((row) => row.length));
+  const width = spacing.margin * 2 + (columns - 1) * spacing.column;
+  const nodes: RelationshipGraphLayoutNode[] = [];
+  rows.forEach((row, rowIndex) => {
+    const rowWidth = (row.length - 1) * spacing.column;
+    const start = (width - rowWidth) / 2;
+    row.forEach((node, index) => {
+      nodes.push({ node, x: start + index * spacing.column, y: spacing.margin + rowIndex * spacing.row });
+    });
+  });
+  return { width, height: spacing.margin * 2 + (rows.length - 1) * spacing.row, nodes };
+}
+
+function sortLinks(links: RelationshipGraphLink[]): RelationshipGraphLink[] {
+  return [...links].sort((left, right) => left.path.localeCompare(right.path));
+}
@@ -0,0 +1,125 @@
+import { TFile } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import {
+  collectRelationshipGraph,
+  type RelationshipGraph,
+  type RelationshipGraphLink,
+  type RelationshipGraphNodeInfo,
+  type RelationshipGraphOptions,
+  type RelationshipGraphSource,
+} from './relationship-graph-core';
+
+/**
+ * Builds the relationship graph shown in the Relationships view from the same
+ * sources the rest of GCM uses: the parent-link frontmatter key, subitem links
+ * in note bodies, and the backlinks behind the linked context panel.
+ */
+export class RelationshipGraphService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  async build(file: TFile, options?: RelationshipGraphOptions): Promise<RelationshipGraph> {
+    const startedAt = Date.now();
+    const graph = await collectRelationshipGraph(file.path, this.createSource(), options);
+    logger.flow('RelationshipGraph', 'build', {
+      path: file.path,
+      nodes: graph.nodes.length,
+      edges: graph.edges.length,
+      ms: Date.now() - startedAt,
+    });
+    return graph;
+  }
+
+  private createSource(): RelationshipGraphSource {
+    const resolution = this.plugin.parentLinkResolutionService;
+    // Frontmatter only records child → parent, so children need one pass over
+    // the vault. It is built on first use and lives for one graph build.
+    let frontmatterChildren: Map<string, string[]> | null = null;
+    const getFrontmatterChildren = (parentPath: string): string[] => {
+      if (!frontmatterChildren) {
+        frontmatterChildren = new Map();
+        for (const child of resolution.getRelationshipCandidates()) {
+          for (const parent of resolution.getParentsForChild(child)) {
+            const list = frontmatterChildren.get(parent.file.path) ?? [];
+            list.push(child.path);
+            frontmatterChildren.set(parent.file.path, list);
+          }
+        }
+      }
+      return frontmatterChildren.get(parentPath) ?? [];
+    };
+    // Backlinks come from the same kind of vault-wide pass over resolvedLinks.
+    let backlinkSources: Map<string, TFile[]> | null = null;
+    const getBacklinkSources = (file: TFile): TFile[] => {
+      if (!backlinkSources) backlinkSources = this.collectBacklinkSources();
+      return backlinkSources.get(file.path) ?? [];
+    };
+
+    return {
+      getParents: async (path) => {
+        const file = this.getFile(path);
+        if (!file) return [];
+        const links: RelationshipGraphLink[] = resolution.getParentsForChild(file)
+          .map((parent) => ({ path: parent.file.path, via: 'parent-key' as const }));
+        const references = await this.plugin.subitemReferenceIndexService
+          .getReferencesForChild(file, getBacklinkSources(file));
+        for (const reference of references) links.push({ path: reference.parentPath, via: 'body-link' });
+        return links;
+      },
+      getChildren: async (path) => {
+        const file = this.getFile(path);
+        if (!file || resolution.isIgnoredFile(file)) return [];
+        const links: RelationshipGraphLink[] = getFrontmatterChildren(path)
+          .map((childPath) => ({ path: childPath, via: 'parent-key' as const }));
+        for (const link of await this.plugin.bodySubitemLinkService.scanFile(file)) {
+          if (resolution.isIgnoredFile(link.childFile)) continue;
+          links.push({ path: link.childPath, via: 'body-link' });
+        }
+        return links;
+      },
+      getLinkedSources: async (path) => {
+        const file = this.getFile(path);
+        return file ? getBacklinkSources(file).map((source) => source.path) : [];
+      },
+      describe: (path) => this.describe(path),
+    };
+  }
+
+  private describe(path: string): RelationshipGraphNodeInfo {
+    const file = this.getFile(path);
+    if (!file) return { title: path, status: '', statusState: 'none' };
+    const frontmatter = this.plugin.parentLinkResolutionService.getLogicalFrontmatter(file);
+    const statusService = this.plugin.sharedServices.status;
+    const status = statusService.getStatuses(frontmatter)[0] || '';
+    const title = String(frontmatter.title || '').trim() || file.basename;
+    if (!status) return { title, status, statusState: 'none' };
+    const statusState = statusService.isDoneStatus(status)
+      ? 'done'
+      : statusService.isActiveStatus(status) ? 'active' : 'other';
+    return { title, status, statusState };
+  }
+
+  /** Maps each target path to the Markdown notes that link to it. */
+  private collectBacklinkSources(): Map<string, TFile[]> {
+    const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks || {};
+    const sources = new Map<string, TFile[]>();
+    for (const [sourcePath, targets] of Object.entries(resolvedLinks)) {
+      const source = this.getFile(sourcePath);
+      if (!source || source.extension !== 'md') continue;
+      if (this.plugin.filePropertiesService?.isCompanionFile(source)) continue;
+      if (this.plugin.parentLinkResolutionService.isIgnoredFile(source)) continue;
+      for (const [targetPath, count] of Object.entries(targets || {})) {
+        if (targetPath === sourcePath || !(count > 0)) continue;
+        const list = sources.get(targetPath) ?? [];
+        list.push(source);
+        sources.set(targetPath, list);
+      }
+    }
+    return sources;
+  }
+
+  private getFile(path: string): TFile | null {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  }
+}
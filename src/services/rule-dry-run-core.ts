@@ -0,0 +1,81 @@
+import type { RuleAction } from '../types';
+
+export interface RuleDryRunChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RuleDryRunFile {
+  path: string;
+  changes: RuleDryRunChange[];
+  /** Moves and parent links, which happen outside the note's frontmatter. */
+  fileActions: RuleAction[];
+}
+
+export interface RuleDryRunReport {
+  ranAt: Date;
+  scanned: number;
+  files: RuleDryRunFile[];
+  /** Notes matched by `frontmatterWriteExclusions`; rules never write to them. */
+  excluded: string[];
+}
+
+/** Lists the keys whose value differs, in the order the note has them. */
+export function diffRuleOutputs(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): RuleDryRunChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys
+    .filter((key) => key !== 'position' && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({ key, before: before[key], after: after[key] }));
+}
+
+export function formatRuleDryRunValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  if (Array.isArray(value)) return value.length > 0 ? value.map((entry) => String(entry)).join(', ') : '(none)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function describeRuleFileAction(action: RuleAction): string {
+  if (action.type === 'move-to-folder') return `Move to ${action.folder || '/'}`;
+  if (action.type === 'link-parent') return `Link parent ${action.parent}`;
+  return action.type;
+}
+
+export function formatRuleDryRunReport(report: RuleDryRunReport): string {
+  const lines = [
+    `Rule dry run: ${formatRuleDryRunTimestamp(report.ranAt)}`,
+    '',
+    `Scanned ${report.scanned} ${report.scanned === 1 ? 'note' : 'notes'}. `
+      + `${report.files.length} would change and ${report.excluded.length} ${report.excluded.length === 1 ? 'is' : 'are'} excluded from rule writes.`,
+  ];
+  if (report.files.length > 0) {
+    lines.push('', '## Would change', '', '| Note | Property | Before | After |', '| --- | --- | --- | --- |');
+    for (const file of report.files) {
+      const link = `[[${file.path}]]`;
+      for (const change of file.changes) {
+        lines.push(`| ${link} | ${escapeMarkdownCell(change.key)} | ${escapeMarkdownCell(formatRuleDryRunValue(change.before))} | ${escapeMarkdownCell(formatRuleDryRunValue(change.after))} |`);
+      }
+      for (const action of file.fileActions) {
+        lines.push(`| ${link} | ${escapeMarkdownCell(describeRuleFileAction(action))} | | |`);
+      }
+    }
+  }
+  if (report.excluded.length > 0) {
+    lines.push('', '## Excluded from rule writes', '');
+    for (const path of report.excluded) lines.push(`- [[${path}]]`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatRuleDryRunTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
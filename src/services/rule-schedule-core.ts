@@ -0,0 +1,109 @@
+import type { NotebookNavigatorRuleSettings, RuleCondition } from '../types';
+
+const DATE_OPERATORS = new Set<string>([
+  'is-today',
+  '!is-today',
+  'is-before-today',
+  '!is-before-today',
+  'is-after-today',
+  '!is-after-today',
+  'within-next-days',
+  '!within-next-days',
+]);
+
+const ROLLOVER_TIME = '00:00';
+
+/**
+ * Which notes a scheduled sweep has to revisit. Conditions on a frontmatter
+ * date only change outcome for notes that have that key; any other source
+ * (created/modified dates, parent frontmatter) can change for every note.
+ */
+export interface DateRuleScope {
+  fields: string[];
+  allFiles: boolean;
+}
+
+export interface RuleSweepSlot {
+  at: Date;
+  time: string;
+  /** False for the implicit day-rollover slot. */
+  configured: boolean;
+}
+
+export function isDateSensitiveCondition(condition: Pick<RuleCondition, 'operator'>): boolean {
+  return DATE_OPERATORS.has(String(condition?.operator || ''));
+}
+
+/** Returns null when no enabled rule compares a date against today. */
+export function collectDateRuleScope(settings: NotebookNavigatorRuleSettings | null | undefined): DateRuleScope | null {
+  if (!settings) return null;
+  const conditions: RuleCondition[] = [];
+  const addRules = (rules: Array<{ enabled: boolean; conditions: RuleCondition[] }> | undefined) => {
+    for (const rule of rules || []) {
+      if (rule.enabled) conditions.push(...(rule.conditions || []));
+    }
+  };
+  addRules(settings.rules);
+  addRules(settings.hideRules);
+  addRules(settings.actionRules);
+  if (settings.smartSort?.enabled) {
+    for (const bucket of settings.smartSort.buckets || []) {
+      if (!bucket.enabled) continue;
+      conditions.push(...(bucket.conditions || []));
+      for (const group of bucket.conditionGroups || []) conditions.push(...(group.conditions || []));
+    }
+  }
+
+  const fields = new Set<string>();
+  let allFiles = false;
+  let found = false;
+  for (const condition of conditions) {
+    if (!isDateSensitiveCondition(condition)) continue;
+    found = true;
+    const field = String(condition.field || '').trim().toLowerCase();
+    if (condition.source === 'frontmatter' && field) {
+      fields.add(field);
+    } else {
+      allFiles = true;
+    }
+  }
+  return found ? { fields: [...fields].sort(), allFiles } : null;
+}
+
+/** True when a date condition could evaluate differently for this note tomorrow. */
+export function fileNeedsDateSweep(scope: DateRuleScope, frontmatter: Record<string, unknown> | null | undefined): boolean {
+  if (scope.allFiles) return true;
+  if (!frontmatter) return false;
+  return Object.keys(frontmatter).some((key) => scope.fields.includes(key.trim().toLowerCase()));
+}
+
+/** Parses a comma- or space-separated list of `HH:mm` times, dropping invalid entries. */
+export function parseRuleSweepTimes(raw: unknown): string[] {
+  const times = new Set<string>();
+  for (const entry of String(raw ?? '').split(/[\s,;]+/u)) {
+    const match = /^(\d{1,2}):(\d{2})$/u.exec(entry.trim());
+    if (!match) continue;
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    if (hour > 23 || minute > 59) continue;
+    times.add(`${String(hour).padStart(2, '0')}:${match[2]}`);
+  }
+  return [...times].sort();
+}
+
+/** The first slot after `now`: the day rollover or one of the configured times, in local time. */
+export function getNextRuleSweepSlot(now: Date, times: readonly string[]): RuleSweepSlot {
+  const slots = [...new Set([ROLLOVER_TIME, ...times])].sort();
+  for (const dayOffset of [0, 1]) {
+    for (const time of slots) {
+      const [hour, minute] = time.split(':').map(Number);
+      const at = new Date(now.getFullYear(), now.getMonth(), now.getDate() + dayOffset, hour, minute, 0, 0);
+      if (at.getTime() > now.getTime()) {
+        return { at, time, configured: times.includes(time) };
+      }
+    }
+  }
+  // Unreachable: tomorrow's rollover is always after now.
+  const at = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return { at, time: ROLLOVER_TIME, configured: times.includes(ROLLOVER_TIME) };
+}
@@ -7,6 +7,7 @@ import {
   parseLinksFromFrontmatterValue,
   resolveLinkTargetToFile,
 } from '../link-target-service';
+import type { FilePropertiesMutationCause } from '../file-properties-service';
 import type { ResolvedParentLink } from '../subitem-types';
 import { SharedScheduleService } from './schedule-service';
 import { SharedStatusService } from './status-service';
@@ -60,21 +61,27 @@ export function createSharedServices(plugin: TPSGlobalContextMenuPlugin) {
       parseLinksFromFrontmatterValue(plugin.app, value, sourcePath),
   };
 
+  // Shared services are called by sibling plugins, never by a user gesture here.
+  const automationCause: FilePropertiesMutationCause = {
+    kind: 'automation',
+    sourcePluginId: plugin.manifest.id,
+    surface: 'shared-services',
+  };
   const frontmatter = {
     process: (file: TFile, mutator: FrontmatterMutator) =>
-      plugin.frontmatterMutationService.process(file, mutator),
+      plugin.frontmatterMutationService.process(file, mutator, automationCause),
     setValues: (files: TFile[], updates: Record<string, unknown>) =>
-      plugin.frontmatterMutationService.updateValues(files, updates),
+      plugin.frontmatterMutationService.updateValues(files, updates, automationCause),
     setListValues: (files: TFile[], key: string, values: unknown[]) =>
-      plugin.frontmatterMutationService.setListValues(files, key, values),
+      plugin.frontmatterMutationService.setListValues(files, key, values, automationCause),
     addListValues: (files: TFile[], key: string, values: unknown[]) =>
-      plugin.frontmatterMutationService.addValuesToList(files, key, values),
+      plugin.frontmatterMutationService.addValuesToList(files, key, values, automationCause),
     removeListValues: (files: TFile[], key: string, values: unknown[]) =>
-      plugin.frontmatterMutationService.removeValuesFromList(files, key, values),
+      plugin.frontmatterMutationService.removeValuesFromList(files, key, values, automationCause),
     setDateValue: (files: TFile[], key: string, value: string | null) =>
-      plugin.frontmatterMutationService.setDateValue(files, key, value),
+      plugin.frontmatterMutationService.setDateValue(files, key, value, automationCause),
     deleteKeys: (files: TFile[], keys: string[]) =>
-      plugin.frontmatterMutationService.deleteKeys(files, keys),
+      plugin.frontmatterMutationService.deleteKeys(files, keys, automationCause),
     findKey: (record: Record<string, unknown>, key: string) => findKeyCaseInsensitive(record, key),
     setValue: (record: Record<string, unknown>, key: string, value: unknown) =>
       setValueCaseInsensitive(record, key, value),
@@ -3,6 +3,7 @@ import type TPSGlobalContextMenuPlugin from '../../main';
 import { STATUSES } from '../../constants';
 import { findKeyCaseInsensitive, setValueCaseInsensitive, deleteValueCaseInsensitive } from '../../core';
 import { setCompletedDateValue } from '../../utils/completed-date-utils';
+import type { FilePropertiesMutationCause } from '../file-properties-service';
 import {
   findRelationalStatusProperty,
   propertyUsesEntityOptions,
@@ -162,29 +163,40 @@ export class SharedStatusService {
     return token ? token.slice(1, -1) || ' ' : '';
   }
 
-  async setFileStatus(file: TFile, status: string | null): Promise<boolean> {
-    const statusKey = this.getStatusPropertyKey();
-    const normalized = status == null ? null : this.normalize(status);
-    const completedDateKey = 'completedDate';
-
+  async setFileStatus(file: TFile, status: string | null, cause?: FilePropertiesMutationCause): Promise<boolean> {
     const changed = await this.plugin.frontmatterMutationService.process(file, (frontmatter) => {
-      if (normalized == null || normalized === '') {
-        deleteValueCaseInsensitive(frontmatter, statusKey);
-        deleteValueCaseInsensitive(frontmatter, completedDateKey);
-        return;
-      }
-
-      setValueCaseInsensitive(frontmatter, statusKey, normalized);
-      if (this.isDoneStatus(normalized)) {
-        setCompletedDateValue(frontmatter);
-      } else {
-        deleteValueCaseInsensitive(frontmatter, completedDateKey);
-      }
-    });
+      this.applyStatusToFrontmatter(frontmatter, status);
+    }, cause);
 
     if (changed) {
       this.plugin.eventService.emitFilesUpdated([file.path]);
     }
     return changed;
   }
+
+  /**
+   * Writes a status into frontmatter and keeps `completedDate` in step: it is
+   * stamped when the status becomes done and removed when the status is
+   * cleared or not done. A note that already had this done status keeps its
+   * date, so re-applying the status (as rules do on every pass) never restamps it.
+   */
+  applyStatusToFrontmatter(frontmatter: Record<string, unknown>, status: string | null): void {
+    const statusKey = this.getStatusPropertyKey();
+    const completedDateKey = 'completedDate';
+    const normalized = status == null ? null : this.normalize(status);
+    if (normalized == null || normalized === '') {
+      deleteValueCaseInsensitive(frontmatter, statusKey);
+      deleteValueCaseInsensitive(frontmatter, completedDateKey);
+      return;
+    }
+
+    const currentKey = findKeyCaseInsensitive(frontmatter, statusKey);
+    const unchanged = !!currentKey && this.normalize(frontmatter[currentKey]) === normalized;
+    setValueCaseInsensitive(frontmatter, statusKey, normalized);
+    if (!this.isDoneStatus(normalized)) {
+      deleteValueCaseInsensitive(frontmatter, completedDateKey);
+    } else if (!unchanged || !findKeyCaseInsensitive(frontmatter, completedDateKey)) {
+      setCompletedDateValue(frontmatter);
+    }
+  }
 }
@@ -0,0 +1,103 @@
+import * as chrono from 'chrono-node';
+
+/**
+ * Snooze values and the relative expressions that produce them. Values are
+ * stored as local `YYYY-MM-DDTHH:mm:ss` datetimes, the same shape the preset
+ * buttons have always written. Expressions accept minutes (`30`), short
+ * durations (`2h`, `3d`), named anchors from settings (`after standup`), and
+ * anything `chrono-node` understands (`next Monday 9am`).
+ */
+
+export interface SnoozeAnchor {
+  name: string;
+  /** Minutes after local midnight. */
+  minutes: number;
+}
+
+const DURATION_RE = /^(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|wks?|weeks?)$/;
+const ANCHOR_RE = /^\s*([^=:]+?)\s*[=:]\s*(\d{1,2}):(\d{2})\s*$/;
+const VALUE_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 };
+
+/** Reads `name=HH:mm` entries, e.g. `standup=09:30`. */
+export function parseSnoozeAnchors(value: unknown): SnoozeAnchor[] {
+  const entries = Array.isArray(value) ? value : String(value ?? '').split(/[,\n]/);
+  const anchors: SnoozeAnchor[] = [];
+  for (const entry of entries) {
+    const match = String(entry ?? '').match(ANCHOR_RE);
+    if (!match) continue;
+    const hours = Number(match[2]);
+    const minutes = Number(match[3]);
+    if (hours > 23 || minutes > 59) continue;
+    anchors.push({ name: match[1].trim().toLowerCase(), minutes: hours * 60 + minutes });
+  }
+  return anchors;
+}
+
+/** Returns the wake-up time for `input`, or null when it is unreadable or not in the future. */
+export function parseSnoozeExpression(
+  input: string,
+  now: Date,
+  anchors: readonly SnoozeAnchor[] = [],
+): Date | null {
+  const text = String(input ?? '').trim().toLowerCase();
+  if (!text) return null;
+  if (/^\d+$/.test(text)) return addMinutes(now, Number(text));
+
+  const duration = text.replace(/^in\s+/, '').match(DURATION_RE);
+  if (duration) {
+    return addMinutes(now, Number(duration[1]) * UNIT_MINUTES[duration[2][0]]);
+  }
+
+  const anchorName = text.replace(/^(?:after|at)\s+(?:the\s+)?/, '').trim();
+  const anchor = anchors.find((candidate) => candidate.name === anchorName);
+  if (anchor) {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, anchor.minutes);
+    return today.getTime() > now.getTime()
+      ? today
+      : new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 0, anchor.minutes);
+  }
+
+  const parsed = chrono.parseDate(input, now, { forwardDate: true });
+  return parsed && parsed.getTime() > now.getTime() ? parsed : null;
+}
+
+export function formatSnoozeValue(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/** Parses a stored snooze value as local time. Date-only values wake at midnight. */
+export function parseSnoozeValue(raw: unknown): Date | null {
+  const text = String(Array.isArray(raw) ? raw[0] ?? '' : raw ?? '').trim();
+  const match = text.match(VALUE_RE);
+  if (!match) return null;
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+    Number(match[4] ?? 0),
+    Number(match[5] ?? 0),
+    Number(match[6] ?? 0),
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function isSnoozeActive(raw: unknown, now: Date): boolean {
+  const until = parseSnoozeValue(raw);
+  return !!until && until.getTime() > now.getTime();
+}
+
+export function isSnoozeDue(raw: unknown, now: Date): boolean {
+  const until = parseSnoozeValue(raw);
+  return !!until && until.getTime() <= now.getTime();
+}
+
+function addMinutes(date: Date, minutes: number): Date | null {
+  if (!Number.isFinite(minutes) || minutes <= 0) return null;
+  return new Date(date.getTime() + Math.round(minutes * 60_000));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
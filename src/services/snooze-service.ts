@@ -0,0 +1,239 @@
+import { Notice, TFile } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { deleteValueCaseInsensitive, findKeyCaseInsensitive, setValueCaseInsensitive } from '../core';
+import { SnoozeModal } from '../modals/snooze-modal';
+import { createItemHistoryInteractionId, type ItemHistoryUserCause } from './item-history-core';
+import {
+  getTaskDisplayTitle,
+  parseTaskLine,
+  readInlineFieldValue,
+} from '../utils/task-line-metadata';
+import {
+  formatSnoozeValue,
+  isSnoozeActive,
+  isSnoozeDue,
+  parseSnoozeAnchors,
+  parseSnoozeExpression,
+} from './snooze-core';
+
+const WAKE_INTERVAL_MS = 60_000;
+const DEFAULT_SNOOZE_KEY = 'snooze';
+
+const DEFAULT_PRESETS: SnoozePreset[] = [
+  { label: '15 minutes', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: '3 hours', minutes: 180 },
+  { label: '1 day', minutes: 24 * 60 },
+];
+
+export interface SnoozePreset {
+  label: string;
+  minutes: number;
+}
+
+interface WokenItem {
+  path: string;
+  title: string;
+}
+
+/**
+ * Snoozed notes and task lines. A snooze is a future datetime in any `snooze`
+ * property (frontmatter for notes, an inline field for tasks); snoozed items are
+ * hidden from TPS List until it passes. Once a minute, due snoozes are cleared,
+ * the optional wake-up status is applied, and `tps:reminders-updated` fires.
+ */
+export class SnoozeService {
+  private waking = false;
+
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  setup(): void {
+    this.plugin.registerInterval(window.setInterval(() => {
+      void this.wakeDue();
+    }, WAKE_INTERVAL_MS));
+    this.plugin.app.workspace.onLayoutReady(() => {
+      void this.wakeDue();
+    });
+  }
+
+  /**
+   * Keys of the configured `snooze` properties plus the TPS Controller snooze
+   * property, or `snooze` when neither is configured. Used to read snoozes.
+   */
+  getSnoozeKeys(): string[] {
+    const keys = this.getOwnSnoozeKeys();
+    const controllerKey = this.getControllerSnoozeKey();
+    if (controllerKey) keys.push(controllerKey);
+    return Array.from(new Set(keys));
+  }
+
+  /**
+   * Keys of the configured `snooze` properties, or `snooze` when none is
+   * configured. Only these are cleared at wake-up; TPS Controller's property
+   * belongs to that plugin.
+   */
+  getOwnSnoozeKeys(): string[] {
+    const keys = (this.plugin.settings.properties || [])
+      .filter((property) => property?.type === 'snooze' && !property.disabled)
+      .map((property) => String(property.key || '').trim())
+      .filter(Boolean);
+    return keys.length > 0 ? Array.from(new Set(keys)) : [DEFAULT_SNOOZE_KEY];
+  }
+
+  getControllerSnoozeKey(): string {
+    const key = this.getControllerSettings().snoozeProperty;
+    return typeof key === 'string' ? key.trim() : '';
+  }
+
+  /** Preset buttons from TPS Controller, or a small default set. */
+  getPresets(): SnoozePreset[] {
+    const options = this.getControllerSettings().snoozeOptions;
+    const presets = Array.isArray(options)
+      ? options.filter((option: any) => option && Number(option.minutes) > 0)
+        .map((option: any) => ({ label: String(option.label || `${option.minutes} min`), minutes: Number(option.minutes) }))
+      : [];
+    return presets.length > 0 ? presets : DEFAULT_PRESETS;
+  }
+
+  parseExpression(input: string, now = new Date()): Date | null {
+    return parseSnoozeExpression(input, now, parseSnoozeAnchors(this.plugin.settings.snoozeAnchors));
+  }
+
+  isNoteSnoozed(file: TFile | null | undefined, now = new Date()): boolean {
+    if (!file) return false;
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter) return false;
+    return this.getSnoozeKeys().some((key) => {
+      const match = findKeyCaseInsensitive(frontmatter, key);
+      return !!match && isSnoozeActive(frontmatter[match], now);
+    });
+  }
+
+  isLineSnoozed(rawLine: string, now = new Date()): boolean {
+    return this.getSnoozeKeys().some((key) => isSnoozeActive(readInlineFieldValue(rawLine, key), now));
+  }
+
+  /** Opens the snooze picker; `apply` receives the formatted value to write. */
+  openSnoozeModal(heading: string, apply: (value: string, until: Date) => Promise<void>): void {
+    new SnoozeModal(
+      this.plugin.app,
+      heading,
+      this.getPresets(),
+      async (until) => {
+        await apply(formatSnoozeValue(until), until);
+        new Notice(`Snoozed until ${until.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`);
+      },
+      (input) => this.parseExpression(input),
+    ).open();
+  }
+
+  async wakeDue(now = new Date()): Promise<number> {
+    if (this.waking) return 0;
+    this.waking = true;
+    try {
+      const woken = [...await this.wakeNotes(now), ...await this.wakeTaskLines(now)];
+      if (woken.length === 0) return 0;
+      const paths = Array.from(new Set(woken.map((item) => item.path)));
+      logger.flow('Snooze', 'wake:applied', { items: woken.length, files: paths.length });
+      new Notice(woken.length === 1
+        ? `Snooze over: ${woken[0].title}`
+        : `Snooze over for ${woken.length} items: ${woken.slice(0, 3).map((item) => item.title).join(', ')}${woken.length > 3 ? '…' : ''}`);
+      this.plugin.eventService.emitFilesUpdated(paths);
+      this.plugin.eventService.emitRemindersUpdated(paths, { source: 'snooze-wake' });
+      return woken.length;
+    } catch (error) {
+      logger.flowError('Snooze', 'wake:failed', error);
+      return 0;
+    } finally {
+      this.waking = false;
+    }
+  }
+
+  private async wakeNotes(now: Date): Promise<WokenItem[]> {
+    const keys = this.getOwnSnoozeKeys();
+    const woken: WokenItem[] = [];
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      if (this.plugin.filePropertiesService?.isCompanionFile(file)) continue;
+      const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter) continue;
+      const due = keys.filter((key) => {
+        const match = findKeyCaseInsensitive(frontmatter, key);
+        return !!match && isSnoozeDue(frontmatter[match], now);
+      });
+      if (due.length === 0) continue;
+      const wakeStatus = this.getWakeStatus();
+      const status = this.plugin.sharedServices.status;
+      const written = await this.plugin.frontmatterMutationService.process(file, (fm) => {
+        for (const key of due) deleteValueCaseInsensitive(fm, key);
+        const statusKey = status.getStatusPropertyKey();
+        const currentKey = findKeyCaseInsensitive(fm, statusKey);
+        if (wakeStatus && !status.isDoneStatus(currentKey ? fm[currentKey] : '')) {
+          setValueCaseInsensitive(fm, statusKey, wakeStatus);
+        }
+      }, { kind: 'automation', sourcePluginId: this.plugin.manifest.id, surface: 'snooze-wake' });
+      if (written) woken.push({ path: file.path, title: file.basename });
+    }
+    return woken;
+  }
+
+  /**
+   * Clears due task snoozes through the task API, one line at a time, so each
+   * wake-up is recorded in item history under the `snooze-wake` surface.
+   */
+  private async wakeTaskLines(now: Date): Promise<WokenItem[]> {
+    const keys = this.getOwnSnoozeKeys();
+    const paths = new Set<string>();
+    for (const record of this.plugin.entityIndexService.query({})) {
+      if (record.entityType !== 'block' || record.lineKind !== 'task' || !record.lineProperties) continue;
+      const properties = record.lineProperties;
+      const due = Object.keys(properties).some((key) => (
+        keys.some((snoozeKey) => snoozeKey.toLowerCase() === key.toLowerCase())
+        && properties[key].some((value) => isSnoozeDue(value, now))
+      ));
+      if (due) paths.add(record.sourcePath);
+    }
+
+    const woken: WokenItem[] = [];
+    const status = this.plugin.sharedServices.status;
+    const wakeStatus = this.getWakeStatus();
+    const cause: ItemHistoryUserCause = {
+      kind: 'user',
+      sourcePluginId: this.plugin.manifest.id,
+      surface: 'snooze-wake',
+      interactionId: createItemHistoryInteractionId(),
+    };
+    for (const path of paths) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      const lines = (await this.plugin.app.vault.cachedRead(file)).split(/\r?\n/);
+      for (const [lineNumber, rawLine] of lines.entries()) {
+        const parsed = parseTaskLine(rawLine);
+        if (!parsed) continue;
+        const dueKeys = keys.filter((key) => isSnoozeDue(readInlineFieldValue(rawLine, key), now));
+        if (dueKeys.length === 0) continue;
+        const wakes = wakeStatus && !status.isDoneStatus(status.checkboxStateToStatus(parsed.token));
+        const result = await this.plugin.taskApiService.update(
+          { path, lineNumber, rawLine },
+          {
+            fields: Object.fromEntries(dueKeys.map((key) => [key, null])),
+            ...(wakes ? { status: wakeStatus } : {}),
+          },
+          cause,
+        );
+        if (result.ok && result.changed) woken.push({ path, title: getTaskDisplayTitle(rawLine) || file.basename });
+      }
+    }
+    return woken;
+  }
+
+  private getControllerSettings(): Record<string, any> {
+    const plugins = (this.plugin.app as any)?.plugins?.plugins;
+    const controller: any = plugins?.['tps-controller'] || plugins?.['TPS-Controller (Dev)'];
+    return controller?.settings || controller?.api?.getSettings?.() || {};
+  }
+
+  private getWakeStatus(): string {
+    return this.plugin.sharedServices.status.normalize(this.plugin.settings.snoozeWakeStatus);
+  }
+}
@@ -1,7 +1,8 @@
 import { App, Notice, TFile, TFolder, normalizePath, parseYaml } from 'obsidian';
 import type TPSGlobalContextMenuPlugin from '../main';
 import { buildParentFrontmatterLinkValue } from '../handlers/parent-link-format';
-import { CreateSubitemModal } from '../modals/create-subitem-modal';
+import { CreateSubitemModal, type CreateSubitemSelection } from '../modals/create-subitem-modal';
+import type { ChildNoteTemplate } from '../types';
 import { mergeNormalizedTags, parseTagInput } from '../utils/tag-utils';
 import { currentCompletedDateStamp } from '../utils/completed-date-utils';
 import * as logger from '../logger';
@@ -25,6 +26,11 @@ export interface CreateSubitemOptions {
   initialScheduled?: string | null;
   initialTags?: string[];
   initialBody?: string;
+  /**
+   * Properties from a child note template. The title, parent link and any
+   * explicit status or scheduled value still win; template tags are merged.
+   */
+  templateFrontmatter?: Record<string, unknown>;
   suppressCreatedNotice?: boolean;
 }
 
@@ -32,6 +38,7 @@ export async function promptAndCreateSubitemForParent(
   plugin: TPSGlobalContextMenuPlugin,
   parentFile: TFile,
   options?: CreateSubitemOptions,
+  defaultTemplate?: ChildNoteTemplate | null,
 ): Promise<TFile | null> {
   if (!plugin.parentLinkResolutionService.isRelationshipTarget(parentFile)) {
     new Notice('Subitems can only be created under supported relationship items.');
@@ -43,13 +50,29 @@ export async function promptAndCreateSubitemForParent(
   }
 
   const defaultFolderPath = getDefaultSubitemFolderPath(plugin, parentFile);
-  const selection = await new Promise<{ title: string; folderPath: string } | null>((resolve) => {
-    const modal = new CreateSubitemModal(plugin.app, getFolderPathOptions(plugin.app), defaultFolderPath, resolve);
+  const templateService = plugin.childTemplateService;
+  const templates = templateService?.getTemplates() ?? [];
+  const suggestedTemplate = defaultTemplate === undefined
+    ? templateService?.getTemplatesForParent(parentFile)[0] ?? null
+    : defaultTemplate;
+  if (suggestedTemplate && !templates.some((template) => template.id === suggestedTemplate.id)) {
+    templates.push(suggestedTemplate);
+  }
+  const selection = await new Promise<CreateSubitemSelection | null>((resolve) => {
+    const modal = new CreateSubitemModal(plugin.app, getFolderPathOptions(plugin.app), defaultFolderPath, resolve, {
+      templates,
+      defaultTemplateId: suggestedTemplate?.id ?? '',
+    });
     modal.open();
   });
 
   if (!selection) return null;
-  return createSubitemForParentWithTitle(plugin, parentFile, selection.title, selection.folderPath, options);
+  const template = templates.find((candidate) => candidate.id === selection.templateId) ?? null;
+  const templatedOptions = template && templateService
+    ? await templateService.applyToSubitemOptions(template, parentFile, selection.title, options)
+    : options;
+  if (!templatedOptions) return null;
+  return createSubitemForParentWithTitle(plugin, parentFile, selection.title, selection.folderPath, templatedOptions);
 }
 
 export async function createSubitemForParentWithTitle(
@@ -147,7 +170,10 @@ export async function createSubitemForParentWithTitle(
   const initialScheduled = String(options?.initialScheduled || '').trim();
   if (initialScheduled) {
     frontmatterLines.push(`scheduled: ${serializeSimpleYamlProperty('scheduled', initialScheduled)}`);
-  } else if (options?.inheritParentTemporalMetadata !== false && isDailyNoteParent && dailyNoteDateStr) {
+  }
+  const templateFrontmatter = options?.templateFrontmatter || {};
+  frontmatterLines.push(...collectTemplateFrontmatterLines(templateFrontmatter));
+  if (!initialScheduled && options?.inheritParentTemporalMetadata !== false && isDailyNoteParent && dailyNoteDateStr) {
     frontmatterLines.push(`scheduled: ${dailyNoteDateStr}`);
   }
   if (options?.saveFolderPath === true || (options?.saveFolderPath !== false && plugin.settings.autoSaveFolderPath)) {
@@ -183,7 +209,11 @@ export async function createSubitemForParentWithTitle(
       getFrontmatterValueCaseInsensitive(parentFrontmatter, 'tag'),
     ]))
     : [];
-  const initialTags = filterIgnoredSubitemTags(plugin, parseTagInput(options?.initialTags || []));
+  const initialTags = filterIgnoredSubitemTags(plugin, parseTagInput([
+    ...(options?.initialTags || []),
+    getFrontmatterValueCaseInsensitive(templateFrontmatter, 'tags'),
+    getFrontmatterValueCaseInsensitive(templateFrontmatter, 'tag'),
+  ]));
   const seededTags = mergeNormalizedTags(parentTags, initialTags);
   if (seededTags.length > 0) {
     const serializedTags = seededTags.map((tag) => `"${tag.replace(/"/g, '\\"')}"`).join(', ');
@@ -479,6 +509,26 @@ function collectInheritedParentFrontmatterLines(
   return lines;
 }
 
+/**
+ * One line per template property, written as JSON (valid YAML flow values).
+ * Tags are merged with the seeded tags instead.
+ */
+function collectTemplateFrontmatterLines(frontmatter: Record<string, unknown>): string[] {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (!/^[A-Za-z0-9_-]+$/.test(key) || ['tags', 'tag'].includes(key.toLowerCase())) continue;
+    if (value === null || value === undefined) {
+      lines.push(`${key}:`);
+    } else if (typeof value === 'string' && isDateLikeFrontmatterKey(key)) {
+      const serialized = serializeSimpleYamlProperty(key, value);
+      lines.push(serialized ? `${key}: ${serialized}` : `${key}:`);
+    } else {
+      lines.push(`${key}: ${JSON.stringify(value instanceof Date ? value.toISOString().slice(0, 10) : value)}`);
+    }
+  }
+  return lines;
+}
+
 function dedupeFrontmatterLines(lines: string[]): string[] {
   const seen = new Set<string>();
   const output: string[] = [];
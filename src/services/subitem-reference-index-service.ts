@@ -5,10 +5,11 @@ import type { BodySubitemLink } from './subitem-types';
 export class SubitemReferenceIndexService {
   constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
 
-  async getReferencesForChild(childFile: TFile): Promise<BodySubitemLink[]> {
+  /** `sources` limits the scan to those notes, such as the child's backlinks. */
+  async getReferencesForChild(childFile: TFile, sources?: readonly TFile[]): Promise<BodySubitemLink[]> {
     if (this.plugin.parentLinkResolutionService.isIgnoredFile(childFile)) return [];
     const links: BodySubitemLink[] = [];
-    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+    for (const file of sources ?? this.plugin.app.vault.getMarkdownFiles()) {
       if (this.plugin.filePropertiesService?.isCompanionFile(file)) continue;
       if (this.plugin.parentLinkResolutionService.isIgnoredFile(file)) continue;
       const parsed = await this.plugin.bodySubitemLinkService.scanFile(file);
@@ -107,6 +107,12 @@ export interface GcmTaskCreateInput {
   placement?: 'after-frontmatter' | 'end';
   focus?: boolean;
   notice?: boolean;
+  /**
+   * Child note template id, name or path, or `auto` for the template matching
+   * the target note. Its properties become inline fields and tags; explicit
+   * `fields` and `tags` win. Prompts render empty.
+   */
+  template?: string;
 }
 
 export interface GcmTaskUpdateInput {
@@ -219,6 +225,14 @@ export class TaskApiService {
   }
 
   async create(input: GcmTaskCreateInput, cause?: ItemHistoryUserCause): Promise<GcmTaskMutationResult> {
+    if (String(input.template || '').trim()) {
+      const templated = await this.applyChildTemplate(input);
+      if ('error' in templated) {
+        logger.flowWarn('TaskApi', 'create:template-failed', { template: input.template, error: templated.error });
+        return { ok: false, changed: false, task: null, error: templated.error };
+      }
+      input = templated.input;
+    }
     const title = String(input.title || '').replace(/\s+/g, ' ').trim();
     if (!title && !String(input.rawLine || '').trim()) {
       logger.flowWarn('TaskApi', 'create:invalid-input', { hasTitle: !!title, hasRawLine: !!String(input.rawLine || '').trim() });
@@ -1959,6 +1973,46 @@ export class TaskApiService {
     editor.focus?.();
   }
 
+  /** Folds a child note template into the create input as line fields and tags. */
+  private async applyChildTemplate(
+    input: GcmTaskCreateInput,
+  ): Promise<{ input: GcmTaskCreateInput } | { error: string }> {
+    const { template: reference, ...rest } = input;
+    const parent = this.resolveMarkdownFile(input.targetFile) ?? this.resolveMarkdownFile(input.targetPath);
+    let rendered;
+    try {
+      const template = this.plugin.childTemplateService.resolveTemplate(reference, parent);
+      if (!template) return { input: rest };
+      rendered = await this.plugin.childTemplateService.render(template, {
+        title: String(input.title || '').trim(),
+        parent,
+        interactive: false,
+      });
+    } catch (error) {
+      return { error: getErrorMessage(error) };
+    }
+    if (!rendered) return { input: rest };
+    const fields: NonNullable<GcmTaskCreateInput['fields']> = {};
+    const tags: string[] = [];
+    for (const [key, value] of Object.entries(rendered.frontmatter)) {
+      const normalizedKey = key.toLowerCase();
+      if (normalizedKey === 'tags' || normalizedKey === 'tag') {
+        tags.push(...(Array.isArray(value) ? value : [value]).map((tag) => String(tag ?? '').trim()).filter(Boolean));
+      } else if (normalizedKey !== 'title' && value !== null && value !== undefined && typeof value !== 'object') {
+        fields[key] = value as string | number | boolean;
+      } else if (Array.isArray(value) && value.length > 0) {
+        fields[key] = value.map((item) => String(item ?? '')).filter(Boolean).join(', ');
+      }
+    }
+    return {
+      input: {
+        ...rest,
+        fields: { ...fields, ...input.fields },
+        tags: [...tags, ...(input.tags || [])],
+      },
+    };
+  }
+
   /**
    * Canonicalize public API file inputs through this plugin's vault. Obsidian can
    * expose file objects from a different JavaScript realm, where constructor
@@ -0,0 +1,111 @@
+/**
+ * Parsing and graph helpers behind `blockedBy` dependencies. A blocker is
+ * either a wikilink (to a note, or to a task line via `#^blockId`) or a bare
+ * `tpsId`. The same value shape is used in frontmatter lists and inline
+ * `[blockedBy:: ...]` fields.
+ */
+
+export const BLOCKED_BY_KEY = 'blockedBy';
+
+export type BlockerReference =
+  | { kind: 'link'; raw: string; linkpath: string; blockId: string }
+  | { kind: 'id'; raw: string; id: string };
+
+const WIKILINK_RE = /!?\[\[([^[\]]+)\]\]/g;
+
+export function parseBlockerReferences(value: unknown): BlockerReference[] {
+  const references: BlockerReference[] = [];
+  const seen = new Set<string>();
+  const push = (reference: BlockerReference) => {
+    const key = getBlockerReferenceKey(reference);
+    if (seen.has(key)) return;
+    seen.add(key);
+    references.push(reference);
+  };
+  const walk = (candidate: unknown): void => {
+    if (candidate == null) return;
+    if (Array.isArray(candidate)) {
+      candidate.forEach(walk);
+      return;
+    }
+    const text = String(candidate).trim();
+    if (!text) return;
+    for (const match of text.matchAll(WIKILINK_RE)) {
+      const reference = parseWikilinkReference(match[0], match[1]);
+      if (reference) push(reference);
+    }
+    for (const part of text.replace(WIKILINK_RE, ',').split(',')) {
+      const id = part.trim().replace(/^['"]|['"]$/g, '').trim();
+      if (id) push({ kind: 'id', raw: id, id });
+    }
+  };
+  walk(value);
+  return references;
+}
+
+/** Stable identity used to dedupe and remove references regardless of aliases. */
+export function getBlockerReferenceKey(reference: BlockerReference): string {
+  return reference.kind === 'id'
+    ? `id:${reference.id.toLowerCase()}`
+    : `link:${reference.linkpath.toLowerCase()}#^${reference.blockId.toLowerCase()}`;
+}
+
+export function serializeBlockerReferences(references: readonly BlockerReference[]): string[] {
+  return references.map((reference) => reference.raw);
+}
+
+/** Points `id` references to `fromId` at `toId`; null when none matched. */
+export function renameBlockerId(
+  references: readonly BlockerReference[],
+  fromId: string,
+  toId: string,
+): BlockerReference[] | null {
+  const from = fromId.trim().toLowerCase();
+  let renamed = false;
+  const next = references.map((reference): BlockerReference => {
+    if (reference.kind !== 'id' || reference.id.toLowerCase() !== from) return reference;
+    renamed = true;
+    return { kind: 'id', raw: toId, id: toId };
+  });
+  return renamed ? next : null;
+}
+
+/**
+ * Returns the dependency chain that adding `dependent → blocker` would close,
+ * starting and ending at `dependent`, or null when the edge is safe. `edges`
+ * maps each item key to the keys of its blockers.
+ */
+export function findDependencyCycle(
+  edges: ReadonlyMap<string, readonly string[]>,
+  dependent: string,
+  blocker: string,
+): string[] | null {
+  if (dependent === blocker) return [dependent, dependent];
+  const visited = new Set<string>();
+  const walk = (key: string, path: string[]): string[] | null => {
+    if (key === dependent) return path;
+    if (visited.has(key)) return null;
+    visited.add(key);
+    for (const next of edges.get(key) ?? []) {
+      const found = walk(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(blocker, [dependent, blocker]);
+}
+
+/** A holding item moves back to todo once every resolved blocker is done. */
+export function shouldReleaseDependent(status: string, blockersDone: readonly boolean[]): boolean {
+  return status === 'holding' && blockersDone.length > 0 && blockersDone.every(Boolean);
+}
+
+function parseWikilinkReference(raw: string, inner: string): BlockerReference | null {
+  const target = inner.split('|')[0].trim();
+  const hashIndex = target.indexOf('#');
+  const linkpath = (hashIndex >= 0 ? target.slice(0, hashIndex) : target).trim();
+  const subpath = hashIndex >= 0 ? target.slice(hashIndex + 1).trim() : '';
+  const blockId = subpath.startsWith('^') ? subpath.slice(1).trim() : '';
+  if (!linkpath && !blockId) return null;
+  return { kind: 'link', raw: raw.replace(/^!/, ''), linkpath, blockId };
+}
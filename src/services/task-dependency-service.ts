@@ -0,0 +1,473 @@
+import { Notice, TFile } from 'obsidian';
+import type { CachedMetadata } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { findKeyCaseInsensitive, setValueCaseInsensitive, deleteValueCaseInsensitive } from '../core';
+import type { FilePropertiesMutationCause } from './file-properties-service';
+import { openEntitySuggestModal } from '../modals/EntitySuggestModal';
+import type { EntityIndexRecord } from './entity-index-core';
+import type { EntityReferenceChoice } from '../utils/entity-property';
+import {
+  getTaskDisplayTitle,
+  parseTaskLine,
+  readInlineFieldValue,
+  readLineBlockId,
+} from '../utils/task-line-metadata';
+import {
+  BLOCKED_BY_KEY,
+  findDependencyCycle,
+  getBlockerReferenceKey,
+  parseBlockerReferences,
+  serializeBlockerReferences,
+  shouldReleaseDependent,
+  type BlockerReference,
+} from './task-dependency-core';
+
+export interface TaskDependencyTarget {
+  file: TFile;
+  /** Zero-based line index of a task line; omitted for the note itself. */
+  lineIndex?: number;
+  rawLine?: string;
+}
+
+export interface TaskDependencyBlocker {
+  reference: BlockerReference;
+  /** Null when the reference no longer resolves; such blockers never block. */
+  item: DependencyItem | null;
+}
+
+export interface TaskDependencySummary {
+  blockers: TaskDependencyBlocker[];
+  openBlockers: DependencyItem[];
+}
+
+export interface DependencyItem {
+  /** Note path, `path#^blockId`, `id:<tpsId>`, or `path:<line>` for lines without an identity. */
+  key: string;
+  file: TFile;
+  lineIndex: number | null;
+  title: string;
+  status: string;
+  done: boolean;
+  tpsId: string;
+  blockers: BlockerReference[];
+}
+
+/**
+ * `blockedBy` dependencies between notes and task lines. Notes keep the list in
+ * frontmatter, tasks in an inline `[blockedBy:: ...]` field. When the last open
+ * blocker of a `holding` item completes, the item is moved back to `todo`.
+ */
+export class TaskDependencyService {
+  /**
+   * Done item keys per path, so a metadata change can tell which items just
+   * completed. Only files holding a blocker of some dependent are tracked.
+   */
+  private readonly doneKeysByPath = new Map<string, Set<string>>();
+  /** Built on first lookup, then kept current one path at a time. */
+  private tpsIdIndex: Map<string, { path: string; lineIndex: number | null }> | null = null;
+  private readonly tpsIdsByPath = new Map<string, string[]>();
+  private readonly staleIdPaths = new Set<string>();
+
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  setup(): void {
+    const { metadataCache, vault, workspace } = this.plugin.app;
+    this.plugin.registerEvent(metadataCache.on('changed', (file) => {
+      this.staleIdPaths.add(file.path);
+      void this.handleFileChanged(file).catch((error) => {
+        logger.flowError('TaskDependency', 'propagate:failed', error, { path: file.path });
+      });
+    }));
+    this.plugin.registerEvent(vault.on('delete', (file) => {
+      this.staleIdPaths.add(file.path);
+      this.doneKeysByPath.delete(file.path);
+    }));
+    this.plugin.registerEvent(vault.on('rename', (file, oldPath) => {
+      this.staleIdPaths.add(oldPath);
+      this.staleIdPaths.add(file.path);
+      const doneKeys = this.doneKeysByPath.get(oldPath);
+      this.doneKeysByPath.delete(oldPath);
+      if (doneKeys && file instanceof TFile) this.doneKeysByPath.set(file.path, this.getDoneKeys(this.readFileItems(file)));
+    }));
+    workspace.onLayoutReady(() => {
+      this.trackBlockerFiles(this.collectDependents());
+    });
+  }
+
+  getNoteSummary(file: TFile): TaskDependencySummary {
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    return this.summarize(this.readNoteBlockers(frontmatter), file.path);
+  }
+
+  getLineSummary(file: TFile, rawLine: string): TaskDependencySummary {
+    return this.summarize(parseBlockerReferences(readInlineFieldValue(rawLine, BLOCKED_BY_KEY)), file.path);
+  }
+
+  getSummary(target: TaskDependencyTarget): TaskDependencySummary {
+    return target.rawLine !== undefined
+      ? this.getLineSummary(target.file, target.rawLine)
+      : this.getNoteSummary(target.file);
+  }
+
+  /**
+   * Opens the entity picker for a new blocker of `target`. Choices that are
+   * already listed or would close a dependency cycle are refused with a notice.
+   */
+  pickBlocker(
+    target: TaskDependencyTarget,
+    onChoose: (reference: string) => Promise<void>,
+  ): void {
+    const targetKey = this.getTargetKey(target);
+    openEntitySuggestModal(this.plugin.app, this.plugin.entityIndexService, [], async (choice) => {
+      const blockerKey = this.getChoiceKey(choice);
+      const existing = this.getSummary(target).blockers;
+      if (existing.some((blocker) => blocker.item?.key === blockerKey)) {
+        new Notice(`${choice.label} already blocks this item.`);
+        return;
+      }
+      const dependents = this.collectDependents();
+      const cycle = findDependencyCycle(this.buildEdges(dependents), targetKey, blockerKey);
+      if (cycle) {
+        const titles = cycle.map((key) => (
+          key === targetKey
+            ? this.getTargetTitle(target)
+            : dependents.find((item) => item.key === key)?.title || key
+        ));
+        logger.flowWarn('TaskDependency', 'blocker:cycle-refused', { target: targetKey, blocker: blockerKey });
+        new Notice(`Not added: ${titles.join(' → ')} would be a dependency cycle.`);
+        return;
+      }
+      await onChoose(choice.wikilink);
+      logger.flow('TaskDependency', 'blocker:added', { target: targetKey, blocker: blockerKey });
+    }, {
+      allowAnyKind: true,
+      placeholder: 'Choose the note or task that blocks this item…',
+      filter: (entity) => !(
+        target.lineIndex === undefined
+          ? entity.entityType === 'note' && entity.path === target.file.path
+          : entity.entityType === 'block' && entity.sourcePath === target.file.path && entity.lineNumber === target.lineIndex + 1
+      ),
+    });
+  }
+
+  promptAddNoteBlocker(file: TFile): void {
+    this.pickBlocker({ file }, async (reference) => {
+      await this.updateNoteBlockers(
+        file,
+        (references) => [...references, ...parseBlockerReferences(reference)],
+        this.getBlockerEditCause(),
+      );
+    });
+  }
+
+  async removeNoteBlocker(file: TFile, reference: BlockerReference): Promise<void> {
+    const removedKey = getBlockerReferenceKey(reference);
+    await this.updateNoteBlockers(file, (references) => (
+      references.filter((candidate) => getBlockerReferenceKey(candidate) !== removedKey)
+    ), this.getBlockerEditCause());
+  }
+
+  describeItem(item: DependencyItem | null, reference: BlockerReference): string {
+    return item?.title || reference.raw;
+  }
+
+  /** Blockers are added and removed from the note menu. */
+  private getBlockerEditCause(): FilePropertiesMutationCause {
+    return { kind: 'user', sourcePluginId: this.plugin.manifest.id, surface: 'blocked-by' };
+  }
+
+  private async updateNoteBlockers(
+    file: TFile,
+    update: (references: BlockerReference[]) => BlockerReference[],
+    cause: FilePropertiesMutationCause,
+  ): Promise<void> {
+    const changed = await this.plugin.frontmatterMutationService.process(file, (frontmatter) => {
+      const key = findKeyCaseInsensitive(frontmatter, BLOCKED_BY_KEY);
+      const next = serializeBlockerReferences(update(parseBlockerReferences(key ? frontmatter[key] : null)));
+      if (next.length === 0) deleteValueCaseInsensitive(frontmatter, BLOCKED_BY_KEY);
+      else setValueCaseInsensitive(frontmatter, BLOCKED_BY_KEY, next);
+    }, cause);
+    if (changed) this.plugin.eventService.emitFilesUpdated([file.path]);
+  }
+
+  private async handleFileChanged(file: TFile): Promise<void> {
+    if (!this.isCandidateFile(file)) return;
+    const items = this.readFileItems(file);
+    // A blocker added here starts being tracked in its own file.
+    this.trackBlockerFiles(items.filter((item) => item.blockers.length > 0));
+    const previous = this.doneKeysByPath.get(file.path);
+    if (!previous) return;
+    const doneKeys = this.getDoneKeys(items);
+    this.doneKeysByPath.set(file.path, doneKeys);
+    const completed = new Set([...doneKeys].filter((key) => !previous.has(key)));
+    if (completed.size === 0) return;
+
+    let released = 0;
+    for (const dependent of this.collectDependents()) {
+      if (dependent.status !== 'holding') continue;
+      const blockers = dependent.blockers
+        .map((reference) => this.resolveReference(reference, dependent.file.path))
+        .filter((item): item is DependencyItem => item !== null);
+      if (!blockers.some((item) => completed.has(item.key))) continue;
+      if (!shouldReleaseDependent(dependent.status, blockers.map((item) => item.done))) continue;
+      if (await this.releaseDependent(dependent)) released += 1;
+    }
+    if (released > 0) {
+      logger.flow('TaskDependency', 'dependents:released', { path: file.path, released });
+      new Notice(released === 1 ? 'Unblocked 1 item: moved to todo.' : `Unblocked ${released} items: moved to todo.`);
+    }
+  }
+
+  /**
+   * Moves a released item to `todo` through the note and task APIs. The
+   * release follows from another item's completion rather than a gesture on
+   * this one, so it is automation: it stays out of item history and never
+   * mints a tpsId, like a snooze wake-up.
+   */
+  private async releaseDependent(item: DependencyItem): Promise<boolean> {
+    const status = this.plugin.sharedServices.status;
+    if (item.lineIndex === null) {
+      return status.setFileStatus(item.file, 'todo', {
+        kind: 'automation',
+        sourcePluginId: this.plugin.manifest.id,
+        surface: 'dependency-release',
+      });
+    }
+    const content = await this.plugin.app.vault.cachedRead(item.file);
+    const rawLine = content.split(/\r?\n/)[item.lineIndex] ?? '';
+    const parsed = parseTaskLine(rawLine);
+    // Only a line that is still holding is touched; anything else was edited in between.
+    if (!parsed || status.checkboxStateToStatus(parsed.token) !== 'holding') return false;
+    const result = await this.plugin.taskApiService.setStatus(
+      { path: item.file.path, lineNumber: item.lineIndex, rawLine },
+      'todo',
+    );
+    if (!result.ok) {
+      logger.flowWarn('TaskDependency', 'release:failed', { path: item.file.path, error: result.error });
+    }
+    return result.ok && result.changed;
+  }
+
+  private summarize(references: BlockerReference[], sourcePath: string): TaskDependencySummary {
+    const blockers = references.map((reference) => ({
+      reference,
+      item: this.resolveReference(reference, sourcePath),
+    }));
+    return {
+      blockers,
+      openBlockers: blockers
+        .map((blocker) => blocker.item)
+        .filter((item): item is DependencyItem => item !== null && !item.done),
+    };
+  }
+
+  private resolveReference(reference: BlockerReference, sourcePath: string): DependencyItem | null {
+    if (reference.kind === 'id') {
+      const location = this.getTpsIdIndex().get(reference.id.toLowerCase());
+      const file = location ? this.getFile(location.path) : null;
+      if (!file || !location) return null;
+      return location.lineIndex === null ? this.readNoteItem(file) : this.readLineItem(file, location.lineIndex);
+    }
+    const file = reference.linkpath
+      ? this.plugin.sharedServices.links.resolveToFile(reference.linkpath, sourcePath)
+      : this.getFile(sourcePath);
+    if (!file || file.extension !== 'md') return null;
+    if (!reference.blockId) return this.readNoteItem(file);
+    const blocks = this.plugin.app.metadataCache.getFileCache(file)?.blocks;
+    const block = blocks?.[reference.blockId] ?? blocks?.[reference.blockId.toLowerCase()];
+    return block ? this.readLineItem(file, block.position.start.line) : null;
+  }
+
+  private readFileItems(file: TFile): DependencyItem[] {
+    const cache = this.plugin.app.metadataCache.getFileCache(file);
+    const items: DependencyItem[] = [];
+    const note = this.readNoteItem(file, cache);
+    if (note) items.push(note);
+    for (const listItem of cache?.listItems ?? []) {
+      if (listItem.task === undefined) continue;
+      const line = this.readLineItem(file, listItem.position.start.line, cache);
+      if (line) items.push(line);
+    }
+    return items;
+  }
+
+  private readNoteItem(file: TFile, cache = this.plugin.app.metadataCache.getFileCache(file)): DependencyItem | null {
+    const frontmatter = cache?.frontmatter;
+    const status = this.plugin.sharedServices.status.getStatuses(frontmatter)[0] || '';
+    return {
+      key: file.path,
+      file,
+      lineIndex: null,
+      title: file.basename,
+      status,
+      done: this.plugin.sharedServices.status.isDoneStatus(status),
+      tpsId: this.plugin.identityService.getInternalId(frontmatter) || '',
+      blockers: this.readNoteBlockers(frontmatter),
+    };
+  }
+
+  private readLineItem(
+    file: TFile,
+    lineIndex: number,
+    cache: CachedMetadata | null = this.plugin.app.metadataCache.getFileCache(file),
+  ): DependencyItem | null {
+    const listItem = (cache?.listItems ?? []).find((candidate) => candidate.position.start.line === lineIndex);
+    if (!listItem || listItem.task === undefined) return null;
+    const record = this.getLineRecord(file, lineIndex);
+    const statusService = this.plugin.sharedServices.status;
+    const status = statusService.checkboxStateToStatus(`[${listItem.task}]`);
+    const tpsId = this.readLineProperty(record, 'tpsId') || this.readLineProperty(record, 'subitemId');
+    const blockId = record?.blockId || listItem.id || '';
+    return {
+      key: blockId ? `${file.path}#^${blockId.toLowerCase()}` : tpsId ? `id:${tpsId.toLowerCase()}` : `${file.path}:${lineIndex}`,
+      file,
+      lineIndex,
+      title: record?.displayName || `${file.basename} (line ${lineIndex + 1})`,
+      status,
+      done: listItem.task.toLowerCase() === 'x' || statusService.isDoneStatus(status),
+      tpsId,
+      blockers: parseBlockerReferences(this.readLineProperty(record, BLOCKED_BY_KEY, true)),
+    };
+  }
+
+  private readNoteBlockers(frontmatter: Record<string, unknown> | null | undefined): BlockerReference[] {
+    if (!frontmatter) return [];
+    const key = findKeyCaseInsensitive(frontmatter, BLOCKED_BY_KEY);
+    return key ? parseBlockerReferences(frontmatter[key]) : [];
+  }
+
+  private getLineRecord(file: TFile, lineIndex: number): EntityIndexRecord | null {
+    return this.plugin.entityIndexService.getBySourcePath(file.path)
+      .find((record) => record.entityType === 'block' && record.lineNumber === lineIndex + 1) ?? null;
+  }
+
+  private readLineProperty(record: EntityIndexRecord | null, key: string): string;
+  private readLineProperty(record: EntityIndexRecord | null, key: string, all: true): string[];
+  private readLineProperty(record: EntityIndexRecord | null, key: string, all = false): string | string[] {
+    const properties = record?.lineProperties ?? {};
+    const match = Object.keys(properties).find((candidate) => candidate.toLowerCase() === key.toLowerCase());
+    const values = match ? [...properties[match]] : [];
+    return all ? values : String(values[0] ?? '').trim();
+  }
+
+  /** Items with a `blockedBy` list, found through the entity index and frontmatter cache. */
+  private collectDependents(): DependencyItem[] {
+    const dependents: DependencyItem[] = [];
+    for (const file of this.getCandidateFiles()) {
+      const note = this.readNoteBlockers(this.plugin.app.metadataCache.getFileCache(file)?.frontmatter).length > 0
+        ? this.readNoteItem(file)
+        : null;
+      if (note) dependents.push(note);
+    }
+    for (const record of this.plugin.entityIndexService.query({})) {
+      if (record.entityType !== 'block' || typeof record.lineNumber !== 'number') continue;
+      if (this.readLineProperty(record, BLOCKED_BY_KEY, true).length === 0) continue;
+      const file = this.getFile(record.sourcePath);
+      const item = file && this.isCandidateFile(file) ? this.readLineItem(file, record.lineNumber - 1) : null;
+      if (item && item.blockers.length > 0) dependents.push(item);
+    }
+    return dependents;
+  }
+
+  /** Starts tracking the done state of every file that holds a blocker of `dependents`. */
+  private trackBlockerFiles(dependents: readonly DependencyItem[]): void {
+    for (const dependent of dependents) {
+      for (const reference of dependent.blockers) {
+        const file = this.resolveReference(reference, dependent.file.path)?.file;
+        if (!file || this.doneKeysByPath.has(file.path)) continue;
+        this.doneKeysByPath.set(file.path, this.getDoneKeys(this.readFileItems(file)));
+      }
+    }
+  }
+
+  private buildEdges(dependents: readonly DependencyItem[]): Map<string, string[]> {
+    const edges = new Map<string, string[]>();
+    for (const item of dependents) {
+      const keys = item.blockers
+        .map((reference) => this.resolveReference(reference, item.file.path)?.key)
+        .filter((key): key is string => Boolean(key));
+      edges.set(item.key, [...(edges.get(item.key) ?? []), ...keys]);
+    }
+    return edges;
+  }
+
+  private getTpsIdIndex(): Map<string, { path: string; lineIndex: number | null }> {
+    if (!this.tpsIdIndex) {
+      this.tpsIdIndex = new Map();
+      this.tpsIdsByPath.clear();
+      this.staleIdPaths.clear();
+      for (const file of this.getCandidateFiles()) this.indexTpsIds(file.path);
+      return this.tpsIdIndex;
+    }
+    for (const path of this.staleIdPaths) this.indexTpsIds(path);
+    this.staleIdPaths.clear();
+    return this.tpsIdIndex;
+  }
+
+  /** Replaces the ids indexed for `path` with the ones its note and task lines carry now. */
+  private indexTpsIds(path: string): void {
+    const index = this.tpsIdIndex;
+    if (!index) return;
+    for (const id of this.tpsIdsByPath.get(path) ?? []) {
+      if (index.get(id)?.path === path) index.delete(id);
+    }
+    this.tpsIdsByPath.delete(path);
+    const file = this.getFile(path);
+    if (!file || !this.isCandidateFile(file)) return;
+    const ids: string[] = [];
+    const add = (id: string, lineIndex: number | null) => {
+      const key = id.toLowerCase();
+      if (index.has(key)) return;
+      index.set(key, { path, lineIndex });
+      ids.push(key);
+    };
+    const noteId = this.plugin.identityService.getInternalId(this.plugin.app.metadataCache.getFileCache(file)?.frontmatter);
+    if (noteId) add(noteId, null);
+    for (const record of this.plugin.entityIndexService.getBySourcePath(path)) {
+      if (record.entityType !== 'block' || typeof record.lineNumber !== 'number') continue;
+      const id = this.readLineProperty(record, 'tpsId') || this.readLineProperty(record, 'subitemId');
+      if (id) add(id, record.lineNumber - 1);
+    }
+    if (ids.length > 0) this.tpsIdsByPath.set(path, ids);
+  }
+
+  private getTargetKey(target: TaskDependencyTarget): string {
+    if (target.lineIndex === undefined || target.rawLine === undefined) return target.file.path;
+    const blockId = readLineBlockId(target.rawLine);
+    if (blockId) return `${target.file.path}#^${blockId.toLowerCase()}`;
+    const tpsId = readInlineFieldValue(target.rawLine, 'tpsId') || readInlineFieldValue(target.rawLine, 'subitemId');
+    return tpsId ? `id:${tpsId.toLowerCase()}` : `${target.file.path}:${target.lineIndex}`;
+  }
+
+  private getTargetTitle(target: TaskDependencyTarget): string {
+    return target.rawLine !== undefined ? getTaskDisplayTitle(target.rawLine) || target.file.basename : target.file.basename;
+  }
+
+  private getChoiceKey(choice: EntityReferenceChoice): string {
+    const entity = choice.entity;
+    if (entity.entityType !== 'block') return choice.path;
+    const path = entity.sourcePath || choice.path;
+    if (entity.blockId) return `${path}#^${entity.blockId.toLowerCase()}`;
+    const file = this.getFile(path);
+    const item = file && typeof entity.lineNumber === 'number' ? this.readLineItem(file, entity.lineNumber - 1) : null;
+    return item?.key ?? choice.id;
+  }
+
+  private getDoneKeys(items: readonly DependencyItem[]): Set<string> {
+    return new Set(items.filter((item) => item.done).map((item) => item.key));
+  }
+
+  private getCandidateFiles(): TFile[] {
+    return this.plugin.app.vault.getMarkdownFiles().filter((file) => this.isCandidateFile(file));
+  }
+
+  private isCandidateFile(file: TFile): boolean {
+    return file.extension === 'md' && this.plugin.filePropertiesService?.isCompanionFile(file) !== true;
+  }
+
+  private getFile(path: string): TFile | null {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  }
+}
@@ -265,5 +265,6 @@ function isTaskEditorPropertyHidden(property: CustomProperty | null): boolean {
     || property.type === 'folder'
     || property.type === 'snooze'
     || property.type === 'kind'
+    || property.type === 'tracked'
   ));
 }
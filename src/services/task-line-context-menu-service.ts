@@ -42,10 +42,19 @@ import {
   type TaskCheckboxWorkflowFieldOwnership,
 } from '../utils/task-checkbox-workflow-mutation';
 import {
-  getInheritedDailyNoteTaskScheduledValue,
   getIsoDateFromScheduledValue,
+  parseDailyNoteFileDate,
   resolveTaskScheduledValue,
 } from '../utils/daily-note-task-schedule';
+import { PERIODIC_NOTE_LABELS, getEnabledPeriodicNoteKinds } from '../utils/periodic-notes';
+import {
+  ensureTaskRecurrenceIdOnLine,
+  extractTaskRecurrenceRule,
+  parseTaskRecurrenceRule,
+  readTaskRecurrenceExceptions,
+  rescheduleTaskRecurrenceOccurrence,
+  skipTaskRecurrenceOccurrence,
+} from '../utils/task-recurrence';
 import {
   getLinkedSubitemCompleteMarkers,
   getLinkedSubitemMappingForState,
@@ -72,6 +81,8 @@ import {
 import type { LineItemDeleteMode } from '../utils/line-item-deletion';
 import { resolveCustomProperties } from '../resolve-profiles';
 import { ViewModeService } from './view-mode-service';
+import { createItemHistoryInteractionId } from './item-history-core';
+import { ItemHistoryModal } from '../modals/item-history-modal';
 import {
   applyTaskEditorPropertyChanges,
   applyTaskEditorScheduleResult,
@@ -119,6 +130,13 @@ import {
   applyTaskItemPropertyMutation,
   type ItemPropertyMutation,
 } from '../utils/item-property-mutation';
+import { formatTrackedTime } from './tracked-time-core';
+import {
+  BLOCKED_BY_KEY,
+  getBlockerReferenceKey,
+  parseBlockerReferences,
+  serializeBlockerReferences,
+} from './task-dependency-core';
 
 export type TaskLineContext = {
   file: TFile;
@@ -159,6 +177,8 @@ type TaskLineUpdateOptions = {
   historyTerminalDelete?: boolean;
   historySurface?: string;
   historySourcePluginId?: string;
+  /** Shared by every line of one batch so history can revert it as one operation. */
+  historyInteractionId?: string;
 };
 
 type TaskEditorPropertyDraft = {
@@ -818,7 +838,7 @@ export class TaskLineContextMenuService {
                 renderValue();
                 this.taskEditorOverlay?.schedule();
               },
-              { showEndsOn: false },
+              { showEndsOn: false, exceptions: readTaskRecurrenceExceptions(context.rawLine) },
             );
             openChildModal(modal, control);
           });
@@ -1927,6 +1947,7 @@ export class TaskLineContextMenuService {
       }
 
       this.addSelectedTaskPropertyMenus(subMenu, contexts);
+      this.plugin.userActionService?.addTaskActionsToMenu(subMenu, this.getUniqueContexts(contexts));
 
       subMenu.addSeparator();
       subMenu.addItem((sub: any) => {
@@ -1961,7 +1982,7 @@ export class TaskLineContextMenuService {
       candidates,
       new ViewModeService(),
       'context',
-    ).filter((property) => this.isTaskMenuProperty(property, statusKey));
+    ).filter((property) => this.isTaskMenuProperty(property, statusKey) && property.type !== 'tracked');
     if (properties.length === 0) return;
 
     menu.addItem((item) => {
@@ -2144,6 +2165,7 @@ export class TaskLineContextMenuService {
       this.addInlineTagsMenu(menu, context);
     }
     this.addConfiguredPropertyMenus(menu, context, options.includeTags === true);
+    this.plugin.userActionService?.addTaskActionsToMenu(menu, [context]);
 
     const sourceNoteTitle = this.plugin.noteTitleRenderService.getDisplayTitle(context.file) || context.file.basename;
     menu.addSeparator();
@@ -2185,6 +2207,14 @@ export class TaskLineContextMenuService {
           });
       });
     }
+    if (this.plugin.settings.enableItemHistory !== false) {
+      menu.addItem((item) => {
+        item
+          .setTitle('History...')
+          .setIcon('history')
+          .onClick(() => this.openTaskHistory(context));
+      });
+    }
     menu.addItem((item) => {
       item
         .setTitle('Delete task')
@@ -2211,6 +2241,27 @@ export class TaskLineContextMenuService {
       });
     }
 
+    if (this.canEditTaskOccurrence(context.rawLine)) {
+      menu.addItem((item) => {
+        item
+          .setTitle('Skip this occurrence')
+          .setIcon('skip-forward')
+          .onClick(() => {
+            this.runTaskMenuAction(context, 'skip-occurrence', () => this.skipTaskOccurrence(context));
+          });
+      });
+      menu.addItem((item) => {
+        item
+          .setTitle('Reschedule this occurrence…')
+          .setIcon('calendar-clock')
+          .onClick(() => this.rescheduleTaskOccurrence(context));
+      });
+    }
+
+    this.addTaskDependencyMenu(menu, context);
+    this.addTaskSnoozeMenu(menu, context);
+    this.addTaskPeriodicMoveMenu(menu, context);
+
     if (this.plugin.settings.enableTimeTracking !== false) {
       this.addTaskTimeTrackingMenu(menu, context);
     }
@@ -2374,6 +2425,8 @@ export class TaskLineContextMenuService {
         this.addRecurrencePropertyMenu(menu, context, property);
       } else if (property.type === 'text' || property.type === 'number') {
         this.addTextPropertyMenu(menu, context, property);
+      } else if (property.type === 'tracked') {
+        this.addTrackedTimePropertyMenu(menu, context, property);
       }
     }
   }
@@ -2521,7 +2574,7 @@ export class TaskLineContextMenuService {
 
   private async maybePromptMoveScheduledDailyNoteTask(context: TaskLineContext, scheduledValue: string): Promise<void> {
     if (this.plugin.settings.inheritUnscheduledTasksFromDailyNotes === false) return;
-    const sourceDate = getInheritedDailyNoteTaskScheduledValue(this.plugin.app, this.plugin.settings, context.file);
+    const sourceDate = parseDailyNoteFileDate(this.plugin.app, this.plugin.settings, context.file);
     if (!sourceDate) return;
     const targetDate = getIsoDateFromScheduledValue(scheduledValue);
     if (!targetDate || targetDate === sourceDate) return;
@@ -2641,13 +2694,63 @@ export class TaskLineContextMenuService {
         .onClick(() => {
           const scheduled = readInlineFieldValue(context.rawLine, 'scheduled');
           const startDate = scheduled ? new Date(scheduled.replace(' ', 'T')) : new Date();
-          new RecurrenceModal(this.plugin.app, current, Number.isNaN(startDate.getTime()) ? new Date() : startDate, '', async (rule) => {
-            await this.updateTaskLine(context, (line) => setInlineFieldValueOnTaskLine(line, property.key, rule || null));
-          }, { showEndsOn: false }).open();
+          const recurrence = current ? this.plugin.taskRecurrenceService : null;
+          new RecurrenceModal(this.plugin.app, current, Number.isNaN(startDate.getTime()) ? new Date() : startDate, '', async (rule, _endsOn, scope) => {
+            const recurrenceTaskId = recurrence
+              ? await recurrence.scopeRuleEdit(context.file, context.lineIndex, context.rawLine, property.key, rule, scope.applyToFuture)
+              : '';
+            if (recurrenceTaskId === null) return;
+            await this.updateTaskLine(context, (line) => {
+              const next = setInlineFieldValueOnTaskLine(line, property.key, rule || null);
+              return recurrenceTaskId ? ensureTaskRecurrenceIdOnLine(next, recurrenceTaskId) : next;
+            });
+          }, {
+            showEndsOn: false,
+            exceptions: readTaskRecurrenceExceptions(context.rawLine),
+            seriesScope: !!recurrence,
+            occurrence: this.canEditTaskOccurrence(context.rawLine) ? {
+              onSkip: () => this.skipTaskOccurrence(context),
+              onReschedule: () => this.rescheduleTaskOccurrence(context),
+            } : undefined,
+          }).open();
         });
     });
   }
 
+  /** Skip/reschedule need a fixed-schedule rule and a scheduled value to act on. */
+  private canEditTaskOccurrence(rawLine: string): boolean {
+    const rule = extractTaskRecurrenceRule(rawLine);
+    return !!rule
+      && parseTaskRecurrenceRule(rule)?.kind === 'rrule'
+      && !!readInlineFieldValue(rawLine, 'scheduled');
+  }
+
+  private async skipTaskOccurrence(context: TaskLineContext): Promise<void> {
+    const preview = skipTaskRecurrenceOccurrence(context.rawLine);
+    if (!preview) {
+      new Notice('This series has no later occurrence to move to.');
+      return;
+    }
+    const updated = await this.updateTaskLine(context, (line) => skipTaskRecurrenceOccurrence(line) ?? line);
+    if (!updated) return;
+    new Notice(`Occurrence skipped. Next: ${readInlineFieldValue(preview, 'scheduled')}`);
+  }
+
+  private rescheduleTaskOccurrence(context: TaskLineContext): void {
+    const current = readInlineFieldValue(context.rawLine, 'scheduled');
+    new ScheduledModal(this.plugin.app, current, 0, false, async (result) => {
+      if (!result.date) return;
+      const updated = await this.updateTaskLine(context, (line) => (
+        rescheduleTaskRecurrenceOccurrence(line, result.date) ?? line
+      ));
+      if (updated) new Notice(`Occurrence moved to ${result.date}. The rest of the series is unchanged.`);
+    }, {
+      title: 'Reschedule this occurrence',
+      fieldLabel: 'Scheduled',
+      showTimeDetails: false,
+    }).open();
+  }
+
   private addTextPropertyMenu(menu: Menu, context: TaskLineContext, property: CustomProperty): void {
     const current = readInlineFieldValue(context.rawLine, property.key);
     menu.addItem((item) => {
@@ -2658,6 +2761,110 @@ export class TaskLineContextMenuService {
     });
   }
 
+  private addTrackedTimePropertyMenu(menu: Menu, context: TaskLineContext, property: CustomProperty): void {
+    const tracked = this.plugin.timeTrackingService?.getTrackedTimeForLine(context.rawLine);
+    if (!tracked) return;
+    menu.addItem((item) => {
+      item
+        .setTitle(`${property.label}: ${formatTrackedTime(tracked)}${tracked.overBudget ? ' (over estimate)' : ''}`)
+        .setIcon(property.icon || 'timer');
+    });
+  }
+
+  private addTaskDependencyMenu(menu: Menu, context: TaskLineContext): void {
+    const dependencies = this.plugin.taskDependencyService;
+    if (!dependencies) return;
+    const target = { file: context.file, lineIndex: context.lineIndex, rawLine: context.rawLine };
+    const { blockers, openBlockers } = dependencies.getSummary(target);
+    menu.addItem((item) => {
+      item
+        .setTitle(openBlockers.length > 0 ? `Blocked by (${openBlockers.length})` : 'Blocked by')
+        .setIcon('octagon-pause');
+      const subMenu = this.createTaskSubmenu(item);
+      subMenu.addItem((sub: any) => {
+        sub.setTitle('Add blocker…').setIcon('plus').onClick(() => {
+          dependencies.pickBlocker(target, async (reference) => {
+            await this.updateTaskLine(context, (line) => {
+              const current = parseBlockerReferences(readInlineFieldValue(line, BLOCKED_BY_KEY));
+              const next = [...current, ...parseBlockerReferences(reference)];
+              return setInlineFieldValueOnTaskLine(line, BLOCKED_BY_KEY, serializeBlockerReferences(next).join(', '));
+            });
+          });
+        });
+      });
+      for (const { reference, item: blocker } of blockers) {
+        subMenu.addItem((sub: any) => {
+          sub.setTitle(`Remove ${dependencies.describeItem(blocker, reference)}${blocker?.done ? ' (done)' : ''}`)
+            .setIcon('x')
+            .onClick(() => {
+              const removedKey = getBlockerReferenceKey(reference);
+              this.runTaskMenuAction(context, 'remove-blocker', () => this.updateTaskLine(context, (line) => {
+                const next = parseBlockerReferences(readInlineFieldValue(line, BLOCKED_BY_KEY))
+                  .filter((candidate) => getBlockerReferenceKey(candidate) !== removedKey);
+                return setInlineFieldValueOnTaskLine(
+                  line,
+                  BLOCKED_BY_KEY,
+                  next.length > 0 ? serializeBlockerReferences(next).join(', ') : null,
+                );
+              }));
+            });
+        });
+      }
+    });
+  }
+
+  private addTaskSnoozeMenu(menu: Menu, context: TaskLineContext): void {
+    const snooze = this.plugin.snoozeService;
+    if (!snooze) return;
+    const keys = snooze.getSnoozeKeys();
+    const current = keys.map((key) => readInlineFieldValue(context.rawLine, key)).find(Boolean);
+    menu.addItem((item) => {
+      item
+        .setTitle(snooze.isLineSnoozed(context.rawLine) ? `Snoozed until ${current}` : 'Snooze')
+        .setIcon('alarm-clock');
+      const subMenu = this.createTaskSubmenu(item);
+      subMenu.addItem((sub: any) => {
+        sub.setTitle('Snooze…').setIcon('alarm-clock').onClick(() => {
+          snooze.openSnoozeModal('Snooze task', async (value) => {
+            await this.updateTaskLine(context, (line) => setInlineFieldValueOnTaskLine(line, keys[0], value));
+          });
+        });
+      });
+      if (current) {
+        subMenu.addItem((sub: any) => {
+          sub.setTitle('Wake now').setIcon('alarm-clock-off').onClick(() => {
+            this.runTaskMenuAction(context, 'clear-snooze', () => this.updateTaskLine(context, (line) => (
+              keys.reduce((next, key) => setInlineFieldValueOnTaskLine(next, key, null), line)
+            )));
+          });
+        });
+      }
+    });
+  }
+
+  private addTaskPeriodicMoveMenu(menu: Menu, context: TaskLineContext): void {
+    const kinds = getEnabledPeriodicNoteKinds(this.plugin.settings.periodicNotes);
+    if (kinds.length === 0 || !this.plugin.noteOperationService?.ensurePeriodicNote) return;
+    menu.addItem((item) => {
+      item
+        .setTitle('Move to period')
+        .setIcon('calendar-range');
+      const subMenu = this.createTaskSubmenu(item);
+      for (const kind of kinds) {
+        subMenu.addItem((sub: any) => {
+          sub.setTitle(`This ${PERIODIC_NOTE_LABELS[kind].noun}`).setIcon('calendar-range').onClick(() => {
+            this.runTaskMenuAction(context, `move-to-${kind}-note`, async () => {
+              const today = window.moment().format('YYYY-MM-DD');
+              const targetFile = await this.plugin.noteOperationService.ensurePeriodicNote(kind, today);
+              if (!(targetFile instanceof TFile) || targetFile.path === context.file.path) return;
+              await this.moveTaskToFile(context, targetFile);
+            });
+          });
+        });
+      }
+    });
+  }
+
   private addTaskTimeTrackingMenu(menu: Menu, context: TaskLineContext): void {
     menu.addItem((item) => {
       item
@@ -2889,6 +3096,25 @@ export class TaskLineContextMenuService {
     });
   }
 
+  private openTaskHistory(context: TaskLineContext): void {
+    const reference = {
+      path: context.file.path,
+      lineNumber: context.lineIndex,
+      rawLine: context.rawLine,
+    };
+    const revertService = this.plugin.itemHistoryRevertService;
+    new ItemHistoryModal(this.plugin.app, {
+      title: this.getContextTaskTitle(context),
+      load: async () => {
+        const entityId = await this.plugin.itemHistoryService.resolveEntity(reference);
+        return entityId ? this.plugin.itemHistoryService.query(entityId, { limit: 50 }) : [];
+      },
+      revert: (event) => revertService.revert(event.eventId),
+      restoreBefore: (event) => revertService.restoreBefore(event.eventId),
+      revertOperation: (event) => revertService.revertOperation(event.operationId),
+    }).open();
+  }
+
   private promptTaskTitle(context: TaskLineContext): void {
     logger.flow('TaskLineContextMenu', 'rename:prompt', {
       path: context.file.path,
@@ -2935,6 +3161,7 @@ export class TaskLineContextMenuService {
         kind: 'user',
         sourcePluginId: options.historySourcePluginId || 'tps-global-context-menu',
         surface: historyContext.surface,
+        ...(options.historyInteractionId ? { interactionId: options.historyInteractionId } : {}),
       },
       before: {
         path: context.file.path,
@@ -3140,8 +3367,11 @@ export class TaskLineContextMenuService {
     const uniqueContexts = this.getUniqueContexts(contexts);
     const updatedPaths = new Set<string>();
     let updatedCount = 0;
+    const batchOptions = uniqueContexts.length > 1 && !options.historyInteractionId
+      ? { ...options, historyInteractionId: createItemHistoryInteractionId() }
+      : options;
     for (const context of uniqueContexts) {
-      if (await this.updateTaskLine(context, (line) => updater(line, context), options)) {
+      if (await this.updateTaskLine(context, (line) => updater(line, context), batchOptions)) {
         updatedCount += 1;
         updatedPaths.add(context.file.path);
       }
@@ -3161,9 +3391,10 @@ export class TaskLineContextMenuService {
         return;
       }
       let movedCount = 0;
+      const interactionId = createItemHistoryInteractionId();
       for (const context of this.getMutationOrderedContexts(uniqueContexts)) {
         const selectionKey = this.getTaskContextKey(context);
-        if (await this.moveTaskToFile(context, targetFile)) movedCount += 1;
+        if (await this.moveTaskToFile(context, targetFile, interactionId)) movedCount += 1;
         this.selectedTaskContexts.delete(selectionKey);
       }
       this.refreshTaskSelectionHighlights();
@@ -3308,7 +3539,11 @@ export class TaskLineContextMenuService {
     };
   }
 
-  private async moveTaskToFile(context: TaskLineContext, targetFile: TFile): Promise<boolean> {
+  private async moveTaskToFile(
+    context: TaskLineContext,
+    targetFile: TFile,
+    historyInteractionId?: string,
+  ): Promise<boolean> {
     if (!(targetFile instanceof TFile) || targetFile.extension?.toLowerCase() !== 'md') {
       new Notice('Choose a Markdown file.');
       return false;
@@ -3336,6 +3571,7 @@ export class TaskLineContextMenuService {
         kind: 'user',
         sourcePluginId: 'tps-global-context-menu',
         surface: context.isCalendarTask ? 'calendar-task-context-menu' : 'task-line-context-menu',
+        ...(historyInteractionId ? { interactionId: historyInteractionId } : {}),
       },
     );
 
@@ -4,15 +4,20 @@ import { TaskRecurrenceTemplateModal } from '../modals/task-recurrence-template-
 import {
   buildNextTaskRecurrenceLine,
   buildTaskRecurrenceTemplateLine,
-  calculateNextTaskScheduledValue,
+  calculateNextTaskOccurrence,
   ensureTaskRecurrenceIdOnLine,
   extractTaskRecurrenceRule,
   findTaskBlockEndIndex,
   formatTaskScheduledDate,
+  getTaskRecurrenceRuleError,
   isCompletedTaskMarker,
+  parseTaskDate,
+  readTaskRecurrenceExceptions,
+  setTaskRecurrenceExceptions,
   TASK_RECURRENCE_COMPLETED_DATE_KEY,
   TASK_RECURRENCE_ID_KEY,
 } from '../utils/task-recurrence';
+import { RECURRENCE_ANCHOR_KEY, pruneRecurrenceExceptions } from '../utils/recurrence-exceptions';
 import {
   getLinkedSubitemCompleteMarkers,
   isLinkedSubitemSemanticCheckboxPlanCurrent,
@@ -92,12 +97,18 @@ export class TaskRecurrenceService {
       if (!recurrenceRule) return false;
 
       const scheduledValue = readInlineFieldValue(completedLine, 'scheduled');
-      const nextScheduledValue = calculateNextTaskScheduledValue(recurrenceRule, {
+      const exceptions = readTaskRecurrenceExceptions(completedLine);
+      const nextOccurrence = calculateNextTaskOccurrence(recurrenceRule, {
         scheduledValue,
         completedAt,
+        exceptions,
+        anchorValue: readInlineFieldValue(completedLine, RECURRENCE_ANCHOR_KEY),
       });
-      if (!nextScheduledValue) {
-        new Notice('Task recurrence rule could not produce a next scheduled value.');
+      if (!nextOccurrence) {
+        const ruleError = getTaskRecurrenceRuleError(recurrenceRule);
+        new Notice(ruleError
+          ? `Task recurrence rule is invalid: ${ruleError}`
+          : 'Task recurrence rule could not produce a next scheduled value.');
         return false;
       }
 
@@ -119,14 +130,24 @@ export class TaskRecurrenceService {
         mappingChanged = true;
         return false;
       }
-      const nextLine = ensureTaskRecurrenceIdOnLine(
-        buildNextTaskRecurrenceLine(
-          template.line,
-          nextScheduledValue,
-          creationMapping.checkboxState,
-          creationMapping.statusKey,
+      const nextLine = setInlineFieldValueOnTaskLine(
+        setTaskRecurrenceExceptions(
+          ensureTaskRecurrenceIdOnLine(
+            buildNextTaskRecurrenceLine(
+              template.line,
+              nextOccurrence.scheduledValue,
+              creationMapping.checkboxState,
+              creationMapping.statusKey,
+            ),
+            recurrenceTaskId,
+          ),
+          // An RDATE instance steps on from its anchor, so keep exceptions from whichever is earlier.
+          pruneRecurrenceExceptions(exceptions, parseTaskDate(
+            [nextOccurrence.scheduledValue, nextOccurrence.anchorValue || ''].filter(Boolean).sort()[0],
+          ) ?? completedAt),
         ),
-        recurrenceTaskId,
+        RECURRENCE_ANCHOR_KEY,
+        nextOccurrence.anchorValue,
       );
       lines[lineIndex] = completedLine;
       const insertIndex = findTaskBlockEndIndex(lines, lineIndex);
@@ -237,6 +258,49 @@ export class TaskRecurrenceService {
     }).open();
   }
 
+  /**
+   * Keeps the series template in step with a rule edit on one instance. With
+   * `applyToFuture` the stored template takes the new rule; otherwise it keeps
+   * (or is seeded with) the current line so only this instance changes. Returns
+   * the recurrence id the edited line must carry ('' when none is needed), or
+   * null when the template could not be saved.
+   */
+  async scopeRuleEdit(
+    file: TFile,
+    lineIndex: number,
+    rawLine: string,
+    key: string,
+    rule: string,
+    applyToFuture: boolean,
+  ): Promise<string | null> {
+    const creationMapping = this.resolveRecurrenceTaskCreationMapping();
+    if (!creationMapping) {
+      this.reportUnavailableCreationMapping('scope-rule-edit');
+      return null;
+    }
+    await this.loadStore();
+    const existingId = readInlineFieldValue(rawLine, TASK_RECURRENCE_ID_KEY);
+    const existing = existingId ? this.store.templates[existingId]?.line : '';
+    if (applyToFuture && !existing) return existingId;
+
+    const recurrenceTaskId = existingId || this.createRecurrenceTaskId(file, lineIndex);
+    const templateLine = applyToFuture
+      ? setInlineFieldValueOnTaskLine(existing || rawLine, key, rule || null)
+      : existing || buildTaskRecurrenceTemplateLine(
+        ensureTaskRecurrenceIdOnLine(rawLine, recurrenceTaskId),
+        creationMapping.checkboxState,
+        creationMapping.statusKey,
+      );
+    if (templateLine === existing) return recurrenceTaskId;
+    const saved = await this.setTemplateLine(recurrenceTaskId, templateLine, creationMapping);
+    if (!saved) {
+      this.reportChangedCreationMapping('scope-rule-edit');
+      return null;
+    }
+    logger.log('[TaskRecurrence] Rule edit scoped.', { path: file.path, recurrenceTaskId, applyToFuture });
+    return recurrenceTaskId;
+  }
+
   async openTemplatesCommand(): Promise<void> {
     const creationMapping = this.resolveRecurrenceTaskCreationMapping();
     if (!creationMapping) {
@@ -1,6 +1,6 @@
 import { Component, TFile } from 'obsidian';
 import type TPSGlobalContextMenuPlugin from '../main';
-import { reconcileTaskStatusLine } from '../utils/task-status-checkbox-reconcile';
+import { reconcileTaskStatusLine, type TaskStatusCheckboxReconcileResult } from '../utils/task-status-checkbox-reconcile';
 import { getLinkedSubitemCompleteMarkers } from '../utils/linked-subitem-mapping';
 import type { LinkedSubitemCheckboxMapping } from '../types';
 import { scanMarkdownDocumentLines } from '../utils/markdown-document-lines';
@@ -57,16 +57,13 @@ export class TaskStatusCheckboxReconcileService extends Component {
     this.scheduleFlush(reason, delayMs);
   }
 
-  async reconcileFileNow(file: TFile): Promise<number> {
+  /** Reconciles every mismatched task line in `file`, or only the zero-based `onlyLines` when given. */
+  async reconcileFileNow(file: TFile, onlyLines?: ReadonlySet<number>): Promise<number> {
     if (!this.isMarkdownFile(file)) return 0;
     if (this.filesBeingProcessed.has(file.path)) return 0;
 
-    const statusKey = this.getStatusKey();
-    const mappings = this.plugin.settings.linkedSubitemCheckboxMappings || [];
-    if (!statusKey || mappings.length === 0) return 0;
-    const completedAt = new Date();
-    const completeMarkers = this.getCompleteMarkers(mappings);
-    const normalizeStatus = (value: unknown): string => this.plugin.sharedServices.status.normalize(value);
+    const reconcileLine = this.createLineReconciler(new Date());
+    if (!reconcileLine) return 0;
 
     let changeCount = 0;
     this.filesBeingProcessed.add(file.path);
@@ -80,13 +77,8 @@ export class TaskStatusCheckboxReconcileService extends Component {
 
         changeCount = 0;
         const nextLines = lines.map((line, index) => {
-          if (documentLines[index]?.isContent !== true) return line;
-          const result = reconcileTaskStatusLine(line, statusKey, mappings, {
-            completedAt,
-            completeMarkers,
-            normalizeStatus,
-            syncStatusToCheckbox: this.isStatusSyncEnabled(),
-          });
+          if (documentLines[index]?.isContent !== true || (onlyLines && !onlyLines.has(index))) return line;
+          const result = reconcileLine(line);
           if (result.changed) changeCount += 1;
           return result.line;
         });
@@ -111,6 +103,29 @@ export class TaskStatusCheckboxReconcileService extends Component {
     return changeCount;
   }
 
+  /** Zero-based lines of `data` that `reconcileFileNow` would rewrite; nothing is written. */
+  findMismatchedLines(data: string): number[] {
+    const reconcileLine = this.createLineReconciler(new Date());
+    if (!reconcileLine) return [];
+    return scanMarkdownDocumentLines(data)
+      .filter((line) => line.isContent && reconcileLine(line.text).changed)
+      .map((line) => line.index);
+  }
+
+  private createLineReconciler(completedAt: Date): ((line: string) => TaskStatusCheckboxReconcileResult) | null {
+    const statusKey = this.getStatusKey();
+    const mappings = this.plugin.settings.linkedSubitemCheckboxMappings || [];
+    if (!statusKey || mappings.length === 0) return null;
+    const completeMarkers = this.getCompleteMarkers(mappings);
+    const normalizeStatus = (value: unknown): string => this.plugin.sharedServices.status.normalize(value);
+    return (line) => reconcileTaskStatusLine(line, statusKey, mappings, {
+      completedAt,
+      completeMarkers,
+      normalizeStatus,
+      syncStatusToCheckbox: this.isStatusSyncEnabled(),
+    });
+  }
+
   private scheduleFlush(_reason: string, delayMs: number): void {
     if (this.flushTimer !== null) {
       window.clearTimeout(this.flushTimer);
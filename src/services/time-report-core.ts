@@ -0,0 +1,204 @@
+/**
+ * Pure aggregation for time tracking reports. Sessions are clipped to the
+ * report range before they are totalled, so a session that started before the
+ * range (or is still running) only contributes the minutes inside it.
+ */
+
+export type TimeReportGroupBy = 'target' | 'project' | 'tag' | 'kind' | 'day' | 'week';
+
+export const TIME_REPORT_GROUP_LABELS: Record<TimeReportGroupBy, string> = {
+  target: 'Target note',
+  project: 'Project',
+  tag: 'Tag',
+  kind: 'Kind',
+  day: 'Day',
+  week: 'Week',
+};
+
+export const TIME_REPORT_NO_PROJECT = '(no project)';
+export const TIME_REPORT_UNTAGGED = '(untagged)';
+
+export interface TimeReportSessionInput {
+  /** Title recorded on the session; used as the row label for task-line targets. */
+  title: string;
+  /** Note that owns the tracked target (the note itself, or the file holding the task line). */
+  targetPath: string;
+  /** Display title of the note at `targetPath`; falls back to its basename when empty. */
+  noteTitle?: string;
+  /** Stable id of the tracked target, so sessions on the same line share a row. */
+  targetId?: string;
+  targetType: string;
+  start: Date;
+  /** Missing for a running session; it is counted up to `now`. */
+  end: Date | null;
+  /** Parent project title, or null when the target note has no parent. */
+  project: string | null;
+  tags: string[];
+}
+
+export interface TimeReportRange {
+  start: Date;
+  /** Exclusive. */
+  end: Date;
+}
+
+export interface TimeReportRow {
+  key: string;
+  label: string;
+  minutes: number;
+  sessions: number;
+}
+
+export interface TimeReport {
+  groupBy: TimeReportGroupBy;
+  range: TimeReportRange;
+  rows: TimeReportRow[];
+  /** Tracked minutes in the range. With `tag` grouping rows can add up to more, since a session counts once per tag. */
+  totalMinutes: number;
+  sessionCount: number;
+}
+
+export interface TimeReportOptions {
+  now?: Date;
+  /** 0 = Sunday, 1 = Monday (default). */
+  weekStartsOn?: number;
+}
+
+export function buildTimeReport(
+  sessions: TimeReportSessionInput[],
+  groupBy: TimeReportGroupBy,
+  range: TimeReportRange,
+  options: TimeReportOptions = {},
+): TimeReport {
+  const now = options.now ?? new Date();
+  const weekStartsOn = options.weekStartsOn ?? 1;
+  const rows = new Map<string, TimeReportRow>();
+  let totalMinutes = 0;
+  let sessionCount = 0;
+
+  const add = (key: string, label: string, minutes: number) => {
+    const row = rows.get(key) ?? { key, label, minutes: 0, sessions: 0 };
+    row.minutes += minutes;
+    row.sessions += 1;
+    rows.set(key, row);
+  };
+
+  for (const session of sessions) {
+    const start = Math.max(session.start.getTime(), range.start.getTime());
+    const end = Math.min((session.end ?? now).getTime(), range.end.getTime());
+    if (!(end > start)) continue;
+    sessionCount += 1;
+    totalMinutes += (end - start) / 60000;
+
+    if (groupBy === 'day' || groupBy === 'week') {
+      for (const slice of splitByLocalDay(start, end)) {
+        const day = new Date(slice.start);
+        const bucket = groupBy === 'day' ? day : startOfWeek(day, weekStartsOn);
+        const key = formatReportDate(bucket);
+        add(key, groupBy === 'day' ? key : `Week of ${key}`, slice.minutes);
+      }
+      continue;
+    }
+
+    const minutes = (end - start) / 60000;
+    if (groupBy === 'target') {
+      const noteLabel = session.noteTitle || pathBasename(session.targetPath);
+      if (session.targetType === 'note') {
+        add(session.targetPath, noteLabel, minutes);
+      } else {
+        const key = `${session.targetPath}#${session.targetId || session.title}`;
+        add(key, session.title || noteLabel, minutes);
+      }
+    } else if (groupBy === 'project') {
+      const project = session.project || TIME_REPORT_NO_PROJECT;
+      add(project, project, minutes);
+    } else if (groupBy === 'kind') {
+      add(session.targetType, session.targetType, minutes);
+    } else {
+      const tags = session.tags.length > 0 ? Array.from(new Set(session.tags)) : [TIME_REPORT_UNTAGGED];
+      for (const tag of tags) add(tag, tag === TIME_REPORT_UNTAGGED ? tag : `#${tag}`, minutes);
+    }
+  }
+
+  const sorted = Array.from(rows.values()).map((row) => ({ ...row, minutes: roundMinutes(row.minutes) }));
+  sorted.sort(groupBy === 'day' || groupBy === 'week'
+    ? (a, b) => a.key.localeCompare(b.key)
+    : (a, b) => b.minutes - a.minutes || a.label.localeCompare(b.label));
+
+  return { groupBy, range, rows: sorted, totalMinutes: roundMinutes(totalMinutes), sessionCount };
+}
+
+function pathBasename(path: string): string {
+  const name = path.split('/').pop() || path;
+  return name.replace(/\.md$/i, '');
+}
+
+export function formatTimeReportDuration(minutes: number): string {
+  const whole = Math.round(minutes);
+  const hours = Math.floor(whole / 60);
+  const rest = whole % 60;
+  return `${hours}:${String(rest).padStart(2, '0')}`;
+}
+
+export function formatTimeReportCsv(report: TimeReport): string {
+  const lines = [[TIME_REPORT_GROUP_LABELS[report.groupBy], 'Sessions', 'Minutes', 'Hours']];
+  for (const row of report.rows) {
+    lines.push([row.label, String(row.sessions), String(row.minutes), formatDecimalHours(row.minutes)]);
+  }
+  lines.push(['Total', String(report.sessionCount), String(report.totalMinutes), formatDecimalHours(report.totalMinutes)]);
+  return `${lines.map((cells) => cells.map(escapeCsvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+export function formatTimeReportMarkdown(report: TimeReport): string {
+  const header = `| ${TIME_REPORT_GROUP_LABELS[report.groupBy]} | Sessions | Time | Hours |`;
+  const lines = [
+    `Time report: ${formatReportDate(report.range.start)} to ${formatReportDate(new Date(report.range.end.getTime() - 1))}`,
+    '',
+    header,
+    '| --- | ---: | ---: | ---: |',
+  ];
+  for (const row of report.rows) {
+    lines.push(`| ${escapeMarkdownCell(row.label)} | ${row.sessions} | ${formatTimeReportDuration(row.minutes)} | ${formatDecimalHours(row.minutes)} |`);
+  }
+  lines.push(`| **Total** | ${report.sessionCount} | ${formatTimeReportDuration(report.totalMinutes)} | ${formatDecimalHours(report.totalMinutes)} |`);
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatReportDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function startOfWeek(date: Date, weekStartsOn: number): Date {
+  const offset = (date.getDay() - weekStartsOn + 7) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+function splitByLocalDay(start: number, end: number): Array<{ start: number; minutes: number }> {
+  const slices: Array<{ start: number; minutes: number }> = [];
+  let cursor = start;
+  while (cursor < end) {
+    const day = new Date(cursor);
+    const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+    const sliceEnd = Math.min(end, nextDay);
+    slices.push({ start: cursor, minutes: (sliceEnd - cursor) / 60000 });
+    cursor = sliceEnd;
+  }
+  return slices;
+}
+
+function roundMinutes(minutes: number): number {
+  return Math.round(minutes * 100) / 100;
+}
+
+function formatDecimalHours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,150 @@
+import { TFile, normalizePath } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { getErrorMessage } from '../core';
+import { getPlainDisplayTitle } from '../utils/display-title';
+import { normalizeTagList, normalizeTagValue } from '../utils/tag-utils';
+import {
+  buildTimeReport,
+  formatReportDate,
+  formatTimeReportCsv,
+  formatTimeReportMarkdown,
+  type TimeReport,
+  type TimeReportGroupBy,
+  type TimeReportSessionInput,
+} from './time-report-core';
+import type { TimeTrackingSession } from './time-tracking-service';
+
+export type TimeReportExportFormat = 'csv' | 'markdown';
+
+export interface TimeReportCriteria {
+  /** Inclusive local day, `YYYY-MM-DD` or a Date. Default: seven days before `end`. */
+  start?: Date | string;
+  /** Inclusive local day, `YYYY-MM-DD` or a Date. Default: today. */
+  end?: Date | string;
+  groupBy?: TimeReportGroupBy;
+}
+
+export interface TimeReportExportResult {
+  ok: boolean;
+  path: string;
+  error?: string;
+}
+
+export const DEFAULT_TIME_REPORT_FOLDER = 'Time Reports';
+
+/**
+ * Totals tracked time sessions for a date range and writes the result to the
+ * vault as CSV or a Markdown table.
+ */
+export class TimeReportService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  async buildReport(criteria: TimeReportCriteria = {}): Promise<TimeReport> {
+    const range = resolveTimeReportRange(criteria.start, criteria.end);
+    const sessions = await this.plugin.timeTrackingService.listSessions(range);
+    const inputs = sessions
+      .map((session) => this.toReportInput(session))
+      .filter((input): input is TimeReportSessionInput => input !== null);
+    return buildTimeReport(inputs, criteria.groupBy ?? 'target', range);
+  }
+
+  async exportReport(report: TimeReport, format: TimeReportExportFormat, pathInput?: string): Promise<TimeReportExportResult> {
+    const extension = format === 'csv' ? 'csv' : 'md';
+    const lastDay = formatReportDate(new Date(report.range.end.getTime() - 1));
+    const defaultPath = `${DEFAULT_TIME_REPORT_FOLDER}/Time report ${formatReportDate(report.range.start)} to ${lastDay} by ${report.groupBy}.${extension}`;
+    let path = normalizePath(String(pathInput || '').trim() || defaultPath);
+    if (!path.toLowerCase().endsWith(`.${extension}`)) path = `${path}.${extension}`;
+    const content = format === 'csv' ? formatTimeReportCsv(report) : formatTimeReportMarkdown(report);
+
+    try {
+      const vault = this.plugin.app.vault;
+      const existing = vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        await vault.modify(existing, content);
+      } else if (existing) {
+        throw new Error(`${path} is a folder.`);
+      } else {
+        let current = '';
+        for (const segment of path.split('/').slice(0, -1)) {
+          current = current ? `${current}/${segment}` : segment;
+          if (!vault.getAbstractFileByPath(current)) await vault.createFolder(current);
+        }
+        await vault.create(path, content);
+      }
+    } catch (error) {
+      logger.flowError('TimeReport', 'export:failed', error, { path });
+      return { ok: false, path, error: getErrorMessage(error) };
+    }
+
+    logger.flow('TimeReport', 'export:done', { path, rows: report.rows.length });
+    return { ok: true, path };
+  }
+
+  private toReportInput(session: TimeTrackingSession): TimeReportSessionInput | null {
+    const start = new Date(session.start);
+    if (Number.isNaN(start.getTime())) return null;
+    const end = session.end ? new Date(session.end) : null;
+    if (end && Number.isNaN(end.getTime())) return null;
+
+    const file = this.plugin.app.vault.getAbstractFileByPath(session.targetPath);
+    const targetFile = file instanceof TFile ? file : null;
+    return {
+      title: session.title,
+      targetPath: session.targetPath,
+      noteTitle: targetFile ? this.getNoteTitle(targetFile) : undefined,
+      targetId: session.targetId,
+      targetType: session.targetType,
+      start,
+      end,
+      project: targetFile ? this.getProjectTitle(targetFile) : null,
+      tags: targetFile ? this.getTargetTags(targetFile, session) : [],
+    };
+  }
+
+  private getProjectTitle(file: TFile): string | null {
+    const parent = this.plugin.parentLinkResolutionService.getParentsForChild(file)[0]?.file;
+    return parent ? this.getNoteTitle(parent) : null;
+  }
+
+  private getNoteTitle(file: TFile): string {
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    return getPlainDisplayTitle(frontmatter?.title, file.basename) || file.basename;
+  }
+
+  /** Note tags, plus inline tags on the tracked line for task, bullet and line targets. */
+  private getTargetTags(file: TFile, session: TimeTrackingSession): string[] {
+    const cache = this.plugin.app.metadataCache.getFileCache(file);
+    const tags = normalizeTagList(cache?.frontmatter?.tags);
+    const line = session.targetType === 'note' ? undefined : session.targetLineNumber;
+    if (typeof line === 'number') {
+      for (const entry of cache?.tags ?? []) {
+        if (entry.position.start.line !== line) continue;
+        const tag = normalizeTagValue(entry.tag);
+        if (tag) tags.push(tag);
+      }
+    }
+    return Array.from(new Set(tags));
+  }
+}
+
+/** Resolves inclusive local days into a `[start, end)` range. */
+export function resolveTimeReportRange(startInput?: Date | string, endInput?: Date | string): { start: Date; end: Date } {
+  const endDay = parseReportDay(endInput) ?? startOfDay(new Date());
+  const startDay = parseReportDay(startInput)
+    ?? new Date(endDay.getFullYear(), endDay.getMonth(), endDay.getDate() - 6);
+  const [first, last] = startDay.getTime() <= endDay.getTime() ? [startDay, endDay] : [endDay, startDay];
+  return { start: first, end: new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1) };
+}
+
+function parseReportDay(input: Date | string | undefined): Date | null {
+  if (input instanceof Date) return Number.isNaN(input.getTime()) ? null : startOfDay(input);
+  const match = String(input ?? '').trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
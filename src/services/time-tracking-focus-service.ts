@@ -0,0 +1,276 @@
+import { Notice } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import type { TimeTrackingFocusPhase, TimeTrackingFocusState } from '../types';
+import * as logger from '../logger';
+import type { TimeTrackingSession, TimeTrackingTargetInput } from './time-tracking-service';
+
+export interface TimeTrackingFocusStatus {
+  phase: TimeTrackingFocusPhase;
+  cycle: number;
+  cycles: number;
+  remainingMs: number;
+  paused: boolean;
+  sessionId?: string;
+  title: string;
+}
+
+const PHASE_LABELS: Record<TimeTrackingFocusPhase, string> = {
+  work: 'Focus',
+  'short-break': 'Short break',
+  'long-break': 'Long break',
+};
+
+/**
+ * Focus (pomodoro) mode. Work blocks are ordinary timer sessions started and
+ * stopped through `TimeTrackingService`, stamped with `focusCycle`; breaks are
+ * a countdown only and record nothing. State is persisted with the runtime
+ * settings so a reload picks the set back up.
+ */
+export class TimeTrackingFocusService {
+  /** True while this service drives the timer, so its own stop/start calls are not read as user actions. */
+  private driving = false;
+  private advancing = false;
+
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  setup(): void {
+    this.plugin.registerInterval(window.setInterval(() => {
+      void this.tick();
+    }, 1000));
+  }
+
+  isRunning(): boolean {
+    return this.getState() !== null;
+  }
+
+  getStatus(now = Date.now()): TimeTrackingFocusStatus | null {
+    const state = this.getState();
+    if (!state) return null;
+    const endsAt = state.phaseEndsAt ? Date.parse(state.phaseEndsAt) : NaN;
+    return {
+      phase: state.phase,
+      cycle: state.cycle,
+      cycles: this.getCycles(),
+      remainingMs: Number.isFinite(endsAt) ? Math.max(0, endsAt - now) : Math.max(0, state.remainingMs ?? 0),
+      paused: !state.phaseEndsAt,
+      sessionId: state.sessionId,
+      title: state.target.title,
+    };
+  }
+
+  getPhaseLabel(phase: TimeTrackingFocusPhase): string {
+    return PHASE_LABELS[phase];
+  }
+
+  async start(input?: TimeTrackingTargetInput): Promise<boolean> {
+    if (this.isRunning()) {
+      new Notice('Focus mode is already running. Stop it before starting another set.');
+      return false;
+    }
+    const target = input ?? await this.plugin.timeTrackingService.resolveActiveTarget() ?? undefined;
+    const session = await this.startWorkBlock(target, 1);
+    if (!session) return false;
+    this.setState({
+      phase: 'work',
+      cycle: 1,
+      phaseEndsAt: this.phaseEnd('work'),
+      sessionId: session.id,
+      target: {
+        filePath: session.targetPath,
+        lineNumber: session.targetLineNumber,
+        type: session.targetType,
+        title: session.title,
+      },
+      notesMode: session.notesMode,
+      notesPath: session.notesPath,
+      notesHeading: session.notesHeading,
+      notesBlockId: session.notesBlockId,
+    });
+    await this.persist();
+    logger.flow('TimeTrackingFocus', 'focus:start', { targetPath: session.targetPath, cycles: this.getCycles() });
+    return true;
+  }
+
+  /** Ends the current phase now, as if its countdown had run out. */
+  async skip(): Promise<boolean> {
+    if (!this.isRunning()) {
+      new Notice('Focus mode is not running.');
+      return false;
+    }
+    await this.advance(new Date());
+    return true;
+  }
+
+  async stop(): Promise<boolean> {
+    const state = this.getState();
+    if (!state) {
+      new Notice('Focus mode is not running.');
+      return false;
+    }
+    this.setState(null);
+    await this.persist();
+    if (state.phase === 'work' && state.sessionId) {
+      await this.drive(async () => {
+        if (state.phaseEndsAt) await this.plugin.timeTrackingService.stopTimerById(state.sessionId!);
+        else await this.plugin.timeTrackingService.clearPausedTimer({ silent: true });
+      });
+    }
+    this.plugin.timeTrackingStatusBarService?.refresh();
+    new Notice('Stopped focus mode.');
+    return true;
+  }
+
+  /** Called by the timer when a session stops outside focus mode's control. */
+  handleTimerStopped(sessionId: string): void {
+    if (this.driving) return;
+    const state = this.getState();
+    if (!state || state.phase !== 'work' || state.sessionId !== sessionId) return;
+    this.setState(null);
+    void this.persist();
+    logger.flow('TimeTrackingFocus', 'focus:ended-by-timer', { sessionId });
+  }
+
+  handleTimerPaused(sessionId: string, pausedAt: Date): void {
+    if (this.driving) return;
+    const state = this.getState();
+    if (!state || state.phase !== 'work' || state.sessionId !== sessionId || !state.phaseEndsAt) return;
+    this.setState({
+      ...state,
+      phaseEndsAt: null,
+      remainingMs: Math.max(0, Date.parse(state.phaseEndsAt) - pausedAt.getTime()),
+    });
+    void this.persist();
+  }
+
+  handleTimerResumed(previousSessionId: string, session: TimeTrackingSession): void {
+    if (this.driving) return;
+    const state = this.getState();
+    if (!state || state.phase !== 'work' || state.sessionId !== previousSessionId || state.phaseEndsAt) return;
+    this.setState({
+      ...state,
+      phaseEndsAt: new Date(Date.now() + (state.remainingMs ?? 0)).toISOString(),
+      remainingMs: undefined,
+      sessionId: session.id,
+    });
+    void this.persist();
+  }
+
+  /**
+   * Runs a stop-and-restart of one session, as when idle time is discarded,
+   * without ending focus mode. A focus block on the old session follows the
+   * new one and keeps its countdown; it ends only if no new session started.
+   */
+  async followSession(
+    previousSessionId: string,
+    replace: () => Promise<TimeTrackingSession | null>,
+  ): Promise<TimeTrackingSession | null> {
+    const session = await this.drive(replace);
+    const state = this.getState();
+    if (!state || state.phase !== 'work' || state.sessionId !== previousSessionId) return session;
+    this.setState(session ? { ...state, sessionId: session.id } : null);
+    await this.persist();
+    logger.flow('TimeTrackingFocus', session ? 'focus:session-replaced' : 'focus:ended-by-timer', { sessionId: previousSessionId });
+    return session;
+  }
+
+  private async tick(): Promise<void> {
+    const state = this.getState();
+    if (!state?.phaseEndsAt || this.advancing) return;
+    const endsAt = Date.parse(state.phaseEndsAt);
+    if (!Number.isFinite(endsAt) || Date.now() < endsAt) return;
+    await this.advance(new Date(endsAt));
+  }
+
+  private async advance(phaseEnd: Date): Promise<void> {
+    const state = this.getState();
+    if (!state || this.advancing) return;
+    this.advancing = true;
+    try {
+      const end = new Date(Math.min(phaseEnd.getTime(), Date.now()));
+      if (state.phase === 'work') {
+        if (state.sessionId) {
+          await this.drive(async () => {
+            if (state.phaseEndsAt) await this.plugin.timeTrackingService.stopTimerById(state.sessionId!, end);
+            else await this.plugin.timeTrackingService.clearPausedTimer({ silent: true });
+          });
+        }
+        const phase: TimeTrackingFocusPhase = state.cycle >= this.getCycles() ? 'long-break' : 'short-break';
+        this.setState({ ...state, phase, phaseEndsAt: this.phaseEnd(phase), remainingMs: undefined });
+        new Notice(`Focus block ${state.cycle} of ${this.getCycles()} done. ${PHASE_LABELS[phase]}: ${this.getPhaseMinutes(phase)} min.`);
+      } else if (state.phase === 'short-break') {
+        const cycle = state.cycle + 1;
+        const session = await this.startWorkBlock({
+          filePath: state.target.filePath,
+          lineNumber: state.target.lineNumber,
+          type: state.target.type,
+          title: state.target.title,
+        }, cycle, state);
+        if (session) {
+          this.setState({ ...state, phase: 'work', cycle, phaseEndsAt: this.phaseEnd('work'), sessionId: session.id });
+        } else {
+          this.setState(null);
+          new Notice('Focus mode stopped: could not start the next focus block.');
+        }
+      } else {
+        this.setState(null);
+        new Notice('Focus set complete.');
+      }
+      await this.persist();
+      this.plugin.timeTrackingStatusBarService?.refresh();
+    } catch (error) {
+      logger.flowError('TimeTrackingFocus', 'focus:advance-failed', error, { phase: state.phase, cycle: state.cycle });
+    } finally {
+      this.advancing = false;
+    }
+  }
+
+  private async startWorkBlock(
+    target: TimeTrackingTargetInput | undefined,
+    cycle: number,
+    notes?: TimeTrackingFocusState,
+  ): Promise<TimeTrackingSession | null> {
+    return this.drive(() => this.plugin.timeTrackingService.startTimer(
+      target,
+      notes ? { notesPath: notes.notesPath, notesHeading: notes.notesHeading, notesBlockId: notes.notesBlockId } : undefined,
+      { notesMode: notes?.notesMode === 'none' ? 'none' : 'workspace', focusCycle: cycle },
+    ));
+  }
+
+  private async drive<T>(run: () => Promise<T>): Promise<T> {
+    this.driving = true;
+    try {
+      return await run();
+    } finally {
+      this.driving = false;
+    }
+  }
+
+  private phaseEnd(phase: TimeTrackingFocusPhase): string {
+    return new Date(Date.now() + this.getPhaseMinutes(phase) * 60_000).toISOString();
+  }
+
+  private getPhaseMinutes(phase: TimeTrackingFocusPhase): number {
+    const settings = this.plugin.settings;
+    if (phase === 'short-break') return settings.timeTrackingFocusShortBreakMinutes || 5;
+    if (phase === 'long-break') return settings.timeTrackingFocusLongBreakMinutes || 15;
+    return settings.timeTrackingFocusWorkMinutes || 25;
+  }
+
+  private getCycles(): number {
+    return this.plugin.settings.timeTrackingFocusCycles || 4;
+  }
+
+  private getState(): TimeTrackingFocusState | null {
+    if (this.plugin.settings.enableTimeTracking === false) return null;
+    const state = this.plugin.settings.timeTrackingFocusState;
+    return state && typeof state === 'object' && state.target?.filePath ? state : null;
+  }
+
+  private setState(state: TimeTrackingFocusState | null): void {
+    this.plugin.settings.timeTrackingFocusState = state;
+  }
+
+  private async persist(): Promise<void> {
+    await this.plugin.persistRuntimeSettingsState();
+  }
+}
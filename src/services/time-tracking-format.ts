@@ -14,6 +14,8 @@ export interface TimeTrackingSessionRecord {
   start: string;
   end?: string;
   durationMinutes?: number;
+  /** Set on sessions recorded by focus mode: the one-based focus block within its set. */
+  focusCycle?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -53,6 +55,7 @@ export function normalizeTimeTrackingRecord(value: unknown): TimeTrackingSession
   const sourcePath = String(record.sourcePath || '').trim();
   const lineNumber = Number(record.lineNumber);
   const durationMinutes = Number(record.durationMinutes);
+  const focusCycle = Number(record.focusCycle);
   const notesPath = String(record.notesPath || '').trim();
   const notesHeading = String(record.notesHeading || '').trim();
   const notesBlockId = String(record.notesBlockId || '').trim().replace(/^\^+/, '');
@@ -71,6 +74,7 @@ export function normalizeTimeTrackingRecord(value: unknown): TimeTrackingSession
     start,
     end: String(record.end || '').trim() || undefined,
     durationMinutes: Number.isFinite(durationMinutes) && durationMinutes > 0 ? durationMinutes : undefined,
+    ...(Number.isInteger(focusCycle) && focusCycle > 0 ? { focusCycle } : {}),
     createdAt: String(record.createdAt || start).trim() || start,
     updatedAt: String(record.updatedAt || record.end || start).trim() || start,
   };
@@ -31,6 +31,13 @@ import {
   removeEmptyTimeTrackingSessionAnchor,
   resolveTimeTrackingSessionAnchor,
 } from './time-tracking-daily-note-section';
+import { promptIdleTime, type IdleTimeChoice } from '../modals/idle-time-modal';
+import {
+  addTrackedSession,
+  summarizeTrackedTime,
+  type TrackedTimeSummary,
+  type TrackedTimeTotals,
+} from './tracked-time-core';
 
 export type {
   TimeTrackingSessionRecord,
@@ -55,6 +62,8 @@ export interface TimeTrackingRangeInput {
 export interface TimeTrackingStartOptions {
   notesMode?: 'workspace' | 'none';
   start?: Date | string | number | null;
+  /** Marks the session as a focus-mode block. */
+  focusCycle?: number;
 }
 
 export interface TimeTrackingSession extends TimeTrackingSessionRecord {
@@ -110,9 +119,18 @@ interface EnsuredTimeTrackingNotesReference extends TimeTrackingNotesReference {
 const TPS_ID_FIELD = 'tpsId';
 const RUNNING_SCHEDULE_AHEAD_MINUTES = 5;
 const RUNNING_SCHEDULE_SYNC_INTERVAL_MS = 60_000;
+const IDLE_ACTIVITY_STORAGE_KEY = 'tps-gcm-time-tracking-last-activity';
+const IDLE_ACTIVITY_PERSIST_INTERVAL_MS = 30_000;
+const IDLE_ACTIVITY_DOM_EVENTS = ['keydown', 'pointerdown', 'wheel', 'touchstart'] as const;
 
 export class TimeTrackingService {
   private activeTimerCountsByPath = new Map<string, number>();
+  private lastActivityAt = Date.now();
+  private lastActivityPersistedAt = 0;
+  private idlePromptOpen = false;
+  /** Tracked time per target `tpsId`, rebuilt lazily after session frontmatter changes. */
+  private trackedTimeIndex: Map<string, TrackedTimeTotals> | null = null;
+  private trackedTimeSourcePaths = new Set<string>();
 
   constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
 
@@ -124,6 +142,102 @@ export class TimeTrackingService {
       window.setTimeout(() => void this.syncRunningScheduledMetadata(), 2000);
       window.setTimeout(() => void this.refreshActiveTimerCache(), 2000);
     });
+    this.setupIdleDetection();
+    this.plugin.registerEvent(this.plugin.app.metadataCache.on('changed', (file) => this.invalidateTrackedTime(file)));
+    this.plugin.registerEvent(this.plugin.app.vault.on('delete', (file) => this.invalidateTrackedTime(file)));
+    this.plugin.registerEvent(this.plugin.app.vault.on('rename', (file, oldPath) => {
+      if (this.trackedTimeSourcePaths.has(oldPath)) this.trackedTimeIndex = null;
+      else this.invalidateTrackedTime(file);
+    }));
+  }
+
+  /**
+   * Tracks the last editor/workspace activity on this device. The first
+   * activity after a gap longer than the idle threshold (including time spent
+   * backgrounded or closed) offers to trim the gap out of running timers.
+   */
+  private setupIdleDetection(): void {
+    this.lastActivityAt = this.loadLastActivity() ?? Date.now();
+    const markActivity = () => this.recordActivity();
+    for (const type of IDLE_ACTIVITY_DOM_EVENTS) {
+      this.plugin.registerDomEvent(document, type, markActivity, { capture: true, passive: true });
+    }
+    this.plugin.registerEvent(this.plugin.app.workspace.on('editor-change', markActivity));
+    this.plugin.registerDomEvent(document, 'visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.persistLastActivity();
+      else markActivity();
+    });
+  }
+
+  /** Actual vs estimate for a note: sessions targeting its `tpsId` against its `timeEstimate`. */
+  getTrackedTimeForNote(file: TFile): TrackedTimeSummary | null {
+    if (!this.isEnabled()) return null;
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+    const tpsId = this.getFrontmatterTpsId(file);
+    const estimateKey = frontmatter ? findKeyCaseInsensitive(frontmatter, 'timeEstimate') : null;
+    return summarizeTrackedTime(
+      tpsId ? this.getTrackedTimeIndex().get(tpsId) : undefined,
+      estimateKey ? frontmatter![estimateKey] : null,
+    );
+  }
+
+  /** Actual vs estimate for a task line, read from its `tpsId` and `timeEstimate` inline fields. */
+  getTrackedTimeForLine(line: string): TrackedTimeSummary | null {
+    if (!this.isEnabled()) return null;
+    const tpsId = readInlineFieldValue(line, TPS_ID_FIELD) || readInlineFieldValue(line, 'subitemId');
+    return summarizeTrackedTime(
+      tpsId ? this.getTrackedTimeIndex().get(tpsId) : undefined,
+      readInlineFieldValue(line, 'timeEstimate'),
+    );
+  }
+
+  getIdleThresholdMinutes(): number {
+    const minutes = Number(this.plugin.settings.timeTrackingIdleThresholdMinutes);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : 0;
+  }
+
+  /**
+   * Applies an idle-time choice to one running session. `stop` ends it at
+   * `idleStart`; `discard` also ends it there and continues the same target in
+   * a new session from `idleEnd`, so the gap is left out of both records. A
+   * focus block on the session carries on in the new one.
+   */
+  async resolveIdleTime(
+    id: string,
+    idleStartInput: Date | string | number,
+    idleEndInput: Date | string | number,
+    choice: IdleTimeChoice,
+  ): Promise<TimeTrackingSession | null> {
+    if (choice === 'keep') return null;
+    const idleStart = this.normalizeDateInput(idleStartInput);
+    const idleEnd = this.normalizeDateInput(idleEndInput) ?? new Date();
+    if (!idleStart) return null;
+
+    if (choice === 'stop') return this.stopTimerById(id, idleStart);
+    const continueSession = async (): Promise<TimeTrackingSession | null> => {
+      const stopped = await this.stopTimerById(id, idleStart);
+      if (!stopped) return null;
+      return this.startTimer(
+        {
+          filePath: stopped.targetPath,
+          lineNumber: stopped.targetLineNumber,
+          type: stopped.targetType,
+          title: stopped.title,
+        },
+        {
+          notesPath: stopped.notesPath,
+          notesHeading: stopped.notesHeading,
+          notesBlockId: stopped.notesBlockId,
+        },
+        {
+          notesMode: stopped.notesMode === 'none' ? 'none' : 'workspace',
+          start: idleEnd,
+          focusCycle: stopped.focusCycle,
+        },
+      );
+    };
+    const focus = this.plugin.timeTrackingFocusService;
+    return focus ? focus.followSession(id, continueSession) : continueSession();
   }
 
   isEnabled(): boolean {
@@ -172,6 +286,7 @@ export class TimeTrackingService {
       lineNumber: target.lineNumber,
       notesMode: options.notesMode === 'none' ? 'none' : 'workspace',
       start: timestamp,
+      ...(options.focusCycle ? { focusCycle: options.focusCycle } : {}),
       createdAt: timestamp,
       updatedAt: timestamp,
     };
@@ -308,6 +423,7 @@ export class TimeTrackingService {
     await this.clearPausedTimer({ silent: true });
     await this.refreshActiveTimerCache();
     this.refreshStatusBar();
+    this.plugin.timeTrackingFocusService?.handleTimerStopped(hydrated.id);
     new Notice(`Stopped timer: ${hydrated.title}`);
     return hydrated;
   }
@@ -335,6 +451,7 @@ export class TimeTrackingService {
     }
     await this.refreshActiveTimerCache();
     this.refreshStatusBar();
+    this.plugin.timeTrackingFocusService?.handleTimerStopped(hydrated.id);
     new Notice(`Stopped timer: ${hydrated.title}`);
     return hydrated;
   }
@@ -361,6 +478,7 @@ export class TimeTrackingService {
     }
     await this.refreshActiveTimerCache();
     this.refreshStatusBar();
+    this.plugin.timeTrackingFocusService?.handleTimerStopped(hydrated.id);
     new Notice(`Stopped timer: ${hydrated.title}`);
     return hydrated;
   }
@@ -398,7 +516,9 @@ export class TimeTrackingService {
       notesHeading: hydrated.notesHeading,
       notesBlockId: hydrated.notesBlockId,
       notesMode: active.record.notesMode,
+      focusCycle: active.record.focusCycle,
     };
+    this.plugin.timeTrackingFocusService?.handleTimerPaused(hydrated.id, end);
     await this.persistTimeTrackingState();
     await this.refreshActiveTimerCache();
     this.refreshStatusBar();
@@ -435,10 +555,11 @@ export class TimeTrackingService {
         notesHeading: paused.notesHeading,
         notesBlockId: paused.notesBlockId,
       },
-      { notesMode: paused.notesMode === 'none' ? 'none' : 'workspace' },
+      { notesMode: paused.notesMode === 'none' ? 'none' : 'workspace', focusCycle: paused.focusCycle },
     );
     if (started) {
       await this.clearPausedTimer({ silent: true });
+      if (paused.lastSessionId) this.plugin.timeTrackingFocusService?.handleTimerResumed(paused.lastSessionId, started);
     }
     return started;
   }
@@ -447,6 +568,9 @@ export class TimeTrackingService {
     const paused = this.getPausedTimer();
     if (!paused) return false;
     this.plugin.settings.timeTrackingPausedSession = null;
+    if (!options?.silent && paused.lastSessionId) {
+      this.plugin.timeTrackingFocusService?.handleTimerStopped(paused.lastSessionId);
+    }
     await this.persistTimeTrackingState();
     this.refreshStatusBar();
     if (!options?.silent) {
@@ -601,6 +725,25 @@ export class TimeTrackingService {
     return true;
   }
 
+  /**
+   * Points the sessions recorded against `fromId` in `sourcePath` at `toId`,
+   * after a copied note or task line in that file was given a new id.
+   */
+  async retargetSessions(fromId: string, sourcePath: string, toId: string): Promise<number> {
+    let moved = 0;
+    for (const stored of await this.scanStoredSessions()) {
+      if (stored.record.targetId !== fromId || stored.record.sourcePath !== sourcePath) continue;
+      await this.replaceStoredSession(stored, {
+        ...stored.record,
+        targetId: toId,
+        updatedAt: this.formatDateTime(new Date()),
+      });
+      moved += 1;
+    }
+    if (moved > 0) this.trackedTimeIndex = null;
+    return moved;
+  }
+
   async openSessionTarget(id: string): Promise<boolean> {
     const stored = await this.findStoredSession(id);
     if (!stored) return false;
@@ -816,6 +959,88 @@ export class TimeTrackingService {
     if (syncedFiles.size > 0) this.refreshStatusBar();
   }
 
+  private recordActivity(): void {
+    const now = Date.now();
+    const idleSince = this.lastActivityAt;
+    this.lastActivityAt = now;
+    if (now - this.lastActivityPersistedAt >= IDLE_ACTIVITY_PERSIST_INTERVAL_MS) this.persistLastActivity();
+    const thresholdMinutes = this.getIdleThresholdMinutes();
+    if (thresholdMinutes > 0 && now - idleSince >= thresholdMinutes * 60_000) {
+      void this.handleReturnFromIdle(new Date(idleSince), new Date(now));
+    }
+  }
+
+  private async handleReturnFromIdle(idleStart: Date, idleEnd: Date): Promise<void> {
+    if (this.idlePromptOpen || !this.isEnabled()) return;
+    this.idlePromptOpen = true;
+    try {
+      const sessions = (await this.getActiveTimers()).filter((session) => (
+        (this.normalizeDateInput(session.start)?.getTime() ?? Number.POSITIVE_INFINITY) < idleStart.getTime()
+      ));
+      if (sessions.length === 0) return;
+      const choice = await promptIdleTime(this.plugin.app, {
+        idleStart,
+        idleEnd,
+        titles: sessions.map((session) => session.title),
+      });
+      logger.flow('TimeTracking', 'idle:resolved', {
+        choice,
+        sessions: sessions.length,
+        idleMinutes: Math.round((idleEnd.getTime() - idleStart.getTime()) / 60_000),
+      });
+      for (const session of sessions) {
+        await this.resolveIdleTime(session.id, idleStart, idleEnd, choice);
+      }
+    } catch (error) {
+      logger.flowError('TimeTracking', 'idle:resolve-failed', error);
+    } finally {
+      this.idlePromptOpen = false;
+    }
+  }
+
+  private getTrackedTimeIndex(): Map<string, TrackedTimeTotals> {
+    if (this.trackedTimeIndex) return this.trackedTimeIndex;
+    const key = this.getPropertyKey();
+    const index = new Map<string, TrackedTimeTotals>();
+    const sourcePaths = new Set<string>();
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      if (this.plugin.filePropertiesService?.isCompanionFile(file)) continue;
+      if (this.shouldIgnoreTimeTrackingPath(file.path)) continue;
+      const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+      const existingKey = frontmatter ? findKeyCaseInsensitive(frontmatter, key) : null;
+      if (!frontmatter || !existingKey) continue;
+      sourcePaths.add(file.path);
+      for (const record of this.normalizeRecordList(frontmatter[existingKey])) {
+        addTrackedSession(index, record.targetId, this.normalizeDateInput(record.start), this.normalizeDateInput(record.end));
+      }
+    }
+    this.trackedTimeIndex = index;
+    this.trackedTimeSourcePaths = sourcePaths;
+    return index;
+  }
+
+  private invalidateTrackedTime(file: { path: string }): void {
+    if (!this.trackedTimeIndex) return;
+    if (this.trackedTimeSourcePaths.has(file.path)) {
+      this.trackedTimeIndex = null;
+      return;
+    }
+    const frontmatter = file instanceof TFile
+      ? this.plugin.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined
+      : undefined;
+    if (frontmatter && findKeyCaseInsensitive(frontmatter, this.getPropertyKey())) this.trackedTimeIndex = null;
+  }
+
+  private loadLastActivity(): number | null {
+    const value = Number(this.plugin.app.loadLocalStorage(IDLE_ACTIVITY_STORAGE_KEY));
+    return Number.isFinite(value) && value > 0 && value <= Date.now() ? value : null;
+  }
+
+  private persistLastActivity(): void {
+    this.lastActivityPersistedAt = Date.now();
+    this.plugin.app.saveLocalStorage(IDLE_ACTIVITY_STORAGE_KEY, String(this.lastActivityAt));
+  }
+
   private ensureEnabled(): boolean {
     if (this.isEnabled()) return true;
     new Notice('Time tracking is disabled in TPS Global Context Menu settings.');
@@ -1468,6 +1693,7 @@ export class TimeTrackingService {
     if (!targetId || !sourcePath || !pausedAt) return null;
     const lineNumber = Number(raw.lineNumber);
     const elapsedMs = Number(raw.elapsedMs);
+    const focusCycle = Number(raw.focusCycle);
     return {
       targetId,
       targetType,
@@ -1481,6 +1707,7 @@ export class TimeTrackingService {
       notesHeading: String(raw.notesHeading || '').trim() || undefined,
       notesBlockId: String(raw.notesBlockId || '').trim().replace(/^\^+/, '') || undefined,
       notesMode: raw.notesMode === 'none' ? 'none' : 'workspace',
+      focusCycle: Number.isInteger(focusCycle) && focusCycle > 0 ? focusCycle : undefined,
     };
   }
 
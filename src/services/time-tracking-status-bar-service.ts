@@ -2,11 +2,13 @@ import { Menu, Notice, Platform, setIcon } from 'obsidian';
 import type TPSGlobalContextMenuPlugin from '../main';
 import type { TimeTrackingPausedSessionState } from '../types';
 import type { TimeTrackingSession } from './time-tracking-service';
+import type { TimeTrackingFocusStatus } from './time-tracking-focus-service';
 import * as logger from '../logger';
 
 type StatusBarTimerState =
-  | { kind: 'active'; session: TimeTrackingSession; elapsedMs: number }
-  | { kind: 'paused'; paused: TimeTrackingPausedSessionState; elapsedMs: number };
+  | { kind: 'active'; session: TimeTrackingSession; elapsedMs: number; focus: TimeTrackingFocusStatus | null }
+  | { kind: 'paused'; paused: TimeTrackingPausedSessionState; elapsedMs: number; focus: TimeTrackingFocusStatus | null }
+  | { kind: 'break'; focus: TimeTrackingFocusStatus; elapsedMs: number };
 
 export class TimeTrackingStatusBarService {
   private itemEl: HTMLElement | null = null;
@@ -108,12 +110,15 @@ export class TimeTrackingStatusBarService {
 
   private async getTimerState(): Promise<StatusBarTimerState | null> {
     if (this.plugin.settings.enableTimeTracking === false) return null;
+    const focus = this.plugin.timeTrackingFocusService?.getStatus() ?? null;
+    if (focus && focus.phase !== 'work') return { kind: 'break', focus, elapsedMs: focus.remainingMs };
     const status = await this.plugin.timeTrackingService.getRuntimeStatus();
     if (status.active) {
       return {
         kind: 'active',
         session: status.active,
         elapsedMs: this.getElapsedMs(status.active.start),
+        focus: focus?.sessionId === status.active.id ? focus : null,
       };
     }
     if (status.paused) {
@@ -121,6 +126,7 @@ export class TimeTrackingStatusBarService {
         kind: 'paused',
         paused: status.paused,
         elapsedMs: Math.max(0, status.paused.elapsedMs || 0),
+        focus: focus?.paused && focus.sessionId === status.paused.lastSessionId ? focus : null,
       };
     }
     return null;
@@ -128,9 +134,14 @@ export class TimeTrackingStatusBarService {
 
   private render(state: StatusBarTimerState): void {
     if (!this.itemEl) return;
+    if (state.kind === 'break') {
+      this.renderBreak(state.focus);
+      return;
+    }
     this.itemEl.empty();
     this.itemEl.style.display = '';
     this.itemEl.toggleClass('is-paused', state.kind === 'paused');
+    this.itemEl.toggleClass('is-focus', state.focus !== null);
 
     const container = this.itemEl.createDiv({ cls: 'tps-gcm-time-tracker-status' });
     container.addEventListener('contextmenu', (evt) => {
@@ -161,7 +172,9 @@ export class TimeTrackingStatusBarService {
 
     const textEl = mainButton.createSpan({ cls: 'tps-gcm-time-tracker-text' });
     const title = state.kind === 'active' ? state.session.title : state.paused.title;
-    textEl.textContent = `${state.kind === 'paused' ? 'Paused ' : ''}${this.formatElapsed(state.elapsedMs)} | ${title || 'Tracked time'}`;
+    textEl.textContent = state.focus
+      ? `${state.kind === 'paused' ? 'Paused ' : ''}${this.formatFocusPrefix(state.focus)} ${this.formatElapsed(state.focus.remainingMs)} left | ${title || 'Tracked time'}`
+      : `${state.kind === 'paused' ? 'Paused ' : ''}${this.formatElapsed(state.elapsedMs)} | ${title || 'Tracked time'}`;
 
     const toggleButton = container.createEl('button', {
       cls: 'tps-gcm-time-tracker-action',
@@ -200,16 +213,63 @@ export class TimeTrackingStatusBarService {
     });
   }
 
+  private renderBreak(focus: TimeTrackingFocusStatus): void {
+    if (!this.itemEl) return;
+    const focusService = this.plugin.timeTrackingFocusService;
+    this.itemEl.empty();
+    this.itemEl.style.display = '';
+    this.itemEl.toggleClass('is-paused', false);
+    this.itemEl.toggleClass('is-focus', true);
+
+    const container = this.itemEl.createDiv({ cls: 'tps-gcm-time-tracker-status' });
+    const labelEl = container.createDiv({ cls: 'tps-gcm-time-tracker-main' });
+    setIcon(labelEl.createSpan({ cls: 'tps-gcm-time-tracker-icon' }), 'coffee');
+    const textEl = labelEl.createSpan({ cls: 'tps-gcm-time-tracker-text' });
+    textEl.textContent = `${focusService.getPhaseLabel(focus.phase)} ${this.formatElapsed(focus.remainingMs)} | ${focus.title || 'Tracked time'}`;
+
+    const skipLabel = focus.phase === 'long-break' ? 'Finish focus set' : 'Start next focus block';
+    const skipButton = container.createEl('button', {
+      cls: 'tps-gcm-time-tracker-action',
+      attr: { type: 'button', 'aria-label': skipLabel, title: skipLabel },
+    });
+    setIcon(skipButton, 'skip-forward');
+    skipButton.addEventListener('click', async (evt) => {
+      evt.preventDefault();
+      evt.stopPropagation();
+      await focusService.skip();
+    });
+
+    const stopButton = container.createEl('button', {
+      cls: 'tps-gcm-time-tracker-action',
+      attr: { type: 'button', 'aria-label': 'Stop focus mode', title: 'Stop focus mode' },
+    });
+    setIcon(stopButton, 'square');
+    stopButton.addEventListener('click', async (evt) => {
+      evt.preventDefault();
+      evt.stopPropagation();
+      await focusService.stop();
+    });
+  }
+
+  private formatFocusPrefix(focus: TimeTrackingFocusStatus): string {
+    return `${this.plugin.timeTrackingFocusService.getPhaseLabel(focus.phase)} ${focus.cycle}/${focus.cycles}`;
+  }
+
   private refreshCachedElapsed(state: StatusBarTimerState | null): StatusBarTimerState | null {
     if (!state) return null;
     if (state.kind === 'paused') return state;
+    const focus = state.focus ? this.plugin.timeTrackingFocusService?.getStatus() ?? null : null;
+    if (state.kind === 'break') {
+      return focus && focus.phase === state.focus.phase ? { kind: 'break', focus, elapsedMs: focus.remainingMs } : state;
+    }
     return {
       ...state,
       elapsedMs: this.getElapsedMs(state.session.start),
+      focus: focus?.sessionId === state.session.id ? focus : null,
     };
   }
 
-  private showContextMenu(evt: MouseEvent, state: StatusBarTimerState): void {
+  private showContextMenu(evt: MouseEvent, state: Exclude<StatusBarTimerState, { kind: 'break' }>): void {
     const menu = new Menu();
     menu.addItem((item) => {
       item
@@ -257,6 +317,21 @@ export class TimeTrackingStatusBarService {
           if (!changed) this.refresh();
         });
     });
+    if (state.focus) {
+      menu.addSeparator();
+      menu.addItem((item) => {
+        item
+          .setTitle('End focus block now')
+          .setIcon('skip-forward')
+          .onClick(() => void this.plugin.timeTrackingFocusService.skip());
+      });
+      menu.addItem((item) => {
+        item
+          .setTitle('Stop focus mode')
+          .setIcon('circle-stop')
+          .onClick(() => void this.plugin.timeTrackingFocusService.stop());
+      });
+    }
     menu.showAtMouseEvent(evt);
   }
 
@@ -316,6 +391,12 @@ export class TimeTrackingStatusBarService {
 
   private buildRenderKey(state: StatusBarTimerState): string {
     const seconds = Math.floor(state.elapsedMs / 1000);
+    if (state.kind === 'break') {
+      return `break:${state.focus.phase}:${state.focus.cycle}:${Math.ceil(state.focus.remainingMs / 1000)}`;
+    }
+    if (state.focus) {
+      return `${state.kind}:focus:${state.focus.sessionId}:${Math.ceil(state.focus.remainingMs / 1000)}:${state.focus.cycle}`;
+    }
     if (state.kind === 'active') {
       return `active:${state.session.id}:${seconds}:${state.session.title}`;
     }
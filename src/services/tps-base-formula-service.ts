@@ -28,6 +28,8 @@ export type TpsFormulaFileContext = {
   tags?: unknown[];
   links?: unknown[];
   properties?: Record<string, unknown>;
+  trackedMinutes?: number;
+  remainingEstimate?: number | null;
 };
 
 export type TpsFormulaRecordContext = {
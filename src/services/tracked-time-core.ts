@@ -0,0 +1,83 @@
+/**
+ * Estimate-vs-actual helpers behind the derived "tracked" property. Totals are
+ * kept per target `tpsId`; running sessions are stored by start time so the
+ * summary counts them up to the moment it is read.
+ */
+
+export interface TrackedTimeTotals {
+  closedMs: number;
+  runningStarts: number[];
+}
+
+export interface TrackedTimeSummary {
+  trackedMinutes: number;
+  estimateMinutes: number | null;
+  /** Estimate minus tracked time; negative once over budget. Null without an estimate. */
+  remainingMinutes: number | null;
+  overBudget: boolean;
+  running: boolean;
+}
+
+export function addTrackedSession(
+  index: Map<string, TrackedTimeTotals>,
+  targetId: string,
+  start: Date | null,
+  end: Date | null,
+): void {
+  const id = String(targetId || '').trim();
+  if (!id || !start) return;
+  const totals = index.get(id) ?? { closedMs: 0, runningStarts: [] };
+  if (end) totals.closedMs += Math.max(0, end.getTime() - start.getTime());
+  else totals.runningStarts.push(start.getTime());
+  index.set(id, totals);
+}
+
+export function parseEstimateMinutes(value: unknown): number | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (raw === null || raw === undefined || raw === '') return null;
+  const minutes = Number.parseFloat(String(raw).trim());
+  return Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes) : null;
+}
+
+/** Returns null when the item has neither tracked time nor an estimate. */
+export function summarizeTrackedTime(
+  totals: TrackedTimeTotals | undefined,
+  estimate: unknown,
+  now = Date.now(),
+): TrackedTimeSummary | null {
+  const estimateMinutes = parseEstimateMinutes(estimate);
+  const runningMs = (totals?.runningStarts ?? []).reduce((sum, start) => sum + Math.max(0, now - start), 0);
+  const trackedMs = (totals?.closedMs ?? 0) + runningMs;
+  if (!totals && estimateMinutes === null) return null;
+  const trackedMinutes = Math.round(trackedMs / 60_000);
+  const remainingMinutes = estimateMinutes === null ? null : estimateMinutes - trackedMinutes;
+  return {
+    trackedMinutes,
+    estimateMinutes,
+    remainingMinutes,
+    overBudget: remainingMinutes !== null && remainingMinutes < 0,
+    running: (totals?.runningStarts.length ?? 0) > 0,
+  };
+}
+
+export function formatTrackedMinutes(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+/** `45m / 1h`, or just the tracked time when there is no estimate. */
+export function formatTrackedTime(summary: TrackedTimeSummary): string {
+  const tracked = formatTrackedMinutes(summary.trackedMinutes);
+  return summary.estimateMinutes === null ? tracked : `${tracked} / ${formatTrackedMinutes(summary.estimateMinutes)}`;
+}
+
+export function describeTrackedTime(summary: TrackedTimeSummary): string {
+  const text = formatTrackedTime(summary);
+  if (summary.remainingMinutes === null) return `Tracked ${text}`;
+  return summary.overBudget
+    ? `Tracked ${text}, ${formatTrackedMinutes(-summary.remainingMinutes)} over estimate`
+    : `Tracked ${text}, ${formatTrackedMinutes(summary.remainingMinutes)} left`;
+}
@@ -0,0 +1,177 @@
+export const URI_ACTION_NAMES = {
+  capture: 'tps-gcm-capture',
+  'create-task': 'tps-gcm-create-task',
+  timer: 'tps-gcm-timer',
+  'open-home': 'tps-gcm-open-home',
+  'set-property': 'tps-gcm-set-property',
+} as const;
+
+export type UriActionType = keyof typeof URI_ACTION_NAMES;
+export type UriTimerCommand = 'start' | 'stop' | 'pause' | 'resume';
+
+/** A note addressed by vault path or by its `tpsId`; never both. */
+export type UriNoteRef = { path: string } | { id: string };
+
+export type UriAction =
+  | { type: 'capture'; text: string; task: boolean; date: string | null }
+  | {
+    type: 'create-task';
+    title: string;
+    note: UriNoteRef | null;
+    status: string;
+    fields: Record<string, string>;
+    tags: string[];
+    template: string;
+  }
+  | { type: 'timer'; command: UriTimerCommand; note: UriNoteRef | null }
+  | { type: 'open-home'; date: string | null }
+  | { type: 'set-property'; note: UriNoteRef; key: string; value: string };
+
+export type UriActionValidation =
+  | { ok: true; value: UriAction }
+  | { ok: false; reason: string };
+
+const MAX_TEXT_LENGTH = 10_000;
+const MAX_TITLE_LENGTH = 500;
+const MAX_PATH_LENGTH = 1024;
+const MAX_SHORT_LENGTH = 128;
+const MAX_VALUE_LENGTH = 2000;
+const MAX_FIELDS = 20;
+const FIELD_PREFIX = 'field.';
+const CONTROL_PATTERN = /[\u0000-\u001f\u007f\u2028\u2029]/u;
+/** Capture text may span lines; every other control character is refused. */
+const TEXT_CONTROL_PATTERN = /[\u0000-\u0009\u000b-\u001f\u007f\u2028\u2029]/u;
+const KEY_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/u;
+const TAG_PATTERN = /^#?[^\s#,]+$/u;
+const PROTECTED_KEYS = new Set(['tpsid', 'externalid', 'externaleventid', 'tpscalendaruid']);
+const TIMER_COMMANDS = new Set<string>(['start', 'stop', 'pause', 'resume']);
+
+/** Parameters each action accepts besides `action` and `vault`, which Obsidian adds. */
+const ALLOWED_KEYS: Record<UriActionType, readonly string[]> = {
+  capture: ['text', 'task', 'date'],
+  'create-task': ['title', 'path', 'id', 'status', 'tags', 'template'],
+  timer: ['command', 'path', 'id'],
+  'open-home': ['date'],
+  'set-property': ['path', 'id', 'key', 'value'],
+};
+
+export function getUriActionType(action: unknown): UriActionType | null {
+  const entry = Object.entries(URI_ACTION_NAMES).find(([, name]) => name === action);
+  return entry ? entry[0] as UriActionType : null;
+}
+
+/**
+ * Checks an Obsidian URI query for one action. Unknown keys, non-string values,
+ * over-long input and control characters are refused, so a link can only ever
+ * do what its action name says.
+ */
+export function validateUriActionParams(
+  type: UriActionType,
+  input: Record<string, unknown> | null | undefined,
+): UriActionValidation {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { ok: false, reason: 'invalid-container' };
+  const allowed = ALLOWED_KEYS[type];
+  const params: Record<string, string> = {};
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (key === 'action' || key === 'vault') continue;
+    if (typeof value !== 'string') return { ok: false, reason: 'invalid-value-type' };
+    if (type === 'create-task' && key.startsWith(FIELD_PREFIX)) {
+      const field = key.slice(FIELD_PREFIX.length);
+      if (!KEY_PATTERN.test(field) || field.length > MAX_SHORT_LENGTH) return { ok: false, reason: 'invalid-field' };
+      if (PROTECTED_KEYS.has(field.toLowerCase())) return { ok: false, reason: 'protected-key' };
+      if (!isPlainValue(value, MAX_VALUE_LENGTH, true)) return { ok: false, reason: 'invalid-field' };
+      fields[field] = value;
+      continue;
+    }
+    if (!allowed.includes(key)) return { ok: false, reason: 'invalid-keys' };
+    params[key] = value;
+  }
+  if (Object.keys(fields).length > MAX_FIELDS) return { ok: false, reason: 'too-many-fields' };
+
+  switch (type) {
+    case 'capture': {
+      const text = (params.text ?? '').replace(/\r\n?/gu, '\n').trim();
+      if (!text || text.length > MAX_TEXT_LENGTH || TEXT_CONTROL_PATTERN.test(text)) return { ok: false, reason: 'invalid-text' };
+      const task = parseBooleanParam(params.task);
+      if (task === null) return { ok: false, reason: 'invalid-task' };
+      const date = parseDateParam(params.date);
+      if (date === false) return { ok: false, reason: 'invalid-date' };
+      return { ok: true, value: { type, text, task, date } };
+    }
+    case 'create-task': {
+      const title = (params.title ?? '').trim();
+      if (!title || !isPlainValue(title, MAX_TITLE_LENGTH)) return { ok: false, reason: 'invalid-title' };
+      const note = parseNoteRef(params);
+      if (note === false) return { ok: false, reason: 'invalid-note' };
+      const status = (params.status ?? '').trim();
+      if (status && !isPlainValue(status, MAX_SHORT_LENGTH)) return { ok: false, reason: 'invalid-status' };
+      const tags = (params.tags ?? '').split(',').map((tag) => tag.trim()).filter(Boolean);
+      if (tags.some((tag) => !TAG_PATTERN.test(tag) || tag.length > MAX_SHORT_LENGTH)) return { ok: false, reason: 'invalid-tags' };
+      const template = (params.template ?? '').trim();
+      if (template && !isPlainValue(template, MAX_PATH_LENGTH)) return { ok: false, reason: 'invalid-template' };
+      return {
+        ok: true,
+        value: { type, title, note, status, fields, tags: tags.map((tag) => tag.replace(/^#/u, '')), template },
+      };
+    }
+    case 'timer': {
+      const command = (params.command ?? '').trim().toLowerCase();
+      if (!TIMER_COMMANDS.has(command)) return { ok: false, reason: 'invalid-command' };
+      const note = parseNoteRef(params);
+      if (note === false || (note && command !== 'start')) return { ok: false, reason: 'invalid-note' };
+      return { ok: true, value: { type, command: command as UriTimerCommand, note } };
+    }
+    case 'open-home': {
+      const date = parseDateParam(params.date);
+      if (date === false) return { ok: false, reason: 'invalid-date' };
+      return { ok: true, value: { type, date } };
+    }
+    case 'set-property': {
+      const note = parseNoteRef(params);
+      if (!note) return { ok: false, reason: 'invalid-note' };
+      const key = (params.key ?? '').trim();
+      if (!KEY_PATTERN.test(key) || key.length > MAX_SHORT_LENGTH) return { ok: false, reason: 'invalid-key' };
+      if (PROTECTED_KEYS.has(key.toLowerCase())) return { ok: false, reason: 'protected-key' };
+      if (params.value === undefined || !isPlainValue(params.value, MAX_VALUE_LENGTH, true)) {
+        return { ok: false, reason: 'invalid-value' };
+      }
+      return { ok: true, value: { type, note, key, value: params.value } };
+    }
+  }
+}
+
+function parseNoteRef(params: Record<string, string>): UriNoteRef | null | false {
+  const path = params.path?.trim();
+  const id = params.id?.trim();
+  if (path && id) return false;
+  if (path) {
+    if (!isPlainValue(path, MAX_PATH_LENGTH) || path.includes('\\')) return false;
+    const segments = path.replace(/^\/+/u, '').split('/');
+    if (segments.some((segment) => !segment || segment === '.' || segment === '..')) return false;
+    return { path: segments.join('/') };
+  }
+  if (id) return isPlainValue(id, MAX_SHORT_LENGTH) ? { id } : false;
+  if (params.path !== undefined || params.id !== undefined) return false;
+  return null;
+}
+
+function parseBooleanParam(value: string | undefined): boolean | null {
+  if (value === undefined || value === '' || value === 'false' || value === '0') return false;
+  if (value === 'true' || value === '1') return true;
+  return null;
+}
+
+/** `YYYY-MM-DD`, `today`, or absent; false when present but invalid. */
+function parseDateParam(value: string | undefined): string | null | false {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed || trimmed === 'today') return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/u.exec(trimmed);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3]) ? trimmed : false;
+}
+
+function isPlainValue(value: string, maxLength: number, allowEmpty = false): boolean {
+  return (allowEmpty || value.length > 0) && value.length <= maxLength && !CONTROL_PATTERN.test(value);
+}
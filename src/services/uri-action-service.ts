@@ -0,0 +1,143 @@
+import { Notice, TFile, normalizePath } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { getErrorMessage } from '../core';
+import { parseUserActionValue } from './user-action-core';
+import {
+  URI_ACTION_NAMES,
+  getUriActionType,
+  validateUriActionParams,
+  type UriAction,
+  type UriNoteRef,
+} from './uri-action-core';
+
+const getMoment = (): any => (window as any).moment;
+
+/**
+ * `obsidian://tps-gcm-…` links for launchers and local scripts: capture to
+ * the Daily Note, create a task, control the timer, open TPS Home and set a
+ * property. Every action is off until "Allow URI actions" is enabled, and
+ * each one only accepts its own parameters.
+ */
+export class UriActionService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  register(): void {
+    for (const action of Object.values(URI_ACTION_NAMES)) {
+      this.plugin.registerObsidianProtocolHandler(action, (params) => {
+        void this.handleProtocolData(params as Record<string, unknown>);
+      });
+    }
+  }
+
+  async handleProtocolData(input: Record<string, unknown>): Promise<boolean> {
+    const type = getUriActionType(input?.action);
+    if (!type) {
+      this.reject('invalid-action');
+      return false;
+    }
+    if (this.plugin.settings.enableUriActions !== true) {
+      logger.flowWarn('UriAction', 'route:disabled', { type });
+      new Notice('TPS GCM: URI actions are turned off. Enable them under Settings → Advanced.', 8000);
+      return false;
+    }
+    if (typeof input.vault === 'string' && input.vault !== this.plugin.app.vault.getName()) {
+      this.reject('wrong-vault', type);
+      return false;
+    }
+    const validation = validateUriActionParams(type, input);
+    if (validation.ok === false) {
+      this.reject(validation.reason, type);
+      return false;
+    }
+    try {
+      const ok = await this.run(validation.value);
+      logger.flow('UriAction', 'route:completed', { type, ok });
+      return ok;
+    } catch (error) {
+      logger.flowError('UriAction', 'route:failed', error, { type });
+      new Notice(`TPS GCM: URI action failed: ${getErrorMessage(error)}`, 8000);
+      return false;
+    }
+  }
+
+  async run(action: UriAction): Promise<boolean> {
+    switch (action.type) {
+      case 'capture': {
+        const date = action.date ? getMoment()(action.date, 'YYYY-MM-DD', true) : getMoment()();
+        const file = await this.plugin.homeCaptureService.capture(action.text, date, { task: action.task });
+        if (file) new Notice(`TPS GCM: Captured to ${file.basename}.`);
+        return file !== null;
+      }
+      case 'create-task': {
+        const targetFile = action.note ? this.resolveNote(action.note) : undefined;
+        if (targetFile === null) return false;
+        const result = await this.plugin.taskApiService.create({
+          title: action.title,
+          targetFile,
+          status: action.status || undefined,
+          fields: action.fields,
+          tags: action.tags,
+          template: action.template || undefined,
+        });
+        if (!result.ok) new Notice(`TPS GCM: Could not create the task: ${result.error || 'unknown error'}`, 8000);
+        return result.ok;
+      }
+      case 'timer':
+        return this.runTimer(action.command, action.note);
+      case 'open-home':
+        if (action.date) await this.plugin.openHomeViewOnDate(action.date);
+        else await this.plugin.openHomeView();
+        return true;
+      case 'set-property': {
+        const file = this.resolveNote(action.note);
+        if (!file) return false;
+        const updated = await this.plugin.bulkEditService.updateFrontmatter([file], {
+          [action.key]: parseUserActionValue(action.value),
+        });
+        if (updated > 0) new Notice(`TPS GCM: Set ${action.key} on ${file.basename}.`);
+        return updated > 0;
+      }
+    }
+  }
+
+  private async runTimer(command: 'start' | 'stop' | 'pause' | 'resume', note: UriNoteRef | null): Promise<boolean> {
+    const timers = this.plugin.timeTrackingService;
+    if (command === 'start') {
+      const file = note ? this.resolveNote(note) : undefined;
+      if (file === null) return false;
+      return (await timers.startTimer(file ? { file } : undefined)) !== null;
+    }
+    if (command === 'pause') return (await timers.pauseActiveTimer()) !== null;
+    if (command === 'resume') return (await timers.resumePausedTimer()) !== null;
+    await timers.stopActiveTimer();
+    return true;
+  }
+
+  /** Resolves a path or `tpsId` to a Markdown note; null (with a notice) when none matches. */
+  private resolveNote(ref: UriNoteRef): TFile | null {
+    let file: TFile | null = null;
+    if ('path' in ref) {
+      const path = normalizePath(ref.path.toLowerCase().endsWith('.md') ? ref.path : `${ref.path}.md`);
+      const found = this.plugin.app.vault.getAbstractFileByPath(path);
+      file = found instanceof TFile && found.extension === 'md' ? found : null;
+    } else {
+      for (const entry of this.plugin.vaultQueryService.query({})) {
+        if (this.plugin.identityService.getInternalId(entry.frontmatter) === ref.id) {
+          file = entry.file;
+          break;
+        }
+      }
+    }
+    if (!file) {
+      logger.flowWarn('UriAction', 'route:note-unavailable', { by: 'path' in ref ? 'path' : 'id' });
+      new Notice(`TPS GCM: No note matches ${'path' in ref ? ref.path : `tpsId ${ref.id}`}.`, 8000);
+    }
+    return file;
+  }
+
+  private reject(reason: string, type?: string): void {
+    logger.flowWarn('UriAction', 'route:rejected', { reason, ...(type ? { type } : {}) });
+    new Notice(`TPS GCM: Ignored an invalid URI action (${reason}).`, 8000);
+  }
+}
@@ -0,0 +1,162 @@
+import type { PropertyScope, UserAction, UserActionStep } from '../types';
+import { matchesPropertyScope } from '../resolve-profiles';
+import { normalizeTagValue } from '../utils/tag-utils';
+
+/**
+ * Settings-defined menu actions. Steps are written one per line in settings:
+ *
+ *   set status=done
+ *   add-tag review
+ *   remove-tag inbox
+ *   move Archive/2026
+ *   child Follow-up | Templates/Follow-up.md
+ *   command daily-notes
+ *   timer
+ */
+
+export type UserActionTargetKind = 'note' | 'task';
+
+const SCOPE_KEYS = ['scopeTags', 'excludeTags', 'scopePaths', 'excludePaths'] as const;
+
+export function normalizeUserActions(value: unknown): UserAction[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const actions: UserAction[] = [];
+  value.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') return;
+    const entry = raw as Record<string, any>;
+    let id = String(entry.id ?? '').trim() || `action-${index + 1}`;
+    while (seen.has(id)) id = `${id}-copy`;
+    seen.add(id);
+    const action: UserAction = {
+      id,
+      label: String(entry.label ?? '').trim() || 'Untitled action',
+      appliesToNotes: entry.appliesToNotes !== false,
+      appliesToTaskLines: entry.appliesToTaskLines === true,
+      appliesToMultiple: entry.appliesToMultiple !== false,
+      steps: Array.isArray(entry.steps)
+        ? entry.steps.map(normalizeUserActionStep).filter((step: UserActionStep | null): step is UserActionStep => !!step)
+        : [],
+    };
+    const icon = String(entry.icon ?? '').trim();
+    if (icon) action.icon = icon;
+    if (entry.disabled === true) action.disabled = true;
+    for (const key of SCOPE_KEYS) {
+      if (Array.isArray(entry[key])) action[key] = entry[key].map((item: unknown) => String(item ?? '').trim()).filter(Boolean);
+    }
+    if (entry.scopeMode === 'all' || entry.scopeMode === 'any') action.scopeMode = entry.scopeMode;
+    if (Array.isArray(entry.scopeProperties)) action.scopeProperties = entry.scopeProperties;
+    actions.push(action);
+  });
+  return actions;
+}
+
+function normalizeUserActionStep(raw: unknown): UserActionStep | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const step = raw as Record<string, unknown>;
+  const text = (key: string) => String(step[key] ?? '').trim();
+  switch (step.type) {
+    case 'set-property':
+      return text('key') ? { type: 'set-property', key: text('key'), value: String(step.value ?? '') } : null;
+    case 'add-tag':
+    case 'remove-tag': {
+      const tag = normalizeTagValue(text('tag'));
+      return tag ? { type: step.type, tag } : null;
+    }
+    case 'move-to-folder':
+      return { type: 'move-to-folder', folder: normalizeFolder(text('folder')) };
+    case 'create-child':
+      return text('template')
+        ? { type: 'create-child', title: text('title'), template: text('template') }
+        : { type: 'create-child', title: text('title') };
+    case 'run-command':
+      return text('commandId') ? { type: 'run-command', commandId: text('commandId') } : null;
+    case 'start-timer':
+      return { type: 'start-timer' };
+    default:
+      return null;
+  }
+}
+
+/** Parses the one-step-per-line settings text; unreadable lines are returned, not dropped silently. */
+export function parseUserActionSteps(text: string): { steps: UserActionStep[]; invalidLines: string[] } {
+  const steps: UserActionStep[] = [];
+  const invalidLines: string[] = [];
+  for (const line of String(text || '').split('\n').map((candidate) => candidate.trim()).filter(Boolean)) {
+    const step = parseUserActionStepLine(line);
+    if (step) steps.push(step);
+    else invalidLines.push(line);
+  }
+  return { steps, invalidLines };
+}
+
+function parseUserActionStepLine(line: string): UserActionStep | null {
+  const match = /^(\S+)\s*(.*)$/u.exec(line);
+  if (!match) return null;
+  const verb = match[1].toLowerCase();
+  const rest = match[2].trim();
+  if (verb === 'set') {
+    const equalsIndex = rest.indexOf('=');
+    if (equalsIndex <= 0) return null;
+    return normalizeUserActionStep({ type: 'set-property', key: rest.slice(0, equalsIndex), value: rest.slice(equalsIndex + 1).trim() });
+  }
+  if (verb === 'add-tag' || verb === 'remove-tag') return normalizeUserActionStep({ type: verb, tag: rest });
+  if (verb === 'move') return rest ? normalizeUserActionStep({ type: 'move-to-folder', folder: rest }) : null;
+  if (verb === 'child') {
+    const [title, template] = rest.split('|').map((part) => part.trim());
+    return normalizeUserActionStep({ type: 'create-child', title, template });
+  }
+  if (verb === 'command') return normalizeUserActionStep({ type: 'run-command', commandId: rest });
+  if (verb === 'timer' && !rest) return { type: 'start-timer' };
+  return null;
+}
+
+export function serializeUserActionSteps(steps: readonly UserActionStep[]): string {
+  return steps.map((step) => {
+    switch (step.type) {
+      case 'set-property': return `set ${step.key}=${step.value}`;
+      case 'add-tag': return `add-tag ${step.tag}`;
+      case 'remove-tag': return `remove-tag ${step.tag}`;
+      case 'move-to-folder': return `move ${step.folder || '/'}`;
+      case 'create-child': return `child ${step.title}${step.template ? ` | ${step.template}` : ''}`.trimEnd();
+      case 'run-command': return `command ${step.commandId}`;
+      case 'start-timer': return 'timer';
+    }
+  }).join('\n');
+}
+
+/** Moving and creating children act on notes; task lines skip those steps. */
+export function isUserActionStepSupported(step: UserActionStep, kind: UserActionTargetKind): boolean {
+  return kind === 'note' || (step.type !== 'move-to-folder' && step.type !== 'create-child');
+}
+
+/**
+ * Actions offered for the given entries (`{ file, frontmatter }`, with task
+ * inline fields and tags standing in for frontmatter on task lines).
+ */
+export function selectUserActions(
+  actions: readonly UserAction[],
+  kind: UserActionTargetKind,
+  entries: readonly any[],
+): UserAction[] {
+  if (entries.length === 0) return [];
+  return actions.filter((action) => {
+    if (action.disabled || action.steps.length === 0) return false;
+    if (kind === 'note' ? !action.appliesToNotes : !action.appliesToTaskLines) return false;
+    if (entries.length > 1 && !action.appliesToMultiple) return false;
+    if (!action.steps.some((step) => isUserActionStepSupported(step, kind))) return false;
+    return matchesPropertyScope(action as PropertyScope, [...entries]);
+  });
+}
+
+/** `true`/`false` become booleans so checkbox properties stay checkboxes; anything else is kept as text. */
+export function parseUserActionValue(value: string): string | boolean {
+  const trimmed = value.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  return value;
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+}
@@ -0,0 +1,230 @@
+import { MenuItem, Notice, TFile, normalizePath } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import type { GcmExternalActionRegistration } from '../main';
+import type { UserAction, UserActionStep } from '../types';
+import * as logger from '../logger';
+import { getErrorMessage } from '../core';
+import { readTaskInlineFieldRecord, readTaskLineTags } from '../utils/task-line-metadata';
+import { createItemHistoryInteractionId, type ItemHistoryUserCause } from './item-history-core';
+import { createSubitemForParentWithTitle, promptAndCreateSubitemForParent } from './subitem-creation-service';
+import {
+  isUserActionStepSupported,
+  parseUserActionValue,
+  selectUserActions,
+} from './user-action-core';
+
+export interface UserActionTaskTarget {
+  file: TFile;
+  /** Zero-based line index. */
+  lineIndex: number;
+  rawLine: string;
+  title?: string;
+}
+
+type UserActionTarget =
+  | { kind: 'note'; file: TFile }
+  | { kind: 'task'; task: UserActionTaskTarget };
+
+interface UserActionMenu {
+  addItem(callback: (item: MenuItem) => void): unknown;
+}
+
+/**
+ * Runs the actions defined under Settings → Menus & surfaces → User actions
+ * from note menus, task-line menus and the inline note toolbar. Each run goes
+ * through the command queue, so a second click waits for the first batch.
+ */
+export class UserActionService {
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  getNoteActions(files: readonly TFile[]): UserAction[] {
+    const entries = files.map((file) => ({ file, frontmatter: this.plugin.app.metadataCache.getFileCache(file)?.frontmatter || {} }));
+    return selectUserActions(this.plugin.settings.userActions || [], 'note', entries);
+  }
+
+  getTaskActions(tasks: readonly UserActionTaskTarget[]): UserAction[] {
+    const entries = tasks.map((task) => {
+      const frontmatter: Record<string, unknown> = readTaskInlineFieldRecord(task.rawLine);
+      const tags = readTaskLineTags(task.rawLine);
+      if (tags.length > 0) frontmatter.tags = tags;
+      return { file: task.file, frontmatter };
+    });
+    return selectUserActions(this.plugin.settings.userActions || [], 'task', entries);
+  }
+
+  addNoteActionsToMenu(menu: UserActionMenu, files: readonly TFile[], section?: string): void {
+    for (const action of this.getNoteActions(files)) {
+      menu.addItem((item) => {
+        item.setTitle(files.length > 1 ? `${action.label} (${files.length})` : action.label)
+          .setIcon(action.icon || 'zap')
+          .onClick(() => {
+            void this.runForNotes(action, files);
+          });
+        if (section) item.setSection(section);
+      });
+    }
+  }
+
+  addTaskActionsToMenu(menu: UserActionMenu, tasks: readonly UserActionTaskTarget[]): void {
+    for (const action of this.getTaskActions(tasks)) {
+      menu.addItem((item) => {
+        item.setTitle(tasks.length > 1 ? `${action.label} (${tasks.length})` : action.label)
+          .setIcon(action.icon || 'zap')
+          .onClick(() => {
+            void this.runForTasks(action, tasks);
+          });
+      });
+    }
+  }
+
+  /** Note actions as inline-toolbar buttons, shown only where their scope matches. */
+  getExternalActions(): GcmExternalActionRegistration[] {
+    return (this.plugin.settings.userActions || [])
+      .filter((action) => !action.disabled && action.appliesToNotes)
+      .map((action, index) => ({
+        id: `user-action:${action.id}`,
+        pluginId: this.plugin.manifest.id,
+        order: 200 + index,
+        icon: action.icon || 'zap',
+        label: action.label,
+        isVisible: ({ file }) => this.getNoteActions([file]).some((candidate) => candidate.id === action.id),
+        onClick: async ({ file }) => {
+          await this.runForNotes(action, [file]);
+        },
+      }));
+  }
+
+  runForNotes(action: UserAction, files: readonly TFile[]): Promise<boolean> {
+    return this.run(action, files.map((file) => ({ kind: 'note', file })));
+  }
+
+  runForTasks(action: UserAction, tasks: readonly UserActionTaskTarget[]): Promise<boolean> {
+    return this.run(action, tasks.map((task) => ({ kind: 'task', task: { ...task } })));
+  }
+
+  private async run(action: UserAction, targets: UserActionTarget[]): Promise<boolean> {
+    const result = await this.plugin.commandQueueService.executeUserAction(action.id, () => this.execute(action, targets));
+    if (!result.success) {
+      logger.flowError('UserAction', 'run:failed', result.error, { action: action.id, targets: targets.length });
+      new Notice(`${action.label} failed: ${getErrorMessage(result.error)}`);
+      return false;
+    }
+    return true;
+  }
+
+  /** Runs each step over every target before moving to the next step. */
+  private async execute(action: UserAction, targets: UserActionTarget[]): Promise<void> {
+    const cause: ItemHistoryUserCause = {
+      kind: 'user',
+      sourcePluginId: this.plugin.manifest.id,
+      surface: 'user-action',
+      interactionId: createItemHistoryInteractionId(),
+    };
+    logger.flow('UserAction', 'run:start', { action: action.id, targets: targets.length, steps: action.steps.length });
+    for (const step of action.steps) {
+      if (step.type === 'run-command') {
+        if (!(this.plugin.app as any).commands?.executeCommandById?.(step.commandId)) {
+          throw new Error(`Command "${step.commandId}" is not available.`);
+        }
+        continue;
+      }
+      const notes = targets.flatMap((target) => (target.kind === 'note' ? [target.file] : []));
+      if (notes.length > 0) await this.applyNoteStep(step, notes);
+      for (const target of targets) {
+        if (target.kind !== 'task') continue;
+        if (!isUserActionStepSupported(step, 'task')) {
+          logger.flowWarn('UserAction', 'step:skipped', { action: action.id, step: step.type, path: target.task.file.path });
+          continue;
+        }
+        await this.applyTaskStep(step, target.task, cause);
+      }
+    }
+    logger.flow('UserAction', 'run:done', { action: action.id });
+  }
+
+  private async applyNoteStep(step: UserActionStep, files: TFile[]): Promise<void> {
+    const plugin = this.plugin;
+    switch (step.type) {
+      case 'set-property':
+        await plugin.bulkEditService.updateFrontmatter(files, { [step.key]: parseUserActionValue(step.value) });
+        return;
+      case 'add-tag':
+        await plugin.bulkEditService.addTag(files, step.tag);
+        return;
+      case 'remove-tag':
+        await plugin.bulkEditService.removeTag(files, step.tag);
+        return;
+      case 'move-to-folder':
+        await this.moveNotes(files, step.folder);
+        return;
+      case 'create-child':
+        for (const file of files) await this.createChild(file, step.title, step.template);
+        return;
+      case 'start-timer':
+        for (const file of files) await plugin.timeTrackingService.startTimer({ file, type: 'note' });
+        return;
+    }
+  }
+
+  private async applyTaskStep(step: UserActionStep, task: UserActionTaskTarget, cause: ItemHistoryUserCause): Promise<void> {
+    if (step.type === 'start-timer') {
+      await this.plugin.timeTrackingService.startTimer({
+        file: task.file,
+        type: 'task',
+        lineNumber: task.lineIndex,
+        rawLine: task.rawLine,
+        title: task.title,
+      });
+      return;
+    }
+    const input = step.type === 'set-property'
+      ? { fields: { [step.key]: step.value.trim() ? step.value : null } }
+      : step.type === 'add-tag'
+        ? { addTags: [step.tag] }
+        : step.type === 'remove-tag'
+          ? { removeTags: [step.tag] }
+          : null;
+    if (!input) return;
+    const result = await this.plugin.taskApiService.update(
+      { path: task.file.path, lineNumber: task.lineIndex, rawLine: task.rawLine },
+      input,
+      cause,
+    );
+    if (!result.ok) throw new Error(result.error || `Could not update ${task.file.path} line ${task.lineIndex + 1}.`);
+    // Later steps address the line as it reads now.
+    if (result.task) {
+      task.rawLine = result.task.rawLine;
+      task.lineIndex = result.task.lineNumber;
+    }
+  }
+
+  private async moveNotes(files: TFile[], folder: string): Promise<void> {
+    const folderPath = normalizePath(folder || '/');
+    if (folderPath !== '/' && !this.plugin.app.vault.getAbstractFileByPath(folderPath)) {
+      await this.plugin.app.vault.createFolder(folderPath);
+    }
+    // runQueuedMove reports its own failure; later steps must not run on unmoved notes.
+    const moved = await this.plugin.runQueuedMove(files, async () => {
+      for (const file of files) {
+        const nextPath = folderPath === '/' ? file.name : `${folderPath}/${file.name}`;
+        if (nextPath === file.path) continue;
+        if (this.plugin.app.vault.getAbstractFileByPath(nextPath)) {
+          throw new Error(`${nextPath} already exists.`);
+        }
+        await this.plugin.app.fileManager.renameFile(file, nextPath);
+      }
+    });
+    if (!moved) throw new Error(`Could not move to ${folderPath}.`);
+  }
+
+  /** Without a template reference the parent's matching child template is used. */
+  private async createChild(parent: TFile, title: string, template?: string): Promise<void> {
+    const resolved = this.plugin.childTemplateService.resolveTemplate(template, parent);
+    if (!title) {
+      await promptAndCreateSubitemForParent(this.plugin, parent, undefined, resolved);
+      return;
+    }
+    const options = await this.plugin.childTemplateService.applyToSubitemOptions(resolved, parent, title);
+    if (options) await createSubitemForParentWithTitle(this.plugin, parent, title, undefined, options);
+  }
+}
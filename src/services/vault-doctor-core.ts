@@ -0,0 +1,122 @@
+/**
+ * Issue model for the vault doctor. Every diagnostic only reports issues; the
+ * doctor then fixes the issues the user selected in one pass and records the
+ * outcome of each fix in a report note. Fixes are applied one at a time, so a
+ * failed fix leaves the ones before it in place.
+ */
+
+import { groupSharedIdentities, pickIdentityOriginal, type IdentityOccurrence } from './identity-conflict-core';
+
+export type VaultDoctorCategory =
+  | 'duplicate-id'
+  | 'orphaned-child-link'
+  | 'status-checkbox'
+  | 'broken-parent-link'
+  | 'stale-companion'
+  | 'missing-recurrence-template';
+
+export const VAULT_DOCTOR_CATEGORIES: readonly VaultDoctorCategory[] = [
+  'duplicate-id',
+  'orphaned-child-link',
+  'status-checkbox',
+  'broken-parent-link',
+  'stale-companion',
+  'missing-recurrence-template',
+];
+
+export const VAULT_DOCTOR_CATEGORY_LABELS: Record<VaultDoctorCategory, { title: string; fix: string }> = {
+  'duplicate-id': { title: 'Duplicate tpsIds', fix: 'Give the copy a new id' },
+  'orphaned-child-link': { title: 'Orphaned child links', fix: 'Link the child back to this parent' },
+  'status-checkbox': { title: 'Status/checkbox mismatches', fix: 'Reconcile the task line' },
+  'broken-parent-link': { title: 'Broken parent links', fix: 'Remove the unresolved parent value' },
+  'stale-companion': { title: 'Stale file-property companions', fix: 'Reconcile file-property companions' },
+  'missing-recurrence-template': { title: 'Missing recurrence templates', fix: 'Create the series template' },
+};
+
+export interface VaultDoctorIssue {
+  /** Stays the same across rescans while the issue persists. */
+  readonly key: string;
+  readonly category: VaultDoctorCategory;
+  readonly path: string;
+  /** Zero-based line, for line-level issues. */
+  readonly line?: number;
+  /** Category-specific value the fix needs: the duplicated id, the unresolved link, the linked child. */
+  readonly target?: string;
+  /** For a duplicate id, the occurrence that keeps it. */
+  readonly original?: { readonly path: string; readonly line?: number };
+  readonly summary: string;
+}
+
+export interface VaultDoctorFixOutcome {
+  issue: VaultDoctorIssue;
+  ok: boolean;
+  detail?: string;
+}
+
+export type VaultDoctorIdOccurrence = IdentityOccurrence;
+
+export interface VaultDoctorIssueGroup {
+  category: VaultDoctorCategory;
+  title: string;
+  issues: VaultDoctorIssue[];
+}
+
+export function createVaultDoctorIssue(input: Omit<VaultDoctorIssue, 'key'>): VaultDoctorIssue {
+  return {
+    ...input,
+    key: [input.category, input.path, input.line ?? '', input.target ?? ''].join('\u0000'),
+  };
+}
+
+/**
+ * Pairs every copy of a shared id with its original: the occurrence in the
+ * oldest file, a note's own id before ids on its lines, then the earliest line.
+ */
+export function findDuplicateIdCopies(
+  occurrences: readonly VaultDoctorIdOccurrence[],
+): Array<{ original: VaultDoctorIdOccurrence; copy: VaultDoctorIdOccurrence }> {
+  const copies: Array<{ original: VaultDoctorIdOccurrence; copy: VaultDoctorIdOccurrence }> = [];
+  for (const group of groupSharedIdentities(occurrences).values()) {
+    const { original, copies: rest } = pickIdentityOriginal(group);
+    for (const copy of rest) copies.push({ original, copy });
+  }
+  return copies;
+}
+
+/** Non-empty groups in category order. */
+export function groupVaultDoctorIssues(issues: readonly VaultDoctorIssue[]): VaultDoctorIssueGroup[] {
+  return VAULT_DOCTOR_CATEGORIES
+    .map((category) => ({
+      category,
+      title: VAULT_DOCTOR_CATEGORY_LABELS[category].title,
+      issues: issues.filter((issue) => issue.category === category),
+    }))
+    .filter((group) => group.issues.length > 0);
+}
+
+export function formatVaultDoctorReport(outcomes: readonly VaultDoctorFixOutcome[], ranAt: Date): string {
+  const fixed = outcomes.filter((outcome) => outcome.ok).length;
+  const lines = [
+    `Vault doctor report: ${formatVaultDoctorTimestamp(ranAt)}`,
+    '',
+    `Fixed ${fixed} of ${outcomes.length} selected ${outcomes.length === 1 ? 'issue' : 'issues'}.`,
+  ];
+  if (fixed < outcomes.length) {
+    lines.push('', 'Fixes are applied together, so one failure undoes the others; the detail of each failed issue says why.');
+  }
+  for (const group of groupVaultDoctorIssues(outcomes.map((outcome) => outcome.issue))) {
+    lines.push('', `## ${group.title}`, '');
+    for (const outcome of outcomes) {
+      if (outcome.issue.category !== group.category) continue;
+      const where = outcome.issue.line === undefined ? '' : ` line ${outcome.issue.line + 1}`;
+      const detail = outcome.detail ? ` (${outcome.detail})` : '';
+      lines.push(`- ${outcome.ok ? 'Fixed' : 'Failed'}: [[${outcome.issue.path}]]${where}: ${outcome.issue.summary}${detail}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatVaultDoctorTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
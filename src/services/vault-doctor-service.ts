@@ -0,0 +1,422 @@
+import { TFile, normalizePath } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import { getErrorMessage, runInBatches } from '../core';
+import { scanMarkdownDocumentLines } from '../utils/markdown-document-lines';
+import { parseTaskLine, readInlineFieldValue } from '../utils/task-line-metadata';
+import type { FilePropertiesMutationCause } from './file-properties-service';
+import type { IdentityConflict } from './identity-conflict-service';
+import {
+  createVaultDoctorIssue,
+  findDuplicateIdCopies,
+  formatVaultDoctorReport,
+  formatVaultDoctorTimestamp,
+  type VaultDoctorFixOutcome,
+  type VaultDoctorIdOccurrence,
+  type VaultDoctorIssue,
+} from './vault-doctor-core';
+
+export interface VaultDoctorScan {
+  issues: VaultDoctorIssue[];
+  scannedFiles: number;
+}
+
+export interface VaultDoctorFixResult {
+  outcomes: VaultDoctorFixOutcome[];
+  /** Report note path, or null when it could not be written. */
+  reportPath: string | null;
+  error?: string;
+}
+
+export const DEFAULT_VAULT_DOCTOR_FOLDER = 'Vault Doctor';
+
+/** One fix of a `fix()` pass: the files it may write, how to apply it and how to undo it. */
+interface VaultDoctorPlannedFix {
+  issues: VaultDoctorIssue[];
+  /** Snapshotted before the pass and restored on rollback. */
+  files: TFile[];
+  apply(): Promise<string | undefined>;
+  /** Undoes what the fix changed outside `files`. */
+  revert?(): Promise<void>;
+}
+
+interface VaultDoctorFileSnapshot {
+  file: TFile;
+  path: string;
+  content: string;
+}
+
+/**
+ * Vault-wide health check. `scan()` runs every diagnostic without writing;
+ * `fix()` rescans, applies the fixes for the selected issues that still exist
+ * as one transaction and writes a report note listing the outcome.
+ */
+export class VaultDoctorService {
+  private running = false;
+
+  constructor(private readonly plugin: TPSGlobalContextMenuPlugin) {}
+
+  async scan(): Promise<VaultDoctorScan> {
+    const issues: VaultDoctorIssue[] = [];
+    const ids: VaultDoctorIdOccurrence[] = [];
+    const files = this.getMarkdownFiles();
+
+    await runInBatches(files, async (file) => {
+      const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+      const noteId = this.plugin.identityService.getInternalId(frontmatter);
+      if (noteId) ids.push({ id: noteId, path: file.path, createdAt: file.stat?.ctime ?? 0 });
+      try {
+        const content = await this.plugin.app.vault.cachedRead(file);
+        issues.push(...this.scanContent(file, content, ids));
+      } catch (error) {
+        logger.flowError('VaultDoctor', 'scan:read-failed', error, { path: file.path });
+      }
+      if (await this.plugin.bulkEditService.isMissingRecurrenceTemplate(file)) {
+        issues.push(createVaultDoctorIssue({
+          category: 'missing-recurrence-template',
+          path: file.path,
+          summary: 'Recurring note has no series template',
+        }));
+      }
+    });
+
+    for (const { original, copy } of findDuplicateIdCopies(ids)) {
+      issues.push(createVaultDoctorIssue({
+        category: 'duplicate-id',
+        path: copy.path,
+        line: copy.line,
+        target: copy.id,
+        original: { path: original.path, line: original.line },
+        summary: `${copy.line === undefined ? 'Note' : 'Task'} id ${copy.id} is also used by ${original.path}${original.line === undefined ? '' : ` line ${original.line + 1}`}`,
+      }));
+    }
+
+    for (const child of this.plugin.parentLinkResolutionService.getRelationshipCandidates()) {
+      const unresolved = this.plugin.parentLinkResolutionService.getUnresolvedParentValues(child);
+      if (unresolved.length === 0) continue;
+      issues.push(createVaultDoctorIssue({
+        category: 'broken-parent-link',
+        path: child.path,
+        summary: `Parent ${unresolved.map((value) => `"${value}"`).join(', ')} does not resolve to a file`,
+      }));
+    }
+
+    for (const stale of this.plugin.filePropertiesService?.findStaleCompanions() ?? []) {
+      issues.push(createVaultDoctorIssue({
+        category: 'stale-companion',
+        path: stale.companion.path,
+        target: stale.sourcePath,
+        summary: stale.sourcePath ? `Companion of ${stale.sourcePath}: ${stale.reason}` : `Companion: ${stale.reason}`,
+      }));
+    }
+
+    logger.flow('VaultDoctor', 'scan:done', { files: files.length, issues: issues.length });
+    return { issues, scannedFiles: files.length };
+  }
+
+  /**
+   * Fixes the selected issues as one transaction. Issues that a fresh scan no
+   * longer reports are left out, so a stale selection never rewrites a changed
+   * file. Every fix is planned before anything is written; the files the plan
+   * touches are snapshotted, and when any fix fails the ones already applied
+   * are undone and the files restored, so the vault is left as it was. The
+   * report note lists the outcome either way.
+   */
+  async fix(selected: readonly VaultDoctorIssue[], now = new Date()): Promise<VaultDoctorFixResult> {
+    if (this.running) return { outcomes: [], reportPath: null, error: 'The vault doctor is already running.' };
+    this.running = true;
+    try {
+      const current = new Map((await this.scan()).issues.map((issue) => [issue.key, issue]));
+      const issues = selected
+        .map((issue) => current.get(issue.key))
+        .filter((issue): issue is VaultDoctorIssue => !!issue);
+      const outcomes = await this.applyFixes(issues);
+      for (const issue of selected) {
+        if (!current.has(issue.key)) outcomes.push({ issue, ok: true, detail: 'already resolved' });
+      }
+
+      const paths = Array.from(new Set(outcomes.filter((outcome) => outcome.ok).map((outcome) => outcome.issue.path)));
+      if (paths.length > 0) this.plugin.eventService.emitFilesUpdated(paths);
+      logger.flow('VaultDoctor', 'fix:done', {
+        selected: selected.length,
+        fixed: outcomes.filter((outcome) => outcome.ok).length,
+      });
+
+      try {
+        const reportPath = await this.writeReport(formatVaultDoctorReport(outcomes, now), now);
+        return { outcomes, reportPath };
+      } catch (error) {
+        logger.flowError('VaultDoctor', 'report:failed', error);
+        return { outcomes, reportPath: null, error: getErrorMessage(error) };
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private scanContent(file: TFile, content: string, ids: VaultDoctorIdOccurrence[]): VaultDoctorIssue[] {
+    const issues: VaultDoctorIssue[] = [];
+    const contentLines = new Set<number>();
+    for (const line of scanMarkdownDocumentLines(content)) {
+      if (!line.isContent) continue;
+      contentLines.add(line.index);
+      const id = parseTaskLine(line.text) ? readInlineFieldValue(line.text, 'tpsId').trim() : '';
+      if (id) ids.push({ id, path: file.path, line: line.index, createdAt: file.stat?.ctime ?? 0 });
+    }
+
+    for (const line of this.plugin.taskStatusCheckboxReconcileService?.findMismatchedLines(content) ?? []) {
+      issues.push(createVaultDoctorIssue({
+        category: 'status-checkbox',
+        path: file.path,
+        line,
+        summary: 'Task status and checkbox disagree',
+      }));
+    }
+
+    const relationships = this.plugin.parentLinkResolutionService;
+    if (relationships.isIgnoredFile(file)) return issues;
+    for (const link of this.plugin.bodySubitemLinkService.scanText(file, content)) {
+      if (link.kind !== 'checkbox' || !contentLines.has(link.line)) continue;
+      if (relationships.isIgnoredFile(link.childFile)) continue;
+      if (relationships.getStoredParentsForChild(link.childFile).some((entry) => entry.file.path === file.path)) continue;
+      issues.push(createVaultDoctorIssue({
+        category: 'orphaned-child-link',
+        path: file.path,
+        line: link.line,
+        target: link.childPath,
+        summary: `${link.childPath} does not list this note as its parent`,
+      }));
+    }
+    return issues;
+  }
+
+  /** Plans every fix, applies them in order and rolls all of them back on the first failure. */
+  private async applyFixes(issues: readonly VaultDoctorIssue[]): Promise<VaultDoctorFixOutcome[]> {
+    if (issues.length === 0) return [];
+    let plan: VaultDoctorPlannedFix[];
+    try {
+      plan = this.planFixes(issues);
+    } catch (error) {
+      logger.flowError('VaultDoctor', 'fix:plan-failed', error);
+      const detail = `nothing was changed: ${getErrorMessage(error)}`;
+      return issues.map((issue) => ({ issue, ok: false, detail }));
+    }
+
+    const snapshots = await this.takeSnapshots(plan);
+    const applied: Array<{ fix: VaultDoctorPlannedFix; detail: string | undefined }> = [];
+    for (const fix of plan) {
+      try {
+        applied.push({ fix, detail: await fix.apply() });
+      } catch (error) {
+        const [first] = fix.issues;
+        logger.flowError('VaultDoctor', 'fix:failed', error, { category: first.category, path: first.path });
+        const rollbackError = await this.rollBack(applied.map((entry) => entry.fix), snapshots);
+        const undone = rollbackError ? `not rolled back: ${rollbackError}` : 'rolled back';
+        return plan.flatMap((entry) => entry.issues.map((issue) => ({
+          issue,
+          ok: false,
+          detail: entry === fix ? getErrorMessage(error) : undone,
+        })));
+      }
+    }
+    return applied.flatMap(({ fix, detail }) => fix.issues.map((issue) => ({ issue, ok: true, detail })));
+  }
+
+  /**
+   * Line fixes run before frontmatter fixes, which can shift line numbers.
+   * Throws when an issue can no longer be fixed, before anything is written.
+   */
+  private planFixes(issues: readonly VaultDoctorIssue[]): VaultDoctorPlannedFix[] {
+    const byCategory = (category: VaultDoctorIssue['category']) => issues.filter((issue) => issue.category === category);
+    const duplicateIds = byCategory('duplicate-id')
+      .sort((a, b) => Number(a.line === undefined) - Number(b.line === undefined));
+    return [
+      ...this.planStatusCheckboxFixes(byCategory('status-checkbox')),
+      ...duplicateIds.map((issue) => this.planDuplicateId(issue)),
+      ...byCategory('orphaned-child-link').map((issue) => this.planOrphanedChildLink(issue)),
+      ...byCategory('broken-parent-link').map((issue) => this.planBrokenParentLink(issue)),
+      ...this.planStaleCompanions(byCategory('stale-companion')),
+      ...byCategory('missing-recurrence-template').map((issue) => this.planMissingRecurrenceTemplate(issue)),
+    ];
+  }
+
+  private async takeSnapshots(plan: readonly VaultDoctorPlannedFix[]): Promise<VaultDoctorFileSnapshot[]> {
+    const files = new Set(plan.flatMap((fix) => fix.files));
+    const snapshots: VaultDoctorFileSnapshot[] = [];
+    for (const file of files) {
+      snapshots.push({ file, path: file.path, content: await this.plugin.app.vault.read(file) });
+    }
+    return snapshots;
+  }
+
+  /**
+   * Undoes the applied fixes newest first, then puts every snapshotted file
+   * back at its old path with its old text. Returns the first error, if any;
+   * the remaining files are still restored.
+   */
+  private async rollBack(
+    applied: readonly VaultDoctorPlannedFix[],
+    snapshots: readonly VaultDoctorFileSnapshot[],
+  ): Promise<string | null> {
+    let failure: string | null = null;
+    const attempt = async (label: string, undo: () => Promise<void>) => {
+      try {
+        await undo();
+      } catch (error) {
+        logger.flowError('VaultDoctor', 'rollback:failed', error, { path: label });
+        failure ??= getErrorMessage(error);
+      }
+    };
+    for (const fix of [...applied].reverse()) {
+      if (fix.revert) await attempt(fix.issues[0].path, fix.revert);
+    }
+    for (const snapshot of snapshots) {
+      await attempt(snapshot.path, async () => {
+        const vault = this.plugin.app.vault;
+        if (snapshot.file.path !== snapshot.path) await vault.rename(snapshot.file, snapshot.path);
+        await vault.process(snapshot.file, () => snapshot.content);
+      });
+    }
+    logger.flow('VaultDoctor', 'fix:rolled-back', { fixes: applied.length, files: snapshots.length, failed: !!failure });
+    return failure;
+  }
+
+  /** One reconcile per file, limited to the selected lines. */
+  private planStatusCheckboxFixes(issues: readonly VaultDoctorIssue[]): VaultDoctorPlannedFix[] {
+    const byPath = new Map<string, VaultDoctorIssue[]>();
+    for (const issue of issues) byPath.set(issue.path, [...byPath.get(issue.path) ?? [], issue]);
+    return Array.from(byPath, ([path, fileIssues]) => {
+      const file = this.requireFile(path);
+      return {
+        issues: fileIssues,
+        files: [file],
+        apply: async () => {
+          const lines = new Set(fileIssues.map((issue) => issue.line ?? -1));
+          const changed = await this.plugin.taskStatusCheckboxReconcileService.reconcileFileNow(file, lines);
+          if (changed !== fileIssues.length) {
+            throw new Error(`${changed} of ${fileIssues.length} lines reconciled in ${path}`);
+          }
+          return undefined;
+        },
+      };
+    });
+  }
+
+  /**
+   * Uses the identity conflict repair, so the copy's tracked sessions, history
+   * events and `blockedBy` references move to its new id as well; a rollback
+   * moves the sessions and history back.
+   */
+  private planDuplicateId(issue: VaultDoctorIssue): VaultDoctorPlannedFix {
+    const { target, original } = issue;
+    if (!target || !original) throw new Error(`The duplicate id in ${issue.path} is no longer known.`);
+    const identity = this.plugin.identityConflictService;
+    let conflict: IdentityConflict | null = null;
+    return {
+      issues: [issue],
+      files: [this.requireFile(issue.path)],
+      apply: async () => {
+        conflict = await identity.repairCopy(target, original, { path: issue.path, line: issue.line });
+        return `new id ${conflict.nextId}`;
+      },
+      revert: async () => {
+        if (conflict) await identity.revertRepair(conflict);
+      },
+    };
+  }
+
+  private planOrphanedChildLink(issue: VaultDoctorIssue): VaultDoctorPlannedFix {
+    const parent = this.requireFile(issue.path);
+    const child = this.requireFile(issue.target ?? '');
+    return {
+      issues: [issue],
+      files: [child],
+      apply: async () => {
+        if (!await this.plugin.parentLinkResolutionService.addParentToChild(child, parent, this.getFixCause())) {
+          throw new Error(`Could not add the parent link to ${child.path}.`);
+        }
+        return undefined;
+      },
+    };
+  }
+
+  private planBrokenParentLink(issue: VaultDoctorIssue): VaultDoctorPlannedFix {
+    const file = this.requireFile(issue.path);
+    return {
+      issues: [issue],
+      files: [file],
+      apply: async () => {
+        const removed = await this.plugin.parentLinkResolutionService.removeUnresolvedParentValues(file, this.getFixCause());
+        return `removed ${removed} ${removed === 1 ? 'value' : 'values'}`;
+      },
+    };
+  }
+
+  /** Fixes are chosen by the user, so their writes are user edits. */
+  private getFixCause(): FilePropertiesMutationCause {
+    return { kind: 'user', sourcePluginId: this.plugin.manifest.id, surface: 'vault-doctor' };
+  }
+
+  /** A series template created by the fix is trashed again on rollback. */
+  private planMissingRecurrenceTemplate(issue: VaultDoctorIssue): VaultDoctorPlannedFix {
+    const file = this.requireFile(issue.path);
+    const vault = this.plugin.app.vault;
+    const templatePath = this.plugin.bulkEditService.getSeriesTemplatePath(file);
+    const templateExisted = !!vault.getAbstractFileByPath(templatePath);
+    return {
+      issues: [issue],
+      files: [file],
+      apply: async () => {
+        await this.plugin.bulkEditService.ensureRecurrenceTemplate([file]);
+        return undefined;
+      },
+      revert: async () => {
+        const template = templateExisted ? null : vault.getAbstractFileByPath(templatePath);
+        if (template instanceof TFile) await vault.trash(template, true);
+      },
+    };
+  }
+
+  /**
+   * The selected companions are reconciled together, and only they are; a
+   * collision naming one of them fails the fix.
+   */
+  private planStaleCompanions(issues: readonly VaultDoctorIssue[]): VaultDoctorPlannedFix[] {
+    if (issues.length === 0) return [];
+    const service = this.plugin.filePropertiesService;
+    if (!service) throw new Error('File properties are not available.');
+    const companions = issues.map((issue) => this.requireFile(issue.path));
+    return [{
+      issues: [...issues],
+      files: companions,
+      apply: async () => {
+        const report = await service.reconcileCompanions(companions.map((companion) => companion.path));
+        const collisions = report.collisions.filter((message) => issues.some((issue) => message.includes(issue.path)));
+        if (collisions.length > 0) throw new Error(collisions.join('; '));
+        return undefined;
+      },
+    }];
+  }
+
+  private requireFile(path: string): TFile {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) throw new Error(`${path || 'File'} not found.`);
+    return file;
+  }
+
+  private getMarkdownFiles(): TFile[] {
+    return this.plugin.app.vault.getMarkdownFiles()
+      .filter((file) => !this.plugin.filePropertiesService?.isCompanionFile(file));
+  }
+
+  private async writeReport(content: string, now: Date): Promise<string> {
+    const vault = this.plugin.app.vault;
+    if (!vault.getAbstractFileByPath(DEFAULT_VAULT_DOCTOR_FOLDER)) await vault.createFolder(DEFAULT_VAULT_DOCTOR_FOLDER);
+    const base = `${DEFAULT_VAULT_DOCTOR_FOLDER}/Vault doctor report ${formatVaultDoctorTimestamp(now).replace(':', '')}`;
+    let path = normalizePath(`${base}.md`);
+    for (let attempt = 2; vault.getAbstractFileByPath(path); attempt += 1) path = normalizePath(`${base} ${attempt}.md`);
+    await vault.create(path, content);
+    logger.flow('VaultDoctor', 'report:written', { path });
+    return path;
+  }
+}
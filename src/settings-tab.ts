@@ -1,8 +1,9 @@
 import { App, ButtonComponent, Notice, PluginSettingTab, Setting, TextAreaComponent, TextComponent } from 'obsidian';
 import type TPSGlobalContextMenuPlugin from './main';
-import type { AppearanceSettingKey, CustomProperty, LinkedSubitemCheckboxMapping, ViewModeConditionOperator, ViewModeConditionType, ViewModeRule, ViewModeRuleCondition } from './types';
+import type { AppearanceSettingKey, ChildNoteTemplate, CustomProperty, LinkedSubitemCheckboxMapping, UserAction, ViewModeConditionOperator, ViewModeConditionType, ViewModeRule, ViewModeRuleCondition } from './types';
 import { BucketSectionRenderer } from './notebook-navigator-settings/bucket-section';
 import { HideSectionRenderer } from './notebook-navigator-settings/hide-section';
+import { ActionSectionRenderer } from './notebook-navigator-settings/action-section';
 import { RulesSectionRenderer } from './notebook-navigator-settings/rules-section';
 import type { BindCommittedText, SettingsSectionContext } from './notebook-navigator-settings/ui-common';
 import { collectVaultPropertyOptions, getEffectivePropertyOptions, normalizeManualPropertyOptions } from './utils/property-options';
@@ -35,6 +36,11 @@ import { normalizeParentLinkFormat } from './handlers/parent-link-format';
 import { FileSuggestModal } from './modals/FileSuggestModal';
 import * as logger from './logger';
 import { runDailyNoteHomeSettingTransaction } from './services/daily-note-home-setting-transaction';
+import { DEFAULT_PERIODIC_NOTE_SETTINGS } from './constants';
+import { PERIODIC_NOTE_KINDS, PERIODIC_NOTE_LABELS } from './utils/periodic-notes';
+import { parseUserActionSteps, serializeUserActionSteps } from './services/user-action-core';
+import { parseRuleSweepTimes } from './services/rule-schedule-core';
+import { RuleDryRunModal } from './modals/rule-dry-run-modal';
 import { importHealthPropertyCatalog } from './integrations/health-property-import';
 import {
   BASE_QUERY_GUIDE_GOTCHAS,
@@ -61,7 +67,7 @@ function formatAcceptedKindConstraint(value: unknown): string {
 
 type SettingsPageId = 'rules-fields' | 'menus-surfaces' | 'workflows' | 'appearance' | 'advanced';
 type RulesFieldsPageId = 'frontmatter' | 'custom-fields' | 'view-mode';
-type FrontmatterEditorId = 'sort' | 'tags' | 'icon-color';
+type FrontmatterEditorId = 'sort' | 'tags' | 'icon-color' | 'actions';
 type WorkflowPageId = 'home-daily' | 'tasks' | 'child-notes' | 'recurrence' | 'time-tracking';
 
 interface SettingsRouteOption<T extends string> {
@@ -215,7 +221,8 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
     const frontmatterRules = settings.notebookNavigatorRules;
     const ruleCount = frontmatterRules.smartSort.buckets.length
       + frontmatterRules.hideRules.length
-      + frontmatterRules.rules.length;
+      + frontmatterRules.rules.length
+      + frontmatterRules.actionRules.length;
     const enabledWorkflowCount = [
       settings.enableDailyNoteNav,
       settings.reconcileTaskStatusToCheckbox,
@@ -281,7 +288,7 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
         {
           id: 'frontmatter',
           label: 'Frontmatter rules',
-          summary: `${rules.smartSort.buckets.length + rules.hideRules.length + rules.rules.length} configured`,
+          summary: `${rules.smartSort.buckets.length + rules.hideRules.length + rules.rules.length + rules.actionRules.length} configured`,
         },
         {
           id: 'custom-fields',
@@ -485,6 +492,7 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
     this.renderRuleOverviewCard(overview, 'Sort', `${settings.smartSort.buckets.length} buckets`, settings.smartSort.enabled ? 'Writes ordered sort keys.' : 'Disabled');
     this.renderRuleOverviewCard(overview, 'Tags', `${settings.hideRules.length} rules`, settings.autoRemoveHiddenWhenNoMatch ? 'Managed tags auto-clean.' : 'Manual tags preserved.');
     this.renderRuleOverviewCard(overview, 'Icon + Color', `${settings.rules.length} rules`, 'First matching icon and color win.');
+    this.renderRuleOverviewCard(overview, 'Actions', `${settings.actionRules.length} rules`, 'Every matching rule runs its actions.');
 
     this.renderRouteButtons<FrontmatterEditorId>(
       root,
@@ -492,6 +500,7 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
         { id: 'sort', label: 'Sort buckets', summary: `${settings.smartSort.buckets.length}` },
         { id: 'tags', label: 'Tag rules', summary: `${settings.hideRules.length}` },
         { id: 'icon-color', label: 'Icon + color', summary: `${settings.rules.length}` },
+        { id: 'actions', label: 'Action rules', summary: `${settings.actionRules.length}` },
       ],
       this.activeFrontmatterEditor,
       (id) => {
@@ -513,6 +522,8 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
       new BucketSectionRenderer(sectionContext).render(root);
     } else if (this.activeFrontmatterEditor === 'tags') {
       new HideSectionRenderer(sectionContext).render(root);
+    } else if (this.activeFrontmatterEditor === 'actions') {
+      new ActionSectionRenderer(sectionContext).render(root);
     } else {
       new RulesSectionRenderer(sectionContext).render(root);
     }
@@ -548,6 +559,24 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
         await this.plugin.saveSettings();
       }));
 
+    new Setting(advanced)
+      .setName('Scheduled date sweeps')
+      .setDesc('Re-apply rules with date conditions (is today, before today, within next days) at midnight and on startup, so overdue notes update without being opened. Only notes whose output changes are written.')
+      .addToggle((toggle) => toggle.setValue(settings.scheduledSweepEnabled).onChange(async (value) => {
+        settings.scheduledSweepEnabled = value;
+        await this.plugin.saveSettings();
+      }));
+
+    new Setting(advanced)
+      .setName('Extra sweep times')
+      .setDesc('Comma-separated HH:mm times for additional date sweeps. The archive tag sweep also runs at these times when enabled.')
+      .addText((text) => {
+        text.setPlaceholder('08:00, 13:00');
+        this.bindNotebookNavigatorCommittedText(text, settings.scheduledSweepTimes, async (value) => {
+          settings.scheduledSweepTimes = parseRuleSweepTimes(value).join(', ');
+        });
+      });
+
     new Setting(advanced)
       .setName('Metadata debounce (ms)')
       .setDesc('Debounce for metadata-change rule application.')
@@ -561,12 +590,15 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
 
     new Setting(advanced)
       .setName('Manual apply')
-      .setDesc('Apply configured frontmatter rules immediately through GCM.')
+      .setDesc('Apply configured frontmatter rules immediately through GCM, or preview every change with a dry run first.')
       .addButton((button) => button.setButtonText('Active file').onClick(async () => {
         await this.plugin.applyRulesToActiveFile(true);
       }))
       .addButton((button) => button.setButtonText('All markdown files').onClick(async () => {
         await this.plugin.applyRulesToAllFiles(false);
+      }))
+      .addButton((button) => button.setButtonText('Dry run…').onClick(() => {
+        new RuleDryRunModal(this.app, this.plugin.notebookNavigatorRuleService).open();
       }));
 
     const preview = this.plugin.getRulePreviewForActiveFile?.();
@@ -906,6 +938,8 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
             }),
           );
       }
+
+      this.renderUserActionSettings(activePage);
     }
 
     // --- Appearance Settings ---
@@ -1719,6 +1753,21 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
             })
         );
 
+      new Setting(timeTracking)
+        .setName('Idle threshold (minutes)')
+        .setDesc('After this long without editor or workspace activity, including time with the app in the background or closed, returning asks whether to keep the idle time, discard it, or stop the timer at your last activity. 0 turns idle detection off.')
+        .addText((text) => {
+          text.inputEl.type = 'number';
+          text.inputEl.min = '0';
+          text.setValue(String(this.plugin.settings.timeTrackingIdleThresholdMinutes ?? 15));
+          text.onChange(async (value) => {
+            const parsed = Number.parseInt(value, 10);
+            if (!Number.isFinite(parsed) || parsed < 0) return;
+            this.plugin.settings.timeTrackingIdleThresholdMinutes = Math.min(parsed, 24 * 60);
+            await this.plugin.saveSettings();
+          });
+        });
+
       new Setting(timeTracking)
         .setName('Ignore archived files')
         .setDesc('Hide and skip running timers whose session storage, source note, or resolved target is inside the configured archive folder.')
@@ -1731,6 +1780,36 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
               this.plugin.timeTrackingStatusBarService?.refresh();
             })
         );
+
+      timeTracking.createEl('h4', { text: 'Focus mode', attr: { style: 'margin-top: 1.2em;' } });
+      const focusLengths: Array<{
+        key: 'timeTrackingFocusWorkMinutes' | 'timeTrackingFocusShortBreakMinutes' | 'timeTrackingFocusLongBreakMinutes' | 'timeTrackingFocusCycles';
+        name: string;
+        desc: string;
+        max: number;
+      }> = [
+        { key: 'timeTrackingFocusWorkMinutes', name: 'Focus length (minutes)', desc: 'Length of each focus block. Every block is recorded as its own timer session.', max: 240 },
+        { key: 'timeTrackingFocusShortBreakMinutes', name: 'Short break (minutes)', desc: 'Break between focus blocks. Breaks are not recorded.', max: 120 },
+        { key: 'timeTrackingFocusLongBreakMinutes', name: 'Long break (minutes)', desc: 'Break after the last focus block of a set. The set ends when it runs out.', max: 240 },
+        { key: 'timeTrackingFocusCycles', name: 'Focus blocks per set', desc: 'Number of focus blocks before the long break.', max: 12 },
+      ];
+      for (const entry of focusLengths) {
+        new Setting(timeTracking)
+          .setName(entry.name)
+          .setDesc(entry.desc)
+          .addText((text) => {
+            text.inputEl.type = 'number';
+            text.inputEl.min = '1';
+            text.inputEl.max = String(entry.max);
+            text.setValue(String(this.plugin.settings[entry.key]));
+            text.onChange(async (value) => {
+              const parsed = Number.parseInt(value, 10);
+              if (!Number.isFinite(parsed) || parsed < 1) return;
+              this.plugin.settings[entry.key] = Math.min(parsed, entry.max);
+              await this.plugin.saveSettings();
+            });
+          });
+      }
     } else {
       timeTracking.createEl('p', {
         text: 'Time tracking is disabled. Calendar will not request tracked sessions while this is off.',
@@ -1832,7 +1911,7 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
       );
     new Setting(taskAutomation)
       .setName('Keep local item history')
-      .setDesc('Record committed user actions such as task status, priority, tag, checkbox, move, and delete changes in a private plugin datastore. On its first tracked change, a surviving task receives a stable tpsId in the same note edit so later events remain attached to that task. Vault-relative before/after note paths, including filenames, are stored; other task edits are recorded without their text. Raw task content and note bodies are never stored, background automation is excluded, and this data stays on this device.')
+      .setDesc('Record committed user actions such as task status, priority, tag, checkbox, move, and delete changes in a private plugin datastore. On its first tracked change, a surviving task receives a stable tpsId in the same note edit so later events remain attached to that task; a note gets one on its first recorded user edit. Vault-relative before/after note paths, including filenames, are stored; other task edits are recorded without their text. Raw task content and note bodies are never stored, background automation is excluded, and this data stays on this device.')
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.enableItemHistory !== false)
@@ -2075,6 +2154,8 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
           this.plugin.settings.ignoredBacklinksFrontmatterKeys = v.split(',').map(s => s.trim()).filter(Boolean);
           await this.plugin.saveSettings();
         }));
+
+      this.renderChildNoteTemplateSettings(relationshipAutomation);
     }
 
     if (this.activeWorkflowPage === 'recurrence') {
@@ -2090,6 +2171,32 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
     new Setting(advancedAutomation).setName('Note Recurrence').setDesc('Auto-create the next note instance when a recurring note is completed.').addToggle(t => t.setValue(this.plugin.settings.enableRecurrence).onChange(async v => { this.plugin.settings.enableRecurrence = v; await this.plugin.saveSettings(); this.display(); }));
 
 
+    new Setting(advancedAutomation)
+      .setName('Snooze wake-up status')
+      .setDesc('Status given to a note or task when its snooze ends. Done items keep their status. Leave blank to only clear the snooze.')
+      .addText((text) =>
+        text
+          .setPlaceholder('e.g. todo')
+          .setValue(this.plugin.settings.snoozeWakeStatus || '')
+          .onChange(async (value) => {
+            this.plugin.settings.snoozeWakeStatus = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(advancedAutomation)
+      .setName('Snooze anchors')
+      .setDesc('Named times for relative snoozes such as "after standup", written as name=HH:mm and separated by commas.')
+      .addText((text) =>
+        text
+          .setPlaceholder('standup=09:30, lunch=13:00')
+          .setValue((this.plugin.settings.snoozeAnchors || []).join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.snoozeAnchors = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(advancedAutomation)
       .setName('Auto-rename files')
       .setDesc('Keep filenames aligned with title and scheduled values when GCM updates note metadata.')
@@ -2253,12 +2360,72 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
             delayMs: 50,
           });
         }));
+
+      navigationAutomation.createEl('h4', { text: 'Periodic notes', attr: { style: 'margin-top: 1.2em;' } });
+      navigationAutomation.createEl('p', {
+        text: 'Weekly, monthly, quarterly and yearly notes. Enabled types get prev/next/up navigation (day → week → month → quarter → year) and a "Move to this …" task menu item. Formats use moment.js tokens; templates accept {{date}}, {{time}} and {{title}}.',
+        cls: 'setting-item-description',
+      });
+      const refreshPeriodicNav = () => (this.plugin as any).dailyNoteNavManager?.refresh?.();
+      for (const kind of PERIODIC_NOTE_KINDS) {
+        const config = this.plugin.settings.periodicNotes[kind];
+        const { title, noun } = PERIODIC_NOTE_LABELS[kind];
+        new Setting(navigationAutomation)
+          .setName(`${title} notes`)
+          .setDesc(`Folder, filename format and template for ${noun} notes.`)
+          .addToggle(t => t.setValue(config.enabled).onChange(async v => {
+            config.enabled = v;
+            await this.plugin.saveSettings();
+            refreshPeriodicNav();
+          }))
+          .addText(t => t
+            .setPlaceholder(DEFAULT_PERIODIC_NOTE_SETTINGS[kind].folder)
+            .setValue(config.folder)
+            .onChange(async v => {
+              config.folder = String(v || '').trim().replace(/^\/+|\/+$/g, '');
+              await this.plugin.saveSettings();
+            }))
+          .addText(t => t
+            .setPlaceholder(DEFAULT_PERIODIC_NOTE_SETTINGS[kind].format)
+            .setValue(config.format)
+            .onChange(async v => {
+              config.format = String(v || '').trim() || DEFAULT_PERIODIC_NOTE_SETTINGS[kind].format;
+              await this.plugin.saveSettings();
+            }))
+          .addText(t => t
+            .setPlaceholder('Template path')
+            .setValue(config.template)
+            .onChange(async v => {
+              config.template = String(v || '').trim();
+              await this.plugin.saveSettings();
+            }));
+        new Setting(navigationAutomation)
+          .setName(`Inherit ${noun} for unscheduled tasks`)
+          .setDesc(`Treat task lines without an explicit scheduled value inside ${noun} notes as scheduled on the first day of that ${noun}.`)
+          .addToggle(t => t.setValue(config.inheritUnscheduledTasks !== false).onChange(async v => {
+            config.inheritUnscheduledTasks = v;
+            await this.plugin.saveSettings();
+            this.plugin.eventService.emitFilesUpdated([]);
+          }));
+      }
     }
     }
     }
 
     if (this.activeSettingsPage === 'advanced') {
       const diagnostics = activePage;
+      diagnostics.createEl('h4', { text: 'URI actions' });
+
+      new Setting(diagnostics)
+        .setName('Allow URI actions')
+        .setDesc('Let obsidian://tps-gcm-capture, tps-gcm-create-task, tps-gcm-timer, tps-gcm-open-home and tps-gcm-set-property links write to this vault. Any app or web page that can open an Obsidian link can use them.')
+        .addToggle((toggle) =>
+          toggle.setValue(this.plugin.settings.enableUriActions === true).onChange(async (value) => {
+            this.plugin.settings.enableUriActions = value;
+            await this.plugin.saveSettings();
+          }),
+        );
+
       diagnostics.createEl('h4', { text: 'Debug logging' });
 
       new Setting(diagnostics)
@@ -2458,6 +2625,7 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
           .addOption('recurrence', 'Recurrence')
           .addOption('folder', 'Folder')
           .addOption('snooze', 'Snooze')
+          .addOption('tracked', 'Tracked time (actual vs estimate)')
           .setValue(prop.type)
           .onChange(async (value: any) => {
             prop.type = value;
@@ -2466,6 +2634,9 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
               prop.optionSources = getPropertyOptionSources(prop)
                 .filter((source) => source !== 'entity');
               prop.allowInlineSet = false;
+            } else if (value === 'tracked') {
+              delete prop.acceptsKind;
+              prop.allowInlineSet = false;
             } else if (value === 'list' && isEntityOnlyProperty(prop)) {
               prop.listItemType = 'link';
             }
@@ -2473,7 +2644,7 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
             this.display();
           }));
 
-      if (prop.type !== 'kind') {
+      if (prop.type !== 'kind' && prop.type !== 'tracked') {
         const knownKinds = this.plugin.entityIndexService?.getDimensionValues('kind') || [];
         const acceptedKindsSetting = new Setting(fields)
           .setName('Accepted kinds')
@@ -3233,6 +3404,249 @@ export class TPSGlobalContextMenuSettingTab extends PluginSettingTab {
       .join('\n');
   }
 
+  private renderUserActionSettings(container: HTMLElement): void {
+    const actions = this.plugin.settings.userActions;
+    container.createEl('h4', { text: 'User actions' });
+    container.createEl('p', {
+      text: 'Your own menu actions. Each one runs its steps in order on the clicked note or task line, or on every selected item.',
+      cls: 'setting-item-description',
+    });
+
+    actions.forEach((action, index) => {
+      const stateKey = `User Action::${action.id}`;
+      const details = container.createEl('details', { cls: 'tps-gcm-setting-item tps-collapsible-section tps-gcm-user-action' });
+      if (this.sectionState.get(stateKey) ?? false) details.setAttr('open', 'true');
+      details.addEventListener('toggle', () => {
+        this.sectionState.set(stateKey, details.open);
+      });
+      const summary = details.createEl('summary', { cls: 'tps-collapsible-section-summary' });
+      const summaryTitle = summary.createSpan({ cls: 'tps-collapsible-section-title' });
+      summaryTitle.createEl('strong', { text: action.label });
+      summaryTitle.createSpan({ text: `  ${action.steps.length} step${action.steps.length === 1 ? '' : 's'}${action.disabled ? ' · off' : ''}` });
+
+      const body = details.createDiv({ cls: 'tps-collapsible-section-content tps-gcm-user-action-body' });
+      const controls = body.createDiv({ cls: 'tps-gcm-user-action-controls' });
+      const move = async (offset: number) => {
+        actions.splice(index, 1);
+        actions.splice(index + offset, 0, action);
+        await this.plugin.saveSettings();
+        this.display();
+      };
+      if (index > 0) controls.createEl('button', { text: '↑' }).onclick = () => void move(-1);
+      if (index < actions.length - 1) controls.createEl('button', { text: '↓' }).onclick = () => void move(1);
+      controls.createEl('button', { text: 'Delete' }).onclick = async () => {
+        actions.splice(index, 1);
+        await this.plugin.saveSettings();
+        this.display();
+      };
+
+      new Setting(body)
+        .setName('Label')
+        .addText((text) => text.setValue(action.label).onChange(async (value) => {
+          action.label = value.trim() || 'Untitled action';
+          await this.plugin.saveSettings();
+        }))
+        .addToggle((toggle) => toggle
+          .setTooltip('Enabled')
+          .setValue(action.disabled !== true)
+          .onChange(async (value) => {
+            if (value) delete action.disabled;
+            else action.disabled = true;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(body)
+        .setName('Icon')
+        .addText((text) => text.setPlaceholder('zap').setValue(action.icon || '').onChange(async (value) => {
+          if (value.trim()) action.icon = value.trim();
+          else delete action.icon;
+          await this.plugin.saveSettings();
+        }));
+
+      new Setting(body)
+        .setName('Applies to')
+        .setDesc('Notes, task lines, and selections of several items, in that order.')
+        .addToggle((toggle) => toggle.setTooltip('Notes').setValue(action.appliesToNotes).onChange(async (value) => {
+          action.appliesToNotes = value;
+          await this.plugin.saveSettings();
+        }))
+        .addToggle((toggle) => toggle.setTooltip('Task lines').setValue(action.appliesToTaskLines).onChange(async (value) => {
+          action.appliesToTaskLines = value;
+          await this.plugin.saveSettings();
+        }))
+        .addToggle((toggle) => toggle.setTooltip('Multi-selection').setValue(action.appliesToMultiple).onChange(async (value) => {
+          action.appliesToMultiple = value;
+          await this.plugin.saveSettings();
+        }));
+
+      const stepsSetting = new Setting(body).setName('Steps');
+      const describeSteps = (invalidLines: string[]) => {
+        stepsSetting.setDesc(invalidLines.length > 0
+          ? `Not understood, so not saved: ${invalidLines.join('; ')}`
+          : 'One per line: set key=value, add-tag tag, remove-tag tag, move Folder, child Title | Template, command command-id, timer. The template is a child note template name or a note path; without one the parent\'s matching template is used. Task lines skip move and child.');
+      };
+      describeSteps([]);
+      stepsSetting.addTextArea((text) => {
+        text
+          .setPlaceholder('set status=done\nadd-tag review\nmove Archive')
+          .setValue(serializeUserActionSteps(action.steps))
+          .onChange(async (value) => {
+            const parsed = parseUserActionSteps(value);
+            action.steps = parsed.steps;
+            describeSteps(parsed.invalidLines);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+      });
+
+      this.renderUserActionScopeSettings(body, action);
+    });
+
+    new Setting(container)
+      .addButton((button) => button.setButtonText('Add action').setCta().onClick(async () => {
+        const action: UserAction = {
+          id: `action-${Date.now()}`,
+          label: 'New action',
+          appliesToNotes: true,
+          appliesToTaskLines: false,
+          appliesToMultiple: true,
+          steps: [],
+        };
+        actions.push(action);
+        this.sectionState.set(`User Action::${action.id}`, true);
+        await this.plugin.saveSettings();
+        this.display();
+      }));
+  }
+
+  private renderChildNoteTemplateSettings(container: HTMLElement): void {
+    const templates = this.plugin.settings.childNoteTemplates;
+    container.createEl('h4', { text: 'Child note templates' });
+    container.createEl('p', {
+      text: 'Notes whose frontmatter and body seed new children. Variables: {{title}}, {{parent.title}}, {{parent.<property>}}, {{date}}, {{date:YYYY-MM-DD}}, {{prompt:Question}}. The first template matching the parent\'s kind or tags is preselected.',
+      cls: 'setting-item-description',
+    });
+
+    const listText = (values: readonly string[] | undefined) => (values || []).join(', ');
+    const parseList = (value: string, isTag = false) => value
+      .split(/[,\n]/)
+      .map((item) => (isTag ? item.trim().replace(/^#/, '') : item.trim()))
+      .filter(Boolean);
+
+    templates.forEach((template, index) => {
+      const stateKey = `Child Template::${template.id}`;
+      const details = container.createEl('details', { cls: 'tps-gcm-setting-item tps-collapsible-section tps-gcm-child-template' });
+      if (this.sectionState.get(stateKey) ?? false) details.setAttr('open', 'true');
+      details.addEventListener('toggle', () => {
+        this.sectionState.set(stateKey, details.open);
+      });
+      const summary = details.createEl('summary', { cls: 'tps-collapsible-section-summary' });
+      const summaryTitle = summary.createSpan({ cls: 'tps-collapsible-section-title' });
+      summaryTitle.createEl('strong', { text: template.name });
+      summaryTitle.createSpan({ text: `  ${template.path || 'no template note'}` });
+
+      const body = details.createDiv({ cls: 'tps-collapsible-section-content tps-gcm-child-template-body' });
+      const controls = body.createDiv({ cls: 'tps-gcm-child-template-controls' });
+      const move = async (offset: number) => {
+        templates.splice(index, 1);
+        templates.splice(index + offset, 0, template);
+        await this.plugin.saveSettings();
+        this.display();
+      };
+      if (index > 0) controls.createEl('button', { text: '↑' }).onclick = () => void move(-1);
+      if (index < templates.length - 1) controls.createEl('button', { text: '↓' }).onclick = () => void move(1);
+      controls.createEl('button', { text: 'Delete' }).onclick = async () => {
+        templates.splice(index, 1);
+        await this.plugin.saveSettings();
+        this.display();
+      };
+
+      new Setting(body)
+        .setName('Name')
+        .setDesc('Shown in the template picker. User actions and the tasks.create API can refer to it by name.')
+        .addText((text) => text.setValue(template.name).onChange(async (value) => {
+          template.name = value.trim() || 'Untitled template';
+          await this.plugin.saveSettings();
+        }));
+      new Setting(body)
+        .setName('Template note')
+        .setDesc('Vault path of the note to copy.')
+        .addText((text) => text.setPlaceholder('Templates/Meeting.md').setValue(template.path).onChange(async (value) => {
+          template.path = value.trim();
+          await this.plugin.saveSettings();
+        }));
+      const listSetting = (name: string, desc: string, key: 'kinds' | 'tags' | 'inheritProperties', isTag = false) => {
+        new Setting(body)
+          .setName(name)
+          .setDesc(desc)
+          .addText((text) => text.setValue(listText(template[key])).onChange(async (value) => {
+            const items = parseList(value, isTag);
+            if (items.length > 0) template[key] = items;
+            else delete template[key];
+            await this.plugin.saveSettings();
+          }));
+      };
+      listSetting('Parent kinds', 'Comma-separated. Preselect this template under parents of these kinds.', 'kinds');
+      listSetting('Parent tags', 'Comma-separated. Preselect this template under parents with these tags.', 'tags', true);
+      listSetting('Inherit properties', 'Comma-separated parent properties copied to the child unless the template sets them.', 'inheritProperties');
+    });
+
+    new Setting(container)
+      .addButton((button) => button.setButtonText('Add template').setCta().onClick(async () => {
+        const template: ChildNoteTemplate = { id: `template-${Date.now()}`, name: 'New template', path: '' };
+        templates.push(template);
+        this.sectionState.set(`Child Template::${template.id}`, true);
+        await this.plugin.saveSettings();
+        this.display();
+      }));
+  }
+
+  private renderUserActionScopeSettings(container: HTMLElement, action: UserAction): void {
+    const listSetting = (name: string, desc: string, key: 'scopeTags' | 'excludeTags' | 'scopePaths' | 'excludePaths', isTag: boolean) => {
+      new Setting(container)
+        .setName(name)
+        .setDesc(desc)
+        .addTextArea((text) => {
+          text.setValue((action[key] || []).join(', ')).onChange(async (value) => {
+            const items = value.split(/[,\n]/).map((item) => (isTag ? item.trim().replace(/^#/, '') : item.trim())).filter(Boolean);
+            if (items.length > 0) action[key] = items;
+            else delete action[key];
+            await this.plugin.saveSettings();
+          });
+          text.inputEl.rows = 2;
+        });
+    };
+
+    listSetting('Show only for tags', 'Optional comma/newline list, matched like custom field scopes.', 'scopeTags', true);
+    new Setting(container)
+      .setName('Scope matching')
+      .addDropdown((drop) => drop
+        .addOption('any', 'Any listed tag')
+        .addOption('all', 'All listed tags')
+        .setValue(action.scopeMode || 'any')
+        .onChange(async (value: 'any' | 'all') => {
+          action.scopeMode = value;
+          await this.plugin.saveSettings();
+        }));
+    listSetting('Hide for tags', 'Optional comma/newline list.', 'excludeTags', true);
+    listSetting('Show only for folders / paths', 'Optional comma/newline list. Supports *.', 'scopePaths', false);
+    listSetting('Hide for folders / paths', 'Optional comma/newline list. Supports *.', 'excludePaths', false);
+    new Setting(container)
+      .setName('Show only for properties')
+      .setDesc('One condition per line: key=value, key contains value, key exists, key missing, key!=value. Task lines match their inline fields.')
+      .addTextArea((text) => {
+        text
+          .setValue((action.scopeProperties || []).map((condition) => this.serializePropertyScopeCondition(condition)).join('\n'))
+          .onChange(async (value) => {
+            const conditions = this.parsePropertyScopeConditions(value);
+            if (conditions.length > 0) action.scopeProperties = conditions;
+            else delete action.scopeProperties;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 2;
+      });
+  }
+
   private serializePropertyScopeCondition(condition: NonNullable<CustomProperty['scopeProperties']>[number]): string {
     const key = String(condition?.key || '').trim();
     const value = String(condition?.value || '').trim();
@@ -0,0 +1,170 @@
+import { parseDurationMinutes, parseScheduleValue } from '../utils/schedule-value';
+
+/**
+ * Date math for the TPS List calendar and timeline layouts. Rows are placed by
+ * one date property (`scheduled` by default) and, on the timeline, spanned by a
+ * minutes property (`timeEstimate`). Weeks start on Monday like the time report.
+ */
+
+export type TpsListLayout = 'list' | 'calendar' | 'timeline';
+export type TpsListCalendarRange = 'month' | 'week' | 'day';
+
+export interface TpsListSchedule {
+  start: Date;
+  allDay: boolean;
+}
+
+export interface TpsListTimelineInput {
+  start: Date;
+  allDay: boolean;
+  durationMinutes: number;
+}
+
+export interface TpsListTimelinePlacement {
+  index: number;
+  /** Offset and width as percentages of the visible range. */
+  left: number;
+  width: number;
+  row: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Timed items without an estimate still get a visible bar on the timeline. */
+const TIMELINE_MIN_MINUTES = 30;
+const HAS_TIME_RE = /\d{4}-\d{2}-\d{2}[ T]\d{1,2}:\d{2}/;
+const DATE_KEY_RE = /\d{4}-\d{2}-\d{2}/;
+
+export function normalizeTpsListLayout(value: unknown): TpsListLayout {
+  const normalized = String(value ?? '').trim().toLowerCase();
+  return normalized === 'calendar' || normalized === 'timeline' ? normalized : 'list';
+}
+
+export function normalizeTpsListCalendarRange(value: unknown): TpsListCalendarRange {
+  const normalized = String(value ?? '').trim().toLowerCase();
+  return normalized === 'week' || normalized === 'day' ? normalized : 'month';
+}
+
+export function parseTpsListSchedule(raw: unknown): TpsListSchedule | null {
+  const parts = parseScheduleValue(raw);
+  if (!parts) return null;
+  const text = String(Array.isArray(raw) ? raw[0] ?? '' : raw ?? '');
+  return {
+    start: new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second),
+    allDay: !HAS_TIME_RE.test(text),
+  };
+}
+
+export function parseTpsListDurationMinutes(raw: unknown): number {
+  return parseDurationMinutes(Array.isArray(raw) ? raw[0] : raw);
+}
+
+export function toTpsListDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseTpsListDateKey(key: string): Date | null {
+  const parts = parseScheduleValue(key);
+  return parts ? new Date(parts.year, parts.month - 1, parts.day) : null;
+}
+
+/** Days shown for a range: whole weeks covering the month, one week, or the anchor day. */
+export function getTpsListCalendarDays(anchor: Date, range: TpsListCalendarRange): Date[] {
+  const day = startOfDay(anchor);
+  if (range === 'day') return [day];
+  const first = range === 'month' ? startOfWeek(new Date(day.getFullYear(), day.getMonth(), 1)) : startOfWeek(day);
+  const last = range === 'month'
+    ? addDays(startOfWeek(new Date(day.getFullYear(), day.getMonth() + 1, 0)), 6)
+    : addDays(first, 6);
+  const days: Date[] = [];
+  for (let cursor = first; cursor.getTime() <= last.getTime(); cursor = addDays(cursor, 1)) {
+    days.push(cursor);
+  }
+  return days;
+}
+
+export function shiftTpsListCalendarAnchor(anchor: Date, range: TpsListCalendarRange, direction: -1 | 1): Date {
+  if (range === 'month') return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+  return addDays(startOfDay(anchor), direction * (range === 'week' ? 7 : 1));
+}
+
+export function formatTpsListCalendarTitle(anchor: Date, range: TpsListCalendarRange): string {
+  if (range === 'month') return anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  if (range === 'day') {
+    return anchor.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  }
+  const days = getTpsListCalendarDays(anchor, 'week');
+  const format = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${format(days[0])} – ${format(days[days.length - 1])}, ${days[days.length - 1].getFullYear()}`;
+}
+
+/**
+ * Returns the value to write after a drop on `dateKey`. The original time
+ * (and any trailing time range) is kept when moving between days; a drop on
+ * an hour slot passes `minutes` and writes `YYYY-MM-DD HH:mm`.
+ */
+export function formatTpsListRescheduledValue(original: unknown, dateKey: string, minutes: number | null = null): string {
+  if (minutes !== null) {
+    const clamped = Math.max(0, Math.min(24 * 60 - 1, Math.round(minutes)));
+    return `${dateKey} ${pad(Math.floor(clamped / 60))}:${pad(clamped % 60)}`;
+  }
+  const text = String(Array.isArray(original) ? original[0] ?? '' : original ?? '').trim();
+  return DATE_KEY_RE.test(text) ? text.replace(DATE_KEY_RE, dateKey) : dateKey;
+}
+
+/**
+ * Places items on a horizontal range. All-day items span their whole day;
+ * overlapping bars are packed into the first free row.
+ */
+export function layoutTpsListTimeline(
+  items: readonly TpsListTimelineInput[],
+  rangeStart: Date,
+  rangeEnd: Date,
+): TpsListTimelinePlacement[] {
+  const startMs = rangeStart.getTime();
+  const totalMs = Math.max(1, rangeEnd.getTime() - startMs);
+  const spans = items
+    .map((item, index) => {
+      const itemStart = item.allDay ? startOfDay(item.start).getTime() : item.start.getTime();
+      const lengthMs = item.allDay
+        ? Math.max(DAY_MS, item.durationMinutes * 60_000)
+        : Math.max(TIMELINE_MIN_MINUTES, item.durationMinutes) * 60_000;
+      return {
+        index,
+        start: Math.max(startMs, itemStart),
+        end: Math.min(startMs + totalMs, itemStart + lengthMs),
+      };
+    })
+    .filter((span) => span.end > span.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end || a.index - b.index);
+
+  const rowEnds: number[] = [];
+  const placements: TpsListTimelinePlacement[] = [];
+  for (const span of spans) {
+    let row = rowEnds.findIndex((end) => end <= span.start);
+    if (row < 0) row = rowEnds.length;
+    rowEnds[row] = span.end;
+    placements.push({
+      index: span.index,
+      left: ((span.start - startMs) / totalMs) * 100,
+      width: ((span.end - span.start) / totalMs) * 100,
+      row,
+    });
+  }
+  return placements.sort((a, b) => a.index - b.index);
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -144,6 +144,8 @@ import {
   removeStringListValues,
 } from '../../utils/list-utils';
 import { collectKnownVaultTags } from '../../utils/known-tags';
+import { describeTrackedTime, formatTrackedTime, type TrackedTimeSummary } from '../../services/tracked-time-core';
+import type { TaskDependencySummary } from '../../services/task-dependency-service';
 import {
   getBooleanPropertyPresentation,
   getNextBooleanPropertyValue,
@@ -184,6 +186,22 @@ import {
   removePointerDragPreview,
   type PointerDragPreview,
 } from '../../utils/pointer-drag-preview';
+import {
+  addDays,
+  formatTpsListCalendarTitle,
+  formatTpsListRescheduledValue,
+  getTpsListCalendarDays,
+  layoutTpsListTimeline,
+  normalizeTpsListCalendarRange,
+  normalizeTpsListLayout,
+  parseTpsListDurationMinutes,
+  parseTpsListSchedule,
+  shiftTpsListCalendarAnchor,
+  startOfDay,
+  toTpsListDateKey,
+  type TpsListCalendarRange,
+  type TpsListSchedule,
+} from '../calendar-layout';
 
 export const TPS_LIST_VIEW_TYPE = 'tps-list';
 
@@ -247,6 +265,31 @@ type ActiveTaskPointerDrag = {
   externalItems: Array<{ path: string; lineNumber: number; rawLine: string }> | null;
 };
 
+type TpsListCalendarItem = {
+  key: string;
+  kind: 'note' | 'task' | 'bullet';
+  title: string;
+  file: TFile;
+  entry?: BasesEntry;
+  task?: OpenTaskSubitem;
+  rawDate: unknown;
+  schedule: TpsListSchedule | null;
+  durationMinutes: number;
+  done: boolean;
+};
+
+type ActiveCalendarPointerDrag = {
+  pointerId: number;
+  item: TpsListCalendarItem;
+  chipEl: HTMLElement;
+  startX: number;
+  startY: number;
+  moved: boolean;
+  activated: boolean;
+  activationTimer: number | null;
+  preview: PointerDragPreview | null;
+};
+
 type TpsListRenderScrollState = {
   top: number;
   left: number;
@@ -638,6 +681,9 @@ export class TpsListView extends BasesView {
   private formulaNow: Date | undefined;
   private noteSemanticReconciliationRevision = 0;
   private noteSemanticReconciliationCache: { key: string; entries: BasesEntry[] } | null = null;
+  private calendarAnchor = new Date();
+  private calendarRangeOverride: TpsListCalendarRange | null = null;
+  private activeCalendarDrag: ActiveCalendarPointerDrag | null = null;
 
   constructor(controller: QueryController, scrollEl: HTMLElement, plugin: TpsListHost) {
     super(controller);
@@ -762,15 +808,58 @@ export class TpsListView extends BasesView {
       new Notice(creationDefaults.blockedReason);
       return;
     }
+    const template = await this.renderChildTemplateForCreation(
+      baseFileName ?? creationDefaults.baseFileName ?? '',
+      creationDefaults.frontmatter || {},
+    );
+    if (template === null) return;
+    // Filter defaults win over the template so the new note stays in this view.
+    // The written values are kept to find the new note for the template body.
+    const written: Record<string, unknown> = {};
     const mergedProcessor = (frontmatter: Record<string, unknown>) => {
-      Object.assign(frontmatter, creationDefaults.frontmatter);
+      Object.assign(frontmatter, template?.frontmatter || {}, creationDefaults.frontmatter);
       frontmatterProcessor?.(frontmatter);
+      Object.assign(written, frontmatter);
     };
     flow('CreateFile', 'route-note', {
       baseFileName: baseFileName ?? creationDefaults.baseFileName ?? '',
       defaultKeys: Object.keys(creationDefaults.frontmatter || {}),
+      templateKeys: Object.keys(template?.frontmatter || {}),
     });
-    await super.createFileForView(baseFileName ?? creationDefaults.baseFileName ?? undefined, mergedProcessor);
+    const create = () => super.createFileForView(baseFileName ?? creationDefaults.baseFileName ?? undefined, mergedProcessor);
+    const templateService = this.getGcmPlugin()?.childTemplateService;
+    if (template?.body && templateService) {
+      await templateService.withBodyForCreatedNote(template.body, create, {
+        baseName: baseFileName ?? creationDefaults.baseFileName ?? undefined,
+        frontmatter: written,
+      });
+    } else {
+      await create();
+    }
+  }
+
+  /**
+   * Child note template for a new note, matched against the note this view
+   * is embedded in and the filter defaults. Resolves `undefined` when no
+   * template applies and `null` when the user cancels.
+   */
+  private async renderChildTemplateForCreation(
+    title: string,
+    defaults: Record<string, unknown>,
+  ): Promise<{ frontmatter: Record<string, unknown>; body: string } | null | undefined> {
+    const templateService = this.getGcmPlugin()?.childTemplateService;
+    if (!templateService) return undefined;
+    const parent = this.getBaseContextFile();
+    const choice = await templateService.chooseTemplate(templateService.getTemplatesForParent(parent, defaults));
+    if (!choice) return null;
+    if (!choice.template) return undefined;
+    try {
+      return await templateService.render(choice.template, { title, parent, interactive: true });
+    } catch (error) {
+      flowError('CreateFile', 'template-failed', error, { template: choice.template.id });
+      new Notice(`Could not use template ${choice.template.name}, so TPS List did not create anything.`);
+      return null;
+    }
   }
 
   private getPriorityResolvedCreationMode(
@@ -839,6 +928,22 @@ export class TpsListView extends BasesView {
     return { id: commandId, name: String(command?.name || commandId) };
   }
 
+  /** Drops snoozed notes (and their nested rows) until they wake up. */
+  private withoutSnoozedRenderItems(items: LaneRenderItem[], snooze: any): LaneRenderItem[] {
+    const now = new Date();
+    const visible: LaneRenderItem[] = [];
+    for (const item of items) {
+      if (snooze.isNoteSnoozed(item.entry.file, now)) continue;
+      if (item.children.length === 0) {
+        visible.push(item);
+        continue;
+      }
+      const children = this.withoutSnoozedRenderItems(item.children, snooze);
+      visible.push({ ...item, children, hasChildren: children.length > 0, childCount: children.length });
+    }
+    return visible;
+  }
+
   private getConfigValue(key: string): unknown {
     const getterValue = this.config?.get?.(key);
     if (getterValue != null) return getterValue;
@@ -2142,16 +2247,25 @@ export class TpsListView extends BasesView {
     }, { capture: true });
     this.registerDomEvent(document, 'pointermove', (evt: PointerEvent) => {
       this.handleTaskPointerMove(evt);
+      this.handleCalendarPointerMove(evt);
     }, { capture: true });
     this.registerDomEvent(document, 'pointerup', (evt: PointerEvent) => {
       void this.handleTaskPointerUp(evt);
+      void this.handleCalendarPointerUp(evt);
     }, { capture: true });
     this.registerDomEvent(document, 'pointercancel', (evt: PointerEvent) => {
       this.cancelTaskPointerDrag(evt);
+      this.clearCalendarPointerDrag(evt.pointerId);
     }, { capture: true });
-    this.registerDomEvent(window, 'blur', () => this.clearActiveTaskPointerDrag());
+    this.registerDomEvent(window, 'blur', () => {
+      this.clearActiveTaskPointerDrag();
+      this.clearCalendarPointerDrag();
+    });
     this.registerDomEvent(document, 'visibilitychange', () => {
-      if (document.visibilityState !== 'visible') this.clearActiveTaskPointerDrag();
+      if (document.visibilityState !== 'visible') {
+        this.clearActiveTaskPointerDrag();
+        this.clearCalendarPointerDrag();
+      }
     });
     this.render();
     window.setTimeout(() => this.render(), 300);
@@ -2159,6 +2273,7 @@ export class TpsListView extends BasesView {
 
   onunload(): void {
     this.clearActiveTaskPointerDrag();
+    this.clearCalendarPointerDrag();
     this.renderedDisplayLanesById.clear();
     const taskSelectionService = this.getGcmPlugin()?.taskLineContextMenuService || this.getGcmApi()?.taskLineContextMenuService;
     taskSelectionService?.releaseTpsListSelection?.(this.scrollEl);
@@ -3221,6 +3336,9 @@ export class TpsListView extends BasesView {
     if (lower === 'file.name' || lower === 'name' || lower === 'title') return file?.basename || file?.name || '';
     if (lower === 'file.path' || lower === 'path') return file?.path || '';
     if (this.getConfiguredCustomProperty(propId)?.type === 'folder') return file?.parent?.path || '/';
+    if (this.getConfiguredCustomProperty(propId)?.type === 'tracked') {
+      return this.getGcmPlugin()?.timeTrackingService?.getTrackedTimeForNote?.(file)?.remainingMinutes ?? '';
+    }
     const normalized = this.normalizeTaskPropertyId(propId);
     const authored = this.getEntryValue(entry, propId.includes('.') ? propId : `note.${propId}`);
     if (normalized === 'kind') return getTpsBaseAdditiveKindValues('note', authored);
@@ -5105,6 +5223,9 @@ export class TpsListView extends BasesView {
       )) delete rowInline[key];
     }
     const explicitKinds = this.getTaskExplicitKindValues(task);
+    const trackedTime = isTask
+      ? this.getGcmPlugin()?.timeTrackingService?.getTrackedTimeForLine?.(task.rawLine || '') as TrackedTimeSummary | null | undefined
+      : null;
     const kinds = Array.from(new Set(
       [itemKind, ...explicitKinds]
         .map((value) => this.normalizeAdditiveKindIdentity(value))
@@ -5123,6 +5244,10 @@ export class TpsListView extends BasesView {
       lineNumber: task.line,
       path: file.path,
       tags,
+      ...(isTask ? {
+        trackedMinutes: trackedTime?.trackedMinutes ?? 0,
+        remainingEstimate: trackedTime?.remainingMinutes ?? null,
+      } : {}),
       ...(hasMappedStatus ? {
         checkboxState: mappedCheckboxState,
         checkboxStatus: status,
@@ -5184,6 +5309,7 @@ export class TpsListView extends BasesView {
       this.asArray(properties.tags),
       this.asArray(cache?.tags).map((tag: any) => tag?.tag ?? tag),
     ]);
+    const trackedTime = this.getGcmPlugin()?.timeTrackingService?.getTrackedTimeForNote?.(file) as TrackedTimeSummary | null | undefined;
     const context: NonNullable<TpsFormulaRecordContext['file']> = {
       path: file.path,
       name: file.name,
@@ -5196,6 +5322,8 @@ export class TpsListView extends BasesView {
       tags,
       links: this.asArray(cache?.links).map((link: any) => link?.link ?? link),
       properties,
+      trackedMinutes: trackedTime?.trackedMinutes ?? 0,
+      remainingEstimate: trackedTime?.remainingMinutes ?? null,
     };
     contexts.set(cacheKey, context);
     return context;
@@ -7802,6 +7930,11 @@ export class TpsListView extends BasesView {
       };
     }
 
+    // Tracked time is derived from timer sessions, never stored on the line.
+    if (configuredForProperty?.type === 'tracked') {
+      return this.getTrackedTimeDisplay(this.getGcmPlugin()?.timeTrackingService?.getTrackedTimeForLine?.(task.rawLine || ''));
+    }
+
     if (configuredForProperty?.type === 'kind' && normalized === 'kind') {
       const explicitKinds = this.getTaskExplicitKindValues(task);
       if (!explicitKinds.length) return null;
@@ -7922,6 +8055,17 @@ export class TpsListView extends BasesView {
     return null;
   }
 
+  private getTrackedTimeDisplay(summary: TrackedTimeSummary | null | undefined): TpsTaskPropertyDisplay | null {
+    if (!summary) return null;
+    return {
+      text: formatTrackedTime(summary),
+      title: describeTrackedTime(summary),
+      kind: summary.overBudget ? 'tracked-over-budget' : 'tracked',
+      editable: false,
+      rawValue: summary.trackedMinutes,
+    };
+  }
+
   private normalizeTaskPropertyId(propId: string): string {
     const raw = String(propId || '').trim();
     if (!raw) return '';
@@ -8793,6 +8937,7 @@ export class TpsListView extends BasesView {
     if (!this.shouldRenderView()) return;
     const generation = this.renderGeneration;
     this.clearActiveTaskPointerDrag();
+    this.clearCalendarPointerDrag();
     this.renderedDisplayLanesById.clear();
     this.taskFormulaSessions = new WeakMap<OpenTaskSubitem, TpsFormulaRowSession>();
     this.formulaFileContexts?.clear();
@@ -8899,13 +9044,18 @@ export class TpsListView extends BasesView {
     this.renderedDisplayLanesById = new Map(displayLanes.map((lane) => [lane.id, lane]));
     const renderItemsByDisplayLane = new Map<string, LaneRenderItem[]>();
     const taskItemsByDisplayLane = new Map<string, TaskRenderItem[]>();
+    const snooze = this.getConfigValue('showSnoozed') === true ? null : this.getGcmPlugin()?.snoozeService;
     for (const displayLane of displayLanes) {
+      const renderItems = this.getRenderItemsForDisplayLane(displayLane, laneRenderItemsByLane);
       renderItemsByDisplayLane.set(
         displayLane.id,
-        this.getRenderItemsForDisplayLane(displayLane, laneRenderItemsByLane),
+        snooze ? this.withoutSnoozedRenderItems(renderItems, snooze) : renderItems,
       );
       const taskItems = displayLane.laneIds.flatMap((laneId) => taskRenderItemsByLane.get(laneId) ?? []);
-      taskItemsByDisplayLane.set(displayLane.id, taskItems);
+      taskItemsByDisplayLane.set(
+        displayLane.id,
+        snooze ? taskItems.filter((item) => !snooze.isLineSnoozed(item.task.rawLine || '')) : taskItems,
+      );
     }
     this.renderedTaskItemCount = Array.from(taskItemsByDisplayLane.values())
       .reduce((total, taskItems) => total + taskItems.length, 0);
@@ -8921,7 +9071,12 @@ export class TpsListView extends BasesView {
     const visibleNotePaths = this.getOrderedVisiblePaths(displayLanes, renderItemsByDisplayLane);
       this.renderedResultCount = visibleNotePaths.length + this.renderedTaskItemCount;
       this.hasRenderedResultCount = true;
-      this.renderList(displayLanes, renderItemsByDisplayLane, taskItemsByDisplayLane, groups, propName);
+      const layout = normalizeTpsListLayout(this.getConfigValue('layout'));
+      if (layout === 'list') {
+        this.renderList(displayLanes, renderItemsByDisplayLane, taskItemsByDisplayLane, groups, propName);
+      } else {
+        this.renderCalendarLayout(layout, displayLanes, renderItemsByDisplayLane, taskItemsByDisplayLane);
+      }
       const rowOccurrences = new Map<string, number>();
       this.renderedRowOrder = Array.from(
         this.containerEl.querySelectorAll<HTMLElement>('.tps-list-native-row[data-tps-list-selection-id]'),
@@ -9013,6 +9168,525 @@ export class TpsListView extends BasesView {
     }
   }
 
+  private getCalendarRange(): TpsListCalendarRange {
+    return this.calendarRangeOverride ?? normalizeTpsListCalendarRange(this.getConfigValue('calendarRange'));
+  }
+
+  private setCalendarRange(range: TpsListCalendarRange): void {
+    if (typeof this.config?.set === 'function') {
+      this.calendarRangeOverride = null;
+      this.config.set('calendarRange', range);
+    } else {
+      this.calendarRangeOverride = range;
+    }
+    this.render();
+  }
+
+  private getCalendarDateProperty(): string {
+    return String(this.getConfigValue('dateProperty') ?? '').replace(/^note\./i, '').trim() || 'scheduled';
+  }
+
+  private getCalendarDurationProperty(): string {
+    return String(this.getConfigValue('durationProperty') ?? '').replace(/^note\./i, '').trim() || 'timeEstimate';
+  }
+
+  /** Flattens every visible note and line row once, however many lanes it appears in. */
+  private collectCalendarItems(
+    displayLanes: DisplayLaneGroup[],
+    renderItemsByDisplayLane: Map<string, LaneRenderItem[]>,
+    taskItemsByDisplayLane: Map<string, TaskRenderItem[]>,
+  ): TpsListCalendarItem[] {
+    const dateProp = this.getCalendarDateProperty();
+    const durationProp = this.getCalendarDurationProperty();
+    const items = new Map<string, TpsListCalendarItem>();
+    const addNote = (laneItem: LaneRenderItem): void => {
+      const file = this.resolveLogicalFilePropertyTarget(laneItem.entry.file) ?? laneItem.entry.file;
+      const key = `note:${file.path}`;
+      if (!items.has(key)) {
+        const frontmatter = this.app.metadataCache.getFileCache(laneItem.entry.file)?.frontmatter ?? {};
+        const rawDate = this.getFrontmatterValueCaseInsensitive(frontmatter, dateProp);
+        items.set(key, {
+          key,
+          kind: 'note',
+          title: file.basename,
+          file,
+          entry: laneItem.entry,
+          rawDate,
+          schedule: parseTpsListSchedule(rawDate),
+          durationMinutes: parseTpsListDurationMinutes(this.getFrontmatterValueCaseInsensitive(frontmatter, durationProp)),
+          done: false,
+        });
+      }
+      laneItem.children.forEach(addNote);
+    };
+
+    for (const displayLane of displayLanes) {
+      (renderItemsByDisplayLane.get(displayLane.id) ?? []).forEach(addNote);
+      for (const { file, task } of taskItemsByDisplayLane.get(displayLane.id) ?? []) {
+        if (task.itemKind === 'heading') continue;
+        const key = `line:${file.path}:${task.line}`;
+        if (items.has(key)) continue;
+        const isBullet = task.itemKind === 'bullet';
+        const rawDate = this.getTaskInlineValues(task, dateProp)[0] ?? '';
+        items.set(key, {
+          key,
+          kind: isBullet ? 'bullet' : 'task',
+          title: this.getTaskVisibleTitle(task),
+          file,
+          task,
+          rawDate,
+          schedule: parseTpsListSchedule(rawDate),
+          durationMinutes: parseTpsListDurationMinutes(this.getTaskInlineValues(task, durationProp)[0]),
+          done: !isBullet && this.classifyDoneStatus(this.getMappedStatusForTask(task)) === true,
+        });
+      }
+    }
+    return Array.from(items.values());
+  }
+
+  private renderCalendarLayout(
+    layout: 'calendar' | 'timeline',
+    displayLanes: DisplayLaneGroup[],
+    renderItemsByDisplayLane: Map<string, LaneRenderItem[]>,
+    taskItemsByDisplayLane: Map<string, TaskRenderItem[]>,
+  ): void {
+    const range = this.getCalendarRange();
+    const items = this.collectCalendarItems(displayLanes, renderItemsByDisplayLane, taskItemsByDisplayLane);
+    const scheduled = items
+      .filter((item) => item.schedule)
+      .sort((a, b) => (
+        Number(b.schedule!.allDay) - Number(a.schedule!.allDay)
+        || a.schedule!.start.getTime() - b.schedule!.start.getTime()
+        || a.title.localeCompare(b.title)
+      ));
+    const unscheduled = items.filter((item) => !item.schedule);
+    const days = getTpsListCalendarDays(this.calendarAnchor, range);
+    const root = this.containerEl.createDiv({
+      cls: `tps-list-calendar tps-list-calendar--${layout}`,
+      attr: { 'data-range': range },
+    });
+    const progress = this.taskIndexProgress;
+    if (progress && !progress.complete) {
+      root.createDiv({
+        cls: 'tps-list-index-progress',
+        attr: { role: 'status', 'aria-live': 'polite' },
+        text: `Indexing… ${progress.completedFiles}/${progress.totalFiles} files. Results are incomplete.`,
+      });
+    }
+    this.renderCalendarToolbar(root, range);
+    if (layout === 'calendar') this.renderCalendarGrid(root, days, range, scheduled);
+    else this.renderTimeline(root, days, range, scheduled);
+
+    if (unscheduled.length > 0) {
+      const tray = root.createDiv({ cls: 'tps-list-calendar-unscheduled' });
+      tray.createDiv({
+        cls: 'tps-list-calendar-unscheduled-label',
+        text: `No ${this.getCalendarDateProperty()} (${unscheduled.length}) — drag onto a day to schedule`,
+      });
+      const list = tray.createDiv({ cls: 'tps-list-calendar-day-items' });
+      for (const item of unscheduled) this.createCalendarItemChip(list, item);
+    }
+    flow('TpsListView', 'calendar:rendered', {
+      layout,
+      range,
+      scheduled: scheduled.length,
+      unscheduled: unscheduled.length,
+    });
+  }
+
+  private renderCalendarToolbar(parent: HTMLElement, range: TpsListCalendarRange): void {
+    const toolbar = parent.createDiv({ cls: 'tps-list-calendar-toolbar' });
+    const nav = toolbar.createDiv({ cls: 'tps-list-calendar-nav' });
+    const addNavButton = (icon: string, label: string, onClick: () => void): void => {
+      const button = nav.createEl('button', {
+        cls: 'clickable-icon tps-list-calendar-nav-button',
+        attr: { type: 'button', 'aria-label': label },
+      });
+      setIconWithFallback(button, icon);
+      button.addEventListener('click', (event: MouseEvent) => {
+        event.preventDefault();
+        onClick();
+        this.render();
+      });
+    };
+    addNavButton('chevron-left', 'Previous', () => {
+      this.calendarAnchor = shiftTpsListCalendarAnchor(this.calendarAnchor, range, -1);
+    });
+    const today = nav.createEl('button', { cls: 'tps-list-calendar-today', text: 'Today', attr: { type: 'button' } });
+    today.addEventListener('click', (event: MouseEvent) => {
+      event.preventDefault();
+      this.calendarAnchor = new Date();
+      this.render();
+    });
+    addNavButton('chevron-right', 'Next', () => {
+      this.calendarAnchor = shiftTpsListCalendarAnchor(this.calendarAnchor, range, 1);
+    });
+    toolbar.createDiv({ cls: 'tps-list-calendar-title', text: formatTpsListCalendarTitle(this.calendarAnchor, range) });
+    const ranges = toolbar.createDiv({ cls: 'tps-list-calendar-ranges', attr: { role: 'group' } });
+    for (const [option, label] of [['month', 'Month'], ['week', 'Week'], ['day', 'Day']] as const) {
+      const button = ranges.createEl('button', {
+        cls: `tps-list-calendar-range${option === range ? ' is-active' : ''}`,
+        text: label,
+        attr: { type: 'button', 'aria-pressed': option === range ? 'true' : 'false' },
+      });
+      button.addEventListener('click', (event: MouseEvent) => {
+        event.preventDefault();
+        if (option !== range) this.setCalendarRange(option);
+      });
+    }
+  }
+
+  private renderCalendarGrid(
+    parent: HTMLElement,
+    days: Date[],
+    range: TpsListCalendarRange,
+    items: TpsListCalendarItem[],
+  ): void {
+    const todayKey = toTpsListDateKey(new Date());
+    const byDay = new Map<string, TpsListCalendarItem[]>();
+    for (const item of items) {
+      const key = toTpsListDateKey(item.schedule!.start);
+      byDay.set(key, [...(byDay.get(key) ?? []), item]);
+    }
+
+    if (range === 'day') {
+      const key = toTpsListDateKey(days[0]);
+      const dayItems = byDay.get(key) ?? [];
+      const column = parent.createDiv({ cls: 'tps-list-calendar-day-view' });
+      const allDay = column.createDiv({
+        cls: 'tps-list-calendar-day tps-list-calendar-all-day',
+        attr: { 'data-tps-calendar-date': key },
+      });
+      allDay.createDiv({ cls: 'tps-list-calendar-slot-label', text: 'All day' });
+      const allDayList = allDay.createDiv({ cls: 'tps-list-calendar-day-items' });
+      for (const item of dayItems.filter((candidate) => candidate.schedule!.allDay)) {
+        this.createCalendarItemChip(allDayList, item);
+      }
+      for (let hour = 0; hour < 24; hour += 1) {
+        const slot = column.createDiv({
+          cls: 'tps-list-calendar-day tps-list-calendar-hour',
+          attr: { 'data-tps-calendar-date': key, 'data-tps-calendar-minutes': String(hour * 60) },
+        });
+        slot.createDiv({ cls: 'tps-list-calendar-slot-label', text: `${String(hour).padStart(2, '0')}:00` });
+        const list = slot.createDiv({ cls: 'tps-list-calendar-day-items' });
+        for (const item of dayItems) {
+          if (!item.schedule!.allDay && item.schedule!.start.getHours() === hour) this.createCalendarItemChip(list, item);
+        }
+      }
+      return;
+    }
+
+    const grid = parent.createDiv({ cls: `tps-list-calendar-grid tps-list-calendar-grid--${range}` });
+    for (const day of days.slice(0, 7)) {
+      grid.createDiv({
+        cls: 'tps-list-calendar-weekday',
+        text: day.toLocaleDateString(undefined, { weekday: 'short' }),
+      });
+    }
+    const month = this.calendarAnchor.getMonth();
+    for (const day of days) {
+      const key = toTpsListDateKey(day);
+      const cell = grid.createDiv({ cls: 'tps-list-calendar-day', attr: { 'data-tps-calendar-date': key } });
+      cell.classList.toggle('is-today', key === todayKey);
+      cell.classList.toggle('is-outside', range === 'month' && day.getMonth() !== month);
+      cell.createDiv({ cls: 'tps-list-calendar-day-number', text: String(day.getDate()) });
+      const list = cell.createDiv({ cls: 'tps-list-calendar-day-items' });
+      for (const item of byDay.get(key) ?? []) this.createCalendarItemChip(list, item);
+    }
+  }
+
+  /**
+   * Horizontal bars over the visible range: hours for a day, days otherwise.
+   * Drops resolve from the pointer position on the track, so a bar can be
+   * released over another bar.
+   */
+  private renderTimeline(
+    parent: HTMLElement,
+    days: Date[],
+    range: TpsListCalendarRange,
+    items: TpsListCalendarItem[],
+  ): void {
+    const rangeStart = days[0];
+    const rangeEnd = addDays(days[days.length - 1], 1);
+    const todayKey = toTpsListDateKey(new Date());
+    const timeline = parent.createDiv({ cls: 'tps-list-timeline' });
+    const scale = timeline.createDiv({ cls: 'tps-list-timeline-scale' });
+    const tickCount = range === 'day' ? 24 : days.length;
+    timeline.style.setProperty('--tps-list-timeline-columns', String(tickCount));
+    if (range === 'day') {
+      for (let hour = 0; hour < 24; hour += 1) {
+        scale.createDiv({ cls: 'tps-list-timeline-tick', text: String(hour).padStart(2, '0') });
+      }
+    } else {
+      for (const day of days) {
+        const tick = scale.createDiv({
+          cls: 'tps-list-timeline-tick',
+          text: day.toLocaleDateString(undefined, range === 'week' ? { weekday: 'short', day: 'numeric' } : { day: 'numeric' }),
+        });
+        tick.classList.toggle('is-today', toTpsListDateKey(day) === todayKey);
+      }
+    }
+
+    const track = timeline.createDiv({ cls: 'tps-list-timeline-track' });
+    track.dataset.tpsTimelineStart = String(rangeStart.getTime());
+    track.dataset.tpsTimelineEnd = String(rangeEnd.getTime());
+    track.dataset.tpsTimelineRange = range;
+    const placements = layoutTpsListTimeline(
+      items.map((item) => ({
+        start: item.schedule!.start,
+        allDay: item.schedule!.allDay,
+        durationMinutes: item.durationMinutes,
+      })),
+      rangeStart,
+      rangeEnd,
+    );
+    let rows = 0;
+    for (const placement of placements) {
+      const bar = this.createCalendarItemChip(track, items[placement.index], 'tps-list-timeline-bar');
+      bar.style.left = `${placement.left}%`;
+      bar.style.width = `${placement.width}%`;
+      bar.style.setProperty('--tps-list-timeline-row', String(placement.row));
+      rows = Math.max(rows, placement.row + 1);
+    }
+    track.style.setProperty('--tps-list-timeline-rows', String(Math.max(1, rows)));
+    if (placements.length === 0) {
+      track.createDiv({ cls: 'tps-list-timeline-empty', text: 'Nothing scheduled in this range' });
+    }
+  }
+
+  private createCalendarItemChip(parent: HTMLElement, item: TpsListCalendarItem, extraCls = ''): HTMLElement {
+    const schedule = item.schedule;
+    const time = schedule && !schedule.allDay
+      ? `${String(schedule.start.getHours()).padStart(2, '0')}:${String(schedule.start.getMinutes()).padStart(2, '0')}`
+      : '';
+    const chip = parent.createDiv({
+      cls: [
+        'tps-list-calendar-item',
+        `tps-list-calendar-item--${item.kind}`,
+        item.done ? 'is-done' : '',
+        extraCls,
+      ].filter(Boolean).join(' '),
+      attr: {
+        role: 'button',
+        tabindex: '0',
+        title: `${item.title}${time ? ` · ${time}` : ''}\n${item.file.path}${item.task ? `:${item.task.line}` : ''}`,
+      },
+    });
+    chip.dataset.path = item.file.path;
+    if (item.kind === 'task' && item.task) {
+      chip.dataset.taskPath = item.file.path;
+      chip.dataset.taskLine = String(item.task.line);
+      chip.dataset.tpsGcmContext = 'kanban-task';
+    }
+    if (time) chip.createSpan({ cls: 'tps-list-calendar-item-time', text: time });
+    chip.createSpan({ cls: 'tps-list-calendar-item-title', text: item.title });
+    chip.addEventListener('pointerdown', (event: PointerEvent) => {
+      event.stopPropagation();
+      this.beginCalendarPointerDrag(event, item, chip);
+    });
+    chip.addEventListener('click', (event: MouseEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (Date.now() < this.suppressTaskRowClickUntil) return;
+      void this.openCalendarItem(item, chip);
+    });
+    chip.addEventListener('contextmenu', (event: MouseEvent) => {
+      if (this.activeCalendarDrag?.chipEl === chip) {
+        event.preventDefault();
+        event.stopPropagation();
+        return;
+      }
+      if (item.kind === 'note') {
+        if (item.entry) this.openListNoteContextMenu(event, item.entry, chip);
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      if (item.kind === 'bullet') {
+        void this.openBulletLineContextMenu(event, item.file, item.task!.line, item.task!.rawLine || '');
+        return;
+      }
+      if (!this.openTaskLineContextMenu(event, item.file.path, item.task!.line)) {
+        void this.openTaskLine(item.file, item.task!.line, chip);
+      }
+    });
+    return chip;
+  }
+
+  private async openCalendarItem(item: TpsListCalendarItem, chip: HTMLElement): Promise<void> {
+    if (item.kind === 'note') {
+      await this.openOrFocusFile(item.file);
+      return;
+    }
+    if (item.kind === 'bullet') {
+      await this.openRenderedLineInNote(item.file, item.task!.line, item.task!.rawLine || '', chip, 'BulletLineOpen', 'line item');
+      return;
+    }
+    await this.openTaskLine(item.file, item.task!.line, chip);
+  }
+
+  private beginCalendarPointerDrag(event: PointerEvent, item: TpsListCalendarItem, chipEl: HTMLElement): void {
+    if (event.button !== 0) return;
+    if (item.task && !item.task.rawLine) {
+      flowWarn('TaskDrop', 'blocked', {
+        reason: 'missing-source-revision',
+        path: item.file.path,
+        line: item.task.line,
+      });
+      new Notice('Could not start this drag because the source revision is unavailable. Refresh the view and try again.');
+      return;
+    }
+    this.clearCalendarPointerDrag();
+    const isTouch = event.pointerType === 'touch';
+    const active: ActiveCalendarPointerDrag = {
+      pointerId: event.pointerId,
+      item,
+      chipEl,
+      startX: event.clientX,
+      startY: event.clientY,
+      moved: false,
+      activated: !isTouch,
+      activationTimer: null,
+      preview: null,
+    };
+    this.activeCalendarDrag = active;
+    const capture = (): void => {
+      try {
+        chipEl.setPointerCapture(event.pointerId);
+      } catch {
+        // Pointer capture is best-effort in embedded Obsidian webviews.
+      }
+    };
+    if (!isTouch) {
+      capture();
+      return;
+    }
+    active.activationTimer = window.setTimeout(() => {
+      if (this.activeCalendarDrag !== active) return;
+      active.activationTimer = null;
+      active.activated = true;
+      chipEl.addClass('tps-list-native-row--drag-ready');
+      capture();
+    }, TPS_LIST_TOUCH_DRAG_HOLD_MS);
+  }
+
+  private handleCalendarPointerMove(event: PointerEvent): void {
+    const active = this.activeCalendarDrag;
+    if (!active || active.pointerId !== event.pointerId) return;
+    const delta = Math.max(Math.abs(event.clientX - active.startX), Math.abs(event.clientY - active.startY));
+    if (delta < TPS_LIST_POINTER_DRAG_DISTANCE_PX) return;
+    if (!active.activated) {
+      this.clearCalendarPointerDrag(active.pointerId);
+      return;
+    }
+    active.moved = true;
+    event.preventDefault();
+    event.stopPropagation();
+    active.chipEl.addClass('tps-kanban-card-task--dragging');
+    if (!active.preview) {
+      active.preview = createPointerDragPreview(
+        active.chipEl.ownerDocument || document,
+        active.item.title,
+        1,
+        event.clientX,
+        event.clientY,
+      );
+    } else {
+      movePointerDragPreview(active.preview, event.clientX, event.clientY);
+    }
+  }
+
+  private async handleCalendarPointerUp(event: PointerEvent): Promise<void> {
+    const active = this.activeCalendarDrag;
+    if (!active || active.pointerId !== event.pointerId) return;
+    this.clearCalendarPointerDrag(active.pointerId);
+    if (!active.moved || !active.activated) return;
+    this.suppressTaskRowClickUntil = Date.now() + 500;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const target = this.resolveCalendarDropTarget(event.clientX, event.clientY);
+    if (!target) return;
+    await this.rescheduleCalendarItem(active.item, target.dateKey, target.minutes);
+  }
+
+  private resolveCalendarDropTarget(clientX: number, clientY: number): { dateKey: string; minutes: number | null } | null {
+    const releaseTarget = document.elementFromPoint(clientX, clientY) as HTMLElement | null;
+    if (!releaseTarget || !this.containerEl.contains(releaseTarget)) return null;
+    const track = releaseTarget.closest<HTMLElement>('.tps-list-timeline-track');
+    if (track) {
+      const start = Number(track.dataset.tpsTimelineStart);
+      const end = Number(track.dataset.tpsTimelineEnd);
+      const rect = track.getBoundingClientRect();
+      if (!Number.isFinite(start) || !Number.isFinite(end) || rect.width <= 0) return null;
+      const ratio = Math.max(0, Math.min(0.9999, (clientX - rect.left) / rect.width));
+      const dropped = new Date(start + ratio * (end - start));
+      const minutes = track.dataset.tpsTimelineRange === 'day'
+        ? Math.round((dropped.getHours() * 60 + dropped.getMinutes()) / 15) * 15
+        : null;
+      return { dateKey: toTpsListDateKey(startOfDay(dropped)), minutes };
+    }
+    const cell = releaseTarget.closest<HTMLElement>('[data-tps-calendar-date]');
+    const dateKey = cell?.dataset.tpsCalendarDate;
+    if (!dateKey) return null;
+    const minutes = Number(cell.dataset.tpsCalendarMinutes);
+    return { dateKey, minutes: cell.dataset.tpsCalendarMinutes && Number.isFinite(minutes) ? minutes : null };
+  }
+
+  /**
+   * Writes the new date through the same paths as kanban drops: frontmatter
+   * for notes, the confirmed inline line edit for task and bullet rows.
+   */
+  private async rescheduleCalendarItem(item: TpsListCalendarItem, dateKey: string, minutes: number | null): Promise<void> {
+    const dateProp = this.getCalendarDateProperty();
+    const nextValue = formatTpsListRescheduledValue(item.rawDate, dateKey, minutes);
+    if (String(item.rawDate ?? '').trim() === nextValue) return;
+    flow('TpsListView', 'calendar:reschedule', {
+      kind: item.kind,
+      path: item.file.path,
+      line: item.task?.line ?? null,
+      property: dateProp,
+      value: nextValue,
+    });
+    try {
+      if (item.kind === 'note') {
+        await this.processFrontmatter(item.file, (frontmatter) => {
+          frontmatter[this.findFrontmatterKeyCaseInsensitive(frontmatter, dateProp) ?? dateProp] = nextValue;
+        });
+      } else {
+        await this.confirmAndApplyInlineTaskDrop(
+          item.file,
+          item.task!.line,
+          dateProp,
+          nextValue,
+          [],
+          item.task!.rawLine || '',
+        );
+      }
+    } catch (error) {
+      flowError('TpsListView', 'calendar:reschedule-failed', error, { path: item.file.path });
+      new Notice(`Could not reschedule ${item.title}.`);
+    }
+    this.render();
+  }
+
+  private clearCalendarPointerDrag(pointerId?: number): void {
+    const active = this.activeCalendarDrag;
+    if (!active || (pointerId != null && active.pointerId !== pointerId)) return;
+    this.activeCalendarDrag = null;
+    if (active.activationTimer != null) window.clearTimeout(active.activationTimer);
+    removePointerDragPreview(active.preview);
+    active.chipEl.removeClass('tps-kanban-card-task--dragging');
+    active.chipEl.removeClass('tps-list-native-row--drag-ready');
+    try {
+      if (active.chipEl.hasPointerCapture?.(active.pointerId)) {
+        active.chipEl.releasePointerCapture(active.pointerId);
+      }
+    } catch {
+      // Ignore capture cleanup failures for detached/rerendered chips.
+    }
+  }
+
   private formatListGroupLabel(propName: string | null, label: string): string {
     const cleanLabel = String(label || '').trim();
     const formattedLabel = cleanLabel && cleanLabel.toLowerCase() !== 'null'
@@ -9034,6 +9708,7 @@ export class TpsListView extends BasesView {
     const normalized = String(propId || '').trim().toLowerCase();
     return !isSourceNoteGroupProperty(propId)
       && this.getConfiguredCustomProperty(propId)?.type !== 'folder'
+      && this.getConfiguredCustomProperty(propId)?.type !== 'tracked'
       && !normalized.startsWith('file.')
       && !normalized.startsWith('formula.');
   }
@@ -9116,6 +9791,9 @@ export class TpsListView extends BasesView {
     const lower = raw.toLowerCase();
     const normalized = this.normalizeTaskPropertyId(raw);
     if (this.getConfiguredCustomProperty(raw)?.type === 'folder') return item.file.parent?.path || '/';
+    if (this.getConfiguredCustomProperty(raw)?.type === 'tracked') {
+      return this.getGcmPlugin()?.timeTrackingService?.getTrackedTimeForLine?.(item.task.rawLine || '')?.remainingMinutes ?? '';
+    }
     if (lower === 'file.path' || lower === 'path' || lower === 'task.path' || normalized === 'filepath') return item.file.path;
     if (lower === 'title' || lower === 'task.title') return this.getTaskVisibleTitle(item.task);
     if (lower === 'file.name' || lower === 'file.basename' || lower === 'file.fullname' || lower === 'name' || normalized === 'path') {
@@ -9203,10 +9881,21 @@ export class TpsListView extends BasesView {
       if (event.shiftKey || event.metaKey || event.ctrlKey) return;
       void this.openOrFocusFile(displayFile);
     });
+    this.renderBlockedBadge(body, this.getGcmPlugin()?.taskDependencyService?.getNoteSummary?.(displayFile));
     row.addEventListener('contextmenu', (event: MouseEvent) => this.openListNoteContextMenu(event, entry, row));
     this.renderListNoteProperties(body, entry, selectedProps, logicalFile);
   }
 
+  private renderBlockedBadge(parent: HTMLElement, summary: TaskDependencySummary | null | undefined): void {
+    const open = summary?.openBlockers ?? [];
+    if (open.length === 0) return;
+    parent.createSpan({
+      cls: 'tps-list-native-blocked',
+      text: open.length === 1 ? 'Blocked' : `Blocked (${open.length})`,
+      attr: { title: `Blocked by ${open.map((item) => item.title).join(', ')}` },
+    });
+  }
+
   private openListNoteContextMenu(event: MouseEvent, entry: BasesEntry, row: HTMLElement): void {
     event.preventDefault();
     event.stopPropagation();
@@ -9241,6 +9930,19 @@ export class TpsListView extends BasesView {
       const rawValue = this.getEntryValue(entry, propId);
       const propName = this.getFrontmatterPropNameFromId(propId) ?? propId;
       const configuredProperty = this.getConfiguredCustomProperty(propId);
+      if (configuredProperty?.type === 'tracked') {
+        const tracked = this.getTrackedTimeDisplay(
+          this.getGcmPlugin()?.timeTrackingService?.getTrackedTimeForNote?.(logicalFile ?? entry.file),
+        );
+        if (tracked) {
+          parent.createSpan({
+            cls: `tps-list-native-property tps-list-native-property--${tracked.kind}`,
+            text: tracked.text,
+            attr: { title: tracked.title || tracked.text },
+          });
+        }
+        continue;
+      }
       const sourceFolderProperty = configuredProperty?.type === 'folder';
       // Canonical GCM keeps whole-note recurrence read-only: editing only the
       // rule would bypass the recurrence service's series/template lifecycle.
@@ -9530,6 +10232,7 @@ export class TpsListView extends BasesView {
     for (const propId of selectedProps) {
       let property = this.getTaskPropertyValue(file, task, propId, hidden);
       if (!property && /^formula\./iu.test(String(propId || '').trim())) continue;
+      if (!property && this.getConfiguredCustomProperty(propId)?.type === 'tracked') continue;
       if (!property) {
         const configuredProperty = this.getConfiguredCustomProperty(propId);
         if (isEntityReferenceProperty(configuredProperty)) {
@@ -9696,6 +10399,9 @@ export class TpsListView extends BasesView {
       text: taskTitle,
       attr: { type: 'button', 'aria-label': isBullet ? `Open line in ${file.basename}` : `Open task in ${file.basename}` },
     });
+    if (!isBullet) {
+      this.renderBlockedBadge(body, this.getGcmPlugin()?.taskDependencyService?.getLineSummary?.(file, task.rawLine || ''));
+    }
     title.addEventListener('pointerdown', (event: PointerEvent) => {
       event.stopPropagation();
       this.beginTaskPointerDrag(event, file, task, propName, displayLane, row);
@@ -9753,6 +10459,7 @@ export class TpsListView extends BasesView {
     for (const propId of selectedProps) {
       let property = this.getTaskPropertyValue(file, task, propId, hidden);
       if (!property && /^formula\./iu.test(String(propId || '').trim())) continue;
+      if (!property && this.getConfiguredCustomProperty(propId)?.type === 'tracked') continue;
       if (!property) {
         const configuredProperty = this.getConfiguredCustomProperty(propId);
         if (isEntityReferenceProperty(configuredProperty)) {
@@ -4,7 +4,7 @@ export interface CustomProperty {
   id: string;
   label: string;
   key: string;
-  type: 'text' | 'number' | 'datetime' | 'selector' | 'list' | 'checkbox' | 'recurrence' | 'folder' | 'snooze' | 'kind';
+  type: 'text' | 'number' | 'datetime' | 'selector' | 'list' | 'checkbox' | 'recurrence' | 'folder' | 'snooze' | 'tracked' | 'kind';
   options?: string[]; // For selector/list suggestions
   /**
    * Composable sources for selectable values. `optionsSource` remains for
@@ -40,6 +40,52 @@ export interface CustomProperty {
 
 export type PropertyOptionSource = 'manual' | 'vault' | 'entity';
 
+/** Tag, path and property scoping shared by custom fields and user actions. */
+export type PropertyScope = Pick<
+  CustomProperty,
+  'scopeTags' | 'scopeMode' | 'excludeTags' | 'scopePaths' | 'excludePaths' | 'scopeProperties'
+>;
+
+export type UserActionStep =
+  | { type: 'set-property'; key: string; value: string }
+  | { type: 'add-tag'; tag: string }
+  | { type: 'remove-tag'; tag: string }
+  | { type: 'move-to-folder'; folder: string }
+  | { type: 'create-child'; title: string; template?: string }
+  | { type: 'run-command'; commandId: string }
+  | { type: 'start-timer' };
+
+/** A menu action defined in settings. Steps run in order over every target. */
+export interface UserAction extends PropertyScope {
+  id: string;
+  label: string;
+  icon?: string;
+  disabled?: boolean;
+  appliesToNotes: boolean;
+  appliesToTaskLines: boolean;
+  /** Offer the action when several notes or task lines are selected. */
+  appliesToMultiple: boolean;
+  steps: UserActionStep[];
+}
+
+/**
+ * A note whose frontmatter and body seed new child notes. Variables such as
+ * `{{parent.title}}`, `{{date:YYYY-MM-DD}}` and `{{prompt:Question}}` are
+ * filled in when the child is created.
+ */
+export interface ChildNoteTemplate {
+  id: string;
+  name: string;
+  /** Vault path of the template note. */
+  path: string;
+  /** Chosen automatically when the parent has one of these kinds. */
+  kinds?: string[];
+  /** Chosen automatically when the parent has one of these tags. */
+  tags?: string[];
+  /** Parent properties copied onto the child unless the template sets them. */
+  inheritProperties?: string[];
+}
+
 export type VirtualBaseEmbedPlacement = 'top' | 'bottom' | 'hover';
 
 export interface VirtualBaseEmbedProperty {
@@ -52,6 +98,17 @@ export type GcmLiveMenuPosition = 'left' | 'center' | 'right';
 export type ParentLinkFormat = 'wikilink' | 'markdown-title';
 export type ChecklistPromotionBehavior = 'remove' | 'complete-and-link' | 'link-only';
 export type DailyNoteTaskMoveSourceBehavior = 'mark-migrated' | 'remove';
+export type PeriodicNoteKind = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface PeriodicNoteTypeSettings {
+  enabled: boolean;
+  folder: string;
+  /** Moment format of the filename, e.g. `GGGG-[W]WW` for ISO weeks. */
+  format: string;
+  template: string;
+  /** Unscheduled tasks in these notes are treated as scheduled on the period's first day. */
+  inheritUnscheduledTasks: boolean;
+}
 export type LinkedSubitemCheckboxStyle = 'native' | 'soft-link' | 'accent';
 export type TimeTrackingStorageMode = 'daily-note' | 'source-note' | 'dedicated-note';
 export type TimeTrackingDailyNotePlacement = 'top' | 'bottom';
@@ -104,6 +161,30 @@ export interface TimeTrackingPausedSessionState {
   notesHeading?: string;
   notesBlockId?: string;
   notesMode?: 'workspace' | 'none';
+  /** Focus block the paused session belonged to, carried over to the resumed session. */
+  focusCycle?: number;
+}
+export type TimeTrackingFocusPhase = 'work' | 'short-break' | 'long-break';
+export interface TimeTrackingFocusState {
+  phase: TimeTrackingFocusPhase;
+  /** One-based focus block; stays on the finished block during its break. */
+  cycle: number;
+  /** When the current phase ends. Null while the focus block's timer is paused. */
+  phaseEndsAt: string | null;
+  /** Time left in the phase when its timer was paused. */
+  remainingMs?: number;
+  /** Running or last session of the current focus block. */
+  sessionId?: string;
+  target: {
+    filePath: string;
+    lineNumber?: number;
+    type: 'note' | 'heading' | 'bullet' | 'task' | 'line';
+    title: string;
+  };
+  notesMode?: 'workspace' | 'none';
+  notesPath?: string;
+  notesHeading?: string;
+  notesBlockId?: string;
 }
 export interface LinkedSubitemCheckboxMapping {
   checkboxState: string;
@@ -310,12 +391,38 @@ export interface HideRule {
   tagName: string;
 }
 
+/** One write an action rule performs when its conditions match. */
+export type RuleAction =
+  | { type: 'set-property'; key: string; value: string }
+  | { type: 'clear-property'; key: string }
+  | { type: 'add-tag'; tag: string }
+  | { type: 'remove-tag'; tag: string }
+  | { type: 'move-to-folder'; folder: string }
+  | { type: 'set-status'; status: string }
+  | { type: 'link-parent'; parent: string };
+
+/**
+ * A rule whose output is a list of actions instead of an icon, color, sort key
+ * or tag. Every matching rule runs, in order, so a later rule can undo an
+ * earlier one.
+ */
+export interface ActionRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: NotebookNavigatorRuleMatchMode;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
 export interface NotebookNavigatorRuleSettings {
   enabled: boolean;
   autoApplyOnFileOpen: boolean;
   autoApplyOnMetadataChange: boolean;
   applyOnStartup: boolean;
   startupDelayMs: number;
+  scheduledSweepEnabled: boolean;
+  scheduledSweepTimes: string;
   metadataDebounceMs: number;
   frontmatterIconField: string;
   frontmatterColorField: string;
@@ -326,6 +433,7 @@ export interface NotebookNavigatorRuleSettings {
   rules: IconColorRule[];
   smartSort: SmartSortSettings;
   hideRules: HideRule[];
+  actionRules: ActionRule[];
 }
 
 export const DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS: NotebookNavigatorRuleSettings = {
@@ -334,6 +442,8 @@ export const DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS: NotebookNavigatorRuleSett
   autoApplyOnMetadataChange: false,
   applyOnStartup: false,
   startupDelayMs: 800,
+  scheduledSweepEnabled: false,
+  scheduledSweepTimes: '',
   metadataDebounceMs: 150,
   frontmatterIconField: 'icon',
   frontmatterColorField: 'color',
@@ -352,6 +462,7 @@ export const DEFAULT_NOTEBOOK_NAVIGATOR_RULE_SETTINGS: NotebookNavigatorRuleSett
     buckets: [],
   },
   hideRules: [],
+  actionRules: [],
 };
 
 export function createRuleId(): string {
@@ -433,6 +544,17 @@ export function createDefaultHideRule(): HideRule {
   };
 }
 
+export function createDefaultActionRule(): ActionRule {
+  return {
+    id: `action-rule-${Date.now()}`,
+    name: 'New Action Rule',
+    enabled: true,
+    match: 'all',
+    conditions: [],
+    actions: [{ type: 'add-tag', tag: '' }],
+  };
+}
+
 export function createConditionGroupId(): string {
   return `group-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
@@ -448,6 +570,7 @@ export function createDefaultConditionGroup(): ConditionGroup {
 export interface TPSGlobalContextMenuSettings {
   enableLogging: boolean;
   logOpenerDecisions: boolean;
+  enableUriActions: boolean;
   enableInlinePersistentMenus: boolean;
   enableInLivePreview: boolean;
   enableInPreview: boolean;
@@ -480,6 +603,8 @@ export interface TPSGlobalContextMenuSettings {
   enableVirtualBaseEmbeds: boolean;
   virtualBaseEmbedProperties: VirtualBaseEmbedProperty[];
   showCustomPropertiesInContextMenu: boolean;
+  userActions: UserAction[];
+  childNoteTemplates: ChildNoteTemplate[];
   inheritNotebookNavigatorTagColors: boolean;
   notebookNavigatorRules: NotebookNavigatorRuleSettings;
 
@@ -492,7 +617,15 @@ export interface TPSGlobalContextMenuSettings {
   timeTrackingDailyNotePlacement: TimeTrackingDailyNotePlacement;
   timeTrackingSingleActiveSession: boolean;
   timeTrackingIgnoreArchivedFiles: boolean;
+  /** Minutes without activity before a returning user is asked about running timers. 0 turns idle detection off. */
+  timeTrackingIdleThresholdMinutes: number;
   timeTrackingPausedSession?: TimeTrackingPausedSessionState | null;
+  timeTrackingFocusWorkMinutes: number;
+  timeTrackingFocusShortBreakMinutes: number;
+  timeTrackingFocusLongBreakMinutes: number;
+  /** Focus blocks per set; the long break follows the last one and ends the set. */
+  timeTrackingFocusCycles: number;
+  timeTrackingFocusState?: TimeTrackingFocusState | null;
 
   // Recurrence settings
   enableRecurrence: boolean;
@@ -502,6 +635,10 @@ export interface TPSGlobalContextMenuSettings {
   recurrenceCompletionStatuses: string[];
   recurrenceDefaultStatus: string; // Default status for new recurrence instances
   recurringTemplateFolder: string; // Folder to store recurring event templates
+  /** Status applied when a snooze wakes up. Empty leaves the status alone. */
+  snoozeWakeStatus: string;
+  /** Named times for relative snoozes, as `name=HH:mm` (e.g. `standup=09:30`). */
+  snoozeAnchors: string[];
 
   // File naming settings
 
@@ -566,6 +703,7 @@ export interface TPSGlobalContextMenuSettings {
   archiveFolderPath: string;
   archiveUseDailyFolder: boolean;
   lastArchiveTagSweepDate?: string;
+  lastRuleSweepDate?: string;
 
   // Workspace Ribbon Buttons
   workspaceRibbonButtons: boolean;
@@ -586,6 +724,7 @@ export interface TPSGlobalContextMenuSettings {
   dailyNavShowToday: boolean;
   enableAutoPopulateDailyNotes: boolean;
   inheritUnscheduledTasksFromDailyNotes: boolean;
+  periodicNotes: Record<PeriodicNoteKind, PeriodicNoteTypeSettings>;
 
   // Overlay ignore rules
   subitems_IgnoreRules: ViewModeRule[];
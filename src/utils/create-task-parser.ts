@@ -1,5 +1,15 @@
 import * as chrono from 'chrono-node';
 import { normalizeLinkedSubitemCheckboxState } from './linked-subitem-mapping';
+import type { CustomProperty } from '../types';
+
+export type CreateTaskTokenKind = 'date' | 'tag' | 'priority' | 'estimate' | 'target' | 'property' | 'recurrence';
+
+export interface CreateTaskToken {
+  kind: CreateTaskTokenKind;
+  start: number;
+  end: number;
+  text: string;
+}
 
 export interface ParsedCreateTaskInput {
   rawInput: string;
@@ -9,62 +19,197 @@ export interface ParsedCreateTaskInput {
   detectedDateEnd: number;
   scheduledValue: string;
   allDay: boolean;
+  tags: string[];
+  priority: string;
+  /** Minutes from a `~30m` token; 0 when none was typed. */
+  timeEstimate: number;
+  /** Link path from a `>[[Note]]` token. */
+  targetLinkpath: string;
+  /** `@@key:value` tokens, keyed by the configured property key. */
+  properties: Record<string, string>;
+  recurrence: string;
+  /** Every recognized token, in input order, for highlighting. */
+  tokens: CreateTaskToken[];
 }
 
-export function parseCreateTaskInput(input: string, referenceDate = new Date()): ParsedCreateTaskInput {
-  const rawInput = String(input || '');
-  const result = chrono.casual.parse(rawInput, referenceDate, { forwardDate: true })[0];
-  if (!result) {
-    return {
-      rawInput,
-      title: normalizeTaskTitle(rawInput),
-      detectedDateText: '',
-      detectedDateStart: -1,
-      detectedDateEnd: -1,
-      scheduledValue: '',
-      allDay: false,
-    };
-  }
+export interface CreateTaskParseOptions {
+  /** Keys accepted in `@@key:value` tokens; anything else stays in the title. */
+  inlinePropertyKeys?: readonly string[];
+}
 
-  const detectedDateText = String(result.text || '');
-  const detectedDateStart = Math.max(0, Number(result.index || 0));
-  const detectedDateEnd = detectedDateStart + detectedDateText.length;
-  const title = normalizeTaskTitle(`${rawInput.slice(0, detectedDateStart)} ${rawInput.slice(detectedDateEnd)}`);
-  const date = result.start.date();
-  const hasTime = result.start.isCertain('hour') || result.start.isCertain('minute');
+const PRIORITY_ALIASES: Record<string, string> = { 1: 'high', 2: 'medium', 3: 'normal', 4: 'low' };
+const QUICK_ADD_DENY_KEYS = new Set(['title', 'parent', 'parentof', 'folderpath', 'tpsinlineprops', 'tps-inline-props']);
+const WEEKDAY_CODES: Array<[RegExp, string]> = [
+  [/^mon/, 'MO'], [/^tue/, 'TU'], [/^wed/, 'WE'], [/^thu/, 'TH'], [/^fri/, 'FR'], [/^sat/, 'SA'], [/^sun/, 'SU'],
+];
+const WEEKDAY_NAME = '(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|nesday|sday|urday|rsday)?';
+const TAG_RE = /(^|\s)(#[\p{L}\p{N}_/-]+)/gu;
+const PRIORITY_RE = /(^|\s)(!(high|medium|normal|low|[1-4]))(?=\s|$)/gi;
+const ESTIMATE_RE = /(^|\s)(~(\d+(?:\.\d+)?h(?:\d+m?)?|\d+m?))(?=\s|$)/gi;
+const TARGET_RE = /(^|\s)(>\s?\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\])/g;
+const PROPERTY_RE = /(^|\s)(@@([A-Za-z][\w-]*):(?:"([^"]*)"|(\S+)))/g;
+const RECURRENCE_RE = new RegExp(
+  `(^|\\s)(every\\s+(?:(other|\\d+)\\s+)?(day|days|weekday|weekdays|weekend|week|weeks|month|months|year|years|${WEEKDAY_NAME}(?:\\s*(?:,|and|&)\\s*${WEEKDAY_NAME})*))(?=\\s|$)`,
+  'gi',
+);
 
-  return {
+/**
+ * Parses quick-add text. Besides a schedule phrase, the title may carry
+ * `#tag`, `!high` / `!1` priority, `~30m` estimates, a `>[[Note]]` target,
+ * `@@key:value` for inline-settable properties, and `every weekday` style
+ * recurrence. Tags stay in the title; every other token is removed from it.
+ */
+export function parseCreateTaskInput(
+  input: string,
+  referenceDate = new Date(),
+  options: CreateTaskParseOptions = {},
+): ParsedCreateTaskInput {
+  const rawInput = String(input || '');
+  const tokens: CreateTaskToken[] = [];
+  const parsed: ParsedCreateTaskInput = {
     rawInput,
-    title,
-    detectedDateText,
-    detectedDateStart,
-    detectedDateEnd,
-    scheduledValue: hasTime ? formatInlineDateTime(date) : formatInlineDate(date),
-    allDay: !hasTime,
+    title: '',
+    detectedDateText: '',
+    detectedDateStart: -1,
+    detectedDateEnd: -1,
+    scheduledValue: '',
+    allDay: false,
+    tags: [],
+    priority: '',
+    timeEstimate: 0,
+    targetLinkpath: '',
+    properties: {},
+    recurrence: '',
+    tokens,
+  };
+  const propertyKeys = new Map((options.inlinePropertyKeys ?? []).map((key) => [key.toLowerCase(), key]));
+
+  const collect = (pattern: RegExp, kind: CreateTaskTokenKind, apply: (match: RegExpExecArray) => boolean) => {
+    for (const match of rawInput.matchAll(pattern)) {
+      const start = (match.index ?? 0) + match[1].length;
+      const end = start + match[2].length;
+      if (tokens.some((token) => start < token.end && end > token.start)) continue;
+      if (!apply(match as RegExpExecArray)) continue;
+      tokens.push({ kind, start, end, text: match[2] });
+    }
   };
+
+  collect(TARGET_RE, 'target', (match) => {
+    parsed.targetLinkpath = match[3].trim();
+    return !!parsed.targetLinkpath;
+  });
+  collect(PROPERTY_RE, 'property', (match) => {
+    const key = propertyKeys.get(match[3].toLowerCase());
+    const value = String(match[4] ?? match[5] ?? '').trim();
+    if (!key || !value) return false;
+    if (key.toLowerCase() === 'priority') parsed.priority = value;
+    else if (key.toLowerCase() === 'recurrence') parsed.recurrence = value;
+    else parsed.properties[key] = value;
+    return true;
+  });
+  collect(PRIORITY_RE, 'priority', (match) => {
+    const value = match[3].toLowerCase();
+    parsed.priority = PRIORITY_ALIASES[value] ?? value;
+    return true;
+  });
+  collect(ESTIMATE_RE, 'estimate', (match) => {
+    parsed.timeEstimate = parseEstimateMinutes(match[3]);
+    return parsed.timeEstimate > 0;
+  });
+  collect(RECURRENCE_RE, 'recurrence', (match) => {
+    parsed.recurrence = buildRecurrenceRule(match[3], match[4]);
+    return !!parsed.recurrence;
+  });
+
+  collect(TAG_RE, 'tag', (match) => {
+    parsed.tags.push(match[2].slice(1));
+    return true;
+  });
+
+  // Chrono sees the input with tokens blanked out so `every monday` or `~2h`
+  // never doubles as a schedule, while indices still line up with the input.
+  let masked = rawInput;
+  for (const token of tokens) {
+    masked = `${masked.slice(0, token.start)}${' '.repeat(token.end - token.start)}${masked.slice(token.end)}`;
+  }
+
+  const result = chrono.casual.parse(masked, referenceDate, { forwardDate: true })[0];
+  const removed = tokens.filter((token) => token.kind !== 'tag');
+  if (result) {
+    const detectedDateText = String(result.text || '');
+    parsed.detectedDateText = detectedDateText;
+    parsed.detectedDateStart = Math.max(0, Number(result.index || 0));
+    parsed.detectedDateEnd = parsed.detectedDateStart + detectedDateText.length;
+    const date = result.start.date();
+    const hasTime = result.start.isCertain('hour') || result.start.isCertain('minute');
+    parsed.scheduledValue = hasTime ? formatInlineDateTime(date) : formatInlineDate(date);
+    parsed.allDay = !hasTime;
+    const dateToken = { kind: 'date' as const, start: parsed.detectedDateStart, end: parsed.detectedDateEnd, text: detectedDateText };
+    tokens.push(dateToken);
+    removed.push(dateToken);
+  }
+
+  tokens.sort((a, b) => a.start - b.start);
+  removed.sort((a, b) => a.start - b.start);
+  let title = '';
+  let cursor = 0;
+  for (const token of removed) {
+    title += `${rawInput.slice(cursor, token.start)} `;
+    cursor = token.end;
+  }
+  parsed.title = normalizeTaskTitle(title + rawInput.slice(cursor));
+  return parsed;
 }
 
-export function buildCreatedTaskLine(options: {
-  title: string;
-  checkboxMarker: string;
+/** Keys of enabled custom properties that may be set with `@@key:value`. */
+export function getQuickAddPropertyKeys(properties: readonly CustomProperty[] | null | undefined): string[] {
+  return (properties ?? [])
+    .filter((property) => property && !property.disabled && !property.hidden && property.allowInlineSet !== false && property.type !== 'kind')
+    .map((property) => String(property.key || '').trim())
+    .filter((key) => key && !QUICK_ADD_DENY_KEYS.has(key.toLowerCase()));
+}
+
+export interface CreatedTaskFieldOptions {
   scheduledValue?: string;
   allDay?: boolean;
   timeEstimate?: number;
+  /** Writes the estimate even for unscheduled or all-day tasks (typed as `~30m`). */
+  keepTimeEstimate?: boolean;
   priority?: string;
+  recurrence?: string;
+  properties?: Record<string, string>;
+}
+
+export function buildCreatedTaskLine(options: CreatedTaskFieldOptions & {
+  title: string;
+  checkboxMarker: string;
 }): string {
   const marker = normalizeCreateTaskCheckboxMarker(options.checkboxMarker);
   if (marker == null) {
     throw new Error('Task checkbox marker must be one configured character.');
   }
   const title = normalizeTaskTitle(options.title);
-  const parts = [`- [${marker}] ${title || 'Untitled task'}`];
+  const parts = [`- [${marker}] ${title || 'Untitled task'}`, ...buildCreatedTaskFields(options)];
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+export function buildCreatedTaskFields(options: CreatedTaskFieldOptions): string[] {
+  const parts: string[] = [];
   const priority = String(options.priority || '').trim();
   const scheduledValue = String(options.scheduledValue || '').trim();
   const timeEstimate = Math.max(0, Math.round(Number(options.timeEstimate || 0)));
+  const recurrence = String(options.recurrence || '').trim();
   if (priority) parts.push(`[priority:: ${priority}]`);
   if (scheduledValue) parts.push(`[scheduled:: ${scheduledValue}]`);
-  if (scheduledValue && !options.allDay && timeEstimate > 0) parts.push(`[timeEstimate:: ${timeEstimate}]`);
-  return parts.join(' ').replace(/\s+/g, ' ').trim();
+  if (timeEstimate > 0 && (options.keepTimeEstimate || (scheduledValue && !options.allDay))) {
+    parts.push(`[timeEstimate:: ${timeEstimate}]`);
+  }
+  if (recurrence) parts.push(`[recurrence:: ${recurrence}]`);
+  for (const [key, value] of Object.entries(options.properties ?? {})) {
+    const normalized = String(value ?? '').trim();
+    if (key.trim() && normalized) parts.push(`[${key.trim()}:: ${normalized}]`);
+  }
+  return parts;
 }
 
 export function formatInlineDateTime(date: Date): string {
@@ -75,6 +220,28 @@ export function formatInlineDate(date: Date): string {
   return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
 }
 
+function parseEstimateMinutes(value: string): number {
+  const text = value.toLowerCase();
+  const hours = text.match(/^(\d+(?:\.\d+)?)h(?:(\d+)m?)?$/);
+  if (hours) return Math.round(Number(hours[1]) * 60 + Number(hours[2] ?? 0));
+  return Math.round(Number(text.replace(/m$/, '')) || 0);
+}
+
+function buildRecurrenceRule(intervalText: string | undefined, unitText: string): string {
+  const unit = unitText.toLowerCase();
+  const interval = intervalText?.toLowerCase() === 'other' ? 2 : Number(intervalText || 1);
+  if (!Number.isFinite(interval) || interval < 1) return '';
+  const suffix = interval > 1 ? `;INTERVAL=${interval}` : '';
+  if (/^weekdays?$/.test(unit)) return `RRULE:FREQ=WEEKLY${suffix};BYDAY=MO,TU,WE,TH,FR`;
+  if (unit === 'weekend') return `RRULE:FREQ=WEEKLY${suffix};BYDAY=SA,SU`;
+  const frequency = ({ day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' } as Record<string, string>)[unit.replace(/s$/, '')];
+  if (frequency) return `RRULE:FREQ=${frequency}${suffix}`;
+  const days = unit.split(/\s*(?:,|and|&)\s*/)
+    .map((name) => WEEKDAY_CODES.find(([pattern]) => pattern.test(name.trim()))?.[1])
+    .filter((code): code is string => !!code);
+  return days.length > 0 ? `RRULE:FREQ=WEEKLY${suffix};BYDAY=${Array.from(new Set(days)).join(',')}` : '';
+}
+
 function normalizeTaskTitle(input: string): string {
   return String(input || '')
     .replace(/\s+([#@])/g, ' $1')
@@ -1,6 +1,7 @@
 import { App, TFile, moment, normalizePath } from 'obsidian';
 import { parseDateFromFilename } from './daily-file-date';
 import { getDailyNotePathDateCandidate } from './daily-note-creation';
+import { parsePeriodicNotePath } from './periodic-notes';
 import { readInlineFieldValue } from './task-line-metadata';
 import {
   isFilePropertiesCompanionPath,
@@ -79,9 +80,17 @@ export function getDailyNoteScheduledValueForIsoDate(isoDate: string): string {
   return `${String(isoDate || '').trim()} 00:00:00`;
 }
 
+/**
+ * The date an unscheduled task inherits from the note it lives in: the day of
+ * a daily note, or the first day of a weekly/monthly/quarterly/yearly note
+ * whose type has inheritance turned on.
+ */
 export function getInheritedDailyNoteTaskScheduledValue(app: App, settings: unknown, file: FileLike): string | null {
-  if (!dailyNoteTaskScheduleInheritanceEnabled(settings)) return null;
-  return parseDailyNoteFileDate(app, settings, file);
+  const daily = dailyNoteTaskScheduleInheritanceEnabled(settings) ? parseDailyNoteFileDate(app, settings, file) : null;
+  if (daily) return daily;
+  const periodicNotes = (settings as { periodicNotes?: Record<string, any> } | null | undefined)?.periodicNotes;
+  const period = parsePeriodicNotePath(periodicNotes, file.path);
+  return period && periodicNotes?.[period.kind]?.inheritUnscheduledTasks !== false ? period.start : null;
 }
 
 export function resolveTaskScheduledValue(app: App, settings: unknown, file: FileLike, rawLine: string): string {
@@ -13,6 +13,7 @@ export interface DirectTaskHistoryCause {
   sourcePluginId: string;
   surface: string;
   commandId?: string;
+  interactionId?: string;
 }
 
 export interface DirectTaskHistoryLocation {
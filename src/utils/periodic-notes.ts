@@ -0,0 +1,151 @@
+import { normalizePath } from 'obsidian';
+import type { PeriodicNoteKind, PeriodicNoteTypeSettings } from '../types';
+import { DEFAULT_PERIODIC_NOTE_SETTINGS } from '../constants';
+
+/**
+ * Weekly, monthly, quarterly and yearly notes. Each kind has its own folder,
+ * filename format and template; a note belongs to a period when it sits in
+ * that folder and its basename parses strictly with that format. Periods are
+ * identified by the ISO date (`YYYY-MM-DD`) of their first day.
+ */
+
+export const PERIODIC_NOTE_KINDS: readonly PeriodicNoteKind[] = ['weekly', 'monthly', 'quarterly', 'yearly'];
+
+export const PERIODIC_NOTE_LABELS: Record<PeriodicNoteKind, { noun: string; title: string }> = {
+  weekly: { noun: 'week', title: 'Weekly' },
+  monthly: { noun: 'month', title: 'Monthly' },
+  quarterly: { noun: 'quarter', title: 'Quarterly' },
+  yearly: { noun: 'year', title: 'Yearly' },
+};
+
+const PERIOD_UNITS: Record<PeriodicNoteKind, 'isoWeek' | 'month' | 'quarter' | 'year'> = {
+  weekly: 'isoWeek',
+  monthly: 'month',
+  quarterly: 'quarter',
+  yearly: 'year',
+};
+
+const PERIOD_STEPS: Record<PeriodicNoteKind, 'weeks' | 'months' | 'quarters' | 'years'> = {
+  weekly: 'weeks',
+  monthly: 'months',
+  quarterly: 'quarters',
+  yearly: 'years',
+};
+
+type PeriodicNoteSettingsMap = Partial<Record<PeriodicNoteKind, Partial<PeriodicNoteTypeSettings>>> | null | undefined;
+
+export interface PeriodicNoteMatch {
+  kind: PeriodicNoteKind;
+  /** First day of the period. */
+  start: string;
+}
+
+export function normalizePeriodicNoteSettings(value: unknown): Record<PeriodicNoteKind, PeriodicNoteTypeSettings> {
+  const source = value && typeof value === 'object' ? value as Record<string, any> : {};
+  const normalized = {} as Record<PeriodicNoteKind, PeriodicNoteTypeSettings>;
+  for (const kind of PERIODIC_NOTE_KINDS) {
+    const defaults = DEFAULT_PERIODIC_NOTE_SETTINGS[kind];
+    const entry = source[kind] && typeof source[kind] === 'object' ? source[kind] : {};
+    normalized[kind] = {
+      enabled: entry.enabled === true,
+      folder: typeof entry.folder === 'string' ? normalizeFolder(entry.folder) : defaults.folder,
+      format: typeof entry.format === 'string' && entry.format.trim() ? entry.format.trim() : defaults.format,
+      template: typeof entry.template === 'string' ? entry.template.trim() : '',
+      inheritUnscheduledTasks: entry.inheritUnscheduledTasks !== false,
+    };
+  }
+  return normalized;
+}
+
+export function getEnabledPeriodicNoteKinds(settings: PeriodicNoteSettingsMap): PeriodicNoteKind[] {
+  return PERIODIC_NOTE_KINDS.filter((kind) => settings?.[kind]?.enabled === true);
+}
+
+/** The next enabled, larger period: day → week → month → quarter → year. */
+export function getParentPeriodicNoteKind(
+  settings: PeriodicNoteSettingsMap,
+  from: PeriodicNoteKind | 'daily',
+): PeriodicNoteKind | null {
+  const start = from === 'daily' ? 0 : PERIODIC_NOTE_KINDS.indexOf(from) + 1;
+  return PERIODIC_NOTE_KINDS.slice(start).find((kind) => settings?.[kind]?.enabled === true) ?? null;
+}
+
+export function getPeriodStart(kind: PeriodicNoteKind, isoDate: string): string {
+  return parseIsoDate(isoDate).startOf(PERIOD_UNITS[kind]).format('YYYY-MM-DD');
+}
+
+export function shiftPeriod(kind: PeriodicNoteKind, isoDate: string, offset: number): string {
+  return parseIsoDate(getPeriodStart(kind, isoDate)).add(offset, PERIOD_STEPS[kind]).format('YYYY-MM-DD');
+}
+
+/**
+ * The day used to pick the enclosing larger period. ISO weeks belong to the
+ * month and year that hold their Thursday.
+ */
+export function getPeriodAnchorDate(kind: PeriodicNoteKind, start: string): string {
+  return kind === 'weekly'
+    ? parseIsoDate(start).add(3, 'days').format('YYYY-MM-DD')
+    : start;
+}
+
+export function getPeriodicNoteBasename(
+  settings: PeriodicNoteSettingsMap,
+  kind: PeriodicNoteKind,
+  isoDate: string,
+): string {
+  const format = settings?.[kind]?.format || DEFAULT_PERIODIC_NOTE_SETTINGS[kind].format;
+  return parseIsoDate(getPeriodStart(kind, isoDate)).format(format);
+}
+
+export function getPeriodicNotePath(
+  settings: PeriodicNoteSettingsMap,
+  kind: PeriodicNoteKind,
+  isoDate: string,
+): string {
+  const folder = normalizeFolder(settings?.[kind]?.folder ?? DEFAULT_PERIODIC_NOTE_SETTINGS[kind].folder);
+  const basename = getPeriodicNoteBasename(settings, kind, isoDate);
+  return normalizePath(folder ? `${folder}/${basename}.md` : `${basename}.md`);
+}
+
+/** Which enabled period a note path stands for, if any. */
+export function parsePeriodicNotePath(settings: PeriodicNoteSettingsMap, path: string): PeriodicNoteMatch | null {
+  const normalized = normalizePath(String(path || ''));
+  if (!/\.md$/i.test(normalized)) return null;
+  const slash = normalized.lastIndexOf('/');
+  const parent = slash >= 0 ? normalized.slice(0, slash) : '';
+  const basename = normalized.slice(slash + 1).replace(/\.md$/i, '');
+  for (const kind of getEnabledPeriodicNoteKinds(settings)) {
+    const config = settings?.[kind];
+    if (normalizeFolder(config?.folder ?? '') !== parent) continue;
+    const format = config?.format || DEFAULT_PERIODIC_NOTE_SETTINGS[kind].format;
+    const parsed = momentLib()(basename, format, true);
+    if (!parsed.isValid()) continue;
+    const start = parsed.startOf(PERIOD_UNITS[kind]).format('YYYY-MM-DD');
+    if (getPeriodicNoteBasename(settings, kind, start) !== basename) continue;
+    return { kind, start };
+  }
+  return null;
+}
+
+export function formatPeriodLabel(kind: PeriodicNoteKind, isoDate: string): string {
+  const start = parseIsoDate(getPeriodStart(kind, isoDate));
+  switch (kind) {
+    case 'weekly': return `W${start.format('WW')} ${start.format('GGGG')}`;
+    case 'monthly': return start.format('MMMM YYYY');
+    case 'quarterly': return `Q${start.format('Q YYYY')}`;
+    default: return start.format('YYYY');
+  }
+}
+
+function momentLib(): any {
+  return (window as any).moment;
+}
+
+function parseIsoDate(isoDate: string) {
+  return momentLib()(String(isoDate || '').slice(0, 10), 'YYYY-MM-DD', true);
+}
+
+function normalizeFolder(folder: string): string {
+  const normalized = normalizePath(String(folder || '').trim());
+  return normalized === '/' ? '' : normalized.replace(/^\/+|\/+$/g, '');
+}
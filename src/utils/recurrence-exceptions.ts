@@ -0,0 +1,210 @@
+/**
+ * EXDATE/RDATE exceptions for recurring notes and tasks. They sit next to the
+ * recurrence rule: `exdate`/`rdate` frontmatter lists on notes, and inline
+ * `[exdate:: ...]`/`[rdate:: ...]` fields on task lines. An EXDATE removes the
+ * rule's occurrences on that calendar day; an RDATE adds one extra occurrence.
+ * Skipping an occurrence records an EXDATE, and rescheduling one records an
+ * EXDATE for the old day plus an RDATE for the new value.
+ *
+ * An instance created from an RDATE also carries `recurrenceAnchor`: the rule
+ * occurrence it replaced. The rule steps on from the anchor, so moving one
+ * instance never moves the rest of the series.
+ */
+
+export const RECURRENCE_EXDATE_KEY = 'exdate';
+export const RECURRENCE_RDATE_KEY = 'rdate';
+export const RECURRENCE_ANCHOR_KEY = 'recurrenceAnchor';
+export const EASTER_RECURRENCE_RULE = 'GCM-HOLIDAY:EASTER';
+
+export interface RecurrenceExceptions {
+  /** Calendar days (`YYYY-MM-DD`) with no occurrence. */
+  exdates: string[];
+  /** Extra occurrences, `YYYY-MM-DD` or `YYYY-MM-DD HH:mm[:ss]`. */
+  rdates: string[];
+}
+
+export interface RecurrenceOccurrence {
+  date: Date;
+  /** For an RDATE occurrence, the rule occurrence the series continues from. */
+  anchor: Date | null;
+}
+
+const DATE_VALUE_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const MAX_SKIPPED_OCCURRENCES = 1000;
+
+export const EMPTY_RECURRENCE_EXCEPTIONS: RecurrenceExceptions = { exdates: [], rdates: [] };
+
+/** Reads a list property (array or comma-separated text) into sorted, de-duplicated date values. */
+export function parseRecurrenceDateList(value: unknown): string[] {
+  const entries = Array.isArray(value)
+    ? value.flatMap((entry) => String(entry ?? '').split(','))
+    : String(value ?? '').split(',');
+  const dates = entries
+    .map((entry) => entry.trim().replace('T', ' '))
+    .filter((entry) => DATE_VALUE_RE.test(entry));
+  return Array.from(new Set(dates)).sort();
+}
+
+export function formatRecurrenceDateList(values: readonly string[]): string {
+  return values.join(', ');
+}
+
+export function readRecurrenceExceptions(read: (key: string) => unknown): RecurrenceExceptions {
+  return {
+    exdates: parseRecurrenceDateList(read(RECURRENCE_EXDATE_KEY)).map((value) => value.slice(0, 10)),
+    rdates: parseRecurrenceDateList(read(RECURRENCE_RDATE_KEY)),
+  };
+}
+
+export function hasRecurrenceExceptions(exceptions: RecurrenceExceptions | null | undefined): boolean {
+  return !!exceptions && (exceptions.exdates.length > 0 || exceptions.rdates.length > 0);
+}
+
+export function formatRecurrenceDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Parses a stored date value as local time; date-only values take `timeSource`'s time of day. */
+export function parseRecurrenceDateValue(value: string, timeSource?: Date): Date | null {
+  const match = String(value || '').trim().match(DATE_VALUE_RE);
+  if (!match) return null;
+  const hasTime = match[4] != null;
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+    hasTime ? Number(match[4]) : timeSource?.getHours() ?? 0,
+    hasTime ? Number(match[5]) : timeSource?.getMinutes() ?? 0,
+    hasTime ? Number(match[6] ?? 0) : timeSource?.getSeconds() ?? 0,
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function isRecurrenceDateExcluded(date: Date, exceptions: RecurrenceExceptions): boolean {
+  return exceptions.exdates.includes(formatRecurrenceDateKey(date));
+}
+
+/** Records that the rule's occurrence on `day` will not happen. */
+export function withRecurrenceExdate(exceptions: RecurrenceExceptions, day: Date | string): RecurrenceExceptions {
+  const key = typeof day === 'string' ? day.slice(0, 10) : formatRecurrenceDateKey(day);
+  return { ...exceptions, exdates: parseRecurrenceDateList([...exceptions.exdates, key]) };
+}
+
+/** Records an extra occurrence. */
+export function withRecurrenceRdate(exceptions: RecurrenceExceptions, value: string): RecurrenceExceptions {
+  const normalized = parseRecurrenceDateList([value])[0];
+  if (!normalized) return exceptions;
+  return { ...exceptions, rdates: parseRecurrenceDateList([...exceptions.rdates, normalized]) };
+}
+
+/** Drops the extra occurrence at `date`. */
+export function withoutRecurrenceRdate(exceptions: RecurrenceExceptions, date: Date): RecurrenceExceptions {
+  return {
+    ...exceptions,
+    rdates: exceptions.rdates.filter((value) => parseRecurrenceDateValue(value, date)?.getTime() !== date.getTime()),
+  };
+}
+
+/**
+ * Exceptions for moving the occurrence at `current` out of its slot. A rule
+ * occurrence gets an EXDATE; an RDATE occurrence (one with an anchor) just loses
+ * its RDATE, since the rule has nothing on that day to exclude.
+ */
+export function releaseRecurrenceOccurrence(
+  exceptions: RecurrenceExceptions,
+  current: Date,
+  anchor: Date | null,
+): RecurrenceExceptions {
+  return anchor ? withoutRecurrenceRdate(exceptions, current) : withRecurrenceExdate(exceptions, current);
+}
+
+/** Drops exceptions for days before `from`; they can no longer affect the series. */
+export function pruneRecurrenceExceptions(exceptions: RecurrenceExceptions, from: Date): RecurrenceExceptions {
+  const key = formatRecurrenceDateKey(from);
+  return {
+    exdates: exceptions.exdates.filter((day) => day >= key),
+    rdates: exceptions.rdates.filter((value) => value.slice(0, 10) >= key),
+  };
+}
+
+/**
+ * The occurrence that follows the one at `after`. `step` returns the rule's next
+ * occurrence strictly after a cursor and is walked from `anchor` when the
+ * current occurrence is an RDATE; excluded days are stepped over, and RDATEs
+ * later than `after` compete with the rule's own occurrences.
+ */
+export function findNextRecurrenceOccurrence(
+  after: Date,
+  step: (cursor: Date) => Date | null,
+  exceptions: RecurrenceExceptions = EMPTY_RECURRENCE_EXCEPTIONS,
+  anchor: Date | null = null,
+): RecurrenceOccurrence | null {
+  const seed = anchor ?? after;
+  let candidate = step(seed);
+  let guard = 0;
+  while (candidate && isRecurrenceDateExcluded(candidate, exceptions) && guard < MAX_SKIPPED_OCCURRENCES) {
+    candidate = step(candidate);
+    guard += 1;
+  }
+  if (candidate && guard >= MAX_SKIPPED_OCCURRENCES) candidate = null;
+
+  let next: RecurrenceOccurrence | null = candidate ? { date: candidate, anchor: null } : null;
+  for (const value of exceptions.rdates) {
+    const extra = parseRecurrenceDateValue(value, after);
+    if (!extra || extra.getTime() <= after.getTime()) continue;
+    if (!next || extra.getTime() < next.date.getTime()) next = { date: extra, anchor: seed };
+  }
+  return next;
+}
+
+/** Up to `count` occurrences from `start` (inclusive), honoring exceptions. */
+export function listRecurrenceOccurrences(
+  start: Date,
+  step: (cursor: Date) => Date | null,
+  exceptions: RecurrenceExceptions,
+  count: number,
+): Date[] {
+  const occurrences: Date[] = [];
+  let current: RecurrenceOccurrence = { date: new Date(start.getTime() - 1), anchor: null };
+  while (occurrences.length < count) {
+    const next = findNextRecurrenceOccurrence(current.date, step, exceptions, current.anchor);
+    if (!next) break;
+    occurrences.push(next.date);
+    current = next;
+  }
+  return occurrences;
+}
+
+export function isEasterRecurrenceRule(rule: string): boolean {
+  return String(rule || '').trim().toUpperCase() === EASTER_RECURRENCE_RULE;
+}
+
+/** Western Easter Sunday, keeping `timeSource`'s time of day. */
+export function getEasterDate(year: number, timeSource: Date): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day, timeSource.getHours(), timeSource.getMinutes(), timeSource.getSeconds(), timeSource.getMilliseconds());
+}
+
+export function getNextEasterOccurrence(seedDate: Date, inclusive: boolean): Date {
+  const occurrence = getEasterDate(seedDate.getFullYear(), seedDate);
+  return (inclusive ? occurrence < seedDate : occurrence <= seedDate)
+    ? getEasterDate(seedDate.getFullYear() + 1, seedDate)
+    : occurrence;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
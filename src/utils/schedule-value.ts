@@ -0,0 +1,65 @@
+/**
+ * Plain readers for `scheduled` and `timeEstimate` values, shared by the
+ * iCalendar export and the TPS List calendar and timeline layouts.
+ */
+
+export interface ScheduleDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const SCHEDULE_VALUE_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AP]M)?)?$/i;
+
+/**
+ * Reads a `scheduled` value into calendar date parts. Wiki-link brackets and a
+ * trailing time range (`09:00 - 10:00`) are tolerated; anything else is null.
+ */
+export function parseScheduleValue(raw: unknown): ScheduleDateParts | null {
+  const value = String(Array.isArray(raw) ? raw[0] ?? '' : raw ?? '')
+    .replace(/[[\]]/g, '')
+    .trim()
+    .split(/\s+[-–]\s+/)[0]
+    .trim();
+  const match = value.match(SCHEDULE_VALUE_RE);
+  if (!match) return null;
+  let hour = Number(match[4] || 0);
+  const meridiem = String(match[7] || '').toUpperCase();
+  if (meridiem === 'PM' && hour < 12) hour += 12;
+  if (meridiem === 'AM' && hour === 12) hour = 0;
+  const parts: ScheduleDateParts = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour,
+    minute: Number(match[5] || 0),
+    second: Number(match[6] || 0),
+  };
+  const check = new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+  if (
+    check.getUTCFullYear() !== parts.year
+    || check.getUTCMonth() !== parts.month - 1
+    || check.getUTCDate() !== parts.day
+    || check.getUTCHours() !== parts.hour
+  ) {
+    return null;
+  }
+  return parts;
+}
+
+/** Reads a `timeEstimate` value in minutes; `90`, `1h30m` and `45m` are accepted. */
+export function parseDurationMinutes(raw: unknown): number {
+  if (typeof raw === 'number') return Number.isFinite(raw) && raw > 0 ? Math.round(raw) : 0;
+  const value = String(raw ?? '').trim().toLowerCase();
+  if (!value) return 0;
+  const hours = value.match(/(\d+(?:\.\d+)?)\s*h/);
+  const minutes = value.match(/(\d+(?:\.\d+)?)\s*m/);
+  if (hours || minutes) {
+    return Math.round(Number(hours?.[1] || 0) * 60 + Number(minutes?.[1] || 0));
+  }
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && numeric > 0 ? Math.round(numeric) : 0;
+}
@@ -9,6 +9,20 @@ import {
   normalizeLinkedSubitemCheckboxMarker,
   normalizeLinkedSubitemCheckboxState,
 } from './linked-subitem-mapping';
+import {
+  EMPTY_RECURRENCE_EXCEPTIONS,
+  RECURRENCE_ANCHOR_KEY,
+  RECURRENCE_EXDATE_KEY,
+  RECURRENCE_RDATE_KEY,
+  findNextRecurrenceOccurrence,
+  formatRecurrenceDateList,
+  getNextEasterOccurrence,
+  isEasterRecurrenceRule,
+  readRecurrenceExceptions,
+  releaseRecurrenceOccurrence,
+  withRecurrenceRdate,
+  type RecurrenceExceptions,
+} from './recurrence-exceptions';
 
 export const TASK_RECURRENCE_AFTER_COMPLETION_PREFIX = 'GCM-AFTER-COMPLETION:';
 export const TASK_RECURRENCE_ID_KEY = 'recurrenceTaskId';
@@ -28,6 +42,9 @@ const TASK_RECURRENCE_INSTANCE_ONLY_KEYS = [
   'sort',
   'sortKey',
   'hidden',
+  RECURRENCE_EXDATE_KEY,
+  RECURRENCE_RDATE_KEY,
+  RECURRENCE_ANCHOR_KEY,
 ];
 
 export type TaskRecurrenceRule =
@@ -54,30 +71,163 @@ export function formatAfterCompletionRule(duration: string): string {
   return `${TASK_RECURRENCE_AFTER_COMPLETION_PREFIX}${String(duration || '').trim().toUpperCase()}`;
 }
 
-export function calculateNextTaskScheduledValue(rawRule: string, options: {
+type TaskRecurrenceNextOptions = {
   scheduledValue?: string;
   completedAt: Date;
-}): string | null {
+  exceptions?: RecurrenceExceptions;
+  /** `recurrenceAnchor` of the current instance, when it came from an RDATE. */
+  anchorValue?: string;
+};
+
+export function calculateNextTaskScheduledValue(rawRule: string, options: TaskRecurrenceNextOptions): string | null {
+  return calculateNextTaskOccurrence(rawRule, options)?.scheduledValue ?? null;
+}
+
+/** Next scheduled value plus the anchor the next instance carries when it is an RDATE. */
+export function calculateNextTaskOccurrence(rawRule: string, options: TaskRecurrenceNextOptions): {
+  scheduledValue: string;
+  anchorValue: string | null;
+} | null {
   const parsed = parseTaskRecurrenceRule(rawRule);
   if (!parsed) return null;
 
   if (parsed.kind === 'after-completion') {
-    return formatTaskScheduledDate(new Date(options.completedAt.getTime() + parsed.durationMs));
+    return {
+      scheduledValue: formatTaskScheduledDate(new Date(options.completedAt.getTime() + parsed.durationMs)),
+      anchorValue: null,
+    };
   }
 
-  const seed = parseTaskDate(options.scheduledValue || '') || options.completedAt;
+  const current = parseTaskDate(options.scheduledValue || '') || options.completedAt;
+  const anchor = parseTaskDate(options.anchorValue || '');
+  const step = createTaskRecurrenceStep(parsed.rule, anchor ?? current);
+  if (!step) return null;
+  const next = findNextRecurrenceOccurrence(current, step, options.exceptions ?? EMPTY_RECURRENCE_EXCEPTIONS, anchor);
+  if (!next) return null;
+  return {
+    scheduledValue: formatTaskScheduledDate(next.date),
+    anchorValue: next.anchor ? formatTaskScheduledDate(next.anchor) : null,
+  };
+}
+
+/**
+ * Why a recurrence rule cannot produce occurrences, or null when it is usable
+ * or empty. `RRule.parseString` accepts many malformed rules without throwing,
+ * so the parsed options are checked too.
+ */
+export function getTaskRecurrenceRuleError(rawRule: string): string | null {
+  const rule = String(rawRule || '').trim();
+  if (!rule || isEasterRecurrenceRule(rule)) return null;
+  if (rule.toUpperCase().startsWith(TASK_RECURRENCE_AFTER_COMPLETION_PREFIX)) {
+    return parseTaskRecurrenceRule(rule)
+      ? null
+      : 'After-completion rules need an ISO 8601 duration, for example GCM-AFTER-COMPLETION:P1D or PT6H.';
+  }
   try {
-    const normalizedRule = parsed.rule.replace(/^RRULE:/i, '');
-    const ruleOptions = RRule.parseString(normalizedRule);
+    const options = RRule.parseString(rule.replace(/^RRULE:/i, ''));
+    if (options.freq == null) return 'The rule needs a FREQ, for example FREQ=WEEKLY.';
+    if (options.interval != null && !isPositiveInteger(options.interval)) return 'INTERVAL must be a whole number above 0.';
+    if (options.count != null && !isPositiveInteger(options.count)) return 'COUNT must be a whole number above 0.';
+    const weekdays = options.byweekday == null ? [] : [options.byweekday].flat();
+    if (weekdays.some((day) => day == null)) return 'BYDAY has an unknown weekday. Use MO, TU, WE, TH, FR, SA or SU.';
+    const now = new Date();
+    new RRule({ ...options, dtstart: now }).after(now, true);
+    return null;
+  } catch (error) {
+    return error instanceof Error && error.message ? error.message : 'The rule could not be parsed.';
+  }
+}
+
+/** Plain-language summary such as "every 2 weeks on Tuesday"; empty for unusable rules. */
+export function describeTaskRecurrenceRule(rawRule: string): string {
+  const rule = String(rawRule || '').trim();
+  if (!rule || getTaskRecurrenceRuleError(rule)) return '';
+  if (isEasterRecurrenceRule(rule)) return 'every year on Easter Sunday';
+  const parsed = parseTaskRecurrenceRule(rule);
+  if (parsed?.kind === 'after-completion') return `${formatDurationText(parsed.durationMs)} after each completion`;
+  return new RRule(RRule.parseString(rule.replace(/^RRULE:/i, ''))).toText();
+}
+
+/** Next occurrence strictly after a cursor, for an RRULE or the Easter rule anchored at `seed`. */
+export function createTaskRecurrenceStep(rawRule: string, seed: Date): ((cursor: Date) => Date | null) | null {
+  if (isEasterRecurrenceRule(rawRule)) return (cursor) => getNextEasterOccurrence(cursor, false);
+  try {
+    const ruleOptions = RRule.parseString(String(rawRule || '').trim().replace(/^RRULE:/i, ''));
     ruleOptions.dtstart = seed;
     const rule = new RRule(ruleOptions);
-    const next = rule.after(seed, false);
-    return next ? formatTaskScheduledDate(next) : null;
+    return (cursor) => rule.after(cursor, false);
   } catch (_error) {
     return null;
   }
 }
 
+export function readTaskRecurrenceExceptions(rawLine: string): RecurrenceExceptions {
+  return readRecurrenceExceptions((key) => readInlineFieldValue(rawLine, key));
+}
+
+export function setTaskRecurrenceExceptions(rawLine: string, exceptions: RecurrenceExceptions): string {
+  const line = setInlineFieldValueOnTaskLine(
+    rawLine,
+    RECURRENCE_EXDATE_KEY,
+    exceptions.exdates.length > 0 ? formatRecurrenceDateList(exceptions.exdates) : null,
+  );
+  return setInlineFieldValueOnTaskLine(
+    line,
+    RECURRENCE_RDATE_KEY,
+    exceptions.rdates.length > 0 ? formatRecurrenceDateList(exceptions.rdates) : null,
+  );
+}
+
+/**
+ * Skips the occurrence a recurring task line is scheduled for and moves the line
+ * to the next remaining occurrence. Returns null when the line has no fixed
+ * schedule or the series has no further occurrence.
+ */
+export function skipTaskRecurrenceOccurrence(rawLine: string): string | null {
+  const target = readTaskRecurrenceOccurrence(rawLine);
+  if (!target) return null;
+  const exceptions = releaseRecurrenceOccurrence(readTaskRecurrenceExceptions(rawLine), target.scheduled, target.anchor);
+  const next = calculateNextTaskOccurrence(target.rule, {
+    scheduledValue: target.scheduledValue,
+    completedAt: target.scheduled,
+    exceptions,
+    anchorValue: target.anchorValue,
+  });
+  if (!next) return null;
+  let line = setTaskRecurrenceExceptions(rawLine, exceptions);
+  line = setInlineFieldValueOnTaskLine(line, RECURRENCE_ANCHOR_KEY, next.anchorValue);
+  return setInlineFieldValueOnTaskLine(line, 'scheduled', next.scheduledValue);
+}
+
+/** Moves only this occurrence of a recurring task line; the rest of the series stays put. */
+export function rescheduleTaskRecurrenceOccurrence(rawLine: string, scheduledValue: string): string | null {
+  const target = readTaskRecurrenceOccurrence(rawLine);
+  const value = String(scheduledValue || '').trim();
+  if (!target || !parseTaskDate(value)) return null;
+  const exceptions = withRecurrenceRdate(
+    releaseRecurrenceOccurrence(readTaskRecurrenceExceptions(rawLine), target.scheduled, target.anchor),
+    value,
+  );
+  let line = setTaskRecurrenceExceptions(rawLine, exceptions);
+  line = setInlineFieldValueOnTaskLine(line, RECURRENCE_ANCHOR_KEY, target.anchorValue || target.scheduledValue);
+  return setInlineFieldValueOnTaskLine(line, 'scheduled', value);
+}
+
+function readTaskRecurrenceOccurrence(rawLine: string): {
+  rule: string;
+  scheduledValue: string;
+  scheduled: Date;
+  anchorValue: string;
+  anchor: Date | null;
+} | null {
+  const rule = extractTaskRecurrenceRule(rawLine);
+  const scheduledValue = readInlineFieldValue(rawLine, 'scheduled');
+  const scheduled = parseTaskDate(scheduledValue);
+  if (!rule || !scheduled || parseTaskRecurrenceRule(rule)?.kind !== 'rrule') return null;
+  const anchorValue = readInlineFieldValue(rawLine, RECURRENCE_ANCHOR_KEY);
+  return { rule, scheduledValue, scheduled, anchorValue, anchor: parseTaskDate(anchorValue) };
+}
+
 export function buildTaskRecurrenceTemplateLine(
   rawLine: string,
   checkboxState: string,
@@ -160,6 +310,23 @@ export function formatTaskScheduledDate(date: Date): string {
   ].join(' ');
 }
 
+function isPositiveInteger(value: unknown): boolean {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0;
+}
+
+function formatDurationText(durationMs: number): string {
+  const units: Array<[string, number]> = [
+    ['week', 7 * 24 * 60 * 60 * 1000],
+    ['day', 24 * 60 * 60 * 1000],
+    ['hour', 60 * 60 * 1000],
+    ['minute', 60 * 1000],
+  ];
+  const [unit, size] = units.find(([, ms]) => durationMs % ms === 0) ?? ['second', 1000];
+  const count = Math.round(durationMs / size);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
 function parseIsoDurationToMs(rawDuration: string): number {
   const value = String(rawDuration || '').trim().toUpperCase();
   const match = value.match(/^P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?)?$/);
@@ -119,6 +119,7 @@ export function resolveTpsBaseValueSemantics(
     return { kind: 'text', collection: false };
   }
   if (property?.type === 'snooze') return { kind: 'datetime', collection: false };
+  if (property?.type === 'tracked') return { kind: 'number', collection: false };
 
   if (normalized === 'tag' || normalized === 'tags' || normalized === 'filetags') {
     return { kind: 'tag', collection: true, itemKind: 'tag' };
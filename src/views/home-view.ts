@@ -921,6 +921,30 @@ export class TpsHomeView extends ItemView {
           }
           if (!this.plugin.homeCaptureService.validateCaptureValue(value, today.clone(), { task })) return;
 
+          const quickAddTarget = task && !editTarget ? this.plugin.homeCaptureService.resolveQuickAddTarget(value) : null;
+          if (quickAddTarget && quickAddTarget.path !== dailyNote.path) {
+            const saved = await this.plugin.homeCaptureService.capture(value, today.clone(), {
+              task: true,
+              targetPath: quickAddTarget.path,
+              historyCause: {
+                kind: 'user',
+                sourcePluginId: 'tps-global-context-menu',
+                surface: 'home-quick-capture-desktop',
+              },
+            });
+            if (!saved) return;
+            const outcome = await runReplacement('', 'capture-task-target-clear');
+            rerender = outcome !== 'stale';
+            if (outcome === 'saved') this.homeCaptureDraftTarget = null;
+            logger.flow('HomeView', 'quick-capture:submitted', {
+              target: saved.path,
+              selectedDate: today.format('YYYY-MM-DD'),
+              task: true,
+              mode: 'quick-add-target',
+            });
+            return;
+          }
+
           const replacement = editTarget && originalEditLine != null
             ? preserveTpsInlinePropsMetadata(originalEditLine, value)
             : `${this.plugin.homeCaptureService.formatCaptureValue(value, task)}${session.snapshot.suffix.startsWith('\n') ? '' : '\n'}`;
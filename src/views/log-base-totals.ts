@@ -1,8 +1,51 @@
 export type TpsTableTotalsRowPosition = 'off' | 'top' | 'bottom';
 
+/**
+ * How a column is folded into the totals and subtotal rows. `auto` keeps the
+ * original behaviour: sum strictly numeric columns that do not look like ids,
+ * dates or line metadata, and leave everything else blank.
+ */
+export type TpsTableAggregate =
+  | 'auto'
+  | 'none'
+  | 'sum'
+  | 'average'
+  | 'average-per-group'
+  | 'min'
+  | 'max'
+  | 'count'
+  | 'count-distinct'
+  | 'percent-checked'
+  | 'earliest'
+  | 'latest'
+  | 'duration-sum';
+
+export const TPS_TABLE_AGGREGATE_LABELS: Record<TpsTableAggregate, string> = {
+  auto: 'Automatic (sum numbers)',
+  none: 'None',
+  sum: 'Sum',
+  average: 'Average',
+  'average-per-group': 'Average per group',
+  min: 'Min',
+  max: 'Max',
+  count: 'Count',
+  'count-distinct': 'Count distinct',
+  'percent-checked': 'Percent checked',
+  earliest: 'Earliest date',
+  latest: 'Latest date',
+  'duration-sum': 'Duration sum',
+};
+
 export interface TpsTableTotalColumnInput {
   key: string;
   values: readonly unknown[];
+  aggregate?: TpsTableAggregate;
+  /**
+   * Values split by TPS Table group, used by `average-per-group` so the totals
+   * row of a grouped table can report e.g. average calories per day. Without
+   * it the whole column counts as a single group.
+   */
+  groupValues?: readonly (readonly unknown[])[];
 }
 
 export interface TpsTableTotals {
@@ -18,9 +61,70 @@ export function normalizeTotalsRowPosition(value: unknown): TpsTableTotalsRowPos
   return normalized === 'top' || normalized === 'bottom' ? normalized : 'off';
 }
 
+/**
+ * Reads the `columnAggregates` view option: `column: aggregate` entries, given
+ * either as a list or as one comma/newline separated string. Keys are matched
+ * without their `note.`/`log.` prefix; unknown aggregates are dropped.
+ */
+export function parseTpsTableColumnAggregates(value: unknown): Map<string, TpsTableAggregate> {
+  const entries = Array.isArray(value) ? value : String(value ?? '').split(/[,\n]/);
+  const aggregates = new Map<string, TpsTableAggregate>();
+  for (const entry of entries) {
+    const text = String(entry ?? '').trim();
+    const separator = text.lastIndexOf(':');
+    if (separator <= 0) continue;
+    const key = normalizeAggregateColumnKey(text.slice(0, separator));
+    const aggregate = normalizeTpsTableAggregate(text.slice(separator + 1));
+    if (key && aggregate) aggregates.set(key, aggregate);
+  }
+  return aggregates;
+}
+
+export function serializeTpsTableColumnAggregates(aggregates: ReadonlyMap<string, TpsTableAggregate>): string[] {
+  return Array.from(aggregates.entries())
+    .filter(([, aggregate]) => aggregate !== 'auto')
+    .map(([key, aggregate]) => `${key}: ${aggregate}`);
+}
+
+export function getTpsTableColumnAggregate(
+  aggregates: ReadonlyMap<string, TpsTableAggregate>,
+  columnKey: string,
+): TpsTableAggregate {
+  return aggregates.get(normalizeAggregateColumnKey(columnKey)) ?? 'auto';
+}
+
+export function normalizeAggregateColumnKey(key: string): string {
+  return String(key ?? '').trim().replace(/^(?:note|log)\./i, '').toLowerCase();
+}
+
+function normalizeTpsTableAggregate(value: string): TpsTableAggregate | null {
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const aliases: Record<string, TpsTableAggregate> = {
+    avg: 'average',
+    mean: 'average',
+    'avg-per-group': 'average-per-group',
+    distinct: 'count-distinct',
+    unique: 'count-distinct',
+    checked: 'percent-checked',
+    'percent-done': 'percent-checked',
+    duration: 'duration-sum',
+    off: 'none',
+  };
+  const aggregate = aliases[normalized] ?? normalized;
+  return Object.prototype.hasOwnProperty.call(TPS_TABLE_AGGREGATE_LABELS, aggregate)
+    ? aggregate as TpsTableAggregate
+    : null;
+}
+
 export function calculateTpsTableTotals(columns: readonly TpsTableTotalColumnInput[]): TpsTableTotals {
   const totals = new Map<string, string>();
   for (const column of columns) {
+    const aggregate = column.aggregate ?? 'auto';
+    if (aggregate !== 'auto') {
+      const value = aggregate === 'none' ? null : aggregateColumn(column, aggregate);
+      if (value !== null) totals.set(column.key, value);
+      continue;
+    }
     if (!isSummableColumnKey(column.key)) continue;
     const values = column.values
       .map((value) => String(value ?? '').trim())
@@ -40,6 +144,114 @@ export function calculateTpsTableTotals(columns: readonly TpsTableTotalColumnInp
   };
 }
 
+function aggregateColumn(column: TpsTableTotalColumnInput, aggregate: TpsTableAggregate): string | null {
+  const values = toTrimmedValues(column.values);
+  switch (aggregate) {
+    case 'count':
+      return String(values.length);
+    case 'count-distinct':
+      return String(new Set(values.map((value) => value.toLowerCase())).size);
+    case 'percent-checked': {
+      if (!column.values.length) return null;
+      const checked = values.filter(isCheckedValue).length;
+      return `${Math.round((checked / column.values.length) * 100)}%`;
+    }
+    case 'earliest':
+    case 'latest':
+      return pickDate(values, aggregate);
+    case 'duration-sum': {
+      const minutes = values.map(parseDurationMinutes).filter((value): value is number => value !== null);
+      return minutes.length ? formatDurationMinutes(minutes.reduce((sum, value) => sum + value, 0)) : null;
+    }
+    case 'average-per-group': {
+      const groups = column.groupValues ?? [column.values];
+      const sums = groups
+        .map((group) => sumNumbers(toTrimmedValues(group)))
+        .filter((sum): sum is { total: number; precision: number } => sum !== null);
+      if (!sums.length) return null;
+      const average = sums.reduce((sum, entry) => sum + entry.total, 0) / sums.length;
+      return formatTotal(average, Math.max(2, ...sums.map((entry) => entry.precision)));
+    }
+    default: {
+      const numeric = values.filter((value) => parseStrictNumber(value) !== null);
+      if (!numeric.length) return null;
+      const numbers = numeric.map((value) => parseStrictNumber(value) as number);
+      const precision = Math.min(6, Math.max(0, ...numeric.map(decimalPrecision)));
+      if (aggregate === 'sum') return formatTotal(numbers.reduce((sum, value) => sum + value, 0), precision);
+      if (aggregate === 'min') return formatTotal(Math.min(...numbers), precision);
+      if (aggregate === 'max') return formatTotal(Math.max(...numbers), precision);
+      if (aggregate === 'average') {
+        return formatTotal(numbers.reduce((sum, value) => sum + value, 0) / numbers.length, Math.max(2, precision));
+      }
+      return null;
+    }
+  }
+}
+
+function toTrimmedValues(values: readonly unknown[]): string[] {
+  return values
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .map((value) => String(value ?? '').trim())
+    .filter(Boolean);
+}
+
+function sumNumbers(values: readonly string[]): { total: number; precision: number } | null {
+  const numeric = values.filter((value) => parseStrictNumber(value) !== null);
+  if (!numeric.length) return null;
+  return {
+    total: numeric.reduce((sum, value) => sum + (parseStrictNumber(value) as number), 0),
+    precision: Math.min(6, Math.max(0, ...numeric.map(decimalPrecision))),
+  };
+}
+
+function isCheckedValue(value: string): boolean {
+  return ['true', 'yes', 'y', 'x', 'checked', 'done', 'complete', 'completed', '1'].includes(value.toLowerCase());
+}
+
+const DATE_VALUE = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+function pickDate(values: readonly string[], mode: 'earliest' | 'latest'): string | null {
+  let picked: { value: string; time: number } | null = null;
+  for (const value of values) {
+    const match = DATE_VALUE.exec(value);
+    if (!match) continue;
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+    const time = new Date(+year, +month - 1, +day, +hour, +minute, +second).getTime();
+    if (!Number.isFinite(time)) continue;
+    if (!picked || (mode === 'earliest' ? time < picked.time : time > picked.time)) {
+      picked = { value, time };
+    }
+  }
+  return picked?.value ?? null;
+}
+
+/** Accepts plain minutes, `1:30` / `1:30:00`, and unit forms such as `1h 30m` or `45min`. */
+function parseDurationMinutes(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  const plain = parseStrictNumber(text);
+  if (plain !== null) return plain;
+  const clock = /^(\d+):(\d{2})(?::(\d{2}))?$/.exec(text);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60;
+  const unitPattern = /(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|min|mins|minutes?|s|sec|secs|seconds?)\b/g;
+  let minutes = 0;
+  let matched = '';
+  for (const match of text.matchAll(unitPattern)) {
+    const amount = Number(match[1]);
+    const unit = match[2];
+    minutes += unit.startsWith('h') ? amount * 60 : unit.startsWith('s') ? amount / 60 : amount;
+    matched += match[0];
+  }
+  return matched && text.replace(/\s+/g, '').length === matched.replace(/\s+/g, '').length ? minutes : null;
+}
+
+function formatDurationMinutes(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
 function isSummableColumnKey(key: string): boolean {
   const raw = String(key || '').trim();
   if (/^(?:file|line)\./iu.test(raw)) return false;
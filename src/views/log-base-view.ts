@@ -33,7 +33,17 @@ import {
   type LogBaseFilterFailure,
 } from './log-base-filter';
 import { getCurrentBaseEmbedRenderContext, takePendingBaseEmbedRenderContext } from './base-embed-context';
-import { calculateTpsTableTotals, normalizeTotalsRowPosition, type TpsTableTotalsRowPosition } from './log-base-totals';
+import {
+  TPS_TABLE_AGGREGATE_LABELS,
+  calculateTpsTableTotals,
+  getTpsTableColumnAggregate,
+  normalizeAggregateColumnKey,
+  normalizeTotalsRowPosition,
+  parseTpsTableColumnAggregates,
+  serializeTpsTableColumnAggregates,
+  type TpsTableAggregate,
+  type TpsTableTotalsRowPosition,
+} from './log-base-totals';
 import { getOrderedSelectionRange, toggleOrderedSelection } from '../utils/ordered-selection';
 import { hashSelectionIdentity } from '../utils/selection-identity';
 import { requestLineItemDelete } from '../services/line-item-delete-service';
@@ -129,6 +139,7 @@ import {
   type TpsFormulaRowSession,
 } from '../services/tps-base-formula-service';
 import { getOwningWorkspaceFile } from './base-view-owner';
+import { describeTrackedTime, formatTrackedTime, type TrackedTimeSummary } from '../services/tracked-time-core';
 import {
   getBooleanPropertyPresentation,
   getNextBooleanPropertyValue,
@@ -321,6 +332,9 @@ export class TpsTableView extends BasesView {
   private renderGeneration = 0;
   private renderedResultCount = 0;
   private tableIndexProgress: { completedFiles: number; totalFiles: number; complete: boolean } | null = null;
+  private columnAggregates: Map<string, TpsTableAggregate> = new Map();
+  /** Rows per rendered group, so `average-per-group` totals can average the group sums. */
+  private totalGroups: LogLineEntry[][] | null = null;
   private activeContextRow: HTMLElement | null = null;
   private selectedEntryIds = new Set<string>();
   private selectionAnchorId: string | null = null;
@@ -861,7 +875,10 @@ export class TpsTableView extends BasesView {
       : [{ key: null, rows: entries }];
     const renderedEntries = entryGroups.flatMap((group) => group.rows);
     const totalsPosition = normalizeTotalsRowPosition(this.getConfigValue('totalsRow'));
+    const showGroupSubtotals = !!groupBy && this.getConfigValue('groupSubtotals') === true;
     this.renderedResultCount = entries.length;
+    this.columnAggregates = parseTpsTableColumnAggregates(this.getConfigValue('columnAggregates'));
+    this.totalGroups = groupBy ? entryGroups.map((group) => group.rows) : null;
     this.tableIndexProgress = progress.totalFiles > 0 ? progress : null;
     this.renderedTaskEntryOrder = getTpsTableTaskSelectionOrder(renderedEntries);
     this.renderedNoteEntryOrder = getTpsTableSelectionOrder(renderedEntries, 'note');
@@ -922,6 +939,7 @@ export class TpsTableView extends BasesView {
       const th = headerRow.createEl('th', { cls: 'bases-table-cell bases-table-header-cell tps-log-base-cell tps-log-base-cell--header' });
       th.dataset.key = column.key;
       th.createSpan({ cls: 'tps-log-base-header-label', text: column.label });
+      th.addEventListener('contextmenu', (evt) => this.openColumnAggregateMenu(evt, column));
       const resizeHandle = th.createSpan({
         cls: 'tps-log-base-column-resize',
         attr: {
@@ -938,6 +956,7 @@ export class TpsTableView extends BasesView {
     for (const group of entryGroups) {
       if (groupBy) this.renderGroupRow(tbody, groupBy, group, columns);
       for (const entry of group.rows) this.renderEntry(tbody, entry, columns);
+      if (showGroupSubtotals) this.renderTotalsRow(tbody, group.rows, columns, 'subtotal', group.key);
     }
     if (totalsPosition === 'bottom') totaledColumns = this.renderTotalsRow(tbody, entries, columns, totalsPosition);
     tableScroller.scrollLeft = Math.min(previousScrollLeft, Math.max(0, tableScroller.scrollWidth - tableScroller.clientWidth));
@@ -953,6 +972,7 @@ export class TpsTableView extends BasesView {
       groups: groupBy ? entryGroups.length : 0,
       totalsPosition,
       totaledColumns,
+      groupSubtotals: showGroupSubtotals,
       durationMs: Math.round(performance.now() - start),
     });
   }
@@ -1406,6 +1426,7 @@ export class TpsTableView extends BasesView {
       ...frontmatterTags.map((tag) => String(tag || '')),
     ]);
     const taskTags = rowKind ? parsedLine?.tags ?? readTaskLineTags(line) : [];
+    const noteTrackedTime = this.plugin.timeTrackingService?.getTrackedTimeForNote(file);
     const fileContext = {
       path: file.path,
       name: file.name,
@@ -1418,6 +1439,8 @@ export class TpsTableView extends BasesView {
       tags,
       links: (cache?.links || []).map((link) => link.link),
       properties: frontmatter,
+      trackedMinutes: noteTrackedTime?.trackedMinutes ?? 0,
+      remainingEstimate: noteTrackedTime?.remainingMinutes ?? null,
     };
     const contextPath = this.getLineCreateContextPath();
     const contextFile = contextPath ? this.plugin.app.vault.getFileByPath(contextPath) : this.getBaseFile();
@@ -1507,6 +1530,7 @@ export class TpsTableView extends BasesView {
       raw: line,
       file: fileContext,
     };
+    const taskTrackedTime = rowKind === 'task' ? this.plugin.timeTrackingService?.getTrackedTimeForLine(line) : null;
     const taskContext = rowKind === 'task' ? {
       ...row,
       ...(workflowStatus ? { status: workflowStatus, checkboxStatus: workflowStatus } : {}),
@@ -1516,6 +1540,8 @@ export class TpsTableView extends BasesView {
         ? { done: fields.done === 'true' || fields.completed === 'true' }
         : {}),
       tags: taskTags.map((tag) => `#${tag}`),
+      trackedMinutes: taskTrackedTime?.trackedMinutes ?? 0,
+      remainingEstimate: taskTrackedTime?.remainingMinutes ?? null,
       file: fileContext,
     } : null;
     const headingLevel = String(rowKind || '').match(/^h([1-6])$/u)?.[1];
@@ -1841,6 +1867,7 @@ export class TpsTableView extends BasesView {
     if (/^formula\./iu.test(String(key || '').trim())) return this.getEntryRawValue(entry, key);
     const configuredProperty = resolveConfiguredProperty(this.plugin.settings?.properties || [], key);
     if (configuredProperty?.type === 'folder') return entry.file.parent?.path || '/';
+    if (configuredProperty?.type === 'tracked') return this.getEntryTrackedTime(entry)?.remainingMinutes ?? '';
     if (configuredProperty?.type === 'list') return this.getEntryConfiguredPropertyValueItems(entry, configuredProperty);
     const sourceNoteValue = getSourceNoteGroupValue(entry.file, key);
     if (sourceNoteValue !== undefined) return sourceNoteValue;
@@ -2016,6 +2043,12 @@ export class TpsTableView extends BasesView {
     }
   }
 
+  private getEntryTrackedTime(entry: LogLineEntry): TrackedTimeSummary | null {
+    const service = this.plugin.timeTrackingService;
+    if (!service) return null;
+    return entry.entityKind === 'note' ? service.getTrackedTimeForNote(entry.file) : service.getTrackedTimeForLine(entry.line);
+  }
+
   private renderConfiguredPropertyCell(
     cell: HTMLElement,
     entry: LogLineEntry,
@@ -2030,6 +2063,15 @@ export class TpsTableView extends BasesView {
       cell.setText(folder);
       return;
     }
+    if (property.type === 'tracked') {
+      const tracked = this.getEntryTrackedTime(entry);
+      cell.dataset.tpsTableCellIntent = 'tracked-time';
+      if (!tracked) return;
+      cell.toggleClass('is-over-budget', tracked.overBudget);
+      cell.setAttr('aria-label', `${property.label || column.label}: ${describeTrackedTime(tracked)}`);
+      cell.setText(formatTrackedTime(tracked));
+      return;
+    }
     if (!entityOptions && isBooleanPropertyType(property.type)) {
       const current = normalizeInlineBooleanPropertyValue(
         entry.fields[normalizePropertyKeyIdentity(property.key)]
@@ -2351,6 +2393,7 @@ export class TpsTableView extends BasesView {
     anchor: HTMLElement,
   ): void {
     if (property.type === 'folder') return;
+    if (property.type === 'tracked') return;
     if (property.type === 'list') {
       this.openListCellEditor(entry, property, anchor);
       return;
@@ -3163,29 +3206,34 @@ export class TpsTableView extends BasesView {
     );
   }
 
+  /** A `subtotal` row covers one group's rows; `groupKey` only labels it. */
   private renderTotalsRow(
     parent: HTMLElement,
     entries: LogLineEntry[],
     columns: LogTableColumn[],
-    position: TpsTableTotalsRowPosition,
+    position: TpsTableTotalsRowPosition | 'subtotal',
+    groupKey: string | null = null,
   ): number {
+    const isSubtotal = position === 'subtotal';
+    const groups = isSubtotal ? null : this.totalGroups;
     const totals = calculateTpsTableTotals(columns.map((column) => ({
       key: column.key,
       values: entries.map((entry) => this.getEntryValue(entry, column.key)),
+      aggregate: getTpsTableColumnAggregate(this.columnAggregates, column.key),
+      groupValues: groups?.map((rows) => rows.map((entry) => this.getEntryValue(entry, column.key))),
     })));
     const row = parent.createEl('tr', {
-      cls: 'bases-table-row tps-log-base-row tps-log-base-row--totals',
-      attr: {
-        'aria-label': 'Totals',
-        'data-position': position,
-      },
+      cls: `bases-table-row tps-log-base-row tps-log-base-row--totals${isSubtotal ? ' tps-log-base-row--subtotal' : ''}`,
+      attr: isSubtotal
+        ? { 'aria-label': `Subtotal ${groupKey || 'No value'}` }
+        : { 'aria-label': 'Totals', 'data-position': position },
     });
     for (const column of columns) {
       const total = totals.values.get(column.key);
       const isLabel = total == null && column.key === totals.labelKey;
       const cell = row.createEl('td', {
         cls: `bases-table-cell tps-log-base-cell tps-log-base-cell--${normalizeInlineKey(column.key)}${total != null ? ' tps-log-base-cell--total-value' : ''}${isLabel ? ' tps-log-base-cell--total-label' : ''}`,
-        text: total ?? (isLabel ? 'Total' : ''),
+        text: total ?? (isLabel ? (isSubtotal ? 'Subtotal' : 'Total') : ''),
       });
       cell.dataset.key = column.key;
       cell.dataset.label = column.label;
@@ -3193,6 +3241,33 @@ export class TpsTableView extends BasesView {
     return totals.values.size;
   }
 
+  private openColumnAggregateMenu(
+    evt: MouseEvent,
+    column: LogTableColumn,
+  ): void {
+    if (typeof this.config?.set !== 'function') return;
+    evt.preventDefault();
+    evt.stopPropagation();
+    const aggregates = this.columnAggregates;
+    const current = getTpsTableColumnAggregate(aggregates, column.key);
+    const menu = new Menu();
+    menu.addItem((item) => item.setTitle(`Total for ${column.label}`).setIsLabel(true));
+    for (const [aggregate, label] of Object.entries(TPS_TABLE_AGGREGATE_LABELS) as Array<[TpsTableAggregate, string]>) {
+      menu.addItem((item) => {
+        item
+          .setTitle(label)
+          .setChecked(aggregate === current)
+          .onClick(() => {
+            const next = new Map(aggregates);
+            next.set(normalizeAggregateColumnKey(column.key), aggregate);
+            this.config.set('columnAggregates', serializeTpsTableColumnAggregates(next));
+            logger.flow('TpsTableView', 'totals:aggregate-set', { column: column.key, aggregate });
+          });
+      });
+    }
+    menu.showAtMouseEvent(evt);
+  }
+
   handleExternalRowContextMenu(evt: MouseEvent, row: HTMLElement): boolean {
     const renderedRevision = (row as any).__tpsTableEntryRevision as RenderedLogLineRevision | undefined;
     const path = String(renderedRevision?.path || row.dataset.path || '').trim();
@@ -3274,6 +3349,10 @@ export class TpsTableView extends BasesView {
     }
     const configuredProperty = resolveConfiguredProperty(this.plugin.settings?.properties || [], key);
     if (configuredProperty?.type === 'folder') return entry.file.parent?.path || '/';
+    if (configuredProperty?.type === 'tracked') {
+      const tracked = this.getEntryTrackedTime(entry);
+      return tracked ? formatTrackedTime(tracked) : '';
+    }
     if (configuredProperty?.type === 'list') {
       return this.displayInlineValue(
         this.getEntryConfiguredPropertyValues(entry, configuredProperty),
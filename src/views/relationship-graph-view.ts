@@ -0,0 +1,210 @@
+import { ItemView, Menu, TFile, WorkspaceLeaf, debounce } from 'obsidian';
+import type TPSGlobalContextMenuPlugin from '../main';
+import * as logger from '../logger';
+import {
+  layoutRelationshipGraph,
+  type RelationshipGraph,
+  type RelationshipGraphNode,
+  type RelationshipGraphRelation,
+} from '../services/relationship-graph-core';
+
+export const TPS_RELATIONSHIP_GRAPH_VIEW_TYPE = 'tps-relationship-graph';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const NODE_RADIUS = 9;
+const ROOT_RADIUS = 13;
+const LABEL_MAX_LENGTH = 16;
+const HIDDEN_LABELS: Record<RelationshipGraphRelation, string> = {
+  root: 'notes',
+  ancestor: 'parents',
+  sibling: 'siblings',
+  child: 'children',
+  linked: 'linking notes',
+};
+
+/**
+ * Sidebar view drawing the active note with its parents, siblings, children
+ * and linking notes. Click opens a note, Ctrl/Cmd-click opens it in a new tab
+ * and right-click shows the GCM menu for it.
+ */
+export class RelationshipGraphView extends ItemView {
+  private currentPath: string | null = null;
+  private renderGeneration = 0;
+  private readonly requestRender = debounce(() => { void this.render(); }, 300, true);
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private readonly plugin: TPSGlobalContextMenuPlugin,
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return TPS_RELATIONSHIP_GRAPH_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Relationships';
+  }
+
+  getIcon(): string {
+    return 'git-fork';
+  }
+
+  async onOpen(): Promise<void> {
+    this.contentEl.addClass('tps-relationship-graph-view');
+    this.registerEvent(this.app.workspace.on('file-open', () => this.followActiveFile()));
+    this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.followActiveFile()));
+    this.registerEvent(this.app.metadataCache.on('resolved', () => this.requestRender()));
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (oldPath === this.currentPath) this.currentPath = file.path;
+      this.requestRender();
+    }));
+    this.registerEvent(this.app.vault.on('delete', () => this.requestRender()));
+    this.currentPath = this.app.workspace.getActiveFile()?.path ?? null;
+    await this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.renderGeneration += 1;
+    this.requestRender.cancel();
+    this.contentEl.empty();
+  }
+
+  /** Keeps the last note when focus moves to a view without a file, like this one. */
+  private followActiveFile(): void {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.path === this.currentPath) return;
+    this.currentPath = file.path;
+    this.requestRender();
+  }
+
+  async render(): Promise<void> {
+    const generation = ++this.renderGeneration;
+    const file = this.currentPath ? this.app.vault.getAbstractFileByPath(this.currentPath) : null;
+    if (!(file instanceof TFile)) {
+      this.renderMessage('Open a note to see its relationships.');
+      return;
+    }
+    let graph: RelationshipGraph;
+    try {
+      graph = await this.plugin.relationshipGraphService.build(file);
+    } catch (error) {
+      logger.flowError('RelationshipGraph', 'render:failed', error, { path: file.path });
+      if (generation === this.renderGeneration) this.renderMessage('Could not build the relationship graph.');
+      return;
+    }
+    if (generation !== this.renderGeneration) return;
+
+    this.contentEl.empty();
+    this.contentEl.createDiv({ cls: 'tps-relationship-graph-title', text: graph.root.title });
+    if (graph.nodes.length === 1) {
+      this.contentEl.createDiv({
+        cls: 'tps-relationship-graph-empty',
+        text: 'No parents, children or linking notes yet.',
+      });
+      return;
+    }
+    this.contentEl.appendChild(this.createSvg(graph));
+    this.renderLegend(graph);
+  }
+
+  private renderMessage(text: string): void {
+    this.contentEl.empty();
+    this.contentEl.createDiv({ cls: 'tps-relationship-graph-empty', text });
+  }
+
+  private renderLegend(graph: RelationshipGraph): void {
+    const legend = this.contentEl.createDiv({ cls: 'tps-relationship-graph-legend' });
+    for (const state of ['active', 'done', 'other', 'none'] as const) {
+      const item = legend.createSpan({ cls: 'tps-relationship-graph-legend-item' });
+      item.createSpan({ cls: `tps-relationship-graph-swatch is-${state}` });
+      item.appendText(state === 'none' ? 'no status' : state);
+    }
+    const hidden = Object.entries(graph.hidden)
+      .filter(([, count]) => (count ?? 0) > 0)
+      .map(([relation, count]) => `${count} more ${HIDDEN_LABELS[relation as RelationshipGraphRelation]}`);
+    if (hidden.length > 0) {
+      this.contentEl.createDiv({ cls: 'tps-relationship-graph-hidden', text: `Not shown: ${hidden.join(', ')}` });
+    }
+  }
+
+  private createSvg(graph: RelationshipGraph): SVGSVGElement {
+    const layout = layoutRelationshipGraph(graph);
+    const positions = new Map(layout.nodes.map((entry) => [entry.node.path, entry]));
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('viewBox', `0 0 ${layout.width} ${layout.height}`);
+    svg.setAttribute('class', 'tps-relationship-graph-svg');
+
+    for (const edge of graph.edges) {
+      const from = positions.get(edge.from);
+      const to = positions.get(edge.to);
+      if (!from || !to) continue;
+      const path = document.createElementNS(SVG_NS, 'path');
+      const midY = (from.y + to.y) / 2;
+      path.setAttribute('d', `M ${from.x} ${from.y} C ${from.x} ${midY} ${to.x} ${midY} ${to.x} ${to.y}`);
+      path.setAttribute('class', `tps-relationship-graph-edge ${edge.via.map((via) => `via-${via}`).join(' ')}`);
+      svg.appendChild(path);
+    }
+    for (const entry of layout.nodes) {
+      svg.appendChild(this.createNode(entry.node, entry.x, entry.y));
+    }
+    return svg;
+  }
+
+  private createNode(node: RelationshipGraphNode, x: number, y: number): SVGGElement {
+    const group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('class', `tps-relationship-graph-node is-${node.relation} is-${node.statusState}`);
+    group.setAttribute('tabindex', '0');
+    group.setAttribute('role', 'button');
+    const description = node.status ? `${node.title} (${node.status})` : node.title;
+    group.setAttribute('aria-label', description);
+
+    const circle = document.createElementNS(SVG_NS, 'circle');
+    circle.setAttribute('cx', String(x));
+    circle.setAttribute('cy', String(y));
+    circle.setAttribute('r', String(node.relation === 'root' ? ROOT_RADIUS : NODE_RADIUS));
+    const tooltip = document.createElementNS(SVG_NS, 'title');
+    tooltip.textContent = `${node.relation === 'root' ? 'This note' : node.relation}: ${description}`;
+    circle.appendChild(tooltip);
+    group.appendChild(circle);
+
+    const label = document.createElementNS(SVG_NS, 'text');
+    label.setAttribute('x', String(x));
+    label.setAttribute('y', String(y + (node.relation === 'root' ? ROOT_RADIUS : NODE_RADIUS) + 12));
+    label.setAttribute('text-anchor', 'middle');
+    label.textContent = node.title.length > LABEL_MAX_LENGTH
+      ? `${node.title.slice(0, LABEL_MAX_LENGTH - 1)}…`
+      : node.title;
+    group.appendChild(label);
+
+    group.addEventListener('click', (evt) => {
+      evt.preventDefault();
+      this.openNode(node, evt.ctrlKey || evt.metaKey);
+    });
+    group.addEventListener('keydown', (evt) => {
+      if (evt.key !== 'Enter' && evt.key !== ' ') return;
+      evt.preventDefault();
+      this.openNode(node, false);
+    });
+    group.addEventListener('contextmenu', (evt) => {
+      const file = this.app.vault.getAbstractFileByPath(node.path);
+      if (!(file instanceof TFile)) return;
+      evt.preventDefault();
+      evt.stopPropagation();
+      const menu = new Menu();
+      this.plugin.menuController.addToNativeMenu(menu, [file]);
+      menu.showAtPosition({ x: evt.clientX, y: evt.clientY });
+    });
+    return group;
+  }
+
+  private openNode(node: RelationshipGraphNode, newTab: boolean): void {
+    const file = this.app.vault.getAbstractFileByPath(node.path);
+    if (!(file instanceof TFile)) return;
+    logger.flow('RelationshipGraph', 'open-node', { path: node.path, relation: node.relation, newTab });
+    void this.plugin.openFileInLeaf(file, false, () => this.app.workspace.getLeaf(newTab ? 'tab' : false), {
+      revealLeaf: true,
+    });
+  }
+}
@@ -9,6 +9,48 @@ export const TPS_LIST_VIEW_TYPE = 'tps-list';
 
 export function createTpsListViewOptions(createButtonOptions: ViewOption): ViewOption[] {
   return [
+    {
+      type: 'group',
+      displayName: 'Layout',
+      items: [
+        {
+          key: 'layout',
+          type: 'dropdown',
+          displayName: 'Layout',
+          default: 'list',
+          options: {
+            list: 'List',
+            calendar: 'Calendar',
+            timeline: 'Timeline',
+          },
+        },
+        {
+          key: 'calendarRange',
+          type: 'dropdown',
+          displayName: 'Calendar range',
+          default: 'month',
+          options: {
+            month: 'Month',
+            week: 'Week',
+            day: 'Day',
+          },
+        },
+        {
+          key: 'dateProperty',
+          type: 'text',
+          displayName: 'Date property',
+          default: 'scheduled',
+          placeholder: 'scheduled',
+        },
+        {
+          key: 'durationProperty',
+          type: 'text',
+          displayName: 'Duration property (minutes)',
+          default: 'timeEstimate',
+          placeholder: 'timeEstimate',
+        },
+      ],
+    },
     {
       type: 'group',
       displayName: 'Grouping',
@@ -33,6 +75,12 @@ export function createTpsListViewOptions(createButtonOptions: ViewOption): ViewO
             combined: 'Show in one combined group',
           },
         },
+        {
+          key: 'showSnoozed',
+          type: 'toggle',
+          displayName: 'Show snoozed items',
+          default: false,
+        },
       ],
     },
     createButtonOptions,